@@ -0,0 +1,72 @@
+import { getCurrentUser } from '@/lib/supabase-server'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { NextRequest, NextResponse } from 'next/server'
+import crypto from 'crypto'
+
+function feedUrl(request: NextRequest, token: string): string {
+  const origin = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin
+  return `${origin}/api/calendar/feed/${token}.ics`
+}
+
+// Tokens live in calendar_feed_tokens, readable only by their owner
+async function saveNewToken(profileId: string) {
+  const token = crypto.randomBytes(24).toString('hex')
+  const { error } = await getSupabaseAdmin()
+    .from('calendar_feed_tokens')
+    .upsert({ user_id: profileId, token, created_at: new Date().toISOString() }, { onConflict: 'user_id' })
+  return { token, error }
+}
+
+// GET /api/calendar/feed-token - The current user's calendar subscription URL (created on first use)
+export async function GET(request: NextRequest) {
+  try {
+    const profile = await getCurrentUser()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: existing } = await getSupabaseAdmin()
+      .from('calendar_feed_tokens')
+      .select('token')
+      .eq('user_id', profile.id)
+      .maybeSingle()
+
+    if (existing?.token) {
+      return NextResponse.json({ url: feedUrl(request, existing.token) })
+    }
+
+    const { token, error } = await saveNewToken(profile.id)
+    if (error) {
+      console.error('[Calendar Feed] Error creating token:', error)
+      return NextResponse.json({ error: 'Failed to create calendar link' }, { status: 500 })
+    }
+
+    return NextResponse.json({ url: feedUrl(request, token) })
+  } catch (error) {
+    console.error('[Calendar Feed] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/calendar/feed-token - Replace the token, invalidating the old subscription URL
+export async function POST(request: NextRequest) {
+  try {
+    const profile = await getCurrentUser()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { token, error } = await saveNewToken(profile.id)
+    if (error) {
+      console.error('[Calendar Feed] Error resetting token:', error)
+      return NextResponse.json({ error: 'Failed to reset calendar link' }, { status: 500 })
+    }
+
+    return NextResponse.json({ url: feedUrl(request, token) })
+  } catch (error) {
+    console.error('[Calendar Feed] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,45 @@
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { NextRequest, NextResponse } from 'next/server'
+import { buildLessonFeed } from '@/lib/calendar/lesson-calendar'
+
+// GET /api/calendar/feed/[token] - ICS subscription feed of the token owner's lessons
+//
+// Calendar apps can't sign in, so the secret token in the URL is the only
+// credential. A trailing ".ics" is accepted because some apps require it.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token: rawToken } = await params
+    const token = rawToken.replace(/\.ics$/i, '')
+
+    if (!token || token.length < 32) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    const admin = getSupabaseAdmin()
+    const { data: feedToken } = await admin
+      .from('calendar_feed_tokens')
+      .select('user_id')
+      .eq('token', token)
+      .maybeSingle()
+
+    if (!feedToken) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    const ics = await buildLessonFeed(admin, feedToken.user_id)
+
+    return new NextResponse(ics, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="lessons.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    })
+  } catch (error) {
+    console.error('[Calendar Feed] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, getCurrentUser } from '@/lib/supabase-server'
+import { getCourseBySlug } from '@/lib/courses'
+import { findLessonSectionId, loadCourseProgress } from '@/lib/course-progress'
+
+type RouteContext = { params: Promise<{ slug: string }> }
+
+// GET /api/courses/[slug]/progress - Current user's progress in a course
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { slug } = await params
+    const supabase = await createClient()
+    const profile = await getCurrentUser()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const course = await getCourseBySlug(supabase, slug)
+    if (!course?.id) {
+      return NextResponse.json({ error: 'Course not found' }, { status: 404 })
+    }
+
+    const { progress } = await loadCourseProgress(supabase, { ...course, id: course.id }, profile.id)
+    return NextResponse.json({ progress })
+  } catch (error) {
+    console.error('[Course Progress API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/courses/[slug]/progress - Record the lesson being viewed
+//
+// Body: { lessonId: string, completed?: boolean }. Always moves the resume
+// pointer; with completed: true also records the lesson as done. Lessons in a
+// section still locked behind a required quiz cannot be opened or completed.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { slug } = await params
+    const supabase = await createClient()
+    const profile = await getCurrentUser()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const course = await getCourseBySlug(supabase, slug)
+    if (!course?.id || !course.isUnlocked) {
+      return NextResponse.json({ error: 'Course not found' }, { status: 404 })
+    }
+    const trackedCourse = { ...course, id: course.id }
+
+    const body = await request.json()
+    const lessonId = typeof body.lessonId === 'string' ? body.lessonId : null
+    const sectionId = lessonId ? findLessonSectionId(course, lessonId) : null
+
+    if (!lessonId || !sectionId) {
+      return NextResponse.json({ error: 'Unknown lesson' }, { status: 400 })
+    }
+
+    const { progress: current } = await loadCourseProgress(supabase, trackedCourse, profile.id)
+    if (current.lockedSectionIds.includes(sectionId)) {
+      return NextResponse.json({ error: 'Pass the required quiz to unlock this module' }, { status: 403 })
+    }
+
+    if (body.completed === true) {
+      const { error: completionError } = await supabase
+        .from('course_lesson_completions')
+        .upsert(
+          { course_id: course.id, student_id: profile.id, lesson_id: lessonId },
+          { onConflict: 'course_id,student_id,lesson_id', ignoreDuplicates: true }
+        )
+
+      if (completionError) {
+        console.error('[Course Progress API] Error recording completion:', completionError)
+        return NextResponse.json({ error: 'Failed to save progress' }, { status: 500 })
+      }
+    }
+
+    const { progress } = await loadCourseProgress(supabase, trackedCourse, profile.id)
+
+    const enrollmentUpdate = {
+      last_lesson_id: lessonId,
+      last_accessed_at: new Date().toISOString(),
+      progress_percent: progress.progressPercent,
+      status: progress.progressPercent === 100 ? 'completed' : 'enrolled',
+      completed_at: progress.progressPercent === 100 ? new Date().toISOString() : null,
+    }
+
+    const { data: enrollment } = await supabase
+      .from('course_enrollments')
+      .update(enrollmentUpdate)
+      .eq('course_id', course.id)
+      .eq('student_id', profile.id)
+      .select('id')
+      .maybeSingle()
+
+    if (!enrollment) {
+      const { error: enrollError } = await supabase
+        .from('course_enrollments')
+        .insert({ course_id: course.id, student_id: profile.id, ...enrollmentUpdate })
+
+      if (enrollError) {
+        console.error('[Course Progress API] Error creating enrollment:', enrollError)
+      }
+    }
+
+    return NextResponse.json({ progress: { ...progress, lastLessonId: lessonId } })
+  } catch (error) {
+    console.error('[Course Progress API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
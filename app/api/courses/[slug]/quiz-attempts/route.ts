@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, getCurrentUser } from '@/lib/supabase-server'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { getCourseBySlug } from '@/lib/courses'
+import { findQuiz, gradeQuiz, loadCourseProgress } from '@/lib/course-progress'
+
+// POST /api/courses/[slug]/quiz-attempts - Submit and grade a quiz attempt
+//
+// Body: { quizId: string, answers: Record<questionId, optionIndex> }.
+// The score is computed here; the client only sends its selections.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params
+    const supabase = await createClient()
+    const profile = await getCurrentUser()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const course = await getCourseBySlug(supabase, slug)
+    if (!course?.id || !course.isUnlocked) {
+      return NextResponse.json({ error: 'Course not found' }, { status: 404 })
+    }
+    const trackedCourse = { ...course, id: course.id }
+
+    const body = await request.json()
+    const location = typeof body.quizId === 'string' ? findQuiz(course, body.quizId) : null
+    if (!location) {
+      return NextResponse.json({ error: 'Unknown quiz' }, { status: 400 })
+    }
+    if (!body.answers || typeof body.answers !== 'object') {
+      return NextResponse.json({ error: 'answers is required' }, { status: 400 })
+    }
+
+    const { progress: current } = await loadCourseProgress(supabase, trackedCourse, profile.id)
+    if (current.lockedSectionIds.includes(location.sectionId)) {
+      return NextResponse.json({ error: 'Pass the required quiz to unlock this module' }, { status: 403 })
+    }
+
+    const graded = gradeQuiz(location.quiz, body.answers)
+
+    // Attempts are insert-only for the service role so students cannot
+    // record a passing score without going through grading.
+    const { data: attempt, error } = await getSupabaseAdmin()
+      .from('course_quiz_attempts')
+      .insert({
+        course_id: course.id,
+        student_id: profile.id,
+        quiz_id: location.quiz.id,
+        section_id: location.sectionId,
+        lesson_id: location.lessonId,
+        score_percent: graded.scorePercent,
+        passed: graded.passed,
+        answers: graded.answers,
+      })
+      .select('id, created_at')
+      .single()
+
+    if (error || !attempt) {
+      console.error('[Course Progress API] Error saving quiz attempt:', error)
+      return NextResponse.json({ error: 'Failed to save quiz attempt' }, { status: 500 })
+    }
+
+    const { progress } = await loadCourseProgress(supabase, trackedCourse, profile.id)
+
+    return NextResponse.json({
+      attempt: {
+        id: attempt.id,
+        quizId: location.quiz.id,
+        lessonId: location.lessonId,
+        sectionId: location.sectionId,
+        scorePercent: graded.scorePercent,
+        passed: graded.passed,
+        answers: graded.answers,
+        createdAt: attempt.created_at,
+      },
+      progress,
+    })
+  } catch (error) {
+    console.error('[Course Progress API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
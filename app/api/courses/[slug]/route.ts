@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, getCurrentUser } from '@/lib/supabase-server'
+import {
+  COURSE_COLUMNS,
+  courseFromRow,
+  courseToRow,
+  getCourseBySlug,
+  type Course,
+  type CourseRow,
+} from '@/lib/courses'
+
+type RouteContext = { params: Promise<{ slug: string }> }
+
+/**
+ * Load a course row the current user may change: its instructor, or an admin.
+ * Built-in courses have no instructor, so only admins can edit them.
+ */
+async function loadEditableCourse(slug: string) {
+  const supabase = await createClient()
+  const profile = await getCurrentUser()
+
+  if (!profile) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { data: row } = await supabase
+    .from('courses')
+    .select('id, instructor_id')
+    .eq('slug', slug)
+    .maybeSingle()
+
+  if (!row) {
+    return { error: NextResponse.json({ error: 'Course not found' }, { status: 404 }) }
+  }
+
+  if (row.instructor_id !== profile.id && profile.role !== 'admin') {
+    return { error: NextResponse.json({ error: 'Only the course instructor can change this course' }, { status: 403 }) }
+  }
+
+  return { supabase, row }
+}
+
+// GET /api/courses/[slug] - Single course (drafts only for their instructor)
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { slug } = await params
+    const supabase = await createClient()
+    const course = await getCourseBySlug(supabase, slug)
+
+    if (!course) {
+      return NextResponse.json({ error: 'Course not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ course })
+  } catch (error) {
+    console.error('[Courses API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PATCH /api/courses/[slug] - Edit content and/or publish state
+//
+// Body: { course?: Course, isPublished?: boolean }. Sending only isPublished
+// is the publish/unpublish toggle.
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { slug } = await params
+    const result = await loadEditableCourse(slug)
+    if ('error' in result) return result.error
+
+    const body = await request.json()
+    const course = body.course as Course | undefined
+    const updates: Record<string, unknown> = {}
+
+    if (course) {
+      if (!course.title?.trim()) {
+        return NextResponse.json({ error: 'Course title is required' }, { status: 400 })
+      }
+      if (!Array.isArray(course.sections)) {
+        return NextResponse.json({ error: 'Course sections are required' }, { status: 400 })
+      }
+      Object.assign(updates, courseToRow(course))
+    }
+
+    if (typeof body.isPublished === 'boolean') {
+      updates.is_published = body.isPublished
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 })
+    }
+
+    const { data, error } = await result.supabase
+      .from('courses')
+      .update(updates)
+      .eq('id', result.row.id)
+      .select(COURSE_COLUMNS)
+      .single()
+
+    if (error || !data) {
+      console.error('[Courses API] Error updating course:', error)
+      return NextResponse.json({ error: 'Failed to update course', details: error?.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ course: courseFromRow(data as CourseRow) })
+  } catch (error) {
+    console.error('[Courses API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE /api/courses/[slug] - Remove a course
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { slug } = await params
+    const result = await loadEditableCourse(slug)
+    if ('error' in result) return result.error
+
+    const { data: deleted, error } = await result.supabase
+      .from('courses')
+      .delete()
+      .eq('id', result.row.id)
+      .select('id')
+
+    if (error) {
+      console.error('[Courses API] Error deleting course:', error)
+      return NextResponse.json({ error: 'Failed to delete course', details: error.message }, { status: 500 })
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({ error: 'Course not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[Courses API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
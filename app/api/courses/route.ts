@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, getCurrentUser } from '@/lib/supabase-server'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import {
+  COURSE_COLUMNS,
+  courseFromRow,
+  courseToRow,
+  getAllCourses,
+  slugifyCourseTitle,
+  type Course,
+  type CourseRow,
+} from '@/lib/courses'
+
+// GET /api/courses - Course catalogue visible to the current user
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const courses = await getAllCourses(supabase)
+    return NextResponse.json({ courses })
+  } catch (error) {
+    console.error('[Courses API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/courses - Create a teacher-authored course
+//
+// Body: { course: Course, publish?: boolean }. New courses are drafts unless
+// publish is set; the slug is derived from the title and made unique here.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const profile = await getCurrentUser()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const isTeacher = profile.role === 'teacher' || profile.role === 'instructor' || profile.role === 'admin'
+    if (!isTeacher) {
+      return NextResponse.json({ error: 'Only teachers can create courses' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const course = body.course as Course | undefined
+
+    if (!course?.title?.trim()) {
+      return NextResponse.json({ error: 'Course title is required' }, { status: 400 })
+    }
+    if (!Array.isArray(course.sections)) {
+      return NextResponse.json({ error: 'Course sections are required' }, { status: 400 })
+    }
+
+    const slug = await uniqueSlug(slugifyCourseTitle(course.title))
+
+    const { data, error } = await supabase
+      .from('courses')
+      .insert({
+        ...courseToRow(course),
+        slug,
+        instructor_id: profile.id,
+        is_builtin: false,
+        is_published: !!body.publish,
+      })
+      .select(COURSE_COLUMNS)
+      .single()
+
+    if (error || !data) {
+      console.error('[Courses API] Error creating course:', error)
+      return NextResponse.json({ error: 'Failed to create course', details: error?.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ course: courseFromRow(data as CourseRow) }, { status: 201 })
+  } catch (error) {
+    console.error('[Courses API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * Append -2, -3, ... until the slug is free. Uses the admin client because
+ * RLS hides other teachers' drafts, which still own their slugs.
+ */
+async function uniqueSlug(base: string): Promise<string> {
+  const admin = getSupabaseAdmin()
+  const { data } = await admin
+    .from('courses')
+    .select('slug')
+    .like('slug', `${base}%`)
+
+  const taken = new Set((data || []).map((row) => row.slug))
+  if (!taken.has(base)) return base
+
+  let suffix = 2
+  while (taken.has(`${base}-${suffix}`)) suffix++
+  return `${base}-${suffix}`
+}
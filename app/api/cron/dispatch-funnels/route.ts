@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase-admin'
+import { dispatchEnrollment, type FunnelDispatchResult } from '@/lib/email/funnel-dispatch'
+
+// ============================================================================
+// Cron job to send due funnel (drip) emails
+// Runs every 5 minutes via Vercel cron
+//
+// Enrollment routes only schedule the next email; this job is what sends it.
+// The send/advance logic lives in lib/email/funnel-dispatch. dispatchEnrollment()
+// claims each enrollment atomically, so overlapping runs cannot double-send.
+// ============================================================================
+
+/** Cap per run so a large backlog cannot blow the function timeout. */
+const MAX_PER_RUN = 25
+
+export const maxDuration = 60
+
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const admin = createSupabaseAdmin()
+    const now = new Date().toISOString()
+
+    // Paused or archived funnels keep their enrollments' schedule untouched,
+    // so resuming the funnel picks up where it left off.
+    const { data: due, error } = await admin
+      .from('email_funnel_enrollments')
+      .select('id, funnel:email_funnels!inner(status, is_deleted)')
+      .eq('status', 'active')
+      .eq('funnel.status', 'active')
+      .eq('funnel.is_deleted', false)
+      .not('next_email_scheduled_at', 'is', null)
+      .lte('next_email_scheduled_at', now)
+      .order('next_email_scheduled_at', { ascending: true })
+      .limit(MAX_PER_RUN)
+
+    if (error) {
+      console.error('[Cron] Funnel dispatch query failed:', error)
+      return NextResponse.json({ error: 'Failed to fetch due enrollments' }, { status: 500 })
+    }
+
+    if (!due || due.length === 0) {
+      return NextResponse.json({ message: 'No funnel emails due', processed: 0 })
+    }
+
+    console.log(`[Cron] Dispatching ${due.length} funnel enrollment(s)`)
+
+    const results: FunnelDispatchResult[] = []
+    for (const enrollment of due) {
+      results.push(await dispatchEnrollment(admin, enrollment.id))
+    }
+
+    const count = (status: FunnelDispatchResult['status']) => results.filter(r => r.status === status).length
+
+    return NextResponse.json({
+      message: `Processed ${results.length} enrollment(s)`,
+      sent: count('sent') + count('completed'),
+      completed: count('completed'),
+      failed: count('failed'),
+      paused: count('paused'),
+      skipped: count('skipped'),
+      results,
+    })
+  } catch (err) {
+    console.error('[Cron] Unexpected error in dispatch-funnels:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
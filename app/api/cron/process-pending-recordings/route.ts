@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createSupabaseAdmin } from '@/lib/supabase-admin'
 import { processRecording } from '@/lib/lesson-processing'
+import { FFMPEG_MISSING_ERROR } from '@/lib/audio-chunks'
 
 // ============================================================================
 // Cron job to process pending recordings that may have been missed
@@ -10,8 +11,14 @@ import { processRecording } from '@/lib/lesson-processing'
 // the upload handler and the manual reprocess endpoint all behave identically.
 // processRecording() claims each row atomically, so overlapping runs cannot
 // double-transcribe the same file.
+//
+// Long recordings are transcribed in chunks with progress saved after each
+// one. If a run times out part-way the row is left 'processing'; once it has
+// gone quiet it is picked up below as stuck and resumes from the next chunk.
 // ============================================================================
 
+export const maxDuration = 300
+
 export async function GET(request: NextRequest) {
   try {
     // Verify cron secret (Vercel sends this automatically)
@@ -26,7 +33,9 @@ export async function GET(request: NextRequest) {
 
     // Find recordings that are:
     // 1. Status 'pending' and older than 5 minutes (fire-and-forget likely failed)
-    // 2. Status 'processing' and older than 15 minutes (stuck)
+    // 2. Status 'processing' with no progress written for 15 minutes (stuck).
+    //    Chunked transcription touches updated_at after every chunk, so a long
+    //    recording that is still moving is not mistaken for a stuck one.
     // 3. Status 'failed' and older than 1 hour (retry failed ones periodically)
     const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000).toISOString()
     const fifteenMinutesAgo = new Date(Date.now() - 15 * 60 * 1000).toISOString()
@@ -43,12 +52,14 @@ export async function GET(request: NextRequest) {
       .from('lesson_recordings')
       .select('id')
       .eq('ai_processing_status', 'processing')
-      .lt('created_at', fifteenMinutesAgo)
+      .lt('updated_at', fifteenMinutesAgo)
       .limit(3)
 
-    // Only retry failures that are worth retrying. A transcript-too-short or
-    // over-size failure will fail identically every run, so retrying it just
-    // burns Whisper spend on every cron tick.
+    // Only retry failures that are worth retrying. A transcript-too-short
+    // failure will fail identically every run, so retrying it just burns
+    // Whisper spend on every cron tick. Neither will a recording too long to
+    // send whole on a server without ffmpeg, and retrying that re-downloads the
+    // full video each time.
     const { data: failedRecordings } = await admin
       .from('lesson_recordings')
       .select('id, ai_processing_error')
@@ -58,7 +69,7 @@ export async function GET(request: NextRequest) {
 
     const retryableFailed = (failedRecordings || []).filter(r => {
       const err = r.ai_processing_error || ''
-      return !err.includes('too short to summarise') && !err.includes('above Whisper')
+      return !err.includes('too short to summarise') && !err.includes(FFMPEG_MISSING_ERROR)
     })
 
     const permanentlyFailed = (failedRecordings || []).length - retryableFailed.length
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase-admin'
+import { sendDueLessonReminders } from '@/lib/lesson-reminders'
+
+// ============================================================================
+// Cron job to send lesson reminders by email and SMS
+// Runs every 5 minutes via Vercel cron
+//
+// sendDueLessonReminders() claims each reminder in lesson_reminder_log before
+// sending, so overlapping or retried runs never send one twice.
+// ============================================================================
+
+export const maxDuration = 60
+
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await sendDueLessonReminders(createSupabaseAdmin())
+
+    if (result.sent > 0 || result.failed > 0) {
+      console.log(`[Cron] Lesson reminders: ${result.sent} sent, ${result.failed} failed, ${result.deferred} deferred`)
+    }
+
+    return NextResponse.json({ message: 'Lesson reminders processed', ...result })
+  } catch (err) {
+    console.error('[Cron] Unexpected error in send-lesson-reminders:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { revalidatePath } from 'next/cache'
+import { createSupabaseAdmin } from '@/lib/supabase-admin'
+import {
+  dispatchScheduledEmail,
+  dueScheduledFilter,
+  type ScheduledSendResult,
+} from '@/lib/email/scheduled-dispatch'
+
+// ============================================================================
+// Cron job to send emails the user scheduled for later
+// Runs every minute via Vercel cron
+//
+// /api/email/send stores scheduled mail as 'queued' and returns straight away.
+// This job finds the ones that are due and hands each to
+// dispatchScheduledEmail(), which claims the row atomically, re-runs the send
+// gate, and handles retry/backoff. Overlapping runs cannot double-send.
+// ============================================================================
+
+/** Cap per run so a large backlog cannot blow the function timeout. */
+const MAX_PER_RUN = 20
+
+export const maxDuration = 60
+
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const admin = createSupabaseAdmin()
+    const now = new Date()
+
+    const { data: due, error } = await admin
+      .from('emails')
+      .select('id')
+      .not('scheduled_at', 'is', null)
+      .lte('scheduled_at', now.toISOString())
+      .or(dueScheduledFilter(now))
+      .eq('is_deleted', false)
+      .order('scheduled_at', { ascending: true })
+      .limit(MAX_PER_RUN)
+
+    if (error) {
+      console.error('[Cron] Scheduled send query failed:', error)
+      return NextResponse.json({ error: 'Failed to fetch scheduled emails' }, { status: 500 })
+    }
+
+    if (!due || due.length === 0) {
+      return NextResponse.json({ message: 'No scheduled emails due', processed: 0 })
+    }
+
+    console.log(`[Cron] Sending ${due.length} scheduled email(s)`)
+
+    const results: ScheduledSendResult[] = []
+    for (const email of due) {
+      results.push(await dispatchScheduledEmail(admin, email.id))
+    }
+
+    const count = (status: ScheduledSendResult['status']) => results.filter(r => r.status === status).length
+
+    if (count('sent') > 0) {
+      revalidatePath('/dashboard/email/sent')
+      revalidatePath('/dashboard/email/scheduled')
+    }
+
+    return NextResponse.json({
+      message: `Processed ${results.length} scheduled email(s)`,
+      sent: count('sent'),
+      retrying: count('retrying'),
+      failed: count('failed'),
+      skipped: count('skipped'),
+      results,
+    })
+  } catch (err) {
+    console.error('[Cron] Unexpected error in send-scheduled:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
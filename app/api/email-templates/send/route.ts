@@ -127,7 +127,8 @@ export async function POST(request: NextRequest) {
           bodyText = bodyText.replace(regex, value)
         }
 
-        // Generate message ID
+        // Generate message ID (generateMessageId already adds the angle brackets;
+        // scheduled rows are sent later with this stored value as the header)
         const messageId = generateMessageId(emailAccount.domain.domain)
 
         // Create thread
@@ -162,7 +163,7 @@ export async function POST(request: NextRequest) {
             thread_id: thread.id,
             email_account_id: emailAccount.id,
             organization_id: emailAccount.organization_id,
-            message_id: `<${messageId}>`,
+            message_id: messageId,
             from_address: emailAccount.email_address,
             from_name: emailAccount.display_name,
             to_addresses: [{ email: lead.email, name: `${lead.first_name || ''} ${lead.last_name || ''}`.trim() || null }],
@@ -200,7 +201,7 @@ export async function POST(request: NextRequest) {
           text: bodyText,
           html: bodyHtml,
           headers: {
-            'Message-ID': `<${messageId}>`,
+            'Message-ID': messageId,
           },
           trackingSettings: {
             clickTracking: { enable: true },
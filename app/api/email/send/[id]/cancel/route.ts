@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient as createServerClient } from '@/lib/supabase-server'
 import { getSupabaseAdmin } from '@/lib/supabase-admin'
 
-// POST /api/email/send/[id]/cancel - Cancel a queued email before it's sent
+// POST /api/email/send/[id]/cancel - Cancel a queued or scheduled email before it's sent
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -37,34 +37,53 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
     }
 
-    // Check if email can still be undone
-    if (!email.can_undo_until) {
-      return NextResponse.json({ error: 'Email cannot be undone' }, { status: 400 })
-    }
+    // Scheduled emails can be cancelled any time before the scheduled-send cron
+    // claims them, and failed ones can be discarded from the Scheduled folder.
+    const isScheduled = !!email.scheduled_at
 
-    const canUndoUntil = new Date(email.can_undo_until)
-    if (canUndoUntil < new Date()) {
-      return NextResponse.json({ error: 'Undo window has expired' }, { status: 400 })
-    }
+    if (isScheduled) {
+      if (email.status !== 'queued' && email.status !== 'failed') {
+        return NextResponse.json({
+          error: `Cannot cancel scheduled email with status: ${email.status}`
+        }, { status: 400 })
+      }
+    } else {
+      // Check if email can still be undone
+      if (!email.can_undo_until) {
+        return NextResponse.json({ error: 'Email cannot be undone' }, { status: 400 })
+      }
 
-    // Check email status - can only undo if queued
-    if (email.status !== 'queued') {
-      return NextResponse.json({
-        error: `Cannot undo email with status: ${email.status}`
-      }, { status: 400 })
+      const canUndoUntil = new Date(email.can_undo_until)
+      if (canUndoUntil < new Date()) {
+        return NextResponse.json({ error: 'Undo window has expired' }, { status: 400 })
+      }
+
+      // Check email status - can only undo if queued
+      if (email.status !== 'queued') {
+        return NextResponse.json({
+          error: `Cannot undo email with status: ${email.status}`
+        }, { status: 400 })
+      }
     }
 
-    // Delete the email
-    const { error: deleteError } = await admin
+    // Delete the email. The status filter stops a cancel racing the cron: once
+    // the worker has claimed the row (status 'sending'), nothing is deleted.
+    const { data: deleted, error: deleteError } = await admin
       .from('emails')
       .delete()
       .eq('id', emailId)
+      .in('status', ['queued', 'failed'])
+      .select('id')
 
     if (deleteError) {
       console.error('Error deleting email:', deleteError)
       return NextResponse.json({ error: 'Failed to cancel email' }, { status: 500 })
     }
 
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({ error: 'Email is already being sent' }, { status: 409 })
+    }
+
     // Check if thread should be deleted too (if this was the only email)
     if (email.thread_id) {
       const { count } = await admin
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient as createServerClient } from '@/lib/supabase-server'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { runSendGate } from '@/lib/email/send-gate'
+import { generateSnippet, parseEmailAddress, stripHtml } from '@/lib/email-utils'
+import { EmailParticipant } from '@/types/email.types'
+
+// PATCH /api/email/send/[id] - Edit or reschedule a scheduled email before dispatch
+//
+// Accepts any of subject, body_html/body_text, to/cc/bcc and schedule_at.
+// Rescheduling a failed email puts it back in the queue with a fresh retry budget.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: emailId } = await params
+    const supabase = await createServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const admin = getSupabaseAdmin()
+
+    const { data: email, error: emailError } = await admin
+      .from('emails')
+      .select(`
+        id, status, scheduled_at, in_reply_to, references_header, body_html, body_text,
+        email_account:email_accounts(id, user_id)
+      `)
+      .eq('id', emailId)
+      .single()
+
+    if (emailError || !email) {
+      return NextResponse.json({ error: 'Email not found' }, { status: 404 })
+    }
+
+    const account = email.email_account as unknown as { id: string; user_id: string } | null
+    if (account?.user_id !== user.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
+    }
+
+    if (!email.scheduled_at || (email.status !== 'queued' && email.status !== 'failed')) {
+      return NextResponse.json({
+        error: `Only scheduled emails that have not been sent can be edited (status: ${email.status})`
+      }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const updates: Record<string, unknown> = {}
+
+    if (typeof body.subject === 'string') {
+      updates.subject = body.subject
+    }
+
+    if (body.schedule_at !== undefined) {
+      const scheduleAt = new Date(body.schedule_at)
+      if (Number.isNaN(scheduleAt.getTime())) {
+        return NextResponse.json({ error: 'Invalid schedule time' }, { status: 400 })
+      }
+      if (scheduleAt.getTime() < Date.now() - 60 * 1000) {
+        return NextResponse.json({ error: 'Schedule time must be in the future' }, { status: 400 })
+      }
+      updates.scheduled_at = scheduleAt.toISOString()
+    }
+
+    for (const field of ['to', 'cc', 'bcc'] as const) {
+      if (body[field] === undefined) continue
+      if (!Array.isArray(body[field])) {
+        return NextResponse.json({ error: `${field} must be an array` }, { status: 400 })
+      }
+      const recipients: EmailParticipant[] = body[field].map((address: string) => parseEmailAddress(address))
+      if (field === 'to' && recipients.length === 0) {
+        return NextResponse.json({ error: 'At least one recipient is required' }, { status: 400 })
+      }
+      updates[`${field}_addresses`] = recipients.map(r => ({ email: r.email, name: r.name || null }))
+    }
+
+    if (body.body_html !== undefined || body.body_text !== undefined) {
+      const gate = runSendGate({
+        bodyHtml: body.body_html ?? email.body_html,
+        bodyText: body.body_text ?? email.body_text,
+        isReply: !!email.in_reply_to,
+        inReplyTo: email.in_reply_to,
+        references: email.references_header?.join(' ') || null,
+      })
+
+      if (!gate.ok) {
+        return NextResponse.json({ error: gate.error, code: gate.code }, { status: 400 })
+      }
+
+      updates.body_html = gate.bodyHtml
+      updates.body_text = gate.bodyText
+      updates.snippet = generateSnippet(gate.bodyText || stripHtml(gate.bodyHtml))
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 })
+    }
+
+    // Any edit re-arms the email: back in the queue with a fresh retry budget.
+    Object.assign(updates, {
+      status: 'queued',
+      send_attempt_count: 0,
+      send_next_retry_at: null,
+      send_error: null,
+    })
+
+    // Status filter guards against the cron claiming the row mid-edit.
+    const { data: updated, error: updateError } = await admin
+      .from('emails')
+      .update(updates)
+      .eq('id', emailId)
+      .in('status', ['queued', 'failed'])
+      .select('id, subject, scheduled_at, status')
+      .maybeSingle()
+
+    if (updateError) {
+      console.error('Error updating scheduled email:', updateError)
+      return NextResponse.json({ error: 'Failed to update email' }, { status: 500 })
+    }
+
+    if (!updated) {
+      return NextResponse.json({ error: 'Email is already being sent' }, { status: 409 })
+    }
+
+    return NextResponse.json({ success: true, email: updated })
+  } catch (error) {
+    console.error('Error updating scheduled email:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -217,6 +217,9 @@ function parseMimeAttachments(mimeContent: string, depth: number = 0): MimeAttac
           console.error('[parseMimeAttachments] Failed to decode base64 for:', filename)
           continue
         }
+      } else if (part.toLowerCase().includes('content-transfer-encoding: quoted-printable')) {
+        // Outlook sends text/calendar invites quoted-printable encoded
+        contentBuffer = Buffer.from(decodeQuotedPrintable(rawContent))
       } else {
         contentBuffer = Buffer.from(rawContent)
       }
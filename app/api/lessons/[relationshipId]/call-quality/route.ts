@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase-admin'
+import { requireLessonRoomMember } from '@/lib/lesson-room'
+import { summarizeQuality, type CandidateType, type PeerStatsSample, type QualityLevel } from '@/lib/call-quality'
+
+/** About three hours of samples per participant at the logging rate */
+const MAX_LOGGED_SAMPLES = 2000
+const MAX_SAMPLES_PER_REQUEST = 200
+
+const QUALITY_LEVELS: QualityLevel[] = ['good', 'fair', 'poor']
+const CANDIDATE_TYPES: CandidateType[] = ['host', 'srflx', 'prflx', 'relay', 'unknown']
+
+function numberOrNull(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === 'string' ? value.slice(0, 32) : null
+}
+
+// Keep only the known fields; the browser is not trusted to shape the JSONB
+function sanitizeSample(raw: unknown): PeerStatsSample | null {
+  if (!raw || typeof raw !== 'object') return null
+  const s = raw as Record<string, unknown>
+  if (typeof s.at !== 'string' || Number.isNaN(Date.parse(s.at)) || typeof s.peerId !== 'string') return null
+
+  return {
+    at: s.at,
+    peerId: s.peerId.slice(0, 64),
+    rttMs: numberOrNull(s.rttMs),
+    jitterMs: numberOrNull(s.jitterMs),
+    inboundLossPct: numberOrNull(s.inboundLossPct),
+    outboundLossPct: numberOrNull(s.outboundLossPct),
+    inKbps: numberOrNull(s.inKbps),
+    outKbps: numberOrNull(s.outKbps),
+    inResolution: stringOrNull(s.inResolution),
+    outResolution: stringOrNull(s.outResolution),
+    outFps: numberOrNull(s.outFps),
+    candidateType: CANDIDATE_TYPES.includes(s.candidateType as CandidateType) ? s.candidateType as CandidateType : 'unknown',
+    videoLevel: numberOrNull(s.videoLevel) ?? 0,
+    quality: QUALITY_LEVELS.includes(s.quality as QualityLevel) ? s.quality as QualityLevel : 'good',
+  }
+}
+
+// POST /api/lessons/[relationshipId]/call-quality - Append quality samples for the current class
+//
+// Body: { classStartedAt, samples: PeerStatsSample[] }. Any participant of the
+// lesson logs their own side of the call.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ relationshipId: string }> }
+) {
+  try {
+    const { relationshipId: bookingId } = await params
+    const check = await requireLessonRoomMember(bookingId)
+    if ('error' in check) return check.error
+    // Observers send nothing, so they have no side of the call to log
+    if (check.role === 'observer') {
+      return NextResponse.json({ error: 'Not a participant of this lesson' }, { status: 403 })
+    }
+
+    const { classStartedAt, samples } = await request.json()
+    if (typeof classStartedAt !== 'string' || Number.isNaN(Date.parse(classStartedAt))) {
+      return NextResponse.json({ error: 'Invalid classStartedAt' }, { status: 400 })
+    }
+    if (!Array.isArray(samples) || samples.length === 0 || samples.length > MAX_SAMPLES_PER_REQUEST) {
+      return NextResponse.json({ error: 'samples must be a non-empty array' }, { status: 400 })
+    }
+
+    const incoming = samples.map(sanitizeSample).filter((s): s is PeerStatsSample => s !== null)
+
+    // Appended in SQL; oldest samples go first when a marathon session hits the cap
+    const { error } = await createSupabaseAdmin().rpc('append_class_session_quality', {
+      p_student_id: check.booking.student_id,
+      p_booking_id: bookingId,
+      p_class_started_at: classStartedAt,
+      p_participant_id: check.userId,
+      p_samples: incoming,
+      p_max_samples: MAX_LOGGED_SAMPLES,
+    })
+
+    if (error) {
+      console.error('[Call Quality] Error saving quality samples:', error)
+      return NextResponse.json({ error: 'Failed to save quality samples' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, logged: incoming.length })
+  } catch (error) {
+    console.error('Error in POST /api/lessons/[relationshipId]/call-quality:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// GET /api/lessons/[relationshipId]/call-quality?classStartedAt= - Quality report for one class
+//
+// Teacher (or admin) only. Returns each participant's summary per peer, plus
+// the raw samples for charting.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ relationshipId: string }> }
+) {
+  try {
+    const { relationshipId: bookingId } = await params
+    const classStartedAt = request.nextUrl.searchParams.get('classStartedAt')
+
+    const check = await requireLessonRoomMember(bookingId)
+    if ('error' in check) return check.error
+    if (!classStartedAt || Number.isNaN(Date.parse(classStartedAt))) {
+      return NextResponse.json({ error: 'classStartedAt is required' }, { status: 400 })
+    }
+    if (check.role !== 'host') {
+      return NextResponse.json({ error: 'Only the teacher can view call quality' }, { status: 403 })
+    }
+
+    const admin = createSupabaseAdmin()
+    const { data: rows, error } = await admin
+      .from('class_session_quality')
+      .select('participant_id, samples')
+      .eq('booking_id', bookingId)
+      .eq('class_started_at', classStartedAt)
+
+    if (error) {
+      console.error('[Call Quality] Error fetching quality logs:', error)
+      return NextResponse.json({ error: 'Failed to fetch call quality' }, { status: 500 })
+    }
+
+    const { data: names } = await admin
+      .from('profiles')
+      .select('id, name')
+      .in('id', (rows || []).map(row => row.participant_id))
+    const nameById = new Map((names || []).map(p => [p.id, p.name as string | null]))
+
+    const participants = (rows || []).map(row => {
+      const samples = (row.samples as PeerStatsSample[] | null) ?? []
+      return {
+        participantId: row.participant_id,
+        name: nameById.get(row.participant_id) ?? null,
+        role: row.participant_id === check.booking.instructor_id ? 'teacher' : 'student',
+        summary: summarizeQuality(samples),
+        samples,
+      }
+    })
+
+    return NextResponse.json({ participants })
+  } catch (error) {
+    console.error('Error in GET /api/lessons/[relationshipId]/call-quality:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireLessonRoomMember } from '@/lib/lesson-room'
+import { createSupabaseAdmin } from '@/lib/supabase-admin'
+import { CHAT_FILES_BUCKET } from '@/lib/lesson-chat'
+
+// GET /api/lessons/[relationshipId]/chat/[messageId]/file - Open a file shared in chat
+//
+// Archived notes link here rather than to storage, so the link keeps working:
+// each visit checks access and redirects to a fresh short-lived signed URL.
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ relationshipId: string; messageId: string }> }
+) {
+  try {
+    const { relationshipId: bookingId, messageId } = await params
+    const check = await requireLessonRoomMember(bookingId)
+    if ('error' in check) return check.error
+
+    const admin = createSupabaseAdmin()
+    const { data: message } = await admin
+      .from('lesson_chat_messages')
+      .select('attachment_path, attachment_name')
+      .eq('id', messageId)
+      .eq('booking_id', bookingId)
+      .maybeSingle()
+
+    if (!message?.attachment_path) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 })
+    }
+
+    const { data: urlData, error } = await admin.storage
+      .from(CHAT_FILES_BUCKET)
+      .createSignedUrl(message.attachment_path, 60 * 60, { download: message.attachment_name || true })
+
+    if (error || !urlData) {
+      console.error('[Lesson Chat] Failed to sign file URL:', error)
+      return NextResponse.json({ error: 'Failed to open file' }, { status: 500 })
+    }
+
+    return NextResponse.redirect(urlData.signedUrl)
+  } catch (error) {
+    console.error('Error in GET /api/lessons/[relationshipId]/chat/[messageId]/file:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
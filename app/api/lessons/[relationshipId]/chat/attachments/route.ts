@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase-admin'
+import { requireLessonRoomMember } from '@/lib/lesson-room'
+import { CHAT_FILES_BUCKET, MAX_CHAT_FILE_BYTES, isChatFileType } from '@/lib/lesson-chat'
+
+// POST /api/lessons/[relationshipId]/chat/attachments - Signed upload URL for a file shared in chat
+//
+// Body: { filename, size, type }. The browser uploads straight to storage,
+// then posts the message with the returned storagePath. The bucket enforces
+// the size and type limits on the upload itself; these checks just fail early.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ relationshipId: string }> }
+) {
+  try {
+    const { relationshipId: bookingId } = await params
+    const check = await requireLessonRoomMember(bookingId)
+    if ('error' in check) return check.error
+    if (check.role === 'observer') {
+      return NextResponse.json({ error: 'Observers cannot share files' }, { status: 403 })
+    }
+
+    const { filename, size, type } = await request.json()
+    if (!filename || typeof filename !== 'string') {
+      return NextResponse.json({ error: 'filename is required' }, { status: 400 })
+    }
+    if (typeof size !== 'number' || !Number.isFinite(size) || size <= 0) {
+      return NextResponse.json({ error: 'size is required' }, { status: 400 })
+    }
+    if (!isChatFileType(type)) {
+      return NextResponse.json({ error: 'This type of file cannot be shared in chat' }, { status: 400 })
+    }
+    if (size > MAX_CHAT_FILE_BYTES) {
+      return NextResponse.json(
+        { error: `Files are limited to ${Math.round(MAX_CHAT_FILE_BYTES / 1024 / 1024)} MB` },
+        { status: 400 }
+      )
+    }
+
+    const safeName = filename.replace(/[^\w.\- ]+/g, '_').slice(0, 200)
+    const storagePath = `${bookingId}/${crypto.randomUUID()}/${safeName}`
+
+    const { data, error } = await createSupabaseAdmin().storage
+      .from(CHAT_FILES_BUCKET)
+      .createSignedUploadUrl(storagePath)
+
+    if (error || !data) {
+      console.error('[Lesson Chat] Failed to create upload URL:', error)
+      return NextResponse.json({ error: 'Failed to create upload URL' }, { status: 500 })
+    }
+
+    return NextResponse.json({ uploadUrl: data.signedUrl, storagePath })
+  } catch (error) {
+    console.error('Error in POST /api/lessons/[relationshipId]/chat/attachments:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
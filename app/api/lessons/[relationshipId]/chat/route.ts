@@ -0,0 +1,234 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase-admin'
+import { requireLessonRoomMember } from '@/lib/lesson-room'
+import {
+  CHAT_FILES_BUCKET,
+  MAX_CHAT_FILE_BYTES,
+  MAX_CHAT_MESSAGE_LENGTH,
+  chatMessageFromRow,
+  type LessonChatRow,
+  type LessonChatSearchResult,
+} from '@/lib/lesson-chat'
+
+const MAX_SEARCH_RESULTS = 50
+const CHAT_COLUMNS = 'id, sender_id, sender_name, body, attachment_path, attachment_name, attachment_type, attachment_size, created_at, pinned_at'
+
+// Name shown on a message, as it was when it was sent
+async function senderNameOf(userId: string): Promise<string> {
+  const { data: profile } = await createSupabaseAdmin()
+    .from('profiles')
+    .select('name, first_name, last_name')
+    .eq('id', userId)
+    .single()
+  return profile?.name || `${profile?.first_name || ''} ${profile?.last_name || ''}`.trim() || 'Participant'
+}
+
+// Start time of the class that is running now, or null between classes
+async function currentClassStartedAt(studentId: string): Promise<string | null> {
+  const { data: session } = await createSupabaseAdmin()
+    .from('class_sessions')
+    .select('is_active, started_at')
+    .eq('student_id', studentId)
+    .maybeSingle()
+  return session?.is_active && session.started_at ? session.started_at : null
+}
+
+// Size of an uploaded chat file as storage has it, or null if it isn't there.
+// The size the browser reports is never trusted.
+async function storedFileSize(path: string): Promise<number | null> {
+  const slash = path.lastIndexOf('/')
+  const name = path.slice(slash + 1)
+  const { data } = await createSupabaseAdmin().storage
+    .from(CHAT_FILES_BUCKET)
+    .list(path.slice(0, slash), { search: name })
+  const size = data?.find(file => file.name === name)?.metadata?.size
+  return typeof size === 'number' ? size : null
+}
+
+// GET /api/lessons/[relationshipId]/chat - Chat for the running class
+//
+// ?archiveId= returns a past class's chat instead, and ?q= searches the chat
+// of every class in this booking. Observers only see the running class.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ relationshipId: string }> }
+) {
+  try {
+    const { relationshipId: bookingId } = await params
+    const check = await requireLessonRoomMember(bookingId)
+    if ('error' in check) return check.error
+
+    const query = request.nextUrl.searchParams.get('q')?.trim()
+    const archiveId = request.nextUrl.searchParams.get('archiveId')
+    if ((query || archiveId) && check.role === 'observer') {
+      return NextResponse.json({ error: 'Observers can only see the chat of a running class' }, { status: 403 })
+    }
+
+    const admin = createSupabaseAdmin()
+
+    if (query) {
+      const { data: rows, error } = await admin
+        .from('lesson_chat_messages')
+        .select(`${CHAT_COLUMNS}, class_started_at, archive_id`)
+        .eq('booking_id', bookingId)
+        .textSearch('search', query, { type: 'websearch', config: 'english' })
+        .order('created_at', { ascending: false })
+        .limit(MAX_SEARCH_RESULTS)
+
+      if (error) {
+        console.error('[Lesson Chat] Error searching chat:', error)
+        return NextResponse.json({ error: 'Failed to search chat' }, { status: 500 })
+      }
+
+      const results: LessonChatSearchResult[] = (rows || []).map(row => ({
+        ...chatMessageFromRow(bookingId, row as LessonChatRow),
+        classStartedAt: row.class_started_at,
+        archiveId: row.archive_id,
+      }))
+      return NextResponse.json({ results })
+    }
+
+    let messagesQuery = admin
+      .from('lesson_chat_messages')
+      .select(CHAT_COLUMNS)
+      .eq('booking_id', bookingId)
+      .order('created_at', { ascending: true })
+
+    if (archiveId) {
+      messagesQuery = messagesQuery.eq('archive_id', archiveId)
+    } else {
+      const classStartedAt = await currentClassStartedAt(check.booking.student_id)
+      if (!classStartedAt) return NextResponse.json({ messages: [] })
+      messagesQuery = messagesQuery.eq('class_started_at', classStartedAt).is('archive_id', null)
+    }
+
+    const { data: rows, error } = await messagesQuery
+    if (error) {
+      console.error('[Lesson Chat] Error fetching chat:', error)
+      return NextResponse.json({ error: 'Failed to fetch chat' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      messages: (rows || []).map(row => chatMessageFromRow(bookingId, row as LessonChatRow)),
+    })
+  } catch (error) {
+    console.error('Error in GET /api/lessons/[relationshipId]/chat:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/lessons/[relationshipId]/chat - Save a message sent in the running class
+//
+// Body: { body?, attachment?: { path, name, type } }. The attachment must
+// already be uploaded through /chat/attachments; its size is read from storage.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ relationshipId: string }> }
+) {
+  try {
+    const { relationshipId: bookingId } = await params
+    const check = await requireLessonRoomMember(bookingId)
+    if ('error' in check) return check.error
+    if (check.role === 'observer') {
+      return NextResponse.json({ error: 'Observers cannot send chat messages' }, { status: 403 })
+    }
+
+    const payload = await request.json()
+    const body = typeof payload.body === 'string' ? payload.body.trim() : ''
+    const attachment = payload.attachment && typeof payload.attachment === 'object' ? payload.attachment : null
+
+    if (body.length > MAX_CHAT_MESSAGE_LENGTH) {
+      return NextResponse.json({ error: `Messages are limited to ${MAX_CHAT_MESSAGE_LENGTH} characters` }, { status: 400 })
+    }
+    if (attachment && (typeof attachment.path !== 'string' || !attachment.path.startsWith(`${bookingId}/`))) {
+      return NextResponse.json({ error: 'Invalid attachment' }, { status: 400 })
+    }
+    if (!body && !attachment) {
+      return NextResponse.json({ error: 'Message is empty' }, { status: 400 })
+    }
+
+    const classStartedAt = await currentClassStartedAt(check.booking.student_id)
+    if (!classStartedAt) {
+      return NextResponse.json({ error: 'Class is not in session' }, { status: 409 })
+    }
+
+    const size = attachment ? await storedFileSize(attachment.path) : null
+    if (attachment && size === null) {
+      return NextResponse.json({ error: 'Attachment was not uploaded' }, { status: 400 })
+    }
+    if (size !== null && size > MAX_CHAT_FILE_BYTES) {
+      await createSupabaseAdmin().storage.from(CHAT_FILES_BUCKET).remove([attachment.path])
+      return NextResponse.json({ error: 'File is too large' }, { status: 400 })
+    }
+
+    const { data: row, error } = await createSupabaseAdmin()
+      .from('lesson_chat_messages')
+      .insert({
+        student_id: check.booking.student_id,
+        booking_id: bookingId,
+        class_started_at: classStartedAt,
+        sender_id: check.userId,
+        sender_name: await senderNameOf(check.userId),
+        body,
+        attachment_path: attachment?.path ?? null,
+        attachment_name: attachment ? String(attachment.name || 'File').slice(0, 200) : null,
+        attachment_type: attachment && typeof attachment.type === 'string' ? attachment.type.slice(0, 100) : null,
+        attachment_size: size,
+      })
+      .select(CHAT_COLUMNS)
+      .single()
+
+    if (error || !row) {
+      console.error('[Lesson Chat] Error saving message:', error)
+      return NextResponse.json({ error: 'Failed to save message' }, { status: 500 })
+    }
+
+    return NextResponse.json({ message: chatMessageFromRow(bookingId, row as LessonChatRow) })
+  } catch (error) {
+    console.error('Error in POST /api/lessons/[relationshipId]/chat:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PATCH /api/lessons/[relationshipId]/chat - Mark a message as pinned into the lesson notes
+//
+// Body: { messageId }. The notes themselves are edited in the browser (Yjs).
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ relationshipId: string }> }
+) {
+  try {
+    const { relationshipId: bookingId } = await params
+    const check = await requireLessonRoomMember(bookingId)
+    if ('error' in check) return check.error
+    if (check.role === 'observer') {
+      return NextResponse.json({ error: 'Observers cannot pin messages' }, { status: 403 })
+    }
+
+    const { messageId } = await request.json()
+    if (typeof messageId !== 'string') {
+      return NextResponse.json({ error: 'messageId is required' }, { status: 400 })
+    }
+
+    const { data: row, error } = await createSupabaseAdmin()
+      .from('lesson_chat_messages')
+      .update({ pinned_at: new Date().toISOString() })
+      .eq('id', messageId)
+      .eq('booking_id', bookingId)
+      .select('pinned_at')
+      .maybeSingle()
+
+    if (error) {
+      console.error('[Lesson Chat] Error pinning message:', error)
+      return NextResponse.json({ error: 'Failed to pin message' }, { status: 500 })
+    }
+    if (!row) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, pinnedAt: row.pinned_at })
+  } catch (error) {
+    console.error('Error in PATCH /api/lessons/[relationshipId]/chat:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,6 +1,7 @@
 import { createClient, getCurrentUser } from '@/lib/supabase-server'
 import { createSupabaseAdmin } from '@/lib/supabase-admin'
 import { NextRequest, NextResponse } from 'next/server'
+import { chatMessageFromRow, sharedInChatHtml, type LessonChatRow } from '@/lib/lesson-chat'
 
 // Helper to get admin client for bypassing RLS
 function getAdminClient() {
@@ -69,7 +70,22 @@ export async function POST(
       contentHtml = liveNote?.content ?? ''
     }
 
-    const plainText = contentHtml.replace(/<[^>]*>/g, '').trim()
+    // Links and files shared in this class's chat go at the bottom of the notes.
+    // Chat not yet linked to an archived note belongs to the class being ended.
+    const { data: chatRows } = await dbClient
+      .from('lesson_chat_messages')
+      .select('id, sender_id, sender_name, body, attachment_path, attachment_name, attachment_type, attachment_size, created_at, pinned_at')
+      .eq('booking_id', bookingId)
+      .is('archive_id', null)
+      .order('created_at', { ascending: true })
+
+    const shared = sharedInChatHtml((chatRows || []).map(row => chatMessageFromRow(bookingId, row as LessonChatRow)))
+
+    let plainText = contentHtml.replace(/<[^>]*>/g, '').trim()
+    if (shared.html) {
+      contentHtml += shared.html
+      plainText = `${plainText}\n\n${shared.text}`.trim()
+    }
 
     console.log('[End Class API] bookingId:', bookingId, 'studentId:', booking.student_id)
     console.log('[End Class API] Content HTML length:', contentHtml.length, 'Plain text length:', plainText.length)
@@ -96,6 +112,16 @@ export async function POST(
 
     console.log('[End Class API] Archived note:', archivedNote?.id)
 
+    if (chatRows && chatRows.length > 0) {
+      const { error: chatLinkError } = await dbClient
+        .from('lesson_chat_messages')
+        .update({ archive_id: archivedNote.id })
+        .in('id', chatRows.map(row => row.id))
+      if (chatLinkError) {
+        console.error('[End Class API] Failed to link chat to archived note:', chatLinkError.message)
+      }
+    }
+
     // --- Link the latest recording to this archived note and trigger AI processing ---
     const { data: latestRecording } = await dbClient
       .from('lesson_recordings')
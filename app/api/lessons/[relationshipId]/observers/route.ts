@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import { createSupabaseAdmin } from '@/lib/supabase-admin'
+
+type TeacherCheck =
+  | { booking: { id: string; student_id: string; instructor_id: string }; userId: string }
+  | { error: NextResponse }
+
+// Observers are managed by the booking's teacher (or an admin)
+async function requireTeacher(bookingId: string): Promise<TeacherCheck> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { data: booking } = await supabase
+    .from('bookings')
+    .select('id, student_id, instructor_id')
+    .eq('id', bookingId)
+    .single()
+
+  if (!booking) {
+    return { error: NextResponse.json({ error: 'Booking not found' }, { status: 404 }) }
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('id, role')
+    .eq('id', user.id)
+    .single()
+
+  if (booking.instructor_id !== user.id && profile?.role !== 'admin') {
+    return { error: NextResponse.json({ error: 'Only the teacher can manage observers' }, { status: 403 }) }
+  }
+
+  return { booking, userId: user.id }
+}
+
+// GET /api/lessons/[relationshipId]/observers - Observers who may watch this lesson room
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ relationshipId: string }> }
+) {
+  try {
+    const { relationshipId: bookingId } = await params
+    const check = await requireTeacher(bookingId)
+    if ('error' in check) return check.error
+
+    const admin = createSupabaseAdmin()
+    const { data: rows, error } = await admin
+      .from('lesson_observers')
+      .select('observer_id, created_at')
+      .eq('booking_id', bookingId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('[Observers] Error fetching observers:', error)
+      return NextResponse.json({ error: 'Failed to fetch observers' }, { status: 500 })
+    }
+
+    const { data: names } = await admin
+      .from('profiles')
+      .select('id, name, first_name, last_name')
+      .in('id', (rows || []).map(row => row.observer_id))
+    const nameById = new Map((names || []).map(p => [
+      p.id,
+      (p.name || `${p.first_name || ''} ${p.last_name || ''}`.trim() || null) as string | null,
+    ]))
+
+    return NextResponse.json({
+      observers: (rows || []).map(row => ({
+        id: row.observer_id,
+        name: nameById.get(row.observer_id) ?? null,
+        addedAt: row.created_at,
+      })),
+    })
+  } catch (error) {
+    console.error('Error in GET /api/lessons/[relationshipId]/observers:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/lessons/[relationshipId]/observers - Add an observer by the email of their account
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ relationshipId: string }> }
+) {
+  try {
+    const { relationshipId: bookingId } = await params
+    const check = await requireTeacher(bookingId)
+    if ('error' in check) return check.error
+
+    const { email } = await request.json()
+    if (typeof email !== 'string' || !email.includes('@')) {
+      return NextResponse.json({ error: 'A valid email is required' }, { status: 400 })
+    }
+    const wanted = email.trim().toLowerCase()
+
+    // Email lives in auth.users, so look the account up with the service role
+    const admin = createSupabaseAdmin()
+    let observerId: string | null = null
+    for (let page = 1; page <= 20 && !observerId; page++) {
+      const { data, error } = await admin.auth.admin.listUsers({ page, perPage: 200 })
+      if (error) {
+        console.error('[Observers] listUsers failed:', error.message)
+        return NextResponse.json({ error: 'Failed to look up account' }, { status: 500 })
+      }
+      observerId = data.users.find(u => u.email?.toLowerCase() === wanted)?.id ?? null
+      if (data.users.length < 200) break
+    }
+
+    if (!observerId) {
+      return NextResponse.json({ error: 'No account uses that email. Ask them to sign up first.' }, { status: 404 })
+    }
+    if (observerId === check.booking.student_id || observerId === check.booking.instructor_id) {
+      return NextResponse.json({ error: 'They are already in this lesson' }, { status: 400 })
+    }
+
+    const { error } = await admin
+      .from('lesson_observers')
+      .upsert(
+        { booking_id: bookingId, observer_id: observerId, added_by: check.userId },
+        { onConflict: 'booking_id,observer_id', ignoreDuplicates: true }
+      )
+
+    if (error) {
+      console.error('[Observers] Error adding observer:', error)
+      return NextResponse.json({ error: 'Failed to add observer' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, observerId })
+  } catch (error) {
+    console.error('Error in POST /api/lessons/[relationshipId]/observers:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE /api/lessons/[relationshipId]/observers?observerId= - Remove an observer
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ relationshipId: string }> }
+) {
+  try {
+    const { relationshipId: bookingId } = await params
+    const observerId = request.nextUrl.searchParams.get('observerId')
+    if (!observerId) {
+      return NextResponse.json({ error: 'observerId is required' }, { status: 400 })
+    }
+
+    const check = await requireTeacher(bookingId)
+    if ('error' in check) return check.error
+
+    const admin = createSupabaseAdmin()
+    const { error } = await admin
+      .from('lesson_observers')
+      .delete()
+      .eq('booking_id', bookingId)
+      .eq('observer_id', observerId)
+
+    if (error) {
+      console.error('[Observers] Error removing observer:', error)
+      return NextResponse.json({ error: 'Failed to remove observer' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in DELETE /api/lessons/[relationshipId]/observers:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,114 @@
+import { createClient, getCurrentUser } from '@/lib/supabase-server'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  RECURRING_BOOKING_COLUMNS,
+  DEFAULT_CANCELLATION_WINDOW_HOURS,
+  isOutsideCancellationWindow,
+  resolveOccurrence,
+  type RecurringBooking,
+} from '@/lib/lesson-occurrences'
+
+// POST /api/lessons/[relationshipId]/occurrences/cancel - Cancel a single lesson
+// Note: relationshipId here refers to the booking ID
+//
+// Body: { occurrenceId?: string, originalStartsAt?: string, reason: string }.
+// Weekly lessons without an exception yet are addressed by originalStartsAt.
+// Students must cancel before the teacher's cancellation window.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ relationshipId: string }> }
+) {
+  try {
+    const { relationshipId: bookingId } = await params
+    const supabase = await createClient()
+    const profile = await getCurrentUser()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: booking } = await supabase
+      .from('bookings')
+      .select(RECURRING_BOOKING_COLUMNS)
+      .eq('id', bookingId)
+      .single()
+
+    if (!booking) {
+      return NextResponse.json({ error: 'Lesson not found' }, { status: 404 })
+    }
+
+    const isInstructor = profile.id === booking.instructor_id || profile.role === 'admin'
+    if (!isInstructor && profile.id !== booking.student_id) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : ''
+    if (!reason) {
+      return NextResponse.json({ error: 'A reason is required to cancel a lesson' }, { status: 400 })
+    }
+
+    const admin = getSupabaseAdmin()
+    const resolved = await resolveOccurrence(admin, booking as RecurringBooking, {
+      occurrenceId: body.occurrenceId,
+      originalStartsAt: body.originalStartsAt,
+    })
+
+    if (!resolved) {
+      return NextResponse.json({ error: 'Lesson occurrence not found' }, { status: 404 })
+    }
+
+    const { row, occurrence } = resolved
+    if (occurrence.status === 'cancelled') {
+      return NextResponse.json({ error: 'This lesson is already cancelled' }, { status: 409 })
+    }
+    if (new Date(occurrence.startsAt).getTime() < Date.now()) {
+      return NextResponse.json({ error: 'Past lessons cannot be cancelled' }, { status: 400 })
+    }
+
+    if (!isInstructor) {
+      const { data: instructor } = await supabase
+        .from('profiles')
+        .select('cancellation_window_hours')
+        .eq('id', booking.instructor_id)
+        .single()
+
+      const windowHours = instructor?.cancellation_window_hours ?? DEFAULT_CANCELLATION_WINDOW_HOURS
+      if (!isOutsideCancellationWindow(occurrence.startsAt, windowHours)) {
+        return NextResponse.json({
+          error: `Lessons can only be cancelled at least ${windowHours} hours in advance. Please contact your teacher.`,
+        }, { status: 403 })
+      }
+    }
+
+    const cancellation = {
+      status: 'cancelled',
+      reason,
+      cancelled_at: new Date().toISOString(),
+      cancelled_by: profile.id,
+      updated_by: profile.id,
+    }
+
+    const { error } = row
+      ? await admin.from('lesson_occurrences').update(cancellation).eq('id', row.id)
+      : await admin.from('lesson_occurrences').insert({
+          booking_id: booking.id,
+          kind: 'recurring',
+          original_starts_at: occurrence.originalStartsAt,
+          starts_at: occurrence.startsAt,
+          duration_minutes: occurrence.durationMinutes,
+          ...cancellation,
+        })
+
+    if (error) {
+      console.error('[Lessons API] Error cancelling lesson:', error)
+      return NextResponse.json({ error: 'Failed to cancel lesson' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[Lessons API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
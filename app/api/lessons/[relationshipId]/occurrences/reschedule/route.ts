@@ -0,0 +1,150 @@
+import { createClient, getCurrentUser } from '@/lib/supabase-server'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  RECURRING_BOOKING_COLUMNS,
+  DEFAULT_CANCELLATION_WINDOW_HOURS,
+  isOutsideCancellationWindow,
+  resolveOccurrence,
+  type LessonOccurrenceRow,
+  type RecurringBooking,
+} from '@/lib/lesson-occurrences'
+import { sendLessonInvite } from '@/lib/calendar/lesson-calendar'
+import { isRescheduleSlotOpen, loadTeacherAvailability, loadTeacherLessons } from '@/lib/teacher-availability'
+
+// POST /api/lessons/[relationshipId]/occurrences/reschedule - Move a single lesson
+// Note: relationshipId here refers to the booking ID
+//
+// Body: { occurrenceId?: string, originalStartsAt?: string, startsAt: string,
+//         durationMinutes?: number, reason: string }.
+// Only this occurrence moves; the weekly slot is unchanged. Students must
+// reschedule before the teacher's cancellation window, and into a time the
+// teacher is available and free.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ relationshipId: string }> }
+) {
+  try {
+    const { relationshipId: bookingId } = await params
+    const supabase = await createClient()
+    const profile = await getCurrentUser()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: booking } = await supabase
+      .from('bookings')
+      .select(RECURRING_BOOKING_COLUMNS)
+      .eq('id', bookingId)
+      .single()
+
+    if (!booking) {
+      return NextResponse.json({ error: 'Lesson not found' }, { status: 404 })
+    }
+
+    const isInstructor = profile.id === booking.instructor_id || profile.role === 'admin'
+    if (!isInstructor && profile.id !== booking.student_id) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : ''
+    if (!reason) {
+      return NextResponse.json({ error: 'A reason is required to reschedule a lesson' }, { status: 400 })
+    }
+
+    const newStartsAt = new Date(body.startsAt)
+    if (Number.isNaN(newStartsAt.getTime()) || newStartsAt.getTime() < Date.now()) {
+      return NextResponse.json({ error: 'New lesson time must be in the future' }, { status: 400 })
+    }
+
+    const admin = getSupabaseAdmin()
+    const resolved = await resolveOccurrence(admin, booking as RecurringBooking, {
+      occurrenceId: body.occurrenceId,
+      originalStartsAt: body.originalStartsAt,
+    })
+
+    if (!resolved) {
+      return NextResponse.json({ error: 'Lesson occurrence not found' }, { status: 404 })
+    }
+
+    const { row, occurrence } = resolved
+    if (occurrence.status === 'cancelled') {
+      return NextResponse.json({ error: 'Cancelled lessons cannot be rescheduled' }, { status: 409 })
+    }
+    if (new Date(occurrence.startsAt).getTime() < Date.now()) {
+      return NextResponse.json({ error: 'Past lessons cannot be rescheduled' }, { status: 400 })
+    }
+
+    const durationMinutes = body.durationMinutes ?? occurrence.durationMinutes
+    if (!Number.isInteger(durationMinutes) || durationMinutes < 15 || durationMinutes > 180) {
+      return NextResponse.json({ error: 'Invalid duration (must be 15-180 minutes)' }, { status: 400 })
+    }
+
+    if (!isInstructor) {
+      const { data: instructor } = await supabase
+        .from('profiles')
+        .select('cancellation_window_hours')
+        .eq('id', booking.instructor_id)
+        .single()
+
+      const windowHours = instructor?.cancellation_window_hours ?? DEFAULT_CANCELLATION_WINDOW_HOURS
+      if (!isOutsideCancellationWindow(occurrence.startsAt, windowHours)) {
+        return NextResponse.json({
+          error: `Lessons can only be rescheduled at least ${windowHours} hours in advance. Please contact your teacher.`,
+        }, { status: 403 })
+      }
+
+      // Same check as booking a slot, for this one lesson
+      const availability = await loadTeacherAvailability(supabase, booking.instructor_id)
+      const dayMs = 24 * 60 * 60 * 1000
+      const lessons = await loadTeacherLessons(
+        admin,
+        booking.instructor_id,
+        new Date(newStartsAt.getTime() - dayMs),
+        new Date(newStartsAt.getTime() + dayMs)
+      )
+      if (!availability || !isRescheduleSlotOpen(availability, lessons, newStartsAt, durationMinutes, occurrence)) {
+        return NextResponse.json({ error: 'That time is not available' }, { status: 409 })
+      }
+    }
+
+    const move = {
+      starts_at: newStartsAt.toISOString(),
+      duration_minutes: durationMinutes,
+      reason,
+      updated_by: profile.id,
+    }
+
+    const { data: moved, error } = row
+      ? await admin.from('lesson_occurrences').update(move).eq('id', row.id).select('*').single()
+      : await admin
+          .from('lesson_occurrences')
+          .insert({
+            booking_id: booking.id,
+            kind: 'recurring',
+            original_starts_at: occurrence.originalStartsAt,
+            ...move,
+          })
+          .select('*')
+          .single()
+
+    if (error) {
+      console.error('[Lessons API] Error rescheduling lesson:', error)
+      return NextResponse.json({ error: 'Failed to reschedule lesson' }, { status: 500 })
+    }
+
+    await sendLessonInvite(admin, {
+      bookingId: booking.id,
+      kind: 'rescheduled',
+      actorId: profile.id,
+      occurrence: moved as LessonOccurrenceRow,
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[Lessons API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,128 @@
+import { createClient, getCurrentUser } from '@/lib/supabase-server'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  RECURRING_BOOKING_COLUMNS,
+  DEFAULT_LESSON_DURATION_MINUTES,
+  loadLessonOccurrences,
+  type RecurringBooking,
+} from '@/lib/lesson-occurrences'
+
+const DEFAULT_RANGE_DAYS = 56
+
+// GET /api/lessons/[relationshipId]/occurrences - Lessons for one booking
+// Note: relationshipId here refers to the booking ID
+//
+// Query: from, to (ISO). Defaults to the next eight weeks.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ relationshipId: string }> }
+) {
+  try {
+    const { relationshipId: bookingId } = await params
+    const supabase = await createClient()
+    const profile = await getCurrentUser()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: booking } = await supabase
+      .from('bookings')
+      .select(RECURRING_BOOKING_COLUMNS)
+      .eq('id', bookingId)
+      .single()
+
+    if (!booking) {
+      return NextResponse.json({ error: 'Lesson not found' }, { status: 404 })
+    }
+
+    const isParticipant = profile.id === booking.instructor_id || profile.id === booking.student_id
+    if (!isParticipant && profile.role !== 'admin') {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const from = searchParams.get('from') ? new Date(searchParams.get('from')!) : new Date()
+    const to = searchParams.get('to')
+      ? new Date(searchParams.get('to')!)
+      : new Date(from.getTime() + DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000)
+
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || to <= from) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 })
+    }
+
+    const occurrences = await loadLessonOccurrences(supabase, [booking as RecurringBooking], from, to)
+    return NextResponse.json({ occurrences })
+  } catch (error) {
+    console.error('[Lessons API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/lessons/[relationshipId]/occurrences - Add a one-off lesson
+// (makeup, extra session) outside the weekly slot. Teachers only.
+//
+// Body: { startsAt: ISO string, durationMinutes?: number, reason?: string }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ relationshipId: string }> }
+) {
+  try {
+    const { relationshipId: bookingId } = await params
+    const supabase = await createClient()
+    const profile = await getCurrentUser()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: booking } = await supabase
+      .from('bookings')
+      .select(RECURRING_BOOKING_COLUMNS)
+      .eq('id', bookingId)
+      .single()
+
+    if (!booking) {
+      return NextResponse.json({ error: 'Lesson not found' }, { status: 404 })
+    }
+
+    if (profile.id !== booking.instructor_id && profile.role !== 'admin') {
+      return NextResponse.json({ error: 'Only the teacher can add lessons' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const startsAt = new Date(body.startsAt)
+    if (Number.isNaN(startsAt.getTime()) || startsAt.getTime() < Date.now()) {
+      return NextResponse.json({ error: 'Lesson time must be in the future' }, { status: 400 })
+    }
+
+    const durationMinutes = body.durationMinutes ?? booking.lesson_duration_minutes ?? DEFAULT_LESSON_DURATION_MINUTES
+    if (durationMinutes < 15 || durationMinutes > 180) {
+      return NextResponse.json({ error: 'Invalid duration (must be 15-180 minutes)' }, { status: 400 })
+    }
+
+    const { data: row, error } = await getSupabaseAdmin()
+      .from('lesson_occurrences')
+      .insert({
+        booking_id: booking.id,
+        kind: 'extra',
+        starts_at: startsAt.toISOString(),
+        duration_minutes: durationMinutes,
+        reason: typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : null,
+        updated_by: profile.id,
+      })
+      .select('id')
+      .single()
+
+    if (error || !row) {
+      console.error('[Lessons API] Error adding lesson:', error)
+      return NextResponse.json({ error: 'Failed to add lesson' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, occurrenceId: row.id }, { status: 201 })
+  } catch (error) {
+    console.error('[Lessons API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
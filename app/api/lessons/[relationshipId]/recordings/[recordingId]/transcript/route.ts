@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import { createSupabaseAdmin } from '@/lib/supabase-admin'
+import { findSummaryMoments, type TranscriptSegment } from '@/lib/lesson-transcripts'
+import type { LessonSummary } from '@/lib/openai'
+
+// ============================================================================
+// GET - Timestamped transcript for a recording, with a playable URL, a
+// download link for the audio-only track (listen back), and the moments in
+// the recording that the AI summary bullets refer to
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ relationshipId: string; recordingId: string }> }
+) {
+  try {
+    const { relationshipId: bookingId, recordingId } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // RLS limits this to the student, the booking's teacher and admins
+    const { data: recording, error } = await supabase
+      .from('lesson_recordings')
+      .select('id, booking_id, storage_path, audio_storage_path, audio_file_size_bytes, started_at, transcript, transcript_segments, ai_summary')
+      .eq('id', recordingId)
+      .maybeSingle()
+
+    if (error || !recording || recording.booking_id !== bookingId) {
+      return NextResponse.json({ error: 'Recording not found' }, { status: 404 })
+    }
+
+    const storage = createSupabaseAdmin().storage.from('lesson-recordings')
+
+    let mediaUrl: string | null = null
+    if (recording.storage_path) {
+      const { data: urlData } = await storage.createSignedUrl(recording.storage_path, 60 * 60) // 1 hour
+      mediaUrl = urlData?.signedUrl ?? null
+    }
+
+    let audioDownloadUrl: string | null = null
+    if (recording.audio_storage_path) {
+      const lessonDate = (recording.started_at as string | null)?.slice(0, 10) ?? 'recording'
+      const { data: urlData } = await storage.createSignedUrl(recording.audio_storage_path, 60 * 60, {
+        download: `lesson-${lessonDate}.webm`,
+      })
+      audioDownloadUrl = urlData?.signedUrl ?? null
+    }
+
+    const segments = (recording.transcript_segments as TranscriptSegment[] | null) ?? []
+
+    return NextResponse.json({
+      recordingId,
+      mediaUrl,
+      audioDownloadUrl,
+      audioSizeBytes: recording.audio_file_size_bytes,
+      segments,
+      // Recordings transcribed before segments were stored only have text
+      transcript: segments.length === 0 ? recording.transcript : null,
+      moments: findSummaryMoments(recording.ai_summary as LessonSummary | null, segments),
+    })
+  } catch (err) {
+    console.error('[Transcript] GET Error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
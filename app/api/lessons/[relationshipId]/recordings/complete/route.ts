@@ -1,9 +1,150 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase-server'
-import { createClient as createAdminClient } from '@supabase/supabase-js'
+import { createClient as createAdminClient, type SupabaseClient } from '@supabase/supabase-js'
 import { processRecording } from '@/lib/lesson-processing'
+import {
+  assembleParts,
+  claimableUploadFilter,
+  isValidSessionId,
+  listUploadedParts,
+  missingParts,
+  removeParts,
+  type RecordingTrack,
+} from '@/lib/recording-parts'
+
+// Assembling an hour of parts means moving a few hundred MB through storage
+export const maxDuration = 300
+
+/**
+ * Check one track's uploaded parts against the count the browser reported.
+ * Returns the error response, or null when the track can be assembled.
+ */
+function checkTrackParts(sessionId: string, track: RecordingTrack, parts: number[], partCount: unknown) {
+  if (partCount !== undefined) {
+    if (!Number.isInteger(partCount) || (partCount as number) < 0) {
+      return NextResponse.json({ error: `Invalid ${track} part count` }, { status: 400 })
+    }
+    const missing = missingParts(parts, partCount as number)
+    if (missing.length > 0) {
+      return NextResponse.json({ error: 'Recording parts are missing', track, missingParts: missing }, { status: 409 })
+    }
+  } else if (parts.length > 0 && parts.length !== parts[parts.length - 1] + 1) {
+    console.warn(
+      `[Recording Complete] Session ${sessionId} is missing ${track} parts ` +
+      `${missingParts(parts, parts[parts.length - 1] + 1).join(', ')}; assembling with gaps`
+    )
+  }
+  return null
+}
+
+/**
+ * Concatenate a chunked upload session's parts into the final recording file,
+ * plus the audio-only file when the audio track was recorded.
+ *
+ * With `partCount` (the browser finished normally) every part must be there,
+ * and the response lists the missing ones so the client can retry. Without it
+ * (recovering an interrupted session) whatever parts made it are used.
+ * `audioPartCount` works the same way for the audio track.
+ */
+async function assembleUploadSession(
+  admin: SupabaseClient,
+  bookingId: string,
+  sessionId: string,
+  partCount: unknown,
+  audioPartCount: unknown
+) {
+  const { data: upload } = await admin
+    .from('lesson_recording_uploads')
+    .select('id, booking_id, status, class_started_at, recording_id')
+    .eq('id', sessionId)
+    .maybeSingle()
+
+  if (!upload || upload.booking_id !== bookingId) {
+    return { error: NextResponse.json({ error: 'Upload session not found' }, { status: 404 }) }
+  }
+
+  // Completing twice (a retry after a lost response) returns the same recording
+  if (upload.status === 'completed') {
+    return {
+      done: NextResponse.json({
+        success: true,
+        alreadyCompleted: true,
+        recording: { id: upload.recording_id, bookingId },
+      }),
+    }
+  }
+
+  const parts = await listUploadedParts(admin, bookingId, sessionId)
+  if (parts.video.length === 0) {
+    return { error: NextResponse.json({ error: 'No recording parts were uploaded' }, { status: 404 }) }
+  }
+
+  const trackError =
+    checkTrackParts(sessionId, 'video', parts.video, partCount) ||
+    checkTrackParts(sessionId, 'audio', parts.audio, audioPartCount)
+  if (trackError) return { error: trackError }
+
+  // Claim the session before doing anything that can't be repeated: finish()
+  // and spool recovery (the 'online' event, a second tab) can both get here,
+  // and only one of them may create the recording.
+  const { data: claimed, error: claimError } = await admin
+    .from('lesson_recording_uploads')
+    .update({ status: 'assembling' })
+    .eq('id', sessionId)
+    .or(claimableUploadFilter())
+    .select('id')
+
+  if (claimError) {
+    console.error('[Recording Complete] Error claiming upload session:', claimError)
+    return { error: NextResponse.json({ error: 'Failed to claim upload session' }, { status: 500 }) }
+  }
+  if (!claimed || claimed.length === 0) {
+    return { error: NextResponse.json({ error: 'Recording is already being completed' }, { status: 409 }) }
+  }
+
+  try {
+    const baseName = `${bookingId}/lesson-${bookingId}-${Date.now()}`
+    const storagePath = `${baseName}.webm`
+    const fileSize = await assembleParts(admin, bookingId, sessionId, 'video', parts.video, storagePath)
+    console.log(`[Recording Complete] Assembled ${parts.video.length} parts (${fileSize} bytes) for session ${sessionId}`)
+
+    let audioStoragePath: string | null = null
+    let audioFileSize: number | null = null
+    if (parts.audio.length > 0) {
+      audioStoragePath = `${baseName}-audio.webm`
+      audioFileSize = await assembleParts(admin, bookingId, sessionId, 'audio', parts.audio, audioStoragePath)
+      console.log(`[Recording Complete] Assembled ${parts.audio.length} audio parts (${audioFileSize} bytes)`)
+    }
+
+    return {
+      storagePath,
+      fileSize,
+      audioStoragePath,
+      audioFileSize,
+      parts,
+      classStartedAt: upload.class_started_at as string | null,
+    }
+  } catch (error) {
+    await releaseUploadSession(admin, sessionId)
+    throw error
+  }
+}
+
+/** Hand a claimed session back so a later call can retry it */
+async function releaseUploadSession(admin: SupabaseClient, sessionId: string) {
+  const { error } = await admin
+    .from('lesson_recording_uploads')
+    .update({ status: 'recording' })
+    .eq('id', sessionId)
+    .eq('status', 'assembling')
+  if (error) console.error('[Recording Complete] Error releasing upload session:', error)
+}
 
 // POST /api/lessons/[relationshipId]/recordings/complete - Register a recording after direct upload
+//
+// Body is either { storagePath, fileSize } for a single-file upload via
+// /recordings/presign, or { sessionId, partCount?, audioPartCount? } for parts
+// uploaded during class via /recordings/parts, which are assembled here.
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ relationshipId: string }> }
@@ -19,10 +160,14 @@ export async function POST(
 
     // Parse request body
     const body = await request.json()
-    const { storagePath, fileSize, roomName, classStartedAt } = body
+    const { roomName, sessionId, partCount, audioPartCount } = body
+    let { storagePath, fileSize, classStartedAt } = body
 
-    if (!storagePath) {
-      return NextResponse.json({ error: 'storagePath is required' }, { status: 400 })
+    if (!storagePath && !sessionId) {
+      return NextResponse.json({ error: 'storagePath or sessionId is required' }, { status: 400 })
+    }
+    if (sessionId && !isValidSessionId(sessionId)) {
+      return NextResponse.json({ error: 'Invalid sessionId' }, { status: 400 })
     }
 
     // Verify booking exists and user has access
@@ -64,16 +209,35 @@ export async function POST(
       process.env.SUPABASE_SERVICE_ROLE_KEY
     )
 
-    // Verify the file exists in storage
-    const { data: fileData, error: fileError } = await supabaseAdmin.storage
-      .from('lesson-recordings')
-      .list(bookingId, { search: storagePath.split('/').pop() })
+    let assembledParts: Record<RecordingTrack, number[]> = { video: [], audio: [] }
+    let audioStoragePath: string | null = null
+    let audioFileSize: number | null = null
 
-    if (fileError || !fileData || fileData.length === 0) {
-      return NextResponse.json(
-        { error: 'Recording file not found in storage' },
-        { status: 404 }
-      )
+    if (sessionId) {
+      const assembled = await assembleUploadSession(supabaseAdmin, bookingId, sessionId, partCount, audioPartCount)
+      if ('error' in assembled) return assembled.error
+      if ('done' in assembled) return assembled.done
+
+      storagePath = assembled.storagePath
+      fileSize = assembled.fileSize
+      audioStoragePath = assembled.audioStoragePath
+      audioFileSize = assembled.audioFileSize
+      classStartedAt = classStartedAt || assembled.classStartedAt
+      assembledParts = assembled.parts
+    } else {
+      // Verify the file exists in storage
+      const { data: fileData, error: fileError } = await supabaseAdmin.storage
+        .from('lesson-recordings')
+        .list(bookingId, { search: storagePath.split('/').pop() })
+
+      if (fileError || !fileData || fileData.length === 0) {
+        return NextResponse.json(
+          { error: 'Recording file not found in storage' },
+          { status: 404 }
+        )
+      }
+
+      fileSize = fileSize || fileData[0]?.metadata?.size
     }
 
     // Get signed URL
@@ -96,7 +260,9 @@ export async function POST(
         storage_provider: 'supabase',
         storage_path: storagePath,
         storage_url: urlData?.signedUrl,
-        file_size_bytes: fileSize || fileData[0]?.metadata?.size,
+        file_size_bytes: fileSize,
+        audio_storage_path: audioStoragePath,
+        audio_file_size_bytes: audioFileSize,
         format: 'webm',
         started_at: classStartedAt || new Date().toISOString(),
         ended_at: new Date().toISOString(),
@@ -107,12 +273,23 @@ export async function POST(
 
     if (recordingError) {
       console.error('Error creating recording record:', recordingError)
+      if (sessionId) await releaseUploadSession(supabaseAdmin, sessionId)
       return NextResponse.json(
         { error: 'Failed to create recording record', details: recordingError.message },
         { status: 500 }
       )
     }
 
+    if (sessionId) {
+      await supabaseAdmin
+        .from('lesson_recording_uploads')
+        .update({ status: 'completed', recording_id: recording.id })
+        .eq('id', sessionId)
+        .eq('status', 'assembling')
+
+      await removeParts(supabaseAdmin, bookingId, sessionId, assembledParts)
+    }
+
     // Link recording to notes.
     //
     // This previously swallowed its error, which hid a constraint violation for
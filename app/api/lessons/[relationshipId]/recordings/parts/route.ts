@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase-server'
+import { createSupabaseAdmin } from '@/lib/supabase-admin'
+import {
+  ASSEMBLY_CLAIM_TIMEOUT_MS,
+  MAX_PART_NUMBER,
+  RECORDINGS_BUCKET,
+  RECORDING_TRACKS,
+  STALE_UPLOAD_SESSION_MS,
+  claimableUploadFilter,
+  isValidSessionId,
+  listUploadedParts,
+  partPath,
+} from '@/lib/recording-parts'
+
+// Only the lesson's teacher (or an admin) records and uploads
+async function checkInstructor(supabase: SupabaseClient, bookingId: string) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { data: booking } = await supabase
+    .from('bookings')
+    .select('id, instructor_id, status')
+    .eq('id', bookingId)
+    .single()
+
+  if (!booking) {
+    return { error: NextResponse.json({ error: 'Booking not found' }, { status: 404 }) }
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('id, role')
+    .eq('id', user.id)
+    .single()
+
+  if (booking.instructor_id !== user.id && profile?.role !== 'admin') {
+    return { error: NextResponse.json({ error: 'Only the instructor can upload recordings' }, { status: 403 }) }
+  }
+
+  return { user, booking }
+}
+
+// GET /api/lessons/[relationshipId]/recordings/parts - Upload sessions that were never completed
+//
+// Each has the part numbers of both tracks already in storage. `stale` sessions have had no
+// new part for a while and were abandoned (tab crash, lost connection); a
+// fresh one may still be recording in another tab.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ relationshipId: string }> }
+) {
+  try {
+    const { relationshipId: bookingId } = await params
+    const supabase = await createClient()
+    const access = await checkInstructor(supabase, bookingId)
+    if ('error' in access) return access.error
+
+    const admin = createSupabaseAdmin()
+    const { data: uploads, error } = await admin
+      .from('lesson_recording_uploads')
+      .select('id, class_started_at, updated_at')
+      .eq('booking_id', bookingId)
+      // Includes sessions whose assembly timed out, so recovery retries them
+      .or(claimableUploadFilter())
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('[Recording Parts] Error fetching upload sessions:', error)
+      return NextResponse.json({ error: 'Failed to fetch upload sessions' }, { status: 500 })
+    }
+
+    const staleBefore = Date.now() - STALE_UPLOAD_SESSION_MS
+    const sessions = await Promise.all(
+      (uploads || []).map(async (upload) => {
+        const parts = await listUploadedParts(admin, bookingId, upload.id)
+        return {
+          sessionId: upload.id,
+          classStartedAt: upload.class_started_at,
+          stale: new Date(upload.updated_at).getTime() < staleBefore,
+          uploadedParts: parts.video,
+          uploadedAudioParts: parts.audio,
+        }
+      })
+    )
+
+    return NextResponse.json({ sessions })
+  } catch (error) {
+    console.error('Error in GET /api/lessons/[relationshipId]/recordings/parts:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/lessons/[relationshipId]/recordings/parts - Presigned URL for one numbered part
+//
+// Body: { sessionId, partNumber, track?, classStartedAt? }. `track` is 'video'
+// (default) or 'audio'; each track is numbered from 0. The first part of a
+// session registers it; every part marks it as still active. Re-requesting a
+// part number overwrites it, so a retried upload is safe.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ relationshipId: string }> }
+) {
+  try {
+    const { relationshipId: bookingId } = await params
+    const supabase = await createClient()
+    const access = await checkInstructor(supabase, bookingId)
+    if ('error' in access) return access.error
+    const { user, booking } = access
+
+    const { sessionId, partNumber, classStartedAt, track = 'video' } = await request.json()
+
+    if (!isValidSessionId(sessionId)) {
+      return NextResponse.json({ error: 'Invalid sessionId' }, { status: 400 })
+    }
+    if (!Number.isInteger(partNumber) || partNumber < 0 || partNumber > MAX_PART_NUMBER) {
+      return NextResponse.json({ error: 'Invalid partNumber' }, { status: 400 })
+    }
+    if (!RECORDING_TRACKS.includes(track)) {
+      return NextResponse.json({ error: 'Invalid track' }, { status: 400 })
+    }
+
+    const admin = createSupabaseAdmin()
+    const { data: existing } = await admin
+      .from('lesson_recording_uploads')
+      .select('id, booking_id, status, last_part_number, updated_at')
+      .eq('id', sessionId)
+      .maybeSingle()
+
+    if (existing && existing.booking_id !== bookingId) {
+      return NextResponse.json({ error: 'Upload session belongs to another lesson' }, { status: 400 })
+    }
+    if (existing?.status === 'completed') {
+      return NextResponse.json({ error: 'Upload session already completed' }, { status: 409 })
+    }
+    if (existing?.status === 'assembling' && Date.now() - new Date(existing.updated_at).getTime() < ASSEMBLY_CLAIM_TIMEOUT_MS) {
+      // Not 409: the part stays spooled in case assembly fails and is retried
+      return NextResponse.json({ error: 'Upload session is being assembled' }, { status: 423 })
+    }
+
+    if (existing) {
+      // last_part_number follows the video track; an audio part only bumps updated_at
+      const lastPartNumber = track === 'video'
+        ? Math.max(existing.last_part_number ?? -1, partNumber)
+        : existing.last_part_number
+      await admin
+        .from('lesson_recording_uploads')
+        // An expired assembly claim goes back to 'recording' so completion can retry
+        .update({ last_part_number: lastPartNumber, ...(existing.status === 'assembling' ? { status: 'recording' } : {}) })
+        .eq('id', sessionId)
+    } else {
+      // Parts of a session recovered later may arrive after the class ended,
+      // so only a brand new session requires a live booking.
+      if (booking.status !== 'confirmed') {
+        return NextResponse.json({ error: 'Recording upload only allowed for confirmed bookings' }, { status: 400 })
+      }
+
+      const { error: insertError } = await admin
+        .from('lesson_recording_uploads')
+        .insert({
+          id: sessionId,
+          booking_id: bookingId,
+          created_by: user.id,
+          class_started_at: classStartedAt || null,
+          last_part_number: track === 'video' ? partNumber : null,
+        })
+
+      // A concurrent first request for the same session is fine
+      if (insertError && insertError.code !== '23505') {
+        console.error('[Recording Parts] Error registering upload session:', insertError)
+        return NextResponse.json({ error: 'Failed to register upload session' }, { status: 500 })
+      }
+    }
+
+    const { data: uploadData, error: uploadError } = await admin.storage
+      .from(RECORDINGS_BUCKET)
+      .createSignedUploadUrl(partPath(bookingId, sessionId, partNumber, track), { upsert: true })
+
+    if (uploadError) {
+      console.error('[Recording Parts] Error creating signed upload URL:', uploadError)
+      return NextResponse.json({ error: 'Failed to create upload URL', details: uploadError.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ uploadUrl: uploadData.signedUrl })
+  } catch (error) {
+    console.error('Error in POST /api/lessons/[relationshipId]/recordings/parts:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -324,9 +324,17 @@ export async function GET(
             .from('lesson-recordings')
             .createSignedUrl(recording.storage_path, 60 * 60) // 1 hour
 
+          // The audio-only track, when the recording has one
+          const { data: audioUrlData } = recording.audio_storage_path
+            ? await supabaseAdmin.storage
+              .from('lesson-recordings')
+              .createSignedUrl(recording.audio_storage_path, 60 * 60)
+            : { data: null }
+
           return {
             ...recording,
             storage_url: urlData?.signedUrl || recording.storage_url,
+            audio_url: audioUrlData?.signedUrl ?? null,
           }
         }
         return recording
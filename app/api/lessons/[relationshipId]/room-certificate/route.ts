@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase-admin'
+import { requireLessonRoomMember } from '@/lib/lesson-room'
+import { isCertificateFingerprint } from '@/lib/room-certificate'
+
+// POST /api/lessons/[relationshipId]/room-certificate - Register the caller's DTLS certificate for the lesson room
+//
+// Body: { fingerprint } (SHA-256, uppercase colon-separated hex). Peers only
+// take media and room controls from connections made with a certificate
+// registered here, under the account that registered it (lib/room-certificate.ts).
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ relationshipId: string }> }
+) {
+  try {
+    const { relationshipId: bookingId } = await params
+    const check = await requireLessonRoomMember(bookingId)
+    if ('error' in check) return check.error
+
+    const { fingerprint } = await request.json()
+    if (!isCertificateFingerprint(fingerprint)) {
+      return NextResponse.json({ error: 'A SHA-256 certificate fingerprint is required' }, { status: 400 })
+    }
+
+    const { error } = await createSupabaseAdmin()
+      .from('lesson_room_certificates')
+      .upsert(
+        { booking_id: bookingId, user_id: check.userId, fingerprint },
+        { onConflict: 'booking_id,user_id,fingerprint', ignoreDuplicates: true }
+      )
+
+    if (error) {
+      console.error('[Lesson Room] Error registering certificate:', error)
+      return NextResponse.json({ error: 'Failed to register certificate' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in POST /api/lessons/[relationshipId]/room-certificate:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
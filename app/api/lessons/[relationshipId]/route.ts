@@ -1,5 +1,6 @@
 import { createClient, getCurrentUser } from '@/lib/supabase-server'
 import { NextRequest, NextResponse } from 'next/server'
+import { lessonRoomRoleOf } from '@/lib/lesson-room'
 
 // GET /api/lessons/[relationshipId] - Get lesson page data
 // Note: relationshipId here refers to the booking ID
@@ -53,14 +54,12 @@ export async function GET(
       return NextResponse.json({ error: 'Lesson not found' }, { status: 404 })
     }
 
-    // Verify user is either the instructor, student, or an admin
-    const isInstructor = profile.id === booking.instructor_id
-    const isStudent = profile.id === booking.student_id
-    const isAdmin = profile.role === 'admin'
-
-    if (!isInstructor && !isStudent && !isAdmin) {
+    // Verify user is either the instructor, student, an admin, or an observer the teacher added
+    const roomRole = await lessonRoomRoleOf(supabase, booking, profile)
+    if (!roomRole) {
       return NextResponse.json({ error: 'Access denied' }, { status: 403 })
     }
+    const isObserver = roomRole === 'observer'
 
     // Fetch instructor and student profiles separately
     const { data: instructorProfile } = await supabase
@@ -96,7 +95,9 @@ export async function GET(
 
     // Get the current note for the student from lesson_current_notes
     // eslint-disable-next-line prefer-const -- notesError not reassigned but notes is
-    let { data: notes, error: notesError } = await supabase
+    let { data: notes, error: notesError } = isObserver
+      ? { data: null, error: null }
+      : await supabase
         .from('lesson_current_notes')
         .select('*')
         .eq('student_id', booking.student_id)
@@ -132,6 +133,8 @@ export async function GET(
       },
       archivedNotesCount: Math.max(0, (notesCount || 1) - 1),
       isTeacher: profile.id === instructor.id || profile.role === 'admin',
+      // Observers (e.g. a parent) can watch the lesson room but not speak
+      isObserver,
       currentUser: {
         id: profile.id,
         name: userName,
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseAdmin } from '@/lib/supabase-admin'
+import { requireLessonRoomMember } from '@/lib/lesson-room'
+import { isValidTonic, type Tonic } from '@/lib/lesson-instrument'
+
+// GET /api/lessons/[relationshipId]/tonic - The student's tonic (Sa), or null if not set
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ relationshipId: string }> }
+) {
+  try {
+    const { relationshipId: bookingId } = await params
+    const check = await requireLessonRoomMember(bookingId)
+    if ('error' in check) return check.error
+
+    const { data: student, error } = await createSupabaseAdmin()
+      .from('profiles')
+      .select('tonic_note, tonic_octave')
+      .eq('id', check.booking.student_id)
+      .single()
+
+    if (error) {
+      console.error('[Tonic] Error fetching tonic:', error)
+      return NextResponse.json({ error: 'Failed to fetch tonic' }, { status: 500 })
+    }
+
+    const tonic: Tonic | null = student?.tonic_note && student.tonic_octave !== null
+      ? { note: student.tonic_note, octave: student.tonic_octave }
+      : null
+    return NextResponse.json({ tonic })
+  } catch (error) {
+    console.error('Error in GET /api/lessons/[relationshipId]/tonic:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PUT /api/lessons/[relationshipId]/tonic - Set the student's tonic. Teacher only.
+//
+// Body: { tonic: { note, octave } }
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ relationshipId: string }> }
+) {
+  try {
+    const { relationshipId: bookingId } = await params
+    const check = await requireLessonRoomMember(bookingId)
+    if ('error' in check) return check.error
+    if (check.role !== 'host') {
+      return NextResponse.json({ error: 'Only the teacher can set the tonic' }, { status: 403 })
+    }
+
+    const { tonic } = await request.json()
+    if (!isValidTonic(tonic)) {
+      return NextResponse.json({ error: 'Invalid tonic' }, { status: 400 })
+    }
+
+    const { error } = await createSupabaseAdmin()
+      .from('profiles')
+      .update({
+        tonic_note: tonic.note,
+        tonic_octave: tonic.octave,
+        tonic_set_by: check.userId,
+        tonic_updated_at: new Date().toISOString(),
+      })
+      .eq('id', check.booking.student_id)
+
+    if (error) {
+      console.error('[Tonic] Error saving tonic:', error)
+      return NextResponse.json({ error: 'Failed to save tonic' }, { status: 500 })
+    }
+
+    return NextResponse.json({ tonic: { note: tonic.note, octave: tonic.octave } })
+  } catch (error) {
+    console.error('Error in PUT /api/lessons/[relationshipId]/tonic:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireLessonRoomMember } from '@/lib/lesson-room'
+import { issueTurnCredentials } from '@/lib/turn-credentials'
+
+// GET /api/lessons/[relationshipId]/turn-credentials - Time-limited TURN credentials for the lesson room
+//
+// Only the booking's student and teacher, observers they added, or an admin get credentials.
+// Returns { iceServers: [], expiresAt: null } when no TURN server is configured.
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ relationshipId: string }> }
+) {
+  try {
+    const { relationshipId: bookingId } = await params
+    const check = await requireLessonRoomMember(bookingId)
+    if ('error' in check) return check.error
+
+    const credentials = issueTurnCredentials(`${bookingId}:${check.userId}`)
+
+    return NextResponse.json(
+      credentials ?? { iceServers: [], expiresAt: null },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  } catch (error) {
+    console.error('Error in GET /api/lessons/[relationshipId]/turn-credentials:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,49 @@
+import { createClient, getCurrentUser } from '@/lib/supabase-server'
+import { NextRequest, NextResponse } from 'next/server'
+import { RECURRING_BOOKING_COLUMNS, loadLessonOccurrences, type RecurringBooking } from '@/lib/lesson-occurrences'
+
+const MAX_RANGE_DAYS = 62
+
+// GET /api/lessons/occurrences - Lessons across all of the user's confirmed bookings
+//
+// Query: from, to (ISO, required, at most ~two months apart). Used by the
+// calendar and My Lessons pages.
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const profile = await getCurrentUser()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const from = new Date(searchParams.get('from') || '')
+    const to = new Date(searchParams.get('to') || '')
+
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || to <= from) {
+      return NextResponse.json({ error: 'from and to are required' }, { status: 400 })
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      return NextResponse.json({ error: `Date range cannot exceed ${MAX_RANGE_DAYS} days` }, { status: 400 })
+    }
+
+    const { data: bookings, error } = await supabase
+      .from('bookings')
+      .select(RECURRING_BOOKING_COLUMNS)
+      .or(`instructor_id.eq.${profile.id},student_id.eq.${profile.id}`)
+      .eq('status', 'confirmed')
+      .limit(200)
+
+    if (error) {
+      console.error('[Lessons API] Error fetching bookings:', error)
+      return NextResponse.json({ error: 'Failed to fetch lessons' }, { status: 500 })
+    }
+
+    const occurrences = await loadLessonOccurrences(supabase, (bookings || []) as RecurringBooking[], from, to)
+    return NextResponse.json({ occurrences })
+  } catch (error) {
+    console.error('[Lessons API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import { createSupabaseAdmin } from '@/lib/supabase-admin'
+import {
+  MAX_EAR_LEVEL,
+  MIN_EAR_LEVEL,
+  earOverallScore,
+  isEarExerciseType,
+  type EarAnswerMode,
+  type EarExerciseType,
+  type EarItemStats,
+} from '@/lib/ear-training'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface EarSessionInput {
+  startedAt: string
+  endedAt: string
+  durationSeconds: number
+  exerciseType: EarExerciseType
+  answerMode: EarAnswerMode
+  startLevel: number
+  endLevel: number
+  totalQuestions: number
+  correctCount: number
+  avgResponseMs: number | null
+  itemStats: EarItemStats
+}
+
+function isLevel(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= MIN_EAR_LEVEL && (value as number) <= MAX_EAR_LEVEL
+}
+
+/** Keep only well-formed { asked, missed } counts */
+function cleanItemStats(raw: unknown): EarItemStats {
+  const stats: EarItemStats = {}
+  if (!raw || typeof raw !== 'object') return stats
+  for (const [item, entry] of Object.entries(raw as Record<string, unknown>)) {
+    const { asked, missed } = (entry || {}) as { asked?: unknown; missed?: unknown }
+    if (!/^(interval|chord|dictation):\w+$/.test(item)) continue
+    if (!Number.isInteger(asked) || !Number.isInteger(missed)) continue
+    if ((missed as number) < 0 || (missed as number) > (asked as number)) continue
+    stats[item] = { asked: asked as number, missed: missed as number }
+  }
+  return stats
+}
+
+// ============================================================================
+// POST - Save an ear training session
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body: EarSessionInput = await request.json()
+    const {
+      startedAt,
+      endedAt,
+      durationSeconds,
+      exerciseType,
+      answerMode,
+      startLevel,
+      endLevel,
+      totalQuestions,
+      correctCount,
+      avgResponseMs,
+      itemStats,
+    } = body
+
+    if (!isEarExerciseType(exerciseType)) {
+      return NextResponse.json({ error: 'Invalid exercise type' }, { status: 400 })
+    }
+    if (answerMode !== 'click' && answerMode !== 'sing') {
+      return NextResponse.json({ error: 'Invalid answer mode' }, { status: 400 })
+    }
+    if (!isLevel(startLevel) || !isLevel(endLevel)) {
+      return NextResponse.json({ error: 'Invalid level' }, { status: 400 })
+    }
+    if (!Number.isInteger(totalQuestions) || totalQuestions <= 0) {
+      return NextResponse.json({ error: 'No questions answered' }, { status: 400 })
+    }
+    if (!Number.isInteger(correctCount) || correctCount < 0 || correctCount > totalQuestions) {
+      return NextResponse.json({ error: 'Invalid correct count' }, { status: 400 })
+    }
+
+    const accuracyPercent = (correctCount / totalQuestions) * 100
+    const overallScore = earOverallScore(accuracyPercent, endLevel)
+
+    const safeStartedAt = startedAt || new Date().toISOString()
+    const safeEndedAt = endedAt || new Date().toISOString()
+    const startTime = new Date(safeStartedAt)
+    if (Number.isNaN(startTime.getTime()) || Number.isNaN(new Date(safeEndedAt).getTime())) {
+      return NextResponse.json({ error: 'Invalid session times' }, { status: 400 })
+    }
+    const sessionDate = startTime.toISOString().split('T')[0]
+
+    const { data: session, error: sessionError } = await createSupabaseAdmin()
+      .from('ear_training_sessions')
+      .insert({
+        user_id: user.id,
+        session_date: sessionDate,
+        started_at: safeStartedAt,
+        ended_at: safeEndedAt,
+        duration_seconds: Math.max(0, Math.round(durationSeconds || 0)),
+        exercise_type: exerciseType,
+        answer_mode: answerMode,
+        start_level: startLevel,
+        end_level: endLevel,
+        total_questions: totalQuestions,
+        correct_count: correctCount,
+        accuracy_percent: accuracyPercent,
+        avg_response_ms: Number.isFinite(avgResponseMs) ? Math.round(avgResponseMs as number) : null,
+        item_stats: cleanItemStats(itemStats),
+        overall_score: overallScore,
+      })
+      .select('id')
+      .single()
+
+    if (sessionError) {
+      console.error('Ear session insert error:', sessionError)
+      return NextResponse.json({ error: sessionError.message || 'Failed to save session' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      message: 'Session saved successfully',
+      sessionId: session.id,
+      accuracyPercent,
+      overallScore,
+      saved: true,
+    })
+
+  } catch (error) {
+    console.error('Ear training session error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// ============================================================================
+// GET - Get user's ear training sessions
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const days = parseInt(searchParams.get('days') || '30')
+
+    const startDate = new Date()
+    startDate.setDate(startDate.getDate() - days)
+
+    const { data: sessions, error } = await supabase
+      .from('ear_training_sessions')
+      .select('*')
+      .eq('user_id', user.id)
+      .gte('session_date', startDate.toISOString().split('T')[0])
+      .order('started_at', { ascending: false })
+
+    if (error) {
+      console.error('Ear sessions fetch error:', error)
+      return NextResponse.json({ error: 'Failed to fetch sessions' }, { status: 500 })
+    }
+
+    return NextResponse.json({ sessions })
+
+  } catch (error) {
+    console.error('Ear training sessions GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase-server'
 import { analyzeWeeklyProgress, generateComprehensiveInsights } from '@/lib/openai'
+import { mostMissedEarItems, summarizeEarHistory, type EarExerciseType, type EarItemStats } from '@/lib/ear-training'
 
 // ============================================================================
 // GET - Get user's weekly progress and AI feedback
@@ -99,6 +100,23 @@ export async function GET(request: NextRequest) {
 
     const rhythmStats = calculateRhythmStats(recentRhythmSessions || [])
 
+    // Get ear training data
+    const { data: earWeeklyProgress } = await supabase
+      .from('ear_training_weekly_progress')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('week_start_date', { ascending: false })
+      .limit(weeks)
+
+    const { data: recentEarSessions } = await supabase
+      .from('ear_training_sessions')
+      .select('session_date, exercise_type, answer_mode, start_level, end_level, total_questions, correct_count, accuracy_percent, overall_score, item_stats')
+      .eq('user_id', user.id)
+      .order('started_at', { ascending: false })
+      .limit(30)
+
+    const earStats = calculateEarStats(recentEarSessions || [])
+
     return NextResponse.json({
       // Pitch Trainer Pro data
       weeklyProgress: weeklyProgress || [],
@@ -114,7 +132,11 @@ export async function GET(request: NextRequest) {
       // Rhythm Trainer data
       rhythmWeeklyProgress: rhythmWeeklyProgress || [],
       rhythmStats,
-      recentRhythmSessions: recentRhythmSessions || []
+      recentRhythmSessions: recentRhythmSessions || [],
+      // Ear Trainer data
+      earWeeklyProgress: earWeeklyProgress || [],
+      earStats,
+      recentEarSessions: recentEarSessions || []
     })
 
   } catch (error) {
@@ -562,3 +584,56 @@ function calculateRhythmStats(sessions: RhythmSession[]) {
     avgTimingOffset: Math.round(avgTimingOffset * 10) / 10
   }
 }
+
+// ============================================================================
+// Helper: Calculate ear training stats
+// ============================================================================
+
+interface EarSession {
+  session_date: string
+  exercise_type: EarExerciseType
+  end_level: number
+  accuracy_percent: number | null
+  item_stats: EarItemStats | null
+}
+
+function calculateEarStats(sessions: EarSession[]) {
+  const { levels, itemStats } = summarizeEarHistory(sessions)
+
+  if (sessions.length === 0) {
+    return {
+      totalSessions: 0,
+      avgAccuracy: 0,
+      bestAccuracy: 0,
+      daysThisWeek: 0,
+      levels,
+      mostMissed: []
+    }
+  }
+
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+
+  // Monday as week start, matching the weekly progress table
+  const weekStart = new Date(today)
+  const dayOfWeek = weekStart.getDay()
+  weekStart.setDate(weekStart.getDate() + (dayOfWeek === 0 ? -6 : 1 - dayOfWeek))
+
+  const daysThisWeek = new Set(
+    sessions
+      .filter(s => new Date(s.session_date) >= weekStart)
+      .map(s => s.session_date)
+  ).size
+
+  const accuracies = sessions.map(s => Number(s.accuracy_percent) || 0)
+  const avgAccuracy = accuracies.reduce((a, b) => a + b, 0) / accuracies.length
+
+  return {
+    totalSessions: sessions.length,
+    avgAccuracy: Math.round(avgAccuracy * 10) / 10,
+    bestAccuracy: Math.round(Math.max(...accuracies) * 10) / 10,
+    daysThisWeek,
+    levels,
+    mostMissed: mostMissedEarItems(itemStats)
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase-server'
 import { createSupabaseAdmin } from '@/lib/supabase-admin'
 import { analyzeRhythmSession, saveTrainingFeedback, fetchLessonContext } from '@/lib/training-ai'
+import { recordPracticeSession } from '@/lib/practice-assignments'
 
 // ============================================================================
 // Types
@@ -146,6 +147,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: sessionError.message || 'Failed to save session' }, { status: 500 })
     }
 
+    await recordPracticeSession(admin, user.id, {
+      trainer: 'rhythm',
+      score: overallScore,
+      sessionId: session.id,
+      bpm,
+      timeSignature,
+    })
+
     // Insert beat metrics if provided
     if (beatMetrics && beatMetrics.length > 0) {
       const beatMetricsToInsert = beatMetrics.map(b => ({
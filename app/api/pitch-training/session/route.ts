@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase-server'
 import { createSupabaseAdmin } from '@/lib/supabase-admin'
 import { analyzeSessionPerformance } from '@/lib/openai'
+import { recordPracticeSession } from '@/lib/practice-assignments'
+import { saveSessionTraces, type PitchTraceSample } from '@/lib/pitch-traces'
 
 // ============================================================================
 // Types
@@ -30,6 +32,9 @@ interface NoteMetricInput {
   pitchDirection?: 'sharp' | 'flat' | 'on-target'
   timeToFirstSound?: number
   sampleCount?: number
+  // Pitch trace for teacher review
+  attemptedAt?: string
+  trace?: PitchTraceSample[]
 }
 
 interface SessionInput {
@@ -227,6 +232,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: sessionError.message || 'Failed to save session' }, { status: 500 })
     }
 
+    // Only a saved session counts toward assignments
+    await recordPracticeSession(admin, user.id, {
+      trainer: 'pitch',
+      score: overallScore,
+      sessionId: session.id,
+      notes: (noteMetrics || []).map(n => ({ note: n.noteName, octave: n.octave })),
+    })
+
     // Insert note metrics (including new singer-focused metrics)
     const noteMetricsToInsert = noteMetrics.map(n => ({
       session_id: session.id,
@@ -253,15 +266,28 @@ export async function POST(request: NextRequest) {
       pitch_direction: n.pitchDirection ?? 'on-target',
       time_to_first_sound: n.timeToFirstSound ?? 0,
       sample_count: n.sampleCount ?? 0,
+      ...(n.attemptedAt ? { attempted_at: n.attemptedAt } : {}),
     }))
 
-    const { error: metricsError } = await supabase
+    const { data: insertedMetrics, error: metricsError } = await supabase
       .from('pitch_training_note_metrics')
       .insert(noteMetricsToInsert)
+      .select('id, note_name, octave')
 
     if (metricsError) {
       console.error('Metrics insert error:', metricsError)
       // Don't fail the whole request, session is already saved
+    } else {
+      // One metric row per note, so note + octave identifies the attempt
+      await saveSessionTraces(admin, {
+        trainer: 'pitch',
+        sessionId: session.id,
+        userId: user.id,
+        notes: (insertedMetrics || []).map((row) => {
+          const input = noteMetrics.find((n) => n.noteName === row.note_name && n.octave === row.octave)
+          return { noteMetricId: row.id, targetFrequency: input?.targetFrequency ?? 0, trace: input?.trace }
+        }),
+      })
     }
 
     // Generate AI feedback asynchronously (don't wait for it)
@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import { createSupabaseAdmin } from '@/lib/supabase-admin'
+import {
+  MAX_MELODY_TEMPO,
+  MIN_MELODY_TEMPO,
+  SIGHT_SINGING_LIBRARY,
+  summarizeSightSinging,
+  type PhraseResult,
+} from '@/lib/sight-singing'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface SightSingingSessionInput {
+  startedAt: string
+  endedAt: string
+  durationSeconds: number
+  pieceId?: string | null
+  libraryId?: string | null
+  tempoBpm: number
+  phraseResults: PhraseResult[]
+}
+
+const isScore = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100
+
+/** Keep only well-formed phrase results; null if any phrase is malformed */
+function cleanPhraseResults(raw: unknown): PhraseResult[] | null {
+  if (!Array.isArray(raw) || raw.length === 0 || raw.length > 200) return null
+  const phrases: PhraseResult[] = []
+  for (const entry of raw) {
+    const p = (entry || {}) as Record<string, unknown>
+    const counts = [p.phrase, p.firstNote, p.lastNote, p.totalNotes, p.notesHit]
+    if (!counts.every(n => Number.isInteger(n) && (n as number) >= 0)) return null
+    if ((p.notesHit as number) > (p.totalNotes as number)) return null
+    if (!isScore(p.pitchAccuracy) || !isScore(p.timingAccuracy) || !isScore(p.score)) return null
+    phrases.push({
+      phrase: p.phrase as number,
+      firstNote: p.firstNote as number,
+      lastNote: p.lastNote as number,
+      totalNotes: p.totalNotes as number,
+      notesHit: p.notesHit as number,
+      pitchAccuracy: p.pitchAccuracy,
+      timingAccuracy: p.timingAccuracy,
+      score: p.score,
+    })
+  }
+  return phrases
+}
+
+// ============================================================================
+// POST - Save a sight-singing attempt
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body: SightSingingSessionInput = await request.json()
+    const { startedAt, endedAt, durationSeconds, pieceId, libraryId, tempoBpm } = body
+
+    if (!Number.isInteger(tempoBpm) || tempoBpm < MIN_MELODY_TEMPO || tempoBpm > MAX_MELODY_TEMPO) {
+      return NextResponse.json({ error: 'Invalid tempo' }, { status: 400 })
+    }
+
+    const phraseResults = cleanPhraseResults(body.phraseResults)
+    if (!phraseResults) {
+      return NextResponse.json({ error: 'Invalid phrase results' }, { status: 400 })
+    }
+
+    // The title is taken from the piece, not the client
+    let title: string
+    if (pieceId) {
+      const { data: piece } = await supabase
+        .from('sight_singing_pieces')
+        .select('id, title')
+        .eq('id', pieceId)
+        .eq('student_id', user.id)
+        .maybeSingle()
+
+      if (!piece) {
+        return NextResponse.json({ error: 'Piece not found' }, { status: 404 })
+      }
+      title = piece.title
+    } else {
+      const exercise = SIGHT_SINGING_LIBRARY.find(e => e.id === libraryId)
+      if (!exercise) {
+        return NextResponse.json({ error: 'Unknown exercise' }, { status: 400 })
+      }
+      title = exercise.melody.title
+    }
+
+    const summary = summarizeSightSinging(phraseResults)
+    const safeStartedAt = startedAt || new Date().toISOString()
+    const safeEndedAt = endedAt || new Date().toISOString()
+    const startTime = new Date(safeStartedAt)
+    if (Number.isNaN(startTime.getTime()) || Number.isNaN(new Date(safeEndedAt).getTime())) {
+      return NextResponse.json({ error: 'Invalid session times' }, { status: 400 })
+    }
+    const sessionDate = startTime.toISOString().split('T')[0]
+
+    const { data: session, error: sessionError } = await createSupabaseAdmin()
+      .from('sight_singing_sessions')
+      .insert({
+        user_id: user.id,
+        piece_id: pieceId || null,
+        library_id: pieceId ? null : libraryId,
+        title,
+        session_date: sessionDate,
+        started_at: safeStartedAt,
+        ended_at: safeEndedAt,
+        duration_seconds: Math.max(0, Math.round(durationSeconds || 0)),
+        tempo_bpm: tempoBpm,
+        total_notes: summary.totalNotes,
+        notes_hit: summary.notesHit,
+        pitch_accuracy: summary.pitchAccuracy,
+        timing_accuracy: summary.timingAccuracy,
+        overall_score: summary.overallScore,
+        phrase_results: phraseResults,
+      })
+      .select('id')
+      .single()
+
+    if (sessionError) {
+      console.error('Sight-singing session insert error:', sessionError)
+      return NextResponse.json({ error: sessionError.message || 'Failed to save session' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      message: 'Session saved successfully',
+      sessionId: session.id,
+      ...summary,
+      saved: true,
+    })
+
+  } catch (error) {
+    console.error('Sight-singing session error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// ============================================================================
+// GET - Get user's sight-singing sessions
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const days = parseInt(searchParams.get('days') || '30')
+
+    const startDate = new Date()
+    startDate.setDate(startDate.getDate() - days)
+
+    const { data: sessions, error } = await supabase
+      .from('sight_singing_sessions')
+      .select('*')
+      .eq('user_id', user.id)
+      .gte('session_date', startDate.toISOString().split('T')[0])
+      .order('started_at', { ascending: false })
+
+    if (error) {
+      console.error('Sight-singing sessions fetch error:', error)
+      return NextResponse.json({ error: 'Failed to fetch sessions' }, { status: 500 })
+    }
+
+    return NextResponse.json({ sessions })
+
+  } catch (error) {
+    console.error('Sight-singing sessions GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
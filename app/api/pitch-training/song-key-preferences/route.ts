@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+
+// ============================================================================
+// GET - Get the keys the user has chosen to sing their songs in
+// ============================================================================
+
+// Saved by the song-key-session POST; the Song Key Trainer reapplies one when
+// the student picks that song again
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: preferences, error } = await supabase
+      .from('song_key_preferences')
+      .select('song_title, song_artist, original_key, mode, preferred_key, transpose_semitones, times_practiced, updated_at')
+      .eq('user_id', user.id)
+      .order('updated_at', { ascending: false })
+
+    if (error) {
+      // If table doesn't exist, return empty array
+      if (error.code === '42P01') {
+        return NextResponse.json({ preferences: [] })
+      }
+      console.error('Song key preferences fetch error:', error)
+      return NextResponse.json({ error: 'Failed to fetch preferences' }, { status: 500 })
+    }
+
+    return NextResponse.json({ preferences: preferences || [] })
+
+  } catch (error) {
+    console.error('Song key preferences GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
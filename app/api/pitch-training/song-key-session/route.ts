@@ -2,11 +2,17 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase-server'
 import { createSupabaseAdmin } from '@/lib/supabase-admin'
 import { analyzeSongKeySession, saveTrainingFeedback, fetchLessonContext } from '@/lib/training-ai'
+import { recordPracticeSession } from '@/lib/practice-assignments'
+import { MAX_TRANSPOSE, type SongMode } from '@/lib/song-transposition'
 
 // ============================================================================
 // POST - Save a Song Key Trainer session
 // ============================================================================
 
+// songKey is the key that was sung; when the song was transposed, originalKey
+// and transposeSemitones say from where. Either way the key is remembered as
+// the student's preferred key for the song.
+
 export async function POST(request: NextRequest) {
   try {
     const supabase = await createClient()
@@ -26,13 +32,20 @@ export async function POST(request: NextRequest) {
       songBpm,
       inKeyPercentage,
       avgCentsDeviation,
-      totalNotes
+      totalNotes,
+      songMode,
+      originalKey,
+      transposeSemitones = 0
     } = body
 
     if (!songKey || totalNotes === undefined) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 })
     }
 
+    if (!Number.isInteger(transposeSemitones) || Math.abs(transposeSemitones) > MAX_TRANSPOSE) {
+      return NextResponse.json({ error: 'Invalid transposition' }, { status: 400 })
+    }
+
     const safeStartedAt = startedAt || new Date().toISOString()
     const safeEndedAt = endedAt || new Date().toISOString()
     const startTime = new Date(safeStartedAt)
@@ -42,6 +55,17 @@ export async function POST(request: NextRequest) {
 
     const admin = createSupabaseAdmin()
 
+    if (songTitle) {
+      await rememberSongKey(admin, user.id, {
+        songTitle,
+        songArtist,
+        songMode: songMode === 'minor' ? 'minor' : 'major',
+        originalKey: originalKey || songKey,
+        preferredKey: songKey,
+        transposeSemitones,
+      })
+    }
+
     // Check if there's an existing session for today with this song
     const { data: existingSession } = await admin
       .from('song_key_training_sessions')
@@ -82,6 +106,8 @@ export async function POST(request: NextRequest) {
         song_title: songTitle || null,
         song_artist: songArtist || null,
         song_bpm: songBpm || null,
+        original_key: originalKey || songKey,
+        transpose_semitones: transposeSemitones,
         in_key_percentage: inKeyPercentage,
         avg_cents_deviation: avgCentsDeviation || 0,
         total_notes: totalNotes
@@ -103,6 +129,15 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: sessionError.message || 'Failed to save session' }, { status: 500 })
     }
 
+    // Only a saved session counts toward assignments
+    await recordPracticeSession(admin, user.id, {
+      trainer: 'song',
+      score: inKeyPercentage,
+      sessionId: session.id,
+      songKey,
+      songTitle,
+    })
+
     // Update user's training stats
     await updateUserTrainingStats(supabase, user.id)
 
@@ -259,3 +294,54 @@ async function updateUserTrainingStats(supabase: any, userId: string) {
     console.error('Stats update error:', error)
   }
 }
+
+// ============================================================================
+// Helper: Remember the key the student sings a song in
+// ============================================================================
+
+async function rememberSongKey(
+  admin: ReturnType<typeof createSupabaseAdmin>,
+  userId: string,
+  song: {
+    songTitle: string
+    songArtist?: string
+    songMode: SongMode
+    originalKey: string
+    preferredKey: string
+    transposeSemitones: number
+  }
+) {
+  try {
+    const songTitle = String(song.songTitle).trim().toLowerCase()
+    const songArtist = String(song.songArtist ?? '').trim().toLowerCase()
+
+    const { data: existing } = await admin
+      .from('song_key_preferences')
+      .select('times_practiced')
+      .eq('user_id', userId)
+      .eq('song_title', songTitle)
+      .eq('song_artist', songArtist)
+      .maybeSingle()
+
+    const { error } = await admin
+      .from('song_key_preferences')
+      .upsert({
+        user_id: userId,
+        song_title: songTitle,
+        song_artist: songArtist,
+        original_key: song.originalKey,
+        mode: song.songMode,
+        preferred_key: song.preferredKey,
+        transpose_semitones: song.transposeSemitones,
+        times_practiced: (existing?.times_practiced || 0) + 1,
+        updated_at: new Date().toISOString()
+      }, {
+        onConflict: 'user_id,song_title,song_artist'
+      })
+
+    if (error) console.error('Song key preference save error:', error)
+  } catch (error) {
+    // Not critical - the session itself still saves
+    console.error('Song key preference error:', error)
+  }
+}
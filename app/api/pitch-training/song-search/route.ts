@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getOpenAIClient } from '@/lib/openai'
 import { createClient } from '@/lib/supabase-server'
+import { parseMelodyRange } from '@/lib/song-transposition'
 
 // ============================================================================
 // Song Search API - Uses Web Search + OpenAI for accurate key/BPM data
@@ -13,6 +14,10 @@ interface SongResult {
   key: string
   bpm: number
   mode: 'major' | 'minor'
+  // Lead vocal melody range of the original recording (MIDI), where known,
+  // for transposition recommendations
+  melodyLow?: number
+  melodyHigh?: number
 }
 
 // Search the web for song key/BPM info, then parse with OpenAI
@@ -60,11 +65,13 @@ Return a JSON object with a "songs" array (up to 5 songs). Each song needs:
 - key: musical key (C, C#, D, Eb, E, F, F#, G, Ab, A, Bb, B)
 - bpm: tempo as integer
 - mode: "major" or "minor"
+- melodyLow: lowest note of the lead vocal melody in the original recording, with octave (e.g. "A2", "F#3")
+- melodyHigh: highest note of the lead vocal melody in the original recording, with octave (e.g. "E4", "C5")
 
 Be as accurate as possible. Cross-reference with your knowledge of popular songs.
 If web results mention specific keys/BPMs, use those values.
 
-Example: {"songs":[{"title":"Blinding Lights","artist":"The Weeknd","key":"F","bpm":171,"mode":"minor"}]}`
+Example: {"songs":[{"title":"Blinding Lights","artist":"The Weeknd","key":"F","bpm":171,"mode":"minor","melodyLow":"C4","melodyHigh":"G5"}]}`
         },
         {
           role: 'user',
@@ -85,14 +92,18 @@ Example: {"songs":[{"title":"Blinding Lights","artist":"The Weeknd","key":"F","b
       const parsed = JSON.parse(content)
       const songs = parsed.songs || []
 
-      return songs.slice(0, 10).map((song: any, index: number) => ({
-        id: `web_${index}_${Date.now()}`,
-        title: song.title || 'Unknown',
-        artist: song.artist || 'Unknown Artist',
-        key: (song.key || 'C').replace(/m$/i, ''),
-        bpm: parseInt(song.bpm) || 120,
-        mode: song.mode === 'minor' || /m$/i.test(song.key || '') ? 'minor' : 'major'
-      }))
+      return songs.slice(0, 10).map((song: any, index: number) => {
+        const melody = parseMelodyRange(song.melodyLow, song.melodyHigh)
+        return {
+          id: `web_${index}_${Date.now()}`,
+          title: song.title || 'Unknown',
+          artist: song.artist || 'Unknown Artist',
+          key: (song.key || 'C').replace(/m$/i, ''),
+          bpm: parseInt(song.bpm) || 120,
+          mode: song.mode === 'minor' || /m$/i.test(song.key || '') ? 'minor' : 'major',
+          ...(melody ? { melodyLow: melody.low, melodyHigh: melody.high } : {})
+        }
+      })
     } catch (e) {
       console.error('Failed to parse OpenAI response:', e)
       return []
@@ -279,14 +290,18 @@ export async function GET(request: NextRequest) {
         .limit(5)
 
       if (verified && verified.length > 0) {
-        verifiedMatches = verified.map((v: any, index: number) => ({
-          id: `verified_${v.id}`,
-          title: v.title.split(' ').map((w: string) => w.charAt(0).toUpperCase() + w.slice(1)).join(' '),
-          artist: v.artist.split(' ').map((w: string) => w.charAt(0).toUpperCase() + w.slice(1)).join(' '),
-          key: v.key,
-          bpm: v.bpm,
-          mode: v.mode as 'major' | 'minor'
-        }))
+        verifiedMatches = verified.map((v: any, index: number) => {
+          const melody = parseMelodyRange(v.melody_low_midi, v.melody_high_midi)
+          return {
+            id: `verified_${v.id}`,
+            title: v.title.split(' ').map((w: string) => w.charAt(0).toUpperCase() + w.slice(1)).join(' '),
+            artist: v.artist.split(' ').map((w: string) => w.charAt(0).toUpperCase() + w.slice(1)).join(' '),
+            key: v.key,
+            bpm: v.bpm,
+            mode: v.mode as 'major' | 'minor',
+            ...(melody ? { melodyLow: melody.low, melodyHigh: melody.high } : {})
+          }
+        })
       }
     } catch (e) {
       // Verified cache lookup failed, continue with other sources
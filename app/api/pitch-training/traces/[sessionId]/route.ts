@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import { loadSessionTrace } from '@/lib/pitch-traces'
+
+// ============================================================================
+// GET - Traces and teacher comments for one of the user's sessions
+// ?trainer=pitch|scale
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const trainer = request.nextUrl.searchParams.get('trainer')
+    if (trainer !== 'pitch' && trainer !== 'scale') {
+      return NextResponse.json({ error: 'trainer must be pitch or scale' }, { status: 400 })
+    }
+
+    const trace = await loadSessionTrace(supabase, trainer, sessionId)
+    if (!trace || trace.studentId !== user.id) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ trace })
+  } catch (error) {
+    console.error('Pitch trace GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
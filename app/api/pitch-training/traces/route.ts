@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import { listTraceSessions } from '@/lib/pitch-traces'
+
+// ============================================================================
+// GET - The user's recent pitch and scale sessions, for trace review
+// ============================================================================
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const sessions = await listTraceSessions(supabase, user.id)
+
+    return NextResponse.json({ sessions })
+  } catch (error) {
+    console.error('Pitch traces GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
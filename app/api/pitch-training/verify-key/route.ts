@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getOpenAIClient } from '@/lib/openai'
 import { createClient } from '@/lib/supabase-server'
+import { parseMelodyRange } from '@/lib/song-transposition'
 
 // ============================================================================
 // Verify Key API - Uses OpenAI to verify/correct song key data
@@ -21,6 +22,8 @@ interface VerifiedSongKey {
   bpm: number
   confidence: number
   source: string
+  melodyLow?: number
+  melodyHigh?: number
 }
 
 export async function POST(request: NextRequest) {
@@ -46,11 +49,17 @@ export async function POST(request: NextRequest) {
       .ilike('artist', `%${artist}%`)
       .maybeSingle()
 
-    if (cached && cached.confidence >= 0.9) {
+    // A trusted key is kept as is; older rows only lack the melody range,
+    // so ask for that once and leave the key alone
+    const trusted = cached && cached.confidence >= 0.9 ? cached : null
+    const cachedMelody = trusted ? parseMelodyRange(trusted.melody_low_midi, trusted.melody_high_midi) : null
+
+    if (trusted && (cachedMelody || trusted.melody_checked_at)) {
       return NextResponse.json({
-        key: cached.key,
-        mode: cached.mode,
-        bpm: cached.bpm,
+        key: trusted.key,
+        mode: trusted.mode,
+        bpm: trusted.bpm,
+        ...(cachedMelody ? { melodyLow: cachedMelody.low, melodyHigh: cachedMelody.high } : {}),
         source: 'cache',
         verified: true
       })
@@ -101,6 +110,8 @@ Return a JSON object with:
 - mode: "major" or "minor"
 - bpm: The tempo as integer
 - confidence: A number 0-1 indicating your confidence in this answer
+- melodyLow: Lowest note of the lead vocal melody in the original recording, with octave (e.g. "A2", "F#3")
+- melodyHigh: Highest note of the lead vocal melody in the original recording, with octave (e.g. "E4", "C5")
 - explanation: Brief explanation of your determination
 
 The user will provide:
@@ -139,6 +150,30 @@ Please verify/correct the key and BPM for this song.`
       const mode = parsed.mode === 'minor' ? 'minor' : 'major'
       const bpm = parseInt(parsed.bpm) || 120
       const confidence = parseFloat(parsed.confidence) || 0.7
+      const melody = parseMelodyRange(parsed.melodyLow, parsed.melodyHigh)
+      const melodyFields = melody ? { melodyLow: melody.low, melodyHigh: melody.high } : {}
+
+      if (trusted) {
+        try {
+          await supabase
+            .from('verified_song_keys')
+            .update({
+              ...(melody ? { melody_low_midi: melody.low, melody_high_midi: melody.high } : {}),
+              melody_checked_at: new Date().toISOString(),
+            })
+            .eq('id', trusted.id)
+        } catch (e) {
+          console.log('Failed to cache melody range:', e)
+        }
+        return NextResponse.json({
+          key: trusted.key,
+          mode: trusted.mode,
+          bpm: trusted.bpm,
+          ...melodyFields,
+          source: 'cache',
+          verified: true
+        })
+      }
 
       // Cache verified keys with high confidence
       if (confidence >= 0.8) {
@@ -152,6 +187,9 @@ Please verify/correct the key and BPM for this song.`
               mode,
               bpm,
               confidence,
+              melody_low_midi: melody?.low ?? null,
+              melody_high_midi: melody?.high ?? null,
+              melody_checked_at: new Date().toISOString(),
               source: webResults ? 'web+openai' : 'openai',
               verified_at: new Date().toISOString()
             }, {
@@ -168,6 +206,7 @@ Please verify/correct the key and BPM for this song.`
         mode,
         bpm,
         confidence,
+        ...melodyFields,
         explanation: parsed.explanation,
         source: webResults ? 'web+openai' : 'openai',
         verified: true
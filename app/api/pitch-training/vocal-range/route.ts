@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import { createSupabaseAdmin } from '@/lib/supabase-admin'
+import {
+  VOICE_TYPES,
+  suggestVoiceType,
+  validateVocalRange,
+  type VocalRange,
+} from '@/lib/vocal-range'
+
+// Past tests returned with the current range
+const HISTORY_LIMIT = 20
+
+// ============================================================================
+// POST - Save a range test and make it the student's range
+// ============================================================================
+
+// Body: { range: VocalRange, voiceType? } - voiceType overrides the suggestion
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const rangeError = validateVocalRange(body.range)
+    if (rangeError) {
+      return NextResponse.json({ error: rangeError }, { status: 400 })
+    }
+    const range = body.range as VocalRange
+
+    if (body.voiceType && !VOICE_TYPES.some(t => t.value === body.voiceType)) {
+      return NextResponse.json({ error: 'Invalid voice type' }, { status: 400 })
+    }
+    const voiceType = body.voiceType || suggestVoiceType(range)
+
+    const admin = createSupabaseAdmin()
+    const { data: test, error: testError } = await admin
+      .from('vocal_range_tests')
+      .insert({
+        user_id: user.id,
+        lowest_midi: range.lowest,
+        highest_midi: range.highest,
+        comfortable_low_midi: range.comfortableLow,
+        comfortable_high_midi: range.comfortableHigh,
+        voice_type: voiceType,
+      })
+      .select('*')
+      .single()
+
+    if (testError) {
+      console.error('Vocal range test insert error:', testError)
+      return NextResponse.json({ error: 'Failed to save range test' }, { status: 500 })
+    }
+
+    const { error: profileError } = await admin
+      .from('profiles')
+      .update({
+        range_lowest_midi: range.lowest,
+        range_highest_midi: range.highest,
+        range_comfortable_low_midi: range.comfortableLow,
+        range_comfortable_high_midi: range.comfortableHigh,
+        voice_type: voiceType,
+        vocal_range_updated_at: test.created_at,
+      })
+      .eq('id', user.id)
+
+    if (profileError) {
+      console.error('Vocal range profile update error:', profileError)
+      return NextResponse.json({ error: 'Failed to save range' }, { status: 500 })
+    }
+
+    return NextResponse.json({ range, voiceType, test, saved: true })
+
+  } catch (error) {
+    console.error('Vocal range save error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// ============================================================================
+// GET - Get the user's current range and test history
+// ============================================================================
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: profile, error } = await supabase
+      .from('profiles')
+      .select('range_lowest_midi, range_highest_midi, range_comfortable_low_midi, range_comfortable_high_midi, voice_type, vocal_range_updated_at')
+      .eq('id', user.id)
+      .single()
+
+    if (error) {
+      console.error('Vocal range fetch error:', error)
+      return NextResponse.json({ error: 'Failed to fetch range' }, { status: 500 })
+    }
+
+    const { data: history } = await supabase
+      .from('vocal_range_tests')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(HISTORY_LIMIT)
+
+    const range: VocalRange | null = profile.range_lowest_midi !== null && profile.range_highest_midi !== null
+      ? {
+          lowest: profile.range_lowest_midi,
+          highest: profile.range_highest_midi,
+          comfortableLow: profile.range_comfortable_low_midi,
+          comfortableHigh: profile.range_comfortable_high_midi,
+        }
+      : null
+
+    return NextResponse.json({
+      range,
+      voiceType: profile.voice_type,
+      updatedAt: profile.vocal_range_updated_at,
+      history: history || [],
+    })
+
+  } catch (error) {
+    console.error('Vocal range GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase-server'
 import { createSupabaseAdmin } from '@/lib/supabase-admin'
 import { analyzeScaleSession, saveTrainingFeedback, fetchLessonContext } from '@/lib/training-ai'
+import { recordPracticeSession } from '@/lib/practice-assignments'
+import { saveSessionTraces, type PitchTraceSample } from '@/lib/pitch-traces'
 
 interface NoteMetric {
   noteName: string
@@ -17,6 +19,7 @@ interface NoteMetric {
   wasInOrder: boolean
   sampleCount: number
   avgDetectedFrequency: number
+  trace?: PitchTraceSample[] // for teacher review
 }
 
 interface SessionPayload {
@@ -171,6 +174,17 @@ export async function POST(request: NextRequest) {
       isNewBest = true
     }
 
+    // Only a saved session counts toward assignments
+    await recordPracticeSession(admin, user.id, {
+      trainer: 'scale',
+      score: body.overallScore,
+      sessionId,
+      scaleType: body.scaleType,
+      rootNote: body.rootNote,
+      direction: body.direction,
+      tempo: tempoBpm,
+    })
+
     // Save note metrics
     if (body.noteMetrics && body.noteMetrics.length > 0) {
       const noteMetricsToInsert = body.noteMetrics.map(metric => ({
@@ -191,13 +205,24 @@ export async function POST(request: NextRequest) {
         avg_detected_frequency: metric.avgDetectedFrequency,
       }))
 
-      const { error: metricsError } = await supabase
+      const { data: insertedMetrics, error: metricsError } = await supabase
         .from('scale_training_note_metrics')
         .insert(noteMetricsToInsert)
+        .select('id, expected_position')
 
       if (metricsError) {
         console.error('Error inserting note metrics:', metricsError)
         // Don't fail the request, session was saved
+      } else {
+        await saveSessionTraces(admin, {
+          trainer: 'scale',
+          sessionId,
+          userId: user.id,
+          notes: (insertedMetrics || []).map((row) => {
+            const input = body.noteMetrics.find((m) => m.expectedPosition === row.expected_position)
+            return { noteMetricId: row.id, targetFrequency: input?.targetFrequency ?? 0, trace: input?.trace }
+          }),
+        })
       }
     }
 
@@ -0,0 +1,43 @@
+import { createClient, getCurrentUser } from '@/lib/supabase-server'
+import { NextResponse } from 'next/server'
+import { withAssignmentProgress, type PracticeAssignmentRow } from '@/lib/practice-assignments'
+
+// How long a completed assignment stays on the student's dashboard
+const COMPLETED_VISIBLE_DAYS = 7
+
+// GET /api/students/assignments - The current student's practice assignments, with progress
+//
+// Returns active assignments (soonest due first) and ones completed in the
+// last week.
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const profile = await getCurrentUser()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const completedSince = new Date(Date.now() - COMPLETED_VISIBLE_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+    const { data: rows, error } = await supabase
+      .from('practice_assignments')
+      .select('*')
+      .eq('student_id', profile.id)
+      .or(`status.eq.active,and(status.eq.completed,completed_at.gte.${completedSince})`)
+      .order('due_at', { ascending: true, nullsFirst: false })
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('[Students API] Error fetching assignments:', error)
+      return NextResponse.json({ error: 'Failed to fetch assignments' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      assignments: await withAssignmentProgress(supabase, (rows as PracticeAssignmentRow[] | null) || []),
+    })
+  } catch (error) {
+    console.error('[Students API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
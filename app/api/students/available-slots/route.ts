@@ -0,0 +1,78 @@
+import { createClient, getCurrentUser } from '@/lib/supabase-server'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { NextRequest, NextResponse } from 'next/server'
+import { DEFAULT_LESSON_DURATION_MINUTES, DEFAULT_LESSON_TIMEZONE } from '@/lib/lesson-occurrences'
+import {
+  defaultSlotSearchRange,
+  findOpenSlots,
+  loadTeacherAvailability,
+  loadTeacherLessons,
+} from '@/lib/teacher-availability'
+
+// GET /api/students/available-slots?teacherId=...&durationMinutes=60 - Open weekly slots a student can book
+//
+// Slots are returned as ISO instants; teacherTimezone and viewerTimezone let
+// the client show both wall-clock times.
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const profile = await getCurrentUser()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (profile.role !== 'student') {
+      return NextResponse.json({ error: 'Only students can book lessons' }, { status: 403 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const teacherId = searchParams.get('teacherId')
+    const durationMinutes = Number(searchParams.get('durationMinutes') || DEFAULT_LESSON_DURATION_MINUTES)
+
+    if (!teacherId) {
+      return NextResponse.json({ error: 'Teacher ID is required' }, { status: 400 })
+    }
+    if (!Number.isInteger(durationMinutes) || durationMinutes < 15 || durationMinutes > 180) {
+      return NextResponse.json({ error: 'Invalid duration (must be 15-180 minutes)' }, { status: 400 })
+    }
+
+    const availability = await loadTeacherAvailability(supabase, teacherId)
+    if (!availability) {
+      return NextResponse.json({ error: 'Teacher not found' }, { status: 404 })
+    }
+
+    // The student's own booking doesn't block moving it
+    const { data: existingBooking } = await supabase
+      .from('bookings')
+      .select('id')
+      .eq('instructor_id', teacherId)
+      .eq('student_id', profile.id)
+      .maybeSingle()
+
+    const { from, to } = defaultSlotSearchRange()
+    const lessons = await loadTeacherLessons(
+      getSupabaseAdmin(),
+      teacherId,
+      new Date(from.getTime() - 24 * 60 * 60 * 1000),
+      to
+    )
+    const slots = findOpenSlots(availability, lessons, {
+      from,
+      to,
+      durationMinutes,
+      excludeBookingId: existingBooking?.id,
+    })
+
+    return NextResponse.json({
+      slots: slots.map((slot) => slot.toISOString()),
+      durationMinutes,
+      teacherTimezone: availability.timezone,
+      viewerTimezone: profile.timezone || DEFAULT_LESSON_TIMEZONE,
+      hasAvailability: availability.windows.length > 0,
+    })
+  } catch (error) {
+    console.error('[Students API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,127 @@
+import { createClient, getCurrentUser } from '@/lib/supabase-server'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { NextRequest, NextResponse } from 'next/server'
+import { formatInTimeZone } from 'date-fns-tz'
+import { DEFAULT_LESSON_DURATION_MINUTES } from '@/lib/lesson-occurrences'
+import { sendLessonInvite } from '@/lib/calendar/lesson-calendar'
+import {
+  defaultSlotSearchRange,
+  isSlotOpen,
+  loadTeacherAvailability,
+  loadTeacherLessons,
+} from '@/lib/teacher-availability'
+
+// POST /api/students/book-slot - Book an open slot as the student's weekly lesson
+//
+// Body: { teacherId, startsAt, durationMinutes? }. startsAt is the first
+// lesson; the booking repeats weekly at the same wall-clock time in the
+// teacher's timezone. Creates a confirmed booking, or updates the student's
+// existing pending or confirmed booking with this teacher.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { teacherId, startsAt } = body
+    const durationMinutes = body.durationMinutes ?? DEFAULT_LESSON_DURATION_MINUTES
+
+    if (!teacherId || !startsAt) {
+      return NextResponse.json({ error: 'teacherId and startsAt are required' }, { status: 400 })
+    }
+
+    const start = new Date(startsAt)
+    if (Number.isNaN(start.getTime())) {
+      return NextResponse.json({ error: 'Invalid start time' }, { status: 400 })
+    }
+    if (!Number.isInteger(durationMinutes) || durationMinutes < 15 || durationMinutes > 180) {
+      return NextResponse.json({ error: 'Invalid duration (must be 15-180 minutes)' }, { status: 400 })
+    }
+
+    const supabase = await createClient()
+    const profile = await getCurrentUser()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (profile.role !== 'student') {
+      return NextResponse.json({ error: 'Only students can book lessons' }, { status: 403 })
+    }
+
+    const availability = await loadTeacherAvailability(supabase, teacherId)
+    if (!availability) {
+      return NextResponse.json({ error: 'Teacher not found' }, { status: 404 })
+    }
+
+    const { data: existingBooking, error: existingError } = await supabase
+      .from('bookings')
+      .select('id, status')
+      .eq('instructor_id', teacherId)
+      .eq('student_id', profile.id)
+      .maybeSingle()
+
+    if (existingError) {
+      console.error('[Students API] Error checking existing booking:', existingError)
+      return NextResponse.json({ error: 'Failed to check existing relationship' }, { status: 500 })
+    }
+
+    // Only a live booking can be rescheduled; one the teacher cancelled or
+    // rejected stays that way
+    if (existingBooking && !['pending', 'confirmed'].includes(existingBooking.status)) {
+      return NextResponse.json({ error: 'This teacher is not accepting bookings from you' }, { status: 403 })
+    }
+
+    const { from, to } = defaultSlotSearchRange()
+    if (start < from || start >= to) {
+      return NextResponse.json({ error: 'That time is outside the booking window' }, { status: 400 })
+    }
+
+    const lessons = await loadTeacherLessons(
+      getSupabaseAdmin(),
+      teacherId,
+      new Date(from.getTime() - 24 * 60 * 60 * 1000),
+      to
+    )
+    const search = { from, to, durationMinutes, excludeBookingId: existingBooking?.id }
+    if (!isSlotOpen(availability, lessons, start, search)) {
+      return NextResponse.json({ error: 'That time is no longer available' }, { status: 409 })
+    }
+
+    const schedule = {
+      status: 'confirmed',
+      lesson_day_of_week: Number(formatInTimeZone(start, availability.timezone, 'i')) % 7,
+      lesson_time: formatInTimeZone(start, availability.timezone, 'HH:mm:00'),
+      lesson_duration_minutes: durationMinutes,
+      lesson_timezone: availability.timezone,
+      schedule_starts_at: start.toISOString(),
+      updated_at: new Date().toISOString(),
+    }
+
+    const { data: booking, error: writeError } = existingBooking
+      ? await supabase.from('bookings').update(schedule).eq('id', existingBooking.id).select('id').single()
+      : await supabase
+          .from('bookings')
+          .insert({
+            ...schedule,
+            instructor_id: teacherId,
+            student_id: profile.id,
+            created_at: new Date().toISOString(),
+          })
+          .select('id')
+          .single()
+
+    if (writeError || !booking) {
+      console.error('[Students API] Error booking slot:', writeError)
+      return NextResponse.json({ error: 'Failed to book lesson' }, { status: 500 })
+    }
+
+    // Both sides get the weekly invite; the student booked it, but it's their calendar too
+    await sendLessonInvite(getSupabaseAdmin(), {
+      bookingId: booking.id,
+      kind: existingBooking?.status === 'confirmed' ? 'schedule-changed' : 'confirmed',
+    })
+
+    return NextResponse.json({ success: true, bookingId: booking.id })
+  } catch (error) {
+    console.error('[Students API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
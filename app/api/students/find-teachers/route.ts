@@ -57,11 +57,19 @@ export async function GET(request: NextRequest) {
       })
     }
 
+    // Teachers with published availability can be booked directly
+    const { data: availabilityRows } = await supabase
+      .from('teacher_availability')
+      .select('instructor_id')
+      .in('instructor_id', teachers?.map((t) => t.id) || [])
+    const bookableIds = new Set((availabilityRows || []).map((row) => row.instructor_id))
+
     // Add booking status to each teacher
     const teachersWithStatus =
       teachers?.map((teacher) => ({
         ...teacher,
         relationshipStatus: bookingMap.get(teacher.id) || null,
+        hasAvailability: bookableIds.has(teacher.id),
       })) || []
 
     return NextResponse.json({ teachers: teachersWithStatus })
@@ -0,0 +1,32 @@
+import { createClient, getCurrentUser } from '@/lib/supabase-server'
+import { NextResponse } from 'next/server'
+
+// GET /api/students/sight-singing - Pieces the current student's teachers have assigned
+//
+// Newest first, with the melody so the trainer can play them.
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const profile = await getCurrentUser()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: pieces, error } = await supabase
+      .from('sight_singing_pieces')
+      .select('id, title, source, tempo_bpm, note_count, melody, created_at')
+      .eq('student_id', profile.id)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('[Students API] Error fetching sight-singing pieces:', error)
+      return NextResponse.json({ error: 'Failed to fetch pieces' }, { status: 500 })
+    }
+
+    return NextResponse.json({ pieces: pieces || [] })
+  } catch (error) {
+    console.error('[Students API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
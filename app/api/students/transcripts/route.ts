@@ -0,0 +1,29 @@
+import { createClient, getCurrentUser } from '@/lib/supabase-server'
+import { NextRequest, NextResponse } from 'next/server'
+import { searchTranscripts } from '@/lib/lesson-transcripts'
+
+// GET /api/students/transcripts?q= - Search the current student's lesson transcripts
+//
+// Covers lessons with every teacher. Each result lists the matching moments.
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const profile = await getCurrentUser()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const query = (request.nextUrl.searchParams.get('q') || '').trim()
+    if (!query) {
+      return NextResponse.json({ results: [] })
+    }
+
+    const results = await searchTranscripts(supabase, profile.id, query)
+
+    return NextResponse.json({ results })
+  } catch (error) {
+    console.error('[Students API] Transcript search error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,5 +1,7 @@
 import { createClient, getCurrentUser } from '@/lib/supabase-server'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
 import { NextRequest, NextResponse } from 'next/server'
+import { sendLessonInvite } from '@/lib/calendar/lesson-calendar'
 
 // POST /api/teachers/[studentId]/approve - Approve a booking request
 // Note: studentId here refers to the booking ID for simplicity
@@ -56,6 +58,9 @@ export async function POST(
       return NextResponse.json({ error: 'Failed to approve request' }, { status: 500 })
     }
 
+    // Confirmation email to the student, with a calendar invite once a time is set
+    await sendLessonInvite(getSupabaseAdmin(), { bookingId, kind: 'confirmed', actorId: profile.id })
+
     return NextResponse.json({
       success: true,
       message: 'Student approved successfully',
@@ -0,0 +1,134 @@
+import { createClient, getCurrentUser } from '@/lib/supabase-server'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  MAX_TARGET_SESSIONS,
+  withAssignmentProgress,
+  type PracticeAssignmentRow,
+} from '@/lib/practice-assignments'
+
+type RouteParams = { params: Promise<{ studentId: string; assignmentId: string }> }
+
+async function loadAssignment(bookingId: string, assignmentId: string) {
+  const supabase = await createClient()
+  const profile = await getCurrentUser()
+
+  if (!profile) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { data: row } = await supabase
+    .from('practice_assignments')
+    .select('*')
+    .eq('id', assignmentId)
+    .eq('booking_id', bookingId)
+    .maybeSingle()
+
+  if (!row) {
+    return { error: NextResponse.json({ error: 'Assignment not found' }, { status: 404 }) }
+  }
+
+  if (row.instructor_id !== profile.id && profile.role !== 'admin') {
+    return { error: NextResponse.json({ error: 'Access denied' }, { status: 403 }) }
+  }
+
+  return { supabase, row: row as PracticeAssignmentRow }
+}
+
+// PATCH /api/teachers/[studentId]/assignments/[assignmentId] - Update or archive an assignment
+// Note: studentId here refers to the booking ID
+//
+// Body: any of { status: 'active' | 'archived', targetSessions, dueAt, notes }.
+// Raising the target of a completed assignment reopens it.
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { studentId: bookingId, assignmentId } = await params
+    const result = await loadAssignment(bookingId, assignmentId)
+    if ('error' in result) return result.error
+    const { supabase, row } = result
+
+    const body = await request.json()
+    const updates: Record<string, unknown> = {}
+
+    if (body.status !== undefined) {
+      if (body.status !== 'active' && body.status !== 'archived') {
+        return NextResponse.json({ error: 'Status must be active or archived' }, { status: 400 })
+      }
+      updates.status = body.status
+    }
+
+    if (body.targetSessions !== undefined) {
+      const target = Number(body.targetSessions)
+      if (!Number.isInteger(target) || target < 1 || target > MAX_TARGET_SESSIONS) {
+        return NextResponse.json({ error: `Target sessions must be between 1 and ${MAX_TARGET_SESSIONS}` }, { status: 400 })
+      }
+      updates.target_sessions = target
+    }
+
+    if (body.dueAt !== undefined) {
+      const due = body.dueAt ? new Date(body.dueAt) : null
+      if (due && Number.isNaN(due.getTime())) {
+        return NextResponse.json({ error: 'Invalid due date' }, { status: 400 })
+      }
+      updates.due_at = due ? due.toISOString() : null
+    }
+
+    if (body.notes !== undefined) {
+      updates.notes = body.notes ? String(body.notes).trim().slice(0, 2000) || null : null
+    }
+
+    // Completion follows the session count whenever the target changes or the
+    // assignment is un-archived
+    const staysArchived = updates.status === 'archived' || (updates.status === undefined && row.status === 'archived')
+    if (!staysArchived && (updates.target_sessions !== undefined || updates.status === 'active')) {
+      const { count } = await supabase
+        .from('practice_assignment_sessions')
+        .select('id', { count: 'exact', head: true })
+        .eq('assignment_id', row.id)
+
+      const target = (updates.target_sessions as number | undefined) ?? row.target_sessions
+      const done = (count ?? 0) >= target
+      updates.status = done ? 'completed' : 'active'
+      updates.completed_at = done ? row.completed_at || new Date().toISOString() : null
+    }
+
+    const { data: updated, error } = await getSupabaseAdmin()
+      .from('practice_assignments')
+      .update(updates)
+      .eq('id', row.id)
+      .select('*')
+      .single()
+
+    if (error) {
+      console.error('[Teachers API] Error updating assignment:', error)
+      return NextResponse.json({ error: 'Failed to update assignment' }, { status: 500 })
+    }
+
+    const [assignment] = await withAssignmentProgress(supabase, [updated as PracticeAssignmentRow])
+    return NextResponse.json({ assignment })
+  } catch (error) {
+    console.error('[Teachers API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE /api/teachers/[studentId]/assignments/[assignmentId] - Delete an assignment and its progress
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { studentId: bookingId, assignmentId } = await params
+    const result = await loadAssignment(bookingId, assignmentId)
+    if ('error' in result) return result.error
+
+    const { error } = await getSupabaseAdmin().from('practice_assignments').delete().eq('id', result.row.id)
+
+    if (error) {
+      console.error('[Teachers API] Error deleting assignment:', error)
+      return NextResponse.json({ error: 'Failed to delete assignment' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[Teachers API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
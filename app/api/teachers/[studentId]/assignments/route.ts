@@ -0,0 +1,147 @@
+import { createClient, getCurrentUser } from '@/lib/supabase-server'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  validateAssignmentInput,
+  withAssignmentProgress,
+  type PracticeAssignmentRow,
+} from '@/lib/practice-assignments'
+
+async function loadTeacherBooking(bookingId: string) {
+  const supabase = await createClient()
+  const profile = await getCurrentUser()
+
+  if (!profile) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { data: booking } = await supabase
+    .from('bookings')
+    .select('id, instructor_id, student_id')
+    .eq('id', bookingId)
+    .single()
+
+  if (!booking) {
+    return { error: NextResponse.json({ error: 'Lesson not found' }, { status: 404 }) }
+  }
+
+  if (booking.instructor_id !== profile.id && profile.role !== 'admin') {
+    return { error: NextResponse.json({ error: 'Access denied' }, { status: 403 }) }
+  }
+
+  return { supabase, profile, booking }
+}
+
+// GET /api/teachers/[studentId]/assignments - Practice assignments for a student, with progress
+// Note: studentId here refers to the booking ID
+//
+// Also returns the homework list from the most recent lesson summary, so the
+// teacher can turn it into assignments.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ studentId: string }> }
+) {
+  try {
+    const { studentId: bookingId } = await params
+    const result = await loadTeacherBooking(bookingId)
+    if ('error' in result) return result.error
+    const { supabase } = result
+
+    const { data: rows, error } = await supabase
+      .from('practice_assignments')
+      .select('*')
+      .eq('booking_id', bookingId)
+      .neq('status', 'archived')
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('[Teachers API] Error fetching assignments:', error)
+      return NextResponse.json({ error: 'Failed to fetch assignments' }, { status: 500 })
+    }
+
+    const { data: latestNotes } = await supabase
+      .from('notes_archive')
+      .select('id, class_started_at, ai_summary')
+      .eq('booking_id', bookingId)
+      .not('ai_summary', 'is', null)
+      .order('class_started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const homework = (latestNotes?.ai_summary as { homeworkAssignments?: string[] } | null)?.homeworkAssignments
+
+    return NextResponse.json({
+      assignments: await withAssignmentProgress(supabase, (rows as PracticeAssignmentRow[] | null) || []),
+      homeworkSuggestions:
+        latestNotes && homework && homework.length > 0
+          ? { noteId: latestNotes.id, classStartedAt: latestNotes.class_started_at, items: homework }
+          : null,
+    })
+  } catch (error) {
+    console.error('[Teachers API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/teachers/[studentId]/assignments - Create a practice assignment
+// Note: studentId here refers to the booking ID
+//
+// Body: { trainer, settings, targetSessions, title?, notes?, minScore?, dueAt?, sourceNoteId? }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ studentId: string }> }
+) {
+  try {
+    const { studentId: bookingId } = await params
+    const result = await loadTeacherBooking(bookingId)
+    if ('error' in result) return result.error
+    const { supabase, booking } = result
+
+    const input = validateAssignmentInput(await request.json())
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 })
+    }
+
+    if (input.sourceNoteId) {
+      const { data: note } = await supabase
+        .from('notes_archive')
+        .select('id')
+        .eq('id', input.sourceNoteId)
+        .eq('booking_id', booking.id)
+        .maybeSingle()
+
+      if (!note) {
+        return NextResponse.json({ error: 'Lesson notes not found' }, { status: 400 })
+      }
+    }
+
+    const { data: row, error } = await getSupabaseAdmin()
+      .from('practice_assignments')
+      .insert({
+        booking_id: booking.id,
+        instructor_id: booking.instructor_id,
+        student_id: booking.student_id,
+        source_note_id: input.sourceNoteId,
+        trainer: input.trainer,
+        settings: input.settings,
+        title: input.title,
+        notes: input.notes,
+        target_sessions: input.targetSessions,
+        min_score: input.minScore,
+        due_at: input.dueAt,
+      })
+      .select('*')
+      .single()
+
+    if (error) {
+      console.error('[Teachers API] Error creating assignment:', error)
+      return NextResponse.json({ error: 'Failed to create assignment' }, { status: 500 })
+    }
+
+    const [assignment] = await withAssignmentProgress(supabase, [row as PracticeAssignmentRow])
+    return NextResponse.json({ assignment })
+  } catch (error) {
+    console.error('[Teachers API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,91 @@
+import { createClient, getCurrentUser } from '@/lib/supabase-server'
+import { NextRequest, NextResponse } from 'next/server'
+import { COURSE_COLUMNS, courseFromRow, getCourseLessonCount, type CourseRow } from '@/lib/courses'
+import { getWeakestQuestions, loadCourseProgress } from '@/lib/course-progress'
+
+// GET /api/teachers/[studentId]/course-progress - A student's course progress
+// Note: studentId here refers to the booking ID
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ studentId: string }> }
+) {
+  try {
+    const { studentId: bookingId } = await params
+    const supabase = await createClient()
+    const profile = await getCurrentUser()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: booking } = await supabase
+      .from('bookings')
+      .select('id, instructor_id, student_id')
+      .eq('id', bookingId)
+      .single()
+
+    if (!booking) {
+      return NextResponse.json({ error: 'Lesson not found' }, { status: 404 })
+    }
+
+    if (booking.instructor_id !== profile.id && profile.role !== 'admin') {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+    }
+
+    const { data: enrollments, error: enrollmentError } = await supabase
+      .from('course_enrollments')
+      .select('course_id, status, last_accessed_at')
+      .eq('student_id', booking.student_id)
+      .order('last_accessed_at', { ascending: false, nullsFirst: false })
+
+    if (enrollmentError) {
+      console.error('[Teachers API] Error fetching enrollments:', enrollmentError)
+      return NextResponse.json({ error: 'Failed to fetch course progress' }, { status: 500 })
+    }
+
+    const courseIds = (enrollments || []).map((e) => e.course_id)
+    if (courseIds.length === 0) {
+      return NextResponse.json({ courses: [] })
+    }
+
+    const { data: courseRows } = await supabase
+      .from('courses')
+      .select(COURSE_COLUMNS)
+      .in('id', courseIds)
+
+    const coursesById = new Map(
+      ((courseRows as CourseRow[] | null) || []).map((row) => [row.id, courseFromRow(row)])
+    )
+
+    const courses = await Promise.all(
+      (enrollments || []).map(async (enrollment) => {
+        const course = coursesById.get(enrollment.course_id)
+        if (!course) return null
+
+        const { progress, attempts } = await loadCourseProgress(
+          supabase,
+          { ...course, id: enrollment.course_id },
+          booking.student_id
+        )
+
+        return {
+          slug: course.slug,
+          title: course.title,
+          status: enrollment.status,
+          lastAccessedAt: enrollment.last_accessed_at,
+          totalLessons: getCourseLessonCount(course),
+          completedLessons: progress.completedLessonIds.length,
+          progressPercent: progress.progressPercent,
+          quizAttemptCount: attempts.length,
+          bestQuizScores: progress.bestQuizScores,
+          weakestQuestions: getWeakestQuestions(course, attempts),
+        }
+      })
+    )
+
+    return NextResponse.json({ courses: courses.filter(Boolean) })
+  } catch (error) {
+    console.error('[Teachers API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,115 @@
+import { createClient, getCurrentUser } from '@/lib/supabase-server'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { NextRequest, NextResponse } from 'next/server'
+import { MAX_TRACE_COMMENT_LENGTH, loadSessionTrace, type TraceTrainer } from '@/lib/pitch-traces'
+
+type RouteParams = { params: Promise<{ studentId: string; sessionId: string }> }
+
+async function loadTeacherTrace(bookingId: string, sessionId: string, trainer: string | null) {
+  if (trainer !== 'pitch' && trainer !== 'scale') {
+    return { error: NextResponse.json({ error: 'trainer must be pitch or scale' }, { status: 400 }) }
+  }
+
+  const supabase = await createClient()
+  const profile = await getCurrentUser()
+
+  if (!profile) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { data: booking } = await supabase
+    .from('bookings')
+    .select('id, instructor_id, student_id')
+    .eq('id', bookingId)
+    .single()
+
+  if (!booking) {
+    return { error: NextResponse.json({ error: 'Lesson not found' }, { status: 404 }) }
+  }
+
+  if (booking.instructor_id !== profile.id && profile.role !== 'admin') {
+    return { error: NextResponse.json({ error: 'Access denied' }, { status: 403 }) }
+  }
+
+  const trace = await loadSessionTrace(getSupabaseAdmin(), trainer as TraceTrainer, sessionId)
+  if (!trace || trace.studentId !== booking.student_id) {
+    return { error: NextResponse.json({ error: 'Session not found' }, { status: 404 }) }
+  }
+
+  return { profile, trace }
+}
+
+// GET /api/teachers/[studentId]/pitch-traces/[sessionId]?trainer=pitch|scale - Traces and comments for a session
+// Note: studentId here refers to the booking ID
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { studentId: bookingId, sessionId } = await params
+    const result = await loadTeacherTrace(bookingId, sessionId, request.nextUrl.searchParams.get('trainer'))
+    if ('error' in result) return result.error
+
+    return NextResponse.json({ trace: result.trace })
+  } catch (error) {
+    console.error('[Teachers API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/teachers/[studentId]/pitch-traces/[sessionId]?trainer=pitch|scale - Comment at a point in a note
+// Note: studentId here refers to the booking ID
+//
+// Body: { noteMetricId, timestampMs, body }. timestampMs is from the start of
+// that note attempt, as in the trace samples.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { studentId: bookingId, sessionId } = await params
+    const result = await loadTeacherTrace(bookingId, sessionId, request.nextUrl.searchParams.get('trainer'))
+    if ('error' in result) return result.error
+    const { profile, trace } = result
+
+    const { noteMetricId, timestampMs, body } = await request.json()
+    const text = typeof body === 'string' ? body.trim() : ''
+
+    if (!trace.notes.some((n) => n.noteMetricId === noteMetricId)) {
+      return NextResponse.json({ error: 'Note not found in this session' }, { status: 400 })
+    }
+    if (!Number.isFinite(timestampMs) || timestampMs < 0) {
+      return NextResponse.json({ error: 'Invalid timestamp' }, { status: 400 })
+    }
+    if (!text || text.length > MAX_TRACE_COMMENT_LENGTH) {
+      return NextResponse.json({ error: `Comment must be 1-${MAX_TRACE_COMMENT_LENGTH} characters` }, { status: 400 })
+    }
+
+    const { data: comment, error } = await getSupabaseAdmin()
+      .from('pitch_trace_comments')
+      .insert({
+        student_id: trace.studentId,
+        author_id: profile.id,
+        ...(trace.trainer === 'pitch'
+          ? { session_id: trace.sessionId, note_metric_id: noteMetricId }
+          : { scale_session_id: trace.sessionId, scale_note_metric_id: noteMetricId }),
+        timestamp_ms: Math.round(timestampMs),
+        body: text,
+      })
+      .select('id, timestamp_ms, body, created_at')
+      .single()
+
+    if (error) {
+      console.error('[Teachers API] Error saving trace comment:', error)
+      return NextResponse.json({ error: 'Failed to save comment' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      comment: {
+        id: comment.id,
+        noteMetricId,
+        timestampMs: comment.timestamp_ms,
+        body: comment.body,
+        authorName: profile.first_name || profile.name || 'Your teacher',
+        createdAt: comment.created_at,
+      },
+    })
+  } catch (error) {
+    console.error('[Teachers API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
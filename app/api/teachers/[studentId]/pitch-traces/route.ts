@@ -0,0 +1,43 @@
+import { createClient, getCurrentUser } from '@/lib/supabase-server'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { NextRequest, NextResponse } from 'next/server'
+import { listTraceSessions } from '@/lib/pitch-traces'
+
+// GET /api/teachers/[studentId]/pitch-traces - A student's recent pitch and scale sessions
+// Note: studentId here refers to the booking ID
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ studentId: string }> }
+) {
+  try {
+    const { studentId: bookingId } = await params
+    const supabase = await createClient()
+    const profile = await getCurrentUser()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: booking } = await supabase
+      .from('bookings')
+      .select('id, instructor_id, student_id')
+      .eq('id', bookingId)
+      .single()
+
+    if (!booking) {
+      return NextResponse.json({ error: 'Lesson not found' }, { status: 404 })
+    }
+
+    if (booking.instructor_id !== profile.id && profile.role !== 'admin') {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+    }
+
+    // Teachers have no RLS access to note metrics or samples; access is checked above
+    const sessions = await listTraceSessions(getSupabaseAdmin(), booking.student_id)
+
+    return NextResponse.json({ sessions })
+  } catch (error) {
+    console.error('[Teachers API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,5 +1,7 @@
 import { createClient, getCurrentUser } from '@/lib/supabase-server'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
 import { NextRequest, NextResponse } from 'next/server'
+import { sendLessonInvite } from '@/lib/calendar/lesson-calendar'
 
 // PATCH /api/teachers/[studentId]/schedule - Update lesson schedule for a booking
 // Note: studentId here refers to the booking ID
@@ -101,6 +103,10 @@ export async function PATCH(
       return NextResponse.json({ error: 'Failed to update schedule' }, { status: 500 })
     }
 
+    if (updatedBooking.lesson_day_of_week !== null && updatedBooking.lesson_time) {
+      await sendLessonInvite(getSupabaseAdmin(), { bookingId, kind: 'schedule-changed', actorId: profile.id })
+    }
+
     return NextResponse.json({
       success: true,
       message: 'Schedule updated successfully',
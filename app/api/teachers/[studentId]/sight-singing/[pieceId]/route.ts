@@ -0,0 +1,48 @@
+import { createClient, getCurrentUser } from '@/lib/supabase-server'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { NextRequest, NextResponse } from 'next/server'
+
+type RouteParams = { params: Promise<{ studentId: string; pieceId: string }> }
+
+// DELETE /api/teachers/[studentId]/sight-singing/[pieceId] - Remove an assigned piece
+// Note: studentId here refers to the booking ID
+//
+// The student's past attempts are kept; they lose their link to the piece.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { studentId: bookingId, pieceId } = await params
+    const supabase = await createClient()
+    const profile = await getCurrentUser()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: piece } = await supabase
+      .from('sight_singing_pieces')
+      .select('id, instructor_id')
+      .eq('id', pieceId)
+      .eq('booking_id', bookingId)
+      .maybeSingle()
+
+    if (!piece) {
+      return NextResponse.json({ error: 'Piece not found' }, { status: 404 })
+    }
+
+    if (piece.instructor_id !== profile.id && profile.role !== 'admin') {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+    }
+
+    const { error } = await getSupabaseAdmin().from('sight_singing_pieces').delete().eq('id', piece.id)
+
+    if (error) {
+      console.error('[Teachers API] Error deleting sight-singing piece:', error)
+      return NextResponse.json({ error: 'Failed to delete piece' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[Teachers API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
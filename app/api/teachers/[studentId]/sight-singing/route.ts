@@ -0,0 +1,128 @@
+import { createClient, getCurrentUser } from '@/lib/supabase-server'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { NextRequest, NextResponse } from 'next/server'
+import { MELODY_SOURCES, validateMelody } from '@/lib/sight-singing'
+
+// Sessions shown to the teacher
+const RECENT_SESSION_LIMIT = 20
+
+async function loadTeacherBooking(bookingId: string) {
+  const supabase = await createClient()
+  const profile = await getCurrentUser()
+
+  if (!profile) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { data: booking } = await supabase
+    .from('bookings')
+    .select('id, instructor_id, student_id')
+    .eq('id', bookingId)
+    .single()
+
+  if (!booking) {
+    return { error: NextResponse.json({ error: 'Lesson not found' }, { status: 404 }) }
+  }
+
+  if (booking.instructor_id !== profile.id && profile.role !== 'admin') {
+    return { error: NextResponse.json({ error: 'Access denied' }, { status: 403 }) }
+  }
+
+  return { supabase, profile, booking }
+}
+
+// GET /api/teachers/[studentId]/sight-singing - Imported pieces and the student's recent attempts
+// Note: studentId here refers to the booking ID
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ studentId: string }> }
+) {
+  try {
+    const { studentId: bookingId } = await params
+    const result = await loadTeacherBooking(bookingId)
+    if ('error' in result) return result.error
+    const { supabase, booking } = result
+
+    const { data: pieces, error } = await supabase
+      .from('sight_singing_pieces')
+      .select('id, title, source, file_name, tempo_bpm, beats_per_bar, note_count, created_at')
+      .eq('booking_id', bookingId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('[Teachers API] Error fetching sight-singing pieces:', error)
+      return NextResponse.json({ error: 'Failed to fetch pieces' }, { status: 500 })
+    }
+
+    const { data: sessions, error: sessionsError } = await supabase
+      .from('sight_singing_sessions')
+      .select('id, piece_id, library_id, title, started_at, tempo_bpm, total_notes, notes_hit, pitch_accuracy, timing_accuracy, overall_score, phrase_results')
+      .eq('user_id', booking.student_id)
+      .order('started_at', { ascending: false })
+      .limit(RECENT_SESSION_LIMIT)
+
+    if (sessionsError) {
+      console.error('[Teachers API] Error fetching sight-singing sessions:', sessionsError)
+      return NextResponse.json({ error: 'Failed to fetch sessions' }, { status: 500 })
+    }
+
+    return NextResponse.json({ pieces: pieces || [], sessions: sessions || [] })
+  } catch (error) {
+    console.error('[Teachers API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/teachers/[studentId]/sight-singing - Assign an imported or library piece
+// Note: studentId here refers to the booking ID
+//
+// Body: { melody, source: 'musicxml' | 'midi' | 'library', fileName? }. Files
+// are parsed in the browser; only the melody is sent.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ studentId: string }> }
+) {
+  try {
+    const { studentId: bookingId } = await params
+    const result = await loadTeacherBooking(bookingId)
+    if ('error' in result) return result.error
+    const { booking } = result
+
+    const body = await request.json()
+    if (!MELODY_SOURCES.includes(body.source)) {
+      return NextResponse.json({ error: 'Source must be musicxml, midi or library' }, { status: 400 })
+    }
+
+    const melody = validateMelody(body.melody)
+    if (typeof melody === 'string') {
+      return NextResponse.json({ error: melody }, { status: 400 })
+    }
+
+    const { data: piece, error } = await getSupabaseAdmin()
+      .from('sight_singing_pieces')
+      .insert({
+        booking_id: booking.id,
+        instructor_id: booking.instructor_id,
+        student_id: booking.student_id,
+        title: melody.title,
+        source: body.source,
+        file_name: body.fileName ? String(body.fileName).slice(0, 255) : null,
+        tempo_bpm: melody.tempoBpm,
+        beats_per_bar: melody.beatsPerBar,
+        note_count: melody.notes.length,
+        melody,
+      })
+      .select('id, title, source, file_name, tempo_bpm, beats_per_bar, note_count, created_at')
+      .single()
+
+    if (error) {
+      console.error('[Teachers API] Error creating sight-singing piece:', error)
+      return NextResponse.json({ error: 'Failed to save piece' }, { status: 500 })
+    }
+
+    return NextResponse.json({ piece })
+  } catch (error) {
+    console.error('[Teachers API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,49 @@
+import { createClient, getCurrentUser } from '@/lib/supabase-server'
+import { NextRequest, NextResponse } from 'next/server'
+import { searchTranscripts } from '@/lib/lesson-transcripts'
+
+// GET /api/teachers/[studentId]/transcripts?q= - Search a student's lesson transcripts
+// Note: studentId here refers to the booking ID
+//
+// Limited to the lessons recorded under this booking; a student's lessons with
+// other teachers are not searchable from here.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ studentId: string }> }
+) {
+  try {
+    const { studentId: bookingId } = await params
+    const supabase = await createClient()
+    const profile = await getCurrentUser()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: booking } = await supabase
+      .from('bookings')
+      .select('id, instructor_id, student_id')
+      .eq('id', bookingId)
+      .single()
+
+    if (!booking) {
+      return NextResponse.json({ error: 'Lesson not found' }, { status: 404 })
+    }
+
+    if (booking.instructor_id !== profile.id && profile.role !== 'admin') {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+    }
+
+    const query = (request.nextUrl.searchParams.get('q') || '').trim()
+    if (!query) {
+      return NextResponse.json({ results: [] })
+    }
+
+    const results = await searchTranscripts(supabase, booking.student_id, query, bookingId)
+
+    return NextResponse.json({ results })
+  } catch (error) {
+    console.error('[Teachers API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,143 @@
+import { createClient, getCurrentUser } from '@/lib/supabase-server'
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  isValidTimeZone,
+  loadTeacherAvailability,
+  validateAvailabilityWindows,
+} from '@/lib/teacher-availability'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// GET /api/teachers/availability - The current teacher's published availability
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const profile = await getCurrentUser()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const isTeacher = profile.role === 'teacher' || profile.role === 'instructor' || profile.role === 'admin'
+    if (!isTeacher) {
+      return NextResponse.json({ error: 'Only teachers have availability' }, { status: 403 })
+    }
+
+    const availability = await loadTeacherAvailability(supabase, profile.id)
+    return NextResponse.json({ availability })
+  } catch (error) {
+    console.error('[Availability API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PUT /api/teachers/availability - Replace the current teacher's availability
+//
+// Body: { timezone, bufferMinutes, maxLessonsPerDay, windows: [{ dayOfWeek, startTime, endTime }],
+//         blackoutDates: [{ date, reason? }] }. Windows and dates are in `timezone`,
+// which is saved to profiles.timezone.
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { timezone, bufferMinutes, maxLessonsPerDay, windows, blackoutDates } = body
+
+    const supabase = await createClient()
+    const profile = await getCurrentUser()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const isTeacher = profile.role === 'teacher' || profile.role === 'instructor' || profile.role === 'admin'
+    if (!isTeacher) {
+      return NextResponse.json({ error: 'Only teachers can publish availability' }, { status: 403 })
+    }
+
+    if (typeof timezone !== 'string' || !isValidTimeZone(timezone)) {
+      return NextResponse.json({ error: 'Invalid timezone' }, { status: 400 })
+    }
+
+    if (!Number.isInteger(bufferMinutes) || bufferMinutes < 0 || bufferMinutes > 120) {
+      return NextResponse.json({ error: 'Invalid buffer (must be 0-120 minutes)' }, { status: 400 })
+    }
+
+    if (maxLessonsPerDay !== null && (!Number.isInteger(maxLessonsPerDay) || maxLessonsPerDay < 1 || maxLessonsPerDay > 24)) {
+      return NextResponse.json({ error: 'Invalid max lessons per day (must be 1-24)' }, { status: 400 })
+    }
+
+    const parsedWindows = validateAvailabilityWindows(windows)
+    if (typeof parsedWindows === 'string') {
+      return NextResponse.json({ error: parsedWindows }, { status: 400 })
+    }
+
+    if (!Array.isArray(blackoutDates) || blackoutDates.some((b) => !DATE_PATTERN.test(String(b?.date)))) {
+      return NextResponse.json({ error: 'Invalid blackout dates (use YYYY-MM-DD)' }, { status: 400 })
+    }
+    const uniqueBlackouts = new Map<string, string | null>()
+    for (const blackout of blackoutDates) {
+      uniqueBlackouts.set(blackout.date, blackout.reason?.trim() || null)
+    }
+
+    const { error: profileError } = await supabase
+      .from('profiles')
+      .update({
+        timezone,
+        booking_buffer_minutes: bufferMinutes,
+        max_lessons_per_day: maxLessonsPerDay,
+      })
+      .eq('id', profile.id)
+
+    if (profileError) {
+      console.error('[Availability API] Profile update error:', profileError)
+      return NextResponse.json({ error: 'Failed to update availability' }, { status: 500 })
+    }
+
+    // Replace windows and blackout dates wholesale; the editor always sends the full set
+    const [{ error: deleteWindowsError }, { error: deleteBlackoutsError }] = await Promise.all([
+      supabase.from('teacher_availability').delete().eq('instructor_id', profile.id),
+      supabase.from('teacher_blackout_dates').delete().eq('instructor_id', profile.id),
+    ])
+
+    if (deleteWindowsError || deleteBlackoutsError) {
+      console.error('[Availability API] Delete error:', deleteWindowsError || deleteBlackoutsError)
+      return NextResponse.json({ error: 'Failed to update availability' }, { status: 500 })
+    }
+
+    if (parsedWindows.length > 0) {
+      const { error: windowsError } = await supabase.from('teacher_availability').insert(
+        parsedWindows.map((w) => ({
+          instructor_id: profile.id,
+          day_of_week: w.dayOfWeek,
+          start_time: `${w.startTime}:00`,
+          end_time: `${w.endTime}:00`,
+        }))
+      )
+
+      if (windowsError) {
+        console.error('[Availability API] Windows insert error:', windowsError)
+        return NextResponse.json({ error: 'Failed to save availability windows' }, { status: 500 })
+      }
+    }
+
+    if (uniqueBlackouts.size > 0) {
+      const { error: blackoutsError } = await supabase.from('teacher_blackout_dates').insert(
+        [...uniqueBlackouts].map(([date, reason]) => ({
+          instructor_id: profile.id,
+          blackout_date: date,
+          reason,
+        }))
+      )
+
+      if (blackoutsError) {
+        console.error('[Availability API] Blackout insert error:', blackoutsError)
+        return NextResponse.json({ error: 'Failed to save blackout dates' }, { status: 500 })
+      }
+    }
+
+    const availability = await loadTeacherAvailability(supabase, profile.id)
+    return NextResponse.json({ success: true, availability })
+  } catch (error) {
+    console.error('[Availability API] Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect, useCallback } from 'react'
 import {
   ChevronLeft,
   ChevronRight,
@@ -8,6 +8,9 @@ import {
   Video,
   Calendar as CalendarIcon,
   User,
+  XCircle,
+  CalendarClock,
+  Plus,
 } from 'lucide-react'
 import {
   format,
@@ -23,6 +26,7 @@ import {
   isToday,
 } from 'date-fns'
 import Link from 'next/link'
+import type { LessonOccurrence } from '@/lib/lesson-occurrences'
 
 interface User {
   id: string
@@ -44,10 +48,35 @@ interface Booking {
 
 interface CalendarEvent {
   booking: Booking
+  occurrence: LessonOccurrence
   date: Date
   time: string
 }
 
+type OccurrenceAction =
+  | { mode: 'cancel' | 'reschedule'; occurrence: LessonOccurrence }
+  | { mode: 'extra'; bookingId: string }
+
+function eventClassName(occurrence: LessonOccurrence): string {
+  if (occurrence.status === 'cancelled') return 'bg-red-500/15 text-red-300 line-through'
+  if (occurrence.kind === 'extra') return 'bg-purple-500/20 text-purple-300'
+  if (occurrence.isRescheduled) return 'bg-amber-500/20 text-amber-300'
+  return 'bg-green-500/20 text-green-300'
+}
+
+function eventLabel(occurrence: LessonOccurrence): string {
+  if (occurrence.status === 'cancelled') return 'Cancelled'
+  if (occurrence.kind === 'extra') return 'Extra Lesson'
+  if (occurrence.isRescheduled) return 'Rescheduled'
+  return 'Weekly Lesson'
+}
+
+/** Value for a datetime-local input, in the browser's timezone. */
+function toLocalInputValue(date: Date) {
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16)
+}
+
 interface CalendarViewProps {
   bookings: Booking[]
   currentUser: { id: string; first_name: string; last_name: string; name: string; role: string }
@@ -76,43 +105,162 @@ export function CalendarView({ bookings, currentUser, userTimezone, isTeacher }:
   const [selectedDate, setSelectedDate] = useState<Date | null>(new Date())
   const [view, setView] = useState<'month' | 'week'>('month')
 
-  // Debug: log bookings on client
-  console.log('[Calendar Client] Received bookings:', bookings.length, bookings)
+  const [occurrences, setOccurrences] = useState<LessonOccurrence[]>([])
+  const [action, setAction] = useState<OccurrenceAction | null>(null)
+  const [actionForm, setActionForm] = useState({ reason: '', startsAt: '' })
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
 
-  // Generate recurring events for the visible date range
+  // Visible range plus a week either side, matching the month grid's spill-over days
+  const visibleRange = useMemo(() => {
+    const monthStart = startOfMonth(currentDate)
+    const monthEnd = endOfMonth(currentDate)
+    return {
+      start: startOfWeek(addDays(monthStart, -7)),
+      end: addDays(endOfWeek(addDays(monthEnd, 7)), 1),
+    }
+  }, [currentDate])
+
+  const loadOccurrences = useCallback(async () => {
+    const params = new URLSearchParams({
+      from: visibleRange.start.toISOString(),
+      to: visibleRange.end.toISOString(),
+    })
+    const response = await fetch(`/api/lessons/occurrences?${params}`)
+    const data = await response.json()
+    if (!response.ok) {
+      console.error('[Calendar] Failed to load lessons:', data.error)
+      return
+    }
+    setOccurrences(data.occurrences || [])
+  }, [visibleRange])
+
+  useEffect(() => {
+    loadOccurrences()
+  }, [loadOccurrences])
+
+  // Real lesson occurrences (weekly slot plus cancellations, moves and extras), grouped by local day
   const eventsByDate = useMemo(() => {
     const grouped: Record<string, CalendarEvent[]> = {}
+    const bookingsById = new Map(bookings.map((b) => [b.id, b]))
 
-    // Get the date range we need to generate events for (extend beyond visible to catch edge cases)
-    const monthStart = startOfMonth(currentDate)
-    const monthEnd = endOfMonth(currentDate)
-    const rangeStart = startOfWeek(addDays(monthStart, -7))
-    const rangeEnd = endOfWeek(addDays(monthEnd, 7))
-
-    bookings.forEach((booking) => {
-      // Skip bookings without recurring schedule
-      if (booking.lesson_day_of_week === null || !booking.lesson_time) return
-
-      // Generate events for each occurrence in the date range
-      let day = rangeStart
-      while (day <= rangeEnd) {
-        // Check if this day matches the lesson day of week
-        if (day.getDay() === booking.lesson_day_of_week) {
-          const dateKey = format(day, 'yyyy-MM-dd')
-          if (!grouped[dateKey]) {
-            grouped[dateKey] = []
-          }
-          grouped[dateKey].push({
-            booking,
-            date: day,
-            time: booking.lesson_time,
-          })
-        }
-        day = addDays(day, 1)
+    occurrences.forEach((occurrence) => {
+      const booking = bookingsById.get(occurrence.bookingId)
+      if (!booking) return
+
+      const date = new Date(occurrence.startsAt)
+      const dateKey = format(date, 'yyyy-MM-dd')
+      if (!grouped[dateKey]) {
+        grouped[dateKey] = []
       }
+      grouped[dateKey].push({ booking, occurrence, date, time: format(date, 'HH:mm') })
     })
     return grouped
-  }, [bookings, currentDate])
+  }, [bookings, occurrences])
+
+  const openAction = (next: OccurrenceAction) => {
+    setAction(next)
+    setActionError(null)
+    const defaultStart =
+      next.mode === 'reschedule'
+        ? new Date(next.occurrence.startsAt)
+        : new Date((selectedDate ?? new Date()).setHours(17, 0, 0, 0))
+    setActionForm({ reason: '', startsAt: toLocalInputValue(defaultStart) })
+  }
+
+  const submitAction = async () => {
+    if (!action) return
+    setIsSubmitting(true)
+    setActionError(null)
+
+    try {
+      const bookingId = action.mode === 'extra' ? action.bookingId : action.occurrence.bookingId
+      const ref =
+        action.mode === 'extra'
+          ? {}
+          : action.occurrence.occurrenceId
+            ? { occurrenceId: action.occurrence.occurrenceId }
+            : { originalStartsAt: action.occurrence.originalStartsAt }
+      const path = action.mode === 'extra' ? '' : `/${action.mode}`
+
+      const response = await fetch(`/api/lessons/${bookingId}/occurrences${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...ref,
+          reason: actionForm.reason,
+          ...(action.mode !== 'cancel' ? { startsAt: new Date(actionForm.startsAt).toISOString() } : {}),
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setActionError(data.error || 'Something went wrong')
+        return
+      }
+
+      setAction(null)
+      await loadOccurrences()
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const renderActionForm = () => {
+    if (!action) return null
+
+    return (
+      <div className="px-4 pb-4 pt-2 space-y-2">
+        {action.mode !== 'cancel' && (
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">
+              {action.mode === 'extra' ? 'Lesson time' : 'New time'}
+            </label>
+            <input
+              type="datetime-local"
+              value={actionForm.startsAt}
+              onChange={(e) => setActionForm({ ...actionForm, startsAt: e.target.value })}
+              className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm text-white"
+            />
+          </div>
+        )}
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">
+            {action.mode === 'extra' ? 'Note (optional)' : 'Reason'}
+          </label>
+          <input
+            type="text"
+            value={actionForm.reason}
+            onChange={(e) => setActionForm({ ...actionForm, reason: e.target.value })}
+            placeholder={action.mode === 'extra' ? 'e.g. Makeup lesson' : 'Let the other person know why'}
+            className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm text-white placeholder-gray-500"
+          />
+        </div>
+        {actionError && <p className="text-xs text-red-300">{actionError}</p>}
+        <div className="flex gap-2">
+          <button
+            onClick={submitAction}
+            disabled={isSubmitting || (action.mode !== 'extra' && !actionForm.reason.trim()) || (action.mode !== 'cancel' && !actionForm.startsAt)}
+            className="flex-1 text-xs font-medium px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-50"
+          >
+            {isSubmitting
+              ? 'Saving...'
+              : action.mode === 'cancel'
+                ? 'Cancel lesson'
+                : action.mode === 'reschedule'
+                  ? 'Move lesson'
+                  : 'Add lesson'}
+          </button>
+          <button
+            onClick={() => setAction(null)}
+            className="text-xs px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-gray-300"
+          >
+            Back
+          </button>
+        </div>
+      </div>
+    )
+  }
 
   // Get events for selected date
   const selectedDateEvents = useMemo(() => {
@@ -276,7 +424,7 @@ export function CalendarView({ bookings, currentUser, userTimezone, isTeacher }:
                       {dayEvents.slice(0, 3).map((event, idx) => (
                         <div
                           key={`${event.booking.id}-${idx}`}
-                          className="text-xs px-1.5 py-0.5 rounded truncate bg-green-500/20 text-green-300"
+                          className={`text-xs px-1.5 py-0.5 rounded truncate ${eventClassName(event.occurrence)}`}
                         >
                           {formatLessonTime(event.time)}
                         </div>
@@ -314,7 +462,10 @@ export function CalendarView({ bookings, currentUser, userTimezone, isTeacher }:
                     </div>
                     <div className="space-y-1">
                       {dayEvents.map((event, idx) => (
-                        <div key={`${event.booking.id}-${idx}`} className="text-xs p-1.5 rounded-lg bg-green-500/20 text-green-300">
+                        <div
+                          key={`${event.booking.id}-${idx}`}
+                          className={`text-xs p-1.5 rounded-lg ${eventClassName(event.occurrence)}`}
+                        >
                           <div className="font-medium truncate">{formatLessonTime(event.time)}</div>
                           <div className="truncate">
                             {isTeacher
@@ -350,45 +501,133 @@ export function CalendarView({ bookings, currentUser, userTimezone, isTeacher }:
           ) : (
             <div className="space-y-3">
               {selectedDateEvents
-                .sort((a, b) => a.time.localeCompare(b.time))
-                .map((event, idx) => {
+                .sort((a, b) => a.occurrence.startsAt.localeCompare(b.occurrence.startsAt))
+                .map((event) => {
+                  const { occurrence } = event
                   const otherUser = isTeacher ? getUser(event.booking.student) : getUser(event.booking.instructor)
                   const lessonPath = isTeacher
                     ? `/dashboard/students/${event.booking.id}`
                     : `/dashboard/my-lessons/${event.booking.id}`
+                  const eventKey = `${occurrence.bookingId}-${occurrence.originalStartsAt ?? occurrence.occurrenceId}`
+                  const isActionTarget =
+                    action !== null &&
+                    action.mode !== 'extra' &&
+                    action.occurrence.bookingId === occurrence.bookingId &&
+                    action.occurrence.startsAt === occurrence.startsAt
+                  const canChange = occurrence.status === 'scheduled' && new Date(occurrence.startsAt) > new Date()
 
                   return (
-                    <Link key={`${event.booking.id}-${idx}`} href={lessonPath} className="block">
-                      <div className="bg-white/5 hover:bg-white/10 transition-colors p-4 rounded-xl">
-                        <div className="flex items-start gap-3">
-                          <div className="w-10 h-10 rounded-full bg-gradient-to-br from-green-500 to-teal-600 flex items-center justify-center text-white font-bold">
-                            {getUserDisplayName(otherUser).slice(0, 2).toUpperCase()}
-                          </div>
-                          <div className="flex-1 min-w-0">
-                            <div className="flex items-center gap-2 mb-1">
-                              <span className="text-sm font-medium text-white">{getUserDisplayName(otherUser)}</span>
-                            </div>
-
-                            <div className="flex items-center gap-2 text-xs text-gray-400 mb-2">
-                              <Clock className="w-3 h-3" />
-                              <span>
-                                {formatLessonTime(event.time)}
-                                {event.booking.lesson_duration_minutes && ` (${event.booking.lesson_duration_minutes} min)`}
-                              </span>
+                    <div key={eventKey} className="bg-white/5 rounded-xl">
+                      <Link href={lessonPath} className="block">
+                        <div className="hover:bg-white/10 transition-colors p-4 rounded-xl">
+                          <div className="flex items-start gap-3">
+                            <div className="w-10 h-10 rounded-full bg-gradient-to-br from-green-500 to-teal-600 flex items-center justify-center text-white font-bold">
+                              {getUserDisplayName(otherUser).slice(0, 2).toUpperCase()}
                             </div>
-
-                            <div className="flex items-center gap-2 text-xs text-green-400">
-                              <Video className="w-3 h-3" />
-                              <span>Weekly Lesson</span>
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center gap-2 mb-1">
+                                <span className="text-sm font-medium text-white">{getUserDisplayName(otherUser)}</span>
+                              </div>
+
+                              <div
+                                className={`flex items-center gap-2 text-xs text-gray-400 mb-2 ${
+                                  occurrence.status === 'cancelled' ? 'line-through' : ''
+                                }`}
+                              >
+                                <Clock className="w-3 h-3" />
+                                <span>
+                                  {formatLessonTime(event.time)} ({occurrence.durationMinutes} min)
+                                </span>
+                              </div>
+
+                              <div
+                                className={`flex items-center gap-2 text-xs ${
+                                  occurrence.status === 'cancelled'
+                                    ? 'text-red-400'
+                                    : occurrence.kind === 'extra'
+                                      ? 'text-purple-400'
+                                      : occurrence.isRescheduled
+                                        ? 'text-amber-400'
+                                        : 'text-green-400'
+                                }`}
+                              >
+                                {occurrence.status === 'cancelled' ? (
+                                  <XCircle className="w-3 h-3" />
+                                ) : (
+                                  <Video className="w-3 h-3" />
+                                )}
+                                <span>{eventLabel(occurrence)}</span>
+                                {occurrence.isRescheduled && occurrence.originalStartsAt && (
+                                  <span className="text-gray-500">
+                                    from {format(new Date(occurrence.originalStartsAt), 'MMM d, h:mm a')}
+                                  </span>
+                                )}
+                              </div>
+                              {occurrence.reason && (
+                                <p className="text-xs text-gray-500 mt-1 truncate">{occurrence.reason}</p>
+                              )}
                             </div>
                           </div>
                         </div>
-                      </div>
-                    </Link>
+                      </Link>
+
+                      {canChange && !isActionTarget && (
+                        <div className="flex gap-2 px-4 pb-3">
+                          <button
+                            onClick={() => openAction({ mode: 'reschedule', occurrence })}
+                            className="flex items-center gap-1 text-xs text-gray-300 hover:text-white px-2 py-1 rounded-lg bg-white/5 hover:bg-white/10"
+                          >
+                            <CalendarClock className="w-3 h-3" />
+                            Reschedule
+                          </button>
+                          <button
+                            onClick={() => openAction({ mode: 'cancel', occurrence })}
+                            className="flex items-center gap-1 text-xs text-red-300 hover:text-red-200 px-2 py-1 rounded-lg bg-red-500/10 hover:bg-red-500/20"
+                          >
+                            <XCircle className="w-3 h-3" />
+                            Cancel
+                          </button>
+                        </div>
+                      )}
+
+                      {isActionTarget && renderActionForm()}
+                    </div>
                   )
                 })}
             </div>
           )}
+
+          {isTeacher && bookings.length > 0 && (
+            <div className="mt-4">
+              {action?.mode === 'extra' ? (
+                <div className="bg-white/5 rounded-xl">
+                  <div className="px-4 pt-4">
+                    <label className="block text-xs text-gray-400 mb-1">Student</label>
+                    <select
+                      value={action.bookingId}
+                      onChange={(e) => setAction({ mode: 'extra', bookingId: e.target.value })}
+                      className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm text-white"
+                    >
+                      {bookings.map((booking) => (
+                        <option key={booking.id} value={booking.id} className="bg-gray-900">
+                          {getUserDisplayName(getUser(booking.student))}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  {renderActionForm()}
+                </div>
+              ) : (
+                <button
+                  onClick={() => openAction({ mode: 'extra', bookingId: bookings[0].id })}
+                  className="w-full flex items-center justify-center gap-2 text-sm text-purple-300 hover:text-purple-200 px-3 py-2 rounded-xl border border-dashed border-purple-500/30 hover:bg-purple-500/10"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add extra lesson
+                </button>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
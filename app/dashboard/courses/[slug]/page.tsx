@@ -2,9 +2,11 @@
 
 import Link from 'next/link'
 import { use, useEffect, useMemo, useState } from 'react'
-import { ArrowLeft, CheckCircle2, ChevronDown, ChevronRight, Circle, Clock3, PlayCircle } from 'lucide-react'
-import { getCourseBySlug, type CourseLesson } from '@/lib/courses'
+import { ArrowLeft, CheckCircle2, ChevronDown, ChevronRight, Circle, Clock3, Lock, PlayCircle } from 'lucide-react'
+import { getCourseBySlug, type Course, type CourseLesson } from '@/lib/courses'
+import type { CourseProgress } from '@/lib/course-progress'
 import { CourseQuizRunner } from '@/components/course-quiz-runner'
+import { createClient } from '@/lib/supabase'
 
 interface LessonPointer {
   sectionId: string
@@ -13,13 +15,67 @@ interface LessonPointer {
   index: number
 }
 
-function getProgressKey(slug: string) {
-  return `course-progress:${slug}`
-}
-
 export default function CoursePlayerPage({ params }: { params: Promise<{ slug: string }> }) {
   const { slug } = use(params)
-  const course = getCourseBySlug(slug)
+  const [course, setCourse] = useState<Course | undefined>()
+  const [progress, setProgress] = useState<CourseProgress | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    const load = async () => {
+      const result = await getCourseBySlug(createClient(), slug)
+      setCourse(result)
+
+      // Courses not yet seeded into the table (no id) are viewable but untracked.
+      if (result?.id) {
+        const response = await fetch(`/api/courses/${slug}/progress`)
+        if (response.ok) {
+          const data = await response.json()
+          setProgress(data.progress)
+        }
+      }
+      setIsLoading(false)
+    }
+    load()
+  }, [slug])
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <div className="glass-card rounded-2xl border-white/[0.08] p-8 text-center">
+          <p className="text-slate-400">Loading course...</p>
+        </div>
+      </div>
+    )
+  }
+
+  // Keyed so lesson state re-initialises from the loaded course's saved progress.
+  return <CoursePlayer key={course?.slug ?? slug} course={course} initialProgress={progress} />
+}
+
+function CoursePlayer({
+  course,
+  initialProgress,
+}: {
+  course: Course | undefined
+  initialProgress: CourseProgress | null
+}) {
+  const isTracked = !!course?.id && !!initialProgress
+
+  const [progress, setProgress] = useState<CourseProgress>(
+    () =>
+      initialProgress ?? {
+        completedLessonIds: [],
+        lastLessonId: null,
+        bestQuizScores: {},
+        passedQuizIds: [],
+        lockedSectionIds: [],
+        progressPercent: 0,
+      }
+  )
+  const [progressError, setProgressError] = useState<string | null>(null)
+  const completedLessonIds = progress.completedLessonIds
+  const lockedSectionIds = progress.lockedSectionIds
 
   const lessonPointers = useMemo<LessonPointer[]>(
     () =>
@@ -36,46 +92,20 @@ export default function CoursePlayerPage({ params }: { params: Promise<{ slug: s
     [course]
   )
 
-  const defaultExpanded = useMemo<Record<string, boolean>>(
-    () =>
-      course
-        ? Object.fromEntries(course.sections.map((section, idx) => [section.id, idx === 0]))
-        : {},
-    [course]
-  )
-  const defaultLessonId = course?.sections[0]?.lessons[0]?.id ?? ''
+  // Resume where the student left off, with that lesson's module expanded.
+  const defaultLessonId = progress.lastLessonId ?? course?.sections[0]?.lessons[0]?.id ?? ''
+  const defaultExpanded = useMemo<Record<string, boolean>>(() => {
+    if (!course) return {}
+    const resumeSectionId = course.sections.find((section) =>
+      section.lessons.some((lesson) => lesson.id === defaultLessonId)
+    )?.id
+    return Object.fromEntries(
+      course.sections.map((section, idx) => [section.id, resumeSectionId ? section.id === resumeSectionId : idx === 0])
+    )
+  }, [course, defaultLessonId])
 
   const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>(defaultExpanded)
-  const [activeLessonId, setActiveLessonId] = useState<string>(() => {
-    if (!course || typeof window === 'undefined') return defaultLessonId
-    try {
-      const saved = localStorage.getItem(getProgressKey(course.slug))
-      if (!saved) return defaultLessonId
-      const parsed = JSON.parse(saved) as { activeLessonId?: string }
-      return parsed.activeLessonId || defaultLessonId
-    } catch {
-      return defaultLessonId
-    }
-  })
-  const [completedLessonIds, setCompletedLessonIds] = useState<string[]>(() => {
-    if (!course || typeof window === 'undefined') return []
-    try {
-      const saved = localStorage.getItem(getProgressKey(course.slug))
-      if (!saved) return []
-      const parsed = JSON.parse(saved) as { completedLessonIds?: string[] }
-      return parsed.completedLessonIds || []
-    } catch {
-      return []
-    }
-  })
-
-  useEffect(() => {
-    if (!course) return
-    localStorage.setItem(
-      getProgressKey(course.slug),
-      JSON.stringify({ completedLessonIds, activeLessonId })
-    )
-  }, [course, completedLessonIds, activeLessonId])
+  const [activeLessonId, setActiveLessonId] = useState<string>(defaultLessonId)
 
   if (!course || !course.isUnlocked) {
     return (
@@ -97,22 +127,78 @@ export default function CoursePlayerPage({ params }: { params: Promise<{ slug: s
   const totalLessons = lessonPointers.length
   const completedCount = completedLessonIds.length
   const progressPercent = totalLessons > 0 ? Math.round((completedCount / totalLessons) * 100) : 0
+  const isLessonLocked = (index: number) =>
+    index >= 0 && lockedSectionIds.includes(lessonPointers[index].sectionId)
 
-  const goToLesson = (lessonId: string) => setActiveLessonId(lessonId)
+  const saveProgress = async (lessonId: string, completed: boolean) => {
+    if (!isTracked) {
+      if (completed) {
+        setProgress((prev) =>
+          prev.completedLessonIds.includes(lessonId)
+            ? prev
+            : { ...prev, completedLessonIds: [...prev.completedLessonIds, lessonId] }
+        )
+      }
+      return
+    }
+
+    const response = await fetch(`/api/courses/${course.slug}/progress`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ lessonId, completed }),
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      setProgressError(data.error || 'Failed to save progress')
+      return
+    }
+    setProgressError(null)
+    setProgress(data.progress)
+  }
+
+  const goToLesson = (lessonId: string) => {
+    const index = lessonPointers.findIndex((item) => item.lesson.id === lessonId)
+    if (isLessonLocked(index)) return
+    setActiveLessonId(lessonId)
+    saveProgress(lessonId, false)
+  }
 
   const markComplete = () => {
     if (!activeLesson) return
-    setCompletedLessonIds((prev) => (prev.includes(activeLesson.id) ? prev : [...prev, activeLesson.id]))
+    saveProgress(activeLesson.id, true)
+  }
+
+  const submitQuiz = async (quizId: string, answers: Record<string, number>) => {
+    if (!isTracked) {
+      markComplete()
+      return
+    }
+
+    const response = await fetch(`/api/courses/${course.slug}/quiz-attempts`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ quizId, answers }),
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      setProgressError(data.error || 'Failed to save quiz attempt')
+      return
+    }
+    setProgressError(null)
+    setProgress(data.progress)
+
+    // Only a pass counts as finishing the lesson; a failed required quiz keeps the next module locked.
+    if (data.attempt.passed) markComplete()
   }
 
   const goNext = () => {
     if (activeLessonIndex < 0 || activeLessonIndex >= lessonPointers.length - 1) return
-    setActiveLessonId(lessonPointers[activeLessonIndex + 1].lesson.id)
+    goToLesson(lessonPointers[activeLessonIndex + 1].lesson.id)
   }
 
   const goPrev = () => {
     if (activeLessonIndex <= 0) return
-    setActiveLessonId(lessonPointers[activeLessonIndex - 1].lesson.id)
+    goToLesson(lessonPointers[activeLessonIndex - 1].lesson.id)
   }
 
   return (
@@ -198,11 +284,15 @@ export default function CoursePlayerPage({ params }: { params: Promise<{ slug: s
               <CourseQuizRunner
                 key={activeLesson.id}
                 quiz={activeLesson.quiz}
-                onComplete={() => markComplete()}
+                onComplete={(_score, answers) => submitQuiz(activeLesson.quiz!.id, answers)}
               />
             )}
           </div>
 
+          {progressError && (
+            <p className="text-sm text-amber-300">{progressError}</p>
+          )}
+
           <div className="flex flex-wrap gap-3">
             <button
               onClick={goPrev}
@@ -219,7 +309,7 @@ export default function CoursePlayerPage({ params }: { params: Promise<{ slug: s
             </button>
             <button
               onClick={goNext}
-              disabled={activeLessonIndex >= lessonPointers.length - 1}
+              disabled={activeLessonIndex >= lessonPointers.length - 1 || isLessonLocked(activeLessonIndex + 1)}
               className="px-4 py-2 rounded-xl glass-button disabled:opacity-40 disabled:cursor-not-allowed"
             >
               Next Lesson
@@ -235,6 +325,7 @@ export default function CoursePlayerPage({ params }: { params: Promise<{ slug: s
             {course.sections.map((section) => {
               const isOpen = expandedSections[section.id] ?? false
               const completedInSection = section.lessons.filter((lesson) => completedLessonIds.includes(lesson.id)).length
+              const isSectionLocked = lockedSectionIds.includes(section.id)
 
               return (
                 <div key={section.id} className="rounded-xl border border-white/[0.08] bg-white/[0.03] overflow-hidden">
@@ -245,10 +336,14 @@ export default function CoursePlayerPage({ params }: { params: Promise<{ slug: s
                     <div>
                       <p className="text-sm font-medium text-white">{section.title}</p>
                       <p className="text-xs text-slate-500">
-                        {completedInSection}/{section.lessons.length} completed
+                        {isSectionLocked
+                          ? 'Pass the previous required quiz to unlock'
+                          : `${completedInSection}/${section.lessons.length} completed`}
                       </p>
                     </div>
-                    {isOpen ? <ChevronDown className="w-4 h-4 text-slate-400" /> : <ChevronRight className="w-4 h-4 text-slate-400" />}
+                    {isSectionLocked ? (
+                      <Lock className="w-4 h-4 text-slate-500" />
+                    ) : isOpen ? <ChevronDown className="w-4 h-4 text-slate-400" /> : <ChevronRight className="w-4 h-4 text-slate-400" />}
                   </button>
 
                   {isOpen && (
@@ -261,7 +356,8 @@ export default function CoursePlayerPage({ params }: { params: Promise<{ slug: s
                           <button
                             key={lesson.id}
                             onClick={() => goToLesson(lesson.id)}
-                            className={`w-full px-3 py-2.5 text-left border-b last:border-b-0 border-white/[0.06] transition-colors ${
+                            disabled={isSectionLocked}
+                            className={`w-full px-3 py-2.5 text-left border-b last:border-b-0 border-white/[0.06] transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
                               isActive ? 'bg-[#a855f7]/12' : 'hover:bg-white/[0.04]'
                             }`}
                           >
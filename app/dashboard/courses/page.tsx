@@ -17,8 +17,10 @@ import {
   Trash2,
   HelpCircle,
   BookOpen,
+  Eye,
+  EyeOff,
 } from 'lucide-react'
-import { courses as defaultCourses, getCourseLessonCount, Course, getAllCourses, deleteCustomCourse } from '@/lib/courses'
+import { courses as defaultCourses, getCourseLessonCount, Course, getAllCourses } from '@/lib/courses'
 import { CourseBuilderModal } from '@/components/course-builder-modal'
 import { SpotlightTour, SpotlightTriggerButton, SpotlightStep } from '@/components/spotlight-tour'
 import { createClient } from '@/lib/supabase'
@@ -83,9 +85,11 @@ export default function CoursesPage() {
   const [editingCourse, setEditingCourse] = useState<Course | null>(null)
   const [filter, setFilter] = useState<'all' | 'custom'>('all')
   const [isTeacher, setIsTeacher] = useState(false)
+  const [isAdmin, setIsAdmin] = useState(false)
+  const [userId, setUserId] = useState<string | null>(null)
 
-  const refreshCourses = () => {
-    setCourseList(getAllCourses())
+  const refreshCourses = async () => {
+    setCourseList(await getAllCourses(createClient()))
   }
 
   useEffect(() => {
@@ -95,6 +99,7 @@ export default function CoursesPage() {
     const supabase = createClient()
     supabase.auth.getUser().then(async ({ data: { user } }) => {
       if (user) {
+        setUserId(user.id)
         const { data: profile } = await supabase
           .from('profiles')
           .select('role')
@@ -104,6 +109,7 @@ export default function CoursesPage() {
         const role = profile?.role
         const teacherRole = role === 'teacher' || role === 'instructor' || role === 'admin'
         setIsTeacher(teacherRole)
+        setIsAdmin(role === 'admin')
       }
     })
   }, [])
@@ -112,14 +118,37 @@ export default function CoursesPage() {
     refreshCourses()
   }
 
-  const handleDeleteCourse = (slug: string, e: React.MouseEvent) => {
+  const handleDeleteCourse = async (slug: string, e: React.MouseEvent) => {
     e.stopPropagation()
-    if (confirm('Are you sure you want to delete this custom course?')) {
-      deleteCustomCourse(slug)
-      refreshCourses()
+    if (!confirm('Are you sure you want to delete this custom course?')) return
+
+    const response = await fetch(`/api/courses/${slug}`, { method: 'DELETE' })
+    if (!response.ok) {
+      const result = await response.json()
+      alert(result.error || 'Failed to delete course')
+      return
+    }
+    refreshCourses()
+  }
+
+  const handleTogglePublished = async (course: Course, e: React.MouseEvent) => {
+    e.stopPropagation()
+    const response = await fetch(`/api/courses/${course.slug}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ isPublished: !course.isPublished }),
+    })
+    if (!response.ok) {
+      const result = await response.json()
+      alert(result.error || 'Failed to update course')
+      return
     }
+    refreshCourses()
   }
 
+  const canManageCourse = (course: Course) =>
+    isTeacher && !!course.isCustom && (isAdmin || course.instructorId === userId)
+
   const handleEditCourse = (course: Course, e: React.MouseEvent) => {
     e.stopPropagation()
     setEditingCourse(course)
@@ -227,6 +256,7 @@ export default function CoursesPage() {
           }
 
           const isUnlocked = course.isUnlocked
+          const isDraft = !!course.isCustom && !course.isPublished
           const quizCount = course.sections.reduce(
             (sum, s) => sum + (s.quiz ? 1 : 0) + s.lessons.filter((l) => l.quiz).length,
             0
@@ -257,6 +287,12 @@ export default function CoursesPage() {
                       {course.isCustom ? 'Teacher Created' : isUnlocked ? 'Unlocked & Active' : 'Roadmap Milestone'}
                     </span>
 
+                    {isDraft && (
+                      <span className="px-2 py-0.5 rounded-full bg-white/10 text-gray-300 border border-white/15 text-[10px] font-bold">
+                        Draft
+                      </span>
+                    )}
+
                     {quizCount > 0 && (
                       <span className="px-2 py-0.5 rounded-full bg-purple-500/20 text-purple-300 border border-purple-500/30 text-[10px] font-bold flex items-center gap-1">
                         <HelpCircle className="w-3 h-3" />
@@ -265,8 +301,15 @@ export default function CoursesPage() {
                     )}
                   </div>
 
-                  {isTeacher && course.isCustom ? (
+                  {canManageCourse(course) ? (
                     <div className="flex items-center gap-1">
+                      <button
+                        onClick={(e) => handleTogglePublished(course, e)}
+                        className="p-1.5 text-gray-400 hover:text-emerald-300 transition-colors rounded-lg hover:bg-white/5"
+                        title={course.isPublished ? 'Unpublish (hide from students)' : 'Publish to students'}
+                      >
+                        {course.isPublished ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+                      </button>
                       <button
                         onClick={(e) => handleEditCourse(course, e)}
                         className="p-1.5 text-gray-400 hover:text-[#CEB466] transition-colors rounded-lg hover:bg-white/5"
@@ -19,6 +19,7 @@ import {
   Sparkles,
   RefreshCw,
   Clock,
+  CalendarClock,
 } from 'lucide-react'
 import { SavedViewsList } from './saved-views-list'
 import { createClient } from '@/lib/supabase'
@@ -55,6 +56,7 @@ export function EmailSidebar({ userId, onCompose }: EmailSidebarProps) {
   const [folderCounts, setFolderCounts] = useState<Record<string, { total: number; unread: number }>>({})
   const [starredCount, setStarredCount] = useState(0)
   const [aiDraftsCount, setAiDraftsCount] = useState(0)
+  const [scheduledCount, setScheduledCount] = useState(0)
   const [accountsExpanded, setAccountsExpanded] = useState(true)
   const [loading, setLoading] = useState(true)
   const [syncing, setSyncing] = useState(false)
@@ -375,6 +377,17 @@ export function EmailSidebar({ userId, onCompose }: EmailSidebarProps) {
       setFolderCounts(counts)
       setStarredCount(starred)
     }
+
+    // Scheduled mail is tracked per email, not per thread folder.
+    const { count: scheduled } = await supabase
+      .from('emails')
+      .select('id', { count: 'exact', head: true })
+      .in('email_account_id', verifiedAccountIds)
+      .in('status', ['queued', 'sending', 'failed'])
+      .not('scheduled_at', 'is', null)
+      .eq('is_deleted', false)
+
+    setScheduledCount(scheduled || 0)
   }
 
   const isActive = (href: string) => {
@@ -568,6 +581,31 @@ export function EmailSidebar({ userId, onCompose }: EmailSidebarProps) {
             <Clock className="w-4 h-4 flex-shrink-0" />
             <span className="flex-1 truncate">Snoozed</span>
           </Link>
+
+          {/* Scheduled Sends */}
+          <Link
+            href="/dashboard/email/scheduled"
+            className={`group flex items-center gap-3 px-3 py-2 rounded-xl text-sm font-medium transition-all duration-200 ${
+              pathname === '/dashboard/email/scheduled'
+                ? isVoiceAlchemy
+                  ? 'bg-yellow-500/15 text-yellow-400 border border-yellow-500/20'
+                  : 'bg-white/[0.08] text-white border border-white/[0.08]'
+                : 'text-gray-400 hover:text-white hover:bg-white/[0.05] border border-transparent'
+            }`}
+            style={pathname === '/dashboard/email/scheduled' && !isVoiceAlchemy ? {
+              color: accentColor,
+              borderColor: `${accentColor}30`,
+              background: `${accentColor}10`,
+            } : undefined}
+          >
+            <CalendarClock className="w-4 h-4 flex-shrink-0" />
+            <span className="flex-1 truncate">Scheduled</span>
+            {scheduledCount > 0 && (
+              <span className="px-2 py-0.5 text-[10px] font-semibold rounded-md flex-shrink-0 tabular-nums text-gray-300 bg-white/[0.08]">
+                {scheduledCount}
+              </span>
+            )}
+          </Link>
         </div>
 
         {/* Saved Views / Smart Folders */}
@@ -0,0 +1,298 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClient } from '@/lib/supabase'
+import { Email } from '@/types/email.types'
+import { RichTextEditor } from '@/components/email/rich-text-editor'
+import { CalendarClock, AlertTriangle, Pencil, X, Loader2 } from 'lucide-react'
+
+type ScheduledEmail = Pick<
+  Email,
+  | 'id'
+  | 'subject'
+  | 'snippet'
+  | 'body_html'
+  | 'to_addresses'
+  | 'status'
+  | 'scheduled_at'
+  | 'send_attempt_count'
+  | 'send_next_retry_at'
+  | 'send_error'
+>
+
+/** Value for a datetime-local input, in the browser's timezone. */
+function toLocalInputValue(iso: string) {
+  const date = new Date(iso)
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16)
+}
+
+function formatScheduleTime(dateStr: string) {
+  const date = new Date(dateStr)
+  const now = new Date()
+  const tomorrow = new Date(now)
+  tomorrow.setDate(tomorrow.getDate() + 1)
+
+  if (date.toDateString() === now.toDateString()) {
+    return `Today at ${date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`
+  } else if (date.toDateString() === tomorrow.toDateString()) {
+    return `Tomorrow at ${date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`
+  }
+  return date.toLocaleDateString([], {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+export default function ScheduledPage() {
+  const [emails, setEmails] = useState<ScheduledEmail[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draft, setDraft] = useState({ subject: '', bodyHtml: '', scheduleAt: '' })
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadScheduledEmails()
+  }, [])
+
+  const loadScheduledEmails = async () => {
+    const supabase = createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) return
+
+    const { data: accounts } = await supabase
+      .from('email_accounts')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('is_deleted', false)
+
+    if (!accounts || accounts.length === 0) {
+      setEmails([])
+      setLoading(false)
+      return
+    }
+
+    const { data, error } = await supabase
+      .from('emails')
+      .select('id, subject, snippet, body_html, to_addresses, status, scheduled_at, send_attempt_count, send_next_retry_at, send_error')
+      .in('email_account_id', accounts.map(a => a.id))
+      .in('status', ['queued', 'sending', 'failed'])
+      .not('scheduled_at', 'is', null)
+      .eq('is_deleted', false)
+      .order('scheduled_at', { ascending: true })
+      .limit(100)
+
+    if (error) {
+      console.error('Error loading scheduled emails:', error)
+    } else {
+      setEmails((data as ScheduledEmail[]) || [])
+    }
+    setLoading(false)
+  }
+
+  const startEditing = (email: ScheduledEmail) => {
+    setError(null)
+    setEditingId(email.id)
+    setDraft({
+      subject: email.subject || '',
+      bodyHtml: email.body_html || '',
+      scheduleAt: toLocalInputValue(email.scheduled_at!),
+    })
+  }
+
+  const handleSave = async (emailId: string) => {
+    setBusyId(emailId)
+    setError(null)
+    try {
+      const response = await fetch(`/api/email/send/${emailId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          subject: draft.subject,
+          body_html: draft.bodyHtml,
+          schedule_at: new Date(draft.scheduleAt).toISOString(),
+        }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        setError(result.error || 'Failed to update email')
+        return
+      }
+      setEditingId(null)
+      await loadScheduledEmails()
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleCancel = async (emailId: string) => {
+    if (!confirm('Cancel this scheduled email? It will be deleted and not sent.')) return
+
+    setBusyId(emailId)
+    setError(null)
+    try {
+      const response = await fetch(`/api/email/send/${emailId}/cancel`, { method: 'POST' })
+      const result = await response.json()
+      if (!response.ok) {
+        setError(result.error || 'Failed to cancel email')
+        return
+      }
+      setEmails(prev => prev.filter(e => e.id !== emailId))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-400">Loading scheduled emails...</div>
+      </div>
+    )
+  }
+
+  if (emails.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 text-center">
+        <CalendarClock className="w-12 h-12 text-gray-500 mb-4" />
+        <h3 className="text-lg font-medium text-gray-300 mb-2">No scheduled emails</h3>
+        <p className="text-gray-500 max-w-sm">
+          Emails you schedule to send later will wait here until they go out.
+        </p>
+      </div>
+    )
+  }
+
+  const failedCount = emails.filter(e => e.status === 'failed').length
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-4 border-b border-white/10">
+        <h1 className="text-lg font-semibold text-white flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-yellow-400" />
+          Scheduled Emails
+        </h1>
+        <p className="text-sm text-gray-400 mt-1">
+          {emails.length} scheduled {emails.length === 1 ? 'email' : 'emails'}
+          {failedCount > 0 && <span className="text-red-400"> · {failedCount} failed</span>}
+        </p>
+        {error && (
+          <p className="text-sm text-red-400 mt-2">{error}</p>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto divide-y divide-white/[0.06]">
+        {emails.map((email) => {
+          const isEditing = editingId === email.id
+          const isBusy = busyId === email.id
+          const isFailed = email.status === 'failed'
+          const isSending = email.status === 'sending'
+          const recipients = (email.to_addresses || []).map(r => r.name || r.email).join(', ')
+
+          return (
+            <div key={email.id} className="p-4">
+              <div className="flex items-start gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-gray-400 truncate">To: {recipients || '(no recipients)'}</div>
+                  <div className="text-sm font-medium text-white truncate">{email.subject || '(no subject)'}</div>
+                  {!isEditing && (
+                    <div className="text-xs text-gray-500 truncate mt-0.5">{email.snippet}</div>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {isFailed ? (
+                    <span className="flex items-center gap-1 px-2 py-0.5 bg-red-500/20 rounded text-xs text-red-400">
+                      <AlertTriangle className="w-3 h-3" />
+                      Failed
+                    </span>
+                  ) : (
+                    <span className="flex items-center gap-1 px-2 py-0.5 bg-yellow-500/20 rounded text-xs text-yellow-400">
+                      <CalendarClock className="w-3 h-3" />
+                      {isSending ? 'Sending…' : formatScheduleTime(email.scheduled_at!)}
+                    </span>
+                  )}
+                  {!isEditing && !isSending && (
+                    <>
+                      <button
+                        onClick={() => startEditing(email)}
+                        disabled={isBusy}
+                        className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/[0.05] disabled:opacity-50"
+                        title={isFailed ? 'Edit and reschedule' : 'Edit'}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleCancel(email.id)}
+                        disabled={isBusy}
+                        className="p-1.5 rounded-lg text-gray-400 hover:text-red-400 hover:bg-white/[0.05] disabled:opacity-50"
+                        title="Cancel send"
+                      >
+                        {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <X className="w-4 h-4" />}
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {email.send_error && (
+                <div className={`mt-2 text-xs ${isFailed ? 'text-red-400' : 'text-orange-400'}`}>
+                  {isFailed
+                    ? `Could not send after ${email.send_attempt_count} attempt(s): ${email.send_error}`
+                    : `Last attempt failed (${email.send_error}). Retrying${email.send_next_retry_at ? ` ${formatScheduleTime(email.send_next_retry_at)}` : ''}.`}
+                </div>
+              )}
+
+              {isEditing && (
+                <div className="mt-3 space-y-3">
+                  <input
+                    type="text"
+                    value={draft.subject}
+                    onChange={(e) => setDraft(d => ({ ...d, subject: e.target.value }))}
+                    placeholder="Subject"
+                    className="w-full px-3 py-2 bg-white/[0.05] border border-white/10 rounded-lg text-sm text-white"
+                  />
+                  <div className="border border-white/10 rounded-lg bg-white/[0.03]">
+                    <RichTextEditor
+                      content={draft.bodyHtml}
+                      onChange={(html) => setDraft(d => ({ ...d, bodyHtml: html }))}
+                    />
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <label className="text-xs text-gray-400">Send at</label>
+                    <input
+                      type="datetime-local"
+                      value={draft.scheduleAt}
+                      onChange={(e) => setDraft(d => ({ ...d, scheduleAt: e.target.value }))}
+                      className="px-3 py-1.5 bg-white/[0.05] border border-white/10 rounded-lg text-sm text-white"
+                    />
+                    <div className="flex-1" />
+                    <button
+                      onClick={() => setEditingId(null)}
+                      disabled={isBusy}
+                      className="px-3 py-1.5 rounded-lg text-sm text-gray-400 hover:text-white"
+                    >
+                      Discard changes
+                    </button>
+                    <button
+                      onClick={() => handleSave(email.id)}
+                      disabled={isBusy || !draft.scheduleAt}
+                      className="px-3 py-1.5 rounded-lg text-sm font-medium bg-yellow-500/20 text-yellow-400 border border-yellow-500/25 hover:bg-yellow-500/30 disabled:opacity-50"
+                    >
+                      {isBusy ? 'Saving…' : isFailed ? 'Reschedule' : 'Save'}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
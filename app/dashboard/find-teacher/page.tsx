@@ -3,7 +3,8 @@
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
 import Image from 'next/image'
-import { ArrowLeft, Search, UserPlus, Check, Clock, X, Sparkles } from 'lucide-react'
+import { ArrowLeft, Search, UserPlus, Check, Clock, X, Sparkles, CalendarClock } from 'lucide-react'
+import { SlotPicker } from '@/components/slot-picker'
 
 interface Teacher {
   id: string
@@ -13,6 +14,7 @@ interface Teacher {
   avatar_url: string | null
   bio: string | null
   relationshipStatus: 'pending' | 'confirmed' | 'cancelled' | null
+  hasAvailability: boolean
 }
 
 function getTeacherDisplayName(teacher: Teacher): string {
@@ -39,6 +41,7 @@ export default function FindTeacherPage() {
   const [searchQuery, setSearchQuery] = useState('')
   const [requestingId, setRequestingId] = useState<string | null>(null)
   const [successMessage, setSuccessMessage] = useState<string | null>(null)
+  const [bookingTeacherId, setBookingTeacherId] = useState<string | null>(null)
 
   useEffect(() => {
     fetchTeachers()
@@ -99,6 +102,13 @@ export default function FindTeacherPage() {
     }
   }
 
+  const handleBooked = (teacher: Teacher) => {
+    setTeachers((prev) => prev.map((t) => (t.id === teacher.id ? { ...t, relationshipStatus: 'confirmed' } : t)))
+    setBookingTeacherId(null)
+    setSuccessMessage(`Weekly lesson booked with ${getTeacherDisplayName(teacher)}!`)
+    setTimeout(() => setSuccessMessage(null), 3000)
+  }
+
   const getStatusButton = (teacher: Teacher) => {
     if (teacher.relationshipStatus === 'confirmed') {
       return (
@@ -232,8 +242,30 @@ export default function FindTeacherPage() {
                   </div>
                 </div>
 
-                {getStatusButton(teacher)}
+                <div className="flex items-center gap-2">
+                  {teacher.hasAvailability && teacher.relationshipStatus !== 'confirmed' && (
+                    <button
+                      onClick={() => setBookingTeacherId(bookingTeacherId === teacher.id ? null : teacher.id)}
+                      className="flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors"
+                    >
+                      <CalendarClock className="w-4 h-4" />
+                      <span>Book a Time</span>
+                    </button>
+                  )}
+                  {getStatusButton(teacher)}
+                </div>
               </div>
+
+              {bookingTeacherId === teacher.id && (
+                <div className="mt-4">
+                  <SlotPicker
+                    teacherId={teacher.id}
+                    teacherName={getTeacherDisplayName(teacher)}
+                    onBooked={() => handleBooked(teacher)}
+                    onClose={() => setBookingTeacherId(null)}
+                  />
+                </div>
+              )}
             </div>
           ))}
         </div>
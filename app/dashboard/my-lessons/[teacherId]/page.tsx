@@ -14,6 +14,7 @@ import {
   Mic,
 } from 'lucide-react'
 import SessionView from '@/components/SessionView'
+import { TranscriptSearch } from '@/components/lesson-transcript'
 
 interface User {
   id: string
@@ -48,6 +49,7 @@ interface LessonData {
   }
   archivedNotesCount: number
   isTeacher: boolean
+  isObserver?: boolean
   currentUser?: {
     id: string
     name: string
@@ -194,11 +196,15 @@ export default function StudentLessonPage({ params }: { params: Promise<{ teache
         </div>
       </div>
 
+      {/* Search across all of the student's lesson transcripts */}
+      {!lessonData.isTeacher && !lessonData.isObserver && <TranscriptSearch />}
+
       {/* Session View - Video + Notes */}
       <SessionView
         studentId={student.id}
         bookingId={bookingId}
         isAdmin={lessonData.isTeacher}
+        isObserver={lessonData.isObserver}
         currentUser={lessonData.currentUser}
       />
     </div>
@@ -2,7 +2,9 @@
 
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
-import { Users, Clock, Calendar, Video, ChevronRight, Loader2 } from 'lucide-react'
+import { Users, Clock, Calendar, Video, ChevronRight, Loader2, CalendarClock } from 'lucide-react'
+import { SlotPicker } from '@/components/slot-picker'
+import type { LessonOccurrence } from '@/lib/lesson-occurrences'
 
 interface Teacher {
   id: string
@@ -62,9 +64,24 @@ function formatRecurringSchedule(dayOfWeek: number | null, time: string | null):
   return `Every ${day} at ${hour12}:${minutes} ${ampm}`
 }
 
+function formatOccurrence(occurrence: LessonOccurrence): string {
+  return new Date(occurrence.startsAt).toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+// How far ahead the cards list upcoming lessons
+const UPCOMING_DAYS = 28
+
 export default function MyLessonsPage() {
   const [teachers, setTeachers] = useState<Booking[]>([])
   const [pendingRequests, setPendingRequests] = useState<PendingRequest[]>([])
+  const [occurrences, setOccurrences] = useState<LessonOccurrence[]>([])
+  const [pickerBookingId, setPickerBookingId] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -86,6 +103,17 @@ export default function MyLessonsPage() {
 
       setTeachers(data.teachers || [])
       setPendingRequests(data.pendingRequests || [])
+
+      const now = new Date()
+      const params = new URLSearchParams({
+        from: now.toISOString(),
+        to: new Date(now.getTime() + UPCOMING_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      })
+      const occurrencesResponse = await fetch(`/api/lessons/occurrences?${params}`)
+      if (occurrencesResponse.ok) {
+        const occurrencesData = await occurrencesResponse.json()
+        setOccurrences(occurrencesData.occurrences || [])
+      }
     } catch (err) {
       console.error('[my-lessons] Error:', err)
       setError(err instanceof Error ? err.message : 'An error occurred')
@@ -196,8 +224,49 @@ export default function MyLessonsPage() {
                   )}
                 </div>
 
+                {/* Upcoming lessons, including cancellations, moves and extra lessons */}
+                {occurrences.some((o) => o.bookingId === booking.id) && (
+                  <div className="mt-3 space-y-1">
+                    {occurrences
+                      .filter((o) => o.bookingId === booking.id)
+                      .slice(0, 3)
+                      .map((occurrence) => (
+                        <div
+                          key={`${occurrence.originalStartsAt ?? occurrence.occurrenceId}`}
+                          className="flex items-center justify-between gap-2 text-xs"
+                        >
+                          <span
+                            className={
+                              occurrence.status === 'cancelled' ? 'text-gray-500 line-through' : 'text-gray-300'
+                            }
+                          >
+                            {formatOccurrence(occurrence)}
+                          </span>
+                          {occurrence.status === 'cancelled' ? (
+                            <span className="text-red-400">Cancelled</span>
+                          ) : occurrence.kind === 'extra' ? (
+                            <span className="text-purple-400">Extra</span>
+                          ) : (
+                            occurrence.isRescheduled && <span className="text-amber-400">Rescheduled</span>
+                          )}
+                        </div>
+                      ))}
+                  </div>
+                )}
+
                 {/* Go to Class Button */}
-                <div className="mt-4 pt-4 border-t border-white/10">
+                <div className="mt-4 pt-4 border-t border-white/10 space-y-2">
+                  <button
+                    onClick={(e) => {
+                      e.preventDefault()
+                      e.stopPropagation()
+                      setPickerBookingId(pickerBookingId === booking.id ? null : booking.id)
+                    }}
+                    className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-white/5 hover:bg-white/10 text-gray-300 text-sm rounded-lg transition-colors"
+                  >
+                    <CalendarClock className="w-4 h-4" />
+                    <span>{booking.lesson_day_of_week !== null && booking.lesson_time ? 'Change Lesson Time' : 'Pick a Lesson Time'}</span>
+                  </button>
                   <button
                     onClick={(e) => {
                       e.preventDefault()
@@ -215,6 +284,27 @@ export default function MyLessonsPage() {
           </div>
         )
       )}
+
+      {/* Self-booking against the teacher's published availability */}
+      {teachers
+        .filter((booking) => booking.id === pickerBookingId)
+        .map((booking) => (
+          <SlotPicker
+            key={booking.id}
+            teacherId={booking.instructor.id}
+            teacherName={getTeacherDisplayName(booking.instructor)}
+            currentSchedule={
+              booking.lesson_day_of_week !== null && booking.lesson_time
+                ? formatRecurringSchedule(booking.lesson_day_of_week, booking.lesson_time)
+                : null
+            }
+            onBooked={() => {
+              setPickerBookingId(null)
+              fetchTeachers()
+            }}
+            onClose={() => setPickerBookingId(null)}
+          />
+        ))}
     </div>
   )
 }
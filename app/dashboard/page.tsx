@@ -21,8 +21,12 @@ import {
 import ModernPitchTrainer from '@/components/ModernPitchTrainer'
 import RhythmTrainer from '@/components/RhythmTrainer'
 import ScaleTrainer from '@/components/ScaleTrainer'
+import EarTrainer from '@/components/EarTrainer'
+import SightSingingTrainer from '@/components/SightSingingTrainer'
+import VocalRangeFinder from '@/components/VocalRangeFinder'
 import { DashboardSpotlight } from '@/components/dashboard-spotlight'
 import { SpotlightTriggerButton } from '@/components/spotlight-tour'
+import { PracticeAssignments } from '@/components/practice-assignments'
 
 interface Teacher {
   id: string
@@ -375,6 +379,9 @@ export default async function DashboardPage() {
         </div>
       )}
 
+      {/* Homework from the student's voice coach, on the trainers below */}
+      {!isTeacher && <PracticeAssignments />}
+
       {/* GAMIFIED PRACTICE TOOLS (Modern Pitch Trainer, Rhythm Trainer, Scale Trainer) */}
       <div data-tour="dashboard-practice-arena" className="space-y-4">
         <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
@@ -384,7 +391,7 @@ export default async function DashboardPage() {
               <span>Interactive Practice Arena</span>
             </h2>
             <p className="text-xs text-gray-400">
-              Real-time Aubio pitch detector, interactive scale matching, and rhythm tap game.
+              Real-time pitch detector, interactive scale matching, rhythm tap game, and ear training.
             </p>
           </div>
 
@@ -397,8 +404,8 @@ export default async function DashboardPage() {
           </Link>
         </div>
 
-        {/* 3 Gamey Interactive Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {/* 6 Gamey Interactive Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
           <div className="glass-card-subtle p-5 rounded-3xl border border-white/10 shadow-xl">
             <ModernPitchTrainer variant="card" />
           </div>
@@ -410,6 +417,18 @@ export default async function DashboardPage() {
           <div className="glass-card-subtle p-5 rounded-3xl border border-white/10 shadow-xl">
             <ScaleTrainer variant="card" />
           </div>
+
+          <div className="glass-card-subtle p-5 rounded-3xl border border-white/10 shadow-xl">
+            <EarTrainer variant="card" />
+          </div>
+
+          <div className="glass-card-subtle p-5 rounded-3xl border border-white/10 shadow-xl">
+            <SightSingingTrainer variant="card" />
+          </div>
+
+          <div className="glass-card-subtle p-5 rounded-3xl border border-white/10 shadow-xl">
+            <VocalRangeFinder variant="card" />
+          </div>
         </div>
       </div>
 
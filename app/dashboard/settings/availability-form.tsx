@@ -0,0 +1,248 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Check, Loader2, Plus, Trash2, X } from 'lucide-react'
+import type { AvailabilityWindow, BlackoutDate, TeacherAvailability } from '@/lib/teacher-availability'
+
+const DAYS_OF_WEEK = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const inputClassName =
+  'px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50'
+
+export default function AvailabilityForm() {
+  const [timezone, setTimezone] = useState('')
+  const [bufferMinutes, setBufferMinutes] = useState('0')
+  const [maxLessonsPerDay, setMaxLessonsPerDay] = useState('')
+  const [windows, setWindows] = useState<AvailabilityWindow[]>([])
+  const [blackoutDates, setBlackoutDates] = useState<BlackoutDate[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState(false)
+
+  const applyAvailability = (availability: TeacherAvailability) => {
+    setTimezone(availability.timezone)
+    setBufferMinutes(String(availability.bufferMinutes))
+    setMaxLessonsPerDay(availability.maxLessonsPerDay ? String(availability.maxLessonsPerDay) : '')
+    setWindows(availability.windows)
+    setBlackoutDates(availability.blackoutDates)
+  }
+
+  useEffect(() => {
+    fetch('/api/teachers/availability')
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load availability')
+        if (data.availability) applyAvailability(data.availability)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load availability'))
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  const updateWindow = (index: number, changes: Partial<AvailabilityWindow>) => {
+    setWindows((prev) => prev.map((w, i) => (i === index ? { ...w, ...changes } : w)))
+  }
+
+  const updateBlackout = (index: number, changes: Partial<BlackoutDate>) => {
+    setBlackoutDates((prev) => prev.map((b, i) => (i === index ? { ...b, ...changes } : b)))
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError(null)
+    setSuccess(false)
+
+    try {
+      const response = await fetch('/api/teachers/availability', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          timezone: timezone.trim(),
+          bufferMinutes: Number(bufferMinutes) || 0,
+          maxLessonsPerDay: maxLessonsPerDay ? Number(maxLessonsPerDay) : null,
+          windows,
+          blackoutDates: blackoutDates.filter((b) => b.date),
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save availability')
+      }
+
+      applyAvailability(data.availability)
+      setSuccess(true)
+      setTimeout(() => setSuccess(false), 3000)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save availability')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-400">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading availability...
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-5">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">Timezone</label>
+          <input
+            type="text"
+            value={timezone}
+            onChange={(e) => setTimezone(e.target.value)}
+            placeholder="America/New_York"
+            className={`w-full ${inputClassName}`}
+            disabled={isSaving}
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">Buffer (minutes)</label>
+          <input
+            type="number"
+            min={0}
+            max={120}
+            value={bufferMinutes}
+            onChange={(e) => setBufferMinutes(e.target.value)}
+            className={`w-full ${inputClassName}`}
+            disabled={isSaving}
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">Max lessons per day</label>
+          <input
+            type="number"
+            min={1}
+            max={24}
+            value={maxLessonsPerDay}
+            onChange={(e) => setMaxLessonsPerDay(e.target.value)}
+            placeholder="No limit"
+            className={`w-full ${inputClassName}`}
+            disabled={isSaving}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm text-gray-400">Weekly availability</label>
+        {windows.length === 0 && (
+          <p className="text-xs text-gray-500">No windows yet. Students can&apos;t book you until you add one.</p>
+        )}
+        {windows.map((window, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <select
+              value={window.dayOfWeek}
+              onChange={(e) => updateWindow(index, { dayOfWeek: Number(e.target.value) })}
+              className={inputClassName}
+              disabled={isSaving}
+            >
+              {DAYS_OF_WEEK.map((day, dayIndex) => (
+                <option key={day} value={dayIndex} className="bg-gray-900">
+                  {day}
+                </option>
+              ))}
+            </select>
+            <input
+              type="time"
+              value={window.startTime}
+              onChange={(e) => updateWindow(index, { startTime: e.target.value })}
+              className={inputClassName}
+              disabled={isSaving}
+            />
+            <span className="text-gray-500 text-sm">to</span>
+            <input
+              type="time"
+              value={window.endTime}
+              onChange={(e) => updateWindow(index, { endTime: e.target.value })}
+              className={inputClassName}
+              disabled={isSaving}
+            />
+            <button
+              onClick={() => setWindows((prev) => prev.filter((_, i) => i !== index))}
+              className="p-2 text-gray-400 hover:text-red-400"
+              disabled={isSaving}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => setWindows((prev) => [...prev, { dayOfWeek: 1, startTime: '15:00', endTime: '19:00' }])}
+          className="flex items-center gap-1 text-sm text-blue-400 hover:text-blue-300"
+          disabled={isSaving}
+        >
+          <Plus className="w-4 h-4" />
+          Add window
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm text-gray-400">Blackout dates</label>
+        {blackoutDates.map((blackout, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="date"
+              value={blackout.date}
+              onChange={(e) => updateBlackout(index, { date: e.target.value })}
+              className={inputClassName}
+              disabled={isSaving}
+            />
+            <input
+              type="text"
+              value={blackout.reason || ''}
+              onChange={(e) => updateBlackout(index, { reason: e.target.value })}
+              placeholder="Reason (optional)"
+              className={`flex-1 ${inputClassName}`}
+              disabled={isSaving}
+            />
+            <button
+              onClick={() => setBlackoutDates((prev) => prev.filter((_, i) => i !== index))}
+              className="p-2 text-gray-400 hover:text-red-400"
+              disabled={isSaving}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => setBlackoutDates((prev) => [...prev, { date: '', reason: null }])}
+          className="flex items-center gap-1 text-sm text-blue-400 hover:text-blue-300"
+          disabled={isSaving}
+        >
+          <Plus className="w-4 h-4" />
+          Add blackout date
+        </button>
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={isSaving}
+        className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-500 text-white hover:bg-blue-600 transition-colors disabled:opacity-50"
+      >
+        {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+        Save Availability
+      </button>
+
+      {success && (
+        <p className="text-green-400 text-sm flex items-center gap-2">
+          <Check className="w-4 h-4" />
+          Availability updated!
+        </p>
+      )}
+
+      {error && (
+        <p className="text-red-400 text-sm flex items-center gap-2">
+          <X className="w-4 h-4" />
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
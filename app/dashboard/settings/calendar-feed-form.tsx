@@ -0,0 +1,101 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Check, Copy, Loader2, RefreshCw, X } from 'lucide-react'
+
+const inputClassName =
+  'flex-1 min-w-0 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50'
+
+export default function CalendarFeedForm() {
+  const [url, setUrl] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isResetting, setIsResetting] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch('/api/calendar/feed-token')
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load calendar link')
+        setUrl(data.url)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load calendar link'))
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  const handleCopy = async () => {
+    if (!url) return
+    try {
+      await navigator.clipboard.writeText(url)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch {
+      setError('Could not copy the link. Select it and copy it manually.')
+    }
+  }
+
+  const handleReset = async () => {
+    if (!confirm('Reset your calendar link? Calendars subscribed to the old link will stop updating.')) return
+
+    setIsResetting(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/calendar/feed-token', { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to reset calendar link')
+      setUrl(data.url)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset calendar link')
+    } finally {
+      setIsResetting(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-gray-400 text-sm">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading calendar link...
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {url && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input type="text" readOnly value={url} onFocus={(e) => e.target.select()} className={inputClassName} />
+          <button
+            onClick={handleCopy}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-500 text-white text-sm hover:bg-blue-600 transition-colors"
+          >
+            {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+          <button
+            onClick={handleReset}
+            disabled={isResetting}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-gray-300 text-sm hover:bg-white/10 transition-colors disabled:opacity-50"
+          >
+            {isResetting ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            Reset link
+          </button>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Add this link as a subscribed calendar in Google Calendar, Apple Calendar or Outlook. Anyone with the link
+        can see your lesson times, so keep it private.
+      </p>
+
+      {error && (
+        <p className="text-red-400 text-sm flex items-center gap-2">
+          <X className="w-4 h-4" />
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+'use client'
+
+import { useState } from 'react'
+import { Check, Loader2, X } from 'lucide-react'
+import { createClient } from '@/lib/supabase'
+
+interface LessonPolicyFormProps {
+  userId: string
+  initialCancellationWindowHours: number
+}
+
+// Matches the CHECK constraint on profiles.cancellation_window_hours
+const MAX_CANCELLATION_WINDOW_HOURS = 168
+
+export default function LessonPolicyForm({ userId, initialCancellationWindowHours }: LessonPolicyFormProps) {
+  const [hours, setHours] = useState(String(initialCancellationWindowHours))
+  const [savedHours, setSavedHours] = useState(initialCancellationWindowHours)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState(false)
+
+  const parsedHours = Number(hours)
+  const isValid =
+    hours.trim() !== '' &&
+    Number.isInteger(parsedHours) &&
+    parsedHours >= 0 &&
+    parsedHours <= MAX_CANCELLATION_WINDOW_HOURS
+
+  const handleSave = async () => {
+    if (!isValid) return
+
+    setIsSaving(true)
+    setError(null)
+    setSuccess(false)
+
+    try {
+      const supabase = createClient()
+
+      const { error: updateError } = await supabase
+        .from('profiles')
+        .update({ cancellation_window_hours: parsedHours })
+        .eq('id', userId)
+
+      if (updateError) {
+        throw updateError
+      }
+
+      setSavedHours(parsedHours)
+      setSuccess(true)
+      setTimeout(() => setSuccess(false), 3000)
+    } catch (err) {
+      console.error('Update error:', err)
+      setError('Failed to update lesson policy. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm text-gray-400 mb-1">Cancellation window (hours)</label>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min={0}
+            max={MAX_CANCELLATION_WINDOW_HOURS}
+            value={hours}
+            onChange={(e) => setHours(e.target.value)}
+            className="w-28 px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50"
+            disabled={isSaving}
+          />
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !isValid || parsedHours === savedHours}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-500 text-white hover:bg-blue-600 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+            Save
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          Students can cancel or reschedule a lesson up to this many hours before it starts. You can always
+          change your own lessons.
+        </p>
+      </div>
+
+      {success && (
+        <p className="text-green-400 text-sm flex items-center gap-2">
+          <Check className="w-4 h-4" />
+          Lesson policy updated!
+        </p>
+      )}
+
+      {error && (
+        <p className="text-red-400 text-sm flex items-center gap-2">
+          <X className="w-4 h-4" />
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,13 @@
 import { createClient, getCurrentUser } from '@/lib/supabase-server'
 import { redirect } from 'next/navigation'
-import { Settings, User } from 'lucide-react'
+import { Settings, User, CalendarClock, CalendarDays, Bell } from 'lucide-react'
 import ProfileEditForm from './profile-edit-form'
+import LessonPolicyForm from './lesson-policy-form'
+import AvailabilityForm from './availability-form'
+import CalendarFeedForm from './calendar-feed-form'
+import ReminderPreferencesForm from './reminder-preferences-form'
+import { DEFAULT_CANCELLATION_WINDOW_HOURS } from '@/lib/lesson-occurrences'
+import { DEFAULT_REMINDER_OFFSETS } from '@/lib/lesson-reminders'
 
 export default async function SettingsPage() {
   const supabase = await createClient()
@@ -14,6 +20,7 @@ export default async function SettingsPage() {
 
   const displayName = profile.name || `${profile.first_name || ''} ${profile.last_name || ''}`.trim() || 'Unknown'
   const roleDisplay = profile.role?.replace('_', ' ') || 'User'
+  const isTeacher = profile.role === 'teacher' || profile.role === 'instructor' || profile.role === 'admin'
 
   return (
     <div className="space-y-6">
@@ -83,9 +90,65 @@ export default async function SettingsPage() {
         {/* Preferences */}
         <div className="bg-white/5 backdrop-blur-sm rounded-xl border border-white/10 p-6">
           <h2 className="text-lg font-semibold text-white mb-4">Preferences</h2>
-          <p className="text-gray-400">
-            Additional preferences coming soon.
+          {isTeacher ? (
+            <LessonPolicyForm
+              userId={profile.id}
+              initialCancellationWindowHours={profile.cancellation_window_hours ?? DEFAULT_CANCELLATION_WINDOW_HOURS}
+            />
+          ) : (
+            <p className="text-gray-400">
+              Additional preferences coming soon.
+            </p>
+          )}
+        </div>
+
+        {/* Availability */}
+        {isTeacher && (
+          <div className="bg-white/5 backdrop-blur-sm rounded-xl border border-white/10 p-6 lg:col-span-2">
+            <div className="flex items-center gap-2 mb-2">
+              <CalendarClock className="w-5 h-5 text-blue-400" />
+              <h2 className="text-lg font-semibold text-white">Availability</h2>
+            </div>
+            <p className="text-sm text-gray-400 mb-6">
+              Students can book an open weekly slot from these windows. Existing lessons, the buffer and blackout
+              dates are taken into account.
+            </p>
+            <AvailabilityForm />
+          </div>
+        )}
+
+        {/* Lesson reminders */}
+        <div className="bg-white/5 backdrop-blur-sm rounded-xl border border-white/10 p-6 lg:col-span-2">
+          <div className="flex items-center gap-2 mb-2">
+            <Bell className="w-5 h-5 text-blue-400" />
+            <h2 className="text-lg font-semibold text-white">Lesson Reminders</h2>
+          </div>
+          <p className="text-sm text-gray-400 mb-6">
+            Get a reminder before each lesson by email, text message or both.
+          </p>
+          <ReminderPreferencesForm
+            userId={profile.id}
+            initialEmail={profile.lesson_reminder_email ?? true}
+            initialSms={profile.lesson_reminder_sms ?? false}
+            initialPhone={profile.phone ?? null}
+            initialOffsets={profile.lesson_reminder_offsets ?? DEFAULT_REMINDER_OFFSETS}
+            initialQuietHoursStart={profile.quiet_hours_start ?? null}
+            initialQuietHoursEnd={profile.quiet_hours_end ?? null}
+            timezone={profile.timezone ?? null}
+          />
+        </div>
+
+        {/* Calendar subscription */}
+        <div className="bg-white/5 backdrop-blur-sm rounded-xl border border-white/10 p-6 lg:col-span-2">
+          <div className="flex items-center gap-2 mb-2">
+            <CalendarDays className="w-5 h-5 text-blue-400" />
+            <h2 className="text-lg font-semibold text-white">Calendar Subscription</h2>
+          </div>
+          <p className="text-sm text-gray-400 mb-6">
+            Keep your lessons in your own calendar. Cancellations, reschedules and extra lessons show up
+            automatically.
           </p>
+          <CalendarFeedForm />
         </div>
       </div>
     </div>
@@ -0,0 +1,180 @@
+'use client'
+
+import { useState } from 'react'
+import { Check, Loader2, X } from 'lucide-react'
+import { createClient } from '@/lib/supabase'
+import { normalizePhoneNumber } from '@/lib/telnyx-sms'
+
+interface ReminderPreferencesFormProps {
+  userId: string
+  initialEmail: boolean
+  initialSms: boolean
+  initialPhone: string | null
+  initialOffsets: number[]
+  initialQuietHoursStart: string | null
+  initialQuietHoursEnd: string | null
+  timezone: string | null
+}
+
+// Lead times in minutes; the profiles CHECK allows up to a week
+const REMINDER_OFFSET_CHOICES = [
+  { minutes: 10080, label: '1 week before' },
+  { minutes: 1440, label: '1 day before' },
+  { minutes: 120, label: '2 hours before' },
+  { minutes: 60, label: '1 hour before' },
+  { minutes: 15, label: '15 minutes before' },
+]
+
+const inputClassName =
+  'px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50'
+
+export default function ReminderPreferencesForm(props: ReminderPreferencesFormProps) {
+  const [emailEnabled, setEmailEnabled] = useState(props.initialEmail)
+  const [smsEnabled, setSmsEnabled] = useState(props.initialSms)
+  const [phone, setPhone] = useState(props.initialPhone || '')
+  const [offsets, setOffsets] = useState<number[]>(props.initialOffsets)
+  const [quietStart, setQuietStart] = useState(props.initialQuietHoursStart?.slice(0, 5) || '')
+  const [quietEnd, setQuietEnd] = useState(props.initialQuietHoursEnd?.slice(0, 5) || '')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState(false)
+
+  const toggleOffset = (minutes: number) => {
+    setOffsets((prev) => (prev.includes(minutes) ? prev.filter((m) => m !== minutes) : [...prev, minutes]))
+  }
+
+  const handleSave = async () => {
+    setError(null)
+    setSuccess(false)
+
+    const normalizedPhone = phone.trim() ? normalizePhoneNumber(phone) : null
+    if (phone.trim() && !normalizedPhone) {
+      setError('Enter a valid mobile number, e.g. +1 555 123 4567.')
+      return
+    }
+    if (smsEnabled && !normalizedPhone) {
+      setError('Add a mobile number to get text reminders.')
+      return
+    }
+    if (!!quietStart !== !!quietEnd) {
+      setError('Set both a start and an end for quiet hours, or neither.')
+      return
+    }
+
+    setIsSaving(true)
+
+    try {
+      const supabase = createClient()
+
+      const { error: updateError } = await supabase
+        .from('profiles')
+        .update({
+          lesson_reminder_email: emailEnabled,
+          lesson_reminder_sms: smsEnabled,
+          lesson_reminder_offsets: [...offsets].sort((a, b) => b - a),
+          phone: normalizedPhone,
+          quiet_hours_start: quietStart || null,
+          quiet_hours_end: quietEnd || null,
+          // Quiet hours are read in the profile timezone; adopt this browser's if unset
+          ...(props.timezone ? {} : { timezone: Intl.DateTimeFormat().resolvedOptions().timeZone }),
+        })
+        .eq('id', props.userId)
+
+      if (updateError) {
+        throw updateError
+      }
+
+      if (normalizedPhone) setPhone(normalizedPhone)
+      setSuccess(true)
+      setTimeout(() => setSuccess(false), 3000)
+    } catch (err) {
+      console.error('Update error:', err)
+      setError('Failed to update reminder settings. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-5">
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={emailEnabled} onChange={(e) => setEmailEnabled(e.target.checked)} />
+          Email reminders
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={smsEnabled} onChange={(e) => setSmsEnabled(e.target.checked)} />
+          Text message reminders
+        </label>
+        {smsEnabled && (
+          <input
+            type="tel"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            placeholder="Mobile number"
+            className={`${inputClassName} w-60`}
+          />
+        )}
+      </div>
+
+      <div>
+        <p className="text-sm text-gray-400 mb-2">Remind me</p>
+        <div className="flex flex-wrap gap-2">
+          {REMINDER_OFFSET_CHOICES.map((choice) => {
+            const selected = offsets.includes(choice.minutes)
+            return (
+              <button
+                key={choice.minutes}
+                type="button"
+                onClick={() => toggleOffset(choice.minutes)}
+                className={`px-3 py-1.5 rounded-lg text-sm border transition-colors ${
+                  selected
+                    ? 'bg-blue-500/20 border-blue-500/50 text-blue-300'
+                    : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10'
+                }`}
+              >
+                {choice.label}
+              </button>
+            )
+          })}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-sm text-gray-400 mb-2">Quiet hours</p>
+        <div className="flex items-center gap-2">
+          <input type="time" value={quietStart} onChange={(e) => setQuietStart(e.target.value)} className={inputClassName} />
+          <span className="text-gray-500 text-sm">to</span>
+          <input type="time" value={quietEnd} onChange={(e) => setQuietEnd(e.target.value)} className={inputClassName} />
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          Reminders due during quiet hours are sent once they end, if the lesson hasn&apos;t started. Times are in{' '}
+          {props.timezone || 'your local time'}.
+        </p>
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={isSaving}
+        className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-500 text-white hover:bg-blue-600 transition-colors disabled:opacity-50"
+      >
+        {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+        Save
+      </button>
+
+      {success && (
+        <p className="text-green-400 text-sm flex items-center gap-2">
+          <Check className="w-4 h-4" />
+          Reminder settings updated!
+        </p>
+      )}
+
+      {error && (
+        <p className="text-red-400 text-sm flex items-center gap-2">
+          <X className="w-4 h-4" />
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -17,6 +17,11 @@ import {
   Video,
 } from 'lucide-react'
 import SessionView from '@/components/SessionView'
+import { StudentCourseProgress } from '@/components/student-course-progress'
+import { StudentPracticeAssignments } from '@/components/student-practice-assignments'
+import { PitchTraceReview } from '@/components/pitch-trace-review'
+import { StudentSightSinging } from '@/components/student-sight-singing'
+import { TranscriptSearch } from '@/components/lesson-transcript'
 
 interface User {
   id: string
@@ -298,6 +303,29 @@ export default function StudentLessonPage({ params }: { params: Promise<{ studen
         )}
       </div>
 
+      {/* Course progress & weakest quiz questions (teacher view) */}
+      {lessonData.isTeacher && (
+        <StudentCourseProgress bookingId={bookingId} studentName={studentDisplayName} />
+      )}
+
+      {/* Practice assignments on the trainers (teacher view) */}
+      {lessonData.isTeacher && (
+        <StudentPracticeAssignments bookingId={bookingId} studentName={studentDisplayName} />
+      )}
+
+      {/* Raw pitch traces from the trainers, with comments (teacher view) */}
+      {lessonData.isTeacher && (
+        <PitchTraceReview bookingId={bookingId} studentName={studentDisplayName} />
+      )}
+
+      {/* Imported sight-singing pieces and phrase-by-phrase results (teacher view) */}
+      {lessonData.isTeacher && (
+        <StudentSightSinging bookingId={bookingId} studentName={studentDisplayName} />
+      )}
+
+      {/* Search across this student's lesson transcripts (teacher view) */}
+      {lessonData.isTeacher && <TranscriptSearch bookingId={bookingId} />}
+
       {/* Collaborative Video & Notes Session View */}
       <SessionView
         studentId={student.id}
@@ -1,10 +1,12 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { TrendingUp, TrendingDown, Minus, Calendar, Target, Clock, Zap, Award, RefreshCw, Sparkles, Music2, Mic2, Activity, Brain, FileText, BookOpen, ChevronRight, Music } from 'lucide-react'
+import { TrendingUp, TrendingDown, Minus, Calendar, Target, Clock, Zap, Award, RefreshCw, Sparkles, Music2, Mic2, Activity, Brain, FileText, BookOpen, ChevronRight, Music, Ear } from 'lucide-react'
 import AIAnalysisPanel from '@/components/AIAnalysisPanel'
 import ScaleAnalysisPanel from '@/components/ScaleAnalysisPanel'
+import { PitchTraceReview } from '@/components/pitch-trace-review'
 import { SpotlightTour, SpotlightTriggerButton, SpotlightStep } from '@/components/spotlight-tour'
+import { EAR_EXERCISE_TYPES, type EarExerciseType } from '@/lib/ear-training'
 
 interface WeeklyProgress {
   id: string
@@ -139,6 +141,44 @@ interface RhythmSession {
   best_streak: number
 }
 
+interface EarWeeklyProgress {
+  id: string
+  week_start_date: string
+  avg_accuracy_percent: number | null
+  avg_overall_score: number | null
+  avg_response_ms: number | null
+  total_sessions: number
+  total_questions: number | null
+  total_correct: number | null
+  total_practice_time_seconds: number | null
+  interval_sessions: number
+  chord_sessions: number
+  dictation_sessions: number
+  max_level_reached: number | null
+  accuracy_change: number | null
+}
+
+interface EarStats {
+  totalSessions: number
+  avgAccuracy: number
+  bestAccuracy: number
+  daysThisWeek: number
+  levels: Record<EarExerciseType, number>
+  mostMissed: { item: string; label: string; missRate: number }[]
+}
+
+interface EarSession {
+  session_date: string
+  exercise_type: EarExerciseType
+  answer_mode: 'click' | 'sing'
+  start_level: number
+  end_level: number
+  total_questions: number
+  correct_count: number
+  accuracy_percent: number
+  overall_score: number
+}
+
 interface ScaleWeeklyProgress {
   id: string
   week_start_date: string
@@ -217,14 +257,17 @@ interface ProgressData {
   weeklyProgress: WeeklyProgress[]
   songWeeklyProgress: SongWeeklyProgress[]
   rhythmWeeklyProgress: RhythmWeeklyProgress[]
+  earWeeklyProgress?: EarWeeklyProgress[]
   scaleWeeklyProgress?: ScaleWeeklyProgress[]
   aiFeedback: AIFeedback[]
   stats: Stats
   songStats: SongStats
   rhythmStats: RhythmStats
+  earStats?: EarStats
   scaleStats?: ScaleStats
   recentSongSessions: SongSession[]
   recentRhythmSessions: RhythmSession[]
+  recentEarSessions?: EarSession[]
   recentScaleSessions?: ScaleSession[]
   recentLessonNotes?: LessonNote[]
   // New singer-focused data
@@ -271,7 +314,7 @@ const trainingCenterTourSteps: SpotlightStep[] = [
   {
     target: '[data-tour="training-tabs"]',
     title: '1. Training Suites',
-    content: 'Switch between the Overview, Pitch Trainer, Rhythm Trainer, and Scale Trainer to practice specific technical vocal disciplines.',
+    content: 'Switch between the Overview, Pitch Trainer, Rhythm Trainer, Scale Trainer, and Ear Trainer to practice specific technical vocal disciplines.',
     placement: 'bottom',
   },
   {
@@ -305,7 +348,7 @@ export default function TrainingCenterPage() {
   const [loading, setLoading] = useState(true)
   const [generatingFeedback, setGeneratingFeedback] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [activeTab, setActiveTab] = useState<'overview' | 'pitch-trainer' | 'scale-trainer' | 'rhythm-trainer' | 'song-trainer'>('overview')
+  const [activeTab, setActiveTab] = useState<'overview' | 'pitch-trainer' | 'scale-trainer' | 'rhythm-trainer' | 'ear-trainer' | 'song-trainer'>('overview')
   const [showAIPanel, setShowAIPanel] = useState(false)
   const [showScaleAIPanel, setShowScaleAIPanel] = useState(false)
 
@@ -534,6 +577,17 @@ export default function TrainingCenterPage() {
           <Music className="w-4 h-4" />
           Scales
         </button>
+        <button
+          onClick={() => setActiveTab('ear-trainer')}
+          className={`flex items-center gap-2 px-4 py-2.5 rounded-lg font-medium transition-all ${
+            activeTab === 'ear-trainer'
+              ? 'bg-gradient-to-r from-[#a855f7] to-[#7c3aed] text-white shadow-lg shadow-[#a855f7]/20'
+              : 'text-slate-400 hover:text-white hover:bg-white/[0.08]'
+          }`}
+        >
+          <Ear className="w-4 h-4" />
+          Ear Training
+        </button>
       </div>
 
       {/* Overview Tab */}
@@ -719,6 +773,9 @@ export default function TrainingCenterPage() {
             </div>
           </div>
 
+          {/* Pitch traces with the coach's comments */}
+          <PitchTraceReview />
+
           {/* Recent Lesson Notes */}
           {data.recentLessonNotes && data.recentLessonNotes.length > 0 && (
             <div className="glass-card-subtle rounded-2xl p-6 border-white/[0.08]">
@@ -1786,6 +1843,182 @@ export default function TrainingCenterPage() {
         </>
       )}
 
+      {/* Ear Trainer Tab */}
+      {activeTab === 'ear-trainer' && (
+        <>
+          {/* Stats Cards */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="glass-card-subtle rounded-xl p-4 border-white/[0.08]">
+              <div className="flex items-center gap-2 text-sky-400 mb-2">
+                <Target className="w-4 h-4" />
+                <span className="text-xs font-medium">Best Accuracy</span>
+              </div>
+              <p className="text-2xl font-bold text-white">{data.earStats?.bestAccuracy || 0}%</p>
+              <p className="text-xs text-slate-400">in one session</p>
+            </div>
+
+            <div className="glass-card-subtle rounded-xl p-4 border-white/[0.08]">
+              <div className="flex items-center gap-2 text-indigo-400 mb-2">
+                <TrendingUp className="w-4 h-4" />
+                <span className="text-xs font-medium">Avg Accuracy</span>
+              </div>
+              <p className="text-2xl font-bold text-white">{data.earStats?.avgAccuracy?.toFixed(1) || 0}%</p>
+              <p className="text-xs text-slate-400">recent sessions</p>
+            </div>
+
+            <div className="glass-card-subtle rounded-xl p-4 border-white/[0.08]">
+              <div className="flex items-center gap-2 text-emerald-400 mb-2">
+                <Calendar className="w-4 h-4" />
+                <span className="text-xs font-medium">This Week</span>
+              </div>
+              <p className="text-2xl font-bold text-white">{data.earStats?.daysThisWeek || 0}</p>
+              <p className="text-xs text-slate-400">days practiced</p>
+            </div>
+
+            <div className="glass-card-subtle rounded-xl p-4 border-white/[0.08]">
+              <div className="flex items-center gap-2 text-[#d8b4fe] mb-2">
+                <Clock className="w-4 h-4" />
+                <span className="text-xs font-medium">Total Sessions</span>
+              </div>
+              <p className="text-2xl font-bold text-white">{data.earStats?.totalSessions || 0}</p>
+              <p className="text-xs text-slate-400">completed</p>
+            </div>
+          </div>
+
+          {/* Levels and weak spots */}
+          {data.earStats && data.earStats.totalSessions > 0 && (
+            <div className="glass-card-subtle rounded-2xl p-6 border-white/[0.08]">
+              <h2 className="text-xl font-semibold text-white mb-6 flex items-center gap-2">
+                <Award className="w-5 h-5 text-sky-400" />
+                Your Levels
+              </h2>
+
+              <div className="grid md:grid-cols-3 gap-6">
+                {EAR_EXERCISE_TYPES.map(type => ({ ...type, level: data.earStats?.levels[type.value] ?? 1 })).map(type => (
+                  <div key={type.value} className="bg-sky-500/10 rounded-xl p-4 border border-sky-500/20">
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm text-sky-300 font-medium">{type.label}</span>
+                      <span className="text-white font-semibold">Level {type.level}</span>
+                    </div>
+                    <div className="flex gap-1">
+                      {[1, 2, 3, 4, 5].map(n => (
+                        <div key={n} className={`flex-1 h-1.5 rounded-full ${n <= type.level ? 'bg-sky-400' : 'bg-white/10'}`} />
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {data.earStats.mostMissed.length > 0 && (
+                <div className="mt-6">
+                  <p className="text-sm text-slate-400 mb-2">Most missed lately (the trainer asks these more often):</p>
+                  <div className="flex flex-wrap gap-2">
+                    {data.earStats.mostMissed.map(item => (
+                      <span key={item.item} className="px-3 py-1 rounded-lg bg-red-500/10 border border-red-500/20 text-sm text-red-300">
+                        {item.label} · {Math.round(item.missRate * 100)}% missed
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Recent Ear Training Sessions */}
+          {data.recentEarSessions && data.recentEarSessions.length > 0 && (
+            <div className="glass-card-subtle rounded-2xl p-6 border-white/[0.08]">
+              <h2 className="text-xl font-semibold text-white mb-6">Recent Sessions</h2>
+              <div className="space-y-3">
+                {data.recentEarSessions.slice(0, 10).map((session, index) => (
+                  <div key={index} className="flex items-center justify-between p-4 bg-white/[0.03] rounded-xl border border-white/[0.06]">
+                    <div className="flex items-center gap-4">
+                      <div className="w-10 h-10 rounded-lg bg-sky-600/20 flex items-center justify-center">
+                        <Ear className="w-5 h-5 text-sky-400" />
+                      </div>
+                      <div>
+                        <p className="font-medium text-white">
+                          {EAR_EXERCISE_TYPES.find(type => type.value === session.exercise_type)?.label || session.exercise_type}
+                        </p>
+                        <p className="text-sm text-slate-400">
+                          {session.correct_count}/{session.total_questions} correct • Level {session.start_level === session.end_level ? session.end_level : `${session.start_level} → ${session.end_level}`} • {session.answer_mode === 'sing' ? 'Sung' : 'Clicked'}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <p className={`text-lg font-bold ${
+                        session.accuracy_percent >= 80 ? 'text-green-400' :
+                        session.accuracy_percent >= 60 ? 'text-yellow-400' :
+                        'text-red-400'
+                      }`}>
+                        {Number(session.accuracy_percent).toFixed(1)}%
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        {new Date(session.session_date).toLocaleDateString()}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Weekly History */}
+          {data.earWeeklyProgress && data.earWeeklyProgress.length > 0 && (
+            <div className="glass-card-subtle rounded-2xl p-6 border-white/[0.08]">
+              <h2 className="text-xl font-semibold text-white mb-6">Weekly History</h2>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="text-left text-sm text-slate-400 border-b border-white/[0.08]">
+                      <th className="pb-3 pr-4">Week</th>
+                      <th className="pb-3 pr-4">Accuracy</th>
+                      <th className="pb-3 pr-4">Change</th>
+                      <th className="pb-3 pr-4">Questions</th>
+                      <th className="pb-3 pr-4">Top Level</th>
+                      <th className="pb-3">Sessions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.earWeeklyProgress.map((week, index) => {
+                      const change = formatChange(week.accuracy_change)
+                      return (
+                        <tr key={week.id} className="border-b border-white/[0.08]">
+                          <td className="py-3 pr-4 text-slate-300">
+                            {new Date(week.week_start_date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                            {index === 0 && <span className="ml-2 text-xs text-sky-400">(Current)</span>}
+                          </td>
+                          <td className="py-3 pr-4">
+                            <span className="text-white font-medium">{week.avg_accuracy_percent?.toFixed(1) || '--'}%</span>
+                          </td>
+                          <td className={`py-3 pr-4 ${change.color}`}>{change.text}</td>
+                          <td className="py-3 pr-4 text-slate-300">{week.total_correct ?? '--'}/{week.total_questions ?? '--'}</td>
+                          <td className="py-3 pr-4 text-slate-300">{week.max_level_reached ?? '--'}</td>
+                          <td className="py-3 text-slate-300">{week.total_sessions}</td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {/* Empty State */}
+          {(!data.earWeeklyProgress || data.earWeeklyProgress.length === 0) && (!data.recentEarSessions || data.recentEarSessions.length === 0) && (
+            <div className="text-center py-12 glass-card-subtle rounded-2xl border-white/[0.08]">
+              <div className="w-16 h-16 mx-auto mb-4 bg-sky-600/20 rounded-full flex items-center justify-center">
+                <Ear className="w-8 h-8 text-sky-400" />
+              </div>
+              <h3 className="text-xl font-semibold text-white mb-2">Start Ear Training</h3>
+              <p className="text-slate-400 max-w-md mx-auto">
+                Use the Ear Trainer on your dashboard to practice intervals, chords and melodic dictation.
+                Your sessions will be tracked here.
+              </p>
+            </div>
+          )}
+        </>
+      )}
+
       {/* Scale Trainer Tab */}
       {activeTab === 'scale-trainer' && (
         <>
@@ -0,0 +1,683 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
+import { Ear, Play, RotateCcw, Save, Mic, MousePointerClick, Check, X, Volume2, ChevronRight, Loader2 } from 'lucide-react'
+import { PitchDetector, getStandardFrequency } from '@/lib/pitch-detection'
+import {
+  EAR_EXERCISE_TYPES,
+  MAX_EAR_LEVEL,
+  MIN_EAR_LEVEL,
+  SungNoteTracker,
+  adaptEarLevel,
+  buildEarQuestion,
+  earOverallScore,
+  gradeEarChoice,
+  gradeEarSung,
+  mostMissedEarItems,
+  recordEarAnswer,
+  summarizeEarHistory,
+  type EarAnswerMode,
+  type EarExerciseType,
+  type EarGrade,
+  type EarItemStats,
+  type EarQuestion,
+  type EarSessionHistory,
+} from '@/lib/ear-training'
+
+// Silence between played notes
+const NOTE_GAP_MS = 120
+
+interface EarTrainerProps {
+  /** 'modal' renders no trigger and opens immediately */
+  variant?: 'floating' | 'card' | 'modal'
+  /** Called when a 'modal' trainer is closed */
+  onClose?: () => void
+}
+
+interface AnswerFeedback {
+  grade: EarGrade
+  answerLabel: string
+  /** What the student clicked or sang */
+  given: string
+}
+
+interface SessionTally {
+  startedAt: Date
+  startLevel: number
+  total: number
+  correct: number
+  responseTimes: number[]
+  itemStats: EarItemStats
+}
+
+export default function EarTrainer({ variant = 'floating', onClose }: EarTrainerProps) {
+  const [isOpen, setIsOpen] = useState(variant === 'modal')
+
+  // Settings
+  const [exerciseType, setExerciseType] = useState<EarExerciseType>('interval')
+  const [answerMode, setAnswerMode] = useState<EarAnswerMode>('click')
+  const [sensitivity, setSensitivity] = useState<number>(50)
+  const [volume, setVolume] = useState<number>(0.7)
+
+  // Error history from past sessions, merged with this one as it goes
+  const [historyLoaded, setHistoryLoaded] = useState(false)
+  const [levels, setLevels] = useState<Record<EarExerciseType, number>>({ interval: MIN_EAR_LEVEL, chord: MIN_EAR_LEVEL, dictation: MIN_EAR_LEVEL })
+  const [itemStats, setItemStats] = useState<EarItemStats>({})
+
+  // Session state
+  const [tally, setTally] = useState<SessionTally | null>(null)
+  const [levelResults, setLevelResults] = useState<boolean[]>([])
+  const [question, setQuestion] = useState<EarQuestion | null>(null)
+  const [phase, setPhase] = useState<'idle' | 'playing' | 'answering' | 'feedback'>('idle')
+  const [feedback, setFeedback] = useState<AnswerFeedback | null>(null)
+  const [sungNames, setSungNames] = useState<string[]>([])
+  const [levelChange, setLevelChange] = useState<'up' | 'down' | null>(null)
+
+  // Audio state
+  const [hasPermission, setHasPermission] = useState<boolean | null>(null)
+  const [isListening, setIsListening] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveMessage, setSaveMessage] = useState<string | null>(null)
+
+  const level = levels[exerciseType]
+
+  // Sung answers use the shared worklet detector (lib/pitch-detection)
+  const detector = useMemo(() => new PitchDetector(), [])
+  const tracker = useMemo(() => new SungNoteTracker(), [])
+  const mediaStreamRef = useRef<MediaStream | null>(null)
+
+  // Playback
+  const playbackContextRef = useRef<AudioContext | null>(null)
+  const oscillatorsRef = useRef<OscillatorNode[]>([])
+  const playbackTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const answerStartRef = useRef<number>(0)
+
+  // Refs read by the detector listener
+  const phaseRef = useRef(phase)
+  const sungFrequenciesRef = useRef<number[]>([])
+  const handleSungNoteRef = useRef<((frequency: number) => void) | null>(null)
+
+  useEffect(() => {
+    phaseRef.current = phase
+  }, [phase])
+
+  useEffect(() => {
+    detector.setSensitivity(sensitivity)
+  }, [detector, sensitivity])
+
+  useEffect(() => detector.subscribe(note => {
+    // Ignore the speakers while a question plays
+    if (phaseRef.current !== 'answering') return
+    const frequency = tracker.push(note, performance.now())
+    if (frequency !== null) handleSungNoteRef.current?.(frequency)
+  }), [detector, tracker])
+
+  // Resume each exercise at the level its last session ended on
+  useEffect(() => {
+    if (!isOpen || historyLoaded) return
+    let on = true
+    fetch('/api/pitch-training/ear-session?days=60')
+      .then(async res => {
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || 'Failed to load ear training history')
+        if (!on) return
+        const history = summarizeEarHistory((data.sessions || []) as EarSessionHistory[])
+        setLevels(history.levels)
+        setItemStats(history.itemStats)
+      })
+      .catch(err => console.warn('[EarTrainer] Failed to load history:', err))
+      .finally(() => { if (on) setHistoryLoaded(true) })
+    return () => { on = false }
+  }, [isOpen, historyLoaded])
+
+  const stopPlayback = useCallback(() => {
+    if (playbackTimeoutRef.current) {
+      clearTimeout(playbackTimeoutRef.current)
+      playbackTimeoutRef.current = null
+    }
+    oscillatorsRef.current.forEach(oscillator => {
+      try {
+        oscillator.stop()
+        oscillator.disconnect()
+      } catch {
+        // Already stopped
+      }
+    })
+    oscillatorsRef.current = []
+  }, [])
+
+  // Schedule every group up front on the audio clock, sine tones with the
+  // Scale Trainer's envelope, quieter per note so chords don't clip.
+  // A replay after answering leaves the answer standing.
+  const playQuestion = useCallback((q: EarQuestion, afterAnswer = false) => {
+    stopPlayback()
+    if (!playbackContextRef.current) {
+      playbackContextRef.current = new AudioContext()
+    }
+    const ctx = playbackContextRef.current
+    void ctx.resume()
+
+    const noteSeconds = q.noteMs / 1000
+    const stepSeconds = (q.noteMs + NOTE_GAP_MS) / 1000
+    const start = ctx.currentTime + 0.05
+
+    q.playback.forEach((group, i) => {
+      const at = start + i * stepSeconds
+      const peak = (volume * 0.3) / group.length
+      group.forEach(midi => {
+        const oscillator = ctx.createOscillator()
+        const gainNode = ctx.createGain()
+        oscillator.type = 'sine'
+        oscillator.frequency.setValueAtTime(getStandardFrequency(midi), at)
+        gainNode.gain.setValueAtTime(0, at)
+        gainNode.gain.linearRampToValueAtTime(peak, at + 0.05)
+        gainNode.gain.setValueAtTime(peak, at + noteSeconds - 0.1)
+        gainNode.gain.linearRampToValueAtTime(0, at + noteSeconds)
+        oscillator.connect(gainNode)
+        gainNode.connect(ctx.destination)
+        oscillator.start(at)
+        oscillator.stop(at + noteSeconds)
+        oscillatorsRef.current.push(oscillator)
+      })
+    })
+
+    if (afterAnswer) return
+    setPhase('playing')
+    playbackTimeoutRef.current = setTimeout(() => {
+      oscillatorsRef.current = []
+      playbackTimeoutRef.current = null
+      tracker.reset()
+      sungFrequenciesRef.current = []
+      setSungNames([])
+      answerStartRef.current = performance.now()
+      setPhase('answering')
+    }, q.playback.length * (q.noteMs + NOTE_GAP_MS) + 50)
+  }, [stopPlayback, tracker, volume])
+
+  const initMicrophone = useCallback(async () => {
+    if (detector.isRunning) return true
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+      mediaStreamRef.current = stream
+      setHasPermission(true)
+      await detector.start(stream)
+      setIsListening(true)
+      return true
+    } catch (err) {
+      console.error('Error initializing audio:', err)
+      setHasPermission(false)
+      return false
+    }
+  }, [detector])
+
+  const releaseMicrophone = useCallback(() => {
+    detector.stop()
+    mediaStreamRef.current?.getTracks().forEach(track => track.stop())
+    mediaStreamRef.current = null
+    setIsListening(false)
+  }, [detector])
+
+  const askQuestion = useCallback((nextLevel: number, stats: EarItemStats) => {
+    const next = buildEarQuestion(exerciseType, nextLevel, stats)
+    setQuestion(next)
+    setFeedback(null)
+    playQuestion(next)
+  }, [exerciseType, playQuestion])
+
+  const startSession = async () => {
+    if (answerMode === 'sing' && !(await initMicrophone())) return
+    setTally({ startedAt: new Date(), startLevel: level, total: 0, correct: 0, responseTimes: [], itemStats: {} })
+    setLevelResults([])
+    setLevelChange(null)
+    setSaveMessage(null)
+    askQuestion(level, itemStats)
+  }
+
+  const submitGrade = useCallback((grade: EarGrade, given: string) => {
+    if (!question || !tally) return
+    const responseMs = performance.now() - answerStartRef.current
+    phaseRef.current = 'feedback'
+
+    setItemStats(prev => recordEarAnswer(prev, question, grade))
+    setTally({
+      ...tally,
+      total: tally.total + 1,
+      correct: tally.correct + (grade.correct ? 1 : 0),
+      responseTimes: [...tally.responseTimes, responseMs],
+      itemStats: recordEarAnswer(tally.itemStats, question, grade),
+    })
+
+    const results = [...levelResults, grade.correct]
+    const nextLevel = adaptEarLevel(level, results)
+    setLevelChange(nextLevel > level ? 'up' : nextLevel < level ? 'down' : null)
+    setLevelResults(nextLevel === level ? results : [])
+    setLevels(prev => ({ ...prev, [exerciseType]: nextLevel }))
+
+    setFeedback({
+      grade,
+      answerLabel: question.choices.find(c => c.value === question.answer)?.label ?? question.answer,
+      given,
+    })
+    setPhase('feedback')
+  }, [question, tally, levelResults, level, exerciseType])
+
+  const answerByClick = (value: string) => {
+    if (!question || phase !== 'answering') return
+    submitGrade(gradeEarChoice(question, value), question.choices.find(c => c.value === value)?.label ?? value)
+  }
+
+  const handleSungNote = useCallback((frequency: number) => {
+    if (!question || phaseRef.current !== 'answering') return
+    const frequencies = [...sungFrequenciesRef.current, frequency]
+    sungFrequenciesRef.current = frequencies
+    const sung = gradeEarSung(question, frequencies)
+    setSungNames(sung.sungNames.map(name => name ?? '?'))
+    if (frequencies.length >= question.singTargets.length) {
+      submitGrade(sung.grade, sung.sungNames.map(name => name ?? '?').join(' – '))
+    }
+  }, [question, submitGrade])
+
+  useEffect(() => {
+    handleSungNoteRef.current = handleSungNote
+  }, [handleSungNote])
+
+  const resetSession = () => {
+    stopPlayback()
+    setTally(null)
+    setQuestion(null)
+    setFeedback(null)
+    setSungNames([])
+    setLevelResults([])
+    setLevelChange(null)
+    setPhase('idle')
+  }
+
+  const saveSession = async () => {
+    if (!tally || tally.total === 0) {
+      setSaveMessage('No answers to save')
+      return
+    }
+
+    setIsSaving(true)
+    setSaveMessage(null)
+
+    try {
+      const endedAt = new Date()
+      const response = await fetch('/api/pitch-training/ear-session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          startedAt: tally.startedAt.toISOString(),
+          endedAt: endedAt.toISOString(),
+          durationSeconds: Math.round((endedAt.getTime() - tally.startedAt.getTime()) / 1000),
+          exerciseType,
+          answerMode,
+          startLevel: tally.startLevel,
+          endLevel: level,
+          totalQuestions: tally.total,
+          correctCount: tally.correct,
+          avgResponseMs: tally.responseTimes.reduce((a, b) => a + b, 0) / tally.responseTimes.length,
+          itemStats: tally.itemStats,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save session')
+      }
+
+      resetSession()
+      setSaveMessage(`Session saved! ${Math.round(data.accuracyPercent)}% correct`)
+    } catch (err) {
+      console.error('Error saving session:', err)
+      setSaveMessage('Failed to save session')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // Cleanup
+  useEffect(() => {
+    return () => {
+      stopPlayback()
+      releaseMicrophone()
+      playbackContextRef.current?.close()
+    }
+  }, [stopPlayback, releaseMicrophone])
+
+  const handleClose = () => {
+    resetSession()
+    releaseMicrophone()
+    setSaveMessage(null)
+    setIsOpen(false)
+    if (variant === 'modal') onClose?.()
+  }
+
+  const inSession = tally !== null
+  const accuracy = tally && tally.total > 0 ? (tally.correct / tally.total) * 100 : 0
+  const weakSpots = mostMissedEarItems(itemStats)
+    .filter(item => item.item.startsWith(`${exerciseType}:`))
+
+  const renderTrainer = () => (
+    <div>
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-sky-500/20 to-indigo-500/20 flex items-center justify-center">
+            <Ear className="w-5 h-5 text-sky-400" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-white">Ear Trainer</h2>
+            <p className="text-sm text-white/50">Intervals, chords and tonal memory</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {isListening && (
+            <div className="flex items-center gap-2 text-sm text-green-400 mr-2">
+              <Mic size={16} />
+              <span>Listening</span>
+            </div>
+          )}
+          <button
+            onClick={handleClose}
+            className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+          >
+            <X size={18} className="text-white/70" />
+          </button>
+        </div>
+      </div>
+
+      {/* Settings */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div>
+          <label className="block text-xs text-white/50 mb-1">Exercise</label>
+          <select
+            value={exerciseType}
+            onChange={(e) => setExerciseType(e.target.value as EarExerciseType)}
+            disabled={inSession}
+            className="glass-select w-full text-sm"
+          >
+            {EAR_EXERCISE_TYPES.map(type => (
+              <option key={type.value} value={type.value}>{type.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-xs text-white/50 mb-1">Answer by</label>
+          <div className="grid grid-cols-2 gap-2">
+            {(['click', 'sing'] as const).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setAnswerMode(mode)}
+                disabled={inSession}
+                className={`flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm transition-all disabled:opacity-50 ${
+                  answerMode === mode
+                    ? 'bg-sky-500/20 text-sky-300 border border-sky-500/50'
+                    : 'glass-button text-white/70'
+                }`}
+              >
+                {mode === 'click' ? <MousePointerClick size={14} /> : <Mic size={14} />}
+                <span className="capitalize">{mode}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-xs text-white/50 mb-1">Level</label>
+          <div className="flex items-center gap-1.5 h-[38px]">
+            {Array.from({ length: MAX_EAR_LEVEL }, (_, i) => i + 1).map(n => (
+              <div
+                key={n}
+                className={`flex-1 h-2 rounded-full ${n <= level ? 'bg-sky-400' : 'bg-white/10'}`}
+              />
+            ))}
+            <span className="text-white font-mono text-sm ml-2">{level}</span>
+          </div>
+        </div>
+      </div>
+
+      <p className="text-xs text-white/40 mb-4">
+        {EAR_EXERCISE_TYPES.find(type => type.value === exerciseType)?.description}. The level adapts as you answer.
+      </p>
+
+      {/* Volume and sensitivity */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <div>
+          <label className="block text-xs text-white/50 mb-2">Volume: {Math.round(volume * 100)}%</label>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            value={Math.round(volume * 100)}
+            onChange={(e) => setVolume(Number(e.target.value) / 100)}
+            className="w-full accent-sky-500"
+          />
+        </div>
+        {answerMode === 'sing' && (
+          <div>
+            <label className="block text-xs text-white/50 mb-2">Mic Sensitivity: {sensitivity}%</label>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              value={sensitivity}
+              onChange={(e) => setSensitivity(Number(e.target.value))}
+              className="w-full accent-sky-500"
+            />
+          </div>
+        )}
+      </div>
+
+      {hasPermission === false && answerMode === 'sing' && (
+        <div className="mb-4 p-3 rounded-xl bg-red-500/10 text-red-400 text-sm">
+          Microphone access was denied. Allow it in your browser to answer by singing.
+        </div>
+      )}
+
+      {/* Question */}
+      {question && (
+        <div className="mb-6 p-4 rounded-xl bg-white/5 border border-white/10">
+          <div className="flex items-center justify-between mb-3">
+            <p className="text-sm text-white/80">
+              {phase === 'playing' ? 'Listen...' : question.prompt[answerMode]}
+            </p>
+            <button
+              onClick={() => playQuestion(question, phase === 'feedback')}
+              disabled={phase === 'playing'}
+              className="glass-button flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm disabled:opacity-50"
+            >
+              <Volume2 size={14} className="text-sky-400" />
+              <span>Replay</span>
+            </button>
+          </div>
+
+          {answerMode === 'click' ? (
+            <div className={`grid gap-2 ${question.type === 'dictation' ? 'grid-cols-1 sm:grid-cols-2' : 'grid-cols-2 sm:grid-cols-3'}`}>
+              {question.choices.map(choice => {
+                const isAnswer = phase === 'feedback' && choice.value === question.answer
+                return (
+                  <button
+                    key={choice.value}
+                    onClick={() => answerByClick(choice.value)}
+                    disabled={phase !== 'answering'}
+                    className={`px-3 py-2.5 rounded-lg text-sm font-medium transition-all ${
+                      isAnswer
+                        ? 'bg-green-500/20 text-green-300 border border-green-500/50'
+                        : 'glass-button text-white hover:bg-white/10 disabled:opacity-60'
+                    }`}
+                  >
+                    {choice.label}
+                  </button>
+                )
+              })}
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 flex-wrap">
+              {question.singTargets.map((_, i) => (
+                <div
+                  key={i}
+                  className={`min-w-16 px-3 py-2 rounded-lg text-center text-sm font-mono ${
+                    sungNames[i] ? 'bg-sky-500/20 text-sky-300 border border-sky-500/40' : 'bg-white/5 text-white/30 border border-white/10'
+                  }`}
+                >
+                  {sungNames[i] ?? `Note ${i + 1}`}
+                </div>
+              ))}
+              {phase === 'answering' && (
+                <button
+                  onClick={() => submitGrade(
+                    gradeEarSung(question, sungFrequenciesRef.current).grade,
+                    sungNames.join(' – ') || 'nothing'
+                  )}
+                  className="glass-button px-3 py-2 rounded-lg text-sm text-white/70 ml-auto"
+                >
+                  Give up
+                </button>
+              )}
+            </div>
+          )}
+
+          {feedback && (
+            <div className={`mt-4 p-3 rounded-xl text-sm flex items-start gap-2 ${
+              feedback.grade.correct ? 'bg-green-500/10 text-green-400' : 'bg-red-500/10 text-red-400'
+            }`}>
+              {feedback.grade.correct ? <Check size={16} className="mt-0.5" /> : <X size={16} className="mt-0.5" />}
+              <div>
+                {feedback.grade.correct ? 'Correct!' : <>It was <span className="font-semibold">{feedback.answerLabel}</span>. You answered {feedback.given}.</>}
+                {levelChange && (
+                  <p className="text-white/60 mt-1">
+                    {levelChange === 'up' ? `Level up! Now on level ${level}.` : `Easing off to level ${level}.`}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Session stats */}
+      {tally && tally.total > 0 && (
+        <div className="grid grid-cols-3 gap-4 mb-6">
+          <div className="text-center p-3 rounded-xl bg-white/5">
+            <div className="text-2xl font-bold text-white">{tally.correct}/{tally.total}</div>
+            <div className="text-xs text-white/50">Correct</div>
+          </div>
+          <div className="text-center p-3 rounded-xl bg-white/5">
+            <div className="text-2xl font-bold text-sky-400">{Math.round(accuracy)}%</div>
+            <div className="text-xs text-white/50">Accuracy</div>
+          </div>
+          <div className="text-center p-3 rounded-xl bg-white/5">
+            <div className="text-2xl font-bold text-green-400">{Math.round(earOverallScore(accuracy, level))}%</div>
+            <div className="text-xs text-white/50">Score</div>
+          </div>
+        </div>
+      )}
+
+      {/* Weak spots from the error history */}
+      {!inSession && weakSpots.length > 0 && (
+        <div className="mb-6 text-sm text-white/60">
+          Coming up more often:{' '}
+          {weakSpots.map(item => (
+            <span key={item.item} className="inline-block mr-2 px-2 py-0.5 rounded-md bg-white/5 text-white/80">
+              {item.label} ({Math.round(item.missRate * 100)}% missed)
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-3">
+        {!inSession ? (
+          <button
+            onClick={startSession}
+            disabled={!historyLoaded}
+            className="flex items-center gap-2 px-6 py-3 rounded-xl bg-gradient-to-r from-sky-500 to-indigo-500 text-white font-medium hover:from-sky-400 hover:to-indigo-400 transition-all shadow-lg shadow-indigo-500/20 disabled:opacity-50"
+          >
+            {historyLoaded ? <Play size={18} /> : <Loader2 size={18} className="animate-spin" />}
+            <span>Start</span>
+          </button>
+        ) : (
+          <button
+            onClick={() => askQuestion(level, itemStats)}
+            disabled={phase !== 'feedback'}
+            className="flex items-center gap-2 px-6 py-3 rounded-xl bg-gradient-to-r from-sky-500 to-indigo-500 text-white font-medium hover:from-sky-400 hover:to-indigo-400 transition-all shadow-lg shadow-indigo-500/20 disabled:opacity-50"
+          >
+            <ChevronRight size={18} />
+            <span>Next</span>
+          </button>
+        )}
+
+        <button
+          onClick={resetSession}
+          disabled={!inSession}
+          className="glass-button flex items-center gap-2 px-5 py-3 rounded-xl disabled:opacity-50 text-white/80 hover:text-white"
+        >
+          <RotateCcw size={18} />
+          <span>Reset</span>
+        </button>
+
+        {tally && tally.total > 0 && phase !== 'playing' && (
+          <button
+            onClick={saveSession}
+            disabled={isSaving}
+            className="glass-button-gold flex items-center gap-2 px-6 py-3 rounded-xl disabled:opacity-50"
+          >
+            <Save size={18} />
+            <span>{isSaving ? 'Saving...' : 'Finish & Save'}</span>
+          </button>
+        )}
+      </div>
+
+      {/* Messages */}
+      {saveMessage && (
+        <div className={`mt-4 p-3 rounded-xl text-sm ${saveMessage.includes('Failed') ? 'bg-red-500/10 text-red-400' : 'bg-green-500/10 text-green-400'}`}>
+          {saveMessage}
+        </div>
+      )}
+    </div>
+  )
+
+  return (
+    <>
+      {/* Trigger Button */}
+      {variant === 'modal' ? null : variant === 'floating' ? (
+        <button
+          onClick={() => setIsOpen(true)}
+          className="fixed bottom-4 right-[200px] w-12 h-12 lg:bottom-6 lg:right-56 lg:w-14 lg:h-14 bg-gradient-to-br from-sky-500 to-indigo-600 rounded-full shadow-lg flex items-center justify-center text-white hover:scale-110 active:scale-95 transition-all duration-300 z-50"
+          style={{ boxShadow: '0 8px 24px rgba(14, 165, 233, 0.4)' }}
+          title="Ear Trainer"
+        >
+          <Ear className="w-5 h-5 lg:w-6 lg:h-6" />
+        </button>
+      ) : (
+        <button
+          onClick={() => setIsOpen(true)}
+          className="flex items-center gap-4 px-6 py-5 bg-gradient-to-br from-sky-500 to-indigo-600 hover:from-sky-400 hover:to-indigo-500 text-white rounded-2xl transition-all duration-300 w-full group border border-white/10"
+          style={{ boxShadow: '0 8px 32px rgba(14, 165, 233, 0.3), inset 0 1px 0 rgba(255,255,255,0.1)' }}
+        >
+          <div className="w-12 h-12 rounded-xl bg-white/20 flex items-center justify-center group-hover:scale-110 transition-transform duration-300">
+            <Ear className="w-6 h-6" />
+          </div>
+          <div className="text-left flex-1">
+            <p className="font-semibold text-lg">Ear Trainer</p>
+            <p className="text-sm text-white/70">Intervals, chords & dictation</p>
+          </div>
+        </button>
+      )}
+
+      {/* Modal */}
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={handleClose} />
+          <div className="relative glass-card p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-2xl">
+            {renderTrainer()}
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -2,10 +2,13 @@
 
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import { Music, X, Maximize2, Minimize2, Circle, Piano, Mic, MicOff, TrendingUp, Save } from 'lucide-react'
-import Script from 'next/script'
 import { getSharedMicStream, subscribeSharedMicStream } from '@/lib/shared-mic-stream'
-import { analyzeBuffer, getNoteFrequency } from '@/lib/pitch-detection'
+import { PitchDetector, getNoteFrequency } from '@/lib/pitch-detection'
 import { SpotlightTour, SpotlightTriggerButton, SpotlightStep } from '@/components/spotlight-tour'
+import type { PitchAssignmentSettings } from '@/lib/practice-assignments'
+import { downsampleTrace } from '@/lib/pitch-traces'
+import { noteOctaveForRange } from '@/lib/vocal-range'
+import { useVocalRange } from '@/lib/hooks/use-vocal-range'
 
 const pitchTourSteps: SpotlightStep[] = [
   {
@@ -43,7 +46,6 @@ const NOTE_STRINGS_DISPLAY = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', '
 
 // Constants from original tuner.js
 // MIDDLE_A / SEMITONE now live in lib/pitch-detection alongside the note math.
-const BUFFER_SIZE = 4096
 
 // In-tune threshold (cents)
 const IN_TUNE_THRESHOLD = 15
@@ -52,12 +54,6 @@ const IN_TUNE_THRESHOLD = 15
 // Notes outside this range are likely mistakes, not actual attempts
 const TRACKING_RANGE_SEMITONES = 4
 
-declare global {
-  interface Window {
-    aubio: () => Promise<any>
-  }
-}
-
 interface DetectedNote {
   name: string
   value: number
@@ -102,6 +98,7 @@ interface BasePitchSample {
   cents: number
   timestamp: number
   isInTune: boolean
+  rms?: number
 }
 
 interface PitchSample extends BasePitchSample {
@@ -259,21 +256,18 @@ interface UsePitchDetectionOptions {
 
 function usePitchDetection({ sensitivity, externalMicStream, onNoteDetected, onSampleRecorded }: UsePitchDetectionOptions) {
   const [isListening, setIsListening] = useState(false)
-  const [aubioLoaded, setAubioLoaded] = useState(false)
 
-  const audioContextRef = useRef<AudioContext | null>(null)
-  const analyserRef = useRef<AnalyserNode | null>(null)
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null)
-  const pitchDetectorRef = useRef<any>(null)
+  // Detection runs in an AudioWorklet (lib/pitch-detection); the callbacks
+  // below only see readings that passed the shared gates
+  const detector = useMemo(() => new PitchDetector(), [])
   const streamRef = useRef<MediaStream | null>(null)
-  const sensitivityRef = useRef(sensitivity)
   const onNoteDetectedRef = useRef(onNoteDetected)
   const onSampleRecordedRef = useRef(onSampleRecorded)
   const externalMicStreamRef = useRef<MediaStream | null | undefined>(externalMicStream)
 
   useEffect(() => {
-    sensitivityRef.current = sensitivity
-  }, [sensitivity])
+    detector.setSensitivity(sensitivity)
+  }, [detector, sensitivity])
 
   useEffect(() => {
     onNoteDetectedRef.current = onNoteDetected
@@ -287,25 +281,27 @@ function usePitchDetection({ sensitivity, externalMicStream, onNoteDetected, onS
     externalMicStreamRef.current = externalMicStream
   }, [externalMicStream])
 
-  const startListening = useCallback(async () => {
-    try {
-      if (!window.aubio) {
-        alert('Audio library is still loading. Please wait a moment and try again.')
-        return
-      }
+  useEffect(() => detector.subscribe((detected, frame) => {
+    if (onNoteDetectedRef.current) {
+      onNoteDetectedRef.current(detected)
+    }
 
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)()
-      analyserRef.current = audioContextRef.current.createAnalyser()
-      scriptProcessorRef.current = audioContextRef.current.createScriptProcessor(BUFFER_SIZE, 1, 1)
+    // Record sample for metrics
+    if (onSampleRecordedRef.current) {
+      onSampleRecordedRef.current({
+        frequency: detected.frequency,
+        cents: detected.cents,
+        timestamp: Date.now(),
+        isInTune: detected.isInTune,
+        rms: frame.rms,
+      })
+    }
+  }), [detector])
 
-      const aubioModule = await window.aubio()
-      pitchDetectorRef.current = new aubioModule.Pitch(
-        'default',
-        BUFFER_SIZE,
-        1,
-        audioContextRef.current.sampleRate
-      )
+  useEffect(() => () => detector.stop(), [detector])
 
+  const startListening = useCallback(async () => {
+    try {
       let inputStream: MediaStream
       const externalStream = externalMicStreamRef.current
       const externalAudioTrack = externalStream?.getAudioTracks()[0]
@@ -318,68 +314,26 @@ function usePitchDetection({ sensitivity, externalMicStream, onNoteDetected, onS
       }
 
       streamRef.current = inputStream
-
-      const source = audioContextRef.current.createMediaStreamSource(inputStream)
-      source.connect(analyserRef.current)
-      analyserRef.current.connect(scriptProcessorRef.current)
-      scriptProcessorRef.current.connect(audioContextRef.current.destination)
-
-      scriptProcessorRef.current.addEventListener('audioprocess', (event: AudioProcessingEvent) => {
-        const input = event.inputBuffer.getChannelData(0)
-
-        // Amplitude gate, pitch detection and the 60-2000Hz plausibility gate
-        // all happen inside analyzeBuffer, identical to the Scale Trainer.
-        // Returns null for anything that should not count as a sung note.
-        const detected = analyzeBuffer(input, pitchDetectorRef.current, sensitivityRef.current)
-        if (!detected) return
-
-        if (onNoteDetectedRef.current) {
-          onNoteDetectedRef.current(detected)
-        }
-
-        // Record sample for metrics
-        if (onSampleRecordedRef.current) {
-          onSampleRecordedRef.current({
-            frequency: detected.frequency,
-            cents: detected.cents,
-            timestamp: Date.now(),
-            isInTune: detected.isInTune,
-          })
-        }
-      })
+      await detector.start(inputStream)
 
       setIsListening(true)
     } catch (error: any) {
       console.error('Microphone error:', error)
       alert(error.name + ': ' + error.message)
     }
-  }, [])
+  }, [detector])
 
   const stopListening = useCallback(() => {
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop())
       streamRef.current = null
     }
-    if (scriptProcessorRef.current) {
-      scriptProcessorRef.current.disconnect()
-      scriptProcessorRef.current = null
-    }
-    if (analyserRef.current) {
-      analyserRef.current.disconnect()
-      analyserRef.current = null
-    }
-    if (audioContextRef.current) {
-      audioContextRef.current.close()
-      audioContextRef.current = null
-    }
-    pitchDetectorRef.current = null
+    detector.stop()
     setIsListening(false)
-  }, [])
+  }, [detector])
 
   return {
     isListening,
-    aubioLoaded,
-    setAubioLoaded,
     startListening,
     stopListening,
   }
@@ -390,15 +344,21 @@ function usePitchDetection({ sensitivity, externalMicStream, onNoteDetected, onS
 // ============================================================================
 
 interface ModernPitchTrainerProps {
-  variant?: 'floating' | 'card'
+  /** 'modal' renders no trigger and opens immediately, e.g. from a practice assignment */
+  variant?: 'floating' | 'card' | 'modal'
+  /** Initial settings, e.g. from a practice assignment */
+  preset?: Partial<PitchAssignmentSettings>
+  /** Called when a 'modal' trainer is closed */
+  onClose?: () => void
 }
 
-export default function ModernPitchTrainer({ variant = 'floating' }: ModernPitchTrainerProps) {
-  const [isOpen, setIsOpen] = useState(false)
+export default function ModernPitchTrainer({ variant = 'floating', preset, onClose }: ModernPitchTrainerProps) {
+  const [isOpen, setIsOpen] = useState(variant === 'modal')
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [mode, setMode] = useState<'wheel' | 'keyboard'>('wheel')
-  const [selectedOctave, setSelectedOctave] = useState(4)
-  const [selectedNote, setSelectedNote] = useState<string | null>(null)
+  // Until chosen, the octave follows the student's saved vocal range
+  const [chosenOctave, setSelectedOctave] = useState<number | null>(preset?.octave ?? null)
+  const [selectedNote, setSelectedNote] = useState<string | null>(preset?.note ?? null)
   const [isPlaying, setIsPlaying] = useState(false)
   const [sensitivity, setSensitivity] = useState(50)
   const [detectedNote, setDetectedNote] = useState<DetectedNote | null>(null)
@@ -407,6 +367,9 @@ export default function ModernPitchTrainer({ variant = 'floating' }: ModernPitch
   const [saveMessage, setSaveMessage] = useState<string | null>(null)
   const [sharedMicStream, setSharedMicStream] = useState<MediaStream | null>(() => getSharedMicStream())
 
+  const { range: vocalRange } = useVocalRange(isOpen)
+  const selectedOctave = chosenOctave ?? (vocalRange ? noteOctaveForRange(vocalRange) : 4)
+
   // Session tracking state
   const [session, setSession] = useState<SessionMetrics>({
     startedAt: null,
@@ -471,7 +434,6 @@ export default function ModernPitchTrainer({ variant = 'floating' }: ModernPitch
 
   const {
     isListening,
-    setAubioLoaded,
     startListening,
     stopListening,
   } = usePitchDetection({
@@ -591,6 +553,13 @@ export default function ModernPitchTrainer({ variant = 'floating' }: ModernPitch
         pitchDirection: attempt.pitchDirection,
         timeToFirstSound: attempt.timeToFirstSound,
         sampleCount: attempt.samples.length,
+        // Pitch trace for teacher review
+        attemptedAt: new Date(attempt.startTime).toISOString(),
+        trace: downsampleTrace(attempt.samples).map(s => ({
+          t: s.timestamp - attempt.startTime,
+          f: Math.round(s.frequency * 100) / 100,
+          v: s.rms,
+        })),
       }))
 
       const response = await fetch('/api/pitch-training/session', {
@@ -623,6 +592,11 @@ export default function ModernPitchTrainer({ variant = 'floating' }: ModernPitch
     }
   }, [session])
 
+  // A 'modal' trainer has no trigger to reopen it, so closing hands control back
+  useEffect(() => {
+    if (variant === 'modal' && !isOpen) onClose?.()
+  }, [variant, isOpen, onClose])
+
   // Handle escape key
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
@@ -1060,7 +1034,7 @@ export default function ModernPitchTrainer({ variant = 'floating' }: ModernPitch
 
   return (
     <>
-      {variant === 'floating' ? (
+      {variant === 'modal' ? null : variant === 'floating' ? (
         <button
           onClick={() => setIsOpen(true)}
           className="fixed bottom-4 right-[76px] w-12 h-12 lg:bottom-6 lg:right-24 lg:w-14 lg:h-14 bg-gradient-to-br from-indigo-600 to-violet-600 rounded-full shadow-lg flex items-center justify-center text-white hover:scale-110 active:scale-95 transition-all duration-300 z-50"
@@ -1325,12 +1299,6 @@ export default function ModernPitchTrainer({ variant = 'floating' }: ModernPitch
           </div>
         </div>
       )}
-
-      <Script
-        src="https://cdn.jsdelivr.net/npm/aubiojs@0.1.1/build/aubio.min.js"
-        strategy="lazyOnload"
-        onLoad={() => setAubioLoaded(true)}
-      />
     </>
   )
 }
@@ -3,6 +3,7 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
 import { X, Maximize2, Minimize2, Play, Pause, Mic, MicOff, Save, TrendingUp, Settings2, Volume2 } from 'lucide-react'
 import { SpotlightTour, SpotlightTriggerButton, SpotlightStep } from '@/components/spotlight-tour'
+import type { RhythmAssignmentSettings } from '@/lib/practice-assignments'
 
 const rhythmTourSteps: SpotlightStep[] = [
   {
@@ -426,17 +427,22 @@ function calculateStats(timings: BeatTiming[]): SessionStats {
 // ============================================================================
 
 interface RhythmTrainerProps {
-  variant?: 'floating' | 'card'
+  /** 'modal' renders no trigger and opens immediately, e.g. from a practice assignment */
+  variant?: 'floating' | 'card' | 'modal'
+  /** Initial settings, e.g. from a practice assignment */
+  preset?: Partial<RhythmAssignmentSettings>
+  /** Called when a 'modal' trainer is closed */
+  onClose?: () => void
 }
 
-export default function RhythmTrainer({ variant = 'floating' }: RhythmTrainerProps) {
-  const [isOpen, setIsOpen] = useState(false)
+export default function RhythmTrainer({ variant = 'floating', preset, onClose }: RhythmTrainerProps) {
+  const [isOpen, setIsOpen] = useState(variant === 'modal')
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [showSettings, setShowSettings] = useState(false)
 
   // Metronome settings
-  const [bpm, setBpm] = useState(90)
-  const [timeSignature, setTimeSignature] = useState<TimeSignature>('4/4')
+  const [bpm, setBpm] = useState(preset?.bpm ?? 90)
+  const [timeSignature, setTimeSignature] = useState<TimeSignature>(preset?.timeSignature ?? '4/4')
   const [metronomeSound, setMetronomeSound] = useState<MetronomeSound>('click')
   const [volume, setVolume] = useState(70)
   const [isPlaying, setIsPlaying] = useState(false)
@@ -845,6 +851,11 @@ export default function RhythmTrainer({ variant = 'floating' }: RhythmTrainerPro
     }
   }, [isOpen, stopMetronome, stopListening])
 
+  // A 'modal' trainer has no trigger to reopen it, so closing hands control back
+  useEffect(() => {
+    if (variant === 'modal' && !isOpen) onClose?.()
+  }, [variant, isOpen, onClose])
+
   // Handle escape key
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
@@ -1155,7 +1166,7 @@ export default function RhythmTrainer({ variant = 'floating' }: RhythmTrainerPro
 
   return (
     <>
-      {variant === 'floating' ? (
+      {variant === 'modal' ? null : variant === 'floating' ? (
         <button
           onClick={() => setIsOpen(true)}
           className="fixed bottom-20 right-4 w-12 h-12 lg:bottom-24 lg:right-8 lg:w-14 lg:h-14 bg-gradient-to-br from-amber-500 to-orange-600 rounded-full shadow-lg flex items-center justify-center text-white hover:scale-110 active:scale-95 transition-all duration-300 z-50"
@@ -1,10 +1,13 @@
 'use client'
 
-import { useState, useEffect, useRef, useCallback } from 'react'
-import Script from 'next/script'
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import { Music, Play, Square, Save, RotateCcw, ChevronUp, ChevronDown, Mic, MicOff, Check, X, ArrowUp, ArrowDown, ArrowUpDown, Maximize2, Minimize2, Volume2, VolumeX } from 'lucide-react'
-import { analyzeBuffer } from '@/lib/pitch-detection'
+import { PitchDetector } from '@/lib/pitch-detection'
 import { SpotlightTour, SpotlightTriggerButton, SpotlightStep } from '@/components/spotlight-tour'
+import type { ScaleAssignmentSettings } from '@/lib/practice-assignments'
+import { downsampleTrace, type PitchTraceSample } from '@/lib/pitch-traces'
+import { scaleOctaveForRange } from '@/lib/vocal-range'
+import { useVocalRange } from '@/lib/hooks/use-vocal-range'
 
 const scaleTourSteps: SpotlightStep[] = [
   {
@@ -88,25 +91,35 @@ interface NoteMetric {
   wasInOrder: boolean
   sampleCount: number
   avgDetectedFrequency: number
+  trace: PitchTraceSample[]
 }
 
 type Direction = 'ascending' | 'descending' | 'both'
 
 interface ScaleTrainerProps {
-  variant?: 'floating' | 'card'
+  /** 'modal' renders no trigger and opens immediately, e.g. from a practice assignment */
+  variant?: 'floating' | 'card' | 'modal'
+  /** Initial settings, e.g. from a practice assignment */
+  preset?: Partial<ScaleAssignmentSettings>
+  /** Called when a 'modal' trainer is closed */
+  onClose?: () => void
 }
 
-export default function ScaleTrainer({ variant = 'floating' }: ScaleTrainerProps) {
-  const [isOpen, setIsOpen] = useState(false)
+export default function ScaleTrainer({ variant = 'floating', preset, onClose }: ScaleTrainerProps) {
+  const [isOpen, setIsOpen] = useState(variant === 'modal')
   const [isFullscreen, setIsFullscreen] = useState(false)
 
   // Settings
-  const [scaleType, setScaleType] = useState<string>('major')
-  const [rootNote, setRootNote] = useState<string>('C')
-  const [octave, setOctave] = useState<number>(4)
-  const [direction, setDirection] = useState<Direction>('ascending')
+  const [scaleType, setScaleType] = useState<string>(preset?.scaleType ?? 'major')
+  const [rootNote, setRootNote] = useState<string>(preset?.rootNote ?? 'C')
+  // Until chosen, the octave follows the student's saved vocal range
+  const [chosenOctave, setOctave] = useState<number | null>(preset?.octave ?? null)
+  const [direction, setDirection] = useState<Direction>(preset?.direction ?? 'ascending')
   const [sensitivity, setSensitivity] = useState<number>(50)
-  const [tempo, setTempo] = useState<number>(80) // BPM - beats per minute
+  const [tempo, setTempo] = useState<number>(preset?.tempo ?? 80) // BPM - beats per minute
+
+  const { range: vocalRange } = useVocalRange(isOpen)
+  const octave = chosenOctave ?? (vocalRange ? scaleOctaveForRange(vocalRange, NOTE_NAMES.indexOf(rootNote)) : 4)
 
   // Session state
   const [isActive, setIsActive] = useState(false)
@@ -125,16 +138,10 @@ export default function ScaleTrainer({ variant = 'floating' }: ScaleTrainerProps
   const [centsDeviation, setCentsDeviation] = useState<number>(0)
   const [isListening, setIsListening] = useState(false)
 
-  // Refs for audio processing (pitch detection)
-  const audioContextRef = useRef<AudioContext | null>(null)
-  const analyserRef = useRef<AnalyserNode | null>(null)
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null)
+  // Pitch detection runs in an AudioWorklet (lib/pitch-detection), shared
+  // with ModernPitchTrainer and SongPitchTrainer
+  const detector = useMemo(() => new PitchDetector(), [])
   const mediaStreamRef = useRef<MediaStream | null>(null)
-  const pitchDetectorRef = useRef<any>(null)
-
-  // Constants for pitch detection (matching ModernPitchTrainer).
-  // MIDDLE_A_FREQ / SEMITONE_OFFSET moved to lib/pitch-detection.
-  const BUFFER_SIZE = 4096
 
   // Refs for audio playback
   const playbackContextRef = useRef<AudioContext | null>(null)
@@ -156,9 +163,6 @@ export default function ScaleTrainer({ variant = 'floating' }: ScaleTrainerProps
   const [isSaving, setIsSaving] = useState(false)
   const [saveMessage, setSaveMessage] = useState<string | null>(null)
 
-  // Aubio loading state
-  const [aubioLoaded, setAubioLoaded] = useState(false)
-
   // Audio playback state
   const [isPlayingNote, setIsPlayingNote] = useState(false)
   const [playingNoteIndex, setPlayingNoteIndex] = useState<number | null>(null)
@@ -315,85 +319,57 @@ export default function ScaleTrainer({ variant = 'floating' }: ScaleTrainerProps
   // lib/pitch-detection, shared with ModernPitchTrainer and SongPitchTrainer.
 
   // Refs to keep callbacks updated without recreating audio processing
-  const sensitivityRef = useRef(sensitivity)
   const isPracticingRef = useRef(isPracticing)
   const processDetectedNoteRef = useRef<((noteName: string, noteOctave: number, frequency: number, cents: number) => void) | null>(null)
 
   useEffect(() => {
-    sensitivityRef.current = sensitivity
-  }, [sensitivity])
+    detector.setSensitivity(sensitivity)
+  }, [detector, sensitivity])
 
   useEffect(() => {
     isPracticingRef.current = isPracticing
   }, [isPracticing])
 
-  // Initialize Aubio pitch detector with ScriptProcessorNode (like ModernPitchTrainer)
+  // Detection is shared with ModernPitchTrainer and SongPitchTrainer via
+  // lib/pitch-detection; only readings that pass its gates arrive here
+  useEffect(() => detector.subscribe(detected => {
+    // ScaleTrainer matches against ASCII note names ('F#', not 'F♯')
+    const noteName = detected.nameAscii
+
+    // Update UI state
+    setDetectedNote(noteName)
+    setDetectedOctave(detected.octave)
+    setDetectedFrequency(detected.frequency)
+    setCentsDeviation(detected.cents)
+
+    // Process for scale training if practicing
+    if (isPracticingRef.current && processDetectedNoteRef.current) {
+      processDetectedNoteRef.current(noteName, detected.octave, detected.frequency, detected.cents)
+    }
+  }), [detector])
+
   const initAudio = useCallback(async () => {
     try {
-      // Check if aubio is loaded
-      if (!window.aubio) {
-        alert('Audio library is still loading. Please wait a moment and try again.')
-        return
-      }
-
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
       mediaStreamRef.current = stream
       setHasPermission(true)
 
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)()
-      analyserRef.current = audioContextRef.current.createAnalyser()
-      scriptProcessorRef.current = audioContextRef.current.createScriptProcessor(BUFFER_SIZE, 1, 1)
-
-      const aubioModule = await window.aubio()
-      pitchDetectorRef.current = new aubioModule.Pitch(
-        'default',
-        BUFFER_SIZE,
-        1,
-        audioContextRef.current.sampleRate
-      )
-
-      const source = audioContextRef.current.createMediaStreamSource(stream)
-      source.connect(analyserRef.current)
-      analyserRef.current.connect(scriptProcessorRef.current)
-      scriptProcessorRef.current.connect(audioContextRef.current.destination)
-
-      // Real-time audio processing via ScriptProcessorNode.
-      // Detection logic is shared with ModernPitchTrainer and SongPitchTrainer
-      // via lib/pitch-detection; behaviour here is unchanged.
-      scriptProcessorRef.current.addEventListener('audioprocess', (event: AudioProcessingEvent) => {
-        const input = event.inputBuffer.getChannelData(0)
-
-        const detected = analyzeBuffer(input, pitchDetectorRef.current, sensitivityRef.current)
-        if (!detected) return
-
-        // ScaleTrainer matches against ASCII note names ('F#', not 'F♯')
-        const noteName = detected.nameAscii
-
-        // Update UI state
-        setDetectedNote(noteName)
-        setDetectedOctave(detected.octave)
-        setDetectedFrequency(detected.frequency)
-        setCentsDeviation(detected.cents)
-
-        // Process for scale training if practicing
-        if (isPracticingRef.current && processDetectedNoteRef.current) {
-          processDetectedNoteRef.current(noteName, detected.octave, detected.frequency, detected.cents)
-        }
-      })
+      await detector.start(stream)
 
       setIsListening(true)
     } catch (err) {
       console.error('Error initializing audio:', err)
       setHasPermission(false)
     }
-    // No deps: note math now comes from lib/pitch-detection as pure module
-    // functions rather than component-scoped callbacks.
-  }, [])
+  }, [detector])
 
   // Process detected note
   const lastNoteTimeRef = useRef<number>(0)
   const currentSamplesRef = useRef<{ freq: number; cents: number }[]>([])
   const matchedNoteRef = useRef<string | null>(null)
+  // Everything sung while waiting for the current note, for teacher review
+  const traceRef = useRef<PitchTraceSample[]>([])
+  const traceStartRef = useRef<number>(0)
 
   const processDetectedNote = useCallback((noteName: string, noteOctave: number, frequency: number, cents: number) => {
     if (currentNoteIndex >= scaleNotes.length) return
@@ -403,6 +379,8 @@ export default function ScaleTrainer({ variant = 'floating' }: ScaleTrainerProps
     const expectedKey = `${expectedNote.noteName}-${expectedNote.octave}`
 
     currentSamplesRef.current.push({ freq: frequency, cents })
+    if (!traceStartRef.current) traceStartRef.current = Date.now()
+    traceRef.current.push({ t: Date.now() - traceStartRef.current, f: Math.round(frequency * 100) / 100 })
 
     if (noteKey === expectedKey) {
       if (currentSamplesRef.current.length >= 5) {
@@ -448,6 +426,7 @@ export default function ScaleTrainer({ variant = 'floating' }: ScaleTrainerProps
           wasInOrder: true,
           sampleCount: samples.length,
           avgDetectedFrequency: avgFreq,
+          trace: downsampleTrace(traceRef.current),
         }
         setNoteMetrics(prev => new Map(prev).set(`${expectedNote.position}`, metric))
 
@@ -455,6 +434,8 @@ export default function ScaleTrainer({ variant = 'floating' }: ScaleTrainerProps
         lastNoteTimeRef.current = now
         currentSamplesRef.current = []
         matchedNoteRef.current = null
+        traceRef.current = []
+        traceStartRef.current = 0
 
         updateStats()
       }
@@ -506,6 +487,8 @@ export default function ScaleTrainer({ variant = 'floating' }: ScaleTrainerProps
     lastNoteTimeRef.current = 0
     currentSamplesRef.current = []
     matchedNoteRef.current = null
+    traceRef.current = []
+    traceStartRef.current = 0
     setSaveMessage(null)
   }
 
@@ -576,19 +559,14 @@ export default function ScaleTrainer({ variant = 'floating' }: ScaleTrainerProps
       if (mediaStreamRef.current) {
         mediaStreamRef.current.getTracks().forEach(track => track.stop())
       }
-      if (scriptProcessorRef.current) {
-        scriptProcessorRef.current.disconnect()
-      }
-      if (audioContextRef.current) {
-        audioContextRef.current.close()
-      }
+      detector.stop()
       // Cleanup playback
       stopScalePlayback()
       if (playbackContextRef.current) {
         playbackContextRef.current.close()
       }
     }
-  }, [stopScalePlayback])
+  }, [detector, stopScalePlayback])
 
   const handleClose = () => {
     if (isPracticing) {
@@ -597,23 +575,16 @@ export default function ScaleTrainer({ variant = 'floating' }: ScaleTrainerProps
     // Stop audio playback
     stopScalePlayback()
     // Stop pitch detection
-    if (scriptProcessorRef.current) {
-      scriptProcessorRef.current.disconnect()
-      scriptProcessorRef.current = null
-    }
     if (mediaStreamRef.current) {
       mediaStreamRef.current.getTracks().forEach(track => track.stop())
       mediaStreamRef.current = null
     }
-    if (audioContextRef.current) {
-      audioContextRef.current.close()
-      audioContextRef.current = null
-    }
-    pitchDetectorRef.current = null
+    detector.stop()
     setIsListening(false)
     setIsOpen(false)
     setIsFullscreen(false)
     resetSession()
+    if (variant === 'modal') onClose?.()
   }
 
   const getDirectionIcon = () => {
@@ -697,10 +668,12 @@ export default function ScaleTrainer({ variant = 'floating' }: ScaleTrainerProps
           </div>
 
           <div>
-            <label className="block text-xs text-white/50 mb-1">Octave</label>
+            <label className="block text-xs text-white/50 mb-1">
+              Octave{chosenOctave === null && vocalRange && <span className="text-white/30"> (your range)</span>}
+            </label>
             <div className="flex items-center gap-2">
               <button
-                onClick={() => setOctave(o => Math.max(2, o - 1))}
+                onClick={() => setOctave(Math.max(2, octave - 1))}
                 disabled={isPracticing || octave <= 2}
                 className="glass-button p-2 rounded-lg disabled:opacity-50"
               >
@@ -708,7 +681,7 @@ export default function ScaleTrainer({ variant = 'floating' }: ScaleTrainerProps
               </button>
               <span className="text-white font-mono w-8 text-center">{octave}</span>
               <button
-                onClick={() => setOctave(o => Math.min(6, o + 1))}
+                onClick={() => setOctave(Math.min(6, octave + 1))}
                 disabled={isPracticing || octave >= 6}
                 className="glass-button p-2 rounded-lg disabled:opacity-50"
               >
@@ -1033,7 +1006,7 @@ export default function ScaleTrainer({ variant = 'floating' }: ScaleTrainerProps
   return (
     <>
       {/* Trigger Button */}
-      {variant === 'floating' ? (
+      {variant === 'modal' ? null : variant === 'floating' ? (
         <button
           onClick={() => setIsOpen(true)}
           className="fixed bottom-4 right-[140px] w-12 h-12 lg:bottom-6 lg:right-40 lg:w-14 lg:h-14 bg-gradient-to-br from-pink-500 to-purple-600 rounded-full shadow-lg flex items-center justify-center text-white hover:scale-110 active:scale-95 transition-all duration-300 z-50"
@@ -1067,13 +1040,6 @@ export default function ScaleTrainer({ variant = 'floating' }: ScaleTrainerProps
           </div>
         </div>
       )}
-
-      {/* Load Aubio.js */}
-      <Script
-        src="https://cdn.jsdelivr.net/npm/aubiojs@0.1.1/build/aubio.min.js"
-        strategy="lazyOnload"
-        onLoad={() => setAubioLoaded(true)}
-      />
     </>
   )
 }
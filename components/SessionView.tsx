@@ -13,6 +13,16 @@ import * as Y from 'yjs'
 import { YjsSupabaseProvider, AwarenessUser } from '@/lib/yjs-supabase-provider'
 import { Trash2, ChevronDown, ChevronRight, Video, PlayCircle, StopCircle, Bold, Italic, List, ListOrdered, Heading1, Heading2, Quote, Undo, Redo } from 'lucide-react'
 import { SpotlightTour, SpotlightTriggerButton, SpotlightStep } from '@/components/spotlight-tour'
+import { RecordingUploader, recoverInterruptedRecordings } from '@/lib/recording-upload'
+import { LessonTranscriptPanel, fetchLessonTranscript, type LessonTranscriptData, type TranscriptSeek } from '@/components/lesson-transcript'
+import { formatTimestamp, type MomentSection } from '@/lib/lesson-transcripts'
+import { CallQualityLog } from '@/lib/call-quality'
+import { CallQualityReport } from '@/components/call-quality-report'
+import { LessonObservers } from '@/components/lesson-observers'
+import { LessonChatLog, LessonChatSearch } from '@/components/lesson-chat-history'
+import { chatMessageToNoteHtml, type LessonChatMessage } from '@/lib/lesson-chat'
+import { LessonInstrument, createInstrumentFeed, type InstrumentEvent } from '@/lib/lesson-instrument'
+import { LessonInstrumentPanel } from '@/components/lesson-instrument'
 
 const classroomTourSteps: SpotlightStep[] = [
   {
@@ -39,10 +49,12 @@ type Props = {
   studentId: string
   bookingId: string
   isAdmin?: boolean
+  /** Watch-only guest, e.g. a parent: sees the lesson room, not the notes */
+  isObserver?: boolean
   currentUser?: { id: string; name: string }
 }
 
-export default function SessionView({ studentId, bookingId, isAdmin = false, currentUser }: Props) {
+export default function SessionView({ studentId, bookingId, isAdmin = false, isObserver = false, currentUser }: Props) {
   const supabase = getSupabaseClient()
 
   // --- Core State ---
@@ -244,7 +256,7 @@ export default function SessionView({ studentId, bookingId, isAdmin = false, cur
 
   // Yjs Initialization
   useEffect(() => {
-    if (!currentUser || !studentId) return
+    if (!currentUser || !studentId || isObserver) return
 
     const doc = new Y.Doc()
     const yjsProvider = new YjsSupabaseProvider(doc, {
@@ -270,7 +282,7 @@ export default function SessionView({ studentId, bookingId, isAdmin = false, cur
       providerRef.current = null
       setProviderReady(false)
     }
-  }, [studentId, currentUser])
+  }, [studentId, currentUser, isObserver])
 
   // --- Class Actions ---
 
@@ -404,6 +416,19 @@ export default function SessionView({ studentId, bookingId, isAdmin = false, cur
     console.log('[SessionView] Class ended successfully!')
   }, [studentId, bookingId, startedAt, supabase])
 
+  // Pinning a chat message appends it to the shared notes; Yjs syncs it to the room
+  const pinChatMessage = useCallback((message: LessonChatMessage) => {
+    const editor = editorRef.current
+    if (!editor) throw new Error('Lesson notes are still connecting')
+    editor.chain().focus('end').insertContent(chatMessageToNoteHtml(message)).run()
+  }, [])
+
+  // The teacher plays the lesson instrument; everyone else follows its events
+  const instrument = useMemo(() => isAdmin ? new LessonInstrument() : null, [isAdmin])
+  const instrumentFeed = useMemo(() => createInstrumentFeed(), [])
+
+  useEffect(() => () => instrument?.close(), [instrument])
+
   return (
     <>
       <style>{`
@@ -420,6 +445,7 @@ export default function SessionView({ studentId, bookingId, isAdmin = false, cur
           active={active}
           startedAt={startedAt}
           isAdmin={isAdmin}
+          isObserver={isObserver}
           isMiniPlayer={isMiniPlayer}
           miniPosition={miniPosition}
           miniSize={miniSize}
@@ -429,42 +455,54 @@ export default function SessionView({ studentId, bookingId, isAdmin = false, cur
           onPointerDown={onPointerDown}
           onStartClass={startClass}
           onEndClass={endClass}
+          onPinChatMessage={pinChatMessage}
+          instrument={instrument}
+          onInstrumentEvent={instrumentFeed.emit}
           currentUser={currentUser}
           videoRef={videoRef}
         />
 
+        {active && (
+          <LessonInstrumentPanel bookingId={bookingId} feed={instrument ?? instrumentFeed} instrument={instrument ?? undefined} />
+        )}
+
+        {isAdmin && <LessonObservers bookingId={bookingId} />}
+
         {/* Notes Section */}
-        <section data-tour="classroom-notes" className="bg-white/5 backdrop-blur-sm rounded-xl border border-white/10 overflow-hidden">
-          {/* Collaborative editor + awareness - entirely self-contained to avoid parent re-renders */}
-          {providerReady && yDocState && providerState ? (
-            <CollaborativeEditor
-              yDoc={yDocState}
-              provider={providerState}
-              active={active}
-              currentUser={currentUser}
-              editorRef={editorRef}
-            />
-          ) : (
-            <>
-              <div className="flex items-center justify-between p-4 pb-3">
-                <h2 className="text-lg font-semibold text-white">Lesson Notes</h2>
-              </div>
-              <div className="min-h-[320px] bg-black/20 flex items-center justify-center">
-                <div className="flex items-center gap-3 text-gray-400">
-                  <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-gray-400"></div>
-                  <span className="text-sm">Connecting to collaborative session...</span>
+        {!isObserver && (
+          <section data-tour="classroom-notes" className="bg-white/5 backdrop-blur-sm rounded-xl border border-white/10 overflow-hidden">
+            {/* Collaborative editor + awareness - entirely self-contained to avoid parent re-renders */}
+            {providerReady && yDocState && providerState ? (
+              <CollaborativeEditor
+                yDoc={yDocState}
+                provider={providerState}
+                active={active}
+                currentUser={currentUser}
+                editorRef={editorRef}
+              />
+            ) : (
+              <>
+                <div className="flex items-center justify-between p-4 pb-3">
+                  <h2 className="text-lg font-semibold text-white">Lesson Notes</h2>
                 </div>
+                <div className="min-h-[320px] bg-black/20 flex items-center justify-center">
+                  <div className="flex items-center gap-3 text-gray-400">
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-gray-400"></div>
+                    <span className="text-sm">Connecting to collaborative session...</span>
+                  </div>
+                </div>
+              </>
+            )}
+            <div className="p-6 pt-4 border-t border-white/10">
+              <h3 className="font-semibold text-white mb-3">Past Classes</h3>
+              <LessonChatSearch bookingId={bookingId} />
+              <div className="space-y-2">
+                {archive.length === 0 && <p className="text-sm text-gray-500">No past classes yet.</p>}
+                {archive.map((row) => <ArchivedNoteAccordion key={row.id} id={row.id} bookingId={bookingId} title={new Date(row.class_started_at).toLocaleString()} subtitle={new Date(row.class_ended_at).toLocaleTimeString()} isAdmin={isAdmin} onDelete={() => setArchive(prev => prev.filter(x => x.id !== row.id))} />)}
               </div>
-            </>
-          )}
-          <div className="p-6 pt-4 border-t border-white/10">
-            <h3 className="font-semibold text-white mb-3">Past Classes</h3>
-            <div className="space-y-2">
-              {archive.length === 0 && <p className="text-sm text-gray-500">No past classes yet.</p>}
-              {archive.map((row) => <ArchivedNoteAccordion key={row.id} id={row.id} bookingId={bookingId} title={new Date(row.class_started_at).toLocaleString()} subtitle={new Date(row.class_ended_at).toLocaleTimeString()} isAdmin={isAdmin} onDelete={() => setArchive(prev => prev.filter(x => x.id !== row.id))} />)}
             </div>
-          </div>
-        </section>
+          </section>
+        )}
       </div>
     </>
   )
@@ -478,6 +516,7 @@ const VideoSection = React.memo(function VideoSection({
   active,
   startedAt,
   isAdmin,
+  isObserver,
   isMiniPlayer,
   miniPosition,
   miniSize,
@@ -487,6 +526,9 @@ const VideoSection = React.memo(function VideoSection({
   onPointerDown,
   onStartClass,
   onEndClass,
+  onPinChatMessage,
+  instrument,
+  onInstrumentEvent,
   currentUser,
   videoRef,
 }: {
@@ -495,6 +537,7 @@ const VideoSection = React.memo(function VideoSection({
   active: boolean
   startedAt: Date | null
   isAdmin: boolean
+  isObserver: boolean
   isMiniPlayer: boolean
   miniPosition: { bottom: number; right: number }
   miniSize: { width: number; height: number }
@@ -504,77 +547,46 @@ const VideoSection = React.memo(function VideoSection({
   onPointerDown: (event: React.PointerEvent<HTMLDivElement>, type: 'drag' | 'resize') => void
   onStartClass: () => void
   onEndClass: () => void
+  onPinChatMessage: (message: LessonChatMessage) => void
+  instrument: LessonInstrument | null
+  onInstrumentEvent: (event: InstrumentEvent) => void
   currentUser?: { id: string; name: string }
   videoRef: React.RefObject<VideoWebRTCHandle | null>
 }) {
-  // Handle recording upload
-  const handleRecordingComplete = useCallback(async (blob: Blob) => {
-    console.log('[VideoSection] handleRecordingComplete called, blob:', blob ? `${blob.size} bytes` : 'null')
-
-    if (!blob || blob.size === 0) {
-      console.error('[VideoSection] No recording data to upload - blob is empty or null')
-      return
-    }
-
-    console.log('[VideoSection] Uploading recording via direct upload, size:', blob.size, 'bookingId:', bookingId)
-
-    try {
-      const filename = `lesson-${bookingId}-${Date.now()}.webm`
-
-      // Step 1: Get presigned upload URL
-      console.log('[VideoSection] Getting presigned upload URL...')
-      const presignResponse = await fetch(`/api/lessons/${bookingId}/recordings/presign`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ filename, contentType: 'video/webm' }),
-      })
-
-      if (!presignResponse.ok) {
-        const errorText = await presignResponse.text()
-        throw new Error(`Failed to get upload URL: ${errorText}`)
-      }
-
-      const { uploadUrl, storagePath } = await presignResponse.json()
-      console.log('[VideoSection] Got presigned URL, uploading directly to storage...')
+  // The recording is uploaded in parts while class runs (lib/recording-upload),
+  // so a crashed tab or dropped connection only loses the last few seconds.
+  const recordingUploader = useMemo(() => new RecordingUploader(bookingId), [bookingId])
 
-      // Step 2: Upload directly to Supabase Storage (bypasses Vercel 4.5MB limit)
-      const uploadResponse = await fetch(uploadUrl, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'video/webm' },
-        body: blob,
-      })
-
-      if (!uploadResponse.ok) {
-        const errorText = await uploadResponse.text()
-        throw new Error(`Direct upload failed: ${errorText}`)
-      }
+  useEffect(() => {
+    recordingUploader.setClassStartedAt(startedAt)
+  }, [recordingUploader, startedAt])
 
-      console.log('[VideoSection] Direct upload complete, registering recording...')
+  // Each side logs its own connection stats for the teacher's quality report
+  const qualityLog = useMemo(() => new CallQualityLog(bookingId), [bookingId])
 
-      // Step 3: Register the recording and trigger AI processing
-      const completeResponse = await fetch(`/api/lessons/${bookingId}/recordings/complete`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          storagePath,
-          fileSize: blob.size,
-          roomName: `lesson-${bookingId}`,
-          classStartedAt: startedAt?.toISOString(),
-        }),
-      })
+  useEffect(() => {
+    qualityLog.setClassStartedAt(startedAt)
+  }, [qualityLog, startedAt])
 
-      if (!completeResponse.ok) {
-        const errorText = await completeResponse.text()
-        throw new Error(`Failed to register recording: ${errorText}`)
-      }
+  useEffect(() => () => qualityLog.dispose(), [qualityLog])
 
-      const result = await completeResponse.json()
-      console.log('[VideoSection] Recording uploaded and registered successfully:', result)
-    } catch (err) {
-      console.error('[VideoSection] Error uploading recording:', err)
-      alert(`Recording upload failed: ${err instanceof Error ? err.message : 'Unknown error'}`)
+  // Finish recordings an earlier visit left incomplete, now and whenever the
+  // browser comes back online
+  useEffect(() => {
+    if (!isAdmin) return
+
+    const recover = () => {
+      recoverInterruptedRecordings(bookingId, recordingUploader.currentSessionId)
+        .then(count => {
+          if (count > 0) console.log(`[VideoSection] Recovered ${count} interrupted recording(s)`)
+        })
+        .catch(err => console.warn('[VideoSection] Recording recovery failed:', err))
     }
-  }, [bookingId, startedAt])
+
+    recover()
+    window.addEventListener('online', recover)
+    return () => window.removeEventListener('online', recover)
+  }, [bookingId, isAdmin, recordingUploader])
 
   // Track if we're in browser for portal rendering
   const [isBrowser, setIsBrowser] = useState(false)
@@ -582,6 +594,8 @@ const VideoSection = React.memo(function VideoSection({
   const [wrapperRect, setWrapperRect] = useState<DOMRect | null>(null)
 
   useEffect(() => {
+    // Mount flag for the portal; it has to flip after hydration
+    // eslint-disable-next-line react-hooks/set-state-in-effect
     setIsBrowser(true)
   }, [])
 
@@ -648,11 +662,20 @@ const VideoSection = React.memo(function VideoSection({
         participantId={currentUser?.id || studentId}
         participantName={currentUser?.name || 'Participant'}
         isHost={isAdmin}
+        role={isAdmin ? 'host' : isObserver ? 'observer' : 'student'}
         canJoin={active}
         autoRecord={isAdmin && active}
         className="block w-full h-full"
         isMiniPlayer={isMiniPlayer}
-        onRecordingComplete={handleRecordingComplete}
+        recordingSink={recordingUploader}
+        onQualitySample={isObserver ? undefined : qualityLog.record}
+        turnCredentialsUrl={`/api/lessons/${bookingId}/turn-credentials`}
+        roomCertificateUrl={`/api/lessons/${bookingId}/room-certificate`}
+        onEndClass={onEndClass}
+        chatUrl={`/api/lessons/${bookingId}/chat`}
+        onPinChatMessage={isObserver ? undefined : onPinChatMessage}
+        instrument={instrument ?? undefined}
+        onInstrumentEvent={isAdmin ? undefined : onInstrumentEvent}
       />
       {/* Mini-player controls overlay */}
       {isMiniPlayer && (
@@ -696,6 +719,8 @@ const VideoSection = React.memo(function VideoSection({
             <button onClick={onEndClass} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-red-600 hover:bg-red-700 text-white font-medium transition-colors"><StopCircle className="w-5 h-5" />End Class</button>
           )}
         </div>
+      ) : isObserver ? (
+        <p className="p-4 text-sm text-gray-400 border-t border-white/10">{active ? 'Class in session. You are watching as an observer.' : 'Class not in session yet. The room opens when the teacher starts class.'}</p>
       ) : (<p className="p-4 text-sm text-gray-400 border-t border-white/10">{active ? 'Class in session.' : 'Class not in session yet. You can view past notes below.'}</p>)}
     </section>
   )
@@ -832,11 +857,14 @@ function ArchivedNoteAccordion({ id, bookingId, title, subtitle, isAdmin, onDele
   const [editing, setEditing] = useState(false)
   const [saving, setSaving] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle')
   const [loaded, setLoaded] = useState(false)
-  const [activeTab, setActiveTab] = useState<'notes' | 'ai'>('notes')
+  const [activeTab, setActiveTab] = useState<'notes' | 'ai' | 'transcript' | 'chat' | 'quality'>('notes')
+  const [classStartedAt, setClassStartedAt] = useState<string | null>(null)
   const [aiSummary, setAiSummary] = useState<AISummary | null>(null)
   const [aiStatus, setAiStatus] = useState<string | null>(null)
   const [recordingId, setRecordingId] = useState<string | null>(null)
   const [reprocessing, setReprocessing] = useState(false)
+  const [transcript, setTranscript] = useState<LessonTranscriptData | null>(null)
+  const [transcriptSeek, setTranscriptSeek] = useState<TranscriptSeek | null>(null)
 
   const refreshAiStatus = useCallback(async (targetRecordingId: string) => {
     try {
@@ -858,6 +886,7 @@ function ArchivedNoteAccordion({ id, bookingId, title, subtitle, isAdmin, onDele
 
     setReprocessing(true)
     setAiStatus('processing')
+    setTranscript(null)
     try {
       const res = await fetch(`/api/lessons/${bookingId}/process-recording`, {
         method: 'POST',
@@ -896,13 +925,14 @@ function ArchivedNoteAccordion({ id, bookingId, title, subtitle, isAdmin, onDele
       setContentHtml(html)
       setText(plain)
       setOriginal(plain)
+      if (data?.recording_id) setRecordingId(data.recording_id)
+      if (data?.class_started_at) setClassStartedAt(data.class_started_at)
 
       // Set AI summary if available
       if (data?.ai_summary) {
         setAiSummary(data.ai_summary as AISummary)
         setAiStatus('completed')
       } else if (data?.recording_id) {
-        setRecordingId(data.recording_id)
         // Check recording AI processing status via API to avoid RLS issues
         try {
           const res = await fetch(`/api/lessons/${bookingId}/process-recording?recordingId=${data.recording_id}`)
@@ -984,6 +1014,32 @@ function ArchivedNoteAccordion({ id, bookingId, title, subtitle, isAdmin, onDele
     return () => window.clearInterval(intervalId)
   }, [isOpen, activeTab, recordingId, aiStatus, refreshAiStatus])
 
+  // The transcript also carries the summary's deep links, so load it for the AI tab too
+  useEffect(() => {
+    if (!isOpen || !recordingId || transcript) return
+    if (activeTab === 'notes' || activeTab === 'chat' || activeTab === 'quality' || (activeTab === 'ai' && aiStatus !== 'completed')) return
+    let on = true
+
+    fetchLessonTranscript(bookingId, recordingId)
+      .then(data => { if (on) setTranscript(data) })
+      .catch(err => console.warn('[ArchivedNoteAccordion] Failed to load transcript:', err))
+    return () => { on = false }
+  }, [isOpen, activeTab, recordingId, aiStatus, transcript, bookingId])
+
+  const momentLink = (section: MomentSection, index: number) => {
+    const moment = transcript?.moments.find(m => m.section === section && m.index === index)
+    if (!moment) return null
+    return (
+      <button
+        onClick={() => { setTranscriptSeek({ time: moment.start, nonce: Date.now() }); setActiveTab('transcript') }}
+        className="ml-1.5 px-1.5 py-0.5 rounded bg-[#CEB466]/15 hover:bg-[#CEB466]/25 text-[#CEB466] text-[10px] tabular-nums align-middle"
+        title="Play this moment"
+      >
+        {formatTimestamp(moment.start)}
+      </button>
+    )
+  }
+
   const onSave = async () => {
     setSaving('saving')
     const { error } = await supabase.from('notes_archive').update({ content: text }).eq('id', id)
@@ -1028,6 +1084,28 @@ function ArchivedNoteAccordion({ id, bookingId, title, subtitle, isAdmin, onDele
             >
               AI Summary {aiStatus === 'processing' && '(Processing...)'}
             </button>
+            {recordingId && (
+              <button
+                onClick={() => setActiveTab('transcript')}
+                className={`flex-1 px-4 py-2 text-sm font-medium transition-colors ${activeTab === 'transcript' ? 'text-[#CEB466] border-b-2 border-[#CEB466]' : 'text-gray-400 hover:text-white'}`}
+              >
+                Transcript
+              </button>
+            )}
+            <button
+              onClick={() => setActiveTab('chat')}
+              className={`flex-1 px-4 py-2 text-sm font-medium transition-colors ${activeTab === 'chat' ? 'text-[#CEB466] border-b-2 border-[#CEB466]' : 'text-gray-400 hover:text-white'}`}
+            >
+              Chat
+            </button>
+            {isAdmin && classStartedAt && (
+              <button
+                onClick={() => setActiveTab('quality')}
+                className={`flex-1 px-4 py-2 text-sm font-medium transition-colors ${activeTab === 'quality' ? 'text-[#CEB466] border-b-2 border-[#CEB466]' : 'text-gray-400 hover:text-white'}`}
+              >
+                Call Quality
+              </button>
+            )}
           </div>
 
           <div className="p-3">
@@ -1055,6 +1133,22 @@ function ArchivedNoteAccordion({ id, bookingId, title, subtitle, isAdmin, onDele
                   </div>
                 </>
               )
+            ) : activeTab === 'chat' ? (
+              /* Chat Tab */
+              <LessonChatLog bookingId={bookingId} archiveId={id} />
+            ) : activeTab === 'quality' && classStartedAt ? (
+              /* Call Quality Tab */
+              <CallQualityReport bookingId={bookingId} classStartedAt={classStartedAt} />
+            ) : activeTab === 'transcript' ? (
+              /* Transcript Tab */
+              transcript ? (
+                <LessonTranscriptPanel data={transcript} seek={transcriptSeek} />
+              ) : (
+                <div className="flex items-center gap-2 text-gray-400">
+                  <div className="w-4 h-4 border-2 border-[#CEB466] border-t-transparent rounded-full animate-spin" />
+                  <span className="text-sm">Loading transcript...</span>
+                </div>
+              )
             ) : (
               /* AI Summary Tab */
               <div className="space-y-4">
@@ -1136,7 +1230,7 @@ function ArchivedNoteAccordion({ id, bookingId, title, subtitle, isAdmin, onDele
                       <div>
                         <h4 className="text-xs font-semibold text-[#CEB466] uppercase tracking-wide mb-1">Key Topics</h4>
                         <ul className="list-disc list-inside text-sm text-gray-300 space-y-0.5">
-                          {aiSummary.keyTopicsCovered.map((topic, i) => <li key={i}>{topic}</li>)}
+                          {aiSummary.keyTopicsCovered.map((topic, i) => <li key={i}>{topic}{momentLink('keyTopicsCovered', i)}</li>)}
                         </ul>
                       </div>
                     )}
@@ -1145,7 +1239,7 @@ function ArchivedNoteAccordion({ id, bookingId, title, subtitle, isAdmin, onDele
                       <div>
                         <h4 className="text-xs font-semibold text-[#CEB466] uppercase tracking-wide mb-1">Exercises Practiced</h4>
                         <ul className="list-disc list-inside text-sm text-gray-300 space-y-0.5">
-                          {aiSummary.exercisesPracticed.map((ex, i) => <li key={i}>{ex}</li>)}
+                          {aiSummary.exercisesPracticed.map((ex, i) => <li key={i}>{ex}{momentLink('exercisesPracticed', i)}</li>)}
                         </ul>
                       </div>
                     )}
@@ -1154,7 +1248,7 @@ function ArchivedNoteAccordion({ id, bookingId, title, subtitle, isAdmin, onDele
                       <div>
                         <h4 className="text-xs font-semibold text-[#CEB466] uppercase tracking-wide mb-1">Teacher Feedback</h4>
                         <ul className="list-disc list-inside text-sm text-gray-300 space-y-0.5">
-                          {aiSummary.teacherFeedback.map((fb, i) => <li key={i}>{fb}</li>)}
+                          {aiSummary.teacherFeedback.map((fb, i) => <li key={i}>{fb}{momentLink('teacherFeedback', i)}</li>)}
                         </ul>
                       </div>
                     )}
@@ -1163,7 +1257,7 @@ function ArchivedNoteAccordion({ id, bookingId, title, subtitle, isAdmin, onDele
                       <div>
                         <h4 className="text-xs font-semibold text-[#CEB466] uppercase tracking-wide mb-1">Homework</h4>
                         <ul className="list-disc list-inside text-sm text-gray-300 space-y-0.5">
-                          {aiSummary.homeworkAssignments.map((hw, i) => <li key={i}>{hw}</li>)}
+                          {aiSummary.homeworkAssignments.map((hw, i) => <li key={i}>{hw}{momentLink('homeworkAssignments', i)}</li>)}
                         </ul>
                       </div>
                     )}
@@ -0,0 +1,655 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
+import { FileMusic, Play, Square, RotateCcw, Save, Mic, X, Loader2 } from 'lucide-react'
+import { PitchDetector, getStandardFrequency } from '@/lib/pitch-detection'
+import {
+  MAX_MELODY_TEMPO,
+  MIN_MELODY_TEMPO,
+  SIGHT_SINGING_LIBRARY,
+  noteLabel,
+  scoreSungNote,
+  summarizePhrases,
+  summarizeSightSinging,
+  type Melody,
+  type PhraseResult,
+  type SungNoteResult,
+  type SungReading,
+} from '@/lib/sight-singing'
+
+// Note lane geometry
+const PX_PER_BEAT = 60
+const PLAYHEAD_X = 80
+const LANE_PADDING_SEMITONES = 2
+
+interface SightSingingTrainerProps {
+  /** 'modal' renders no trigger and opens immediately */
+  variant?: 'floating' | 'card' | 'modal'
+  /** Called when a 'modal' trainer is closed */
+  onClose?: () => void
+}
+
+interface AssignedPiece {
+  id: string
+  title: string
+  tempo_bpm: number
+  note_count: number
+  melody: Melody
+}
+
+type Phase = 'idle' | 'count-in' | 'singing' | 'done'
+
+function scoreColor(score: number) {
+  return score >= 80 ? 'text-green-400' : score >= 50 ? 'text-yellow-400' : 'text-red-400'
+}
+
+export default function SightSingingTrainer({ variant = 'floating', onClose }: SightSingingTrainerProps) {
+  const [isOpen, setIsOpen] = useState(variant === 'modal')
+
+  // Settings
+  const [pieces, setPieces] = useState<AssignedPiece[]>([])
+  const [piecesLoaded, setPiecesLoaded] = useState(false)
+  const [selection, setSelection] = useState(`library:${SIGHT_SINGING_LIBRARY[0].id}`)
+  const [tempo, setTempo] = useState(SIGHT_SINGING_LIBRARY[0].melody.tempoBpm)
+  const [sensitivity, setSensitivity] = useState<number>(50)
+  const [volume, setVolume] = useState<number>(0.7)
+
+  // Run state
+  const [phase, setPhase] = useState<Phase>('idle')
+  const [countIn, setCountIn] = useState(0)
+  const [results, setResults] = useState<SungNoteResult[]>([])
+  const [liveNote, setLiveNote] = useState<string | null>(null)
+  const [startedAt, setStartedAt] = useState<Date | null>(null)
+
+  // Audio state
+  const [hasPermission, setHasPermission] = useState<boolean | null>(null)
+  const [isListening, setIsListening] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveMessage, setSaveMessage] = useState<string | null>(null)
+
+  const melody = useMemo<Melody>(() => {
+    const [kind, id] = selection.split(':')
+    if (kind === 'piece') {
+      const piece = pieces.find(p => p.id === id)
+      if (piece) return piece.melody
+    }
+    return (SIGHT_SINGING_LIBRARY.find(e => e.id === id) ?? SIGHT_SINGING_LIBRARY[0]).melody
+  }, [selection, pieces])
+
+  const laneRange = useMemo(() => {
+    const midis = melody.notes.map(n => n.midi)
+    const high = Math.max(...midis) + LANE_PADDING_SEMITONES
+    const low = Math.min(...midis) - LANE_PADDING_SEMITONES
+    return { high, span: high - low + 1 }
+  }, [melody])
+
+  const detector = useMemo(() => new PitchDetector(), [])
+  const mediaStreamRef = useRef<MediaStream | null>(null)
+
+  // Transport: readings are timed in ms from beat 0 on the performance clock
+  const audioContextRef = useRef<AudioContext | null>(null)
+  const oscillatorsRef = useRef<OscillatorNode[]>([])
+  const rafRef = useRef<number | null>(null)
+  const zeroTimeRef = useRef(0)
+  const readingsRef = useRef<SungReading[]>([])
+  const phaseRef = useRef<Phase>('idle')
+  const laneRef = useRef<HTMLDivElement | null>(null)
+  const dotRef = useRef<HTMLDivElement | null>(null)
+  const targetMidiRef = useRef<number | null>(null)
+
+  useEffect(() => {
+    detector.setSensitivity(sensitivity)
+  }, [detector, sensitivity])
+
+  // Sung pitch: stored for scoring, and drawn as a dot at the playhead, moved
+  // into the octave of the note being sung so any voice lines up with the lane
+  useEffect(() => detector.subscribe(note => {
+    if (phaseRef.current !== 'count-in' && phaseRef.current !== 'singing') return
+    readingsRef.current.push({ t: performance.now() - zeroTimeRef.current, frequency: note.frequency })
+    setLiveNote(`${note.nameAscii}${note.octave}`)
+
+    const dot = dotRef.current
+    const target = targetMidiRef.current
+    if (!dot || target === null) return
+    let sung = 69 + 12 * Math.log2(note.frequency / 440)
+    while (sung - target > 6) sung -= 12
+    while (target - sung > 6) sung += 12
+    dot.style.top = `${((laneRange.high - sung + 0.5) / laneRange.span) * 100}%`
+    dot.style.opacity = '1'
+  }), [detector, laneRange])
+
+  // Pieces the student's teachers have assigned
+  useEffect(() => {
+    if (!isOpen || piecesLoaded) return
+    let on = true
+    fetch('/api/students/sight-singing')
+      .then(async res => {
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || 'Failed to load assigned pieces')
+        if (on) setPieces(data.pieces || [])
+      })
+      .catch(err => console.warn('[SightSingingTrainer] Failed to load pieces:', err))
+      .finally(() => { if (on) setPiecesLoaded(true) })
+    return () => { on = false }
+  }, [isOpen, piecesLoaded])
+
+  const stopTransport = useCallback(() => {
+    if (rafRef.current !== null) {
+      cancelAnimationFrame(rafRef.current)
+      rafRef.current = null
+    }
+    oscillatorsRef.current.forEach(oscillator => {
+      try {
+        oscillator.stop()
+        oscillator.disconnect()
+      } catch {
+        // Already stopped
+      }
+    })
+    oscillatorsRef.current = []
+  }, [])
+
+  const initMicrophone = useCallback(async () => {
+    if (detector.isRunning) return true
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+      mediaStreamRef.current = stream
+      setHasPermission(true)
+      await detector.start(stream)
+      setIsListening(true)
+      return true
+    } catch (err) {
+      console.error('Error initializing audio:', err)
+      setHasPermission(false)
+      return false
+    }
+  }, [detector])
+
+  const releaseMicrophone = useCallback(() => {
+    detector.stop()
+    mediaStreamRef.current?.getTracks().forEach(track => track.stop())
+    mediaStreamRef.current = null
+    setIsListening(false)
+  }, [detector])
+
+  const setRunPhase = (next: Phase) => {
+    phaseRef.current = next
+    setPhase(next)
+  }
+
+  const selectMelody = (value: string) => {
+    setSelection(value)
+    const [kind, id] = value.split(':')
+    const next = kind === 'piece'
+      ? pieces.find(p => p.id === id)?.melody
+      : SIGHT_SINGING_LIBRARY.find(e => e.id === id)?.melody
+    if (next) setTempo(next.tempoBpm)
+    setRunPhase('idle')
+    setResults([])
+    setSaveMessage(null)
+  }
+
+  // One bar of clicks (accent on the downbeat) with the starting note sounded
+  // on the first, then the lane scrolls and each note is scored once its
+  // time has passed.
+  const start = async () => {
+    if (!(await initMicrophone())) return
+
+    stopTransport()
+    if (!audioContextRef.current) {
+      audioContextRef.current = new AudioContext()
+    }
+    const ctx = audioContextRef.current
+    await ctx.resume()
+
+    const msPerBeat = 60000 / tempo
+    const countInBeats = Math.ceil(melody.beatsPerBar)
+    const firstClick = ctx.currentTime + 0.1
+    const zeroAudio = firstClick + (countInBeats * msPerBeat) / 1000
+    zeroTimeRef.current = performance.now() + (zeroAudio - ctx.currentTime) * 1000
+
+    const tone = (frequency: number, at: number, seconds: number, peak: number) => {
+      const oscillator = ctx.createOscillator()
+      const gainNode = ctx.createGain()
+      oscillator.type = 'sine'
+      oscillator.frequency.setValueAtTime(frequency, at)
+      gainNode.gain.setValueAtTime(0, at)
+      gainNode.gain.linearRampToValueAtTime(peak, at + 0.005)
+      gainNode.gain.exponentialRampToValueAtTime(0.001, at + seconds)
+      oscillator.connect(gainNode)
+      gainNode.connect(ctx.destination)
+      oscillator.start(at)
+      oscillator.stop(at + seconds)
+      oscillatorsRef.current.push(oscillator)
+    }
+    for (let beat = 0; beat < countInBeats; beat++) {
+      tone(beat === 0 ? 1500 : 1000, firstClick + (beat * msPerBeat) / 1000, 0.05, volume * 0.5)
+    }
+    tone(getStandardFrequency(melody.notes[0].midi), firstClick, msPerBeat / 1000, volume * 0.3)
+
+    readingsRef.current = []
+    targetMidiRef.current = melody.notes[0].midi
+    if (dotRef.current) dotRef.current.style.opacity = '0'
+    setResults([])
+    setLiveNote(null)
+    setSaveMessage(null)
+    setStartedAt(new Date())
+    setCountIn(countInBeats)
+    setRunPhase('count-in')
+
+    const lastEnd = melody.notes[melody.notes.length - 1]
+    const endMs = (lastEnd.start + lastEnd.duration) * msPerBeat
+    let scored = 0
+    let shownCount = countInBeats
+
+    const frame = () => {
+      const t = performance.now() - zeroTimeRef.current
+      const beat = t / msPerBeat
+
+      if (laneRef.current) laneRef.current.style.transform = `translateX(${-beat * PX_PER_BEAT}px)`
+
+      if (t < 0) {
+        const remaining = Math.ceil(-beat)
+        if (remaining !== shownCount) {
+          shownCount = remaining
+          setCountIn(remaining)
+        }
+      } else if (phaseRef.current === 'count-in') {
+        setRunPhase('singing')
+      }
+
+      const current = melody.notes.find(n => n.start + n.duration > beat)
+      if (current) targetMidiRef.current = current.midi
+
+      const newlyScored: SungNoteResult[] = []
+      while (scored < melody.notes.length) {
+        const note = melody.notes[scored]
+        if (t < (note.start + note.duration) * msPerBeat) break
+        newlyScored.push(scoreSungNote(note, readingsRef.current, msPerBeat))
+        scored++
+      }
+      if (newlyScored.length > 0) setResults(prev => [...prev, ...newlyScored])
+
+      if (t >= endMs) {
+        rafRef.current = null
+        setRunPhase('done')
+        return
+      }
+      rafRef.current = requestAnimationFrame(frame)
+    }
+    rafRef.current = requestAnimationFrame(frame)
+  }
+
+  const reset = () => {
+    stopTransport()
+    setRunPhase('idle')
+    setResults([])
+    setLiveNote(null)
+    setStartedAt(null)
+    if (laneRef.current) laneRef.current.style.transform = 'translateX(0px)'
+    if (dotRef.current) dotRef.current.style.opacity = '0'
+  }
+
+  const phraseResults: PhraseResult[] = useMemo(
+    () => (phase === 'done' ? summarizePhrases(melody, results) : []),
+    [phase, melody, results]
+  )
+  const summary = phraseResults.length > 0 ? summarizeSightSinging(phraseResults) : null
+
+  const saveSession = async () => {
+    if (!startedAt || phraseResults.length === 0) return
+
+    setIsSaving(true)
+    setSaveMessage(null)
+
+    try {
+      const endedAt = new Date()
+      const [kind, id] = selection.split(':')
+      const response = await fetch('/api/pitch-training/sight-singing-session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          startedAt: startedAt.toISOString(),
+          endedAt: endedAt.toISOString(),
+          durationSeconds: Math.round((endedAt.getTime() - startedAt.getTime()) / 1000),
+          pieceId: kind === 'piece' ? id : null,
+          libraryId: kind === 'library' ? id : null,
+          tempoBpm: tempo,
+          phraseResults,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save session')
+      }
+
+      reset()
+      setSaveMessage(`Session saved! ${data.notesHit}/${data.totalNotes} notes, score ${Math.round(data.overallScore)}%`)
+    } catch (err) {
+      console.error('Error saving session:', err)
+      setSaveMessage('Failed to save session')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // Cleanup
+  useEffect(() => {
+    return () => {
+      stopTransport()
+      releaseMicrophone()
+      audioContextRef.current?.close()
+    }
+  }, [stopTransport, releaseMicrophone])
+
+  const handleClose = () => {
+    reset()
+    releaseMicrophone()
+    setSaveMessage(null)
+    setIsOpen(false)
+    if (variant === 'modal') onClose?.()
+  }
+
+  const running = phase === 'count-in' || phase === 'singing'
+  const notesHit = results.filter(r => r.hit).length
+  const totalBeats = Math.max(...melody.notes.map(n => n.start + n.duration))
+  const phraseStarts = new Set(melody.phrases)
+
+  const renderTrainer = () => (
+    <div>
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-emerald-500/20 to-teal-500/20 flex items-center justify-center">
+            <FileMusic className="w-5 h-5 text-emerald-400" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-white">Sight-Singing</h2>
+            <p className="text-sm text-white/50">Sing the melody as it scrolls past</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {isListening && (
+            <div className="flex items-center gap-2 text-sm text-green-400 mr-2">
+              <Mic size={16} />
+              <span>{liveNote ?? 'Listening'}</span>
+            </div>
+          )}
+          <button
+            onClick={handleClose}
+            className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+          >
+            <X size={18} className="text-white/70" />
+          </button>
+        </div>
+      </div>
+
+      {/* Settings */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <div>
+          <label className="block text-xs text-white/50 mb-1">Melody</label>
+          <select
+            value={selection}
+            onChange={(e) => selectMelody(e.target.value)}
+            disabled={running}
+            className="glass-select w-full text-sm"
+          >
+            {pieces.length > 0 && (
+              <optgroup label="From your teacher">
+                {pieces.map(piece => (
+                  <option key={piece.id} value={`piece:${piece.id}`}>{piece.title}</option>
+                ))}
+              </optgroup>
+            )}
+            <optgroup label="Exercise library">
+              {SIGHT_SINGING_LIBRARY.map(exercise => (
+                <option key={exercise.id} value={`library:${exercise.id}`}>
+                  {exercise.melody.title} ({exercise.level})
+                </option>
+              ))}
+            </optgroup>
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-xs text-white/50 mb-1">
+            Tempo: {tempo} BPM
+            {tempo !== melody.tempoBpm && (
+              <button
+                onClick={() => setTempo(melody.tempoBpm)}
+                disabled={running}
+                className="ml-2 text-emerald-400 hover:text-emerald-300"
+              >
+                (reset to {melody.tempoBpm})
+              </button>
+            )}
+          </label>
+          <input
+            type="range"
+            min={MIN_MELODY_TEMPO}
+            max={MAX_MELODY_TEMPO}
+            step={2}
+            value={tempo}
+            onChange={(e) => setTempo(Number(e.target.value))}
+            disabled={running}
+            className="w-full accent-emerald-500 mt-2"
+          />
+        </div>
+      </div>
+
+      {/* Volume and sensitivity */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <div>
+          <label className="block text-xs text-white/50 mb-2">Count-in Volume: {Math.round(volume * 100)}%</label>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            value={Math.round(volume * 100)}
+            onChange={(e) => setVolume(Number(e.target.value) / 100)}
+            className="w-full accent-emerald-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-white/50 mb-2">Mic Sensitivity: {sensitivity}%</label>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            value={sensitivity}
+            onChange={(e) => setSensitivity(Number(e.target.value))}
+            className="w-full accent-emerald-500"
+          />
+        </div>
+      </div>
+
+      {hasPermission === false && (
+        <div className="mb-4 p-3 rounded-xl bg-red-500/10 text-red-400 text-sm">
+          Microphone access was denied. Allow it in your browser to sing along.
+        </div>
+      )}
+
+      {/* Note lane */}
+      <div className="relative h-48 mb-4 rounded-xl bg-white/5 border border-white/10 overflow-hidden">
+        <div ref={laneRef} className="absolute inset-y-0" style={{ left: PLAYHEAD_X, width: totalBeats * PX_PER_BEAT }}>
+          {Array.from({ length: Math.ceil(totalBeats / melody.beatsPerBar) + 1 }, (_, bar) => (
+            <div
+              key={bar}
+              className="absolute inset-y-0 border-l border-white/5"
+              style={{ left: bar * melody.beatsPerBar * PX_PER_BEAT }}
+            />
+          ))}
+          {melody.notes.map((note, i) => {
+            const result = results[i]
+            return (
+              <div
+                key={i}
+                className={`absolute rounded-md text-[10px] leading-none flex items-center px-1 overflow-hidden ${
+                  !result
+                    ? 'bg-white/20 text-white/70'
+                    : result.hit
+                      ? 'bg-green-500/40 text-green-100'
+                      : 'bg-red-500/40 text-red-100'
+                } ${phraseStarts.has(i) && i > 0 ? 'border-l-2 border-emerald-300/70' : ''}`}
+                style={{
+                  left: note.start * PX_PER_BEAT,
+                  width: Math.max(4, note.duration * PX_PER_BEAT - 2),
+                  top: `${((laneRange.high - note.midi) / laneRange.span) * 100}%`,
+                  height: `${100 / laneRange.span}%`,
+                }}
+              >
+                {note.duration * PX_PER_BEAT >= 28 && noteLabel(note.midi)}
+              </div>
+            )
+          })}
+        </div>
+
+        {/* Playhead and sung pitch */}
+        <div className="absolute inset-y-0 w-px bg-emerald-400/80" style={{ left: PLAYHEAD_X }} />
+        <div
+          ref={dotRef}
+          className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full bg-emerald-300 shadow-[0_0_8px_rgba(110,231,183,0.8)] opacity-0 transition-[top] duration-75"
+          style={{ left: PLAYHEAD_X }}
+        />
+
+        {phase === 'count-in' && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/30">
+            <span className="text-5xl font-bold text-white">{countIn}</span>
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-white/40 mb-6">
+        {melody.notes.length} notes in {melody.phrases.length} phrase{melody.phrases.length === 1 ? '' : 's'}.
+        The count-in is one bar, with your starting note on the first click. Sing in any octave.
+      </p>
+
+      {/* Live stats */}
+      {phase === 'singing' && (
+        <div className="mb-6 text-center text-sm text-white/70">
+          <span className="text-2xl font-bold text-white">{notesHit}</span>
+          <span className="text-white/50"> / {results.length} notes hit so far</span>
+        </div>
+      )}
+
+      {/* Results */}
+      {summary && (
+        <div className="mb-6 space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="text-center p-3 rounded-xl bg-white/5">
+              <div className="text-2xl font-bold text-white">{summary.notesHit}/{summary.totalNotes}</div>
+              <div className="text-xs text-white/50">Notes Hit</div>
+            </div>
+            <div className="text-center p-3 rounded-xl bg-white/5">
+              <div className="text-2xl font-bold text-emerald-400">{Math.round(summary.pitchAccuracy)}%</div>
+              <div className="text-xs text-white/50">Pitch</div>
+            </div>
+            <div className="text-center p-3 rounded-xl bg-white/5">
+              <div className="text-2xl font-bold text-teal-300">{Math.round(summary.timingAccuracy)}%</div>
+              <div className="text-xs text-white/50">Timing</div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {phraseResults.map(p => (
+              <div key={p.phrase} className="flex items-center gap-3 p-2 rounded-lg bg-white/5 text-sm">
+                <span className="w-20 text-white/70">Phrase {p.phrase + 1}</span>
+                <span className="w-16 text-white/50 text-xs">{p.notesHit}/{p.totalNotes} hit</span>
+                <div className="flex-1 h-2 rounded-full bg-white/10 overflow-hidden">
+                  <div className="h-full bg-gradient-to-r from-emerald-500 to-teal-400" style={{ width: `${p.score}%` }} />
+                </div>
+                <span className="w-28 text-xs text-white/50 text-right">
+                  pitch {Math.round(p.pitchAccuracy)}% · time {Math.round(p.timingAccuracy)}%
+                </span>
+                <span className={`w-10 text-right font-mono ${scoreColor(p.score)}`}>{Math.round(p.score)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-3">
+        {running ? (
+          <button
+            onClick={reset}
+            className="flex items-center gap-2 px-6 py-3 rounded-xl bg-red-500/80 text-white font-medium hover:bg-red-500 transition-all"
+          >
+            <Square size={18} />
+            <span>Stop</span>
+          </button>
+        ) : (
+          <button
+            onClick={start}
+            disabled={!piecesLoaded}
+            className="flex items-center gap-2 px-6 py-3 rounded-xl bg-gradient-to-r from-emerald-500 to-teal-500 text-white font-medium hover:from-emerald-400 hover:to-teal-400 transition-all shadow-lg shadow-teal-500/20 disabled:opacity-50"
+          >
+            {piecesLoaded ? (phase === 'done' ? <RotateCcw size={18} /> : <Play size={18} />) : <Loader2 size={18} className="animate-spin" />}
+            <span>{phase === 'done' ? 'Try Again' : 'Start'}</span>
+          </button>
+        )}
+
+        {summary && (
+          <button
+            onClick={saveSession}
+            disabled={isSaving}
+            className="glass-button-gold flex items-center gap-2 px-6 py-3 rounded-xl disabled:opacity-50"
+          >
+            <Save size={18} />
+            <span>{isSaving ? 'Saving...' : 'Save Result'}</span>
+          </button>
+        )}
+      </div>
+
+      {/* Messages */}
+      {saveMessage && (
+        <div className={`mt-4 p-3 rounded-xl text-sm ${saveMessage.includes('Failed') ? 'bg-red-500/10 text-red-400' : 'bg-green-500/10 text-green-400'}`}>
+          {saveMessage}
+        </div>
+      )}
+    </div>
+  )
+
+  return (
+    <>
+      {/* Trigger Button */}
+      {variant === 'modal' ? null : variant === 'floating' ? (
+        <button
+          onClick={() => setIsOpen(true)}
+          className="fixed bottom-4 right-[264px] w-12 h-12 lg:bottom-6 lg:right-72 lg:w-14 lg:h-14 bg-gradient-to-br from-emerald-500 to-teal-600 rounded-full shadow-lg flex items-center justify-center text-white hover:scale-110 active:scale-95 transition-all duration-300 z-50"
+          style={{ boxShadow: '0 8px 24px rgba(16, 185, 129, 0.4)' }}
+          title="Sight-Singing"
+        >
+          <FileMusic className="w-5 h-5 lg:w-6 lg:h-6" />
+        </button>
+      ) : (
+        <button
+          onClick={() => setIsOpen(true)}
+          className="flex items-center gap-4 px-6 py-5 bg-gradient-to-br from-emerald-500 to-teal-600 hover:from-emerald-400 hover:to-teal-500 text-white rounded-2xl transition-all duration-300 w-full group border border-white/10"
+          style={{ boxShadow: '0 8px 32px rgba(16, 185, 129, 0.3), inset 0 1px 0 rgba(255,255,255,0.1)' }}
+        >
+          <div className="w-12 h-12 rounded-xl bg-white/20 flex items-center justify-center group-hover:scale-110 transition-transform duration-300">
+            <FileMusic className="w-6 h-6" />
+          </div>
+          <div className="text-left flex-1">
+            <p className="font-semibold text-lg">Sight-Singing</p>
+            <p className="text-sm text-white/70">Read & sing melodies</p>
+          </div>
+        </button>
+      )}
+
+      {/* Modal */}
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={handleClose} />
+          <div className="relative glass-card p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-2xl">
+            {renderTrainer()}
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -1,10 +1,21 @@
 'use client'
 
-import { useState, useEffect, useRef, useCallback } from 'react'
-import { Music, X, Maximize2, Minimize2, Mic, MicOff, Search, Loader2, TrendingUp, Save, Music2, ChevronRight, Volume2, Zap, RefreshCw, Check, AlertCircle } from 'lucide-react'
-import Script from 'next/script'
-import { analyzeBuffer } from '@/lib/pitch-detection'
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
+import { Music, X, Maximize2, Minimize2, Mic, MicOff, Search, Loader2, TrendingUp, Save, Music2, ChevronRight, Volume2, Zap, RefreshCw, Check, AlertCircle, Minus, Plus } from 'lucide-react'
+import { PitchDetector } from '@/lib/pitch-detection'
 import { SpotlightTour, SpotlightTriggerButton, SpotlightStep } from '@/components/spotlight-tour'
+import type { SongAssignmentSettings } from '@/lib/practice-assignments'
+import { midiName } from '@/lib/lesson-instrument'
+import { pitchClassOf, rangeLabel, tonicInRange } from '@/lib/vocal-range'
+import { useVocalRange } from '@/lib/hooks/use-vocal-range'
+import {
+  MAX_TRANSPOSE,
+  parseMelodyRange,
+  recommendTransposition,
+  semitonesBetween,
+  transposeKey,
+  transposeLabel,
+} from '@/lib/song-transposition'
 
 const songTourSteps: SpotlightStep[] = [
   {
@@ -71,15 +82,8 @@ const SCALE_NOTES: Record<string, string[]> = {
 }
 
 // MIDDLE_A / SEMITONE now live in lib/pitch-detection alongside the note math.
-const BUFFER_SIZE = 4096
 const IN_TUNE_THRESHOLD = 10
 
-declare global {
-  interface Window {
-    aubio: () => Promise<any>
-  }
-}
-
 interface DetectedNote {
   name: string
   value: number
@@ -95,6 +99,26 @@ interface SongResult {
   key: string
   bpm: number
   mode: 'major' | 'minor'
+  /** Lead vocal melody range (MIDI), where known */
+  melodyLow?: number
+  melodyHigh?: number
+}
+
+interface SongKeyPreference {
+  song_title: string
+  song_artist: string
+  preferred_key: string
+  transpose_semitones: number
+  times_practiced: number
+}
+
+// Where the practice key came from, shown under the transpose control
+type KeySource = 'assigned' | 'remembered' | 'recommended' | null
+
+const KEY_SOURCE_LABELS: Record<Exclude<KeySource, null>, string> = {
+  assigned: 'Key set by your teacher',
+  remembered: 'The key you last practiced in',
+  recommended: 'Recommended for your range',
 }
 
 // ============================================================================
@@ -109,67 +133,37 @@ interface SongResult {
 
 function usePitchDetection(sensitivity: number, onNoteDetected: (note: DetectedNote) => void) {
   const [isListening, setIsListening] = useState(false)
-  const [aubioLoaded, setAubioLoaded] = useState(false)
-  const audioContextRef = useRef<AudioContext | null>(null)
-  const analyserRef = useRef<AnalyserNode | null>(null)
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null)
-  const pitchDetectorRef = useRef<any>(null)
+  // Detection runs in an AudioWorklet with the gating shared by all three
+  // trainers; only readings that pass reach onNoteDetected
+  const detector = useMemo(() => new PitchDetector(), [])
   const streamRef = useRef<MediaStream | null>(null)
-  const sensitivityRef = useRef(sensitivity)
   const callbackRef = useRef(onNoteDetected)
 
-  useEffect(() => { sensitivityRef.current = sensitivity }, [sensitivity])
+  useEffect(() => { detector.setSensitivity(sensitivity) }, [detector, sensitivity])
   useEffect(() => { callbackRef.current = onNoteDetected }, [onNoteDetected])
+  useEffect(() => detector.subscribe(detected => callbackRef.current(detected)), [detector])
+  useEffect(() => () => detector.stop(), [detector])
 
   const startListening = useCallback(async () => {
-    if (!window.aubio) {
-      alert('Audio library loading. Please wait.')
-      return
-    }
     try {
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)()
-      analyserRef.current = audioContextRef.current.createAnalyser()
-      scriptProcessorRef.current = audioContextRef.current.createScriptProcessor(BUFFER_SIZE, 1, 1)
-      const aubioModule = await window.aubio()
-      pitchDetectorRef.current = new aubioModule.Pitch('default', BUFFER_SIZE, 1, audioContextRef.current.sampleRate)
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
       streamRef.current = stream
-      const source = audioContextRef.current.createMediaStreamSource(stream)
-      source.connect(analyserRef.current)
-      analyserRef.current.connect(scriptProcessorRef.current)
-      scriptProcessorRef.current.connect(audioContextRef.current.destination)
-
-      scriptProcessorRef.current.addEventListener('audioprocess', (event: AudioProcessingEvent) => {
-        const input = event.inputBuffer.getChannelData(0)
-
-        // Shared gating: amplitude threshold plus the 60-2000Hz plausibility
-        // check, identical across all three trainers.
-        const detected = analyzeBuffer(input, pitchDetectorRef.current, sensitivityRef.current)
-        if (!detected) return
-
-        callbackRef.current(detected)
-      })
+      await detector.start(stream)
       setIsListening(true)
     } catch (error: any) {
       console.error('Mic error:', error)
       alert(error.message)
     }
-  }, [])
+  }, [detector])
 
   const stopListening = useCallback(() => {
     streamRef.current?.getTracks().forEach(t => t.stop())
-    scriptProcessorRef.current?.disconnect()
-    analyserRef.current?.disconnect()
-    audioContextRef.current?.close()
     streamRef.current = null
-    scriptProcessorRef.current = null
-    analyserRef.current = null
-    audioContextRef.current = null
-    pitchDetectorRef.current = null
+    detector.stop()
     setIsListening(false)
-  }, [])
+  }, [detector])
 
-  return { isListening, aubioLoaded, setAubioLoaded, startListening, stopListening }
+  return { isListening, startListening, stopListening }
 }
 
 // ============================================================================
@@ -177,21 +171,31 @@ function usePitchDetection(sensitivity: number, onNoteDetected: (note: DetectedN
 // ============================================================================
 
 interface SongPitchTrainerProps {
-  variant?: 'floating' | 'card'
+  /** 'modal' renders no trigger and opens immediately, e.g. from a practice assignment */
+  variant?: 'floating' | 'card' | 'modal'
+  /** Initial settings, e.g. from a practice assignment */
+  preset?: Partial<SongAssignmentSettings>
+  /** Called when a 'modal' trainer is closed */
+  onClose?: () => void
 }
 
-export default function SongPitchTrainer({ variant = 'floating' }: SongPitchTrainerProps) {
-  const [isOpen, setIsOpen] = useState(false)
+export default function SongPitchTrainer({ variant = 'floating', preset, onClose }: SongPitchTrainerProps) {
+  const [isOpen, setIsOpen] = useState(variant === 'modal')
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [sensitivity, setSensitivity] = useState(60)
   const [detectedNote, setDetectedNote] = useState<DetectedNote | null>(null)
 
   // Song search
-  const [searchQuery, setSearchQuery] = useState('')
+  const [searchQuery, setSearchQuery] = useState(preset?.songTitle ?? '')
   const [isSearching, setIsSearching] = useState(false)
   const [searchResults, setSearchResults] = useState<SongResult[]>([])
   const [selectedSong, setSelectedSong] = useState<SongResult | null>(null)
 
+  // Transposition: the song is practiced `transpose` semitones from its key
+  const [transpose, setTranspose] = useState(0)
+  const [keySource, setKeySource] = useState<KeySource>(null)
+  const [preferences, setPreferences] = useState<SongKeyPreference[]>([])
+
   // Stats
   const [totalNotes, setTotalNotes] = useState(0)
   const [inKeyNotes, setInKeyNotes] = useState(0)
@@ -203,16 +207,44 @@ export default function SongPitchTrainer({ variant = 'floating' }: SongPitchTrai
   const [isVerifying, setIsVerifying] = useState(false)
   const [verificationStatus, setVerificationStatus] = useState<'none' | 'verified' | 'updated' | 'error'>('none')
 
-  const { isListening, setAubioLoaded, startListening, stopListening } = usePitchDetection(sensitivity, setDetectedNote)
+  const { isListening, startListening, stopListening } = usePitchDetection(sensitivity, setDetectedNote)
+
+  const practiceKey = selectedSong ? transposeKey(selectedSong.key, selectedSong.mode, transpose) : null
+
+  // Where the song's home note sits in the student's comfortable range
+  const { range: vocalRange } = useVocalRange(isOpen)
+  const songPitchClass = practiceKey ? pitchClassOf(practiceKey) : null
+  const homeNote = vocalRange && songPitchClass !== null ? tonicInRange(vocalRange, songPitchClass) : null
+
+  // The best key for the student's range, when the song's melody range is known
+  const melodyRange = selectedSong ? parseMelodyRange(selectedSong.melodyLow, selectedSong.melodyHigh) : null
+  const recommendation = vocalRange && melodyRange ? recommendTransposition(vocalRange, melodyRange) : null
+
+  // Keys the student has saved sessions in, reapplied when they pick the song again
+  useEffect(() => {
+    if (!isOpen) return
+    let on = true
+    fetch('/api/pitch-training/song-key-preferences')
+      .then(res => res.json())
+      .then(data => { if (on) setPreferences(data.preferences || []) })
+      .catch(err => console.warn('Failed to load song key preferences:', err))
+    return () => { on = false }
+  }, [isOpen])
+
+  const preferenceFor = (song: SongResult) =>
+    preferences.find(p =>
+      p.song_title === song.title.trim().toLowerCase() &&
+      p.song_artist === song.artist.trim().toLowerCase()
+    )
 
   // Check if note is in key
   const isNoteInKey = useCallback((noteName: string): boolean => {
-    if (!selectedSong) return false
-    const keyName = selectedSong.mode === 'minor' ? `${selectedSong.key}m` : selectedSong.key
-    const scale = SCALE_NOTES[keyName] || SCALE_NOTES[selectedSong.key] || []
+    if (!selectedSong || !practiceKey) return false
+    const keyName = selectedSong.mode === 'minor' ? `${practiceKey}m` : practiceKey
+    const scale = SCALE_NOTES[keyName] || SCALE_NOTES[practiceKey] || []
     const normalized = noteName.replace('♯', '#')
     return scale.some(n => n.replace('♯', '#') === normalized)
-  }, [selectedSong])
+  }, [selectedSong, practiceKey])
 
   // Track notes
   useEffect(() => {
@@ -239,15 +271,44 @@ export default function SongPitchTrainer({ variant = 'floating' }: SongPitchTrai
     }
   }
 
-  // Select song
-  const selectSong = (song: SongResult) => {
-    setSelectedSong(song)
-    setSearchResults([])
+  const resetStats = () => {
     setTotalNotes(0)
     setInKeyNotes(0)
     setRecentHistory([])
     setStartTime(null)
+  }
+
+  // Select song, starting in the assigned key, else the one the student last
+  // practiced it in, else the best one for their range
+  const selectSong = (song: SongResult) => {
+    setSelectedSong(song)
+    setSearchResults([])
+    resetStats()
     setVerificationStatus('none')
+
+    const assigned = preset?.songKey ? semitonesBetween(song.key, preset.songKey) : null
+    const remembered = preferenceFor(song)
+    const melody = parseMelodyRange(song.melodyLow, song.melodyHigh)
+    if (assigned !== null) {
+      setTranspose(assigned)
+      setKeySource('assigned')
+    } else if (remembered) {
+      setTranspose(semitonesBetween(song.key, remembered.preferred_key) ?? remembered.transpose_semitones)
+      setKeySource('remembered')
+    } else if (vocalRange && melody) {
+      setTranspose(recommendTransposition(vocalRange, melody).semitones)
+      setKeySource('recommended')
+    } else {
+      setTranspose(0)
+      setKeySource(null)
+    }
+  }
+
+  // Change key; notes sung in the old key no longer count
+  const changeTranspose = (semitones: number, source: KeySource = null) => {
+    setTranspose(Math.max(-MAX_TRANSPOSE, Math.min(MAX_TRANSPOSE, semitones)))
+    setKeySource(source)
+    resetStats()
   }
 
   // Verify song key with OpenAI
@@ -273,14 +334,24 @@ export default function SongPitchTrainer({ variant = 'floating' }: SongPitchTrai
         return
       }
 
-      // Check if the key changed
+      // Check if the key changed; verification may also find the melody range
+      setSelectedSong({
+        ...selectedSong,
+        key: data.key,
+        mode: data.mode,
+        bpm: data.bpm || selectedSong.bpm,
+        melodyLow: data.melodyLow ?? selectedSong.melodyLow,
+        melodyHigh: data.melodyHigh ?? selectedSong.melodyHigh
+      })
       if (data.key !== selectedSong.key || data.mode !== selectedSong.mode) {
-        setSelectedSong({
-          ...selectedSong,
-          key: data.key,
-          mode: data.mode,
-          bpm: data.bpm || selectedSong.bpm
-        })
+        // An assigned or remembered key stays the key practiced; only the
+        // shift needed to reach it from the corrected key changes
+        const targetKey =
+          keySource === 'assigned' ? preset?.songKey
+          : keySource === 'remembered' ? preferenceFor(selectedSong)?.preferred_key
+          : undefined
+        const shift = targetKey ? semitonesBetween(data.key, targetKey) : null
+        if (shift !== null) setTranspose(shift)
         setVerificationStatus('updated')
       } else {
         setVerificationStatus('verified')
@@ -295,7 +366,7 @@ export default function SongPitchTrainer({ variant = 'floating' }: SongPitchTrai
 
   // Save session
   const saveSession = async () => {
-    if (!selectedSong || totalNotes === 0) return
+    if (!selectedSong || !practiceKey || totalNotes === 0) return
     setIsSaving(true)
     try {
       const response = await fetch('/api/pitch-training/song-key-session', {
@@ -304,7 +375,10 @@ export default function SongPitchTrainer({ variant = 'floating' }: SongPitchTrai
         body: JSON.stringify({
           startedAt: startTime ? startTime.toISOString() : new Date().toISOString(),
           endedAt: new Date().toISOString(),
-          songKey: selectedSong.key,
+          songKey: practiceKey,
+          songMode: selectedSong.mode,
+          originalKey: selectedSong.key,
+          transposeSemitones: transpose,
           songTitle: selectedSong.title,
           songArtist: selectedSong.artist,
           songBpm: selectedSong.bpm,
@@ -316,6 +390,18 @@ export default function SongPitchTrainer({ variant = 'floating' }: SongPitchTrai
       if (!response.ok) {
         throw new Error(result.error || 'Failed to save session')
       }
+      // The route remembers this key for the song; mirror it locally
+      const saved = preferenceFor(selectedSong)
+      setPreferences(prev => [
+        {
+          song_title: selectedSong.title.trim().toLowerCase(),
+          song_artist: selectedSong.artist.trim().toLowerCase(),
+          preferred_key: practiceKey,
+          transpose_semitones: transpose,
+          times_practiced: (saved?.times_practiced ?? 0) + 1,
+        },
+        ...prev.filter(p => p !== saved),
+      ])
     } catch (e) {
       console.error('Error saving song session:', e)
     } finally {
@@ -333,15 +419,20 @@ export default function SongPitchTrainer({ variant = 'floating' }: SongPitchTrai
 
   // Get key scale notes for display
   const getScaleNotes = () => {
-    if (!selectedSong) return []
-    const keyName = selectedSong.mode === 'minor' ? `${selectedSong.key}m` : selectedSong.key
-    return SCALE_NOTES[keyName] || SCALE_NOTES[selectedSong.key] || []
+    if (!selectedSong || !practiceKey) return []
+    const keyName = selectedSong.mode === 'minor' ? `${practiceKey}m` : practiceKey
+    return SCALE_NOTES[keyName] || SCALE_NOTES[practiceKey] || []
   }
 
+  // A 'modal' trainer has no trigger to reopen it, so closing hands control back
+  useEffect(() => {
+    if (variant === 'modal' && !isOpen) onClose?.()
+  }, [variant, isOpen, onClose])
+
   return (
     <>
       {/* Trigger Button */}
-      {variant === 'card' ? (
+      {variant === 'modal' ? null : variant === 'card' ? (
         <button
           onClick={() => setIsOpen(true)}
           className="flex items-center gap-4 px-6 py-5 bg-gradient-to-br from-emerald-600 to-teal-600 hover:from-emerald-500 hover:to-teal-500 text-white rounded-2xl transition-all w-full group border border-white/10"
@@ -409,25 +500,33 @@ export default function SongPitchTrainer({ variant = 'floating' }: SongPitchTrai
 
               {/* Search Results */}
               <div className="flex-1 overflow-y-auto">
-                {searchResults.map(song => (
-                  <button
-                    key={song.id}
-                    onClick={() => selectSong(song)}
-                    className="w-full flex items-center gap-3 px-4 py-3 hover:bg-slate-800/70 transition-colors text-left border-b border-slate-800"
-                  >
-                    <div className="w-10 h-10 rounded-lg bg-emerald-500/20 flex items-center justify-center flex-shrink-0">
-                      <Music2 className="w-5 h-5 text-emerald-400" />
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <p className="text-white font-medium truncate text-sm">{song.title}</p>
-                      <p className="text-xs text-slate-400 truncate">{song.artist}</p>
-                    </div>
-                    <div className="text-right flex-shrink-0">
-                      <p className="text-emerald-400 font-bold text-sm">{song.key}</p>
-                      <p className="text-xs text-slate-500">{song.bpm} BPM</p>
-                    </div>
-                  </button>
-                ))}
+                {searchResults.map(song => {
+                  const preferredKey = preferenceFor(song)?.preferred_key
+                  return (
+                    <button
+                      key={song.id}
+                      onClick={() => selectSong(song)}
+                      className="w-full flex items-center gap-3 px-4 py-3 hover:bg-slate-800/70 transition-colors text-left border-b border-slate-800"
+                    >
+                      <div className="w-10 h-10 rounded-lg bg-emerald-500/20 flex items-center justify-center flex-shrink-0">
+                        <Music2 className="w-5 h-5 text-emerald-400" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-white font-medium truncate text-sm">{song.title}</p>
+                        <p className="text-xs text-slate-400 truncate">{song.artist}</p>
+                      </div>
+                      <div className="text-right flex-shrink-0">
+                        <p className="text-emerald-400 font-bold text-sm">
+                          {song.key}
+                          {preferredKey && preferredKey !== song.key && (
+                            <span className="text-slate-400 font-medium"> → {preferredKey}</span>
+                          )}
+                        </p>
+                        <p className="text-xs text-slate-500">{song.bpm} BPM</p>
+                      </div>
+                    </button>
+                  )
+                })}
 
                 {/* Selected Song Info */}
                 {selectedSong && searchResults.length === 0 && (
@@ -437,8 +536,10 @@ export default function SongPitchTrainer({ variant = 'floating' }: SongPitchTrai
                       <p className="text-slate-400 text-sm">{selectedSong.artist}</p>
                       <div className="flex items-center gap-4 mt-3">
                         <div className="text-center">
-                          <p className="text-2xl font-bold text-emerald-400">{selectedSong.key}</p>
-                          <p className="text-xs text-slate-500">{selectedSong.mode}</p>
+                          <p className="text-2xl font-bold text-emerald-400">{practiceKey}</p>
+                          <p className="text-xs text-slate-500">
+                            {selectedSong.mode}{transpose !== 0 && ` · from ${selectedSong.key}`}
+                          </p>
                         </div>
                         <div className="text-center">
                           <p className="text-2xl font-bold text-white">{selectedSong.bpm}</p>
@@ -446,6 +547,72 @@ export default function SongPitchTrainer({ variant = 'floating' }: SongPitchTrai
                         </div>
                       </div>
 
+                      {/* Transpose */}
+                      <div className="mt-3 flex items-center justify-between gap-2">
+                        <button
+                          onClick={() => changeTranspose(transpose - 1)}
+                          disabled={transpose <= -MAX_TRANSPOSE}
+                          aria-label="Transpose down a semitone"
+                          className="p-1.5 rounded-lg bg-slate-700/50 hover:bg-slate-700 text-slate-300 border border-slate-600 disabled:opacity-40"
+                        >
+                          <Minus className="w-3 h-3" />
+                        </button>
+                        <div className="text-center">
+                          <p className="text-xs font-medium text-white">{transposeLabel(transpose)}</p>
+                          {keySource && <p className="text-[10px] text-slate-400">{KEY_SOURCE_LABELS[keySource]}</p>}
+                        </div>
+                        <button
+                          onClick={() => changeTranspose(transpose + 1)}
+                          disabled={transpose >= MAX_TRANSPOSE}
+                          aria-label="Transpose up a semitone"
+                          className="p-1.5 rounded-lg bg-slate-700/50 hover:bg-slate-700 text-slate-300 border border-slate-600 disabled:opacity-40"
+                        >
+                          <Plus className="w-3 h-3" />
+                        </button>
+                      </div>
+
+                      {/* Recommendation from the student's range */}
+                      {recommendation ? (
+                        <div className="mt-3 text-xs text-slate-300">
+                          <p>
+                            Best key for your range:{' '}
+                            <span className="font-semibold text-emerald-300">
+                              {transposeKey(selectedSong.key, selectedSong.mode, recommendation.semitones)}
+                            </span>
+                            {' '}({transposeLabel(recommendation.semitones).toLowerCase()}
+                            {recommendation.octave !== 0 && `, an octave ${recommendation.octave < 0 ? 'lower' : 'higher'} than the recording`})
+                          </p>
+                          <p className="text-slate-500">
+                            Melody {rangeLabel(recommendation.low, recommendation.high)}
+                            {!recommendation.fits && ' · still stretches your range'}
+                          </p>
+                          {recommendation.semitones !== transpose && (
+                            <button
+                              onClick={() => changeTranspose(recommendation.semitones, 'recommended')}
+                              className="mt-1.5 text-emerald-400 hover:text-emerald-300 font-medium"
+                            >
+                              Use this key
+                            </button>
+                          )}
+                        </div>
+                      ) : vocalRange && !melodyRange ? (
+                        <p className="mt-3 text-xs text-slate-500">
+                          Verify the key to look up the melody&apos;s range and get a key recommendation for your voice.
+                        </p>
+                      ) : !vocalRange ? (
+                        <p className="mt-3 text-xs text-slate-500">
+                          Take the vocal range test to get a key recommendation for your voice.
+                        </p>
+                      ) : null}
+
+                      {homeNote !== null && vocalRange && (
+                        <p className="mt-3 text-xs text-slate-300">
+                          For your voice, pitch the home note ({practiceKey}) around{' '}
+                          <span className="font-semibold text-emerald-300">{midiName(homeNote)}</span>
+                          <span className="text-slate-500"> · comfortable range {rangeLabel(vocalRange.comfortableLow, vocalRange.comfortableHigh)}</span>
+                        </p>
+                      )}
+
                       {/* Verify Key Button */}
                       <div className="mt-3 pt-3 border-t border-emerald-500/20">
                         <button
@@ -493,7 +660,7 @@ export default function SongPitchTrainer({ variant = 'floating' }: SongPitchTrai
 
                     {/* Scale Notes */}
                     <div className="mt-4">
-                      <p className="text-xs text-slate-400 mb-2">Notes in {selectedSong.key} {selectedSong.mode}:</p>
+                      <p className="text-xs text-slate-400 mb-2">Notes in {practiceKey} {selectedSong.mode}:</p>
                       <div className="flex flex-wrap gap-1.5">
                         {getScaleNotes().map((note, i) => (
                           <span
@@ -679,12 +846,6 @@ export default function SongPitchTrainer({ variant = 'floating' }: SongPitchTrai
           </div>
         </div>
       )}
-
-      <Script
-        src="https://cdn.jsdelivr.net/npm/aubiojs@0.1.1/build/aubio.min.js"
-        strategy="lazyOnload"
-        onLoad={() => setAubioLoaded(true)}
-      />
     </>
   )
 }
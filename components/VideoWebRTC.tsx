@@ -16,9 +16,49 @@ import {
   X,
   Volume2,
   VolumeX,
+  Music,
+  Headphones,
+  Signal,
+  SignalLow,
+  SignalMedium,
+  Eye,
+  Lock,
+  LockOpen,
+  PhoneOff,
+  UserCheck,
+  UserX,
+  Paperclip,
+  Pin,
+  Loader2,
 } from 'lucide-react'
-import { WebRTCSignaling, Participant, SignalingMessage } from '@/lib/webrtc-signaling'
+import {
+  WebRTCSignaling,
+  Participant,
+  SignalingMessage,
+  loadRoomAccess,
+  saveRoomAccess,
+  type RoomAccess,
+  type RoomRole,
+} from '@/lib/webrtc-signaling'
 import { clearSharedMicStream, setSharedMicStream } from '@/lib/shared-mic-stream'
+import type { RecordingSink } from '@/lib/recording-upload'
+import { MUSIC_OPUS_BITRATE, audioConstraints, loadMusicMode, saveMusicMode, tuneOpusSdp } from '@/lib/music-mode'
+import { NO_TURN, buildRtcConfiguration, fetchTurnServers, hasTurn, refreshDelayMs, type TurnServers } from '@/lib/ice-servers'
+import { createRoomCertificate, type RoomCertificate } from '@/lib/room-certificate'
+import {
+  INITIAL_ADAPTATION,
+  QUALITY_SAMPLE_MS,
+  VIDEO_LEVELS,
+  adaptVideoLevel,
+  classifyQuality,
+  describeProblem,
+  readPeerStats,
+  type AdaptationState,
+  type PeerStatsSample,
+  type StatsSnapshot,
+} from '@/lib/call-quality'
+import { CHAT_FILE_TYPES, MAX_CHAT_FILE_BYTES, isChatFileType, linkParts, mergeChatMessages, type LessonChatMessage } from '@/lib/lesson-chat'
+import type { InstrumentEvent, LessonInstrument } from '@/lib/lesson-instrument'
 
 export interface VideoWebRTCHandle {
   disconnect: () => Promise<void>
@@ -37,73 +77,111 @@ interface VideoWebRTCProps {
   className?: string
   isMiniPlayer?: boolean
   onRecordingComplete?: (blob: Blob) => Promise<void> | void
+  /**
+   * Streams the recording out as it is captured instead of holding the whole
+   * lesson in memory. When set, onRecordingComplete is not called and
+   * stopRecording() resolves to null once the sink has finished.
+   */
+  recordingSink?: RecordingSink
+  /** Called with every connection quality sample (see lib/call-quality.ts) */
+  onQualitySample?: (sample: PeerStatsSample) => void
+  /** Endpoint issuing short-lived TURN credentials; without it the room uses STUN only */
+  turnCredentialsUrl?: string
+  /**
+   * Registers this visit's DTLS certificate (lib/room-certificate.ts). Peers
+   * only accept connections whose certificate the booking knows, so the room
+   * can't be joined without it.
+   */
+  roomCertificateUrl?: string
+  /** Defaults to 'host' or 'student' from isHost. Observers watch without camera or microphone. */
+  role?: RoomRole
+  /** Host only: called after "End class for everyone" has told the room */
+  onEndClass?: () => void
+  /** Lesson chat endpoint (lib/lesson-chat.ts); without it chat lasts only as long as the room */
+  chatUrl?: string
+  /** Adds a chat message to the lesson notes; shows a pin button on messages when set */
+  onPinChatMessage?: (message: LessonChatMessage) => Promise<void> | void
+  /** Host only: the lesson instrument (lib/lesson-instrument.ts), sent to every peer as its own audio track */
+  instrument?: LessonInstrument
+  /** Called with what the host plays on the lesson instrument */
+  onInstrumentEvent?: (event: InstrumentEvent) => void
   onError?: (error: Error) => void
 }
 
-interface ChatMessage {
-  id: string
-  from: string
-  name: string
-  message: string
-  timestamp: number
-}
-
 interface PeerConnection {
   participantId: string
   connection: RTCPeerConnection
-  stream: MediaStream | null
+  stream: MediaStream | null  // The peer's camera and microphone; any other stream is extra audio
   makingOffer: boolean  // Track if we're currently creating an offer
   ignoreOffer: boolean  // Track if we should ignore incoming offers
   processingAnswer: boolean  // Track if we're currently processing an answer (prevents race conditions)
   lastOfferProcessedAt: number  // Timestamp of last processed offer (for deduplication)
+  relayOnly: boolean  // Retrying through TURN after direct candidates failed
+  remoteRole: RoomRole | null  // The peer's role, confirmed by the certificate in their offer or answer
 }
 
 // Minimum time between processing offers from the same peer (ms)
 const OFFER_DEDUP_WINDOW = 1000
 
-// Optimized ICE configuration for best connectivity without TURN
-// Multiple STUN servers for redundancy, aggressive ICE settings
-const getIceServers = (): RTCConfiguration => {
-  const iceServers: RTCIceServer[] = [
-    // Google STUN servers (most reliable)
-    { urls: 'stun:stun.l.google.com:19302' },
-    { urls: 'stun:stun1.l.google.com:19302' },
-    { urls: 'stun:stun2.l.google.com:19302' },
-    { urls: 'stun:stun3.l.google.com:19302' },
-    { urls: 'stun:stun4.l.google.com:19302' },
-    // Additional public STUN servers for redundancy
-    { urls: 'stun:stun.cloudflare.com:3478' },
-    { urls: 'stun:stun.nextcloud.com:443' },
-  ]
-
-  // Add TURN server if configured (for NAT traversal behind strict firewalls)
-  const turnUrl = process.env.NEXT_PUBLIC_TURN_URL
-  const turnUsername = process.env.NEXT_PUBLIC_TURN_USERNAME
-  const turnCredential = process.env.NEXT_PUBLIC_TURN_CREDENTIAL
-
-  if (turnUrl && turnUsername && turnCredential) {
-    iceServers.push({
-      urls: turnUrl, // e.g., 'turn:your-server.com:3478' or 'turns:your-server.com:5349'
-      username: turnUsername,
-      credential: turnCredential,
+// What we send a peer as our offer/answer: the local description, with Opus
+// asking for stereo high-bitrate audio when music mode is on
+function describeForPeer(description: RTCSessionDescription, musicMode: boolean): RTCSessionDescriptionInit {
+  const init = description.toJSON()
+  return { ...init, sdp: init.sdp && tuneOpusSdp(init.sdp, musicMode) }
+}
+
+// Cap (music mode) or reset (speech) the audio send bitrate on a connection.
+// Encodings only exist once the sender has been negotiated.
+function applyAudioSendBitrate(pc: RTCPeerConnection, musicMode: boolean) {
+  pc.getSenders()
+    .filter(sender => sender.track?.kind === 'audio')
+    .forEach(sender => {
+      const params = sender.getParameters()
+      if (!params.encodings?.length) return
+      params.encodings.forEach(encoding => {
+        if (musicMode) encoding.maxBitrate = MUSIC_OPUS_BITRATE
+        else delete encoding.maxBitrate
+      })
+      sender.setParameters(params).catch(err =>
+        console.warn('[VideoWebRTC] Failed to set audio send bitrate:', err)
+      )
+    })
+}
+
+// Apply an outbound video step from lib/call-quality to a connection
+function applyVideoLevel(pc: RTCPeerConnection, level: number) {
+  const { scaleResolutionDownBy, maxFramerate } = VIDEO_LEVELS[level]
+  pc.getSenders()
+    .filter(sender => sender.track?.kind === 'video')
+    .forEach(sender => {
+      const params = sender.getParameters()
+      if (!params.encodings?.length) return
+      params.encodings.forEach(encoding => {
+        encoding.scaleResolutionDownBy = scaleResolutionDownBy
+        encoding.maxFramerate = maxFramerate
+      })
+      sender.setParameters(params).catch(err =>
+        console.warn('[CallQuality] Failed to adjust outbound video:', err)
+      )
     })
-  }
+}
 
-  return {
-    iceServers,
-    // Pre-fetch ICE candidates before creating offers (faster connection)
-    iceCandidatePoolSize: 10,
-    // Bundle all media into one connection (more efficient)
-    bundlePolicy: 'max-bundle',
-    // Require RTCP multiplexing (reduces ports needed)
-    rtcpMuxPolicy: 'require',
-    // Use all available ICE transport types
-    iceTransportPolicy: turnUrl ? 'all' : 'all',
+// Audio-only lesson track: about 22 MB an hour, under Whisper's 25 MB upload
+// limit for a typical lesson, and plenty for voice and singing.
+const AUDIO_TRACK_BITRATE = 48000
+
+// The lesson instrument goes out as a second audio track next to the
+// microphone, so music mode and mute leave it alone
+function addInstrumentTrack(pc: RTCPeerConnection, stream: MediaStream | null) {
+  const track = stream?.getAudioTracks()[0]
+  if (!stream || !track || pc.getSenders().some(sender => sender.track === track)) return
+  try {
+    pc.addTrack(track, stream)
+  } catch (err) {
+    console.error('[VideoWebRTC] Error adding instrument track:', err)
   }
 }
 
-const ICE_SERVERS: RTCConfiguration = getIceServers()
-
 const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function VideoWebRTC({
   roomId,
   participantId,
@@ -114,8 +192,21 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
   className,
   isMiniPlayer = false,
   onRecordingComplete,
+  recordingSink,
+  onQualitySample,
+  turnCredentialsUrl,
+  roomCertificateUrl,
+  role,
+  onEndClass,
+  chatUrl,
+  onPinChatMessage,
+  instrument,
+  onInstrumentEvent,
   onError,
 }, ref) {
+  const roomRole: RoomRole = role ?? (isHost ? 'host' : 'student')
+  const isObserver = roomRole === 'observer'
+
   const localVideoRef = useRef<HTMLVideoElement>(null)
   const localStreamRef = useRef<MediaStream | null>(null)
   const signalingRef = useRef<WebRTCSignaling | null>(null)
@@ -123,6 +214,11 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
   const mediaRecorderRef = useRef<MediaRecorder | null>(null)
   const recordedChunksRef = useRef<Blob[]>([])
   const audioContextRef = useRef<AudioContext | null>(null)
+  // The recording's Web Audio mix, and the audio tracks already connected to it
+  const mixDestinationRef = useRef<MediaStreamAudioDestinationNode | null>(null)
+  const mixedTrackIdsRef = useRef<Set<string>>(new Set())
+  // Audio-only recorder on the same mix, streamed to recordingSink as its 'audio' track
+  const audioRecorderRef = useRef<MediaRecorder | null>(null)
   // Periodic RMS logging of the mixed recording audio, for diagnosing silent recordings
   const audioLevelIntervalRef = useRef<NodeJS.Timeout | null>(null)
   const combinedStreamRef = useRef<MediaStream | null>(null)
@@ -134,6 +230,14 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
   const recordingTimeoutRef = useRef<NodeJS.Timeout | null>(null) // 2-hour auto-stop timer
   const recordingStartTimeRef = useRef<number | null>(null) // Track when recording started
   const sharedMicOwnerIdRef = useRef(`video-webrtc:${roomId}:${participantId}`)
+  // Read when describing SDP and opening the mic; the state copy drives the UI
+  const musicModeRef = useRef(false)
+  // Current TURN credentials, fetched on join and refreshed before expiry
+  const turnServersRef = useRef<TurnServers>(NO_TURN)
+  // This visit's registered DTLS certificate, used for every peer connection
+  const roomCertificateRef = useRef<RoomCertificate | null>(null)
+  // The host's lesson instrument output, set on join
+  const instrumentStreamRef = useRef<MediaStream | null>(null)
 
   // Recording duration limit: 2 hours in milliseconds
   const RECORDING_MAX_DURATION = 2 * 60 * 60 * 1000 // 2 hours
@@ -142,13 +246,21 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
   const participantIdRef = useRef(participantId)
   const participantNameRef = useRef(participantName)
   const isHostRef = useRef(isHost)
+  const roomRoleRef = useRef(roomRole)
+  const onQualitySampleRef = useRef(onQualitySample)
+  const instrumentRef = useRef(instrument)
+  const onInstrumentEventRef = useRef(onInstrumentEvent)
 
   // Update refs when props change (without triggering effects)
   useEffect(() => {
     participantIdRef.current = participantId
     participantNameRef.current = participantName
     isHostRef.current = isHost
-  }, [participantId, participantName, isHost])
+    roomRoleRef.current = roomRole
+    onQualitySampleRef.current = onQualitySample
+    instrumentRef.current = instrument
+    onInstrumentEventRef.current = onInstrumentEvent
+  }, [participantId, participantName, isHost, roomRole, onQualitySample, instrument, onInstrumentEvent])
 
   const [isInitialized, setIsInitialized] = useState(false)
   const [hasLocalStream, setHasLocalStream] = useState(false)
@@ -160,9 +272,15 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
   const [isVideoOff, setIsVideoOff] = useState(false)
   const [isScreenSharing, setIsScreenSharing] = useState(false)
   const [isRecording, setIsRecording] = useState(false)
+  const [musicMode, setMusicMode] = useState(false)
+  const [headphoneWarningDismissed, setHeadphoneWarningDismissed] = useState(false)
 
   // Remote streams
   const [remoteStreams, setRemoteStreams] = useState<Map<string, MediaStream>>(new Map())
+  // Audio a peer sends besides their microphone, i.e. the host's lesson instrument
+  const [remoteExtraAudio, setRemoteExtraAudio] = useState<Map<string, MediaStream>>(new Map())
+  // Latest connection quality sample per remote participant
+  const [peerQuality, setPeerQuality] = useState<Map<string, PeerStatsSample>>(new Map())
 
   // Counter to force re-initialization when reconnect() is called
   const [initTrigger, setInitTrigger] = useState(0)
@@ -170,14 +288,24 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
   // Participants
   const [participants, setParticipants] = useState<Participant[]>([])
 
+  // Waiting room: who the host has admitted, and whether the room is locked.
+  // The host owns this; everyone else mirrors its 'room-state' messages.
+  const roomAccessRef = useRef<RoomAccess>({ admittedIds: [], locked: false })
+  const [roomAccess, setRoomAccess] = useState<RoomAccess>({ admittedIds: [], locked: false })
+  // Shown instead of the room after the host removed us or ended the class
+  const [roomNotice, setRoomNotice] = useState<string | null>(null)
+
   // UI state
   const [showChat, setShowChat] = useState(false)
   const [showParticipants, setShowParticipants] = useState(false)
 
   // Chat
-  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
+  const [chatMessages, setChatMessages] = useState<LessonChatMessage[]>([])
   const [chatInput, setChatInput] = useState('')
+  const [chatSending, setChatSending] = useState(false)
+  const [chatError, setChatError] = useState<string | null>(null)
   const chatContainerRef = useRef<HTMLDivElement>(null)
+  const chatFileInputRef = useRef<HTMLInputElement>(null)
 
   // Determine if we should be the "polite" peer (yields to incoming offers on collision)
   // Uses localeCompare for consistent ordering that works with both UUIDs and numeric IDs
@@ -216,7 +344,7 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
 
       if (signalingRef.current && pc.localDescription) {
         signalingRef.current.sendSignal(remoteParticipantId, 'offer', {
-          sdp: pc.localDescription.toJSON(),
+          sdp: describeForPeer(pc.localDescription, musicModeRef.current),
         })
         console.log(`[VideoWebRTC] Sent ICE restart offer to ${remoteParticipantId}`)
       }
@@ -235,7 +363,26 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
 
     console.log(`[VideoWebRTC] Creating peer connection to ${remoteParticipantId}`)
 
-    const pc = new RTCPeerConnection(ICE_SERVERS)
+    const pc = new RTCPeerConnection({
+      ...buildRtcConfiguration(turnServersRef.current),
+      certificates: roomCertificateRef.current ? [roomCertificateRef.current.certificate] : undefined,
+    })
+
+    // First failure: retry relay-only through TURN, since direct candidates
+    // evidently can't get through this network. Then restart ICE as before.
+    const recoverConnection = () => {
+      const peer = peerConnectionsRef.current.get(remoteParticipantId)
+      if (peer && !peer.relayOnly && hasTurn(turnServersRef.current)) {
+        peer.relayOnly = true
+        try {
+          pc.setConfiguration(buildRtcConfiguration(turnServersRef.current, true))
+          console.log(`[VideoWebRTC] Retrying ${remoteParticipantId} relay-only via TURN`)
+        } catch (err) {
+          console.warn('[VideoWebRTC] Failed to switch to relay-only:', err)
+        }
+      }
+      restartIce(remoteParticipantId)
+    }
 
     // Add local tracks to the connection
     if (localStreamRef.current) {
@@ -244,10 +391,34 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
         pc.addTrack(track, localStreamRef.current!)
       })
     }
+    addInstrumentTrack(pc, instrumentStreamRef.current)
+
+    // Observers send nothing; when they make the offer it still has to ask
+    // for the other side's audio and video
+    if (localStreamRef.current?.getTracks().length === 0 && !isPolite(remoteParticipantId)) {
+      pc.addTransceiver('audio', { direction: 'recvonly' })
+      pc.addTransceiver('video', { direction: 'recvonly' })
+    }
+    // Likewise leave the host a slot for the instrument, so it needn't
+    // renegotiate as the polite side (which never offers)
+    if (!isHostRef.current && !isPolite(remoteParticipantId)) {
+      pc.addTransceiver('audio', { direction: 'recvonly' })
+    }
 
     // Handle incoming tracks
     pc.ontrack = (event) => {
       console.log(`[VideoWebRTC] Received remote track from ${remoteParticipantId}:`, event.track.kind, 'enabled:', event.track.enabled, 'readyState:', event.track.readyState)
+      const peer = peerConnectionsRef.current.get(remoteParticipantId)
+
+      // Only the host and the student are seen and heard. Observers have
+      // nothing to send, so anything from one (or from a peer whose role the
+      // booking didn't confirm) is dropped.
+      if (peer?.remoteRole !== 'host' && peer?.remoteRole !== 'student') {
+        console.warn(`[VideoWebRTC] Dropping ${event.track.kind} track from ${remoteParticipantId} (role: ${peer?.remoteRole ?? 'unconfirmed'})`)
+        event.track.stop()
+        return
+      }
+
       const [remoteStream] = event.streams
       if (remoteStream) {
         // Log all tracks in the stream
@@ -256,6 +427,15 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
           console.log(`[VideoWebRTC]   Track ${i}: ${t.kind}, enabled=${t.enabled}, readyState=${t.readyState}`)
         })
 
+        // The first stream is the camera and microphone; a different
+        // audio-only one is the host's instrument
+        if (peer.stream && peer.stream.id !== remoteStream.id && remoteStream.getVideoTracks().length === 0) {
+          console.log(`[VideoWebRTC] Extra audio stream ${remoteStream.id} from ${remoteParticipantId}`)
+          setRemoteExtraAudio(prev => new Map(prev).set(remoteParticipantId, remoteStream))
+          return
+        }
+        peer.stream = remoteStream
+
         console.log(`[VideoWebRTC] Calling setRemoteStreams for participant ${remoteParticipantId}`)
         setRemoteStreams(prev => {
           const newMap = new Map(prev)
@@ -278,10 +458,12 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
     // Connection state changes with auto-recovery
     pc.onconnectionstatechange = () => {
       console.log(`[VideoWebRTC] Connection state with ${remoteParticipantId}: ${pc.connectionState}`)
+      if (pc.connectionState === 'connected' && musicModeRef.current) {
+        applyAudioSendBitrate(pc, true)
+      }
       if (pc.connectionState === 'failed') {
         console.log(`[VideoWebRTC] Connection failed with ${remoteParticipantId}, attempting ICE restart...`)
-        // Attempt ICE restart
-        restartIce(remoteParticipantId)
+        recoverConnection()
       } else if (pc.connectionState === 'disconnected') {
         // Wait briefly for reconnection before removing stream
         setTimeout(() => {
@@ -301,7 +483,7 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
       console.log(`[VideoWebRTC] ICE connection state with ${remoteParticipantId}: ${pc.iceConnectionState}`)
       if (pc.iceConnectionState === 'failed') {
         console.log(`[VideoWebRTC] ICE failed with ${remoteParticipantId}, triggering ICE restart...`)
-        restartIce(remoteParticipantId)
+        recoverConnection()
       } else if (pc.iceConnectionState === 'disconnected') {
         // Give it time to recover naturally
         console.log(`[VideoWebRTC] ICE disconnected with ${remoteParticipantId}, waiting for recovery...`)
@@ -324,6 +506,8 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
       ignoreOffer: false,
       processingAnswer: false,
       lastOfferProcessedAt: 0,
+      relayOnly: false,
+      remoteRole: null,
     }
     peerConnectionsRef.current.set(remoteParticipantId, peerInfo)
 
@@ -347,7 +531,7 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
 
         if (signalingRef.current && pc.localDescription) {
           signalingRef.current.sendSignal(remoteParticipantId, 'offer', {
-            sdp: pc.localDescription.toJSON(),
+            sdp: describeForPeer(pc.localDescription, musicModeRef.current),
           })
         }
       } catch (err) {
@@ -386,6 +570,7 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
           }
         }
       })
+      addInstrumentTrack(pc, instrumentStreamRef.current)
     })
   }, [])
 
@@ -410,7 +595,7 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
 
       if (signalingRef.current && pc.localDescription) {
         signalingRef.current.sendSignal(remoteParticipantId, 'offer', {
-          sdp: pc.localDescription.toJSON(),
+          sdp: describeForPeer(pc.localDescription, musicModeRef.current),
         })
         console.log(`[VideoWebRTC] Offer sent to ${remoteParticipantId}, signaling state: ${pc.signalingState}`)
       } else {
@@ -428,12 +613,27 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
     const fromId = message.from
     const now = Date.now()
 
+    // Nobody connects through the waiting room
+    if (!signalingRef.current?.canConnectWith(fromId)) {
+      console.log(`[VideoWebRTC] Ignoring offer from ${fromId}: not admitted to the room`)
+      return
+    }
+
+    // Only from whoever holds a certificate registered to them
+    const remoteRole = await signalingRef.current.confirmPeerRole(fromId, message.payload.sdp)
+    if (!remoteRole) {
+      console.warn(`[VideoWebRTC] Ignoring offer from ${fromId}: its certificate isn't registered to them`)
+      return
+    }
+
     let peer = peerConnectionsRef.current.get(fromId)
     if (!peer) {
       createPeerConnection(fromId)
       peer = peerConnectionsRef.current.get(fromId)!
     }
 
+    peer.remoteRole = remoteRole
+
     // Deduplicate offers - ignore if we recently processed one from this peer
     if (now - peer.lastOfferProcessedAt < OFFER_DEDUP_WINDOW) {
       console.log(`[VideoWebRTC] Ignoring duplicate offer from ${fromId} (processed ${now - peer.lastOfferProcessedAt}ms ago)`)
@@ -480,6 +680,7 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
           }
         })
       }
+      addInstrumentTrack(pc, instrumentStreamRef.current)
 
       // If there's a collision and we're polite, we need to rollback
       // Use setRemoteDescription directly - it will handle rollback automatically in modern browsers
@@ -490,7 +691,7 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
 
       if (signalingRef.current && pc.localDescription) {
         signalingRef.current.sendSignal(fromId, 'answer', {
-          sdp: pc.localDescription.toJSON(),
+          sdp: describeForPeer(pc.localDescription, musicModeRef.current),
         })
         console.log(`[VideoWebRTC] Sent answer to ${fromId}`)
       }
@@ -507,6 +708,13 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
 
     const pc = peer.connection
 
+    // Only from whoever holds a certificate registered to them
+    const remoteRole = await signalingRef.current?.confirmPeerRole(fromId, message.payload.sdp)
+    if (!remoteRole) {
+      console.warn(`[VideoWebRTC] Ignoring answer from ${fromId}: its certificate isn't registered to them`)
+      return
+    }
+
     // Prevent concurrent answer processing - this fixes race condition where
     // multiple answers arrive before the first one completes setRemoteDescription
     if (peer.processingAnswer) {
@@ -529,6 +737,7 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
       }
 
       console.log(`[VideoWebRTC] Processing answer from ${fromId}`)
+      peer.remoteRole = remoteRole
       await pc.setRemoteDescription(new RTCSessionDescription(message.payload.sdp))
       console.log(`[VideoWebRTC] Answer processed, connection state: ${pc.connectionState}`)
     } catch (err) {
@@ -582,6 +791,16 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
     }
   }, [])
 
+  // Host only: tell a late joiner (or everyone) the instrument's tonic and drone
+  const sendInstrumentState = useCallback((to?: string) => {
+    const instrument = instrumentRef.current
+    const signaling = signalingRef.current
+    if (!isHostRef.current || !instrument || !signaling) return
+    const { tonic, drone } = instrument.getState()
+    signaling.sendInstrumentEvent({ type: 'tonic', tonic }, to)
+    if (drone.on) signaling.sendInstrumentEvent({ type: 'drone', on: true, tonic, pattern: drone.pattern }, to)
+  }, [])
+
   // Handle participant joined
   const handleParticipantJoined = useCallback((message: SignalingMessage) => {
     const remoteId = message.payload.id
@@ -589,6 +808,15 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
 
     console.log(`[VideoWebRTC] Participant joined: ${remoteId}`)
 
+    // Late joiners learn the room's audio mode and admissions from the host
+    if (isHostRef.current && musicModeRef.current) {
+      signalingRef.current?.updateAudioMode(true)
+    }
+    if (isHostRef.current) {
+      signalingRef.current?.updateRoomState(roomAccessRef.current.admittedIds, roomAccessRef.current.locked)
+    }
+    sendInstrumentState(remoteId)
+
     const attemptConnection = (retryCount = 0) => {
       if (!localStreamRef.current) {
         if (retryCount < 5) {
@@ -606,6 +834,12 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
         return
       }
 
+      // Waiting participants are connected once admitted (syncPeersWithAdmission)
+      if (!signalingRef.current?.canConnectWith(remoteId)) {
+        console.log(`[VideoWebRTC] ${remoteId} is not admitted yet, not connecting`)
+        return
+      }
+
       // Creating the peer connection will add tracks, which triggers onnegotiationneeded
       createPeerConnection(remoteId)
 
@@ -620,7 +854,7 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
     }
 
     attemptConnection()
-  }, [createPeerConnection, isPolite, sendOffer])
+  }, [createPeerConnection, isPolite, sendOffer, sendInstrumentState])
 
   // Handle participant left
   const handleParticipantLeft = useCallback((message: SignalingMessage) => {
@@ -816,6 +1050,8 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
     const audioContext = new AudioContext()
     audioContextRef.current = audioContext
     const destination = audioContext.createMediaStreamDestination()
+    mixDestinationRef.current = destination
+    mixedTrackIdsRef.current = new Set()
 
     // An AudioContext created without a user gesture starts 'suspended', and a
     // suspended context pumps silence into the destination. That alone produces
@@ -830,7 +1066,7 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
     console.log(`[RecordingAudio] AudioContext state=${audioContext.state} sampleRate=${audioContext.sampleRate}`)
 
     // Mix audio from both streams
-    const allStreams = [localStreamRef.current, ...Array.from(remoteStreams.values())].filter(Boolean)
+    const allStreams = [localStreamRef.current, instrumentStreamRef.current, ...Array.from(remoteStreams.values())].filter(Boolean)
     console.log(
       `[RecordingAudio] Mixing from ${allStreams.length} stream(s): ` +
       `local=${localStreamRef.current ? 'yes' : 'NO'} remote=${remoteStreams.size}`
@@ -858,6 +1094,7 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
 
         const source = audioContext.createMediaStreamSource(new MediaStream([audioTracks[0]]))
         source.connect(destination)
+        mixedTrackIdsRef.current.add(t.id)
         connectedTrackCount++
       }
     })
@@ -903,6 +1140,26 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
     return combinedStream
   }, [remoteStreams])
 
+  // Stop the audio-only recorder. Resolves once its last chunk has been
+  // written to the sink, so finish() sees the whole audio track.
+  const stopAudioRecorder = useCallback((): Promise<void> => {
+    const recorder = audioRecorderRef.current
+    audioRecorderRef.current = null
+    if (!recorder || recorder.state === 'inactive') return Promise.resolve()
+
+    return new Promise((resolve) => {
+      const timeoutId = setTimeout(() => {
+        console.warn('[RecordingAudio] Audio-only recorder stop timed out')
+        resolve()
+      }, 10000)
+      recorder.onstop = () => {
+        clearTimeout(timeoutId)
+        resolve()
+      }
+      recorder.stop()
+    })
+  }, [])
+
   // Auto-stop recording after 2 hours and upload
   const autoStopRecording = useCallback(async () => {
     console.log('[VideoWebRTC] Auto-stopping recording after 2 hours...')
@@ -912,6 +1169,9 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
       return
     }
 
+    // Must stop before the AudioContext below is closed
+    const audioStopped = stopAudioRecorder()
+
     // Create a promise that resolves when recording stops
     const blob = await new Promise<Blob | null>((resolve) => {
       const recorder = mediaRecorderRef.current!
@@ -922,8 +1182,8 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
 
       recorder.onstop = () => {
         clearTimeout(timeoutId)
-        const recordingBlob = new Blob(recordedChunksRef.current, { type: 'video/webm' })
-        console.log('[VideoWebRTC] Recording auto-stopped, blob size:', recordingBlob.size)
+        const recordingBlob = recordingSink ? null : new Blob(recordedChunksRef.current, { type: 'video/webm' })
+        console.log('[VideoWebRTC] Recording auto-stopped, blob size:', recordingBlob?.size ?? 'streamed')
         recordedChunksRef.current = []
         setIsRecording(false)
         signalingRef.current?.updateRecordingStatus(false)
@@ -948,6 +1208,7 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
     if (audioContextRef.current) {
       audioContextRef.current.close().catch(() => {})
       audioContextRef.current = null
+      mixDestinationRef.current = null
     }
 
     // Clear timeout ref
@@ -955,7 +1216,10 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
     recordingStartTimeRef.current = null
 
     // Upload the recording
-    if (blob && blob.size > 0 && onRecordingComplete) {
+    if (recordingSink) {
+      await audioStopped
+      await recordingSink.finish()
+    } else if (blob && blob.size > 0 && onRecordingComplete) {
       console.log('[VideoWebRTC] Uploading auto-stopped recording...')
       try {
         await onRecordingComplete(blob)
@@ -964,7 +1228,7 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
         console.error('[VideoWebRTC] Error uploading auto-stopped recording:', err)
       }
     }
-  }, [onRecordingComplete])
+  }, [onRecordingComplete, recordingSink, stopAudioRecorder])
 
   // Start recording
   const startRecordingInternal = useCallback(() => {
@@ -977,15 +1241,12 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
       }
       console.log('[VideoWebRTC] Combined stream created with', stream.getTracks().length, 'tracks')
 
-      // The audio mix is built once, here. A participant who joins after this
-      // point is NOT in the recorded audio, because createCombinedStream is not
-      // re-run. If recording starts before the student connects, the lesson is
-      // captured with the teacher's microphone only, or silence.
+      // The audio mix is built here; participants who join later are
+      // connected to it by the effect on remoteStreams below.
       if (remoteStreams.size === 0) {
         console.warn(
           '[RecordingAudio] Recording is starting with NO remote participant connected. ' +
-          'Only local audio will be captured, and a participant joining later will not be ' +
-          'added to the mix.'
+          'Only local audio is captured until someone joins.'
         )
       }
 
@@ -998,7 +1259,9 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
       recordedChunksRef.current = []
 
       recorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
+        if (event.data.size > 0 && recordingSink) {
+          recordingSink.write(event.data)
+        } else if (event.data.size > 0) {
           recordedChunksRef.current.push(event.data)
           // Log every 10 chunks to confirm data is being captured
           if (recordedChunksRef.current.length % 10 === 0) {
@@ -1009,17 +1272,41 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
       }
 
       recorder.onstop = () => {
-        const blob = new Blob(recordedChunksRef.current, { type: 'video/webm' })
-        recordedChunksRef.current = []
-        onRecordingComplete?.(blob)
+        if (recordingSink) {
+          void stopAudioRecorder().then(() => recordingSink.finish())
+        } else {
+          const blob = new Blob(recordedChunksRef.current, { type: 'video/webm' })
+          recordedChunksRef.current = []
+          onRecordingComplete?.(blob)
+        }
 
         if (animationFrameRef.current) {
           cancelAnimationFrame(animationFrameRef.current)
         }
       }
 
+      recordingSink?.start()
       recorder.start(1000)
       mediaRecorderRef.current = recorder
+
+      // The same mix recorded on its own: a small file to transcribe and for
+      // the student to listen back to. Only uploaded in parts, so sink-only.
+      const mixedAudio = stream.getAudioTracks()
+      if (recordingSink && mixedAudio.length > 0) {
+        const audioMimeType = MediaRecorder.isTypeSupported('audio/webm;codecs=opus')
+          ? 'audio/webm;codecs=opus'
+          : 'audio/webm'
+        const audioRecorder = new MediaRecorder(new MediaStream(mixedAudio), {
+          mimeType: audioMimeType,
+          audioBitsPerSecond: AUDIO_TRACK_BITRATE,
+        })
+        audioRecorder.ondataavailable = (event) => {
+          if (event.data.size > 0) recordingSink.write(event.data, 'audio')
+        }
+        audioRecorder.start(1000)
+        audioRecorderRef.current = audioRecorder
+      }
+
       recordingStartTimeRef.current = Date.now()
       setIsRecording(true)
       console.log('[VideoWebRTC] Recording started')
@@ -1041,7 +1328,7 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
     // remoteStreams.size drives the "no participant connected" warning above.
     // createCombinedStream already depends on remoteStreams, so this callback's
     // identity was changing with it regardless.
-  }, [createCombinedStream, onRecordingComplete, autoStopRecording, remoteStreams.size])
+  }, [createCombinedStream, onRecordingComplete, recordingSink, autoStopRecording, stopAudioRecorder, remoteStreams.size])
 
   // Stop recording and return the blob (without disconnecting)
   const stopRecordingAndGetBlob = useCallback(async (): Promise<Blob | null> => {
@@ -1059,6 +1346,9 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
 
     console.log('[VideoWebRTC] Stopping recording... chunks collected:', recordedChunksRef.current.length)
 
+    // Must stop before the AudioContext below is closed
+    const audioStopped = stopAudioRecorder()
+
     // Create a promise that resolves when recording stops, with timeout
     const recordingPromise = new Promise<Blob | null>((resolve) => {
       const recorder = mediaRecorderRef.current!
@@ -1069,8 +1359,8 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
 
       recorder.onstop = () => {
         clearTimeout(timeoutId)
-        const blob = new Blob(recordedChunksRef.current, { type: 'video/webm' })
-        console.log('[VideoWebRTC] Recording stopped, blob size:', blob.size)
+        const blob = recordingSink ? null : new Blob(recordedChunksRef.current, { type: 'video/webm' })
+        console.log('[VideoWebRTC] Recording stopped, blob size:', blob?.size ?? 'streamed')
         recordedChunksRef.current = []
         setIsRecording(false)
         signalingRef.current?.updateRecordingStatus(false)
@@ -1095,10 +1385,19 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
     if (audioContextRef.current) {
       audioContextRef.current.close().catch(() => {})
       audioContextRef.current = null
+      mixDestinationRef.current = null
+    }
+
+    // A sink has been receiving the recording all along; wait for it to
+    // upload the tail and register the recording.
+    if (recordingSink) {
+      await Promise.all([recordingPromise, audioStopped])
+      await recordingSink.finish()
+      return null
     }
 
     return recordingPromise
-  }, [])
+  }, [recordingSink, stopAudioRecorder])
 
   // Internal disconnect helper so we can optionally preserve auto-reconnect behavior.
   const disconnectInternal = useCallback(async (markUserDisconnected: boolean) => {
@@ -1128,7 +1427,7 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
       } catch (err) {
         console.error('[VideoWebRTC] Error uploading recording:', err)
       }
-    } else {
+    } else if (!recordingSink) {
       console.warn('[VideoWebRTC] Skipping upload:', {
         hasBlob: !!recordingBlob,
         blobSize: recordingBlob?.size ?? 0,
@@ -1165,6 +1464,8 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
     setHasLocalStream(false)
     setIsConnected(false)
     setRemoteStreams(new Map())
+    setRemoteExtraAudio(new Map())
+    instrumentStreamRef.current = null
     setIsInitialized(false)
     setError(null)
     setIsMuted(false)
@@ -1172,7 +1473,7 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
     setIsScreenSharing(false)
 
     console.log('[VideoWebRTC] Disconnect complete')
-  }, [onRecordingComplete, stopRecordingAndGetBlob])
+  }, [onRecordingComplete, recordingSink, stopRecordingAndGetBlob])
 
   // Disconnect - exposed via ref for parent to call
   const disconnect = useCallback(async () => {
@@ -1197,6 +1498,107 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
     isRecording: () => isRecording,
   }), [disconnect, reconnect, stopRecordingAndGetBlob, isRecording])
 
+  // Bring peer connections in line with the waiting room: close connections
+  // to anyone the host removed, open them to anyone newly admitted
+  const syncPeersWithAdmission = useCallback(() => {
+    const signaling = signalingRef.current
+    if (!signaling || !localStreamRef.current) return
+    const present = signaling.getRoomState().participants
+
+    peerConnectionsRef.current.forEach((peer, peerId) => {
+      if (!present.has(peerId) || signaling.canConnectWith(peerId)) return
+      console.log(`[VideoWebRTC] ${peerId} is no longer admitted, closing connection`)
+      peer.connection.close()
+      peerConnectionsRef.current.delete(peerId)
+      setRemoteStreams(prev => {
+        const newMap = new Map(prev)
+        newMap.delete(peerId)
+        return newMap
+      })
+    })
+
+    signaling.getParticipants().forEach(p => {
+      if (p.id === participantIdRef.current || peerConnectionsRef.current.has(p.id)) return
+      if (!signaling.canConnectWith(p.id)) return
+      console.log(`[VideoWebRTC] Connecting to admitted participant ${p.id}`)
+      createPeerConnection(p.id)
+      if (!isPolite(p.id)) setTimeout(() => sendOffer(p.id), 100)
+    })
+  }, [createPeerConnection, isPolite, sendOffer])
+
+  // Host only: change who is admitted or the lock, and tell the room
+  const publishRoomAccess = useCallback((next: RoomAccess) => {
+    if (!isHostRef.current) return
+    roomAccessRef.current = next
+    setRoomAccess(next)
+    saveRoomAccess(roomId, next)
+    signalingRef.current?.updateRoomState(next.admittedIds, next.locked)
+    syncPeersWithAdmission()
+  }, [roomId, syncPeersWithAdmission])
+
+  const admitParticipant = useCallback((id: string) => {
+    const current = roomAccessRef.current
+    if (current.admittedIds.includes(id)) return
+    publishRoomAccess({ ...current, admittedIds: [...current.admittedIds, id] })
+  }, [publishRoomAccess])
+
+  // Also how the host turns someone away from the waiting room
+  const removeParticipant = useCallback((id: string) => {
+    const current = roomAccessRef.current
+    signalingRef.current?.sendHostAction('remove', id)
+    publishRoomAccess({ ...current, admittedIds: current.admittedIds.filter(admitted => admitted !== id) })
+  }, [publishRoomAccess])
+
+  const muteParticipant = useCallback((id: string) => {
+    signalingRef.current?.sendHostAction('mute', id)
+  }, [])
+
+  const toggleRoomLock = useCallback(() => {
+    const current = roomAccessRef.current
+    publishRoomAccess({ ...current, locked: !current.locked })
+  }, [publishRoomAccess])
+
+  const endClassForEveryone = useCallback(() => {
+    if (!isHostRef.current) return
+    if (!window.confirm('End the class for everyone?')) return
+    signalingRef.current?.sendHostAction('end-class')
+    // The next class starts with an empty waiting room
+    publishRoomAccess({ admittedIds: [], locked: false })
+    if (onEndClass) onEndClass()
+    else void disconnectInternal(true)
+  }, [publishRoomAccess, onEndClass, disconnectInternal])
+
+  // Everyone but the host: mirror the host's admissions
+  const handleRoomState = useCallback((message: SignalingMessage) => {
+    const next: RoomAccess = {
+      admittedIds: message.payload.admittedIds || [],
+      locked: !!message.payload.locked,
+    }
+    roomAccessRef.current = next
+    setRoomAccess(next)
+    syncPeersWithAdmission()
+  }, [syncPeersWithAdmission])
+
+  const handleHostAction = useCallback((message: SignalingMessage) => {
+    const action = message.payload.action
+    console.log(`[VideoWebRTC] Host action: ${action}`)
+
+    if (action === 'mute') {
+      // The host can mute anyone; only they can unmute themselves
+      const audioTrack = localStreamRef.current?.getAudioTracks()[0]
+      if (!audioTrack?.enabled) return
+      audioTrack.enabled = false
+      setIsMuted(true)
+      const self = signalingRef.current?.getRoomState().participants.get(participantIdRef.current)
+      signalingRef.current?.updateMediaStatus(true, self?.isVideoOff ?? false, self?.isScreenSharing ?? false)
+    } else if (action === 'remove' || action === 'end-class') {
+      setRoomNotice(action === 'remove'
+        ? 'The teacher removed you from the lesson room.'
+        : 'The teacher ended the class for everyone.')
+      void disconnectInternal(true)
+    }
+  }, [disconnectInternal])
+
   // If the class is no longer joinable (teacher ended class), cleanly disconnect.
   useEffect(() => {
     if (!canJoin && (isConnected || isInitialized)) {
@@ -1216,6 +1618,9 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
 
     if (wasNotJoinable && isNowJoinable) {
       console.log('[VideoWebRTC] canJoin transitioned from false to true - forcing reinitialization')
+      setRoomNotice(null)
+      // A new class starts with its own chat
+      setChatMessages([])
       // Reset all states that might prevent reinitialization
       userDisconnectedRef.current = false
       initializingRef.current = false
@@ -1264,24 +1669,37 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
       try {
         console.log('[VideoWebRTC] Starting initialization...')
 
-        // Request camera/mic access with optimized constraints
+        if (isHostRef.current && loadMusicMode(roomId)) {
+          musicModeRef.current = true
+          setMusicMode(true)
+        }
+        if (isHostRef.current) {
+          roomAccessRef.current = loadRoomAccess(roomId)
+          setRoomAccess(roomAccessRef.current)
+        }
+
+        // Fetched alongside the camera prompt; needed before the first peer connection
+        const turnServersPromise = turnCredentialsUrl ? fetchTurnServers(turnCredentialsUrl) : Promise.resolve(NO_TURN)
+        // Registered before our presence goes out, so peers can look us up by it
+        const roomCertificatePromise = roomCertificateUrl ? createRoomCertificate(roomCertificateUrl) : Promise.resolve(null)
+        // Handled below; don't let a rejection go unobserved while the camera prompt is open
+        roomCertificatePromise.catch(() => {})
+
+        // Request camera/mic access with optimized constraints. Observers
+        // only watch, so they join with an empty stream.
         console.log('[VideoWebRTC] Requesting media access...')
-        const stream = await navigator.mediaDevices.getUserMedia({
-          video: {
-            width: { ideal: 1280, min: 640 },
-            height: { ideal: 720, min: 360 },
-            frameRate: { ideal: 30, max: 30 },
-            facingMode: 'user',
-          },
-          audio: {
-            echoCancellation: true,
-            noiseSuppression: true,
-            autoGainControl: true,
-            // Prioritize voice frequencies
-            sampleRate: 48000,
-            channelCount: 1,
-          },
-        })
+        const stream = roomRoleRef.current === 'observer'
+          ? new MediaStream()
+          : await navigator.mediaDevices.getUserMedia({
+            video: {
+              width: { ideal: 1280, min: 640 },
+              height: { ideal: 720, min: 360 },
+              frameRate: { ideal: 30, max: 30 },
+              facingMode: 'user',
+            },
+            // The host opens straight into the mode last used for this lesson
+            audio: audioConstraints(musicModeRef.current),
+          })
 
         if (cancelled) {
           console.log('[VideoWebRTC] Initialization cancelled, stopping stream')
@@ -1293,8 +1711,19 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
 
         console.log('[VideoWebRTC] Got media stream, tracks:', stream.getTracks().map(t => t.kind))
 
+        turnServersRef.current = await turnServersPromise
+        try {
+          roomCertificateRef.current = await roomCertificatePromise
+        } catch (err) {
+          stream.getTracks().forEach(track => track.stop())
+          throw err
+        }
+
         localStreamRef.current = stream
-        setSharedMicStream(stream, sharedMicOwnerIdRef.current)
+        if (stream.getAudioTracks().length > 0) setSharedMicStream(stream, sharedMicOwnerIdRef.current)
+        if (isHostRef.current && instrumentRef.current) {
+          instrumentStreamRef.current = instrumentRef.current.getStream()
+        }
         setHasLocalStream(true)
 
         // Immediately assign to video element
@@ -1310,7 +1739,8 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
           roomId,
           participantIdRef.current,
           participantNameRef.current,
-          isHostRef.current
+          roomRoleRef.current,
+          roomCertificateRef.current?.fingerprint ?? null
         )
         signalingRef.current = signaling
 
@@ -1319,14 +1749,19 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
         signaling.on('ice-candidate', handleIceCandidate)
         signaling.on('participant-joined', handleParticipantJoined)
         signaling.on('participant-left', handleParticipantLeft)
+        signaling.on('audio-mode', (msg) => {
+          void applyAudioMode(!!msg.payload.musicMode)
+        })
+        signaling.on('room-state', handleRoomState)
+        signaling.on('host-action', handleHostAction)
         signaling.on('chat', (msg) => {
-          setChatMessages(prev => [...prev, {
-            id: `${msg.from}-${msg.timestamp}`,
-            from: msg.from,
-            name: msg.payload.senderName,
-            message: msg.payload.message,
-            timestamp: msg.timestamp,
-          }])
+          const message = msg.payload.message as LessonChatMessage
+          if (!message?.id) return
+          setChatMessages(prev => mergeChatMessages(prev, [message]))
+        })
+        signaling.on('instrument', (msg) => {
+          const event = msg.payload.event as InstrumentEvent
+          if (event?.type) onInstrumentEventRef.current?.(event)
         })
 
         signaling.onParticipantChange((updatedParticipants) => {
@@ -1336,7 +1771,8 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
           // This handles the case where presence syncs after connect() resolves
           if (localStreamRef.current) {
             updatedParticipants.forEach(p => {
-              if (p.id !== participantIdRef.current && !peerConnectionsRef.current.has(p.id)) {
+              if (p.id !== participantIdRef.current && !peerConnectionsRef.current.has(p.id) &&
+                  signaling.canConnectWith(p.id)) {
                 console.log(`[VideoWebRTC] Creating peer connection to participant from presence: ${p.id}`)
                 createPeerConnection(p.id)
 
@@ -1374,6 +1810,14 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
         initializingRef.current = false
         console.log('[VideoWebRTC] Initialization complete')
 
+        if (isHostRef.current && musicModeRef.current) {
+          signaling.updateAudioMode(true)
+        }
+        if (isHostRef.current) {
+          signaling.updateRoomState(roomAccessRef.current.admittedIds, roomAccessRef.current.locked)
+        }
+        sendInstrumentState()
+
         // Connect to existing participants
         // Creating peer connections will add tracks, triggering onnegotiationneeded
         // which handles sending offers to the appropriate peers
@@ -1381,7 +1825,7 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
           const existingParticipants = signaling.getParticipants()
           console.log(`[VideoWebRTC] Found ${existingParticipants.length} existing participants (forceOffer=${forceOffer})`)
           existingParticipants.forEach(p => {
-            if (p.id !== participantIdRef.current) {
+            if (p.id !== participantIdRef.current && signaling.canConnectWith(p.id)) {
               const existingPeer = peerConnectionsRef.current.get(p.id)
               if (!existingPeer) {
                 console.log(`[VideoWebRTC] Creating peer connection to existing participant: ${p.id}`)
@@ -1510,8 +1954,11 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
       const localStream = localStreamRef.current
       if (!signaling || !localStream) return
 
+      // Only admitted participants who send media are expected to have a stream
       const participants = signaling.getParticipants()
-      const remoteParticipants = participants.filter(p => p.id !== participantIdRef.current)
+      const remoteParticipants = participants.filter(p =>
+        p.id !== participantIdRef.current && p.role !== 'observer' && signaling.canConnectWith(p.id)
+      )
       const hasRemoteStreams = remoteStreams.size > 0
 
       // If there are participants but no remote streams, try to establish connection
@@ -1628,6 +2075,74 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
   }, [chatMessages])
 
   // Toggle audio
+  const applyAudioMode = useCallback(async (enabled: boolean) => {
+    if (musicModeRef.current === enabled) return
+    musicModeRef.current = enabled
+    setMusicMode(enabled)
+    if (enabled) setHeadphoneWarningDismissed(false)
+    console.log(`[VideoWebRTC] Switching to ${enabled ? 'music' : 'speech'} audio`)
+
+    // Observers have no microphone to reopen; the mode still shapes their SDP
+    const stream = localStreamRef.current
+    if (!stream || roomRoleRef.current === 'observer') return
+
+    // Echo cancellation and friends can't be reliably switched on a live
+    // track, so the microphone is reopened with the new constraints
+    let newTrack: MediaStreamTrack
+    try {
+      const audioStream = await navigator.mediaDevices.getUserMedia({ audio: audioConstraints(enabled) })
+      newTrack = audioStream.getAudioTracks()[0]
+    } catch (err) {
+      console.error('[VideoWebRTC] Failed to reopen microphone for audio mode change:', err)
+      return
+    }
+    if (musicModeRef.current !== enabled) {
+      // Toggled back while the microphone was opening
+      newTrack.stop()
+      return
+    }
+
+    const oldTrack = stream.getAudioTracks()[0]
+    if (oldTrack) {
+      newTrack.enabled = oldTrack.enabled
+      stream.removeTrack(oldTrack)
+    }
+    stream.addTrack(newTrack)
+    oldTrack?.stop()
+    setSharedMicStream(stream, sharedMicOwnerIdRef.current)
+
+    // Keep the recording's mix on the live microphone
+    if (audioContextRef.current && mixDestinationRef.current) {
+      audioContextRef.current.createMediaStreamSource(new MediaStream([newTrack])).connect(mixDestinationRef.current)
+      mixedTrackIdsRef.current.add(newTrack.id)
+    }
+
+    peerConnectionsRef.current.forEach((peer, peerId) => {
+      const pc = peer.connection
+      const sender = pc.getSenders().find(s => s.track === oldTrack || s.track?.kind === 'audio')
+      if (sender) {
+        sender.replaceTrack(newTrack)
+          .then(() => applyAudioSendBitrate(pc, enabled))
+          .catch(err => console.error(`[VideoWebRTC] Failed to replace audio track for ${peerId}:`, err))
+      } else {
+        pc.addTrack(newTrack, stream)
+      }
+
+      // Renegotiate so the new Opus parameters take effect. Both sides get
+      // the mode change; the impolite one makes the offer.
+      if (!isPolite(peerId)) void sendOffer(peerId)
+    })
+  }, [isPolite, sendOffer])
+
+  // Host only: switch the whole room between speech and music audio
+  const toggleMusicMode = useCallback(() => {
+    if (!isHost) return
+    const next = !musicModeRef.current
+    saveMusicMode(roomId, next)
+    signalingRef.current?.updateAudioMode(next)
+    void applyAudioMode(next)
+  }, [isHost, roomId, applyAudioMode])
+
   const toggleAudio = useCallback(() => {
     if (localStreamRef.current) {
       const audioTrack = localStreamRef.current.getAudioTracks()[0]
@@ -1729,6 +2244,138 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
     }
   }, [isScreenSharing, isMuted, isVideoOff, restoreCamera])
 
+  // Refresh TURN credentials before they expire. Live connections take the
+  // new credentials for any future gathering (ICE restarts).
+  useEffect(() => {
+    if (!isConnected || !turnCredentialsUrl) return
+    let timeoutId: ReturnType<typeof setTimeout> | null = null
+    let cancelled = false
+
+    const schedule = () => {
+      const delay = refreshDelayMs(turnServersRef.current, Date.now())
+      if (delay === null) return
+      timeoutId = setTimeout(async () => {
+        const turn = await fetchTurnServers(turnCredentialsUrl)
+        if (cancelled) return
+        // Keep what we had if the refresh failed; it may still be valid
+        if (!turn.failed) {
+          turnServersRef.current = turn
+          peerConnectionsRef.current.forEach(peer => {
+            if (peer.connection.connectionState === 'closed') return
+            try {
+              peer.connection.setConfiguration(buildRtcConfiguration(turn, peer.relayOnly))
+            } catch (err) {
+              console.warn('[VideoWebRTC] Failed to apply refreshed TURN credentials:', err)
+            }
+          })
+          console.log('[VideoWebRTC] Refreshed TURN credentials')
+        }
+        schedule()
+      }, delay)
+    }
+
+    schedule()
+    return () => {
+      cancelled = true
+      if (timeoutId) clearTimeout(timeoutId)
+    }
+  }, [isConnected, turnCredentialsUrl])
+
+  // Replay the class's chat on (re)connect; messages that arrive over the
+  // channel meanwhile are merged in by id
+  useEffect(() => {
+    if (!isConnected || !chatUrl) return
+    let cancelled = false
+    fetch(chatUrl)
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`)
+        if (!cancelled) setChatMessages(prev => mergeChatMessages(data.messages ?? [], prev))
+      })
+      .catch((err) => console.warn('[VideoWebRTC] Failed to load chat history:', err))
+    return () => { cancelled = true }
+  }, [isConnected, chatUrl])
+
+  // Host: tell the room what is played on the instrument
+  useEffect(() => {
+    if (!isConnected || !instrument || !isHost) return
+    return instrument.onEvent(event => signalingRef.current?.sendInstrumentEvent(event))
+  }, [isConnected, instrument, isHost])
+
+  // Sample each connection's stats. When the far side starts losing our
+  // packets, outbound video is stepped down so the audio keeps its bandwidth.
+  useEffect(() => {
+    if (!isConnected) return
+    // Keyed by connection, so a reconnected peer starts from full quality
+    const snapshots = new WeakMap<RTCPeerConnection, StatsSnapshot>()
+    const adaptation = new WeakMap<RTCPeerConnection, AdaptationState>()
+    let cancelled = false
+
+    const sampleAll = async () => {
+      const latest = new Map<string, PeerStatsSample>()
+      for (const [peerId, peer] of Array.from(peerConnectionsRef.current)) {
+        const pc = peer.connection
+        if (pc.connectionState !== 'connected') continue
+
+        let report: RTCStatsReport
+        try {
+          report = await pc.getStats()
+        } catch {
+          continue
+        }
+        if (cancelled) return
+
+        const now = Date.now()
+        const { sample, snapshot } = readPeerStats(report, snapshots.get(pc) ?? null, now)
+        snapshots.set(pc, snapshot)
+
+        const before = adaptation.get(pc) ?? INITIAL_ADAPTATION
+        const after = adaptVideoLevel(before, sample)
+        adaptation.set(pc, after)
+
+        const full: PeerStatsSample = {
+          ...sample,
+          at: new Date(now).toISOString(),
+          peerId,
+          videoLevel: after.level,
+          quality: classifyQuality(sample),
+        }
+        if (after.level !== before.level) {
+          console.log(
+            `[CallQuality] ${peerId}: outbound video ${after.level > before.level ? 'reduced' : 'restored'} ` +
+            `to level ${after.level} (${describeProblem(full)})`
+          )
+          applyVideoLevel(pc, after.level)
+        }
+
+        latest.set(peerId, full)
+        onQualitySampleRef.current?.(full)
+      }
+      if (!cancelled) setPeerQuality(latest)
+    }
+
+    const intervalId = setInterval(() => void sampleAll(), QUALITY_SAMPLE_MS)
+    return () => {
+      cancelled = true
+      clearInterval(intervalId)
+    }
+  }, [isConnected])
+
+  // Connect participants who join mid-recording to the recording's audio mix
+  useEffect(() => {
+    const audioContext = audioContextRef.current
+    const destination = mixDestinationRef.current
+    if (!isRecording || !audioContext || !destination) return
+
+    remoteStreams.forEach((stream, peerId) => {
+      const track = stream.getAudioTracks()[0]
+      if (!track || mixedTrackIdsRef.current.has(track.id)) return
+      audioContext.createMediaStreamSource(new MediaStream([track])).connect(destination)
+      mixedTrackIdsRef.current.add(track.id)
+      console.log(`[RecordingAudio] Added ${peerId} to the recording mix`)
+    })
+  }, [isRecording, remoteStreams])
+
   // Toggle recording
   const toggleRecording = useCallback(() => {
     if (!isHost) return
@@ -1744,24 +2391,107 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
     }
   }, [isRecording, isHost, startRecordingInternal])
 
-  // Send chat message
-  const sendChatMessage = useCallback(() => {
-    if (!chatInput.trim()) return
-
-    setChatMessages((prev) => [
-      ...prev,
-      {
-        id: `${participantId}-${Date.now()}`,
-        from: participantId,
-        name: participantName,
-        message: chatInput.trim(),
-        timestamp: Date.now(),
-      },
-    ])
+  // Send chat message: saved first so everyone replays the same message, then
+  // broadcast. Without a chat endpoint it only goes over the channel.
+  const postChatMessage = useCallback(async (body: string, attachment?: { path: string; name: string; type: string; size: number }) => {
+    let message: LessonChatMessage = {
+      id: `${participantId}-${Date.now()}`,
+      senderId: participantId,
+      senderName: participantName,
+      body,
+      attachment: null,
+      createdAt: new Date().toISOString(),
+      pinnedAt: null,
+    }
+    if (chatUrl) {
+      const response = await fetch(chatUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body, attachment }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to send message')
+      message = data.message
+    }
+    setChatMessages((prev) => mergeChatMessages(prev, [message]))
+    signalingRef.current?.sendChatMessage(message)
+  }, [chatUrl, participantId, participantName])
+
+  const sendChatMessage = useCallback(async () => {
+    const body = chatInput.trim()
+    if (!body || chatSending) return
+    setChatSending(true)
+    setChatError(null)
+    try {
+      await postChatMessage(body)
+      setChatInput('')
+    } catch (err) {
+      setChatError(err instanceof Error ? err.message : 'Failed to send message')
+    } finally {
+      setChatSending(false)
+    }
+  }, [chatInput, chatSending, postChatMessage])
 
-    signalingRef.current?.sendChatMessage(chatInput.trim())
-    setChatInput('')
-  }, [chatInput, participantId, participantName])
+  // Share a file in chat: upload straight to storage, then send it as a message
+  const shareChatFile = useCallback(async (file: File) => {
+    if (!chatUrl) return
+    if (file.size > MAX_CHAT_FILE_BYTES) {
+      setChatError(`Files are limited to ${Math.round(MAX_CHAT_FILE_BYTES / 1024 / 1024)} MB`)
+      return
+    }
+    if (!isChatFileType(file.type)) {
+      setChatError('Share images, audio, video, PDFs, documents or sheet music')
+      return
+    }
+    setChatSending(true)
+    setChatError(null)
+    try {
+      const urlResponse = await fetch(`${chatUrl}/attachments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ filename: file.name, size: file.size, type: file.type }),
+      })
+      const urlData = await urlResponse.json()
+      if (!urlResponse.ok) throw new Error(urlData.error || 'Failed to get upload URL')
+
+      const upload = await fetch(urlData.uploadUrl, {
+        method: 'PUT',
+        headers: { 'Content-Type': file.type },
+        body: file,
+      })
+      if (!upload.ok) throw new Error('Failed to upload file')
+
+      await postChatMessage(chatInput.trim(), {
+        path: urlData.storagePath,
+        name: file.name,
+        type: file.type,
+        size: file.size,
+      })
+      setChatInput('')
+    } catch (err) {
+      setChatError(err instanceof Error ? err.message : 'Failed to share file')
+    } finally {
+      setChatSending(false)
+    }
+  }, [chatUrl, chatInput, postChatMessage])
+
+  const pinChatMessage = useCallback(async (message: LessonChatMessage) => {
+    if (!onPinChatMessage) return
+    try {
+      await onPinChatMessage(message)
+      const pinnedAt = new Date().toISOString()
+      setChatMessages((prev) => prev.map((m) => (m.id === message.id ? { ...m, pinnedAt } : m)))
+      if (chatUrl) {
+        await fetch(chatUrl, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ messageId: message.id }),
+        })
+      }
+    } catch (err) {
+      setChatError(err instanceof Error ? err.message : 'Failed to pin message')
+    }
+  }, [chatUrl, onPinChatMessage])
 
   const remoteStreamArray = Array.from(remoteStreams.entries())
   const hasRemoteStream = remoteStreamArray.length > 0
@@ -1769,6 +2499,22 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
   // Debug logging for remote streams state
   console.log(`[VideoWebRTC] Render: remoteStreams.size=${remoteStreams.size}, hasRemoteStream=${hasRemoteStream}, hasLocalStream=${hasLocalStream}, isConnected=${isConnected}`)
 
+  const isAdmitted = roomRole === 'host' || roomAccess.admittedIds.includes(participantId)
+  const waitingParticipants = isHost
+    ? participants.filter(p => p.id !== participantId && p.role !== 'host' && !roomAccess.admittedIds.includes(p.id))
+    : []
+
+  // Removed by the host, or the host ended the class
+  if (roomNotice) {
+    return (
+      <div className={`relative w-full h-full ${className || ''}`}>
+        <div className="h-full w-full bg-black/80 flex items-center justify-center">
+          <p className="text-sm text-gray-400">{roomNotice}</p>
+        </div>
+      </div>
+    )
+  }
+
   // Not joined state
   if (!canJoin) {
     return (
@@ -1810,6 +2556,9 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
         className="hidden"
         id="persistent-local-video"
       />
+      {Array.from(remoteExtraAudio).filter(([peerId]) => remoteStreams.has(peerId)).map(([peerId, stream]) => (
+        <RemoteAudio key={peerId} stream={stream} />
+      ))}
 
       {isMiniPlayer ? (
         /* Mini player layout */
@@ -1837,6 +2586,21 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
               <span className="text-[10px] text-white font-medium">REC</span>
             </div>
           )}
+          {musicMode && (
+            <span className="absolute bottom-1 left-1 p-1 bg-[#CEB466]/90 rounded-full" title="Music mode - use headphones">
+              <Headphones className="w-3 h-3 text-[#171229]" />
+            </span>
+          )}
+          {isConnected && !isAdmitted && (
+            <div className="absolute inset-x-0 top-1 text-center">
+              <span className="px-2 py-0.5 bg-black/70 rounded-full text-[10px] text-gray-200">In waiting room</span>
+            </div>
+          )}
+          {waitingParticipants.length > 0 && !roomAccess.locked && (
+            <span className="absolute top-1 left-1/2 -translate-x-1/2 px-2 py-0.5 bg-[#CEB466]/90 rounded-full text-[10px] text-[#171229] font-medium">
+              {waitingParticipants.length} waiting
+            </span>
+          )}
         </div>
       ) : (
         /* Full view layout */
@@ -1855,6 +2619,7 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
                           participantName={participant?.name || 'Participant'}
                           isMuted={participant?.isMuted || false}
                           isVideoOff={participant?.isVideoOff || false}
+                          quality={peerQuality.get(peerId)}
                         />
                       )
                     })}
@@ -1908,6 +2673,64 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
                 <span className="text-sm text-white font-medium">Recording</span>
               </div>
             )}
+
+            {musicMode && !headphoneWarningDismissed && (
+              <div className="absolute top-6 left-1/2 -translate-x-1/2 flex items-start gap-3 max-w-md px-4 py-3 bg-gray-900/95 border border-[#CEB466]/40 rounded-xl z-10">
+                <Headphones className="w-5 h-5 text-[#CEB466] shrink-0 mt-0.5" />
+                <div className="text-sm">
+                  <p className="text-white font-medium">Music mode is on - please wear headphones</p>
+                  <p className="text-gray-400 text-xs mt-0.5">
+                    Echo cancellation and noise suppression are off for full-range sound, so audio from
+                    speakers will feed back into the lesson.
+                  </p>
+                </div>
+                <button onClick={() => setHeadphoneWarningDismissed(true)} className="p-0.5 text-gray-400 hover:text-white" title="Dismiss">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+
+            {isConnected && !isAdmitted && (
+              <div className="absolute inset-0 flex items-center justify-center bg-black/60 z-10">
+                <div className="text-center max-w-sm px-6 py-5 bg-gray-900/95 border border-white/10 rounded-xl">
+                  {roomAccess.locked ? (
+                    <Lock className="w-8 h-8 text-gray-400 mx-auto mb-3" />
+                  ) : (
+                    <div className="w-8 h-8 border-2 border-[#CEB466] border-t-transparent rounded-full animate-spin mx-auto mb-3" />
+                  )}
+                  <p className="text-white font-medium">
+                    {roomAccess.locked ? 'The lesson room is locked' : 'Waiting for the teacher to let you in'}
+                  </p>
+                  <p className="text-gray-400 text-sm mt-1">
+                    {roomAccess.locked
+                      ? 'The teacher has locked the room. You will be let in if they unlock it.'
+                      : isObserver
+                        ? 'You will be able to watch the lesson once admitted.'
+                        : 'Check your camera and microphone while you wait.'}
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {waitingParticipants.length > 0 && !roomAccess.locked && (
+              <div className="absolute top-6 right-6 w-72 bg-gray-900/95 border border-[#CEB466]/40 rounded-xl p-3 space-y-2 z-20">
+                <p className="text-sm font-medium text-white">Waiting room</p>
+                {waitingParticipants.map(p => (
+                  <div key={p.id} className="flex items-center gap-2">
+                    <span className="flex-1 min-w-0 text-sm text-gray-200 truncate">
+                      {p.name}
+                      {p.role === 'observer' && <span className="ml-1 text-xs text-gray-500">Observer</span>}
+                    </span>
+                    <button onClick={() => admitParticipant(p.id)} className="p-1.5 rounded-lg bg-[#CEB466] text-[#171229] hover:bg-[#e0c97d]" title="Admit">
+                      <UserCheck className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => removeParticipant(p.id)} className="p-1.5 rounded-lg bg-gray-700 text-white hover:bg-red-600" title="Deny">
+                      <UserX className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Side Panel */}
@@ -1929,9 +2752,30 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
                   </div>
                   <div className="flex-1 min-w-0">
                     <p className="text-sm text-white truncate">{p.name} {p.id === participantId && '(You)'}</p>
-                    <p className="text-xs text-gray-500">{p.isHost ? 'Host' : 'Participant'}</p>
+                    <p className="text-xs text-gray-500">
+                      {p.role === 'host' ? 'Host' : p.role === 'observer' ? 'Observer' : 'Participant'}
+                      {p.role !== 'host' && !roomAccess.admittedIds.includes(p.id) && ' · waiting'}
+                    </p>
                   </div>
-                  {p.isMuted ? <VolumeX className="w-4 h-4 text-red-400" /> : <Volume2 className="w-4 h-4 text-green-400" />}
+                  {p.role === 'observer' ? (
+                    <Eye className="w-4 h-4 text-gray-400" />
+                  ) : p.isMuted ? (
+                    <VolumeX className="w-4 h-4 text-red-400" />
+                  ) : (
+                    <Volume2 className="w-4 h-4 text-green-400" />
+                  )}
+                  {isHost && p.id !== participantId && p.role !== 'host' && (
+                    <>
+                      {p.role !== 'observer' && !p.isMuted && (
+                        <button onClick={() => muteParticipant(p.id)} className="p-1 text-gray-400 hover:text-white" title="Mute">
+                          <MicOff className="w-4 h-4" />
+                        </button>
+                      )}
+                      <button onClick={() => removeParticipant(p.id)} className="p-1 text-gray-400 hover:text-red-400" title="Remove from room">
+                        <UserX className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
                 </div>
               ))}
             </div>
@@ -1941,30 +2785,88 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
             <>
               <div ref={chatContainerRef} className="flex-1 overflow-y-auto p-4 space-y-3">
                 {chatMessages.length === 0 && <p className="text-gray-500 text-sm text-center">No messages yet</p>}
-                {chatMessages.map((msg) => (
-                  <div key={msg.id} className={msg.from === participantId ? 'text-right' : 'text-left'}>
-                    <div className={`inline-block max-w-[80%] p-2 rounded-lg ${msg.from === participantId ? 'bg-[#CEB466]/20 text-[#CEB466]' : 'bg-white/10 text-white'}`}>
-                      {msg.from !== participantId && <p className="text-xs text-gray-400 mb-1">{msg.name}</p>}
-                      <p className="text-sm">{msg.message}</p>
+                {chatMessages.map((msg) => {
+                  const mine = msg.senderId === participantId
+                  return (
+                    <div key={msg.id} className={`group ${mine ? 'text-right' : 'text-left'}`}>
+                      <div className={`inline-block max-w-[80%] p-2 rounded-lg text-left ${mine ? 'bg-[#CEB466]/20 text-[#CEB466]' : 'bg-white/10 text-white'}`}>
+                        {!mine && <p className="text-xs text-gray-400 mb-1">{msg.senderName}</p>}
+                        {msg.body && (
+                          <p className="text-sm break-words">
+                            {linkParts(msg.body).map((part, i) => part.href ? (
+                              <a key={i} href={part.href} target="_blank" rel="noopener noreferrer" className="underline">{part.text}</a>
+                            ) : (
+                              <React.Fragment key={i}>{part.text}</React.Fragment>
+                            ))}
+                          </p>
+                        )}
+                        {msg.attachment && (
+                          <a href={msg.attachment.url} target="_blank" rel="noopener noreferrer" className="mt-1 flex items-center gap-1 text-sm underline break-all">
+                            <Paperclip className="w-3.5 h-3.5 flex-shrink-0" />
+                            {msg.attachment.name}
+                          </a>
+                        )}
+                      </div>
+                      {msg.pinnedAt ? (
+                        <p className="text-[10px] text-gray-500 mt-0.5">
+                          <Pin className="w-3 h-3 inline -mt-0.5" /> Pinned to notes
+                        </p>
+                      ) : onPinChatMessage && !isObserver && (
+                        <button
+                          onClick={() => pinChatMessage(msg)}
+                          className="mt-0.5 text-[10px] text-gray-500 hover:text-[#CEB466] opacity-0 group-hover:opacity-100 transition-opacity inline-flex items-center gap-1"
+                          title="Add to the lesson notes"
+                        >
+                          <Pin className="w-3 h-3" /> Pin to notes
+                        </button>
+                      )}
                     </div>
-                  </div>
-                ))}
+                  )
+                })}
               </div>
-              <div className="p-4 border-t border-white/10">
-                <div className="flex gap-2">
-                  <input
-                    type="text"
-                    value={chatInput}
-                    onChange={(e) => setChatInput(e.target.value)}
-                    onKeyPress={(e) => e.key === 'Enter' && sendChatMessage()}
-                    placeholder="Type a message..."
-                    className="flex-1 px-3 py-2 bg-white/10 border border-white/10 rounded-lg text-white placeholder-gray-500 text-sm focus:outline-none focus:border-[#CEB466]/50"
-                  />
-                  <button onClick={sendChatMessage} disabled={!chatInput.trim()} className="p-2 bg-[#CEB466] hover:bg-[#e0c97d] disabled:bg-gray-700 disabled:cursor-not-allowed rounded-lg transition-colors">
-                    <Send className="w-5 h-5 text-[#171229]" />
-                  </button>
+              {isObserver ? (
+                <p className="p-4 border-t border-white/10 text-xs text-gray-500">Observers can read the chat but not send messages.</p>
+              ) : (
+                <div className="p-4 border-t border-white/10 space-y-2">
+                  {chatError && <p className="text-xs text-red-400">{chatError}</p>}
+                  <div className="flex gap-2">
+                    {chatUrl && (
+                      <>
+                        <input
+                          ref={chatFileInputRef}
+                          type="file"
+                          accept={CHAT_FILE_TYPES.join(',')}
+                          className="hidden"
+                          onChange={(e) => {
+                            const file = e.target.files?.[0]
+                            e.target.value = ''
+                            if (file) void shareChatFile(file)
+                          }}
+                        />
+                        <button
+                          onClick={() => chatFileInputRef.current?.click()}
+                          disabled={chatSending}
+                          className="p-2 bg-white/10 hover:bg-white/20 disabled:opacity-50 rounded-lg transition-colors"
+                          title="Share a file"
+                        >
+                          <Paperclip className="w-5 h-5 text-gray-300" />
+                        </button>
+                      </>
+                    )}
+                    <input
+                      type="text"
+                      value={chatInput}
+                      onChange={(e) => setChatInput(e.target.value)}
+                      onKeyPress={(e) => e.key === 'Enter' && sendChatMessage()}
+                      placeholder="Type a message or paste a link..."
+                      className="flex-1 min-w-0 px-3 py-2 bg-white/10 border border-white/10 rounded-lg text-white placeholder-gray-500 text-sm focus:outline-none focus:border-[#CEB466]/50"
+                    />
+                    <button onClick={sendChatMessage} disabled={!chatInput.trim() || chatSending} className="p-2 bg-[#CEB466] hover:bg-[#e0c97d] disabled:bg-gray-700 disabled:cursor-not-allowed rounded-lg transition-colors">
+                      {chatSending ? <Loader2 className="w-5 h-5 text-[#171229] animate-spin" /> : <Send className="w-5 h-5 text-[#171229]" />}
+                    </button>
+                  </div>
                 </div>
-              </div>
+              )}
             </>
           )}
         </div>
@@ -1972,17 +2874,26 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
 
       {/* Controls */}
       <div className="h-20 border-t border-white/10 bg-gray-900/50 flex items-center justify-center gap-3 px-4">
-        <button onClick={toggleAudio} disabled={!hasLocalStream} className={`p-4 rounded-full transition-colors ${!hasLocalStream ? 'bg-gray-800 text-gray-600 cursor-not-allowed' : isMuted ? 'bg-red-500 text-white hover:bg-red-600' : 'bg-gray-700 text-white hover:bg-gray-600'}`} title={isMuted ? 'Unmute' : 'Mute'}>
-          {isMuted ? <MicOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
-        </button>
+        {isObserver ? (
+          <span className="flex items-center gap-2 px-4 py-2 rounded-full bg-gray-800 text-sm text-gray-300" title="Observers watch without camera or microphone">
+            <Eye className="w-4 h-4" />
+            Observing
+          </span>
+        ) : (
+          <>
+            <button onClick={toggleAudio} disabled={!hasLocalStream} className={`p-4 rounded-full transition-colors ${!hasLocalStream ? 'bg-gray-800 text-gray-600 cursor-not-allowed' : isMuted ? 'bg-red-500 text-white hover:bg-red-600' : 'bg-gray-700 text-white hover:bg-gray-600'}`} title={isMuted ? 'Unmute' : 'Mute'}>
+              {isMuted ? <MicOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
+            </button>
 
-        <button onClick={toggleVideo} disabled={!hasLocalStream} className={`p-4 rounded-full transition-colors ${!hasLocalStream ? 'bg-gray-800 text-gray-600 cursor-not-allowed' : isVideoOff ? 'bg-red-500 text-white hover:bg-red-600' : 'bg-gray-700 text-white hover:bg-gray-600'}`} title={isVideoOff ? 'Turn on camera' : 'Turn off camera'}>
-          {isVideoOff ? <VideoOff className="w-5 h-5" /> : <Video className="w-5 h-5" />}
-        </button>
+            <button onClick={toggleVideo} disabled={!hasLocalStream} className={`p-4 rounded-full transition-colors ${!hasLocalStream ? 'bg-gray-800 text-gray-600 cursor-not-allowed' : isVideoOff ? 'bg-red-500 text-white hover:bg-red-600' : 'bg-gray-700 text-white hover:bg-gray-600'}`} title={isVideoOff ? 'Turn on camera' : 'Turn off camera'}>
+              {isVideoOff ? <VideoOff className="w-5 h-5" /> : <Video className="w-5 h-5" />}
+            </button>
 
-        <button onClick={toggleScreenShare} disabled={!hasLocalStream} className={`p-4 rounded-full transition-colors ${!hasLocalStream ? 'bg-gray-800 text-gray-600 cursor-not-allowed' : isScreenSharing ? 'bg-green-500 text-white hover:bg-green-600' : 'bg-gray-700 text-white hover:bg-gray-600'}`} title={isScreenSharing ? 'Stop sharing' : 'Share screen'}>
-          {isScreenSharing ? <MonitorOff className="w-5 h-5" /> : <Monitor className="w-5 h-5" />}
-        </button>
+            <button onClick={toggleScreenShare} disabled={!hasLocalStream} className={`p-4 rounded-full transition-colors ${!hasLocalStream ? 'bg-gray-800 text-gray-600 cursor-not-allowed' : isScreenSharing ? 'bg-green-500 text-white hover:bg-green-600' : 'bg-gray-700 text-white hover:bg-gray-600'}`} title={isScreenSharing ? 'Stop sharing' : 'Share screen'}>
+              {isScreenSharing ? <MonitorOff className="w-5 h-5" /> : <Monitor className="w-5 h-5" />}
+            </button>
+          </>
+        )}
 
         {isHost && (
           <button onClick={toggleRecording} disabled={!hasLocalStream} className={`p-4 rounded-full transition-colors ${!hasLocalStream ? 'bg-gray-800 text-gray-600 cursor-not-allowed' : isRecording ? 'bg-red-500 text-white animate-pulse hover:bg-red-600' : 'bg-gray-700 text-white hover:bg-gray-600'}`} title={isRecording ? 'Stop recording' : 'Start recording'}>
@@ -1990,6 +2901,24 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
           </button>
         )}
 
+        {isHost && (
+          <button onClick={toggleMusicMode} disabled={!hasLocalStream} className={`p-4 rounded-full transition-colors ${!hasLocalStream ? 'bg-gray-800 text-gray-600 cursor-not-allowed' : musicMode ? 'bg-[#CEB466] text-[#171229] hover:bg-[#e0c97d]' : 'bg-gray-700 text-white hover:bg-gray-600'}`} title={musicMode ? 'Music mode on (switch to speech)' : 'Music mode: full-range audio for singing and piano'}>
+            <Music className="w-5 h-5" />
+          </button>
+        )}
+
+        {isHost && (
+          <button onClick={toggleRoomLock} disabled={!isConnected} className={`p-4 rounded-full transition-colors ${!isConnected ? 'bg-gray-800 text-gray-600 cursor-not-allowed' : roomAccess.locked ? 'bg-[#CEB466] text-[#171229] hover:bg-[#e0c97d]' : 'bg-gray-700 text-white hover:bg-gray-600'}`} title={roomAccess.locked ? 'Room locked (unlock to admit people)' : 'Lock room'}>
+            {roomAccess.locked ? <Lock className="w-5 h-5" /> : <LockOpen className="w-5 h-5" />}
+          </button>
+        )}
+
+        {isHost && (
+          <button onClick={endClassForEveryone} disabled={!isConnected} className={`p-4 rounded-full transition-colors ${!isConnected ? 'bg-gray-800 text-gray-600 cursor-not-allowed' : 'bg-red-600 text-white hover:bg-red-700'}`} title="End class for everyone">
+            <PhoneOff className="w-5 h-5" />
+          </button>
+        )}
+
         <div className="w-px h-8 bg-white/10 mx-1" />
 
         <button onClick={() => { setShowChat(!showChat); setShowParticipants(false) }} className={`p-4 rounded-full transition-colors relative ${showChat ? 'bg-[#CEB466] text-[#171229]' : 'bg-gray-700 text-white hover:bg-gray-600'}`} title="Chat">
@@ -2016,19 +2945,63 @@ const VideoWebRTC = forwardRef<VideoWebRTCHandle, VideoWebRTCProps>(function Vid
 
 export default VideoWebRTC
 
+const QUALITY_STYLES = {
+  good: { Icon: Signal, className: 'text-green-400', label: 'Good connection' },
+  fair: { Icon: SignalMedium, className: 'text-yellow-400', label: 'Unstable connection' },
+  poor: { Icon: SignalLow, className: 'text-red-400', label: 'Poor connection' },
+}
+
+// Live connection quality for a tile; details on hover
+function QualityBadge({ sample }: { sample: PeerStatsSample }) {
+  const { Icon, className, label } = QUALITY_STYLES[sample.quality]
+  const details = [
+    label,
+    sample.rttMs !== null && `RTT ${sample.rttMs} ms`,
+    sample.jitterMs !== null && `jitter ${sample.jitterMs} ms`,
+    `loss in ${sample.inboundLossPct ?? 0}% / out ${sample.outboundLossPct ?? 0}%`,
+    sample.inResolution && `receiving ${sample.inResolution}`,
+    sample.candidateType === 'relay' ? 'via relay (TURN)' : `route: ${sample.candidateType}`,
+    sample.videoLevel > 0 && 'your video is reduced to protect audio',
+  ].filter(Boolean).join('\n')
+
+  return (
+    <span className="p-1.5 bg-black/60 rounded-full" title={details}>
+      <Icon className={`w-4 h-4 ${className}`} />
+    </span>
+  )
+}
+
 // Remote Video Component - memoized to prevent unnecessary re-renders
+// Plays a peer's extra audio (the lesson instrument); their microphone plays
+// through RemoteVideoView
+function RemoteAudio({ stream }: { stream: MediaStream }) {
+  const audioRef = useRef<HTMLAudioElement>(null)
+
+  useEffect(() => {
+    const audio = audioRef.current
+    if (!audio) return
+    audio.srcObject = stream
+    audio.play().catch(err => console.warn('[RemoteAudio] Play failed:', err))
+    return () => { audio.srcObject = null }
+  }, [stream])
+
+  return <audio ref={audioRef} autoPlay className="hidden" />
+}
+
 const RemoteVideoView = React.memo(function RemoteVideoView({
   stream,
   participantName,
   isMuted = false,
   isVideoOff = false,
   compact = false,
+  quality,
 }: {
   stream: MediaStream
   participantName: string
   isMuted?: boolean
   isVideoOff?: boolean
   compact?: boolean
+  quality?: PeerStatsSample
 }) {
   const videoRef = useRef<HTMLVideoElement>(null)
   const playAttemptedRef = useRef(false)
@@ -2345,6 +3318,7 @@ const RemoteVideoView = React.memo(function RemoteVideoView({
       <div className="absolute bottom-4 left-4 right-4 flex items-center justify-between">
         <span className="px-3 py-1.5 bg-black/60 rounded-lg text-sm text-white">{participantName}</span>
         <div className="flex items-center gap-2">
+          {quality && <QualityBadge sample={quality} />}
           {isMuted && (
             <span className="p-1.5 bg-red-500/80 rounded-full">
               <MicOff className="w-4 h-4 text-white" />
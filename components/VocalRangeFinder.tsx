@@ -0,0 +1,511 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
+import { MoveVertical, Play, RotateCcw, Save, Mic, X, ChevronRight, Loader2 } from 'lucide-react'
+import { PitchDetector } from '@/lib/pitch-detection'
+import { midiName } from '@/lib/lesson-instrument'
+import {
+  RANGE_TEST_STEPS,
+  RangeTracker,
+  VOICE_TYPES,
+  buildVocalRange,
+  rangeLabel,
+  suggestVoiceType,
+  voiceTypeLabel,
+  type VocalRange,
+  type VoiceType,
+} from '@/lib/vocal-range'
+
+// Keyboard span drawn under the results (C2 to C6)
+const CHART_LOW = 36
+const CHART_HIGH = 84
+
+interface VocalRangeFinderProps {
+  /** 'modal' renders no trigger and opens immediately */
+  variant?: 'floating' | 'card' | 'modal'
+  /** Called when a 'modal' trainer is closed */
+  onClose?: () => void
+}
+
+interface RangeTestRow {
+  id: string
+  lowest_midi: number
+  highest_midi: number
+  comfortable_low_midi: number
+  comfortable_high_midi: number
+  voice_type: VoiceType
+  created_at: string
+}
+
+interface Measured {
+  lowest: number | null
+  highest: number | null
+  tessitura: { low: number; high: number } | null
+}
+
+const EMPTY_MEASURED: Measured = { lowest: null, highest: null, tessitura: null }
+
+const chartPercent = (midi: number) =>
+  `${((Math.min(CHART_HIGH, Math.max(CHART_LOW, midi)) - CHART_LOW) / (CHART_HIGH - CHART_LOW)) * 100}%`
+
+function RangeChart({ range }: { range: VocalRange }) {
+  return (
+    <div className="relative h-8 rounded-lg bg-white/5 border border-white/10 overflow-hidden">
+      {Array.from({ length: (CHART_HIGH - CHART_LOW) / 12 + 1 }, (_, i) => CHART_LOW + i * 12).map(c => (
+        <div key={c} className="absolute inset-y-0 border-l border-white/10" style={{ left: chartPercent(c) }}>
+          <span className="absolute bottom-0.5 left-1 text-[9px] text-white/30">{midiName(c)}</span>
+        </div>
+      ))}
+      <div
+        className="absolute inset-y-1.5 rounded bg-amber-500/30"
+        style={{ left: chartPercent(range.lowest), right: `calc(100% - ${chartPercent(range.highest)})` }}
+      />
+      <div
+        className="absolute inset-y-1.5 rounded bg-amber-400"
+        style={{ left: chartPercent(range.comfortableLow), right: `calc(100% - ${chartPercent(range.comfortableHigh)})` }}
+      />
+    </div>
+  )
+}
+
+export default function VocalRangeFinder({ variant = 'floating', onClose }: VocalRangeFinderProps) {
+  const [isOpen, setIsOpen] = useState(variant === 'modal')
+
+  // Saved range and past tests
+  const [historyLoaded, setHistoryLoaded] = useState(false)
+  const [savedRange, setSavedRange] = useState<VocalRange | null>(null)
+  const [savedVoiceType, setSavedVoiceType] = useState<VoiceType | null>(null)
+  const [history, setHistory] = useState<RangeTestRow[]>([])
+
+  // Test state
+  const [stepIndex, setStepIndex] = useState<number | null>(null)
+  const [measured, setMeasured] = useState<Measured>(EMPTY_MEASURED)
+  const [liveNote, setLiveNote] = useState<string | null>(null)
+  const [liveStep, setLiveStep] = useState<Measured>(EMPTY_MEASURED)
+  const [voiceType, setVoiceType] = useState<VoiceType | null>(null)
+  const [sensitivity, setSensitivity] = useState<number>(50)
+
+  // Audio state
+  const [hasPermission, setHasPermission] = useState<boolean | null>(null)
+  const [isListening, setIsListening] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveMessage, setSaveMessage] = useState<string | null>(null)
+
+  const detector = useMemo(() => new PitchDetector(), [])
+  const tracker = useMemo(() => new RangeTracker(), [])
+  const mediaStreamRef = useRef<MediaStream | null>(null)
+  const testingRef = useRef(false)
+
+  const step = stepIndex !== null && stepIndex < RANGE_TEST_STEPS.length ? RANGE_TEST_STEPS[stepIndex] : null
+  const result = stepIndex === RANGE_TEST_STEPS.length
+    ? buildVocalRange(measured.lowest, measured.highest, measured.tessitura)
+    : null
+  const suggestion = result ? suggestVoiceType(result) : null
+
+  useEffect(() => {
+    detector.setSensitivity(sensitivity)
+  }, [detector, sensitivity])
+
+  useEffect(() => detector.subscribe(note => {
+    if (!testingRef.current) return
+    tracker.push(note)
+    setLiveNote(`${note.nameAscii}${note.octave}`)
+    setLiveStep({ lowest: tracker.lowest, highest: tracker.highest, tessitura: tracker.tessitura })
+  }), [detector, tracker])
+
+  useEffect(() => {
+    if (!isOpen || historyLoaded) return
+    let on = true
+    fetch('/api/pitch-training/vocal-range')
+      .then(async res => {
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || 'Failed to load vocal range')
+        if (!on) return
+        setSavedRange(data.range)
+        setSavedVoiceType(data.voiceType)
+        setHistory(data.history || [])
+      })
+      .catch(err => console.warn('[VocalRangeFinder] Failed to load range:', err))
+      .finally(() => { if (on) setHistoryLoaded(true) })
+    return () => { on = false }
+  }, [isOpen, historyLoaded])
+
+  const initMicrophone = useCallback(async () => {
+    if (detector.isRunning) return true
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+      mediaStreamRef.current = stream
+      setHasPermission(true)
+      await detector.start(stream)
+      setIsListening(true)
+      return true
+    } catch (err) {
+      console.error('Error initializing audio:', err)
+      setHasPermission(false)
+      return false
+    }
+  }, [detector])
+
+  const releaseMicrophone = useCallback(() => {
+    detector.stop()
+    mediaStreamRef.current?.getTracks().forEach(track => track.stop())
+    mediaStreamRef.current = null
+    setIsListening(false)
+  }, [detector])
+
+  const beginStep = (index: number) => {
+    tracker.reset()
+    testingRef.current = index < RANGE_TEST_STEPS.length
+    setLiveNote(null)
+    setLiveStep(EMPTY_MEASURED)
+    setStepIndex(index)
+  }
+
+  const startTest = async () => {
+    if (!(await initMicrophone())) return
+    setMeasured(EMPTY_MEASURED)
+    setVoiceType(null)
+    setSaveMessage(null)
+    beginStep(0)
+  }
+
+  const finishStep = () => {
+    if (!step) return
+    const next = { ...measured }
+    if (step.value === 'low') next.lowest = tracker.lowest
+    if (step.value === 'high') next.highest = tracker.highest
+    if (step.value === 'comfortable') next.tessitura = tracker.tessitura
+    setMeasured(next)
+    if (stepIndex! + 1 === RANGE_TEST_STEPS.length) releaseMicrophone()
+    beginStep(stepIndex! + 1)
+  }
+
+  const resetTest = () => {
+    testingRef.current = false
+    tracker.reset()
+    setStepIndex(null)
+    setMeasured(EMPTY_MEASURED)
+    setLiveNote(null)
+    setVoiceType(null)
+    releaseMicrophone()
+  }
+
+  const saveRange = async () => {
+    if (!result) return
+
+    setIsSaving(true)
+    setSaveMessage(null)
+
+    try {
+      const response = await fetch('/api/pitch-training/vocal-range', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ range: result, voiceType: voiceType ?? suggestion }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save range')
+      }
+
+      setSavedRange(data.range)
+      setSavedVoiceType(data.voiceType)
+      setHistory(prev => [data.test, ...prev])
+      resetTest()
+      setSaveMessage(`Range saved! The trainers will now start in your range (${rangeLabel(data.range.comfortableLow, data.range.comfortableHigh)}).`)
+    } catch (err) {
+      console.error('Error saving range:', err)
+      setSaveMessage(err instanceof Error ? `Failed to save: ${err.message}` : 'Failed to save range')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // Cleanup
+  useEffect(() => {
+    return () => {
+      releaseMicrophone()
+    }
+  }, [releaseMicrophone])
+
+  const handleClose = () => {
+    resetTest()
+    setSaveMessage(null)
+    setIsOpen(false)
+    if (variant === 'modal') onClose?.()
+  }
+
+  const stepReading = step?.value === 'low'
+    ? liveStep.lowest
+    : step?.value === 'high'
+      ? liveStep.highest
+      : null
+
+  const renderTrainer = () => (
+    <div>
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-amber-500/20 to-orange-500/20 flex items-center justify-center">
+            <MoveVertical className="w-5 h-5 text-amber-400" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-white">Vocal Range Finder</h2>
+            <p className="text-sm text-white/50">Find your range and voice type</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {isListening && (
+            <div className="flex items-center gap-2 text-sm text-green-400 mr-2">
+              <Mic size={16} />
+              <span>Listening</span>
+            </div>
+          )}
+          <button
+            onClick={handleClose}
+            className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+          >
+            <X size={18} className="text-white/70" />
+          </button>
+        </div>
+      </div>
+
+      {hasPermission === false && (
+        <div className="mb-4 p-3 rounded-xl bg-red-500/10 text-red-400 text-sm">
+          Microphone access was denied. Allow it in your browser to take the range test.
+        </div>
+      )}
+
+      {/* Saved range and history */}
+      {stepIndex === null && (
+        <div className="mb-6 space-y-4">
+          {!historyLoaded ? (
+            <div className="flex items-center gap-2 text-sm text-white/50">
+              <Loader2 size={14} className="animate-spin" />
+              <span>Loading your range...</span>
+            </div>
+          ) : savedRange ? (
+            <div className="p-4 rounded-xl bg-white/5 border border-white/10 space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-xs text-white/50">Your range</p>
+                  <p className="text-lg font-semibold text-white">{rangeLabel(savedRange.lowest, savedRange.highest)}</p>
+                </div>
+                <div className="text-right">
+                  <p className="text-xs text-white/50">Comfortable</p>
+                  <p className="text-sm font-medium text-amber-300">{rangeLabel(savedRange.comfortableLow, savedRange.comfortableHigh)}</p>
+                </div>
+                {savedVoiceType && (
+                  <span className="px-3 py-1 rounded-lg bg-amber-500/20 text-amber-300 text-sm font-medium">
+                    {voiceTypeLabel(savedVoiceType)}
+                  </span>
+                )}
+              </div>
+              <RangeChart range={savedRange} />
+            </div>
+          ) : (
+            <p className="text-sm text-white/60">
+              Take the three-step test to find your lowest, highest and most comfortable notes. The trainers will then start in your range.
+            </p>
+          )}
+
+          {history.length > 1 && (
+            <div>
+              <p className="text-xs text-white/50 mb-2">Past tests</p>
+              <div className="space-y-1.5">
+                {history.map(test => (
+                  <div key={test.id} className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg bg-white/5 text-xs">
+                    <span className="text-white/50 w-24">{new Date(test.created_at).toLocaleDateString()}</span>
+                    <span className="text-white font-mono flex-1">{rangeLabel(test.lowest_midi, test.highest_midi)}</span>
+                    <span className="text-amber-300 font-mono">{rangeLabel(test.comfortable_low_midi, test.comfortable_high_midi)}</span>
+                    <span className="text-white/60 w-24 text-right">{voiceTypeLabel(test.voice_type)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Test steps */}
+      {step && (
+        <div className="mb-6 p-4 rounded-xl bg-white/5 border border-white/10">
+          <div className="flex items-center gap-2 mb-3">
+            {RANGE_TEST_STEPS.map((s, i) => (
+              <div key={s.value} className={`flex-1 h-1.5 rounded-full ${i <= stepIndex! ? 'bg-amber-400' : 'bg-white/10'}`} />
+            ))}
+          </div>
+          <p className="text-xs text-white/50 mb-1">Step {stepIndex! + 1} of {RANGE_TEST_STEPS.length}</p>
+          <h3 className="text-white font-semibold mb-1">{step.label}</h3>
+          <p className="text-sm text-white/70 mb-4">{step.instructions}</p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="text-center p-3 rounded-xl bg-white/5">
+              <div className="text-3xl font-bold text-white font-mono">{liveNote ?? '—'}</div>
+              <div className="text-xs text-white/50">Singing now</div>
+            </div>
+            <div className="text-center p-3 rounded-xl bg-white/5">
+              <div className="text-3xl font-bold text-amber-400 font-mono">
+                {step.value === 'comfortable'
+                  ? liveStep.tessitura ? rangeLabel(liveStep.tessitura.low, liveStep.tessitura.high) : '—'
+                  : stepReading !== null ? midiName(stepReading) : '—'}
+              </div>
+              <div className="text-xs text-white/50">
+                {step.value === 'low' ? 'Lowest held' : step.value === 'high' ? 'Highest held' : 'Sitting around'}
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-4">
+            <label className="block text-xs text-white/50 mb-2">Mic Sensitivity: {sensitivity}%</label>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              value={sensitivity}
+              onChange={(e) => setSensitivity(Number(e.target.value))}
+              className="w-full accent-amber-500"
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Result */}
+      {stepIndex === RANGE_TEST_STEPS.length && (
+        <div className="mb-6 p-4 rounded-xl bg-white/5 border border-white/10 space-y-4">
+          {result ? (
+            <>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="text-center p-3 rounded-xl bg-white/5">
+                  <div className="text-2xl font-bold text-white font-mono">{midiName(result.lowest)}</div>
+                  <div className="text-xs text-white/50">Lowest</div>
+                </div>
+                <div className="text-center p-3 rounded-xl bg-white/5">
+                  <div className="text-2xl font-bold text-white font-mono">{midiName(result.highest)}</div>
+                  <div className="text-xs text-white/50">Highest</div>
+                </div>
+                <div className="text-center p-3 rounded-xl bg-white/5">
+                  <div className="text-lg font-bold text-amber-400 font-mono">{rangeLabel(result.comfortableLow, result.comfortableHigh)}</div>
+                  <div className="text-xs text-white/50">Comfortable</div>
+                </div>
+              </div>
+              <RangeChart range={result} />
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <span className="text-white/70">
+                  Suggested voice type: <span className="text-amber-300 font-semibold">{voiceTypeLabel(suggestion)}</span>
+                </span>
+                <select
+                  value={voiceType ?? suggestion ?? ''}
+                  onChange={(e) => setVoiceType(e.target.value as VoiceType)}
+                  className="glass-select text-sm ml-auto"
+                >
+                  {VOICE_TYPES.map(type => (
+                    <option key={type.value} value={type.value}>{type.label}</option>
+                  ))}
+                </select>
+              </div>
+              <p className="text-xs text-white/40">
+                Voice types are a starting point - your teacher can help confirm yours.
+              </p>
+            </>
+          ) : (
+            <p className="text-sm text-red-400">
+              Not enough held notes were heard to measure your range. Hold each end note for a moment and try again.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-3">
+        {stepIndex === null ? (
+          <button
+            onClick={startTest}
+            disabled={!historyLoaded}
+            className="flex items-center gap-2 px-6 py-3 rounded-xl bg-gradient-to-r from-amber-500 to-orange-500 text-white font-medium hover:from-amber-400 hover:to-orange-400 transition-all shadow-lg shadow-orange-500/20 disabled:opacity-50"
+          >
+            <Play size={18} />
+            <span>{savedRange ? 'Retake Test' : 'Start Test'}</span>
+          </button>
+        ) : step ? (
+          <button
+            onClick={finishStep}
+            disabled={step.value === 'comfortable' ? !liveStep.tessitura : stepReading === null}
+            className="flex items-center gap-2 px-6 py-3 rounded-xl bg-gradient-to-r from-amber-500 to-orange-500 text-white font-medium hover:from-amber-400 hover:to-orange-400 transition-all shadow-lg shadow-orange-500/20 disabled:opacity-50"
+          >
+            <ChevronRight size={18} />
+            <span>{stepIndex! + 1 === RANGE_TEST_STEPS.length ? 'Finish' : 'Next Step'}</span>
+          </button>
+        ) : result ? (
+          <button
+            onClick={saveRange}
+            disabled={isSaving}
+            className="glass-button-gold flex items-center gap-2 px-6 py-3 rounded-xl disabled:opacity-50"
+          >
+            <Save size={18} />
+            <span>{isSaving ? 'Saving...' : 'Save Range'}</span>
+          </button>
+        ) : null}
+
+        {stepIndex !== null && (
+          <button
+            onClick={resetTest}
+            className="glass-button flex items-center gap-2 px-5 py-3 rounded-xl text-white/80 hover:text-white"
+          >
+            <RotateCcw size={18} />
+            <span>{result ? 'Discard' : 'Start Over'}</span>
+          </button>
+        )}
+      </div>
+
+      {/* Messages */}
+      {saveMessage && (
+        <div className={`mt-4 p-3 rounded-xl text-sm ${saveMessage.includes('Failed') ? 'bg-red-500/10 text-red-400' : 'bg-green-500/10 text-green-400'}`}>
+          {saveMessage}
+        </div>
+      )}
+    </div>
+  )
+
+  return (
+    <>
+      {/* Trigger Button */}
+      {variant === 'modal' ? null : variant === 'floating' ? (
+        <button
+          onClick={() => setIsOpen(true)}
+          className="fixed bottom-4 right-[328px] w-12 h-12 lg:bottom-6 lg:right-[22rem] lg:w-14 lg:h-14 bg-gradient-to-br from-amber-500 to-orange-600 rounded-full shadow-lg flex items-center justify-center text-white hover:scale-110 active:scale-95 transition-all duration-300 z-50"
+          style={{ boxShadow: '0 8px 24px rgba(245, 158, 11, 0.4)' }}
+          title="Vocal Range Finder"
+        >
+          <MoveVertical className="w-5 h-5 lg:w-6 lg:h-6" />
+        </button>
+      ) : (
+        <button
+          onClick={() => setIsOpen(true)}
+          className="flex items-center gap-4 px-6 py-5 bg-gradient-to-br from-amber-500 to-orange-600 hover:from-amber-400 hover:to-orange-500 text-white rounded-2xl transition-all duration-300 w-full group border border-white/10"
+          style={{ boxShadow: '0 8px 32px rgba(245, 158, 11, 0.3), inset 0 1px 0 rgba(255,255,255,0.1)' }}
+        >
+          <div className="w-12 h-12 rounded-xl bg-white/20 flex items-center justify-center group-hover:scale-110 transition-transform duration-300">
+            <MoveVertical className="w-6 h-6" />
+          </div>
+          <div className="text-left flex-1">
+            <p className="font-semibold text-lg">Vocal Range Finder</p>
+            <p className="text-sm text-white/70">Your range & voice type</p>
+          </div>
+        </button>
+      )}
+
+      {/* Modal */}
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={handleClose} />
+          <div className="relative glass-card p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-2xl">
+            {renderTrainer()}
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,112 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2, Signal, SignalLow, SignalMedium } from 'lucide-react'
+import type { CandidateType, PeerQualitySummary } from '@/lib/call-quality'
+
+interface ParticipantQuality {
+  participantId: string
+  name: string | null
+  role: 'teacher' | 'student'
+  summary: PeerQualitySummary[]
+}
+
+const CANDIDATE_LABELS: Record<CandidateType, string> = {
+  host: 'direct (local network)',
+  srflx: 'direct',
+  prflx: 'direct',
+  relay: 'relayed via TURN',
+  unknown: 'unknown route',
+}
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+}
+
+function OverallIcon({ summary }: { summary: PeerQualitySummary }) {
+  if (summary.poorPct >= 10) return <SignalLow className="w-4 h-4 text-red-400" />
+  if (summary.poorPct > 0 || summary.fairPct >= 20) return <SignalMedium className="w-4 h-4 text-yellow-400" />
+  return <Signal className="w-4 h-4 text-green-400" />
+}
+
+/**
+ * What each participant's browser measured during one class: round trip,
+ * packet loss, how the call was routed and when it went bad. Lets the
+ * teacher tell a student's flaky Wi-Fi from a relayed connection.
+ */
+export function CallQualityReport({ bookingId, classStartedAt }: { bookingId: string; classStartedAt: string }) {
+  const [participants, setParticipants] = useState<ParticipantQuality[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let on = true
+    fetch(`/api/lessons/${bookingId}/call-quality?classStartedAt=${encodeURIComponent(classStartedAt)}`)
+      .then(async res => {
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || 'Failed to load call quality')
+        if (on) setParticipants(data.participants)
+      })
+      .catch(err => {
+        console.warn('[CallQualityReport] Failed to load call quality:', err)
+        if (on) setError(err instanceof Error ? err.message : 'Failed to load call quality')
+      })
+    return () => { on = false }
+  }, [bookingId, classStartedAt])
+
+  if (error) return <p className="text-sm text-red-400">{error}</p>
+
+  if (!participants) {
+    return (
+      <div className="flex items-center gap-2 text-gray-400">
+        <Loader2 className="w-4 h-4 animate-spin text-[#CEB466]" />
+        <span className="text-sm">Loading call quality...</span>
+      </div>
+    )
+  }
+
+  if (participants.length === 0) {
+    return <p className="text-sm text-gray-500">No connection data was recorded for this class.</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      {participants.map(participant => (
+        <div key={participant.participantId} className="space-y-2">
+          <h4 className="text-sm font-medium text-white">
+            {participant.name || 'Participant'}
+            <span className="ml-2 text-xs text-gray-500 capitalize">{participant.role}</span>
+          </h4>
+          {participant.summary.map(peer => (
+            <div key={peer.peerId} className="p-3 rounded-lg bg-black/30 border border-white/10 space-y-2">
+              <div className="flex items-center gap-2 text-xs text-gray-300 flex-wrap">
+                <OverallIcon summary={peer} />
+                <span>Avg RTT {peer.avgRttMs ?? '-'} ms</span>
+                <span className="text-gray-600">·</span>
+                <span>Max loss {peer.maxLossPct ?? 0}%</span>
+                <span className="text-gray-600">·</span>
+                <span>{peer.poorPct}% poor, {peer.fairPct}% unstable</span>
+                <span className="text-gray-600">·</span>
+                <span>{peer.candidateTypes.map(type => CANDIDATE_LABELS[type]).join(', ')}</span>
+              </div>
+              {peer.downgrades > 0 && (
+                <p className="text-xs text-gray-400">
+                  Video was reduced {peer.downgrades} time{peer.downgrades === 1 ? '' : 's'} to protect audio.
+                </p>
+              )}
+              {peer.poorStretches.length > 0 && (
+                <ul className="space-y-1">
+                  {peer.poorStretches.map(stretch => (
+                    <li key={stretch.from} className="text-xs text-red-300">
+                      {formatTime(stretch.from)}
+                      {stretch.to !== stretch.from && ` – ${formatTime(stretch.to)}`}: {stretch.problem}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -1,7 +1,8 @@
 'use client'
 
 import React, { useState } from 'react'
-import { Course, CourseSection, CourseLesson, CourseQuiz, QuizQuestion, saveCustomCourse } from '@/lib/courses'
+import { Course, CourseSection, CourseLesson, CourseQuiz, QuizQuestion } from '@/lib/courses'
+import { DEFAULT_PASSING_SCORE_PERCENT } from '@/lib/course-progress'
 import {
   X,
   Plus,
@@ -83,6 +84,7 @@ export function CourseBuilderModal({
 
   const [activeTab, setActiveTab] = useState<'details' | 'curriculum'>('curriculum')
   const [selectedSectionIdx, setSelectedSectionIdx] = useState(0)
+  const [isSaving, setIsSaving] = useState(false)
 
   if (!isOpen) return null
 
@@ -211,43 +213,58 @@ export function CourseBuilderModal({
     setSections(nextSections)
   }
 
-  const handleSaveCourse = () => {
+  const handleSaveCourse = async (publish: boolean) => {
     if (!title.trim()) {
       alert('Please enter a course title')
       return
     }
 
-    const slug =
-      initialCourse?.slug ||
-      title
-        .toLowerCase()
-        .replace(/[^a-z0-9]+/g, '-')
-        .replace(/(^-|-$)/g, '') ||
-      `custom-course-${Date.now()}`
-
-    const newCourse: Course = {
-      slug,
+    const draft: Course = {
+      slug: initialCourse?.slug || '',
       title,
       subtitle: subtitle || 'Custom instructor curriculum',
       description: description || 'Master vocal progress course.',
       level,
-      isFree: true,
-      isUnlocked: true,
+      isFree: initialCourse?.isFree ?? true,
+      isUnlocked: initialCourse?.isUnlocked ?? true,
       instructor,
-      updatedAt: new Date().toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
-      whatYouWillLearn: [
+      updatedAt: initialCourse?.updatedAt || '',
+      whatYouWillLearn: initialCourse?.whatYouWillLearn || [
         'Master customized vocal technique exercises',
         'Learn pitch and register connection',
         'Complete optional module checkpoints and quizzes',
       ],
-      requirements: ['No prior experience required', 'Quiet practice space and microphone'],
+      requirements: initialCourse?.requirements || ['No prior experience required', 'Quiet practice space and microphone'],
       sections,
       isCustom: true,
     }
 
-    saveCustomCourse(newCourse)
-    onCourseCreated(newCourse)
-    onClose()
+    setIsSaving(true)
+    try {
+      const response = await fetch(
+        initialCourse ? `/api/courses/${initialCourse.slug}` : '/api/courses',
+        {
+          method: initialCourse ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(
+            initialCourse ? { course: draft, isPublished: publish } : { course: draft, publish }
+          ),
+        }
+      )
+      const result = await response.json()
+      if (!response.ok) {
+        alert(result.error || 'Failed to save course')
+        return
+      }
+
+      onCourseCreated(result.course as Course)
+      onClose()
+    } catch (error) {
+      console.error('Failed to save course', error)
+      alert('Failed to save course')
+    } finally {
+      setIsSaving(false)
+    }
   }
 
   const currentSection = sections[selectedSectionIdx] || sections[0]
@@ -280,8 +297,17 @@ export function CourseBuilderModal({
 
           <div className="flex items-center gap-2 sm:gap-3 flex-shrink-0">
             <button
-              onClick={handleSaveCourse}
-              className="px-3.5 sm:px-5 py-2 sm:py-2.5 rounded-xl bg-gradient-to-r from-[#CEB466] via-[#e2c974] to-[#CEB466] text-[#171229] font-bold text-xs sm:text-sm shadow-lg shadow-[#CEB466]/20 hover:brightness-110 active:scale-95 transition-all flex items-center gap-1.5"
+              onClick={() => handleSaveCourse(false)}
+              disabled={isSaving}
+              className="px-3.5 sm:px-5 py-2 sm:py-2.5 rounded-xl bg-white/[0.06] border border-white/15 text-gray-200 font-semibold text-xs sm:text-sm hover:bg-white/10 active:scale-95 transition-all disabled:opacity-50"
+            >
+              Save Draft
+            </button>
+
+            <button
+              onClick={() => handleSaveCourse(true)}
+              disabled={isSaving}
+              className="px-3.5 sm:px-5 py-2 sm:py-2.5 rounded-xl bg-gradient-to-r from-[#CEB466] via-[#e2c974] to-[#CEB466] text-[#171229] font-bold text-xs sm:text-sm shadow-lg shadow-[#CEB466]/20 hover:brightness-110 active:scale-95 transition-all flex items-center gap-1.5 disabled:opacity-50"
             >
               <Sparkles className="w-3.5 h-3.5" />
               <span>Publish</span>
@@ -562,7 +588,7 @@ export function CourseBuilderModal({
                             <div className="flex items-center justify-between">
                               <div className="flex items-center gap-2">
                                 <span className="px-2 py-0.5 rounded-md bg-purple-500/30 text-purple-300 text-[10px] font-bold uppercase">
-                                  Optional Quiz
+                                  {lesson.quiz.isOptional === false ? 'Required Quiz' : 'Optional Quiz'}
                                 </span>
                                 <input
                                   type="text"
@@ -587,6 +613,42 @@ export function CourseBuilderModal({
                               </button>
                             </div>
 
+                            {/* Gating: required quizzes must be passed before the next module unlocks */}
+                            <div className="flex flex-wrap items-center gap-4 text-[11px] text-gray-300">
+                              <label className="flex items-center gap-1.5 cursor-pointer">
+                                <input
+                                  type="checkbox"
+                                  checked={lesson.quiz.isOptional === false}
+                                  onChange={(e) => {
+                                    const next = [...sections]
+                                    next[selectedSectionIdx].lessons[lIdx].quiz!.isOptional = !e.target.checked
+                                    setSections(next)
+                                  }}
+                                  className="accent-purple-500"
+                                />
+                                <span>Required to unlock next module</span>
+                              </label>
+                              <label className="flex items-center gap-1.5">
+                                <span>Pass mark</span>
+                                <input
+                                  type="number"
+                                  min={0}
+                                  max={100}
+                                  value={lesson.quiz.passingScorePercent ?? DEFAULT_PASSING_SCORE_PERCENT}
+                                  onChange={(e) => {
+                                    const next = [...sections]
+                                    next[selectedSectionIdx].lessons[lIdx].quiz!.passingScorePercent = Math.min(
+                                      100,
+                                      Math.max(0, Number(e.target.value) || 0)
+                                    )
+                                    setSections(next)
+                                  }}
+                                  className="w-14 px-1.5 py-0.5 rounded-md bg-black/40 border border-purple-500/30 text-white"
+                                />
+                                <span>%</span>
+                              </label>
+                            </div>
+
                             {/* Questions List */}
                             <div className="space-y-3">
                               {lesson.quiz.questions.map((q, qIdx) => (
@@ -2,11 +2,13 @@
 
 import React, { useState } from 'react'
 import { CourseQuiz } from '@/lib/courses'
+import { DEFAULT_PASSING_SCORE_PERCENT, isQuizRequired } from '@/lib/course-progress'
 import { CheckCircle2, XCircle, HelpCircle, RotateCcw, Sparkles } from 'lucide-react'
 
 interface CourseQuizRunnerProps {
   quiz: CourseQuiz
-  onComplete?: (scorePercent: number) => void
+  /** answers maps question id to the selected option index. */
+  onComplete?: (scorePercent: number, answers: Record<string, number>) => void
 }
 
 export function CourseQuizRunner({ quiz, onComplete }: CourseQuizRunnerProps) {
@@ -31,7 +33,10 @@ export function CourseQuizRunner({ quiz, onComplete }: CourseQuizRunnerProps) {
     }, 0)
     const percent = Math.round((correct / totalQuestions) * 100)
     if (onComplete) {
-      onComplete(percent)
+      const answers = Object.fromEntries(
+        Object.entries(selectedAnswers).map(([idx, option]) => [quiz.questions[Number(idx)].id, option])
+      )
+      onComplete(percent, answers)
     }
   }
 
@@ -45,7 +50,8 @@ export function CourseQuizRunner({ quiz, onComplete }: CourseQuizRunnerProps) {
     return selectedAnswers[idx] === q.correctAnswerIndex ? count + 1 : count
   }, 0)
   const scorePercent = totalQuestions > 0 ? Math.round((correctCount / totalQuestions) * 100) : 0
-  const isPassed = scorePercent >= (quiz.passingScorePercent || 70)
+  const isPassed = scorePercent >= (quiz.passingScorePercent ?? DEFAULT_PASSING_SCORE_PERCENT)
+  const isRequired = isQuizRequired(quiz)
 
   return (
     <div className="glass-card-subtle rounded-3xl border border-purple-500/30 overflow-hidden mt-6 bg-purple-950/20">
@@ -61,7 +67,7 @@ export function CourseQuizRunner({ quiz, onComplete }: CourseQuizRunnerProps) {
           <div>
             <div className="flex items-center gap-2">
               <span className="px-2.5 py-0.5 rounded-full bg-purple-500/20 text-purple-300 border border-purple-500/30 text-[10px] font-bold uppercase tracking-wider">
-                Optional Quiz
+                {isRequired ? `Required Quiz · Pass ${quiz.passingScorePercent ?? DEFAULT_PASSING_SCORE_PERCENT}%` : 'Optional Quiz'}
               </span>
               {submitted && (
                 <span
@@ -0,0 +1,148 @@
+'use client'
+
+import { useEffect, useState, type FormEvent } from 'react'
+import { Loader2, MessageSquare, Paperclip, Pin } from 'lucide-react'
+import { linkParts, type LessonChatMessage, type LessonChatSearchResult } from '@/lib/lesson-chat'
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+}
+
+function ChatLine({ message }: { message: LessonChatMessage }) {
+  return (
+    <div className="flex gap-3 text-sm">
+      <span className="text-[11px] text-gray-500 tabular-nums pt-0.5 w-16 flex-shrink-0">{formatTime(message.createdAt)}</span>
+      <div className="min-w-0 text-gray-300">
+        <span className="text-white font-medium">{message.senderName}: </span>
+        {linkParts(message.body).map((part, i) => part.href ? (
+          <a key={i} href={part.href} target="_blank" rel="noopener noreferrer" className="text-[#CEB466] hover:underline break-all">{part.text}</a>
+        ) : (
+          <span key={i}>{part.text}</span>
+        ))}
+        {message.attachment && (
+          <a
+            href={message.attachment.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="ml-1 inline-flex items-center gap-1 text-[#CEB466] hover:underline break-all"
+          >
+            <Paperclip className="w-3 h-3 flex-shrink-0" />
+            {message.attachment.name}
+          </a>
+        )}
+        {message.pinnedAt && <Pin className="inline w-3 h-3 ml-1 text-gray-500" aria-label="Pinned to notes" />}
+      </div>
+    </div>
+  )
+}
+
+/** The chat from one past class, shown in its "Past Classes" entry */
+export function LessonChatLog({ bookingId, archiveId }: { bookingId: string; archiveId: string }) {
+  const [messages, setMessages] = useState<LessonChatMessage[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let on = true
+    fetch(`/api/lessons/${bookingId}/chat?archiveId=${encodeURIComponent(archiveId)}`)
+      .then(async res => {
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || 'Failed to load chat')
+        if (on) setMessages(data.messages)
+      })
+      .catch(err => {
+        console.warn('[LessonChatLog] Failed to load chat:', err)
+        if (on) setError(err instanceof Error ? err.message : 'Failed to load chat')
+      })
+    return () => { on = false }
+  }, [bookingId, archiveId])
+
+  if (error) return <p className="text-sm text-red-400">{error}</p>
+
+  if (!messages) {
+    return (
+      <div className="flex items-center gap-2 text-gray-400">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        <span className="text-sm">Loading chat...</span>
+      </div>
+    )
+  }
+
+  if (messages.length === 0) return <p className="text-sm text-gray-500">Nothing was said in chat during this class.</p>
+
+  return (
+    <div className="space-y-1.5">
+      {messages.map(message => <ChatLine key={message.id} message={message} />)}
+    </div>
+  )
+}
+
+/** Search the chat of every class with this teacher */
+export function LessonChatSearch({ bookingId }: { bookingId: string }) {
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<LessonChatSearchResult[] | null>(null)
+  const [isSearching, setIsSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const runSearch = (e: FormEvent) => {
+    e.preventDefault()
+    const q = query.trim()
+    if (!q) return
+
+    setIsSearching(true)
+    setError(null)
+    fetch(`/api/lessons/${bookingId}/chat?q=${encodeURIComponent(q)}`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Search failed')
+        setResults(data.results)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Search failed'))
+      .finally(() => setIsSearching(false))
+  }
+
+  return (
+    <div className="mb-4 space-y-3">
+      <form onSubmit={runSearch} className="flex gap-2">
+        <div className="flex-1 relative">
+          <MessageSquare className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value)
+              if (!e.target.value.trim()) setResults(null)
+            }}
+            placeholder="Search lesson chat, links and files"
+            className="w-full bg-black/30 border border-white/10 rounded-lg pl-9 pr-3 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-[#CEB466]/50"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isSearching || !query.trim()}
+          className="px-4 py-2 rounded-lg bg-[#CEB466] text-[#171229] text-sm font-medium disabled:opacity-50"
+        >
+          {isSearching ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Search'}
+        </button>
+      </form>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {results && results.length === 0 && (
+        <p className="text-sm text-gray-500">No chat messages match that.</p>
+      )}
+
+      {results && results.length > 0 && (
+        <div className="bg-black/20 rounded-lg border border-white/10 p-3 space-y-3">
+          {results.map((result) => (
+            <div key={result.id} className="space-y-0.5">
+              <p className="text-[11px] text-gray-500">
+                {new Date(result.classStartedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                {!result.archiveId && ' · current class'}
+              </p>
+              <ChatLine message={result} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,277 @@
+'use client'
+
+import { useEffect, useState, type KeyboardEvent } from 'react'
+import { Loader2, Piano, Volume2 } from 'lucide-react'
+import { NOTE_STRINGS_ASCII, noteIndex } from '@/lib/pitch-detection'
+import {
+  DEFAULT_TONIC,
+  DRONE_PATTERNS,
+  EMPTY_INSTRUMENT_VIEW,
+  TONIC_OCTAVES,
+  applyInstrumentEvent,
+  midiName,
+  sargamName,
+  type DronePattern,
+  type InstrumentFeed,
+  type InstrumentView,
+  type LessonInstrument,
+  type Tonic,
+} from '@/lib/lesson-instrument'
+
+const KEY_COUNT = 25
+const BLACK_KEYS = new Set([1, 3, 6, 8, 10])
+// Computer keys for the teacher, laid out like a piano from the first C
+const COMPUTER_KEYS = 'awsedftgyhujkolp;'
+
+function Keyboard({
+  firstMidi,
+  tonic,
+  activeNotes,
+  onNoteOn,
+  onNoteOff,
+}: {
+  firstMidi: number
+  tonic: Tonic
+  activeNotes: number[]
+  onNoteOn?: (midi: number) => void
+  onNoteOff?: (midi: number) => void
+}) {
+  const keys = Array.from({ length: KEY_COUNT }, (_, i) => firstMidi + i)
+  const whiteKeys = keys.filter(midi => !BLACK_KEYS.has(noteIndex(midi)))
+  const whiteWidth = 100 / whiteKeys.length
+  const playable = !!onNoteOn
+
+  const keyProps = (midi: number) => playable ? {
+    onPointerDown: (e: React.PointerEvent) => {
+      e.currentTarget.releasePointerCapture(e.pointerId)
+      onNoteOn?.(midi)
+    },
+    onPointerUp: () => onNoteOff?.(midi),
+    onPointerLeave: () => { if (activeNotes.includes(midi)) onNoteOff?.(midi) },
+    onPointerCancel: () => onNoteOff?.(midi),
+  } : {}
+
+  const isSa = (midi: number) => sargamName(midi, tonic) === 'Sa'
+
+  return (
+    <div className={`relative h-28 select-none touch-none ${playable ? 'cursor-pointer' : ''}`}>
+      <div className="flex h-full">
+        {whiteKeys.map(midi => (
+          <div
+            key={midi}
+            {...keyProps(midi)}
+            className={`flex-1 border border-gray-700 rounded-b-md flex items-end justify-center pb-1 text-[10px] transition-colors ${
+              activeNotes.includes(midi) ? 'bg-[#CEB466] text-[#171229]' : 'bg-gray-100 text-gray-500'
+            }`}
+          >
+            {isSa(midi) ? 'Sa' : noteIndex(midi) === 0 ? midiName(midi) : ''}
+          </div>
+        ))}
+      </div>
+      {keys.filter(midi => BLACK_KEYS.has(noteIndex(midi))).map(midi => {
+        const whitesBefore = whiteKeys.filter(white => white < midi).length
+        return (
+          <div
+            key={midi}
+            {...keyProps(midi)}
+            style={{ left: `${whitesBefore * whiteWidth - whiteWidth * 0.3}%`, width: `${whiteWidth * 0.6}%` }}
+            className={`absolute top-0 h-16 rounded-b-md flex items-end justify-center pb-1 text-[9px] transition-colors ${
+              activeNotes.includes(midi) ? 'bg-[#CEB466] text-[#171229]' : 'bg-gray-900 text-gray-400'
+            }`}
+          >
+            {isSa(midi) ? 'Sa' : ''}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+/**
+ * The lesson instrument in class. The teacher plays the keyboard and drone
+ * and sets the student's tonic; the student and observers follow along.
+ */
+export function LessonInstrumentPanel({
+  bookingId,
+  feed,
+  instrument,
+}: {
+  bookingId: string
+  /** The instrument itself for the teacher; what arrives over signaling for everyone else */
+  feed: InstrumentFeed
+  /** Teacher only: makes the panel playable */
+  instrument?: LessonInstrument
+}) {
+  const [view, setView] = useState<InstrumentView>(() => instrument ? { ...EMPTY_INSTRUMENT_VIEW, ...instrument.getState() } : EMPTY_INSTRUMENT_VIEW)
+  const [volume, setVolume] = useState(80)
+  const [savingTonic, setSavingTonic] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => feed.onEvent(event => setView(prev => applyInstrumentEvent(prev, event))), [feed])
+
+  // The saved tonic, unless the teacher's instrument already said otherwise
+  useEffect(() => {
+    let on = true
+    fetch(`/api/lessons/${bookingId}/tonic`)
+      .then(async res => {
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || 'Failed to load tonic')
+        if (!on || !data.tonic) return
+        if (instrument) {
+          instrument.setTonic(data.tonic)
+        } else {
+          setView(prev => prev.tonic ? prev : { ...prev, tonic: data.tonic })
+        }
+      })
+      .catch(err => console.warn('[LessonInstrument] Failed to load tonic:', err))
+    return () => { on = false }
+  }, [bookingId, instrument])
+
+  const tonic = view.tonic ?? DEFAULT_TONIC
+  const firstMidi = (tonic.octave + 1) * 12
+
+  const saveTonic = async (next: Tonic) => {
+    instrument?.setTonic(next)
+    setSavingTonic(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/lessons/${bookingId}/tonic`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tonic: next }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to save tonic')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save tonic')
+    } finally {
+      setSavingTonic(false)
+    }
+  }
+
+  const setDrone = (on: boolean, pattern: DronePattern) => {
+    if (!instrument) return
+    if (on) instrument.startDrone(pattern)
+    else instrument.stopDrone()
+  }
+
+  const computerKeyMidi = (e: KeyboardEvent) => {
+    const offset = COMPUTER_KEYS.indexOf(e.key.toLowerCase())
+    return offset === -1 || e.metaKey || e.ctrlKey || e.altKey ? null : firstMidi + offset
+  }
+
+  const lastNote = view.lastNote !== null
+    ? `${midiName(view.lastNote)} (${sargamName(view.lastNote, tonic)})`
+    : null
+
+  return (
+    <div
+      tabIndex={instrument ? 0 : undefined}
+      onKeyDown={instrument ? (e) => {
+        const midi = computerKeyMidi(e)
+        if (midi === null || e.repeat) return
+        e.preventDefault()
+        instrument.noteOn(midi)
+      } : undefined}
+      onKeyUp={instrument ? (e) => {
+        const midi = computerKeyMidi(e)
+        if (midi !== null) instrument.noteOff(midi)
+      } : undefined}
+      className="glass-card-subtle p-5 rounded-2xl border border-white/10 space-y-3 focus:outline-none focus:border-[#CEB466]/40"
+    >
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-semibold text-white flex items-center gap-2">
+            <Piano className="w-4 h-4 text-[#CEB466]" />
+            {instrument ? 'Keyboard & Drone' : "Teacher's Keyboard"}
+          </h3>
+          <p className="text-[11px] text-gray-400">
+            {instrument
+              ? 'Plays into the lesson as its own track. Click here to play with your computer keys (A to ;).'
+              : view.drone.on
+                ? `Drone: ${DRONE_PATTERNS.find(p => p.value === view.drone.pattern)?.label} on ${tonic.note}${tonic.octave}`
+                : 'Notes your teacher plays light up here.'}
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="text-[11px] text-gray-400">Tonic (Sa)</p>
+          {instrument ? (
+            <div className="flex items-center gap-1.5">
+              {savingTonic && <Loader2 className="w-3.5 h-3.5 animate-spin text-gray-400" />}
+              <select
+                value={tonic.note}
+                onChange={(e) => saveTonic({ ...tonic, note: e.target.value })}
+                className="px-2 py-1 rounded-lg bg-gray-900/60 border border-white/10 text-sm text-white focus:outline-none focus:border-[#CEB466]/60"
+              >
+                {NOTE_STRINGS_ASCII.map(note => <option key={note} value={note}>{note}</option>)}
+              </select>
+              <select
+                value={tonic.octave}
+                onChange={(e) => saveTonic({ ...tonic, octave: Number(e.target.value) })}
+                className="px-2 py-1 rounded-lg bg-gray-900/60 border border-white/10 text-sm text-white focus:outline-none focus:border-[#CEB466]/60"
+              >
+                {TONIC_OCTAVES.map(octave => <option key={octave} value={octave}>{octave}</option>)}
+              </select>
+            </div>
+          ) : (
+            <p className="text-sm font-semibold text-white">{view.tonic ? `${tonic.note}${tonic.octave}` : 'Not set'}</p>
+          )}
+        </div>
+      </div>
+
+      {instrument && (
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={() => setDrone(!view.drone.on, view.drone.pattern)}
+            className={`py-1.5 px-3 rounded-lg text-xs font-bold transition-colors ${
+              view.drone.on
+                ? 'bg-gradient-to-r from-[#CEB466] to-[#9c8644] text-[#171229]'
+                : 'bg-white/10 text-gray-200 hover:bg-white/15'
+            }`}
+          >
+            {view.drone.on ? 'Stop drone' : 'Start drone'}
+          </button>
+          <select
+            value={view.drone.pattern}
+            onChange={(e) => {
+              const pattern = e.target.value as DronePattern
+              if (view.drone.on) setDrone(true, pattern)
+              else setView(prev => ({ ...prev, drone: { ...prev.drone, pattern } }))
+            }}
+            className="px-2 py-1.5 rounded-lg bg-gray-900/60 border border-white/10 text-xs text-white focus:outline-none focus:border-[#CEB466]/60"
+          >
+            {DRONE_PATTERNS.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+          </select>
+          <label className="ml-auto flex items-center gap-2 text-xs text-gray-400">
+            <Volume2 className="w-3.5 h-3.5" />
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={volume}
+              onChange={(e) => {
+                setVolume(Number(e.target.value))
+                instrument.setVolume(Number(e.target.value) / 100)
+              }}
+              className="w-24 accent-[#CEB466]"
+            />
+          </label>
+        </div>
+      )}
+
+      <Keyboard
+        firstMidi={firstMidi}
+        tonic={tonic}
+        activeNotes={view.activeNotes}
+        onNoteOn={instrument ? (midi) => instrument.noteOn(midi) : undefined}
+        onNoteOff={instrument ? (midi) => instrument.noteOff(midi) : undefined}
+      />
+
+      <p className="text-xs text-gray-400 h-4">
+        {lastNote && <>{instrument ? 'Last played' : 'Teacher played'}: <span className="text-white font-medium">{lastNote}</span></>}
+      </p>
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+    </div>
+  )
+}
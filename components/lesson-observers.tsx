@@ -0,0 +1,128 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Eye, Loader2, UserPlus, X } from 'lucide-react'
+
+interface LessonObserver {
+  id: string
+  name: string | null
+  addedAt: string
+}
+
+/**
+ * Teacher-only list of guests (e.g. a parent) who may watch this lesson room.
+ * Observers join through the same lesson link, wait to be admitted like the
+ * student, and can see and hear the class but not speak or read the notes.
+ */
+export function LessonObservers({ bookingId }: { bookingId: string }) {
+  const [observers, setObservers] = useState<LessonObserver[]>([])
+  const [email, setEmail] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadObservers = useCallback(() => {
+    fetch(`/api/lessons/${bookingId}/observers`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load observers')
+        setObservers(data.observers)
+      })
+      .catch((err) => console.error('Error loading lesson observers:', err))
+  }, [bookingId])
+
+  useEffect(() => {
+    loadObservers()
+  }, [loadObservers])
+
+  const addObserver = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!email.trim()) return
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/lessons/${bookingId}/observers`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: email.trim() }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to add observer')
+      setEmail('')
+      loadObservers()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add observer')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const removeObserver = async (observerId: string) => {
+    setError(null)
+    try {
+      const response = await fetch(
+        `/api/lessons/${bookingId}/observers?observerId=${encodeURIComponent(observerId)}`,
+        { method: 'DELETE' }
+      )
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to remove observer')
+      setObservers((prev) => prev.filter((o) => o.id !== observerId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove observer')
+    }
+  }
+
+  return (
+    <div className="glass-card-subtle p-5 rounded-2xl border border-white/10 space-y-3">
+      <div>
+        <h3 className="text-sm font-semibold text-white flex items-center gap-2">
+          <Eye className="w-4 h-4 text-[#CEB466]" />
+          Observers
+        </h3>
+        <p className="text-[11px] text-gray-400">
+          Let someone with an account watch this lesson without speaking. Share the lesson link with them;
+          they wait until you admit them.
+        </p>
+      </div>
+
+      {observers.length > 0 && (
+        <ul className="space-y-1.5">
+          {observers.map((observer) => (
+            <li
+              key={observer.id}
+              className="flex items-center justify-between gap-2 px-3 py-2 rounded-lg bg-white/[0.04] text-xs"
+            >
+              <span className="text-gray-200 truncate">{observer.name || 'Unnamed account'}</span>
+              <button
+                onClick={() => removeObserver(observer.id)}
+                className="p-1 rounded text-gray-400 hover:text-red-300 hover:bg-white/10 transition-colors"
+                title="Remove observer"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={addObserver} className="flex gap-2">
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Their account email"
+          className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-gray-900/60 border border-white/10 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-[#CEB466]/60"
+        />
+        <button
+          type="submit"
+          disabled={saving || !email.trim()}
+          className="py-2 px-3 rounded-lg bg-gradient-to-r from-[#CEB466] to-[#9c8644] text-[#171229] font-bold text-xs flex items-center gap-1 disabled:opacity-50"
+        >
+          {saving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <UserPlus className="w-3.5 h-3.5" />}
+          Add
+        </button>
+      </form>
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+    </div>
+  )
+}
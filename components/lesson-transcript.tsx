@@ -0,0 +1,309 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState, type FormEvent } from 'react'
+import { Download, FileText, Loader2, Play, Search } from 'lucide-react'
+import {
+  formatTimestamp,
+  type SummaryMoment,
+  type TranscriptSearchResult,
+  type TranscriptSegment,
+} from '@/lib/lesson-transcripts'
+
+export interface LessonTranscriptData {
+  recordingId: string
+  mediaUrl: string | null
+  /** The lesson's audio-only track, for listening back offline */
+  audioDownloadUrl: string | null
+  audioSizeBytes: number | null
+  segments: TranscriptSegment[]
+  /** Plain text for recordings transcribed before segments were stored */
+  transcript: string | null
+  moments: SummaryMoment[]
+}
+
+/** A request to jump playback to `time`. `nonce` makes repeat clicks on the same time count. */
+export interface TranscriptSeek {
+  time: number
+  nonce: number
+}
+
+export async function fetchLessonTranscript(
+  bookingId: string,
+  recordingId: string
+): Promise<LessonTranscriptData> {
+  const response = await fetch(`/api/lessons/${bookingId}/recordings/${recordingId}/transcript`)
+  const data = await response.json()
+  if (!response.ok) throw new Error(data.error || 'Failed to load transcript')
+  return data
+}
+
+/** Index of the segment playing at `time`, or -1 between segments. */
+function activeSegmentIndex(segments: TranscriptSegment[], time: number): number {
+  let lo = 0
+  let hi = segments.length - 1
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1
+    if (time < segments[mid].start) hi = mid - 1
+    else if (time >= segments[mid].end) lo = mid + 1
+    else return mid
+  }
+  return -1
+}
+
+function playFrom(media: HTMLVideoElement, time: number) {
+  media.currentTime = time
+  void media.play().catch(() => {})
+}
+
+/**
+ * The lesson recording with its transcript underneath. The line being spoken
+ * is highlighted as it plays; clicking a line jumps the recording to it.
+ */
+export function LessonTranscriptPanel({ data, seek }: { data: LessonTranscriptData; seek?: TranscriptSeek | null }) {
+  const mediaRef = useRef<HTMLVideoElement>(null)
+  const listRef = useRef<HTMLDivElement>(null)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [filter, setFilter] = useState('')
+
+  const seekTo = (time: number) => {
+    if (!mediaRef.current) return
+    playFrom(mediaRef.current, time)
+    setCurrentTime(time)
+  }
+
+  useEffect(() => {
+    const media = mediaRef.current
+    if (!seek || !media) return
+
+    // Metadata may not be loaded yet when arriving from a summary link
+    if (media.readyState >= 1) {
+      playFrom(media, seek.time)
+      return
+    }
+    const onLoaded = () => playFrom(media, seek.time)
+    media.addEventListener('loadedmetadata', onLoaded, { once: true })
+    return () => media.removeEventListener('loadedmetadata', onLoaded)
+  }, [seek])
+
+  const activeIndex = activeSegmentIndex(data.segments, currentTime)
+
+  // Keep the active line in view inside the list without scrolling the page
+  useEffect(() => {
+    if (activeIndex < 0 || filter) return
+    const list = listRef.current
+    const row = list?.querySelector<HTMLElement>(`[data-segment="${activeIndex}"]`)
+    if (!list || !row) return
+    if (row.offsetTop < list.scrollTop || row.offsetTop + row.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTop = row.offsetTop - list.clientHeight / 3
+    }
+  }, [activeIndex, filter])
+
+  const needle = filter.trim().toLowerCase()
+  const visible = useMemo(
+    () => data.segments
+      .map((segment, index) => ({ segment, index }))
+      .filter(({ segment }) => !needle || segment.text.toLowerCase().includes(needle)),
+    [data.segments, needle]
+  )
+
+  return (
+    <div className="space-y-3">
+      {data.mediaUrl ? (
+        <video
+          ref={mediaRef}
+          src={data.mediaUrl}
+          controls
+          preload="metadata"
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          className="w-full max-h-64 rounded-lg bg-black"
+        />
+      ) : (
+        <p className="text-xs text-gray-500">The recording file is no longer available.</p>
+      )}
+
+      {data.audioDownloadUrl && (
+        <a
+          href={data.audioDownloadUrl}
+          download
+          className="inline-flex items-center gap-1.5 text-xs text-[#CEB466] hover:underline"
+        >
+          <Download className="w-3.5 h-3.5" />
+          Download audio to listen back
+          {data.audioSizeBytes ? ` (${(data.audioSizeBytes / 1024 / 1024).toFixed(1)} MB)` : ''}
+        </a>
+      )}
+
+      {data.segments.length > 0 ? (
+        <>
+          <div className="relative">
+            <Search className="w-3.5 h-3.5 text-gray-500 absolute left-2.5 top-1/2 -translate-y-1/2" />
+            <input
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Find in this lesson..."
+              className="w-full bg-black/30 border border-white/10 rounded-lg pl-8 pr-3 py-1.5 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-[#CEB466]/50"
+            />
+          </div>
+          <div ref={listRef} className="relative max-h-72 overflow-y-auto space-y-0.5 pr-1">
+            {visible.length === 0 && <p className="text-xs text-gray-500 py-2">No lines match.</p>}
+            {visible.map(({ segment, index }) => (
+              <button
+                key={index}
+                data-segment={index}
+                onClick={() => seekTo(segment.start)}
+                className={`w-full flex gap-3 text-left px-2 py-1 rounded transition-colors ${
+                  index === activeIndex ? 'bg-[#CEB466]/15 text-white' : 'text-gray-300 hover:bg-white/5'
+                }`}
+              >
+                <span className="text-[11px] text-[#CEB466] tabular-nums pt-0.5 w-12 flex-shrink-0">
+                  {formatTimestamp(segment.start)}
+                </span>
+                <span className="text-sm">{segment.text}</span>
+              </button>
+            ))}
+          </div>
+        </>
+      ) : data.transcript ? (
+        <>
+          <p className="text-xs text-gray-500">This lesson was transcribed without timestamps. Rescan it to get a synced transcript.</p>
+          <pre className="whitespace-pre-wrap text-sm text-gray-300 max-h-72 overflow-y-auto">{data.transcript}</pre>
+        </>
+      ) : (
+        <p className="text-sm text-gray-500">No transcript yet.</p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Search across all of a student's lesson transcripts. Picking a match opens
+ * that lesson's recording at the moment it was said.
+ */
+export function TranscriptSearch({ bookingId }: {
+  /** Teacher view: booking id, as used by the /api/teachers/[studentId] routes. Omit for the student's own view. */
+  bookingId?: string
+}) {
+  const searchUrl = bookingId ? `/api/teachers/${bookingId}/transcripts` : '/api/students/transcripts'
+
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<TranscriptSearchResult[] | null>(null)
+  const [isSearching, setIsSearching] = useState(false)
+  const [open, setOpen] = useState<{ recordingId: string; data: LessonTranscriptData | null; seek: TranscriptSeek } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const seekCount = useRef(0)
+
+  const runSearch = (e: FormEvent) => {
+    e.preventDefault()
+    const q = query.trim()
+    if (!q) return
+
+    setIsSearching(true)
+    setError(null)
+    fetch(`${searchUrl}?q=${encodeURIComponent(q)}`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Search failed')
+        setResults(data.results)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Search failed'))
+      .finally(() => setIsSearching(false))
+  }
+
+  const openHit = (result: TranscriptSearchResult, time: number) => {
+    const seek = { time, nonce: ++seekCount.current }
+    if (open?.recordingId === result.recordingId) {
+      setOpen({ ...open, seek })
+      return
+    }
+    if (!result.bookingId) return
+
+    setOpen({ recordingId: result.recordingId, data: null, seek })
+    fetchLessonTranscript(result.bookingId, result.recordingId)
+      .then((data) => setOpen((prev) => (prev?.recordingId === result.recordingId ? { ...prev, data } : prev)))
+      .catch((err) => {
+        setOpen(null)
+        setError(err instanceof Error ? err.message : 'Failed to load transcript')
+      })
+  }
+
+  return (
+    <div className="glass-card-subtle p-5 rounded-2xl border border-white/10 space-y-4">
+      <div className="flex items-center gap-2">
+        <FileText className="w-4 h-4 text-[#CEB466]" />
+        <h3 className="text-sm font-semibold text-white uppercase tracking-wider">Search Lesson Transcripts</h3>
+      </div>
+
+      <form onSubmit={runSearch} className="flex gap-2">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="e.g. lip trills, head voice, breath support"
+          className="flex-1 bg-black/30 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-[#CEB466]/50"
+        />
+        <button
+          type="submit"
+          disabled={isSearching || !query.trim()}
+          className="px-4 py-2 rounded-lg bg-[#CEB466] text-[#171229] text-sm font-medium disabled:opacity-50"
+        >
+          {isSearching ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Search'}
+        </button>
+      </form>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {results && results.length === 0 && (
+        <p className="text-sm text-gray-500">No lessons mention that.</p>
+      )}
+
+      {results && results.length > 0 && (
+        <div className="space-y-3">
+          {results.map((result) => (
+            <div key={result.recordingId} className="bg-black/20 rounded-lg border border-white/10 p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-white">
+                  {new Date(result.recordedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                </span>
+                <button
+                  onClick={() => openHit(result, result.hits[0]?.start ?? 0)}
+                  className="flex items-center gap-1 text-xs text-[#CEB466] hover:underline"
+                >
+                  <Play className="w-3 h-3" /> Open lesson
+                </button>
+              </div>
+
+              {result.hits.length === 0 ? (
+                <p className="text-xs text-gray-500">Mentioned in this lesson&apos;s transcript.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {result.hits.map((hit, i) => (
+                    <li key={i}>
+                      <button
+                        onClick={() => openHit(result, hit.start)}
+                        className="w-full flex gap-3 text-left px-2 py-1 rounded hover:bg-white/5 text-gray-300"
+                      >
+                        <span className="text-[11px] text-[#CEB466] tabular-nums pt-0.5 w-12 flex-shrink-0">
+                          {formatTimestamp(hit.start)}
+                        </span>
+                        <span className="text-sm">{hit.text}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {open?.recordingId === result.recordingId && (
+                open.data ? (
+                  <LessonTranscriptPanel data={open.data} seek={open.seek} />
+                ) : (
+                  <div className="flex items-center gap-2 text-xs text-gray-400">
+                    <Loader2 className="w-3.5 h-3.5 animate-spin" /> Loading recording...
+                  </div>
+                )
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,375 @@
+'use client'
+
+import { useEffect, useMemo, useState, type MouseEvent } from 'react'
+import { Activity, Loader2, MessageSquare, Send } from 'lucide-react'
+import {
+  MAX_TRACE_COMMENT_LENGTH,
+  type SessionTrace,
+  type TraceFeatureKind,
+  type TraceSessionSummary,
+} from '@/lib/pitch-traces'
+
+interface PitchTraceReviewProps {
+  /** Teacher view: booking id, as used by the /api/teachers/[studentId] routes. Omit for the student's own view. */
+  bookingId?: string
+  studentName?: string
+}
+
+// Notes are laid end to end on one timeline with a gap between them
+const NOTE_GAP_MS = 400
+const MIN_NOTE_MS = 500
+const CHART_WIDTH = 800
+const CHART_HEIGHT = 220
+
+const FEATURE_STYLES: Record<TraceFeatureKind, { fill: string; text: string; label: string }> = {
+  scoop: { fill: 'rgba(251, 191, 36, 0.18)', text: 'text-amber-300', label: 'Scoop' },
+  drift: { fill: 'rgba(248, 113, 113, 0.15)', text: 'text-red-300', label: 'Drift' },
+  vibrato: { fill: 'rgba(167, 139, 250, 0.18)', text: 'text-violet-300', label: 'Vibrato' },
+}
+
+const toMidi = (frequency: number) => 69 + 12 * Math.log2(frequency / 440)
+const formatMs = (ms: number) => `${(ms / 1000).toFixed(1)}s`
+
+/**
+ * Target vs sung pitch for a Pitch or Scale Trainer session, with scoops,
+ * drift and vibrato shaded. Teachers can comment at the scrub position; the
+ * student sees the same chart and comments read-only.
+ */
+export function PitchTraceReview({ bookingId, studentName }: PitchTraceReviewProps) {
+  const isTeacher = !!bookingId
+  const baseUrl = isTeacher ? `/api/teachers/${bookingId}/pitch-traces` : '/api/pitch-training/traces'
+
+  const [sessions, setSessions] = useState<TraceSessionSummary[] | null>(null)
+  const [selected, setSelected] = useState<TraceSessionSummary | null>(null)
+  const [trace, setTrace] = useState<SessionTrace | null>(null)
+  const [isLoadingTrace, setIsLoadingTrace] = useState(false)
+  const [cursorMs, setCursorMs] = useState(0)
+  const [commentText, setCommentText] = useState('')
+  const [isPosting, setIsPosting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch(baseUrl)
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load sessions')
+        setSessions(data.sessions)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load sessions'))
+  }, [baseUrl])
+
+  const openSession = (session: TraceSessionSummary) => {
+    setSelected(session)
+    setTrace(null)
+    setCursorMs(0)
+    setError(null)
+    setIsLoadingTrace(true)
+
+    fetch(`${baseUrl}/${session.sessionId}?trainer=${session.trainer}`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load trace')
+        setTrace(data.trace)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load trace'))
+      .finally(() => setIsLoadingTrace(false))
+  }
+
+  // Place each note on the session timeline
+  const timeline = useMemo(() => {
+    if (!trace) return null
+    let offset = 0
+    const segments = trace.notes
+      .filter((note) => note.samples.length > 0)
+      .map((note) => {
+        const duration = Math.max(MIN_NOTE_MS, note.samples[note.samples.length - 1].t)
+        const segment = { note, start: offset, duration, targetMidi: toMidi(note.targetFrequency) }
+        offset += duration + NOTE_GAP_MS
+        return segment
+      })
+    if (segments.length === 0) return null
+
+    const targets = segments.map((s) => s.targetMidi)
+    const minMidi = Math.floor(Math.min(...targets)) - 2
+    const maxMidi = Math.ceil(Math.max(...targets)) + 2
+    return { segments, totalMs: offset - NOTE_GAP_MS, minMidi, maxMidi }
+  }, [trace])
+
+  if (sessions !== null && sessions.length === 0 && !isTeacher) return null
+
+  const x = (ms: number) => (timeline ? (ms / timeline.totalMs) * CHART_WIDTH : 0)
+  const y = (midi: number) => {
+    if (!timeline) return 0
+    const clamped = Math.max(timeline.minMidi, Math.min(timeline.maxMidi, midi))
+    return CHART_HEIGHT - ((clamped - timeline.minMidi) / (timeline.maxMidi - timeline.minMidi)) * CHART_HEIGHT
+  }
+
+  const cursorSegment = timeline?.segments.find((s) => cursorMs >= s.start && cursorMs <= s.start + s.duration) || null
+  const cursorNoteMs = cursorSegment ? cursorMs - cursorSegment.start : 0
+  const cursorSample = cursorSegment
+    ? cursorSegment.note.samples.reduce((best, s) =>
+        Math.abs(s.t - cursorNoteMs) < Math.abs(best.t - cursorNoteMs) ? s : best
+      )
+    : null
+  const cursorFeatures = cursorSegment
+    ? cursorSegment.note.features.filter((f) => cursorNoteMs >= f.startMs && cursorNoteMs <= f.endMs)
+    : []
+
+  const commentPosition = (noteMetricId: string, timestampMs: number) => {
+    const segment = timeline?.segments.find((s) => s.note.noteMetricId === noteMetricId)
+    return segment ? segment.start + Math.min(timestampMs, segment.duration) : null
+  }
+
+  const handleChartClick = (event: MouseEvent<SVGSVGElement>) => {
+    if (!timeline) return
+    const rect = event.currentTarget.getBoundingClientRect()
+    setCursorMs(Math.round(((event.clientX - rect.left) / rect.width) * timeline.totalMs))
+  }
+
+  const handlePostComment = async () => {
+    if (!trace || !cursorSegment || !commentText.trim()) return
+    setIsPosting(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`${baseUrl}/${trace.sessionId}?trainer=${trace.trainer}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          noteMetricId: cursorSegment.note.noteMetricId,
+          timestampMs: cursorNoteMs,
+          body: commentText,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to save comment')
+
+      setTrace((prev) => (prev ? { ...prev, comments: [...prev.comments, data.comment] } : prev))
+      setSessions((prev) =>
+        (prev || []).map((s) => (s.sessionId === trace.sessionId ? { ...s, commentCount: s.commentCount + 1 } : s))
+      )
+      setCommentText('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save comment')
+    } finally {
+      setIsPosting(false)
+    }
+  }
+
+  const sortedComments = (trace?.comments || [])
+    .map((c) => ({ ...c, position: commentPosition(c.noteMetricId, c.timestampMs) }))
+    .sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+
+  return (
+    <div className="glass-card-subtle p-5 rounded-2xl border border-white/10 space-y-4">
+      <div className="flex items-center gap-2 text-sm font-bold text-white">
+        <Activity className="w-4 h-4 text-[#CEB466]" />
+        <span>{isTeacher ? 'Pitch Traces' : 'Pitch Traces & Coach Comments'}</span>
+      </div>
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      {sessions === null && !error && <p className="text-xs text-gray-400">Loading sessions...</p>}
+
+      {sessions?.length === 0 && (
+        <p className="text-xs text-gray-400">{studentName || 'This student'} has no Pitch or Scale Trainer sessions in the last 30 days.</p>
+      )}
+
+      {sessions && sessions.length > 0 && (
+        <select
+          value={selected ? `${selected.trainer}:${selected.sessionId}` : ''}
+          onChange={(e) => {
+            const session = sessions.find((s) => `${s.trainer}:${s.sessionId}` === e.target.value)
+            if (session) openSession(session)
+          }}
+          className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white text-xs focus:outline-none focus:ring-2 focus:ring-[#CEB466]/40"
+        >
+          <option value="" disabled>
+            Choose a session...
+          </option>
+          {sessions.map((s) => (
+            <option key={`${s.trainer}:${s.sessionId}`} value={`${s.trainer}:${s.sessionId}`}>
+              {new Date(s.startedAt).toLocaleDateString()} · {s.title}
+              {s.overallScore !== null && ` · ${Math.round(s.overallScore)}%`}
+              {s.commentCount > 0 && ` · ${s.commentCount} comment${s.commentCount === 1 ? '' : 's'}`}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {isLoadingTrace && (
+        <p className="text-xs text-gray-400 flex items-center gap-2">
+          <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          Loading trace...
+        </p>
+      )}
+
+      {trace && !timeline && (
+        <p className="text-xs text-gray-400">No pitch trace was recorded for this session.</p>
+      )}
+
+      {trace && timeline && (
+        <div className="space-y-3">
+          <svg
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+            className="w-full h-56 rounded-xl bg-black/30 cursor-crosshair"
+            preserveAspectRatio="none"
+            onClick={handleChartClick}
+          >
+            {timeline.segments.map((segment) => (
+              <g key={segment.note.noteMetricId}>
+                {segment.note.features.map((feature, i) => (
+                  <rect
+                    key={i}
+                    x={x(segment.start + feature.startMs)}
+                    y={0}
+                    width={Math.max(2, x(feature.endMs - feature.startMs))}
+                    height={CHART_HEIGHT}
+                    fill={FEATURE_STYLES[feature.kind].fill}
+                  />
+                ))}
+                <line
+                  x1={x(segment.start)}
+                  x2={x(segment.start + segment.duration)}
+                  y1={y(segment.targetMidi)}
+                  y2={y(segment.targetMidi)}
+                  stroke="#CEB466"
+                  strokeWidth={2}
+                  strokeDasharray="6 4"
+                  vectorEffect="non-scaling-stroke"
+                />
+                <polyline
+                  points={segment.note.samples.map((s) => `${x(segment.start + s.t)},${y(toMidi(s.f))}`).join(' ')}
+                  fill="none"
+                  stroke="#7dd3fc"
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+                <text x={x(segment.start) + 3} y={12} fill="#9ca3af" fontSize={11}>
+                  {segment.note.noteName}
+                  {segment.note.octave}
+                </text>
+              </g>
+            ))}
+
+            {sortedComments.map(
+              (c) =>
+                c.position !== null && (
+                  <circle key={c.id} cx={x(c.position)} cy={CHART_HEIGHT - 6} r={4} fill="#CEB466" />
+                )
+            )}
+
+            <line
+              x1={x(cursorMs)}
+              x2={x(cursorMs)}
+              y1={0}
+              y2={CHART_HEIGHT}
+              stroke="white"
+              strokeOpacity={0.6}
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+
+          <input
+            type="range"
+            min={0}
+            max={timeline.totalMs}
+            value={cursorMs}
+            onChange={(e) => setCursorMs(Number(e.target.value))}
+            className="w-full accent-[#CEB466]"
+          />
+
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-[11px] text-gray-400">
+            <span>
+              <span className="inline-block w-3 border-t-2 border-dashed border-[#CEB466] align-middle mr-1" />
+              Target
+            </span>
+            <span>
+              <span className="inline-block w-3 border-t-2 border-sky-300 align-middle mr-1" />
+              Sung
+            </span>
+            {(Object.keys(FEATURE_STYLES) as TraceFeatureKind[]).map((kind) => (
+              <span key={kind} className={FEATURE_STYLES[kind].text}>
+                ■ {FEATURE_STYLES[kind].label}
+              </span>
+            ))}
+          </div>
+
+          <div className="p-3 rounded-xl bg-white/[0.03] border border-white/[0.06] text-xs text-gray-300 min-h-[3rem]">
+            {cursorSegment && cursorSample ? (
+              <>
+                <p>
+                  <span className="font-semibold text-white">
+                    {cursorSegment.note.noteName}
+                    {cursorSegment.note.octave}
+                  </span>{' '}
+                  at {formatMs(cursorNoteMs)} · sung {cursorSample.f.toFixed(1)} Hz ·{' '}
+                  <span className={Math.abs(cursorSample.c) <= 15 ? 'text-emerald-300' : 'text-amber-300'}>
+                    {cursorSample.c > 0 ? '+' : ''}
+                    {Math.round(cursorSample.c)} cents
+                  </span>
+                </p>
+                {cursorFeatures.map((f, i) => (
+                  <p key={i} className={FEATURE_STYLES[f.kind].text}>
+                    {f.label}
+                  </p>
+                ))}
+              </>
+            ) : (
+              <p className="text-gray-500">Scrub or click the chart to inspect a note.</p>
+            )}
+          </div>
+
+          {sortedComments.length > 0 && (
+            <div className="space-y-1.5">
+              {sortedComments.map((c) => {
+                const segment = timeline.segments.find((s) => s.note.noteMetricId === c.noteMetricId)
+                return (
+                  <button
+                    key={c.id}
+                    onClick={() => c.position !== null && setCursorMs(c.position)}
+                    className="w-full text-left p-2 rounded-lg hover:bg-white/[0.04] text-xs flex items-start gap-2"
+                  >
+                    <MessageSquare className="w-3.5 h-3.5 text-[#CEB466] shrink-0 mt-0.5" />
+                    <span className="text-gray-300">
+                      <span className="text-gray-500">
+                        {segment ? `${segment.note.noteName}${segment.note.octave} · ` : ''}
+                        {formatMs(c.timestampMs)} · {c.authorName}:
+                      </span>{' '}
+                      {c.body}
+                    </span>
+                  </button>
+                )
+              })}
+            </div>
+          )}
+
+          {isTeacher && (
+            <div className="flex gap-2">
+              <input
+                value={commentText}
+                onChange={(e) => setCommentText(e.target.value)}
+                placeholder={
+                  cursorSegment
+                    ? `Comment on ${cursorSegment.note.noteName}${cursorSegment.note.octave} at ${formatMs(cursorNoteMs)}`
+                    : 'Move the cursor onto a note to comment'
+                }
+                disabled={!cursorSegment}
+                maxLength={MAX_TRACE_COMMENT_LENGTH}
+                className="flex-1 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white text-xs focus:outline-none focus:ring-2 focus:ring-[#CEB466]/40 disabled:opacity-50"
+              />
+              <button
+                onClick={handlePostComment}
+                disabled={!cursorSegment || !commentText.trim() || isPosting}
+                className="py-2 px-3 rounded-lg bg-gradient-to-r from-[#CEB466] to-[#9c8644] text-[#171229] font-bold text-xs flex items-center gap-1 disabled:opacity-50"
+              >
+                {isPosting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Send className="w-3.5 h-3.5" />}
+                Comment
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,166 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { CheckCircle2, ClipboardList, Clock, Play } from 'lucide-react'
+import ModernPitchTrainer from '@/components/ModernPitchTrainer'
+import RhythmTrainer from '@/components/RhythmTrainer'
+import ScaleTrainer from '@/components/ScaleTrainer'
+import SongPitchTrainer from '@/components/SongPitchTrainer'
+import type {
+  PitchAssignmentSettings,
+  PracticeAssignment,
+  RhythmAssignmentSettings,
+  ScaleAssignmentSettings,
+  SongAssignmentSettings,
+} from '@/lib/practice-assignments'
+
+function formatDue(dueAt: string) {
+  const due = new Date(dueAt)
+  const overdue = due.getTime() < Date.now()
+  return {
+    overdue,
+    label: `${overdue ? 'Was due' : 'Due'} ${due.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}`,
+  }
+}
+
+/**
+ * The student's practice assignments on the dashboard. "Start" opens the
+ * assignment's trainer with its settings; progress refreshes when the trainer
+ * is closed. Renders nothing when there are no assignments.
+ */
+export function PracticeAssignments() {
+  const [assignments, setAssignments] = useState<PracticeAssignment[]>([])
+  const [openAssignment, setOpenAssignment] = useState<PracticeAssignment | null>(null)
+
+  const loadAssignments = useCallback(() => {
+    fetch('/api/students/assignments')
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load assignments')
+        setAssignments(data.assignments)
+      })
+      .catch((err) => console.error('Error loading practice assignments:', err))
+  }, [])
+
+  useEffect(() => {
+    loadAssignments()
+  }, [loadAssignments])
+
+  const handleTrainerClose = useCallback(() => {
+    setOpenAssignment(null)
+    loadAssignments()
+  }, [loadAssignments])
+
+  if (assignments.length === 0) return null
+
+  const renderTrainer = (assignment: PracticeAssignment) => {
+    switch (assignment.trainer) {
+      case 'pitch':
+        return (
+          <ModernPitchTrainer
+            variant="modal"
+            preset={assignment.settings as PitchAssignmentSettings}
+            onClose={handleTrainerClose}
+          />
+        )
+      case 'scale':
+        return (
+          <ScaleTrainer
+            variant="modal"
+            preset={assignment.settings as unknown as ScaleAssignmentSettings}
+            onClose={handleTrainerClose}
+          />
+        )
+      case 'rhythm':
+        return (
+          <RhythmTrainer
+            variant="modal"
+            preset={assignment.settings as unknown as RhythmAssignmentSettings}
+            onClose={handleTrainerClose}
+          />
+        )
+      case 'song':
+        return (
+          <SongPitchTrainer
+            variant="modal"
+            preset={assignment.settings as SongAssignmentSettings}
+            onClose={handleTrainerClose}
+          />
+        )
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-2xl font-bold text-white flex items-center gap-2 font-luxury">
+          <ClipboardList className="w-6 h-6 text-[#CEB466]" />
+          <span>Practice Assignments</span>
+        </h2>
+        <p className="text-xs text-gray-400">Set by your voice coach. Each matching trainer session counts.</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {assignments.map((assignment) => {
+          const done = Math.min(assignment.completedSessions, assignment.targetSessions)
+          const percent = Math.round((done / assignment.targetSessions) * 100)
+          const completed = assignment.status === 'completed'
+          const due = assignment.dueAt ? formatDue(assignment.dueAt) : null
+
+          return (
+            <div
+              key={assignment.id}
+              className="glass-card-subtle p-5 rounded-2xl border border-white/10 space-y-3"
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold text-white">{assignment.title}</p>
+                  <p className="text-[11px] text-gray-400">{assignment.description}</p>
+                </div>
+                {completed ? (
+                  <span className="flex items-center gap-1 text-xs font-semibold text-emerald-300 shrink-0">
+                    <CheckCircle2 className="w-4 h-4" />
+                    Done
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => setOpenAssignment(assignment)}
+                    className="py-1.5 px-3 rounded-lg bg-gradient-to-r from-[#CEB466] to-[#9c8644] text-[#171229] font-bold text-xs flex items-center gap-1 shrink-0"
+                  >
+                    <Play className="w-3.5 h-3.5" />
+                    Start
+                  </button>
+                )}
+              </div>
+
+              {assignment.notes && <p className="text-xs text-gray-300">{assignment.notes}</p>}
+
+              <div className="h-1.5 rounded-full bg-white/[0.08] overflow-hidden">
+                <div
+                  className="h-full bg-gradient-to-r from-[#CEB466] to-[#9c8644]"
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-2 text-[11px] text-gray-400">
+                <span>
+                  {done}/{assignment.targetSessions} sessions
+                  {assignment.minScore !== null && ` · score ${assignment.minScore}+`}
+                  {assignment.bestScore !== null && ` · best ${assignment.bestScore}`}
+                </span>
+                {due && !completed && (
+                  <span className={`flex items-center gap-1 ${due.overdue ? 'text-red-300' : ''}`}>
+                    <Clock className="w-3 h-3" />
+                    {due.label}
+                  </span>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      {openAssignment && renderTrainer(openAssignment)}
+    </div>
+  )
+}
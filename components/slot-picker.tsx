@@ -0,0 +1,186 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { formatInTimeZone } from 'date-fns-tz'
+import { CalendarClock, Check, Loader2, X } from 'lucide-react'
+
+interface SlotPickerProps {
+  teacherId: string
+  teacherName: string
+  /** Shown when the student already has a weekly slot with this teacher. */
+  currentSchedule?: string | null
+  onBooked: (bookingId: string) => void
+  onClose: () => void
+}
+
+interface SlotResponse {
+  slots: string[]
+  teacherTimezone: string
+  viewerTimezone: string
+  hasAvailability: boolean
+}
+
+const DURATION_OPTIONS = [30, 45, 60]
+
+export function SlotPicker({ teacherId, teacherName, currentSchedule, onBooked, onClose }: SlotPickerProps) {
+  const [durationMinutes, setDurationMinutes] = useState(60)
+  const [data, setData] = useState<SlotResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedSlot, setSelectedSlot] = useState<string | null>(null)
+  const [isBooking, setIsBooking] = useState(false)
+
+  useEffect(() => {
+    const params = new URLSearchParams({ teacherId, durationMinutes: String(durationMinutes) })
+    fetch(`/api/students/available-slots?${params}`)
+      .then(async (response) => {
+        const body = await response.json()
+        if (!response.ok) throw new Error(body.error || 'Failed to load available times')
+        setData(body)
+        setError(null)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load available times'))
+  }, [teacherId, durationMinutes])
+
+  // Group by day in the student's own timezone
+  const slotsByDay = useMemo(() => {
+    if (!data) return []
+    const groups = new Map<string, string[]>()
+    for (const slot of data.slots) {
+      const day = formatInTimeZone(new Date(slot), data.viewerTimezone, 'yyyy-MM-dd')
+      groups.set(day, [...(groups.get(day) || []), slot])
+    }
+    return [...groups.entries()]
+  }, [data])
+
+  const handleBook = async () => {
+    if (!selectedSlot) return
+    setIsBooking(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/students/book-slot', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ teacherId, startsAt: selectedSlot, durationMinutes }),
+      })
+      const body = await response.json()
+
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to book lesson')
+      }
+
+      onBooked(body.bookingId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to book lesson')
+      setSelectedSlot(null)
+    } finally {
+      setIsBooking(false)
+    }
+  }
+
+  const showTeacherTime = data && data.teacherTimezone !== data.viewerTimezone
+
+  return (
+    <div className="bg-black/20 rounded-xl border border-white/10 p-4 space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h4 className="font-medium text-white flex items-center gap-2">
+            <CalendarClock className="w-4 h-4 text-[#CEB466]" />
+            Book a weekly lesson with {teacherName}
+          </h4>
+          {currentSchedule && <p className="text-xs text-gray-400 mt-1">Currently: {currentSchedule}</p>}
+          {data && <p className="text-xs text-gray-500 mt-1">Times shown in {data.viewerTimezone}</p>}
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        {DURATION_OPTIONS.map((minutes) => (
+          <button
+            key={minutes}
+            onClick={() => {
+              setDurationMinutes(minutes)
+              setSelectedSlot(null)
+            }}
+            className={`px-3 py-1 rounded-lg text-xs transition-colors ${
+              durationMinutes === minutes ? 'bg-[#CEB466] text-[#171229] font-medium' : 'bg-white/5 text-gray-300 hover:bg-white/10'
+            }`}
+          >
+            {minutes} min
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {!data && !error && (
+        <div className="flex items-center gap-2 text-sm text-gray-400">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading available times...
+        </div>
+      )}
+
+      {data && slotsByDay.length === 0 && (
+        <p className="text-sm text-gray-400">
+          {data.hasAvailability
+            ? 'No open times in the next few weeks. Try a shorter lesson or check back later.'
+            : `${teacherName} hasn't published availability yet.`}
+        </p>
+      )}
+
+      {data && slotsByDay.length > 0 && (
+        <div className="space-y-3 max-h-72 overflow-y-auto pr-1">
+          {slotsByDay.map(([day, slots]) => (
+            <div key={day}>
+              <p className="text-xs font-medium text-gray-400 mb-1.5">
+                {formatInTimeZone(new Date(slots[0]), data.viewerTimezone, 'EEEE, MMM d')}
+              </p>
+              <div className="flex flex-wrap gap-1.5">
+                {slots.map((slot) => (
+                  <button
+                    key={slot}
+                    onClick={() => setSelectedSlot(slot)}
+                    title={
+                      showTeacherTime
+                        ? `${formatInTimeZone(new Date(slot), data.teacherTimezone, 'h:mm a')} ${data.teacherTimezone}`
+                        : undefined
+                    }
+                    className={`px-2.5 py-1 rounded-lg text-xs transition-colors ${
+                      selectedSlot === slot
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-white/5 text-gray-300 hover:bg-white/10'
+                    }`}
+                  >
+                    {formatInTimeZone(new Date(slot), data.viewerTimezone, 'h:mm a')}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selectedSlot && data && (
+        <div className="flex items-center justify-between gap-3 pt-3 border-t border-white/10">
+          <p className="text-xs text-gray-300">
+            Every {formatInTimeZone(new Date(selectedSlot), data.viewerTimezone, 'EEEE')} at{' '}
+            {formatInTimeZone(new Date(selectedSlot), data.viewerTimezone, 'h:mm a')}, starting{' '}
+            {formatInTimeZone(new Date(selectedSlot), data.viewerTimezone, 'MMM d')}
+            {showTeacherTime &&
+              ` (${formatInTimeZone(new Date(selectedSlot), data.teacherTimezone, 'h:mm a')} for ${teacherName})`}
+          </p>
+          <button
+            onClick={handleBook}
+            disabled={isBooking}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg transition-colors disabled:opacity-50 shrink-0"
+          >
+            {isBooking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+            Book
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
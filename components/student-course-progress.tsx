@@ -0,0 +1,97 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { GraduationCap, AlertTriangle } from 'lucide-react'
+import type { WeakQuestion } from '@/lib/course-progress'
+
+interface StudentCourseSummary {
+  slug: string
+  title: string
+  status: string
+  lastAccessedAt: string | null
+  totalLessons: number
+  completedLessons: number
+  progressPercent: number
+  quizAttemptCount: number
+  weakestQuestions: WeakQuestion[]
+}
+
+interface StudentCourseProgressProps {
+  /** Booking id, as used by the /api/teachers/[studentId] routes. */
+  bookingId: string
+  studentName: string
+}
+
+export function StudentCourseProgress({ bookingId, studentName }: StudentCourseProgressProps) {
+  const [courses, setCourses] = useState<StudentCourseSummary[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch(`/api/teachers/${bookingId}/course-progress`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load course progress')
+        setCourses(data.courses)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load course progress'))
+  }, [bookingId])
+
+  return (
+    <div className="glass-card-subtle p-5 rounded-2xl border border-white/10 space-y-4">
+      <div className="flex items-center gap-2 text-sm font-bold text-white">
+        <GraduationCap className="w-4 h-4 text-[#CEB466]" />
+        <span>Course Progress</span>
+      </div>
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      {!error && courses === null && <p className="text-xs text-gray-400">Loading course progress...</p>}
+
+      {courses?.length === 0 && (
+        <p className="text-xs text-gray-400">{studentName} has not started any courses yet.</p>
+      )}
+
+      {courses?.map((course) => (
+        <div key={course.slug} className="p-4 rounded-xl bg-white/[0.03] border border-white/[0.06] space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <p className="text-sm font-semibold text-white truncate">{course.title}</p>
+              <p className="text-[11px] text-gray-400">
+                {course.completedLessons}/{course.totalLessons} lessons · {course.quizAttemptCount} quiz attempts
+                {course.lastAccessedAt && ` · last active ${new Date(course.lastAccessedAt).toLocaleDateString()}`}
+              </p>
+            </div>
+            <span className="text-sm font-bold font-mono text-[#CEB466] shrink-0">{course.progressPercent}%</span>
+          </div>
+
+          <div className="h-1.5 rounded-full bg-white/[0.08] overflow-hidden">
+            <div
+              className="h-full bg-gradient-to-r from-[#CEB466] to-[#9c8644]"
+              style={{ width: `${course.progressPercent}%` }}
+            />
+          </div>
+
+          {course.weakestQuestions.length > 0 && (
+            <div className="space-y-1.5">
+              <p className="text-[10px] font-bold uppercase tracking-wider text-amber-300 flex items-center gap-1">
+                <AlertTriangle className="w-3 h-3" />
+                Weakest quiz questions
+              </p>
+              {course.weakestQuestions.map((q) => (
+                <div key={`${q.quizId}:${q.questionId}`} className="flex items-start justify-between gap-3 text-xs">
+                  <span className="text-gray-300">
+                    {q.question}
+                    <span className="text-gray-500"> · {q.quizTitle}</span>
+                  </span>
+                  <span className="font-mono text-red-300 shrink-0">
+                    missed {q.missed}/{q.attempts}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,442 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Archive, ClipboardList, Loader2, Plus, X } from 'lucide-react'
+import {
+  NOTE_NAMES,
+  PRACTICE_TRAINERS,
+  RHYTHM_TIME_SIGNATURES,
+  SCALE_DIRECTIONS,
+  SCALE_TYPE_LABELS,
+  type PracticeAssignment,
+  type PracticeTrainer,
+} from '@/lib/practice-assignments'
+
+interface HomeworkSuggestions {
+  noteId: string
+  classStartedAt: string
+  items: string[]
+}
+
+interface StudentPracticeAssignmentsProps {
+  /** Booking id, as used by the /api/teachers/[studentId] routes. */
+  bookingId: string
+  studentName: string
+}
+
+const EMPTY_FORM = {
+  trainer: 'scale' as PracticeTrainer,
+  title: '',
+  notes: '',
+  targetSessions: '5',
+  minScore: '',
+  dueDate: '',
+  sourceNoteId: null as string | null,
+  // Trainer settings; only those for the chosen trainer are sent
+  note: '',
+  octave: '',
+  scaleType: 'major',
+  rootNote: 'C',
+  direction: '',
+  tempo: '',
+  bpm: '90',
+  timeSignature: '4/4',
+  songTitle: '',
+  songKey: '',
+}
+
+type AssignmentForm = typeof EMPTY_FORM
+
+function settingsFor(form: AssignmentForm): Record<string, unknown> {
+  switch (form.trainer) {
+    case 'pitch':
+      return { note: form.note || undefined, octave: form.octave || undefined }
+    case 'scale':
+      return {
+        scaleType: form.scaleType,
+        rootNote: form.rootNote,
+        octave: form.octave || undefined,
+        direction: form.direction || undefined,
+        tempo: form.tempo || undefined,
+      }
+    case 'rhythm':
+      return { bpm: form.bpm, timeSignature: form.timeSignature }
+    case 'song':
+      return { songTitle: form.songTitle, songKey: form.songKey }
+  }
+}
+
+const inputClassName =
+  'px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white text-xs focus:outline-none focus:ring-2 focus:ring-[#CEB466]/40'
+
+/**
+ * Teacher view of a student's practice assignments, with a form to set new
+ * ones. Homework from the latest lesson summary can be picked as a starting
+ * point for the title and notes.
+ */
+export function StudentPracticeAssignments({ bookingId, studentName }: StudentPracticeAssignmentsProps) {
+  const [assignments, setAssignments] = useState<PracticeAssignment[] | null>(null)
+  const [suggestions, setSuggestions] = useState<HomeworkSuggestions | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [form, setForm] = useState<AssignmentForm>(EMPTY_FORM)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const loadAssignments = useCallback(() => {
+    fetch(`/api/teachers/${bookingId}/assignments`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load assignments')
+        setAssignments(data.assignments)
+        setSuggestions(data.homeworkSuggestions)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load assignments'))
+  }, [bookingId])
+
+  useEffect(() => {
+    loadAssignments()
+  }, [loadAssignments])
+
+  const update = (changes: Partial<AssignmentForm>) => setForm((prev) => ({ ...prev, ...changes }))
+
+  const applySuggestion = (item: string) => {
+    if (!suggestions) return
+    setShowForm(true)
+    update({ title: item.slice(0, 200), notes: item, sourceNoteId: suggestions.noteId })
+  }
+
+  const handleCreate = async () => {
+    setError(null)
+    setIsSaving(true)
+
+    try {
+      const response = await fetch(`/api/teachers/${bookingId}/assignments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          trainer: form.trainer,
+          settings: settingsFor(form),
+          title: form.title,
+          notes: form.notes,
+          targetSessions: form.targetSessions,
+          minScore: form.minScore,
+          // Due at the end of the chosen day, in the teacher's timezone
+          dueAt: form.dueDate ? new Date(`${form.dueDate}T23:59:59`).toISOString() : null,
+          sourceNoteId: form.sourceNoteId,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to create assignment')
+
+      setAssignments((prev) => [data.assignment, ...(prev || [])])
+      setForm(EMPTY_FORM)
+      setShowForm(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create assignment')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleArchive = async (assignmentId: string) => {
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/teachers/${bookingId}/assignments/${assignmentId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'archived' }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to archive assignment')
+
+      setAssignments((prev) => (prev || []).filter((a) => a.id !== assignmentId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to archive assignment')
+    }
+  }
+
+  return (
+    <div className="glass-card-subtle p-5 rounded-2xl border border-white/10 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-bold text-white">
+          <ClipboardList className="w-4 h-4 text-[#CEB466]" />
+          <span>Practice Assignments</span>
+        </div>
+        <button
+          onClick={() => setShowForm((prev) => !prev)}
+          className="px-3 py-1.5 rounded-lg bg-white/[0.06] hover:bg-[#CEB466]/20 hover:text-[#CEB466] text-gray-300 text-xs font-semibold transition-all border border-white/[0.08] flex items-center gap-1"
+        >
+          {showForm ? <X className="w-3.5 h-3.5" /> : <Plus className="w-3.5 h-3.5" />}
+          {showForm ? 'Cancel' : 'New assignment'}
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      {suggestions && (
+        <div className="space-y-1.5">
+          <p className="text-[10px] font-bold uppercase tracking-wider text-gray-400">
+            Homework from the {new Date(suggestions.classStartedAt).toLocaleDateString()} lesson
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {suggestions.items.map((item) => (
+              <button
+                key={item}
+                onClick={() => applySuggestion(item)}
+                className="px-3 py-1.5 rounded-lg bg-white/[0.06] hover:bg-[#CEB466]/20 hover:text-[#CEB466] text-gray-300 text-xs text-left transition-all border border-white/[0.08]"
+              >
+                + {item}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <div className="p-4 rounded-xl bg-white/[0.03] border border-white/[0.06] space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={form.trainer}
+              onChange={(e) => update({ trainer: e.target.value as PracticeTrainer, octave: '' })}
+              className={inputClassName}
+            >
+              {PRACTICE_TRAINERS.map((t) => (
+                <option key={t.value} value={t.value}>
+                  {t.label}
+                </option>
+              ))}
+            </select>
+
+            {form.trainer === 'pitch' && (
+              <>
+                <select value={form.note} onChange={(e) => update({ note: e.target.value })} className={inputClassName}>
+                  <option value="">Any note</option>
+                  {NOTE_NAMES.map((n) => (
+                    <option key={n} value={n}>
+                      {n}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={1}
+                  max={7}
+                  value={form.octave}
+                  onChange={(e) => update({ octave: e.target.value })}
+                  placeholder="Octave"
+                  className={`${inputClassName} w-24`}
+                />
+              </>
+            )}
+
+            {form.trainer === 'scale' && (
+              <>
+                <select value={form.rootNote} onChange={(e) => update({ rootNote: e.target.value })} className={inputClassName}>
+                  {NOTE_NAMES.map((n) => (
+                    <option key={n} value={n}>
+                      {n}
+                    </option>
+                  ))}
+                </select>
+                <select value={form.scaleType} onChange={(e) => update({ scaleType: e.target.value })} className={inputClassName}>
+                  {Object.entries(SCALE_TYPE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <select value={form.direction} onChange={(e) => update({ direction: e.target.value })} className={inputClassName}>
+                  <option value="">Any direction</option>
+                  {SCALE_DIRECTIONS.map((d) => (
+                    <option key={d} value={d}>
+                      {d}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={2}
+                  max={6}
+                  value={form.octave}
+                  onChange={(e) => update({ octave: e.target.value })}
+                  placeholder="Octave"
+                  className={`${inputClassName} w-24`}
+                />
+                <input
+                  type="number"
+                  min={40}
+                  max={200}
+                  value={form.tempo}
+                  onChange={(e) => update({ tempo: e.target.value })}
+                  placeholder="Any tempo"
+                  className={`${inputClassName} w-28`}
+                />
+              </>
+            )}
+
+            {form.trainer === 'rhythm' && (
+              <>
+                <input
+                  type="number"
+                  min={40}
+                  max={220}
+                  value={form.bpm}
+                  onChange={(e) => update({ bpm: e.target.value })}
+                  placeholder="BPM"
+                  className={`${inputClassName} w-24`}
+                />
+                <select
+                  value={form.timeSignature}
+                  onChange={(e) => update({ timeSignature: e.target.value })}
+                  className={inputClassName}
+                >
+                  {RHYTHM_TIME_SIGNATURES.map((ts) => (
+                    <option key={ts} value={ts}>
+                      {ts}
+                    </option>
+                  ))}
+                </select>
+              </>
+            )}
+
+            {form.trainer === 'song' && (
+              <>
+                <input
+                  value={form.songTitle}
+                  onChange={(e) => update({ songTitle: e.target.value })}
+                  placeholder="Song (optional)"
+                  className={inputClassName}
+                />
+                <input
+                  value={form.songKey}
+                  onChange={(e) => update({ songKey: e.target.value })}
+                  placeholder="Key, e.g. Bb (optional)"
+                  className={`${inputClassName} w-40`}
+                />
+              </>
+            )}
+          </div>
+
+          <input
+            value={form.title}
+            onChange={(e) => update({ title: e.target.value })}
+            placeholder="Title (defaults to the trainer settings)"
+            className={`${inputClassName} w-full`}
+          />
+          <textarea
+            value={form.notes}
+            onChange={(e) => update({ notes: e.target.value })}
+            placeholder={`Notes for ${studentName}`}
+            rows={2}
+            className={`${inputClassName} w-full`}
+          />
+
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+            <label className="flex items-center gap-1">
+              Sessions
+              <input
+                type="number"
+                min={1}
+                max={50}
+                value={form.targetSessions}
+                onChange={(e) => update({ targetSessions: e.target.value })}
+                className={`${inputClassName} w-20`}
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              Min score
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={form.minScore}
+                onChange={(e) => update({ minScore: e.target.value })}
+                placeholder="None"
+                className={`${inputClassName} w-20`}
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              Due
+              <input
+                type="date"
+                value={form.dueDate}
+                onChange={(e) => update({ dueDate: e.target.value })}
+                className={inputClassName}
+              />
+            </label>
+            <button
+              onClick={handleCreate}
+              disabled={isSaving}
+              className="ml-auto py-2 px-4 rounded-lg bg-gradient-to-r from-[#CEB466] to-[#9c8644] text-[#171229] font-bold text-xs flex items-center gap-1 disabled:opacity-50"
+            >
+              {isSaving && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+              Assign
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!error && assignments === null && <p className="text-xs text-gray-400">Loading assignments...</p>}
+
+      {assignments?.length === 0 && !showForm && (
+        <p className="text-xs text-gray-400">{studentName} has no practice assignments.</p>
+      )}
+
+      {assignments?.map((assignment) => {
+        const done = Math.min(assignment.completedSessions, assignment.targetSessions)
+        const percent = Math.round((done / assignment.targetSessions) * 100)
+
+        return (
+          <div key={assignment.id} className="p-4 rounded-xl bg-white/[0.03] border border-white/[0.06] space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm font-semibold text-white truncate">{assignment.title}</p>
+                <p className="text-[11px] text-gray-400">
+                  {assignment.description}
+                  {assignment.dueAt && ` · due ${new Date(assignment.dueAt).toLocaleDateString()}`}
+                  {assignment.lastPracticedAt &&
+                    ` · last practised ${new Date(assignment.lastPracticedAt).toLocaleDateString()}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                <span
+                  className={`text-sm font-bold font-mono ${
+                    assignment.status === 'completed' ? 'text-emerald-400' : 'text-[#CEB466]'
+                  }`}
+                >
+                  {done}/{assignment.targetSessions}
+                </span>
+                <button
+                  onClick={() => handleArchive(assignment.id)}
+                  className="p-1.5 rounded-lg text-gray-500 hover:text-white hover:bg-white/10"
+                  title="Archive"
+                >
+                  <Archive className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+
+            <div className="h-1.5 rounded-full bg-white/[0.08] overflow-hidden">
+              <div
+                className={`h-full ${
+                  assignment.status === 'completed'
+                    ? 'bg-emerald-400'
+                    : 'bg-gradient-to-r from-[#CEB466] to-[#9c8644]'
+                }`}
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+
+            {assignment.bestScore !== null && (
+              <p className="text-[11px] text-gray-400">
+                Best score {assignment.bestScore}
+                {assignment.minScore !== null && ` (needs ${assignment.minScore}+)`}
+              </p>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,295 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { FileMusic, Loader2, Trash2, Upload, X } from 'lucide-react'
+import {
+  SIGHT_SINGING_LIBRARY,
+  parseMelodyFile,
+  type Melody,
+  type MelodySource,
+  type PhraseResult,
+} from '@/lib/sight-singing'
+
+interface SightSingingPiece {
+  id: string
+  title: string
+  source: MelodySource
+  file_name: string | null
+  tempo_bpm: number
+  note_count: number
+  created_at: string
+}
+
+interface SightSingingSession {
+  id: string
+  title: string
+  started_at: string
+  tempo_bpm: number
+  total_notes: number
+  notes_hit: number
+  pitch_accuracy: number | null
+  timing_accuracy: number | null
+  overall_score: number | null
+  phrase_results: PhraseResult[]
+}
+
+interface PendingPiece {
+  melody: Melody
+  source: MelodySource
+  fileName: string | null
+}
+
+interface StudentSightSingingProps {
+  /** Booking id, as used by the /api/teachers/[studentId] routes. */
+  bookingId: string
+  studentName: string
+}
+
+const inputClassName =
+  'px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white text-xs focus:outline-none focus:ring-2 focus:ring-[#CEB466]/40'
+
+const SOURCE_LABELS: Record<MelodySource, string> = { musicxml: 'MusicXML', midi: 'MIDI', library: 'Library' }
+
+function phraseColor(score: number) {
+  return score >= 80 ? 'bg-emerald-400' : score >= 50 ? 'bg-[#CEB466]' : 'bg-red-400'
+}
+
+/**
+ * Teacher view of a student's sight-singing: import a MusicXML or MIDI file
+ * (parsed here, previewed, then assigned) or assign a library exercise, and
+ * review the student's recent attempts phrase by phrase.
+ */
+export function StudentSightSinging({ bookingId, studentName }: StudentSightSingingProps) {
+  const [pieces, setPieces] = useState<SightSingingPiece[] | null>(null)
+  const [sessions, setSessions] = useState<SightSingingSession[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [pending, setPending] = useState<PendingPiece | null>(null)
+  const [isParsing, setIsParsing] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+
+  const loadPieces = useCallback(() => {
+    fetch(`/api/teachers/${bookingId}/sight-singing`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load sight-singing')
+        setPieces(data.pieces)
+        setSessions(data.sessions)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load sight-singing'))
+  }, [bookingId])
+
+  useEffect(() => {
+    loadPieces()
+  }, [loadPieces])
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setError(null)
+    setIsParsing(true)
+
+    try {
+      const { melody, source } = await parseMelodyFile(file)
+      setPending({ melody, source, fileName: file.name })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read this file')
+    } finally {
+      setIsParsing(false)
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+  }
+
+  const pickLibrary = (id: string) => {
+    const exercise = SIGHT_SINGING_LIBRARY.find((e) => e.id === id)
+    if (exercise) setPending({ melody: exercise.melody, source: 'library', fileName: null })
+  }
+
+  const updatePending = (changes: Partial<Melody>) =>
+    setPending((prev) => (prev ? { ...prev, melody: { ...prev.melody, ...changes } } : prev))
+
+  const handleAssign = async () => {
+    if (!pending) return
+    setError(null)
+    setIsSaving(true)
+
+    try {
+      const response = await fetch(`/api/teachers/${bookingId}/sight-singing`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(pending),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to assign piece')
+
+      setPieces((prev) => [data.piece, ...(prev || [])])
+      setPending(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to assign piece')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRemove = async (pieceId: string) => {
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/teachers/${bookingId}/sight-singing/${pieceId}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to remove piece')
+
+      setPieces((prev) => (prev || []).filter((p) => p.id !== pieceId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove piece')
+    }
+  }
+
+  return (
+    <div className="glass-card-subtle p-5 rounded-2xl border border-white/10 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-bold text-white">
+          <FileMusic className="w-4 h-4 text-[#CEB466]" />
+          <span>Sight-Singing</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value=""
+            onChange={(e) => pickLibrary(e.target.value)}
+            className={inputClassName}
+          >
+            <option value="">From library...</option>
+            {SIGHT_SINGING_LIBRARY.map((exercise) => (
+              <option key={exercise.id} value={exercise.id}>
+                {exercise.melody.title} ({exercise.level})
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isParsing}
+            className="px-3 py-1.5 rounded-lg bg-white/[0.06] hover:bg-[#CEB466]/20 hover:text-[#CEB466] text-gray-300 text-xs font-semibold transition-all border border-white/[0.08] flex items-center gap-1 disabled:opacity-50"
+          >
+            {isParsing ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Upload className="w-3.5 h-3.5" />}
+            Import file
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".musicxml,.xml,.mxl,.mid,.midi"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      {pending && (
+        <div className="p-4 rounded-xl bg-white/[0.03] border border-white/[0.06] space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-[11px] text-gray-400">
+              {SOURCE_LABELS[pending.source]}
+              {pending.fileName && ` · ${pending.fileName}`} · {pending.melody.notes.length} notes in{' '}
+              {pending.melody.phrases.length} phrases
+            </p>
+            <button
+              onClick={() => setPending(null)}
+              className="p-1.5 rounded-lg text-gray-500 hover:text-white hover:bg-white/10"
+              title="Cancel"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+            <input
+              value={pending.melody.title}
+              onChange={(e) => updatePending({ title: e.target.value })}
+              placeholder="Title"
+              className={`${inputClassName} flex-1 min-w-48`}
+            />
+            <label className="flex items-center gap-1">
+              Tempo
+              <input
+                type="number"
+                min={30}
+                max={240}
+                value={pending.melody.tempoBpm}
+                onChange={(e) => updatePending({ tempoBpm: Number(e.target.value) })}
+                className={`${inputClassName} w-20`}
+              />
+            </label>
+            <button
+              onClick={handleAssign}
+              disabled={isSaving}
+              className="ml-auto py-2 px-4 rounded-lg bg-gradient-to-r from-[#CEB466] to-[#9c8644] text-[#171229] font-bold text-xs flex items-center gap-1 disabled:opacity-50"
+            >
+              {isSaving && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+              Assign to {studentName}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!error && pieces === null && <p className="text-xs text-gray-400">Loading sight-singing...</p>}
+
+      {pieces?.length === 0 && !pending && (
+        <p className="text-xs text-gray-400">
+          No pieces assigned. {studentName} can still practise the library exercises.
+        </p>
+      )}
+
+      {pieces?.map((piece) => (
+        <div key={piece.id} className="flex items-center justify-between gap-3 p-3 rounded-xl bg-white/[0.03] border border-white/[0.06]">
+          <div className="min-w-0">
+            <p className="text-sm font-semibold text-white truncate">{piece.title}</p>
+            <p className="text-[11px] text-gray-400">
+              {SOURCE_LABELS[piece.source]} · {piece.note_count} notes · {piece.tempo_bpm} BPM · assigned{' '}
+              {new Date(piece.created_at).toLocaleDateString()}
+            </p>
+          </div>
+          <button
+            onClick={() => handleRemove(piece.id)}
+            className="p-1.5 rounded-lg text-gray-500 hover:text-white hover:bg-white/10 shrink-0"
+            title="Remove"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+
+      {sessions.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-[10px] font-bold uppercase tracking-wider text-gray-400">Recent attempts</p>
+          {sessions.map((session) => (
+            <div key={session.id} className="p-3 rounded-xl bg-white/[0.03] border border-white/[0.06] space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-xs font-semibold text-white truncate">{session.title}</p>
+                  <p className="text-[11px] text-gray-400">
+                    {new Date(session.started_at).toLocaleDateString()} · {session.tempo_bpm} BPM ·{' '}
+                    {session.notes_hit}/{session.total_notes} notes · pitch {Math.round(Number(session.pitch_accuracy))}% ·
+                    timing {Math.round(Number(session.timing_accuracy))}%
+                  </p>
+                </div>
+                <span className="text-sm font-bold font-mono text-[#CEB466] shrink-0">
+                  {Math.round(Number(session.overall_score))}
+                </span>
+              </div>
+              <div className="flex gap-1">
+                {session.phrase_results.map((phrase) => (
+                  <div
+                    key={phrase.phrase}
+                    className="flex-1 h-6 rounded bg-white/[0.06] overflow-hidden flex items-end"
+                    title={`Phrase ${phrase.phrase + 1}: ${phrase.notesHit}/${phrase.totalNotes} notes, pitch ${Math.round(phrase.pitchAccuracy)}%, timing ${Math.round(phrase.timingAccuracy)}%`}
+                  >
+                    <div className={`w-full ${phraseColor(phrase.score)}`} style={{ height: `${Math.max(8, phrase.score)}%` }} />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,175 @@
+/**
+ * Splitting long lesson recordings into audio chunks Whisper will accept.
+ *
+ * A full-length lesson with video is well above Whisper's 25MB limit, but its
+ * audio alone is not the problem - it is the length. We extract the audio
+ * track once as low-bitrate mono MP3, then cut it into fixed-length chunks
+ * that are transcribed one after another (see lib/lesson-processing.ts).
+ *
+ * Each chunk starts OVERLAP_SECONDS before its nominal boundary, so words cut
+ * off at the end of one chunk are heard whole at the start of the next. When
+ * stitching, the overlap is split down the middle: segments from the earlier
+ * chunk are kept up to the midpoint, segments from the later chunk from the
+ * midpoint on. That keeps every kept segment at least OVERLAP_SECONDS / 2
+ * away from a hard cut.
+ *
+ * Runs the ffmpeg and ffprobe binaries bundled by ffmpeg-static and
+ * ffprobe-static (FFMPEG_PATH and FFPROBE_PATH override them). If they are
+ * missing anyway extractAudio fails with FFMPEG_MISSING_ERROR, which the cron
+ * treats as permanent.
+ */
+
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import ffmpegStatic from 'ffmpeg-static'
+import { path as ffprobeStatic } from 'ffprobe-static'
+
+const execFileAsync = promisify(execFile)
+
+/** The failure reason when the binaries are missing; retrying cannot help */
+export const FFMPEG_MISSING_ERROR = 'ffmpeg/ffprobe not found on the server; long recordings cannot be chunked'
+
+/** Nominal chunk length. 10 minutes of 32kbps mono MP3 is about 2.4MB. */
+export const CHUNK_SECONDS = 600
+
+/** Audio shared between neighbouring chunks. */
+export const OVERLAP_SECONDS = 15
+
+export interface TranscriptSegment {
+  /** Seconds from the start of the recording */
+  start: number
+  end: number
+  text: string
+}
+
+export interface AudioChunk {
+  index: number
+  /** Where the chunk's audio starts in the recording, in seconds */
+  start: number
+  duration: number
+  /** Segments whose midpoint falls in [keepFrom, keepUntil) belong to this chunk */
+  keepFrom: number
+  keepUntil: number
+}
+
+/** The chunks covering a recording of the given length. */
+export function planChunks(durationSeconds: number): AudioChunk[] {
+  const total = Math.max(1, Math.ceil(durationSeconds / CHUNK_SECONDS))
+  const chunks: AudioChunk[] = []
+
+  for (let index = 0; index < total; index++) {
+    const boundary = index * CHUNK_SECONDS
+    const start = Math.max(0, boundary - OVERLAP_SECONDS)
+    const end = Math.min(durationSeconds, boundary + CHUNK_SECONDS)
+
+    chunks.push({
+      index,
+      start,
+      duration: Math.max(0, end - start),
+      keepFrom: index === 0 ? 0 : boundary - OVERLAP_SECONDS / 2,
+      keepUntil: index === total - 1 ? Infinity : boundary + CHUNK_SECONDS - OVERLAP_SECONDS / 2,
+    })
+  }
+
+  return chunks
+}
+
+/**
+ * Shift a chunk's segments (timed from the start of the chunk) onto the
+ * recording's timeline and drop the ones the neighbouring chunk owns.
+ */
+export function placeChunkSegments(
+  chunk: AudioChunk,
+  segments: TranscriptSegment[]
+): TranscriptSegment[] {
+  return segments
+    .map(seg => ({
+      start: round2(seg.start + chunk.start),
+      end: round2(seg.end + chunk.start),
+      text: seg.text.trim(),
+    }))
+    .filter(seg => {
+      const mid = (seg.start + seg.end) / 2
+      return seg.text.length > 0 && mid >= chunk.keepFrom && mid < chunk.keepUntil
+    })
+}
+
+/** Plain transcript text from stitched segments. */
+export function segmentsToText(segments: TranscriptSegment[]): string {
+  return segments.map(seg => seg.text).join(' ').replace(/\s+/g, ' ').trim()
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+/**
+ * The recording's audio track on disk, ready to be cut into chunks. Call
+ * cleanup() when done; the temp directory is not removed otherwise.
+ */
+export interface ExtractedAudio {
+  durationSeconds: number
+  cutChunk(chunk: AudioChunk): Promise<Buffer>
+  cleanup(): Promise<void>
+}
+
+export async function extractAudio(recording: Buffer): Promise<ExtractedAudio> {
+  const ffmpeg = process.env.FFMPEG_PATH || ffmpegStatic || 'ffmpeg'
+  const ffprobe = process.env.FFPROBE_PATH || ffprobeStatic
+  const dir = await mkdtemp(path.join(tmpdir(), 'lesson-audio-'))
+  const cleanup = () => rm(dir, { recursive: true, force: true })
+
+  try {
+    const inputPath = path.join(dir, 'recording.webm')
+    const audioPath = path.join(dir, 'audio.mp3')
+    await writeFile(inputPath, recording)
+
+    await execFileAsync(ffmpeg, [
+      '-hide_banner', '-loglevel', 'error', '-y',
+      '-i', inputPath,
+      '-vn', '-ac', '1', '-ar', '16000', '-c:a', 'libmp3lame', '-b:a', '32k',
+      audioPath,
+    ], { maxBuffer: 1024 * 1024 })
+
+    // Probe the MP3 rather than the upload: MediaRecorder WebM files usually
+    // carry no duration in their header.
+    const { stdout } = await execFileAsync(ffprobe, [
+      '-v', 'error',
+      '-show_entries', 'format=duration',
+      '-of', 'default=noprint_wrappers=1:nokey=1',
+      audioPath,
+    ])
+    const durationSeconds = parseFloat(stdout.trim())
+    if (!Number.isFinite(durationSeconds) || durationSeconds <= 0) {
+      throw new Error(`Could not read audio duration (ffprobe returned "${stdout.trim()}")`)
+    }
+
+    return {
+      durationSeconds,
+      cleanup,
+      async cutChunk(chunk) {
+        const chunkPath = path.join(dir, `chunk-${chunk.index}.mp3`)
+        await execFileAsync(ffmpeg, [
+          '-hide_banner', '-loglevel', 'error', '-y',
+          '-ss', String(chunk.start),
+          '-t', String(chunk.duration),
+          '-i', audioPath,
+          '-c', 'copy',
+          chunkPath,
+        ], { maxBuffer: 1024 * 1024 })
+        const buffer = await readFile(chunkPath)
+        await rm(chunkPath, { force: true })
+        return buffer
+      },
+    }
+  } catch (error) {
+    await cleanup()
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(FFMPEG_MISSING_ERROR)
+    }
+    throw error
+  }
+}
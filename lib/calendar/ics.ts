@@ -0,0 +1,329 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer and parser.
+ *
+ * The writer covers what lesson feeds and invites need: VEVENTs with RRULE,
+ * EXDATE and RECURRENCE-ID overrides, attendees and METHOD. Times with a
+ * TZID are written as IANA zone names, which Google, Apple and Outlook accept
+ * without a VTIMEZONE block.
+ *
+ * The parser reads the VEVENTs out of inbound invites; it understands UTC,
+ * TZID-qualified and floating times plus all-day DATE values, and ignores
+ * everything it does not need.
+ */
+
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz'
+
+export interface IcsAttendee {
+  email: string
+  name?: string | null
+  role?: 'REQ-PARTICIPANT' | 'CHAIR'
+}
+
+export interface IcsEvent {
+  uid: string
+  start: Date
+  end: Date
+  /** Write DTSTART/DTEND (and EXDATE/RECURRENCE-ID) as wall-clock times in this zone. */
+  timezone?: string
+  summary: string
+  description?: string | null
+  location?: string | null
+  url?: string | null
+  organizer?: IcsAttendee | null
+  attendees?: IcsAttendee[]
+  /** e.g. 'FREQ=WEEKLY' */
+  rrule?: string | null
+  exdates?: Date[]
+  recurrenceId?: Date | null
+  status?: 'CONFIRMED' | 'CANCELLED'
+  sequence?: number
+}
+
+export interface ParsedIcsAttendee {
+  email: string | null
+  name: string | null
+  status: string | null
+}
+
+export interface ParsedIcsEvent {
+  uid: string
+  sequence: number
+  method: string | null
+  status: string | null
+  summary: string | null
+  description: string | null
+  location: string | null
+  url: string | null
+  start: Date | null
+  end: Date | null
+  isAllDay: boolean
+  timezone: string | null
+  organizerName: string | null
+  organizerEmail: string | null
+  attendees: ParsedIcsAttendee[]
+}
+
+const PRODID = '-//Voice Alchemy Academy//Lessons//EN'
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+}
+
+function quoteParam(value: string): string {
+  return `"${value.replace(/"/g, "'")}"`
+}
+
+/** Fold lines longer than 75 octets, as RFC 5545 requires. */
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf-8')
+  if (bytes.length <= 75) return line
+
+  const chunks: string[] = []
+  let current = ''
+  let currentBytes = 0
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, 'utf-8')
+    const limit = chunks.length === 0 ? 75 : 74
+    if (currentBytes + charBytes > limit) {
+      chunks.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += charBytes
+  }
+  chunks.push(current)
+  return chunks.join('\r\n ')
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function dateProperty(name: string, date: Date, timezone?: string): string {
+  return timezone
+    ? `${name};TZID=${timezone}:${formatInTimeZone(date, timezone, "yyyyMMdd'T'HHmmss")}`
+    : `${name}:${formatUtc(date)}`
+}
+
+function personProperty(name: 'ORGANIZER' | 'ATTENDEE', person: IcsAttendee): string {
+  const params = person.name ? `;CN=${quoteParam(person.name)}` : ''
+  const role = name === 'ATTENDEE' ? `;ROLE=${person.role || 'REQ-PARTICIPANT'};PARTSTAT=ACCEPTED` : ''
+  return `${name}${params}${role}:mailto:${person.email}`
+}
+
+function eventLines(event: IcsEvent, now: Date): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    dateProperty('DTSTART', event.start, event.timezone),
+    dateProperty('DTEND', event.end, event.timezone),
+    `SUMMARY:${escapeText(event.summary)}`,
+    `SEQUENCE:${event.sequence ?? 0}`,
+    `STATUS:${event.status || 'CONFIRMED'}`,
+  ]
+
+  if (event.recurrenceId) lines.push(dateProperty('RECURRENCE-ID', event.recurrenceId, event.timezone))
+  if (event.rrule) lines.push(`RRULE:${event.rrule}`)
+  for (const exdate of event.exdates || []) {
+    lines.push(dateProperty('EXDATE', exdate, event.timezone))
+  }
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+  if (event.url) lines.push(`URL:${event.url}`)
+  if (event.organizer) lines.push(personProperty('ORGANIZER', event.organizer))
+  for (const attendee of event.attendees || []) {
+    lines.push(personProperty('ATTENDEE', attendee))
+  }
+
+  lines.push('END:VEVENT')
+  return lines
+}
+
+/** Serialise events as a VCALENDAR. `method` is set for emailed invites (REQUEST/CANCEL), not feeds. */
+export function buildCalendar(
+  events: IcsEvent[],
+  options: { method?: 'REQUEST' | 'CANCEL' | 'PUBLISH'; name?: string } = {}
+): string {
+  const now = new Date()
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODID}`, 'CALSCALE:GREGORIAN']
+  if (options.method) lines.push(`METHOD:${options.method}`)
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeText(options.name)}`)
+  for (const event of events) {
+    lines.push(...eventLines(event, now))
+  }
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+interface ContentLine {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1')
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // Split "NAME;PARAM=a;PARAM="b:c":value" on the first colon outside quotes
+  let inQuotes = false
+  let colon = -1
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes
+    if (line[i] === ':' && !inQuotes) {
+      colon = i
+      break
+    }
+  }
+  if (colon === -1) return null
+
+  const [name, ...paramParts] = line.slice(0, colon).split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/)
+  const params: Record<string, string> = {}
+  for (const part of paramParts) {
+    const eq = part.indexOf('=')
+    if (eq > 0) params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '')
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) }
+}
+
+function parseDate(line: ContentLine): { date: Date | null; isAllDay: boolean; timezone: string | null } {
+  const value = line.value.trim()
+  const allDay = /^\d{8}$/.test(value) || line.params.VALUE === 'DATE'
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/)
+  if (!match) return { date: null, isAllDay: false, timezone: null }
+
+  const [, y, mo, d, h = '00', mi = '00', s = '00', utc] = match
+  const local = `${y}-${mo}-${d}T${h}:${mi}:${s}`
+  const timezone = line.params.TZID || null
+
+  if (allDay) return { date: new Date(`${y}-${mo}-${d}T00:00:00Z`), isAllDay: true, timezone }
+  if (utc) return { date: new Date(`${local}Z`), isAllDay: false, timezone }
+  if (timezone) {
+    try {
+      return { date: fromZonedTime(local, timezone), isAllDay: false, timezone }
+    } catch {
+      // Windows zone names ("Eastern Standard Time") aren't IANA; fall through
+    }
+  }
+  return { date: new Date(`${local}Z`), isAllDay: false, timezone }
+}
+
+function parseMailto(value: string): string | null {
+  const email = value.replace(/^mailto:/i, '').trim()
+  return email.includes('@') ? email.toLowerCase() : null
+}
+
+/** All VEVENTs in an iCalendar document. */
+export function parseIcs(text: string): ParsedIcsEvent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)
+  const events: ParsedIcsEvent[] = []
+  let method: string | null = null
+  let current: ParsedIcsEvent | null = null
+  let depth = 0
+
+  for (const raw of lines) {
+    const line = parseContentLine(raw)
+    if (!line) continue
+
+    if (line.name === 'METHOD' && !current) {
+      method = line.value.trim().toUpperCase()
+      continue
+    }
+
+    if (line.name === 'BEGIN') {
+      if (line.value.toUpperCase() === 'VEVENT') {
+        current = {
+          uid: '',
+          sequence: 0,
+          method,
+          status: null,
+          summary: null,
+          description: null,
+          location: null,
+          url: null,
+          start: null,
+          end: null,
+          isAllDay: false,
+          timezone: null,
+          organizerName: null,
+          organizerEmail: null,
+          attendees: [],
+        }
+      } else if (current) {
+        // Nested component (VALARM); skip its properties
+        depth++
+      }
+      continue
+    }
+
+    if (line.name === 'END') {
+      if (depth > 0) {
+        depth--
+      } else if (line.value.toUpperCase() === 'VEVENT' && current) {
+        if (current.uid) events.push(current)
+        current = null
+      }
+      continue
+    }
+
+    if (!current || depth > 0) continue
+
+    switch (line.name) {
+      case 'UID':
+        current.uid = line.value.trim()
+        break
+      case 'SEQUENCE':
+        current.sequence = Number(line.value) || 0
+        break
+      case 'STATUS':
+        current.status = line.value.trim().toUpperCase()
+        break
+      case 'SUMMARY':
+        current.summary = unescapeText(line.value)
+        break
+      case 'DESCRIPTION':
+        current.description = unescapeText(line.value)
+        break
+      case 'LOCATION':
+        current.location = unescapeText(line.value) || null
+        break
+      case 'URL':
+        current.url = line.value.trim() || null
+        break
+      case 'DTSTART': {
+        const parsed = parseDate(line)
+        current.start = parsed.date
+        current.isAllDay = parsed.isAllDay
+        current.timezone = parsed.timezone
+        break
+      }
+      case 'DTEND':
+        current.end = parseDate(line).date
+        break
+      case 'ORGANIZER':
+        current.organizerEmail = parseMailto(line.value)
+        current.organizerName = line.params.CN || null
+        break
+      case 'ATTENDEE':
+        current.attendees.push({
+          email: parseMailto(line.value),
+          name: line.params.CN || null,
+          status: line.params.PARTSTAT || null,
+        })
+        break
+    }
+  }
+
+  return events
+}
@@ -0,0 +1,326 @@
+/**
+ * Lessons as iCalendar: the per-user subscription feed and the .ics invites
+ * attached to booking-confirmation and reschedule emails.
+ *
+ * A booking's weekly slot becomes one recurring VEVENT (RRULE:FREQ=WEEKLY in
+ * the lesson timezone). lesson_occurrences exceptions map onto it: cancelled
+ * weeks become EXDATEs, moved lessons become RECURRENCE-ID overrides, and
+ * extra lessons are standalone events. Summaries and room links are written
+ * for the person receiving the calendar, so teacher and student each get a
+ * link to their own side of the lesson room.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { sendEmail } from '@/lib/sendgrid'
+import { buildCalendar, type IcsAttendee, type IcsEvent } from '@/lib/calendar/ics'
+import {
+  DEFAULT_LESSON_DURATION_MINUTES,
+  DEFAULT_LESSON_TIMEZONE,
+  RECURRING_BOOKING_COLUMNS,
+  expandWeeklySlot,
+  isWeeklySlot,
+  type LessonOccurrenceRow,
+  type RecurringBooking,
+} from '@/lib/lesson-occurrences'
+
+const UID_DOMAIN = 'voicealchemyacademy.com'
+/** Feed history kept for exceptions; older cancellations and moves are dropped. */
+const FEED_HISTORY_DAYS = 90
+
+interface Participant {
+  id: string
+  name: string
+  email: string | null
+}
+
+type Participants = Map<string, Participant>
+
+function appUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || 'https://www.voicealchemyacademy.com'
+}
+
+/** The lesson room as seen by `viewerId`. */
+export function lessonRoomUrl(booking: Pick<RecurringBooking, 'id' | 'instructor_id'>, viewerId: string): string {
+  return booking.instructor_id === viewerId
+    ? `${appUrl()}/dashboard/students/${booking.id}`
+    : `${appUrl()}/dashboard/my-lessons/${booking.id}`
+}
+
+async function loadParticipants(admin: SupabaseClient, ids: string[]): Promise<Participants> {
+  const unique = [...new Set(ids)]
+  const participants: Participants = new Map()
+  if (unique.length === 0) return participants
+
+  const { data: profiles } = await admin.from('profiles').select('id, name, first_name, last_name').in('id', unique)
+
+  await Promise.all(
+    unique.map(async (id) => {
+      const profile = profiles?.find((p) => p.id === id)
+      const { data } = await admin.auth.admin.getUserById(id)
+      participants.set(id, {
+        id,
+        name:
+          profile?.name || `${profile?.first_name || ''} ${profile?.last_name || ''}`.trim() || data.user?.email || 'Unknown',
+        email: data.user?.email ?? null,
+      })
+    })
+  )
+
+  return participants
+}
+
+function seriesUid(bookingId: string): string {
+  return `lesson-${bookingId}@${UID_DOMAIN}`
+}
+
+function occurrenceUid(occurrenceId: string): string {
+  return `lesson-occurrence-${occurrenceId}@${UID_DOMAIN}`
+}
+
+function baseEvent(
+  booking: RecurringBooking,
+  participants: Participants,
+  viewerId: string
+): Omit<IcsEvent, 'uid' | 'start' | 'end'> {
+  const teacher = participants.get(booking.instructor_id)
+  const student = participants.get(booking.student_id)
+  const other = booking.instructor_id === viewerId ? student : teacher
+  const roomUrl = lessonRoomUrl(booking, viewerId)
+  const attendees = [teacher, student]
+    .filter((p): p is Participant => !!p?.email)
+    .map<IcsAttendee>((p) => ({
+      email: p.email!,
+      name: p.name,
+      role: p.id === booking.instructor_id ? 'CHAIR' : 'REQ-PARTICIPANT',
+    }))
+
+  return {
+    timezone: booking.lesson_timezone || DEFAULT_LESSON_TIMEZONE,
+    summary: `Voice lesson with ${other?.name || 'your teacher'}`,
+    description: `Join the lesson room: ${roomUrl}`,
+    location: roomUrl,
+    url: roomUrl,
+    organizer: teacher?.email ? { email: teacher.email, name: teacher.name } : null,
+    attendees,
+  }
+}
+
+function endOf(start: Date, minutes: number): Date {
+  return new Date(start.getTime() + minutes * 60 * 1000)
+}
+
+/** The weekly series plus its overrides and extra lessons, for one booking. */
+function bookingEvents(
+  booking: RecurringBooking,
+  rows: LessonOccurrenceRow[],
+  participants: Participants,
+  viewerId: string,
+  sequence = 0
+): IcsEvent[] {
+  const base = baseEvent(booking, participants, viewerId)
+  const duration = booking.lesson_duration_minutes || DEFAULT_LESSON_DURATION_MINUTES
+  const events: IcsEvent[] = []
+
+  const seriesFrom = new Date(
+    Math.max(new Date(booking.created_at).getTime(), new Date(booking.schedule_starts_at || 0).getTime())
+  )
+  const firstSlot = expandWeeklySlot(booking, seriesFrom, new Date(seriesFrom.getTime() + 8 * 24 * 60 * 60 * 1000))[0]
+
+  const slotOverrides = firstSlot
+    ? rows.filter((row) => row.kind === 'recurring' && row.original_starts_at && isWeeklySlot(booking, row.original_starts_at))
+    : []
+
+  if (firstSlot) {
+    events.push({
+      ...base,
+      uid: seriesUid(booking.id),
+      start: firstSlot,
+      end: endOf(firstSlot, duration),
+      rrule: 'FREQ=WEEKLY',
+      exdates: slotOverrides.map((row) => new Date(row.original_starts_at!)),
+      sequence,
+    })
+
+    for (const row of slotOverrides.filter((r) => r.status === 'scheduled')) {
+      events.push({
+        ...base,
+        uid: seriesUid(booking.id),
+        recurrenceId: new Date(row.original_starts_at!),
+        start: new Date(row.starts_at),
+        end: endOf(new Date(row.starts_at), row.duration_minutes),
+        summary: `${base.summary} (rescheduled)`,
+        sequence,
+      })
+    }
+  }
+
+  // Extra lessons, and moved lessons whose weekly slot no longer exists
+  const overrideIds = new Set(slotOverrides.map((row) => row.id))
+  for (const row of rows.filter((r) => !overrideIds.has(r.id) && r.status === 'scheduled')) {
+    events.push({
+      ...base,
+      uid: occurrenceUid(row.id),
+      start: new Date(row.starts_at),
+      end: endOf(new Date(row.starts_at), row.duration_minutes),
+      summary: row.kind === 'extra' ? `${base.summary} (extra lesson)` : base.summary,
+      sequence,
+    })
+  }
+
+  return events
+}
+
+/**
+ * The ICS subscription feed for one user: every confirmed booking they teach
+ * or take, with its cancellations, moves and extra lessons.
+ */
+export async function buildLessonFeed(admin: SupabaseClient, profileId: string): Promise<string> {
+  const { data: bookings, error } = await admin
+    .from('bookings')
+    .select(RECURRING_BOOKING_COLUMNS)
+    .or(`instructor_id.eq.${profileId},student_id.eq.${profileId}`)
+    .eq('status', 'confirmed')
+
+  if (error) {
+    console.error('[LessonCalendar] Error loading bookings:', error)
+  }
+
+  const recurring = (bookings || []) as RecurringBooking[]
+  const since = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+  const { data: rows } = recurring.length
+    ? await admin
+        .from('lesson_occurrences')
+        .select('*')
+        .in('booking_id', recurring.map((b) => b.id))
+        .or(`starts_at.gte.${since},original_starts_at.gte.${since}`)
+    : { data: [] }
+
+  const participants = await loadParticipants(
+    admin,
+    recurring.flatMap((b) => [b.instructor_id, b.student_id])
+  )
+
+  const events = recurring.flatMap((booking) =>
+    bookingEvents(
+      booking,
+      ((rows as LessonOccurrenceRow[] | null) || []).filter((row) => row.booking_id === booking.id),
+      participants,
+      profileId
+    )
+  )
+
+  return buildCalendar(events, { method: 'PUBLISH', name: 'Voice Alchemy Lessons' })
+}
+
+export type LessonInviteKind = 'confirmed' | 'schedule-changed' | 'rescheduled'
+
+export interface LessonInviteParams {
+  bookingId: string
+  kind: LessonInviteKind
+  /** The participant who made the change; they are not emailed. */
+  actorId?: string | null
+  /** For 'rescheduled': the moved occurrence. */
+  occurrence?: LessonOccurrenceRow | null
+}
+
+const INVITE_SUBJECTS: Record<LessonInviteKind, string> = {
+  confirmed: 'Your voice lessons are confirmed',
+  'schedule-changed': 'Your weekly lesson time has changed',
+  rescheduled: 'A lesson has been rescheduled',
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function inviteHtml(recipient: Participant, heading: string, when: string, roomUrl: string, hasInvite: boolean): string {
+  return `
+<div style="font-family: Georgia, 'Times New Roman', Times, serif; max-width: 560px; margin: 0 auto; color: #333;">
+  <p>Hi ${escapeHtml(recipient.name.split(' ')[0])},</p>
+  <p>${heading}</p>
+  <p style="font-size: 16px;"><strong>${when}</strong></p>
+  <p><a href="${roomUrl}" style="color: #9c8644;">Open the lesson room</a></p>
+  ${hasInvite ? '<p style="color: #777; font-size: 13px;">The attached invite adds this to your calendar.</p>' : ''}
+</div>`
+}
+
+function formatWhen(start: Date, timeZone: string, recurring: boolean): string {
+  const options: Intl.DateTimeFormatOptions = { timeZone, hour: 'numeric', minute: '2-digit', timeZoneName: 'short' }
+  const time = start.toLocaleTimeString('en-US', options)
+  return recurring
+    ? `Every ${start.toLocaleDateString('en-US', { timeZone, weekday: 'long' })} at ${time}, starting ${start.toLocaleDateString('en-US', { timeZone, month: 'long', day: 'numeric' })}`
+    : `${start.toLocaleDateString('en-US', { timeZone, weekday: 'long', month: 'long', day: 'numeric' })} at ${time}`
+}
+
+/**
+ * Email each participant (except the actor) an .ics invite for a booking's
+ * schedule or a single moved lesson. Failures are logged, never thrown, so a
+ * mail outage can't fail the booking change itself.
+ */
+export async function sendLessonInvite(admin: SupabaseClient, params: LessonInviteParams): Promise<void> {
+  try {
+    const { data: booking } = await admin
+      .from('bookings')
+      .select(RECURRING_BOOKING_COLUMNS)
+      .eq('id', params.bookingId)
+      .maybeSingle()
+
+    if (!booking) return
+    const recurring = booking as RecurringBooking
+
+    const { data: rows } = await admin.from('lesson_occurrences').select('*').eq('booking_id', recurring.id)
+    const bookingRows = (rows as LessonOccurrenceRow[] | null) || []
+
+    const participants = await loadParticipants(admin, [recurring.instructor_id, recurring.student_id])
+    const recipients = [...participants.values()].filter((p) => p.id !== params.actorId && p.email)
+    // Later invites for the same UID must carry a higher SEQUENCE to replace earlier ones
+    const sequence = Math.floor(Date.now() / 1000)
+
+    for (const recipient of recipients) {
+      let events = bookingEvents(recurring, bookingRows, participants, recipient.id, sequence)
+      if (params.kind === 'rescheduled' && params.occurrence) {
+        const moved = params.occurrence
+        events = events.filter((event) =>
+          moved.kind === 'recurring' && moved.original_starts_at && isWeeklySlot(recurring, moved.original_starts_at)
+            ? event.recurrenceId?.getTime() === new Date(moved.original_starts_at).getTime()
+            : event.uid === occurrenceUid(moved.id)
+        )
+      } else {
+        events = events.filter((event) => event.rrule)
+      }
+      // A confirmation before any time is set still goes out, just without an invite
+      if (events.length === 0 && params.kind !== 'confirmed') continue
+
+      const ics = events.length > 0 ? buildCalendar(events, { method: 'REQUEST' }) : null
+      const timeZone = recurring.lesson_timezone || DEFAULT_LESSON_TIMEZONE
+      const when = events[0]
+        ? formatWhen(events[0].start, timeZone, !!events[0].rrule)
+        : 'Your lesson time will be set soon.'
+      const roomUrl = lessonRoomUrl(recurring, recipient.id)
+
+      await sendEmail({
+        to: [{ email: recipient.email!, name: recipient.name }],
+        from: {
+          email: process.env.SENDGRID_FROM_EMAIL || 'noreply@voicealchemyacademy.com',
+          name: 'Voice Alchemy Academy',
+        },
+        subject: INVITE_SUBJECTS[params.kind],
+        text: `${INVITE_SUBJECTS[params.kind]}: ${when}\n\nLesson room: ${roomUrl}`,
+        html: inviteHtml(recipient, `${INVITE_SUBJECTS[params.kind]}.`, when, roomUrl, !!ics),
+        attachments: ics
+          ? [
+              {
+                content: Buffer.from(ics, 'utf-8').toString('base64'),
+                filename: 'lesson.ics',
+                type: 'text/calendar; method=REQUEST',
+                disposition: 'attachment',
+              },
+            ]
+          : undefined,
+      })
+    }
+  } catch (error) {
+    console.error('[LessonCalendar] Failed to send lesson invite:', params.bookingId, error)
+  }
+}
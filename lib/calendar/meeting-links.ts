@@ -1,13 +1,43 @@
-/** Stub meeting-link helpers for email thread UI. */
+/** Meeting-link helpers for calendar invites and the email thread UI. */
 
-export function extractMeetingLinks(_text: string | null | undefined): string[] {
-  return []
+const PROVIDERS: Array<{ pattern: RegExp; label: string }> = [
+  { pattern: /(^|\.)zoom\.us$/i, label: 'Zoom' },
+  { pattern: /^meet\.google\.com$/i, label: 'Google Meet' },
+  { pattern: /^teams\.(microsoft|live)\.com$/i, label: 'Teams' },
+  { pattern: /(^|\.)webex\.com$/i, label: 'Webex' },
+  { pattern: /(^|\.)whereby\.com$/i, label: 'Whereby' },
+  { pattern: /(^|\.)voicealchemyacademy\.com$/i, label: 'Voice Alchemy' },
+]
+
+const URL_PATTERN = /https?:\/\/[^\s<>"')\]]+/gi
+
+function hostnameOf(url: string): string | null {
+  try {
+    return new URL(url).hostname
+  } catch {
+    return null
+  }
+}
+
+/** Known video-meeting URLs in free text, in order of appearance, without duplicates. */
+export function extractMeetingLinks(text: string | null | undefined): string[] {
+  if (!text) return []
+  const links = (text.match(URL_PATTERN) || [])
+    .map((url) => url.replace(/[.,;]+$/, ''))
+    .filter((url) => {
+      const host = hostnameOf(url)
+      return !!host && PROVIDERS.some((p) => p.pattern.test(host))
+    })
+  return [...new Set(links)]
 }
 
-export function getMeetingLinkLabel(_url: string): string {
-  return 'Meeting'
+/** Provider name for a meeting URL, e.g. "Zoom"; "Meeting" when unknown. */
+export function meetingProviderLabel(url: string): string {
+  const host = hostnameOf(url)
+  if (!host) return url && !url.includes('/') ? url : 'Meeting'
+  return PROVIDERS.find((p) => p.pattern.test(host))?.label || 'Meeting'
 }
 
-export function meetingProviderLabel(_url: string): string {
-  return 'Meeting'
+export function getMeetingLinkLabel(url: string): string {
+  return `Join ${meetingProviderLabel(url)}`
 }
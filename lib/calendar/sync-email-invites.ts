@@ -1,4 +1,16 @@
-/** Stub: calendar invite sync from email is optional in VAAA. */
+/**
+ * Calendar invites carried by emails.
+ *
+ * Inbound text/calendar parts are stored as email_attachments by the SendGrid
+ * webhook. syncCalendarInvitesForEmail parses them into email_invites rows
+ * (deduped by iCal UID per email) so the thread view can show an invite card;
+ * getEmailInvites reads them back, parsing on the fly for emails received
+ * before an invite was synced.
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+import { parseIcs, type ParsedIcsEvent } from '@/lib/calendar/ics'
+import { extractMeetingLinks, meetingProviderLabel } from '@/lib/calendar/meeting-links'
 
 export interface EmailInvite {
   id?: string
@@ -20,10 +32,194 @@ export interface EmailInvite {
   status?: string | null
 }
 
-export async function syncCalendarInvitesForEmail(..._args: unknown[]): Promise<EmailInvite[]> {
-  return []
+export interface SyncCalendarInvitesParams {
+  emailId: string
+  assignedTo: string
+  organizationId: string | null
+  leadId: string | null
+  contactId: string | null
+  bodyText: string | null
+  bodyHtml: string | null
+}
+
+interface EmailInviteRow {
+  id: string
+  uid: string
+  sequence: number
+  method: string | null
+  status: string | null
+  summary: string | null
+  location: string | null
+  starts_at: string | null
+  ends_at: string | null
+  is_all_day: boolean
+  timezone: string | null
+  organizer_name: string | null
+  organizer_email: string | null
+  attendees: unknown[] | null
+  meeting_url: string | null
+}
+
+// Calendar parts are small; anything bigger is not an invite
+const MAX_CALENDAR_BYTES = 512 * 1024
+
+function isCalendarLike(att: { content_type?: string | null; filename?: string | null; size_bytes?: number | null }) {
+  const type = (att.content_type || '').toLowerCase()
+  const name = (att.filename || '').toLowerCase()
+  const size = att.size_bytes ?? 0
+  if (size > MAX_CALENDAR_BYTES) return false
+  if (type.includes('text/calendar') || type.includes('application/ics')) return true
+  if (/\.(ics|ical|ifb|vcs|calendar)$/i.test(name)) return true
+  // Mislabeled invites sometimes arrive as small octet-stream/.bin parts
+  const ambiguous = type === '' || type.includes('octet-stream') || /\.bin$/i.test(name)
+  return ambiguous && size > 0
+}
+
+/** Raw iCalendar documents attached to (or pasted into) an email. */
+async function loadCalendarDocuments(emailId: string, bodies: Array<string | null>): Promise<string[]> {
+  const admin = getSupabaseAdmin()
+  const documents: string[] = []
+
+  const { data: attachments, error } = await admin
+    .from('email_attachments')
+    .select('id, filename, content_type, size_bytes, storage_path')
+    .eq('email_id', emailId)
+
+  if (error) {
+    console.error('[EmailInvites] Error loading attachments:', error)
+  }
+
+  for (const att of (attachments || []).filter(isCalendarLike)) {
+    if (!att.storage_path) continue
+    const { data: blob, error: downloadError } = await admin.storage.from('email-attachments').download(att.storage_path)
+    if (downloadError || !blob) {
+      console.error('[EmailInvites] Failed to download calendar part:', att.filename, downloadError)
+      continue
+    }
+    const text = await blob.text()
+    if (text.includes('BEGIN:VCALENDAR')) documents.push(text)
+  }
+
+  // Some senders inline the calendar in the message body
+  if (documents.length === 0) {
+    for (const body of bodies) {
+      const inline = body?.match(/BEGIN:VCALENDAR[\s\S]*?END:VCALENDAR/)
+      if (inline) {
+        documents.push(inline[0].replace(/<br\s*\/?>/gi, '\n'))
+        break
+      }
+    }
+  }
+
+  return documents
+}
+
+function parseDocuments(documents: string[]): ParsedIcsEvent[] {
+  const byUid = new Map<string, ParsedIcsEvent>()
+  for (const event of documents.flatMap(parseIcs)) {
+    const existing = byUid.get(event.uid)
+    if (!existing || event.sequence >= existing.sequence) byUid.set(event.uid, event)
+  }
+  return [...byUid.values()]
 }
 
-export async function getEmailInvites(..._args: unknown[]): Promise<EmailInvite[]> {
-  return []
+function meetingUrlFor(event: ParsedIcsEvent): string | null {
+  return (
+    extractMeetingLinks([event.url, event.location, event.description].filter(Boolean).join('\n'))[0] ||
+    event.url ||
+    null
+  )
+}
+
+function rowFromEvent(emailId: string, event: ParsedIcsEvent) {
+  return {
+    email_id: emailId,
+    uid: event.uid,
+    sequence: event.sequence,
+    method: event.method,
+    status: event.status,
+    summary: event.summary,
+    description: event.description,
+    location: event.location,
+    starts_at: event.start?.toISOString() ?? null,
+    ends_at: event.end?.toISOString() ?? null,
+    is_all_day: event.isAllDay,
+    timezone: event.timezone,
+    organizer_name: event.organizerName,
+    organizer_email: event.organizerEmail,
+    attendees: event.attendees,
+    meeting_url: meetingUrlFor(event),
+  }
+}
+
+function inviteFromRow(row: Omit<EmailInviteRow, 'id'> & { id?: string }): EmailInvite {
+  return {
+    id: row.id,
+    title: row.summary || 'Meeting',
+    summary: row.summary,
+    start: row.starts_at,
+    end: row.ends_at,
+    startUtc: row.starts_at,
+    endUtc: row.ends_at,
+    isAllDay: row.is_all_day,
+    location: row.location,
+    meetingUrl: row.meeting_url,
+    meetingProvider: row.meeting_url ? meetingProviderLabel(row.meeting_url) : null,
+    organizer: row.organizer_name || row.organizer_email,
+    organizerName: row.organizer_name,
+    organizerEmail: row.organizer_email,
+    attendeeCount: Array.isArray(row.attendees) ? row.attendees.length : 0,
+    method: row.method,
+    status: row.status,
+  }
+}
+
+/**
+ * Parse an email's calendar parts into email_invites. Idempotent: rows are
+ * keyed by (email_id, uid), so re-running after a retry or on thread open is safe.
+ */
+export async function syncCalendarInvitesForEmail(params: SyncCalendarInvitesParams): Promise<EmailInvite[]> {
+  const events = parseDocuments(await loadCalendarDocuments(params.emailId, [params.bodyText, params.bodyHtml]))
+  if (events.length === 0) return []
+
+  const { data: rows, error } = await getSupabaseAdmin()
+    .from('email_invites')
+    .upsert(
+      events.map((event) => rowFromEvent(params.emailId, event)),
+      { onConflict: 'email_id,uid' }
+    )
+    .select('*')
+
+  if (error) {
+    console.error('[EmailInvites] Failed to store invites:', error)
+    return events.map((event) => inviteFromRow(rowFromEvent(params.emailId, event)))
+  }
+
+  return ((rows as EmailInviteRow[] | null) || []).map(inviteFromRow)
+}
+
+/** Invites for one email, earliest first. */
+export async function getEmailInvites(
+  emailId: string,
+  bodyText: string | null,
+  bodyHtml: string | null
+): Promise<EmailInvite[]> {
+  const { data: rows, error } = await getSupabaseAdmin()
+    .from('email_invites')
+    .select('*')
+    .eq('email_id', emailId)
+    .order('starts_at', { ascending: true })
+
+  if (error) {
+    console.error('[EmailInvites] Failed to load invites:', error)
+  }
+
+  if (rows && rows.length > 0) {
+    return (rows as EmailInviteRow[]).map(inviteFromRow)
+  }
+
+  const events = parseDocuments(await loadCalendarDocuments(emailId, [bodyText, bodyHtml]))
+  return events
+    .map((event) => inviteFromRow(rowFromEvent(emailId, event)))
+    .sort((a, b) => (a.startUtc || '').localeCompare(b.startUtc || ''))
 }
@@ -0,0 +1,345 @@
+/**
+ * Connection quality for lesson calls.
+ *
+ * VideoWebRTC samples getStats() for every peer every QUALITY_SAMPLE_MS and
+ * turns it into a PeerStatsSample: round-trip time, audio jitter, packet loss
+ * in both directions, bitrates, resolutions and the ICE candidate type the
+ * call ended up on (relay means it is going through TURN). The samples drive
+ * the quality badge on each tile and adaptVideoLevel(), which steps outbound
+ * video down when the far side starts losing our packets - voice is what the
+ * lesson is about, so video gives up bandwidth first.
+ *
+ * CallQualityLog batches samples to /api/lessons/[id]/call-quality, stored
+ * per class session so the teacher can look back at why a lesson went badly.
+ */
+
+export const QUALITY_SAMPLE_MS = 5000
+
+export type QualityLevel = 'good' | 'fair' | 'poor'
+
+export type CandidateType = 'host' | 'srflx' | 'prflx' | 'relay' | 'unknown'
+
+export interface PeerStatsSample {
+  at: string
+  peerId: string
+  rttMs: number | null
+  /** Jitter of the audio we receive */
+  jitterMs: number | null
+  /** Share of their packets that did not reach us, this interval */
+  inboundLossPct: number | null
+  /** Share of our packets that did not reach them, as they report it */
+  outboundLossPct: number | null
+  inKbps: number | null
+  outKbps: number | null
+  inResolution: string | null
+  outResolution: string | null
+  outFps: number | null
+  candidateType: CandidateType
+  /** Index into VIDEO_LEVELS applied to our outbound video */
+  videoLevel: number
+  quality: QualityLevel
+}
+
+/** Cumulative counters from the previous sample, to turn totals into rates */
+export interface StatsSnapshot {
+  at: number
+  bytesIn: number
+  bytesOut: number
+  packetsIn: number
+  lostIn: number
+}
+
+type StatsEntry = Record<string, unknown> & { type: string; id: string }
+
+function num(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null
+}
+
+function round(value: number | null, digits = 0): number | null {
+  if (value === null) return null
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+/** Read one peer connection's stats report into a sample (quality and videoLevel unset). */
+export function readPeerStats(
+  report: RTCStatsReport,
+  previous: StatsSnapshot | null,
+  now: number
+): { sample: Omit<PeerStatsSample, 'at' | 'peerId' | 'videoLevel' | 'quality'>; snapshot: StatsSnapshot } {
+  const entries: StatsEntry[] = []
+  report.forEach((entry: StatsEntry) => entries.push(entry))
+  const byId = new Map(entries.map(entry => [entry.id, entry]))
+
+  const transport = entries.find(e => e.type === 'transport' && e.selectedCandidatePairId)
+  const pair = (transport && byId.get(transport.selectedCandidatePairId as string)) ||
+    entries.find(e => e.type === 'candidate-pair' && e.nominated && e.state === 'succeeded')
+  const localCandidate = pair ? byId.get(pair.localCandidateId as string) : undefined
+
+  let bytesIn = 0
+  let bytesOut = 0
+  let packetsIn = 0
+  let lostIn = 0
+  let jitter: number | null = null
+  let inResolution: string | null = null
+  let outResolution: string | null = null
+  let outFps: number | null = null
+  let remoteLoss: number | null = null
+  let remoteRtt: number | null = null
+
+  for (const entry of entries) {
+    if (entry.type === 'inbound-rtp') {
+      bytesIn += num(entry.bytesReceived) ?? 0
+      packetsIn += num(entry.packetsReceived) ?? 0
+      lostIn += Math.max(0, num(entry.packetsLost) ?? 0)
+      if (entry.kind === 'audio') jitter = num(entry.jitter)
+      if (entry.kind === 'video' && entry.frameWidth) inResolution = `${entry.frameWidth}x${entry.frameHeight}`
+    } else if (entry.type === 'outbound-rtp') {
+      bytesOut += num(entry.bytesSent) ?? 0
+      if (entry.kind === 'video' && entry.frameWidth) {
+        outResolution = `${entry.frameWidth}x${entry.frameHeight}`
+        outFps = num(entry.framesPerSecond)
+      }
+    } else if (entry.type === 'remote-inbound-rtp') {
+      const fraction = num(entry.fractionLost)
+      if (fraction !== null) remoteLoss = Math.max(remoteLoss ?? 0, fraction)
+      remoteRtt = remoteRtt ?? num(entry.roundTripTime)
+    }
+  }
+
+  const snapshot: StatsSnapshot = { at: now, bytesIn, bytesOut, packetsIn, lostIn }
+  const seconds = previous ? (now - previous.at) / 1000 : 0
+
+  let inKbps: number | null = null
+  let outKbps: number | null = null
+  let inboundLossPct: number | null = null
+  if (previous && seconds > 0) {
+    inKbps = Math.max(0, (bytesIn - previous.bytesIn) * 8 / 1000 / seconds)
+    outKbps = Math.max(0, (bytesOut - previous.bytesOut) * 8 / 1000 / seconds)
+    const received = packetsIn - previous.packetsIn
+    const lost = lostIn - previous.lostIn
+    if (received + lost > 0) inboundLossPct = Math.max(0, lost) / (received + lost) * 100
+  }
+
+  const rtt = num(pair?.currentRoundTripTime) ?? remoteRtt
+  const candidateType = (localCandidate?.candidateType as CandidateType | undefined) ?? 'unknown'
+
+  return {
+    sample: {
+      rttMs: round(rtt === null ? null : rtt * 1000),
+      jitterMs: round(jitter === null ? null : jitter * 1000),
+      inboundLossPct: round(inboundLossPct, 1),
+      outboundLossPct: round(remoteLoss === null ? null : remoteLoss * 100, 1),
+      inKbps: round(inKbps),
+      outKbps: round(outKbps),
+      inResolution,
+      outResolution,
+      outFps: round(outFps),
+      candidateType,
+    },
+    snapshot,
+  }
+}
+
+export function classifyQuality(sample: Pick<PeerStatsSample, 'rttMs' | 'jitterMs' | 'inboundLossPct' | 'outboundLossPct'>): QualityLevel {
+  const loss = Math.max(sample.inboundLossPct ?? 0, sample.outboundLossPct ?? 0)
+  const rtt = sample.rttMs ?? 0
+  const jitter = sample.jitterMs ?? 0
+  if (loss >= 8 || rtt >= 500 || jitter >= 60) return 'poor'
+  if (loss >= 2 || rtt >= 250 || jitter >= 30) return 'fair'
+  return 'good'
+}
+
+/** What made a sample bad, for the teacher's report */
+export function describeProblem(sample: PeerStatsSample): string {
+  const problems: string[] = []
+  const loss = Math.max(sample.inboundLossPct ?? 0, sample.outboundLossPct ?? 0)
+  if (loss >= 2) problems.push(`${loss}% packet loss`)
+  if ((sample.rttMs ?? 0) >= 250) problems.push(`${sample.rttMs} ms round trip`)
+  if ((sample.jitterMs ?? 0) >= 30) problems.push(`${sample.jitterMs} ms jitter`)
+  return problems.join(', ') || 'ok'
+}
+
+// ============================================================================
+// Outbound video adaptation
+// ============================================================================
+
+/** Outbound video steps, from full quality down */
+export const VIDEO_LEVELS: { scaleResolutionDownBy: number; maxFramerate: number }[] = [
+  { scaleResolutionDownBy: 1, maxFramerate: 30 },
+  { scaleResolutionDownBy: 2, maxFramerate: 24 },
+  { scaleResolutionDownBy: 4, maxFramerate: 15 },
+]
+
+export interface AdaptationState {
+  level: number
+  badStreak: number
+  goodStreak: number
+}
+
+export const INITIAL_ADAPTATION: AdaptationState = { level: 0, badStreak: 0, goodStreak: 0 }
+
+// Step down after 10s of trouble, back up only after 30s of clean samples,
+// so a flapping link doesn't bounce the resolution every few seconds
+const DOWNGRADE_AFTER = 2
+const UPGRADE_AFTER = 6
+
+export function adaptVideoLevel(
+  state: AdaptationState,
+  sample: Pick<PeerStatsSample, 'rttMs' | 'outboundLossPct'>
+): AdaptationState {
+  const loss = sample.outboundLossPct ?? 0
+  const rtt = sample.rttMs ?? 0
+  const bad = loss >= 5 || rtt >= 400
+  const good = loss < 1 && rtt < 250
+
+  const badStreak = bad ? state.badStreak + 1 : 0
+  const goodStreak = good ? state.goodStreak + 1 : 0
+
+  if (badStreak >= DOWNGRADE_AFTER && state.level < VIDEO_LEVELS.length - 1) {
+    return { level: state.level + 1, badStreak: 0, goodStreak: 0 }
+  }
+  if (goodStreak >= UPGRADE_AFTER && state.level > 0) {
+    return { level: state.level - 1, badStreak: 0, goodStreak: 0 }
+  }
+  return { level: state.level, badStreak, goodStreak }
+}
+
+// ============================================================================
+// Session summaries
+// ============================================================================
+
+export interface QualityStretch {
+  from: string
+  to: string
+  problem: string
+}
+
+export interface PeerQualitySummary {
+  peerId: string
+  samples: number
+  avgRttMs: number | null
+  maxLossPct: number | null
+  poorPct: number
+  fairPct: number
+  candidateTypes: CandidateType[]
+  downgrades: number
+  /** Consecutive poor samples, with what was wrong at the worst point */
+  poorStretches: QualityStretch[]
+}
+
+export function summarizeQuality(samples: PeerStatsSample[]): PeerQualitySummary[] {
+  const byPeer = new Map<string, PeerStatsSample[]>()
+  for (const sample of samples) {
+    const list = byPeer.get(sample.peerId) ?? []
+    list.push(sample)
+    byPeer.set(sample.peerId, list)
+  }
+
+  return Array.from(byPeer, ([peerId, list]) => {
+    list.sort((a, b) => a.at.localeCompare(b.at))
+    const rtts = list.map(s => s.rttMs).filter((v): v is number => v !== null)
+    const losses = list.flatMap(s => [s.inboundLossPct, s.outboundLossPct]).filter((v): v is number => v !== null)
+
+    const poorStretches: QualityStretch[] = []
+    let current: { from: string; to: string; worst: PeerStatsSample } | null = null
+    let downgrades = 0
+    for (let i = 0; i < list.length; i++) {
+      const sample = list[i]
+      if (i > 0 && sample.videoLevel > list[i - 1].videoLevel) downgrades++
+      if (sample.quality === 'poor') {
+        if (!current) current = { from: sample.at, to: sample.at, worst: sample }
+        current.to = sample.at
+        if (classifyScore(sample) > classifyScore(current.worst)) current.worst = sample
+      } else if (current) {
+        poorStretches.push({ from: current.from, to: current.to, problem: describeProblem(current.worst) })
+        current = null
+      }
+    }
+    if (current) poorStretches.push({ from: current.from, to: current.to, problem: describeProblem(current.worst) })
+
+    return {
+      peerId,
+      samples: list.length,
+      avgRttMs: rtts.length ? Math.round(rtts.reduce((a, b) => a + b, 0) / rtts.length) : null,
+      maxLossPct: losses.length ? Math.max(...losses) : null,
+      poorPct: Math.round(list.filter(s => s.quality === 'poor').length / list.length * 100),
+      fairPct: Math.round(list.filter(s => s.quality === 'fair').length / list.length * 100),
+      candidateTypes: Array.from(new Set(list.map(s => s.candidateType))),
+      downgrades,
+      poorStretches,
+    }
+  })
+}
+
+// Rough badness, for picking the worst sample of a stretch
+function classifyScore(sample: PeerStatsSample): number {
+  const loss = Math.max(sample.inboundLossPct ?? 0, sample.outboundLossPct ?? 0)
+  return loss / 8 + (sample.rttMs ?? 0) / 500 + (sample.jitterMs ?? 0) / 60
+}
+
+// ============================================================================
+// Upload
+// ============================================================================
+
+const FLUSH_MS = 30 * 1000
+/** Good samples are logged at half rate; anything worse is always kept */
+const GOOD_SAMPLE_STRIDE = 2
+
+/**
+ * Batches a participant's samples for the current class and posts them to
+ * the server. Samples before the class has a start time are dropped, since
+ * the log is keyed by it.
+ */
+export class CallQualityLog {
+  private pending: PeerStatsSample[] = []
+  private goodCounts = new Map<string, number>()
+  private classStartedAt: string | null = null
+  private timer: ReturnType<typeof setInterval> | null = null
+
+  constructor(private bookingId: string) {}
+
+  setClassStartedAt(startedAt: Date | null) {
+    if (this.classStartedAt && startedAt?.toISOString() !== this.classStartedAt) this.flush()
+    this.classStartedAt = startedAt?.toISOString() ?? null
+  }
+
+  record = (sample: PeerStatsSample) => {
+    if (!this.classStartedAt) return
+
+    if (sample.quality === 'good') {
+      const count = (this.goodCounts.get(sample.peerId) ?? 0) + 1
+      this.goodCounts.set(sample.peerId, count)
+      if (count % GOOD_SAMPLE_STRIDE !== 1) return
+    }
+
+    this.pending.push(sample)
+    if (!this.timer) {
+      this.timer = setInterval(() => this.flush(), FLUSH_MS)
+      window.addEventListener('pagehide', this.flushOnHide)
+    }
+  }
+
+  /** Send what is pending now; keepalive lets it outlive a closing tab */
+  flush() {
+    if (this.pending.length === 0 || !this.classStartedAt) return
+    const samples = this.pending
+    this.pending = []
+
+    fetch(`/api/lessons/${this.bookingId}/call-quality`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ classStartedAt: this.classStartedAt, samples }),
+      keepalive: true,
+    }).catch(err => console.warn('[CallQuality] Failed to upload quality samples:', err))
+  }
+
+  dispose() {
+    this.flush()
+    if (this.timer) clearInterval(this.timer)
+    this.timer = null
+    window.removeEventListener('pagehide', this.flushOnHide)
+  }
+
+  private flushOnHide = () => this.flush()
+}
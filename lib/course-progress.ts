@@ -0,0 +1,253 @@
+/**
+ * Course progress rules shared by the course player, /api/courses/[slug]/*
+ * and the teacher's student view.
+ *
+ * Lesson completions and quiz attempts are stored per student
+ * (course_lesson_completions, course_quiz_attempts). Quizzes are graded here on
+ * the server from the submitted answers, never from a client-side score, so a
+ * required quiz's passingScorePercent actually gates the next section.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Course, CourseQuiz } from '@/lib/courses'
+
+/** Pass mark for quizzes that do not set passingScorePercent. */
+export const DEFAULT_PASSING_SCORE_PERCENT = 70
+
+export interface QuizAnswer {
+  questionId: string
+  selectedIndex: number | null
+  isCorrect: boolean
+}
+
+export interface QuizAttempt {
+  id: string
+  quizId: string
+  lessonId: string | null
+  sectionId: string
+  scorePercent: number
+  passed: boolean
+  answers: QuizAnswer[]
+  createdAt: string
+}
+
+export interface CourseProgress {
+  completedLessonIds: string[]
+  lastLessonId: string | null
+  /** Best score per quiz id. */
+  bestQuizScores: Record<string, number>
+  passedQuizIds: string[]
+  lockedSectionIds: string[]
+  progressPercent: number
+}
+
+export interface QuizLocation {
+  quiz: CourseQuiz
+  sectionId: string
+  lessonId: string | null
+}
+
+export function isQuizRequired(quiz: CourseQuiz): boolean {
+  return quiz.isOptional === false
+}
+
+export function getPassingScore(quiz: CourseQuiz): number {
+  return quiz.passingScorePercent ?? DEFAULT_PASSING_SCORE_PERCENT
+}
+
+export function findQuiz(course: Course, quizId: string): QuizLocation | null {
+  for (const section of course.sections) {
+    if (section.quiz?.id === quizId) {
+      return { quiz: section.quiz, sectionId: section.id, lessonId: null }
+    }
+    for (const lesson of section.lessons) {
+      if (lesson.quiz?.id === quizId) {
+        return { quiz: lesson.quiz, sectionId: section.id, lessonId: lesson.id }
+      }
+    }
+  }
+  return null
+}
+
+export function findLessonSectionId(course: Course, lessonId: string): string | null {
+  const section = course.sections.find((s) => s.lessons.some((l) => l.id === lessonId))
+  return section?.id ?? null
+}
+
+/** Grade submitted answers (question id -> selected option index). */
+export function gradeQuiz(quiz: CourseQuiz, selected: Record<string, number>) {
+  const answers: QuizAnswer[] = quiz.questions.map((question) => {
+    const selectedIndex = typeof selected[question.id] === 'number' ? selected[question.id] : null
+    return {
+      questionId: question.id,
+      selectedIndex,
+      isCorrect: selectedIndex === question.correctAnswerIndex,
+    }
+  })
+
+  const correct = answers.filter((a) => a.isCorrect).length
+  const scorePercent = answers.length > 0 ? Math.round((correct / answers.length) * 100) : 0
+
+  return { answers, scorePercent, passed: scorePercent >= getPassingScore(quiz) }
+}
+
+/**
+ * Sections after one with an unpassed required quiz (on the section or any of
+ * its lessons) are locked. The first section is always open.
+ */
+export function getLockedSectionIds(course: Course, passedQuizIds: string[]): string[] {
+  const passed = new Set(passedQuizIds)
+  const locked: string[] = []
+  let blocked = false
+
+  for (const section of course.sections) {
+    if (blocked) {
+      locked.push(section.id)
+      continue
+    }
+
+    const quizzes = [section.quiz, ...section.lessons.map((l) => l.quiz)].filter(
+      (q): q is CourseQuiz => !!q
+    )
+    blocked = quizzes.some((q) => isQuizRequired(q) && !passed.has(q.id))
+  }
+
+  return locked
+}
+
+export function buildCourseProgress(
+  course: Course,
+  completedLessonIds: string[],
+  lastLessonId: string | null,
+  attempts: Array<Pick<QuizAttempt, 'quizId' | 'scorePercent' | 'passed'>>
+): CourseProgress {
+  const bestQuizScores: Record<string, number> = {}
+  const passedQuizIds = new Set<string>()
+
+  for (const attempt of attempts) {
+    bestQuizScores[attempt.quizId] = Math.max(bestQuizScores[attempt.quizId] ?? 0, attempt.scorePercent)
+    if (attempt.passed) passedQuizIds.add(attempt.quizId)
+  }
+
+  const lessonIds = new Set(course.sections.flatMap((s) => s.lessons.map((l) => l.id)))
+  const completed = completedLessonIds.filter((id) => lessonIds.has(id))
+
+  return {
+    completedLessonIds: completed,
+    lastLessonId: lastLessonId && lessonIds.has(lastLessonId) ? lastLessonId : null,
+    bestQuizScores,
+    passedQuizIds: [...passedQuizIds],
+    lockedSectionIds: getLockedSectionIds(course, [...passedQuizIds]),
+    progressPercent: lessonIds.size > 0 ? Math.round((completed.length / lessonIds.size) * 100) : 0,
+  }
+}
+
+export interface WeakQuestion {
+  quizId: string
+  quizTitle: string
+  questionId: string
+  question: string
+  attempts: number
+  missed: number
+  missRate: number
+}
+
+/** Questions the student gets wrong most often, worst first. */
+export function getWeakestQuestions(
+  course: Course,
+  attempts: Array<Pick<QuizAttempt, 'quizId' | 'answers'>>,
+  limit = 5
+): WeakQuestion[] {
+  const stats = new Map<string, WeakQuestion>()
+
+  for (const attempt of attempts) {
+    const location = findQuiz(course, attempt.quizId)
+    if (!location) continue
+
+    for (const answer of attempt.answers) {
+      const question = location.quiz.questions.find((q) => q.id === answer.questionId)
+      if (!question) continue
+
+      const key = `${attempt.quizId}:${answer.questionId}`
+      const entry = stats.get(key) ?? {
+        quizId: attempt.quizId,
+        quizTitle: location.quiz.title,
+        questionId: question.id,
+        question: question.question,
+        attempts: 0,
+        missed: 0,
+        missRate: 0,
+      }
+      entry.attempts++
+      if (!answer.isCorrect) entry.missed++
+      entry.missRate = Math.round((entry.missed / entry.attempts) * 100)
+      stats.set(key, entry)
+    }
+  }
+
+  return [...stats.values()]
+    .filter((q) => q.missed > 0)
+    .sort((a, b) => b.missRate - a.missRate || b.missed - a.missed)
+    .slice(0, limit)
+}
+
+interface QuizAttemptRow {
+  id: string
+  quiz_id: string
+  lesson_id: string | null
+  section_id: string
+  score_percent: number
+  passed: boolean
+  answers: QuizAnswer[] | null
+  created_at: string
+}
+
+export function quizAttemptFromRow(row: QuizAttemptRow): QuizAttempt {
+  return {
+    id: row.id,
+    quizId: row.quiz_id,
+    lessonId: row.lesson_id,
+    sectionId: row.section_id,
+    scorePercent: row.score_percent,
+    passed: row.passed,
+    answers: row.answers || [],
+    createdAt: row.created_at,
+  }
+}
+
+/** Load one student's stored progress for a database-backed course. */
+export async function loadCourseProgress(
+  supabase: SupabaseClient,
+  course: Course & { id: string },
+  studentId: string
+): Promise<{ progress: CourseProgress; attempts: QuizAttempt[] }> {
+  const [{ data: enrollment }, { data: completions }, { data: attemptRows }] = await Promise.all([
+    supabase
+      .from('course_enrollments')
+      .select('last_lesson_id')
+      .eq('course_id', course.id)
+      .eq('student_id', studentId)
+      .maybeSingle(),
+    supabase
+      .from('course_lesson_completions')
+      .select('lesson_id')
+      .eq('course_id', course.id)
+      .eq('student_id', studentId),
+    supabase
+      .from('course_quiz_attempts')
+      .select('id, quiz_id, lesson_id, section_id, score_percent, passed, answers, created_at')
+      .eq('course_id', course.id)
+      .eq('student_id', studentId)
+      .order('created_at', { ascending: false }),
+  ])
+
+  const attempts = ((attemptRows as QuizAttemptRow[] | null) || []).map(quizAttemptFromRow)
+  const progress = buildCourseProgress(
+    course,
+    (completions || []).map((c) => c.lesson_id),
+    enrollment?.last_lesson_id ?? null,
+    attempts
+  )
+
+  return { progress, attempts }
+}
@@ -1,3 +1,5 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
 export interface QuizQuestion {
   id: string
   question: string
@@ -47,6 +49,10 @@ export interface Course {
   requirements: string[]
   sections: CourseSection[]
   isCustom?: boolean
+  /** Set for courses loaded from the courses table. */
+  id?: string
+  instructorId?: string | null
+  isPublished?: boolean
 }
 
 const beginnerVocalCourse: Course = {
@@ -387,67 +393,155 @@ export const courses: Course[] = [
   },
 ]
 
-const CUSTOM_COURSES_KEY = 'vaaa_custom_courses_v1'
+/** Columns selected wherever a course row is turned into a Course. */
+export const COURSE_COLUMNS =
+  'id, slug, title, name, subtitle, description, level, instructor_id, instructor_name, is_free, is_unlocked, is_published, is_builtin, what_you_will_learn, requirements, curriculum, updated_at'
+
+export interface CourseRow {
+  id: string
+  slug: string
+  title: string | null
+  name: string
+  subtitle: string | null
+  description: string | null
+  level: string | null
+  instructor_id: string | null
+  instructor_name: string | null
+  is_free: boolean | null
+  is_unlocked: boolean | null
+  is_published: boolean | null
+  is_builtin: boolean | null
+  what_you_will_learn: string[] | null
+  requirements: string[] | null
+  curriculum: CourseSection[] | null
+  updated_at: string
+}
+
+const COURSE_LEVELS: Course['level'][] = ['Beginner', 'Intermediate', 'Advanced']
+
+export function courseFromRow(row: CourseRow): Course {
+  const level = COURSE_LEVELS.find((l) => l === row.level) ?? 'Beginner'
 
-export function getCustomCourses(): Course[] {
-  if (typeof window === 'undefined') return []
-  try {
-    const raw = localStorage.getItem(CUSTOM_COURSES_KEY)
-    if (!raw) return []
-    return JSON.parse(raw) as Course[]
-  } catch (e) {
-    console.error('Failed to load custom courses', e)
-    return []
+  return {
+    id: row.id,
+    slug: row.slug,
+    title: row.title || row.name,
+    subtitle: row.subtitle || '',
+    description: row.description || '',
+    level,
+    isFree: row.is_free ?? true,
+    isUnlocked: row.is_unlocked ?? true,
+    instructor: row.instructor_name || 'Voice Alchemy Coach',
+    instructorId: row.instructor_id,
+    updatedAt: new Date(row.updated_at).toLocaleDateString('en-US', { month: 'long', year: 'numeric' }),
+    whatYouWillLearn: row.what_you_will_learn || [],
+    requirements: row.requirements || [],
+    sections: row.curriculum || [],
+    isCustom: !row.is_builtin,
+    isPublished: row.is_published ?? false,
   }
 }
 
-export function saveCustomCourse(course: Course): Course {
-  if (typeof window === 'undefined') return course
-  try {
-    const current = getCustomCourses()
-    const index = current.findIndex((c) => c.slug === course.slug)
-    const updated: Course = {
-      ...course,
-      isCustom: true,
-      isUnlocked: true,
-      updatedAt: new Date().toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
-    }
-    let nextList: Course[]
-    if (index >= 0) {
-      nextList = [...current]
-      nextList[index] = updated
-    } else {
-      nextList = [updated, ...current]
-    }
-    localStorage.setItem(CUSTOM_COURSES_KEY, JSON.stringify(nextList))
-    return updated
-  } catch (e) {
-    console.error('Failed to save custom course', e)
-    return course
+/**
+ * Authoring fields of a Course as courses-table columns. Ownership, slug and
+ * publish state are decided by /api/courses, never taken from the client.
+ */
+export function courseToRow(course: Course) {
+  return {
+    name: course.title,
+    title: course.title,
+    subtitle: course.subtitle,
+    description: course.description,
+    level: course.level,
+    instructor_name: course.instructor,
+    is_free: course.isFree,
+    is_unlocked: course.isUnlocked,
+    what_you_will_learn: course.whatYouWillLearn,
+    requirements: course.requirements,
+    curriculum: course.sections,
   }
 }
 
-export function deleteCustomCourse(slug: string): boolean {
-  if (typeof window === 'undefined') return false
-  try {
-    const current = getCustomCourses()
-    const nextList = current.filter((c) => c.slug !== slug)
-    localStorage.setItem(CUSTOM_COURSES_KEY, JSON.stringify(nextList))
-    return true
-  } catch (e) {
-    console.error('Failed to delete custom course', e)
-    return false
+export function slugifyCourseTitle(title: string): string {
+  return (
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/(^-|-$)/g, '') || `custom-course-${Date.now()}`
+  )
+}
+
+/**
+ * Of these slugs, the ones with no courses row at all - including rows RLS
+ * hides from the caller, so an unpublished built-in stays hidden. Null if
+ * that can't be told (e.g. before the migration runs).
+ */
+async function unseededSlugs(supabase: SupabaseClient, slugs: string[]): Promise<Set<string> | null> {
+  if (slugs.length === 0) return new Set()
+
+  const { data, error } = await supabase.rpc('existing_course_slugs', { p_slugs: slugs })
+  if (error) {
+    console.error('Failed to check for seeded courses', error)
+    return null
   }
+
+  const existing = new Set((data as string[] | null) || [])
+  return new Set(slugs.filter((slug) => !existing.has(slug)))
 }
 
-export function getAllCourses(): Course[] {
-  const custom = getCustomCourses()
-  return [...courses, ...custom]
+/**
+ * Built-in courses first (in catalogue order), then teacher-created courses,
+ * newest first. RLS decides which drafts the caller can see. The static
+ * `courses` list backs up any built-in that has not been seeded yet, so the
+ * catalogue still renders before the migration runs or if the query fails.
+ */
+export async function getAllCourses(supabase: SupabaseClient): Promise<Course[]> {
+  const { data, error } = await supabase
+    .from('courses')
+    .select(COURSE_COLUMNS)
+    .not('slug', 'is', null)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Failed to load courses', error)
+    return courses
+  }
+
+  const rows = ((data as CourseRow[] | null) || []).map(courseFromRow)
+  const bySlug = new Map(rows.map((course) => [course.slug, course]))
+
+  const unseeded = await unseededSlugs(
+    supabase,
+    courses.filter((course) => !bySlug.has(course.slug)).map((course) => course.slug)
+  )
+  const builtIn = courses.flatMap((course) => {
+    const row = bySlug.get(course.slug)
+    if (row) return [row]
+    return !unseeded || unseeded.has(course.slug) ? [course] : []
+  })
+  const custom = rows.filter((course) => !courses.some((c) => c.slug === course.slug))
+
+  return [...builtIn, ...custom]
 }
 
-export function getCourseBySlug(slug: string): Course | undefined {
-  const all = getAllCourses()
-  return all.find((course) => course.slug === slug)
+export async function getCourseBySlug(supabase: SupabaseClient, slug: string): Promise<Course | undefined> {
+  const { data, error } = await supabase
+    .from('courses')
+    .select(COURSE_COLUMNS)
+    .eq('slug', slug)
+    .maybeSingle()
+
+  if (data) return courseFromRow(data as CourseRow)
+
+  const builtIn = courses.find((course) => course.slug === slug)
+  if (error) {
+    console.error('Failed to load course', error)
+    return builtIn
+  }
+  if (!builtIn) return undefined
+
+  const unseeded = await unseededSlugs(supabase, [slug])
+  return !unseeded || unseeded.has(slug) ? builtIn : undefined
 }
 
 export function getCourseLessonCount(course: Course): number {
@@ -0,0 +1,464 @@
+/**
+ * Ear training: interval, chord and melodic dictation drills.
+ *
+ * Questions are built here and played by components/EarTrainer with the same
+ * sine-oscillator synthesis the Scale Trainer uses. Students answer by
+ * clicking a choice or by singing: sung notes are named with
+ * describeFrequency and matched by pitch class, so any octave counts.
+ *
+ * Difficulty adapts in two ways. The level (1-5) rises after a run of right
+ * answers and drops after a run of misses. Within a level, items the student
+ * has missed before (an interval, a chord quality, a scale degree) come up
+ * more often. That error history is saved per session as item_stats and read
+ * back from recent sessions when the trainer opens.
+ */
+
+import { describeFrequency, noteIndex, type DetectedNote } from '@/lib/pitch-detection'
+
+export type EarExerciseType = 'interval' | 'chord' | 'dictation'
+export type EarAnswerMode = 'click' | 'sing'
+
+export const EAR_EXERCISE_TYPES: { value: EarExerciseType; label: string; description: string }[] = [
+  { value: 'interval', label: 'Intervals', description: 'Name the distance between two notes' },
+  { value: 'chord', label: 'Chords', description: 'Triads and sevenths by their quality' },
+  { value: 'dictation', label: 'Melodic Dictation', description: 'Remember a short tune from Do' },
+]
+
+export const MIN_EAR_LEVEL = 1
+export const MAX_EAR_LEVEL = 5
+
+/** Per-item history: how often each item was asked and missed */
+export type EarItemStats = Record<string, { asked: number; missed: number }>
+
+export interface EarChoice {
+  value: string
+  label: string
+}
+
+export interface EarQuestion {
+  type: EarExerciseType
+  level: number
+  /** Note groups played one after another; the notes in a group sound together */
+  playback: number[][]
+  /** How long each group sounds */
+  noteMs: number
+  choices: EarChoice[]
+  /** The value of the right choice */
+  answer: string
+  /** Sing mode: the notes to sing, in order */
+  singTargets: number[]
+  /** The items this question exercises, as keys of EarItemStats */
+  items: string[]
+  /** What to do, for each answer mode */
+  prompt: Record<EarAnswerMode, string>
+}
+
+export interface EarGrade {
+  correct: boolean
+  /** Items answered wrongly, as keys of EarItemStats */
+  missedItems: string[]
+}
+
+// ---------------------------------------------------------------------------
+// Material
+// ---------------------------------------------------------------------------
+
+export const INTERVALS: { semitones: number; name: string; short: string }[] = [
+  { semitones: 1, name: 'Minor 2nd', short: 'm2' },
+  { semitones: 2, name: 'Major 2nd', short: 'M2' },
+  { semitones: 3, name: 'Minor 3rd', short: 'm3' },
+  { semitones: 4, name: 'Major 3rd', short: 'M3' },
+  { semitones: 5, name: 'Perfect 4th', short: 'P4' },
+  { semitones: 6, name: 'Tritone', short: 'TT' },
+  { semitones: 7, name: 'Perfect 5th', short: 'P5' },
+  { semitones: 8, name: 'Minor 6th', short: 'm6' },
+  { semitones: 9, name: 'Major 6th', short: 'M6' },
+  { semitones: 10, name: 'Minor 7th', short: 'm7' },
+  { semitones: 11, name: 'Major 7th', short: 'M7' },
+  { semitones: 12, name: 'Octave', short: 'P8' },
+]
+
+const INTERVAL_LEVELS: Record<number, number[]> = {
+  1: [4, 7, 12],
+  2: [3, 4, 5, 7, 12],
+  3: [2, 3, 4, 5, 7, 9, 12],
+  4: [1, 2, 3, 4, 5, 7, 8, 9, 10, 12],
+  5: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12],
+}
+
+/** Intervals are played descending as well from this level on */
+const DESCENDING_FROM_LEVEL = 3
+
+export const CHORDS: { id: string; name: string; intervals: number[] }[] = [
+  { id: 'major', name: 'Major', intervals: [0, 4, 7] },
+  { id: 'minor', name: 'Minor', intervals: [0, 3, 7] },
+  { id: 'diminished', name: 'Diminished', intervals: [0, 3, 6] },
+  { id: 'augmented', name: 'Augmented', intervals: [0, 4, 8] },
+  { id: 'dom7', name: 'Dominant 7th', intervals: [0, 4, 7, 10] },
+  { id: 'maj7', name: 'Major 7th', intervals: [0, 4, 7, 11] },
+  { id: 'min7', name: 'Minor 7th', intervals: [0, 3, 7, 10] },
+  { id: 'half_dim7', name: 'Half-diminished 7th', intervals: [0, 3, 6, 10] },
+  { id: 'dim7', name: 'Diminished 7th', intervals: [0, 3, 6, 9] },
+]
+
+const CHORD_LEVELS: Record<number, string[]> = {
+  1: ['major', 'minor'],
+  2: ['major', 'minor', 'diminished', 'augmented'],
+  3: ['major', 'minor', 'diminished', 'augmented', 'dom7', 'maj7'],
+  4: ['major', 'minor', 'diminished', 'augmented', 'dom7', 'maj7', 'min7'],
+  5: ['major', 'minor', 'diminished', 'augmented', 'dom7', 'maj7', 'min7', 'half_dim7', 'dim7'],
+}
+
+/** Movable-Do names by semitones above the tonic */
+export const SOLFEGE = ['Do', 'Di', 'Re', 'Me', 'Mi', 'Fa', 'Fi', 'Sol', 'Le', 'La', 'Te', 'Ti']
+
+const DICTATION_LEVELS: Record<number, { degrees: number[]; length: number; maxLeap: number }> = {
+  1: { degrees: [0, 2, 4], length: 3, maxLeap: 4 },
+  2: { degrees: [0, 2, 4, 7, 9], length: 4, maxLeap: 5 },
+  3: { degrees: [0, 2, 4, 5, 7, 9, 11], length: 4, maxLeap: 7 },
+  4: { degrees: [0, 2, 4, 5, 7, 9, 11, 12], length: 5, maxLeap: 12 },
+  5: { degrees: [0, 2, 3, 4, 5, 7, 9, 10, 11, 12], length: 5, maxLeap: 12 },
+}
+
+const DICTATION_CHOICES = 4
+
+/** Lowest notes played, chosen so every question sits in a comfortable range */
+const INTERVAL_ROOTS = [52, 64]
+const CHORD_ROOTS = [48, 60]
+const DICTATION_TONICS = [55, 62]
+
+function degreeName(degree: number): string {
+  return SOLFEGE[noteIndex(degree)] + (degree >= 12 ? "'" : '')
+}
+
+/** Human-readable name of an EarItemStats key, e.g. 'interval:7' -> 'Perfect 5th' */
+export function describeEarItem(item: string): string {
+  const [type, id] = item.split(':')
+  if (type === 'interval') return INTERVALS.find(i => i.semitones === Number(id))?.name ?? item
+  if (type === 'chord') return `${CHORDS.find(c => c.id === id)?.name ?? id} chord`
+  if (type === 'dictation') return degreeName(Number(id))
+  return item
+}
+
+// ---------------------------------------------------------------------------
+// Question generation
+// ---------------------------------------------------------------------------
+
+function clampLevel(level: number): number {
+  return Math.max(MIN_EAR_LEVEL, Math.min(MAX_EAR_LEVEL, Math.round(level)))
+}
+
+function randomInt([min, max]: number[], random: () => number): number {
+  return min + Math.floor(random() * (max - min + 1))
+}
+
+/** Missed items are up to five times as likely as ones never missed */
+function itemWeight(stats: EarItemStats, item: string): number {
+  const entry = stats[item]
+  if (!entry || entry.asked === 0) return 1
+  return 1 + 4 * (entry.missed / entry.asked)
+}
+
+function pickWeighted<T>(options: T[], weight: (option: T) => number, random: () => number): T {
+  const weights = options.map(weight)
+  let roll = random() * weights.reduce((a, b) => a + b, 0)
+  for (let i = 0; i < options.length; i++) {
+    roll -= weights[i]
+    if (roll <= 0) return options[i]
+  }
+  return options[options.length - 1]
+}
+
+function intervalQuestion(level: number, stats: EarItemStats, random: () => number): EarQuestion {
+  const pool = INTERVAL_LEVELS[level]
+  const semitones = pickWeighted(pool, s => itemWeight(stats, `interval:${s}`), random)
+  const descending = level >= DESCENDING_FROM_LEVEL && random() < 0.5
+  const low = randomInt(INTERVAL_ROOTS, random)
+  const notes = descending ? [low + semitones, low] : [low, low + semitones]
+
+  return {
+    type: 'interval',
+    level,
+    playback: notes.map(n => [n]),
+    noteMs: 800,
+    choices: pool.map(s => ({ value: String(s), label: INTERVALS.find(i => i.semitones === s)!.name })),
+    answer: String(semitones),
+    singTargets: notes,
+    items: [`interval:${semitones}`],
+    prompt: {
+      click: `Which interval was that${descending ? ' (descending)' : ''}?`,
+      sing: 'Sing both notes back, in the order you heard them.',
+    },
+  }
+}
+
+function chordQuestion(level: number, stats: EarItemStats, random: () => number): EarQuestion {
+  const pool = CHORDS.filter(c => CHORD_LEVELS[level].includes(c.id))
+  const chord = pickWeighted(pool, c => itemWeight(stats, `chord:${c.id}`), random)
+  const root = randomInt(CHORD_ROOTS, random)
+  const notes = chord.intervals.map(i => root + i)
+
+  return {
+    type: 'chord',
+    level,
+    // Block chord, then broken, then block again
+    playback: [notes, ...notes.map(n => [n]), notes],
+    noteMs: 900,
+    choices: pool.map(c => ({ value: c.id, label: c.name })),
+    answer: chord.id,
+    singTargets: [root],
+    items: [`chord:${chord.id}`],
+    prompt: {
+      click: 'What kind of chord was that?',
+      sing: 'Sing the root of the chord.',
+    },
+  }
+}
+
+function melodyLabel(degrees: number[]): string {
+  return degrees.map(degreeName).join(' – ')
+}
+
+function dictationQuestion(level: number, stats: EarItemStats, random: () => number): EarQuestion {
+  const { degrees: pool, length, maxLeap } = DICTATION_LEVELS[level]
+
+  const nextDegree = (from: number) => {
+    const options = pool.filter(d => d !== from && Math.abs(d - from) <= maxLeap)
+    return pickWeighted(options, d => itemWeight(stats, `dictation:${d}`), random)
+  }
+
+  // Always starts on Do, so the tonic heard first anchors the key
+  const melody = [0]
+  while (melody.length < length) melody.push(nextDegree(melody[melody.length - 1]))
+
+  // Distractors change one note each
+  const variants = new Map<string, number[]>([[melody.join(','), melody]])
+  for (let tries = 0; variants.size < DICTATION_CHOICES && tries < 50; tries++) {
+    const position = 1 + Math.floor(random() * (length - 1))
+    const options = pool.filter(d => d !== melody[position] && d !== melody[position - 1] && d !== melody[position + 1])
+    if (options.length === 0) continue
+    const variant = [...melody]
+    variant[position] = options[Math.floor(random() * options.length)]
+    variants.set(variant.join(','), variant)
+  }
+  const choices = [...variants.entries()]
+    .map(([value, degrees]) => ({ value, label: melodyLabel(degrees), order: random() }))
+    .sort((a, b) => a.order - b.order)
+    .map(({ value, label }) => ({ value, label }))
+
+  const tonic = randomInt(DICTATION_TONICS, random)
+  const tonicChord = [tonic, tonic + 4, tonic + 7]
+
+  return {
+    type: 'dictation',
+    level,
+    playback: [tonicChord, ...melody.map(d => [tonic + d])],
+    noteMs: 600,
+    choices,
+    answer: melody.join(','),
+    singTargets: melody.map(d => tonic + d),
+    items: melody.slice(1).map(d => `dictation:${d}`),
+    prompt: {
+      click: 'Which melody did you hear? It starts on Do.',
+      sing: 'Sing the melody back. It starts on Do.',
+    },
+  }
+}
+
+/**
+ * Build the next question for an exercise at a level, favouring the items in
+ * the student's error history.
+ */
+export function buildEarQuestion(
+  type: EarExerciseType,
+  level: number,
+  stats: EarItemStats = {},
+  random: () => number = Math.random
+): EarQuestion {
+  const clamped = clampLevel(level)
+  if (type === 'chord') return chordQuestion(clamped, stats, random)
+  if (type === 'dictation') return dictationQuestion(clamped, stats, random)
+  return intervalQuestion(clamped, stats, random)
+}
+
+// ---------------------------------------------------------------------------
+// Grading
+// ---------------------------------------------------------------------------
+
+export function gradeEarChoice(question: EarQuestion, value: string): EarGrade {
+  if (value === question.answer) return { correct: true, missedItems: [] }
+  if (question.type !== 'dictation') return { correct: false, missedItems: question.items }
+
+  // Blame only the notes that differ
+  const chosen = value.split(',')
+  const missedItems = question.answer.split(',')
+    .filter((degree, i) => i > 0 && chosen[i] !== degree)
+    .map(degree => `dictation:${degree}`)
+  return { correct: false, missedItems }
+}
+
+export interface SungAnswer {
+  grade: EarGrade
+  /** Each sung note as named by the detector, e.g. 'F♯3', or null if it could not be named */
+  sungNames: (string | null)[]
+}
+
+/**
+ * Grade sung notes (one held frequency per note) against the question's
+ * targets. Notes match by pitch class: singing an octave off still counts.
+ */
+export function gradeEarSung(question: EarQuestion, frequencies: number[]): SungAnswer {
+  const sung = frequencies.map(f => describeFrequency(f))
+  const matches = question.singTargets.map((target, i) => {
+    const note = sung[i]
+    return !!note && noteIndex(note.value) === noteIndex(target)
+  })
+  const correct = matches.every(Boolean)
+
+  let missedItems: string[] = []
+  if (!correct) {
+    missedItems = question.type === 'dictation'
+      ? question.items.filter((_, i) => !matches[i + 1])
+      : question.items
+  }
+
+  return {
+    grade: { correct, missedItems },
+    sungNames: sung.map(note => note ? `${note.name}${note.octave}` : null),
+  }
+}
+
+/**
+ * Turns a stream of detector readings into discrete sung notes: a note
+ * counts once it has been held for a few readings, and the same note again
+ * only after a break in the singing.
+ */
+export class SungNoteTracker {
+  static readonly HOLD_READINGS = 6
+  static readonly BREAK_MS = 300
+
+  private candidate: number | null = null
+  private frequencies: number[] = []
+  private committed: number | null = null
+  private lastReadingAt = 0
+
+  /** Returns the held note's median frequency when a new note is committed */
+  push(note: DetectedNote, now: number): number | null {
+    if (now - this.lastReadingAt > SungNoteTracker.BREAK_MS) this.committed = null
+    this.lastReadingAt = now
+
+    if (note.value !== this.candidate) {
+      this.candidate = note.value
+      this.frequencies = []
+    }
+    this.frequencies.push(note.frequency)
+
+    if (this.frequencies.length < SungNoteTracker.HOLD_READINGS || note.value === this.committed) return null
+
+    this.committed = note.value
+    const sorted = [...this.frequencies].sort((a, b) => a - b)
+    return sorted[Math.floor(sorted.length / 2)]
+  }
+
+  reset() {
+    this.candidate = null
+    this.frequencies = []
+    this.committed = null
+    this.lastReadingAt = 0
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Adaptation and history
+// ---------------------------------------------------------------------------
+
+/** Answers at a level before it can go up */
+export const LEVEL_UP_AFTER = 8
+const LEVEL_UP_ACCURACY = 0.85
+/** Answers at a level before it can go down */
+export const LEVEL_DOWN_AFTER = 5
+const LEVEL_DOWN_ACCURACY = 0.5
+
+/**
+ * The level to ask next, given the results so far at the current level
+ * (oldest first). Callers start a fresh list whenever the level changes.
+ */
+export function adaptEarLevel(level: number, results: boolean[]): number {
+  const accuracy = (n: number) => results.slice(-n).filter(Boolean).length / n
+  if (results.length >= LEVEL_UP_AFTER && accuracy(LEVEL_UP_AFTER) >= LEVEL_UP_ACCURACY) {
+    return clampLevel(level + 1)
+  }
+  if (results.length >= LEVEL_DOWN_AFTER && accuracy(LEVEL_DOWN_AFTER) < LEVEL_DOWN_ACCURACY) {
+    return clampLevel(level - 1)
+  }
+  return level
+}
+
+export function recordEarAnswer(stats: EarItemStats, question: EarQuestion, grade: EarGrade): EarItemStats {
+  const next = { ...stats }
+  for (const item of question.items) {
+    const entry = next[item] ?? { asked: 0, missed: 0 }
+    next[item] = {
+      asked: entry.asked + 1,
+      missed: entry.missed + (grade.missedItems.includes(item) ? 1 : 0),
+    }
+  }
+  return next
+}
+
+export function mergeEarItemStats(a: EarItemStats, b: EarItemStats): EarItemStats {
+  const merged = { ...a }
+  for (const [item, entry] of Object.entries(b)) {
+    const existing = merged[item] ?? { asked: 0, missed: 0 }
+    merged[item] = { asked: existing.asked + entry.asked, missed: existing.missed + entry.missed }
+  }
+  return merged
+}
+
+/** The items missed most often, worst first */
+export function mostMissedEarItems(stats: EarItemStats, limit = 3): { item: string; label: string; missRate: number }[] {
+  return Object.entries(stats)
+    .filter(([, entry]) => entry.asked > 0 && entry.missed > 0)
+    .map(([item, entry]) => ({ item, label: describeEarItem(item), missRate: entry.missed / entry.asked }))
+    .sort((a, b) => b.missRate - a.missRate)
+    .slice(0, limit)
+}
+
+/** What a saved ear training session contributes to the error history */
+export interface EarSessionHistory {
+  exercise_type: EarExerciseType
+  end_level: number
+  item_stats: EarItemStats | null
+}
+
+/**
+ * Starting levels and combined item stats from recent sessions, newest
+ * first. Each exercise resumes at the level its last session ended on.
+ */
+export function summarizeEarHistory(sessions: EarSessionHistory[]): {
+  levels: Record<EarExerciseType, number>
+  itemStats: EarItemStats
+} {
+  const levels: Record<EarExerciseType, number> = { interval: MIN_EAR_LEVEL, chord: MIN_EAR_LEVEL, dictation: MIN_EAR_LEVEL }
+  const seen = new Set<EarExerciseType>()
+  let itemStats: EarItemStats = {}
+
+  for (const session of sessions) {
+    if (!seen.has(session.exercise_type)) {
+      seen.add(session.exercise_type)
+      levels[session.exercise_type] = clampLevel(session.end_level)
+    }
+    itemStats = mergeEarItemStats(itemStats, session.item_stats ?? {})
+  }
+
+  return { levels, itemStats }
+}
+
+/** Session score: accuracy, counting in full only at the top level */
+export function earOverallScore(accuracyPercent: number, level: number): number {
+  return Math.max(0, Math.min(100, accuracyPercent * (0.75 + 0.05 * clampLevel(level))))
+}
+
+export function isEarExerciseType(value: unknown): value is EarExerciseType {
+  return EAR_EXERCISE_TYPES.some(t => t.value === value)
+}
@@ -258,10 +258,14 @@ async function sendSmsNotification(params: {
     ? params.sender.substring(0, 25) + '...'
     : params.sender
 
-  await sendSms({
+  const result = await sendSms({
     to: params.to,
     body: `Voice Alchemy: Email from ${truncatedSender}\n"${truncatedSubject}"\n\nView: ${params.magicLink}`,
   })
+
+  if (!result.success) {
+    throw new Error(result.error || 'SMS send failed')
+  }
 }
 
 /**
@@ -225,14 +225,15 @@ export function getEmailProvider(account: EmailAccountInfo): EmailProvider {
 }
 
 /**
- * Sends an email using the appropriate provider for the account
+ * Sends an email using the appropriate provider for the account.
+ * Server code passes a provider from getServerEmailProvider() (the default
+ * providers call our API routes and only work in the browser).
  */
 export async function sendEmailWithProvider(
   account: EmailAccountInfo,
-  params: Omit<SendEmailParams, 'from'>
+  params: Omit<SendEmailParams, 'from'>,
+  provider: EmailProvider = getEmailProvider(account)
 ): Promise<SendEmailResult> {
-  const provider = getEmailProvider(account)
-
   return provider.sendEmail({
     ...params,
     from: {
@@ -55,6 +55,19 @@ export const EMAIL_VARIABLES: EmailVariableGroup[] = [
       { key: '{{rep_phone}}', label: 'Phone', description: 'Sales rep\'s phone number' },
     ],
   },
+  {
+    name: 'Lesson',
+    variables: [
+      { key: '{{lesson_first_name}}', label: 'First Name', description: 'First name of the person being reminded' },
+      { key: '{{lesson_with_name}}', label: 'With', description: 'The teacher (or student) the lesson is with' },
+      { key: '{{lesson_date}}', label: 'Date', description: 'Lesson date in the recipient\'s timezone' },
+      { key: '{{lesson_time}}', label: 'Time', description: 'Lesson start time in the recipient\'s timezone' },
+      { key: '{{lesson_starts_in}}', label: 'Starts In', description: 'How soon the lesson starts, e.g. "in 1 hour"' },
+      { key: '{{lesson_duration}}', label: 'Duration', description: 'Lesson length in minutes' },
+      { key: '{{lesson_room_url}}', label: 'Lesson Room Link', description: 'Link to the lesson room' },
+      { key: '{{lesson_settings_url}}', label: 'Reminder Settings Link', description: 'Where to change or turn off reminders' },
+    ],
+  },
 ];
 
 // Flat list of all variables for easy lookup
@@ -204,6 +217,14 @@ export const SAMPLE_VALUES: Record<string, string> = {
   rep_full_name: 'Julia Coach',
   rep_email: 'julia@voicealchemyacademy.com',
   rep_phone: '(818) 209-2305',
+  lesson_first_name: 'John',
+  lesson_with_name: 'Julia Coach',
+  lesson_date: 'Tuesday, March 3',
+  lesson_time: '4:00 PM PST',
+  lesson_starts_in: 'in 1 hour',
+  lesson_duration: '60',
+  lesson_room_url: 'https://www.voicealchemyacademy.com/dashboard/my-lessons/123',
+  lesson_settings_url: 'https://www.voicealchemyacademy.com/dashboard/settings',
 };
 
 /**
@@ -216,4 +237,5 @@ export const TEMPLATE_CATEGORIES = [
   { value: 'funding', label: 'Funding' },
   { value: 'closing', label: 'Closing' },
   { value: 'general', label: 'General' },
+  { value: 'lesson_reminder', label: 'Lesson Reminder' },
 ] as const;
@@ -0,0 +1,451 @@
+/**
+ * Funnel phase dispatcher: sends the next drip email for an enrollment and
+ * moves it along the funnel.
+ *
+ * /api/email-funnels/enroll (and the inbound-email auto-enroller in
+ * lib/email-ai.ts) only ever write an enrollment with current_phase and
+ * next_email_scheduled_at. This module is what turns those rows into mail:
+ *
+ *   1. Claim the enrollment so overlapping cron runs cannot both send it.
+ *   2. Render the current phase's email_templates row for the recipient.
+ *   3. Send through the enrolling user's email account, record the email in
+ *      their Sent folder, and write an email_funnel_logs row.
+ *   4. Schedule the next phase from its delay_days/delay_hours, or mark the
+ *      enrollment completed after the last phase.
+ *
+ * Recipients follow the rest of the VAAA email port: lead_id / contact_id are
+ * profile ids, not rows in a CRM leads table.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { sendEmailWithProvider } from '@/lib/email-provider'
+import { getServerEmailProvider } from '@/lib/email/server-provider'
+import { runSendGate } from '@/lib/email/send-gate'
+import { buildVariableValues, replaceVariables } from '@/lib/email-variables'
+import { generateMessageId, generateSnippet, stripHtml } from '@/lib/email-utils'
+
+/**
+ * How long a claim holds an enrollment. The claim pushes next_email_scheduled_at
+ * this far into the future, so a worker that dies mid-send releases the row by
+ * itself instead of leaving it stuck.
+ */
+export const CLAIM_LEASE_MINUTES = 15
+
+/** Retry spacing after a failed send. */
+export const SEND_RETRY_DELAY_MINUTES = 60
+
+/**
+ * Failed sends allowed per phase before the enrollment is paused. Pausing is
+ * visible on the funnel page; retrying forever would only hide a bad sender
+ * account or address.
+ */
+export const MAX_SEND_ATTEMPTS_PER_PHASE = 3
+
+export interface FunnelDispatchResult {
+  enrollmentId: string
+  status: 'sent' | 'completed' | 'skipped' | 'failed' | 'paused'
+  phase?: number
+  reason?: string
+}
+
+interface FunnelPhase {
+  id: string
+  phase_order: number
+  template_id: string | null
+  delay_days: number | null
+  delay_hours: number | null
+  emails_sent: number | null
+}
+
+/** Same delay formula the enroll route uses for the first phase. */
+export function phaseDelayMs(phase: Pick<FunnelPhase, 'delay_days' | 'delay_hours'>): number {
+  return ((phase.delay_days || 0) * 24 * 60 + (phase.delay_hours || 0) * 60) * 60 * 1000
+}
+
+function minutesFromNow(minutes: number): string {
+  return new Date(Date.now() + minutes * 60 * 1000).toISOString()
+}
+
+/**
+ * Claim an enrollment for the phase we read it at. The filters are the atomic
+ * part: once one caller has moved next_email_scheduled_at forward, a second
+ * caller's update matches nothing.
+ */
+async function claimEnrollment(
+  admin: SupabaseClient,
+  enrollmentId: string,
+  phase: number,
+  now: string
+): Promise<boolean> {
+  const { data } = await admin
+    .from('email_funnel_enrollments')
+    .update({ next_email_scheduled_at: minutesFromNow(CLAIM_LEASE_MINUTES) })
+    .eq('id', enrollmentId)
+    .eq('status', 'active')
+    .eq('current_phase', phase)
+    .lte('next_email_scheduled_at', now)
+    .select('id')
+    .maybeSingle()
+
+  return !!data
+}
+
+async function pauseEnrollment(admin: SupabaseClient, enrollmentId: string, reason: string) {
+  await admin
+    .from('email_funnel_enrollments')
+    .update({
+      status: 'paused',
+      paused_at: new Date().toISOString(),
+      cancel_reason: reason,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', enrollmentId)
+}
+
+async function logPhase(
+  admin: SupabaseClient,
+  entry: {
+    enrollmentId: string
+    phaseId: string
+    emailId?: string | null
+    scheduledFor: string | null
+    status: 'sent' | 'failed'
+    error?: string
+  }
+) {
+  await admin.from('email_funnel_logs').insert({
+    enrollment_id: entry.enrollmentId,
+    phase_id: entry.phaseId,
+    email_id: entry.emailId ?? null,
+    scheduled_for: entry.scheduledFor,
+    sent_at: entry.status === 'sent' ? new Date().toISOString() : null,
+    status: entry.status,
+    error_message: entry.error ?? null,
+  })
+}
+
+/**
+ * Record a failed attempt and either retry later or pause once the phase has
+ * used up its attempts.
+ */
+async function handleSendFailure(
+  admin: SupabaseClient,
+  enrollmentId: string,
+  phase: FunnelPhase,
+  scheduledFor: string | null,
+  reason: string,
+  emailId?: string
+): Promise<FunnelDispatchResult> {
+  await logPhase(admin, { enrollmentId, phaseId: phase.id, emailId, scheduledFor, status: 'failed', error: reason })
+
+  const { count } = await admin
+    .from('email_funnel_logs')
+    .select('id', { count: 'exact', head: true })
+    .eq('enrollment_id', enrollmentId)
+    .eq('phase_id', phase.id)
+    .eq('status', 'failed')
+
+  if ((count || 0) >= MAX_SEND_ATTEMPTS_PER_PHASE) {
+    const pauseReason = `Phase ${phase.phase_order} failed ${count} times: ${reason}`
+    await pauseEnrollment(admin, enrollmentId, pauseReason)
+    console.warn(`[FunnelDispatch] ${enrollmentId}: paused - ${pauseReason}`)
+    return { enrollmentId, status: 'paused', phase: phase.phase_order, reason: pauseReason }
+  }
+
+  await admin
+    .from('email_funnel_enrollments')
+    .update({ next_email_scheduled_at: minutesFromNow(SEND_RETRY_DELAY_MINUTES), updated_at: new Date().toISOString() })
+    .eq('id', enrollmentId)
+
+  console.error(`[FunnelDispatch] ${enrollmentId}: phase ${phase.phase_order} failed - ${reason}`)
+  return { enrollmentId, status: 'failed', phase: phase.phase_order, reason }
+}
+
+/**
+ * Send the current phase of one enrollment and schedule the next. Safe to call
+ * concurrently: only the caller that wins the claim sends anything.
+ */
+export async function dispatchEnrollment(
+  admin: SupabaseClient,
+  enrollmentId: string
+): Promise<FunnelDispatchResult> {
+  const { data: enrollment, error: fetchError } = await admin
+    .from('email_funnel_enrollments')
+    .select(`
+      id, funnel_id, lead_id, contact_id, status, current_phase, enrolled_by, next_email_scheduled_at,
+      funnel:email_funnels(
+        id, name, status, created_by, total_completed, total_emails_sent,
+        phases:email_funnel_phases(id, phase_order, template_id, delay_days, delay_hours, emails_sent)
+      )
+    `)
+    .eq('id', enrollmentId)
+    .single()
+
+  if (fetchError || !enrollment) {
+    return { enrollmentId, status: 'failed', reason: 'Enrollment not found' }
+  }
+
+  const funnel = enrollment.funnel as unknown as {
+    id: string
+    name: string
+    status: string
+    created_by: string | null
+    total_completed: number | null
+    total_emails_sent: number | null
+    phases: FunnelPhase[] | null
+  } | null
+
+  if (enrollment.status !== 'active' || !funnel || funnel.status !== 'active') {
+    return { enrollmentId, status: 'skipped', reason: 'Enrollment or funnel is not active' }
+  }
+
+  const now = new Date().toISOString()
+  const currentPhase = enrollment.current_phase || 1
+  const scheduledFor = enrollment.next_email_scheduled_at as string | null
+
+  if (!(await claimEnrollment(admin, enrollmentId, currentPhase, now))) {
+    return { enrollmentId, status: 'skipped', reason: 'Not due or already claimed by another worker' }
+  }
+
+  const phases = [...(funnel.phases || [])].sort((a, b) => a.phase_order - b.phase_order)
+
+  const phaseIndex = phases.findIndex(p => p.phase_order === currentPhase)
+
+  // Phases can be deleted from a live funnel. Nothing left to send means done.
+  if (phaseIndex === -1) {
+    await completeEnrollment(admin, enrollmentId, funnel)
+    return { enrollmentId, status: 'completed', phase: currentPhase, reason: 'No phase at current position' }
+  }
+
+  const phase = phases[phaseIndex]
+
+  // ---- Configuration problems: retrying will not fix these, so pause. ------
+
+  const recipientId = enrollment.lead_id || enrollment.contact_id
+  const { data: recipient } = recipientId
+    ? await admin
+        .from('profiles')
+        .select('id, first_name, last_name, name, email, phone')
+        .eq('id', recipientId)
+        .maybeSingle()
+    : { data: null }
+
+  if (!recipient?.email) {
+    const reason = 'Recipient has no email address'
+    await logPhase(admin, { enrollmentId, phaseId: phase.id, scheduledFor, status: 'failed', error: reason })
+    await pauseEnrollment(admin, enrollmentId, reason)
+    return { enrollmentId, status: 'paused', phase: currentPhase, reason }
+  }
+
+  const { data: template } = phase.template_id
+    ? await admin
+        .from('email_templates')
+        .select('id, subject, body, body_html')
+        .eq('id', phase.template_id)
+        .eq('is_deleted', false)
+        .maybeSingle()
+    : { data: null }
+
+  if (!template) {
+    const reason = `Phase ${currentPhase} has no template`
+    await logPhase(admin, { enrollmentId, phaseId: phase.id, scheduledFor, status: 'failed', error: reason })
+    await pauseEnrollment(admin, enrollmentId, reason)
+    return { enrollmentId, status: 'paused', phase: currentPhase, reason }
+  }
+
+  const senderUserId = enrollment.enrolled_by || funnel.created_by
+  const { data: account } = senderUserId
+    ? await admin
+        .from('email_accounts')
+        .select('*, domain:email_domains(id, domain, verification_status)')
+        .eq('user_id', senderUserId)
+        .eq('is_active', true)
+        .eq('is_deleted', false)
+        .limit(1)
+        .maybeSingle()
+    : { data: null }
+
+  if (!account) {
+    const reason = 'Enrolling user has no active email account'
+    await logPhase(admin, { enrollmentId, phaseId: phase.id, scheduledFor, status: 'failed', error: reason })
+    await pauseEnrollment(admin, enrollmentId, reason)
+    return { enrollmentId, status: 'paused', phase: currentPhase, reason }
+  }
+
+  if ((account.provider || 'sendgrid') === 'sendgrid' && account.domain?.verification_status !== 'verified') {
+    return handleSendFailure(admin, enrollmentId, phase, scheduledFor, 'Sender domain is not verified')
+  }
+
+  // ---- Render ----------------------------------------------------------------
+
+  const { data: rep } = await admin
+    .from('profiles')
+    .select('first_name, last_name, name, email, phone')
+    .eq('id', account.user_id)
+    .maybeSingle()
+
+  const splitName = (p: { first_name?: string | null; last_name?: string | null; name?: string | null; email?: string | null; phone?: string | null }) => ({
+    first_name: p.first_name || p.name?.split(' ')[0] || null,
+    last_name: p.last_name || p.name?.split(' ').slice(1).join(' ') || null,
+    email: p.email,
+    phone: p.phone,
+  })
+
+  const person = splitName(recipient)
+  const values = buildVariableValues({
+    lead: person,
+    contact: person,
+    rep: rep ? splitName(rep) : { email: account.email_address },
+  })
+
+  const subject = replaceVariables(template.subject || '', values)
+  const gate = runSendGate({
+    bodyHtml: replaceVariables(template.body_html || '', values),
+    bodyText: replaceVariables(template.body || '', values),
+    isReply: false,
+  })
+
+  if (!gate.ok) {
+    return handleSendFailure(admin, enrollmentId, phase, scheduledFor, gate.error || 'Blocked by send gate')
+  }
+
+  // ---- Persist + send --------------------------------------------------------
+
+  const recipientName = [person.first_name, person.last_name].filter(Boolean).join(' ') || undefined
+  const messageId = generateMessageId(account.domain?.domain || account.email_address.split('@')[1])
+  const snippet = generateSnippet(gate.bodyText || stripHtml(gate.bodyHtml))
+
+  const { data: thread, error: threadError } = await admin
+    .from('email_threads')
+    .insert({
+      email_account_id: account.id,
+      // Admin client has no auth.uid(), so stamp org explicitly or
+      // org-isolation RLS hides the thread from the sender.
+      organization_id: account.organization_id,
+      subject: subject || '(no subject)',
+      folder: 'sent',
+      is_read: true,
+      last_message_at: now,
+      snippet,
+    })
+    .select('id')
+    .single()
+
+  if (threadError || !thread) {
+    return handleSendFailure(admin, enrollmentId, phase, scheduledFor, `Failed to create thread: ${threadError?.message}`)
+  }
+
+  const { data: email, error: emailError } = await admin
+    .from('emails')
+    .insert({
+      thread_id: thread.id,
+      email_account_id: account.id,
+      organization_id: account.organization_id,
+      message_id: messageId,
+      from_address: account.email_address,
+      from_name: account.display_name,
+      to_addresses: [{ email: recipient.email, name: recipientName || null }],
+      subject,
+      body_text: gate.bodyText,
+      body_html: gate.bodyHtml,
+      snippet,
+      status: 'sending',
+      is_inbound: false,
+      is_read: true,
+    })
+    .select('id')
+    .single()
+
+  if (emailError || !email) {
+    return handleSendFailure(admin, enrollmentId, phase, scheduledFor, `Failed to create email record: ${emailError?.message}`)
+  }
+
+  const result = await sendEmailWithProvider(
+    account,
+    {
+      to: [{ email: recipient.email, name: recipientName }],
+      subject,
+      bodyHtml: gate.bodyHtml,
+      bodyText: gate.bodyText,
+      headers: { 'Message-ID': messageId },
+      threadId: thread.id,
+      leadId: enrollment.lead_id || undefined,
+      contactId: enrollment.contact_id || undefined,
+    },
+    getServerEmailProvider(account)
+  )
+
+  if (!result.success) {
+    await admin.from('emails').update({ status: 'failed' }).eq('id', email.id)
+    return handleSendFailure(admin, enrollmentId, phase, scheduledFor, result.error || 'Send failed', email.id)
+  }
+
+  const sentAt = new Date().toISOString()
+
+  await admin
+    .from('emails')
+    .update({ status: 'sent', sent_at: sentAt, sendgrid_message_id: result.messageId || null })
+    .eq('id', email.id)
+
+  await logPhase(admin, { enrollmentId, phaseId: phase.id, emailId: email.id, scheduledFor, status: 'sent' })
+
+  await admin
+    .from('email_funnel_phases')
+    .update({ emails_sent: (phase.emails_sent || 0) + 1, updated_at: sentAt })
+    .eq('id', phase.id)
+
+  await admin
+    .from('email_funnels')
+    .update({ total_emails_sent: (funnel.total_emails_sent || 0) + 1, updated_at: sentAt })
+    .eq('id', funnel.id)
+
+  // ---- Advance ---------------------------------------------------------------
+
+  const nextPhase = phases[phaseIndex + 1]
+
+  if (!nextPhase) {
+    await completeEnrollment(admin, enrollmentId, funnel, sentAt)
+    console.log(`[FunnelDispatch] ${enrollmentId}: sent final phase ${currentPhase}, completed`)
+    return { enrollmentId, status: 'completed', phase: currentPhase }
+  }
+
+  // Delays are relative to the previous send, not to enrollment, so a retried
+  // phase does not squash the gap before the next one.
+  await admin
+    .from('email_funnel_enrollments')
+    .update({
+      current_phase: nextPhase.phase_order,
+      last_email_sent_at: sentAt,
+      next_email_scheduled_at: new Date(Date.now() + phaseDelayMs(nextPhase)).toISOString(),
+      updated_at: sentAt,
+    })
+    .eq('id', enrollmentId)
+
+  console.log(`[FunnelDispatch] ${enrollmentId}: sent phase ${currentPhase}, next is ${nextPhase.phase_order}`)
+  return { enrollmentId, status: 'sent', phase: currentPhase }
+}
+
+async function completeEnrollment(
+  admin: SupabaseClient,
+  enrollmentId: string,
+  funnel: { id: string; total_completed: number | null },
+  lastSentAt?: string
+) {
+  const completedAt = new Date().toISOString()
+
+  await admin
+    .from('email_funnel_enrollments')
+    .update({
+      status: 'completed',
+      completed_at: completedAt,
+      next_email_scheduled_at: null,
+      ...(lastSentAt ? { last_email_sent_at: lastSentAt } : {}),
+      updated_at: completedAt,
+    })
+    .eq('id', enrollmentId)
+
+  await admin
+    .from('email_funnels')
+    .update({ total_completed: (funnel.total_completed || 0) + 1, updated_at: completedAt })
+    .eq('id', funnel.id)
+}
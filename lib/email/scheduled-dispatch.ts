@@ -0,0 +1,265 @@
+/**
+ * Scheduled-send worker: dispatches queued emails once their scheduled_at has
+ * passed.
+ *
+ * POST /api/email/send (and /api/email-templates/send) persist scheduled mail as
+ * status 'queued' and return immediately. The undo-window confirm route only
+ * handles the short "send after N seconds" case; this is what sends everything
+ * a user scheduled for later.
+ *
+ * Each email goes through the send gate again before dispatch, because the body
+ * can be edited from the Scheduled folder after it was first queued. Failures
+ * back off exponentially and, after MAX_SEND_ATTEMPTS, land in a visible
+ * 'failed' state with send_error set so the user can fix and reschedule.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { sendEmailWithProvider, type EmailRecipient } from '@/lib/email-provider'
+import { getServerEmailProvider } from '@/lib/email/server-provider'
+import { runSendGate } from '@/lib/email/send-gate'
+import { generateSnippet, stripHtml } from '@/lib/email-utils'
+
+/** Attempts before a scheduled email is parked as 'failed'. */
+export const MAX_SEND_ATTEMPTS = 5
+
+/** First retry delay; doubles on every further failure. */
+export const RETRY_BASE_MINUTES = 5
+
+/**
+ * How long a claim holds an email in 'sending'. A worker that dies mid-send
+ * leaves the row claimable again once this expires.
+ */
+export const SEND_LEASE_MINUTES = 10
+
+export interface ScheduledSendResult {
+  emailId: string
+  status: 'sent' | 'retrying' | 'failed' | 'skipped'
+  reason?: string
+  attempt?: number
+}
+
+/** Delay before attempt `attempt + 1`, i.e. 5, 10, 20, 40 minutes. */
+export function retryDelayMs(attempt: number): number {
+  return RETRY_BASE_MINUTES * 60 * 1000 * Math.pow(2, Math.max(0, attempt - 1))
+}
+
+/**
+ * PostgREST filter matching scheduled emails that are due: queued and past any
+ * retry delay, or stuck in 'sending' past the lease. Shared by the cron query
+ * and the claim so the two can never disagree about what is due.
+ */
+export function dueScheduledFilter(now: Date = new Date()): string {
+  const nowIso = now.toISOString()
+  const leaseCutoff = new Date(now.getTime() - SEND_LEASE_MINUTES * 60 * 1000).toISOString()
+  return [
+    `and(status.eq.queued,or(send_next_retry_at.is.null,send_next_retry_at.lte.${nowIso}))`,
+    `and(status.eq.sending,send_locked_at.lt.${leaseCutoff})`,
+  ].join(',')
+}
+
+/**
+ * Claim a scheduled email. The status/lease filters are the atomic part: once
+ * one worker has flipped the row to 'sending' with a fresh send_locked_at, a
+ * second worker's update matches nothing.
+ */
+async function claimScheduledEmail(admin: SupabaseClient, emailId: string): Promise<boolean> {
+  const now = new Date()
+
+  const { data } = await admin
+    .from('emails')
+    .update({ status: 'sending', send_locked_at: now.toISOString() })
+    .eq('id', emailId)
+    .not('scheduled_at', 'is', null)
+    .lte('scheduled_at', now.toISOString())
+    .or(dueScheduledFilter(now))
+    .select('id')
+    .maybeSingle()
+
+  return !!data
+}
+
+async function recordFailure(
+  admin: SupabaseClient,
+  emailId: string,
+  attempt: number,
+  reason: string,
+  permanent = false
+): Promise<ScheduledSendResult> {
+  if (permanent || attempt >= MAX_SEND_ATTEMPTS) {
+    await admin
+      .from('emails')
+      .update({
+        status: 'failed',
+        send_attempt_count: attempt,
+        send_locked_at: null,
+        send_next_retry_at: null,
+        send_error: reason,
+      })
+      .eq('id', emailId)
+
+    console.error(`[ScheduledSend] ${emailId}: failed permanently after ${attempt} attempt(s) - ${reason}`)
+    return { emailId, status: 'failed', reason, attempt }
+  }
+
+  await admin
+    .from('emails')
+    .update({
+      status: 'queued',
+      send_attempt_count: attempt,
+      send_locked_at: null,
+      send_next_retry_at: new Date(Date.now() + retryDelayMs(attempt)).toISOString(),
+      send_error: reason,
+    })
+    .eq('id', emailId)
+
+  console.warn(`[ScheduledSend] ${emailId}: attempt ${attempt} failed, will retry - ${reason}`)
+  return { emailId, status: 'retrying', reason, attempt }
+}
+
+/** Re-download stored attachments so the provider can send them. */
+async function loadAttachments(
+  admin: SupabaseClient,
+  records: Array<{ filename: string; content_type: string | null; storage_path: string | null; content_id: string | null; is_inline: boolean | null }>
+) {
+  const attachments = []
+
+  for (const record of records) {
+    if (!record.storage_path) continue
+
+    const { data: blob, error } = await admin.storage.from('email-attachments').download(record.storage_path)
+    if (error || !blob) {
+      throw new Error(`Attachment ${record.filename} could not be loaded: ${error?.message ?? 'not found'}`)
+    }
+
+    attachments.push({
+      filename: record.filename,
+      content: Buffer.from(await blob.arrayBuffer()).toString('base64'),
+      contentType: record.content_type || 'application/octet-stream',
+      contentId: record.is_inline ? record.content_id || undefined : undefined,
+    })
+  }
+
+  return attachments
+}
+
+/**
+ * Send one scheduled email. Safe to call concurrently from overlapping cron
+ * runs: only the worker that wins the claim sends.
+ */
+export async function dispatchScheduledEmail(
+  admin: SupabaseClient,
+  emailId: string
+): Promise<ScheduledSendResult> {
+  if (!(await claimScheduledEmail(admin, emailId))) {
+    return { emailId, status: 'skipped', reason: 'Not due or already claimed by another worker' }
+  }
+
+  const { data: email, error: fetchError } = await admin
+    .from('emails')
+    .select(`
+      *,
+      email_account:email_accounts(
+        *,
+        domain:email_domains(id, domain, verification_status)
+      ),
+      attachments:email_attachments(*)
+    `)
+    .eq('id', emailId)
+    .single()
+
+  if (fetchError || !email) {
+    return { emailId, status: 'skipped', reason: 'Email not found' }
+  }
+
+  const attempt = (email.send_attempt_count || 0) + 1
+  const account = email.email_account
+
+  if (!account || account.is_deleted) {
+    return recordFailure(admin, emailId, attempt, 'Sending account no longer exists', true)
+  }
+
+  if ((account.provider || 'sendgrid') === 'sendgrid' && account.domain?.verification_status !== 'verified') {
+    return recordFailure(admin, emailId, attempt, 'Domain is not verified')
+  }
+
+  // Re-run the gate: the Scheduled folder lets users edit the body after it
+  // was first queued, and a row may predate the gate entirely.
+  const references: string | null = email.references_header?.join(' ') || null
+  const gate = runSendGate({
+    bodyHtml: email.body_html,
+    bodyText: email.body_text,
+    isReply: !!email.in_reply_to,
+    inReplyTo: email.in_reply_to,
+    references,
+  })
+
+  if (gate.warnings.length > 0) {
+    console.warn(`[ScheduledSend] ${emailId}: send-gate warnings:`, gate.warnings.join('; '))
+  }
+
+  // Content problems will fail identically on every retry.
+  if (!gate.ok) {
+    return recordFailure(admin, emailId, attempt, gate.error || 'Blocked by send gate', true)
+  }
+
+  const toRecipients = (list: Array<{ email: string; name?: string | null }> | null): EmailRecipient[] =>
+    (list || []).map(r => ({ email: r.email, name: r.name || undefined }))
+
+  try {
+    const attachments = await loadAttachments(admin, email.attachments || [])
+
+    const result = await sendEmailWithProvider(
+      account,
+      {
+        to: toRecipients(email.to_addresses),
+        cc: toRecipients(email.cc_addresses),
+        bcc: toRecipients(email.bcc_addresses),
+        subject: email.subject || '',
+        bodyHtml: gate.bodyHtml,
+        bodyText: gate.bodyText,
+        attachments,
+        headers: {
+          'Message-ID': email.message_id,
+          ...(email.in_reply_to ? { 'In-Reply-To': email.in_reply_to } : {}),
+          ...(gate.references ? { References: gate.references } : {}),
+        },
+        threadId: email.thread_id,
+      },
+      getServerEmailProvider(account)
+    )
+
+    if (!result.success) {
+      return recordFailure(admin, emailId, attempt, result.error || 'Send failed')
+    }
+
+    const sentAt = new Date().toISOString()
+
+    await admin
+      .from('emails')
+      .update({
+        status: 'sent',
+        sent_at: sentAt,
+        sendgrid_message_id: result.messageId || null,
+        body_html: gate.bodyHtml,
+        body_text: gate.bodyText,
+        send_attempt_count: attempt,
+        send_locked_at: null,
+        send_next_retry_at: null,
+        send_error: null,
+      })
+      .eq('id', emailId)
+
+    await admin
+      .from('email_threads')
+      .update({
+        last_message_at: sentAt,
+        snippet: generateSnippet(gate.bodyText || stripHtml(gate.bodyHtml)),
+      })
+      .eq('id', email.thread_id)
+
+    console.log(`[ScheduledSend] ${emailId}: sent on attempt ${attempt}`)
+    return { emailId, status: 'sent', attempt }
+  } catch (error) {
+    return recordFailure(admin, emailId, attempt, error instanceof Error ? error.message : 'Unknown error')
+  }
+}
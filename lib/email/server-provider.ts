@@ -0,0 +1,79 @@
+/**
+ * Server-side EmailProvider implementations.
+ *
+ * The providers in lib/email-provider.ts post to our own /api/email/* routes
+ * with relative URLs and the browser's session cookie, so they only work from
+ * the client. Background workers (the funnel and scheduled-send crons) have
+ * neither, but still want the same EmailProvider shape so that callers can go
+ * through sendEmailWithProvider() regardless of where they run.
+ *
+ * This install is SendGrid-only (see lib/microsoft-graph.ts, lib/gmail-api.ts),
+ * so the non-SendGrid providers report a clean failure instead of throwing.
+ */
+
+import { sendEmail as sendSendgridEmail } from '@/lib/sendgrid'
+import type {
+  EmailAccountInfo,
+  EmailProvider,
+  SendEmailParams,
+  SendEmailResult,
+} from '@/lib/email-provider'
+import type { EmailProviderType } from '@/types/email.types'
+
+export class SendGridServerProvider implements EmailProvider {
+  type: EmailProviderType = 'sendgrid'
+
+  async sendEmail(params: SendEmailParams): Promise<SendEmailResult> {
+    try {
+      const result = await sendSendgridEmail({
+        from: params.from,
+        to: params.to,
+        cc: params.cc?.length ? params.cc : undefined,
+        bcc: params.bcc?.length ? params.bcc : undefined,
+        replyTo: params.replyTo ? { email: params.replyTo } : undefined,
+        subject: params.subject,
+        text: params.bodyText,
+        html: params.bodyHtml,
+        headers: params.headers,
+        attachments: params.attachments?.map(a => ({
+          content: a.content,
+          filename: a.filename,
+          type: a.contentType,
+          disposition: (a.contentId ? 'inline' : 'attachment') as 'inline' | 'attachment',
+          contentId: a.contentId,
+        })),
+        trackingSettings: {
+          clickTracking: { enable: true },
+          openTracking: { enable: true },
+        },
+      })
+
+      return { success: true, messageId: result.messageId }
+    } catch (error) {
+      return { success: false, error: (error as Error).message }
+    }
+  }
+}
+
+class UnsupportedServerProvider implements EmailProvider {
+  constructor(public type: EmailProviderType) {}
+
+  async sendEmail(): Promise<SendEmailResult> {
+    return { success: false, error: `${this.type} sending is not available in Voice Alchemy Academy` }
+  }
+}
+
+/**
+ * Server counterpart of getEmailProvider(). Pass the result as the third
+ * argument to sendEmailWithProvider().
+ */
+export function getServerEmailProvider(account: EmailAccountInfo): EmailProvider {
+  switch (account.provider) {
+    case 'microsoft':
+    case 'gmail':
+      return new UnsupportedServerProvider(account.provider)
+    case 'sendgrid':
+    default:
+      return new SendGridServerProvider()
+  }
+}
@@ -0,0 +1,37 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { VocalRange, VoiceType } from '@/lib/vocal-range'
+
+interface VocalRangeState {
+  range: VocalRange | null
+  voiceType: VoiceType | null
+  /** False until the saved range has been fetched (or failed to) */
+  loaded: boolean
+}
+
+/**
+ * The current student's saved vocal range, fetched whenever `enabled` turns
+ * on (e.g. when a trainer opens) so a new range test is picked up.
+ */
+export function useVocalRange(enabled: boolean): VocalRangeState {
+  const [state, setState] = useState<VocalRangeState>({ range: null, voiceType: null, loaded: false })
+
+  useEffect(() => {
+    if (!enabled) return
+    let on = true
+    fetch('/api/pitch-training/vocal-range')
+      .then(async res => {
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error || 'Failed to load vocal range')
+        if (on) setState({ range: data.range, voiceType: data.voiceType, loaded: true })
+      })
+      .catch(err => {
+        console.warn('[useVocalRange] Failed to load vocal range:', err)
+        if (on) setState(prev => ({ ...prev, loaded: true }))
+      })
+    return () => { on = false }
+  }, [enabled])
+
+  return state
+}
@@ -0,0 +1,83 @@
+/**
+ * ICE configuration for the lesson room (browser side).
+ *
+ * STUN is always available. TURN credentials are short-lived and issued per
+ * booking by the server (see lib/turn-credentials.ts), so the room fetches
+ * them on join and again before they expire. A connection that fails with
+ * direct candidates is retried relay-only through TURN.
+ */
+
+// Multiple STUN servers for redundancy
+const STUN_SERVERS: RTCIceServer[] = [
+  // Google STUN servers (most reliable)
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' },
+  { urls: 'stun:stun2.l.google.com:19302' },
+  { urls: 'stun:stun3.l.google.com:19302' },
+  { urls: 'stun:stun4.l.google.com:19302' },
+  // Additional public STUN servers for redundancy
+  { urls: 'stun:stun.cloudflare.com:3478' },
+  { urls: 'stun:stun.nextcloud.com:443' },
+]
+
+/** Refresh this long before the credentials expire */
+const REFRESH_MARGIN_MS = 10 * 60 * 1000
+/** Retry a failed fetch after this long */
+const RETRY_MS = 30 * 1000
+/** Don't hold up joining the room on a slow credentials endpoint */
+const FETCH_TIMEOUT_MS = 5000
+
+export interface TurnServers {
+  iceServers: RTCIceServer[]
+  /** ms since epoch, null when there is nothing to refresh */
+  expiresAt: number | null
+  /** The fetch failed, as opposed to the server having no TURN configured */
+  failed?: boolean
+}
+
+export const NO_TURN: TurnServers = { iceServers: [], expiresAt: null }
+
+export function hasTurn(turn: TurnServers): boolean {
+  return turn.iceServers.length > 0
+}
+
+export function buildRtcConfiguration(turn: TurnServers, relayOnly = false): RTCConfiguration {
+  return {
+    iceServers: [...STUN_SERVERS, ...turn.iceServers],
+    // Pre-fetch ICE candidates before creating offers (faster connection)
+    iceCandidatePoolSize: 10,
+    // Bundle all media into one connection (more efficient)
+    bundlePolicy: 'max-bundle',
+    // Require RTCP multiplexing (reduces ports needed)
+    rtcpMuxPolicy: 'require',
+    // Relay-only is the retry for connections direct candidates couldn't make
+    iceTransportPolicy: relayOnly ? 'relay' : 'all',
+  }
+}
+
+/** Fetch TURN credentials; resolves to NO_TURN rather than failing the join */
+export async function fetchTurnServers(url: string): Promise<TurnServers> {
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS)
+  try {
+    const response = await fetch(url, { signal: controller.signal, cache: 'no-store' })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`)
+    return {
+      iceServers: Array.isArray(data.iceServers) ? data.iceServers : [],
+      expiresAt: data.expiresAt ? Date.parse(data.expiresAt) : null,
+    }
+  } catch (err) {
+    console.warn('[ICE] Failed to fetch TURN credentials, continuing with STUN only:', err)
+    return { ...NO_TURN, failed: true }
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+/** When to fetch again: before expiry, or soon if the last fetch failed */
+export function refreshDelayMs(turn: TurnServers, now: number): number | null {
+  if (turn.failed) return RETRY_MS
+  if (turn.expiresAt === null) return null
+  return Math.max(turn.expiresAt - now - REFRESH_MARGIN_MS, RETRY_MS)
+}
@@ -0,0 +1,200 @@
+/**
+ * Lesson chat: messages typed in the lesson room, persisted per class.
+ *
+ * The sender saves a message through /api/lessons/[relationshipId]/chat and
+ * then broadcasts it on the room's signaling channel with the saved id, so
+ * everyone in the room shows it at once and a reconnecting participant
+ * replays the class's chat from the API. Messages belong to the class
+ * (class_sessions.started_at) while it runs and are linked to the class's
+ * notes_archive row when it ends, where links and files shared in chat are
+ * also listed at the bottom of the archived notes.
+ *
+ * Shared by the browser and the API routes, so nothing here touches Supabase.
+ */
+
+export const MAX_CHAT_MESSAGE_LENGTH = 2000
+export const MAX_CHAT_FILE_BYTES = 25 * 1024 * 1024
+export const CHAT_FILES_BUCKET = 'lesson-chat-files'
+
+/**
+ * Types that can be shared in chat: sheet music, recordings, images and
+ * documents. Matches allowed_mime_types on the bucket, which storage enforces
+ * on upload along with the size limit.
+ */
+export const CHAT_FILE_TYPES = [
+  'image/*',
+  'audio/*',
+  'video/*',
+  'application/pdf',
+  'text/plain',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.recordare.musicxml',
+  'application/vnd.recordare.musicxml+xml',
+  'application/xml',
+  'text/xml',
+]
+
+export function isChatFileType(type: unknown): type is string {
+  if (typeof type !== 'string' || !type) return false
+  return CHAT_FILE_TYPES.some(allowed =>
+    allowed.endsWith('/*') ? type.startsWith(allowed.slice(0, -1)) : type === allowed
+  )
+}
+
+export interface LessonChatAttachment {
+  name: string
+  type: string | null
+  size: number | null
+  /** Stable link through the API, which redirects to a short-lived signed URL */
+  url: string
+}
+
+export interface LessonChatMessage {
+  id: string
+  senderId: string | null
+  senderName: string
+  body: string
+  attachment: LessonChatAttachment | null
+  createdAt: string
+  pinnedAt: string | null
+}
+
+/** A search hit, with the class it was sent in */
+export interface LessonChatSearchResult extends LessonChatMessage {
+  classStartedAt: string
+  archiveId: string | null
+}
+
+/** Combine two lists of messages, dropping duplicates by id, oldest first */
+export function mergeChatMessages(a: LessonChatMessage[], b: LessonChatMessage[]): LessonChatMessage[] {
+  const byId = new Map<string, LessonChatMessage>()
+  for (const message of [...a, ...b]) byId.set(message.id, message)
+  return Array.from(byId.values()).sort((x, y) => x.createdAt.localeCompare(y.createdAt))
+}
+
+export function chatFileUrl(bookingId: string, messageId: string): string {
+  return `/api/lessons/${bookingId}/chat/${messageId}/file`
+}
+
+const URL_PATTERN = /https?:\/\/[^\s<>"']+/g
+
+// "see https://example.com." - the full stop isn't part of the link
+function trimLink(match: string): string {
+  return match.replace(/[.,;:!?)\]]+$/, '')
+}
+
+/** http(s) links in a message body */
+export function extractLinks(text: string): string[] {
+  return Array.from(text.matchAll(URL_PATTERN), match => trimLink(match[0]))
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/** Message text split into plain runs and links, for rendering */
+export function linkParts(text: string): { text: string; href?: string }[] {
+  const parts: { text: string; href?: string }[] = []
+  let last = 0
+  for (const match of text.matchAll(URL_PATTERN)) {
+    const url = trimLink(match[0])
+    const start = match.index ?? 0
+    if (start > last) parts.push({ text: text.slice(last, start) })
+    parts.push({ text: url, href: url })
+    last = start + url.length
+  }
+  if (last < text.length) parts.push({ text: text.slice(last) })
+  return parts
+}
+
+function linkHtml(href: string, label: string): string {
+  return `<a href="${escapeHtml(href)}" target="_blank" rel="noopener noreferrer">${escapeHtml(label)}</a>`
+}
+
+function attachmentHtml(attachment: LessonChatAttachment): string {
+  return linkHtml(attachment.url, attachment.name)
+}
+
+function formatChatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+}
+
+/** The block a pinned message becomes in the shared lesson notes */
+export function chatMessageToNoteHtml(message: LessonChatMessage): string {
+  const parts = [`<strong>${escapeHtml(message.senderName)}</strong> (${formatChatTime(message.createdAt)}):`]
+  if (message.body) {
+    parts.push(linkParts(message.body).map(part => part.href ? linkHtml(part.href, part.text) : escapeHtml(part.text)).join(''))
+  }
+  if (message.attachment) parts.push(attachmentHtml(message.attachment))
+  return `<blockquote><p>${parts.join(' ')}</p></blockquote><p></p>`
+}
+
+/**
+ * "Shared in chat" section appended to a class's archived notes, listing
+ * every link and file sent during the class. Empty when nothing was shared.
+ */
+export function sharedInChatHtml(messages: LessonChatMessage[]): { html: string; text: string } {
+  const items: { html: string; text: string }[] = []
+  const seenLinks = new Set<string>()
+
+  for (const message of messages) {
+    if (message.attachment) {
+      items.push({
+        html: `<li>${attachmentHtml(message.attachment)} (from ${escapeHtml(message.senderName)})</li>`,
+        text: `- ${message.attachment.name} (from ${message.senderName})`,
+      })
+    }
+    for (const link of extractLinks(message.body)) {
+      if (seenLinks.has(link)) continue
+      seenLinks.add(link)
+      items.push({
+        html: `<li>${linkHtml(link, link)} (from ${escapeHtml(message.senderName)})</li>`,
+        text: `- ${link} (from ${message.senderName})`,
+      })
+    }
+  }
+
+  if (items.length === 0) return { html: '', text: '' }
+  return {
+    html: `<h3>Shared in chat</h3><ul>${items.map(item => item.html).join('')}</ul>`,
+    text: ['Shared in chat', ...items.map(item => item.text)].join('\n'),
+  }
+}
+
+/** Row shape from lesson_chat_messages, as selected by the chat API */
+export interface LessonChatRow {
+  id: string
+  sender_id: string | null
+  sender_name: string
+  body: string
+  attachment_path: string | null
+  attachment_name: string | null
+  attachment_type: string | null
+  attachment_size: number | null
+  created_at: string
+  pinned_at: string | null
+}
+
+export function chatMessageFromRow(bookingId: string, row: LessonChatRow): LessonChatMessage {
+  return {
+    id: row.id,
+    senderId: row.sender_id,
+    senderName: row.sender_name,
+    body: row.body,
+    attachment: row.attachment_path
+      ? {
+          name: row.attachment_name || 'File',
+          type: row.attachment_type,
+          size: row.attachment_size,
+          url: chatFileUrl(bookingId, row.id),
+        }
+      : null,
+    createdAt: row.created_at,
+    pinnedAt: row.pinned_at,
+  }
+}
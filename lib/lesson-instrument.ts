@@ -0,0 +1,377 @@
+/**
+ * The lesson room's built-in instrument: a synthesized keyboard and a
+ * tanpura-style drone the teacher plays in class.
+ *
+ * It plays into its own MediaStream, which the lesson room sends to every
+ * peer as a separate audio track (not through the microphone, so music
+ * mode, echo cancellation and mute don't touch it) and mixes into the
+ * recording. The teacher hears it locally through the speakers. What is
+ * played also goes out as 'instrument' signaling messages, so the student's
+ * screen can show which note it was.
+ *
+ * The tonic (Sa) is the student's reference pitch, set by the teacher and
+ * saved on the student's profile so the pitch trainers can start from it.
+ */
+
+import { NOTE_STRINGS_ASCII, getStandardFrequency, noteIndex } from '@/lib/pitch-detection'
+
+export interface Tonic {
+  /** ASCII note name, as the trainers' rootNote settings use */
+  note: string
+  octave: number
+}
+
+export const DEFAULT_TONIC: Tonic = { note: 'C', octave: 4 }
+export const TONIC_OCTAVES = [2, 3, 4, 5] as const
+
+/**
+ * Tanpura tunings name the first string: Pa, Ma or Ni of the lower octave,
+ * then two middle Sa strings and a low Sa. 'sustained' holds Sa and Pa
+ * instead of plucking.
+ */
+export type DronePattern = 'pa' | 'ma' | 'ni' | 'sustained'
+
+export const DRONE_PATTERNS: { value: DronePattern; label: string }[] = [
+  { value: 'pa', label: 'Tanpura (Pa)' },
+  { value: 'ma', label: 'Tanpura (Ma)' },
+  { value: 'ni', label: 'Tanpura (Ni)' },
+  { value: 'sustained', label: 'Sustained Sa-Pa' },
+]
+
+/** Semitones below the tonic of each tuning's first string */
+const FIRST_STRING_OFFSET: Record<Exclude<DronePattern, 'sustained'>, number> = { pa: -5, ma: -7, ni: -1 }
+
+export type InstrumentEvent =
+  | { type: 'note'; midi: number; on: boolean }
+  | { type: 'drone'; on: boolean; tonic: Tonic; pattern: DronePattern }
+  | { type: 'tonic'; tonic: Tonic }
+
+/** What a participant needs to know on joining mid-class */
+export interface InstrumentState {
+  tonic: Tonic
+  drone: { on: boolean; pattern: DronePattern }
+}
+
+/** What the instrument panel shows, built up from events */
+export interface InstrumentView {
+  /** null until the teacher's instrument or the saved profile says */
+  tonic: Tonic | null
+  drone: { on: boolean; pattern: DronePattern }
+  activeNotes: number[]
+  lastNote: number | null
+}
+
+export const EMPTY_INSTRUMENT_VIEW: InstrumentView = {
+  tonic: null,
+  drone: { on: false, pattern: 'pa' },
+  activeNotes: [],
+  lastNote: null,
+}
+
+type Listener = (event: InstrumentEvent) => void
+
+/** Anything whose instrument events the panel can follow */
+export interface InstrumentFeed {
+  onEvent(listener: Listener): () => void
+}
+
+/**
+ * The students' side: VideoWebRTC hands over the events that arrive over
+ * signaling, and the panel follows them as it would the instrument itself.
+ */
+export function createInstrumentFeed(): InstrumentFeed & { emit: Listener } {
+  const listeners = new Set<Listener>()
+  return {
+    emit: (event) => listeners.forEach(listener => listener(event)),
+    onEvent: (listener) => {
+      listeners.add(listener)
+      return () => { listeners.delete(listener) }
+    },
+  }
+}
+
+export function applyInstrumentEvent(view: InstrumentView, event: InstrumentEvent): InstrumentView {
+  switch (event.type) {
+    case 'note':
+      return event.on
+        ? { ...view, activeNotes: [...view.activeNotes.filter(n => n !== event.midi), event.midi], lastNote: event.midi }
+        : { ...view, activeNotes: view.activeNotes.filter(n => n !== event.midi) }
+    case 'drone':
+      return { ...view, tonic: event.tonic, drone: { on: event.on, pattern: event.pattern } }
+    case 'tonic':
+      return { ...view, tonic: event.tonic }
+  }
+}
+
+const SARGAM = ['Sa', 're', 'Re', 'ga', 'Ga', 'Ma', 'Ma♯', 'Pa', 'dha', 'Dha', 'ni', 'Ni']
+
+export function isValidTonic(value: unknown): value is Tonic {
+  if (!value || typeof value !== 'object') return false
+  const tonic = value as Record<string, unknown>
+  return (
+    typeof tonic.note === 'string' &&
+    (NOTE_STRINGS_ASCII as readonly string[]).includes(tonic.note) &&
+    typeof tonic.octave === 'number' &&
+    (TONIC_OCTAVES as readonly number[]).includes(tonic.octave)
+  )
+}
+
+export function tonicMidi(tonic: Tonic): number {
+  return (tonic.octave + 1) * 12 + NOTE_STRINGS_ASCII.indexOf(tonic.note as (typeof NOTE_STRINGS_ASCII)[number])
+}
+
+/** e.g. "D4" */
+export function midiName(midi: number): string {
+  return `${NOTE_STRINGS_ASCII[noteIndex(midi)]}${Math.floor(midi / 12) - 1}`
+}
+
+/** The note's swara relative to the tonic, lowercase for komal */
+export function sargamName(midi: number, tonic: Tonic): string {
+  return SARGAM[noteIndex(midi - tonicMidi(tonic))]
+}
+
+const MASTER_GAIN = 0.8
+const PLUCK_INTERVAL_S = 1.2
+/** Schedule this far ahead so timer jitter doesn't gap the drone */
+const DRONE_LOOKAHEAD_S = 0.3
+
+/**
+ * One per lesson room, created by the teacher's SessionView. Nothing touches
+ * Web Audio until the stream is first asked for, so it can be constructed
+ * during render.
+ */
+export class LessonInstrument implements InstrumentFeed {
+  private ctx: AudioContext | null = null
+  private master: GainNode | null = null
+  private output: MediaStreamAudioDestinationNode | null = null
+  private voices = new Map<number, { gain: GainNode; oscillators: OscillatorNode[] }>()
+  private droneTimer: ReturnType<typeof setInterval> | null = null
+  private droneNodes: { gain: GainNode; oscillators: OscillatorNode[] } | null = null
+  private nextPluckAt = 0
+  private pluckIndex = 0
+  private listeners = new Set<Listener>()
+
+  tonic: Tonic = DEFAULT_TONIC
+  drone: { on: boolean; pattern: DronePattern } = { on: false, pattern: 'pa' }
+
+  /** The stream the lesson room sends; silent until something is played */
+  getStream(): MediaStream {
+    return this.context().output.stream
+  }
+
+  getState(): InstrumentState {
+    return { tonic: this.tonic, drone: { ...this.drone } }
+  }
+
+  onEvent(listener: Listener): () => void {
+    this.listeners.add(listener)
+    return () => { this.listeners.delete(listener) }
+  }
+
+  setVolume(volume: number) {
+    if (this.master && this.ctx) {
+      this.master.gain.setTargetAtTime(MASTER_GAIN * Math.max(0, Math.min(1, volume)), this.ctx.currentTime, 0.02)
+    }
+  }
+
+  setTonic(tonic: Tonic) {
+    this.tonic = tonic
+    this.emit({ type: 'tonic', tonic })
+    if (this.drone.on) this.startDrone(this.drone.pattern)
+  }
+
+  noteOn(midi: number) {
+    const { ctx, master } = this.context()
+    void ctx.resume()
+    this.releaseVoice(midi, 0.02)
+
+    const frequency = getStandardFrequency(midi)
+    const now = ctx.currentTime
+    // Higher strings ring for less time, as on a piano
+    const decay = Math.max(0.8, 3 - (midi - 48) * 0.04)
+
+    const gain = ctx.createGain()
+    gain.gain.setValueAtTime(0, now)
+    gain.gain.linearRampToValueAtTime(0.35, now + 0.005)
+    gain.gain.exponentialRampToValueAtTime(0.12, now + 0.25)
+    gain.gain.exponentialRampToValueAtTime(0.0001, now + decay)
+    gain.connect(master)
+
+    const partials: [OscillatorType, number, number][] = [
+      ['triangle', 1, 1],
+      ['sine', 2, 0.35],
+      ['sine', 3, 0.12],
+    ]
+    const oscillators = partials.map(([type, multiple, level]) => {
+      const osc = ctx.createOscillator()
+      const partialGain = ctx.createGain()
+      osc.type = type
+      // A hair of inharmonicity keeps it from sounding like an organ
+      osc.frequency.value = frequency * multiple * (1 + (multiple - 1) * 0.0008)
+      partialGain.gain.value = level
+      osc.connect(partialGain).connect(gain)
+      osc.start(now)
+      osc.stop(now + decay + 0.05)
+      return osc
+    })
+
+    this.voices.set(midi, { gain, oscillators })
+    oscillators[0].onended = () => {
+      if (this.voices.get(midi)?.gain === gain) this.voices.delete(midi)
+      gain.disconnect()
+    }
+    this.emit({ type: 'note', midi, on: true })
+  }
+
+  noteOff(midi: number) {
+    this.releaseVoice(midi, 0.15)
+    this.emit({ type: 'note', midi, on: false })
+  }
+
+  startDrone(pattern: DronePattern) {
+    this.stopDroneNodes()
+    const { ctx, master } = this.context()
+    void ctx.resume()
+    this.drone = { on: true, pattern }
+
+    // Everything the drone plays goes through one gain, so stopping fades it all
+    const gain = ctx.createGain()
+    gain.connect(master)
+    this.droneNodes = { gain, oscillators: [] }
+
+    if (pattern === 'sustained') {
+      this.startSustainedDrone(gain)
+    } else {
+      this.pluckIndex = 0
+      this.nextPluckAt = ctx.currentTime + 0.05
+      this.scheduleDrone()
+      this.droneTimer = setInterval(() => this.scheduleDrone(), 100)
+    }
+    this.emit({ type: 'drone', on: true, tonic: this.tonic, pattern })
+  }
+
+  stopDrone() {
+    this.stopDroneNodes()
+    this.drone = { ...this.drone, on: false }
+    this.emit({ type: 'drone', on: false, tonic: this.tonic, pattern: this.drone.pattern })
+  }
+
+  close() {
+    this.stopDroneNodes()
+    this.ctx?.close().catch(() => {})
+    this.ctx = null
+    this.master = null
+    this.output = null
+    this.voices.clear()
+  }
+
+  private context() {
+    if (!this.ctx || !this.master || !this.output) {
+      this.ctx = new AudioContext()
+      this.master = this.ctx.createGain()
+      this.master.gain.value = MASTER_GAIN
+      this.output = this.ctx.createMediaStreamDestination()
+      this.master.connect(this.output)
+      // The teacher hears it too
+      this.master.connect(this.ctx.destination)
+    }
+    return { ctx: this.ctx, master: this.master, output: this.output }
+  }
+
+  private emit(event: InstrumentEvent) {
+    this.listeners.forEach(listener => listener(event))
+  }
+
+  private releaseVoice(midi: number, release: number) {
+    const voice = this.voices.get(midi)
+    if (!voice || !this.ctx) return
+    const now = this.ctx.currentTime
+    voice.gain.gain.cancelScheduledValues(now)
+    voice.gain.gain.setTargetAtTime(0, now, release / 3)
+    voice.oscillators.forEach(osc => {
+      try { osc.stop(now + release) } catch { /* already stopped */ }
+    })
+    this.voices.delete(midi)
+  }
+
+  private scheduleDrone() {
+    if (!this.ctx || this.drone.pattern === 'sustained') return
+    const sa = tonicMidi(this.tonic)
+    // The four strings, in playing order
+    const strings = [sa + FIRST_STRING_OFFSET[this.drone.pattern], sa, sa, sa - 12]
+    const output = this.droneNodes?.gain
+    if (!output) return
+    while (this.nextPluckAt < this.ctx.currentTime + DRONE_LOOKAHEAD_S) {
+      this.pluck(strings[this.pluckIndex % strings.length] - 12, this.nextPluckAt, output)
+      this.pluckIndex++
+      this.nextPluckAt += PLUCK_INTERVAL_S
+    }
+  }
+
+  // A tanpura string: bright, buzzing attack that mellows as it rings
+  private pluck(midi: number, at: number, output: GainNode) {
+    const { ctx } = this.context()
+    const frequency = getStandardFrequency(midi)
+    const ring = PLUCK_INTERVAL_S * 4
+
+    const filter = ctx.createBiquadFilter()
+    filter.type = 'lowpass'
+    filter.frequency.setValueAtTime(frequency * 10, at)
+    filter.frequency.exponentialRampToValueAtTime(frequency * 3, at + ring)
+
+    const gain = ctx.createGain()
+    gain.gain.setValueAtTime(0, at)
+    gain.gain.linearRampToValueAtTime(0.12, at + 0.02)
+    gain.gain.exponentialRampToValueAtTime(0.0001, at + ring)
+    filter.connect(gain).connect(output)
+
+    // Two slightly detuned saws stand in for the jawari's shimmer
+    ;[1, 1.0015].forEach(detune => {
+      const osc = ctx.createOscillator()
+      osc.type = 'sawtooth'
+      osc.frequency.value = frequency * detune
+      osc.connect(filter)
+      osc.start(at)
+      osc.stop(at + ring)
+      osc.onended = () => osc.disconnect()
+    })
+    setTimeout(() => gain.disconnect(), (at - ctx.currentTime + ring + 0.1) * 1000)
+  }
+
+  private startSustainedDrone(output: GainNode) {
+    const { ctx } = this.context()
+    const sa = tonicMidi(this.tonic) - 12
+    const now = ctx.currentTime
+
+    output.gain.setValueAtTime(0, now)
+    output.gain.linearRampToValueAtTime(0.1, now + 1)
+
+    const oscillators = [sa, sa + 7, sa + 12].map(midi => {
+      const osc = ctx.createOscillator()
+      osc.type = 'triangle'
+      osc.frequency.value = getStandardFrequency(midi)
+      osc.connect(output)
+      osc.start(now)
+      return osc
+    })
+    this.droneNodes = { gain: output, oscillators }
+  }
+
+  private stopDroneNodes() {
+    if (this.droneTimer) {
+      clearInterval(this.droneTimer)
+      this.droneTimer = null
+    }
+    if (this.droneNodes && this.ctx) {
+      const { gain, oscillators } = this.droneNodes
+      const now = this.ctx.currentTime
+      gain.gain.cancelScheduledValues(now)
+      gain.gain.setTargetAtTime(0, now, 0.2)
+      oscillators.forEach(osc => {
+        try { osc.stop(now + 1) } catch { /* already stopped */ }
+      })
+      setTimeout(() => gain.disconnect(), 1200)
+    }
+    this.droneNodes = null
+  }
+}
@@ -0,0 +1,283 @@
+/**
+ * Lesson occurrences: the concrete lessons a booking's weekly slot produces.
+ *
+ * A booking still stores one recurring slot (lesson_day_of_week, lesson_time,
+ * lesson_timezone). Expanding that slot gives the default occurrences;
+ * lesson_occurrences rows record what differs from it:
+ *
+ *   kind 'recurring'  overrides the slot at original_starts_at
+ *                     - status 'cancelled'            -> skipped week
+ *                     - starts_at <> original_starts_at -> moved lesson
+ *   kind 'extra'      a one-off lesson outside the weekly rule (makeup, intensive)
+ *
+ * Only exceptions are stored, so the weekly rule keeps producing lessons
+ * indefinitely without materialising rows. Writes go through
+ * /api/lessons/[relationshipId]/occurrences/* so the teacher's cancellation
+ * window is enforced for students.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz'
+
+export const DEFAULT_LESSON_TIMEZONE = 'America/New_York'
+export const DEFAULT_LESSON_DURATION_MINUTES = 60
+export const DEFAULT_CANCELLATION_WINDOW_HOURS = 24
+
+export interface RecurringBooking {
+  id: string
+  instructor_id: string
+  student_id: string
+  lesson_day_of_week: number | null
+  lesson_time: string | null
+  lesson_duration_minutes: number | null
+  lesson_timezone: string | null
+  /** First lesson of the current weekly slot, when set by self-booking. */
+  schedule_starts_at?: string | null
+  created_at: string
+}
+
+export const RECURRING_BOOKING_COLUMNS =
+  'id, instructor_id, student_id, lesson_day_of_week, lesson_time, lesson_duration_minutes, lesson_timezone, schedule_starts_at, created_at'
+
+export interface LessonOccurrenceRow {
+  id: string
+  booking_id: string
+  kind: 'recurring' | 'extra'
+  original_starts_at: string | null
+  starts_at: string
+  duration_minutes: number
+  status: 'scheduled' | 'cancelled'
+  reason: string | null
+  cancelled_at: string | null
+  cancelled_by: string | null
+  updated_by: string | null
+}
+
+export interface LessonOccurrence {
+  bookingId: string
+  /** Set when an exception row exists for this occurrence. */
+  occurrenceId: string | null
+  kind: 'recurring' | 'extra'
+  /** The weekly slot this occurrence came from; null for extra lessons. */
+  originalStartsAt: string | null
+  startsAt: string
+  durationMinutes: number
+  status: 'scheduled' | 'cancelled'
+  isRescheduled: boolean
+  reason: string | null
+}
+
+/** How the API addresses one occurrence: by exception row, or by weekly slot. */
+export interface OccurrenceRef {
+  occurrenceId?: string | null
+  originalStartsAt?: string | null
+}
+
+function toIso(value: string | Date): string {
+  return new Date(value).toISOString()
+}
+
+function localDateAfter(date: string): string {
+  const next = new Date(`${date}T12:00:00Z`)
+  next.setUTCDate(next.getUTCDate() + 1)
+  return next.toISOString().slice(0, 10)
+}
+
+/** Start instants of the booking's weekly slot in [from, to). */
+export function expandWeeklySlot(booking: RecurringBooking, from: Date, to: Date): Date[] {
+  if (booking.lesson_day_of_week === null || !booking.lesson_time) return []
+
+  const timeZone = booking.lesson_timezone || DEFAULT_LESSON_TIMEZONE
+  const time = booking.lesson_time.slice(0, 5)
+  const notBefore = Math.max(
+    from.getTime(),
+    new Date(booking.created_at).getTime(),
+    booking.schedule_starts_at ? new Date(booking.schedule_starts_at).getTime() : 0
+  )
+  const lastDate = formatInTimeZone(to, timeZone, 'yyyy-MM-dd')
+
+  const starts: Date[] = []
+  for (
+    let date = formatInTimeZone(new Date(notBefore), timeZone, 'yyyy-MM-dd');
+    date <= lastDate;
+    date = localDateAfter(date)
+  ) {
+    if (new Date(`${date}T12:00:00Z`).getUTCDay() !== booking.lesson_day_of_week) continue
+
+    const start = fromZonedTime(`${date}T${time}:00`, timeZone)
+    if (start.getTime() >= notBefore && start < to) starts.push(start)
+  }
+  return starts
+}
+
+/** Whether `startsAt` is one of the booking's current weekly slots. */
+export function isWeeklySlot(booking: RecurringBooking, startsAt: string | Date): boolean {
+  const instant = new Date(startsAt)
+  return expandWeeklySlot(booking, new Date(instant.getTime() - 60 * 1000), new Date(instant.getTime() + 60 * 1000))
+    .some((slot) => slot.getTime() === instant.getTime())
+}
+
+function occurrenceFromRow(row: LessonOccurrenceRow): LessonOccurrence {
+  return {
+    bookingId: row.booking_id,
+    occurrenceId: row.id,
+    kind: row.kind,
+    originalStartsAt: row.original_starts_at ? toIso(row.original_starts_at) : null,
+    startsAt: toIso(row.starts_at),
+    durationMinutes: row.duration_minutes,
+    status: row.status,
+    isRescheduled:
+      row.kind === 'recurring' && !!row.original_starts_at && toIso(row.original_starts_at) !== toIso(row.starts_at),
+    reason: row.reason,
+  }
+}
+
+/**
+ * Merge the weekly slot with its exception rows for [from, to). Cancelled
+ * lessons are kept (at their original time) so calendars can show them.
+ * Cancellations of slots that no longer exist, because the weekly schedule
+ * changed, are dropped; moved and extra lessons are kept regardless.
+ */
+export function buildOccurrences(
+  booking: RecurringBooking,
+  rows: LessonOccurrenceRow[],
+  from: Date,
+  to: Date
+): LessonOccurrence[] {
+  const duration = booking.lesson_duration_minutes || DEFAULT_LESSON_DURATION_MINUTES
+  const overridden = new Set(
+    rows.filter((row) => row.kind === 'recurring' && row.original_starts_at).map((row) => toIso(row.original_starts_at!))
+  )
+  const inRange = (iso: string) => {
+    const time = new Date(iso).getTime()
+    return time >= from.getTime() && time < to.getTime()
+  }
+
+  const occurrences: LessonOccurrence[] = expandWeeklySlot(booking, from, to)
+    .filter((slot) => !overridden.has(slot.toISOString()))
+    .map((slot) => ({
+      bookingId: booking.id,
+      occurrenceId: null,
+      kind: 'recurring' as const,
+      originalStartsAt: slot.toISOString(),
+      startsAt: slot.toISOString(),
+      durationMinutes: duration,
+      status: 'scheduled' as const,
+      isRescheduled: false,
+      reason: null,
+    }))
+
+  for (const row of rows) {
+    const occurrence = occurrenceFromRow(row)
+
+    if (occurrence.status === 'cancelled') {
+      const shownAt = occurrence.originalStartsAt ?? occurrence.startsAt
+      const isStale = row.kind === 'recurring' && !isWeeklySlot(booking, shownAt)
+      if (inRange(shownAt) && !isStale) {
+        occurrences.push({ ...occurrence, startsAt: shownAt })
+      }
+    } else if (inRange(occurrence.startsAt)) {
+      occurrences.push(occurrence)
+    }
+  }
+
+  return occurrences.sort((a, b) => a.startsAt.localeCompare(b.startsAt))
+}
+
+/** Occurrences in [from, to) for several bookings, one query for all exceptions. */
+export async function loadLessonOccurrences(
+  supabase: SupabaseClient,
+  bookings: RecurringBooking[],
+  from: Date,
+  to: Date
+): Promise<LessonOccurrence[]> {
+  if (bookings.length === 0) return []
+
+  const fromIso = from.toISOString()
+  const toIsoStr = to.toISOString()
+
+  const { data: rows, error } = await supabase
+    .from('lesson_occurrences')
+    .select('*')
+    .in('booking_id', bookings.map((b) => b.id))
+    .or(
+      `and(starts_at.gte.${fromIso},starts_at.lt.${toIsoStr}),and(original_starts_at.gte.${fromIso},original_starts_at.lt.${toIsoStr})`
+    )
+
+  if (error) {
+    console.error('[LessonOccurrences] Error loading exceptions:', error)
+  }
+
+  const rowsByBooking = new Map<string, LessonOccurrenceRow[]>()
+  for (const row of (rows as LessonOccurrenceRow[] | null) || []) {
+    rowsByBooking.set(row.booking_id, [...(rowsByBooking.get(row.booking_id) || []), row])
+  }
+
+  return bookings
+    .flatMap((booking) => buildOccurrences(booking, rowsByBooking.get(booking.id) || [], from, to))
+    .sort((a, b) => a.startsAt.localeCompare(b.startsAt))
+}
+
+/**
+ * Find the occurrence a request refers to. Weekly slots without an exception
+ * row are validated against the booking's schedule so arbitrary timestamps
+ * cannot be "cancelled" into existence.
+ */
+export async function resolveOccurrence(
+  supabase: SupabaseClient,
+  booking: RecurringBooking,
+  ref: OccurrenceRef
+): Promise<{ row: LessonOccurrenceRow | null; occurrence: LessonOccurrence } | null> {
+  if (ref.occurrenceId) {
+    const { data: row } = await supabase
+      .from('lesson_occurrences')
+      .select('*')
+      .eq('id', ref.occurrenceId)
+      .eq('booking_id', booking.id)
+      .maybeSingle()
+
+    return row ? { row: row as LessonOccurrenceRow, occurrence: occurrenceFromRow(row as LessonOccurrenceRow) } : null
+  }
+
+  if (!ref.originalStartsAt || Number.isNaN(new Date(ref.originalStartsAt).getTime())) return null
+  const originalStartsAt = toIso(ref.originalStartsAt)
+
+  const { data: existing } = await supabase
+    .from('lesson_occurrences')
+    .select('*')
+    .eq('booking_id', booking.id)
+    .eq('kind', 'recurring')
+    .eq('original_starts_at', originalStartsAt)
+    .maybeSingle()
+
+  if (existing) {
+    return { row: existing as LessonOccurrenceRow, occurrence: occurrenceFromRow(existing as LessonOccurrenceRow) }
+  }
+
+  if (!isWeeklySlot(booking, originalStartsAt)) return null
+
+  return {
+    row: null,
+    occurrence: {
+      bookingId: booking.id,
+      occurrenceId: null,
+      kind: 'recurring',
+      originalStartsAt,
+      startsAt: originalStartsAt,
+      durationMinutes: booking.lesson_duration_minutes || DEFAULT_LESSON_DURATION_MINUTES,
+      status: 'scheduled',
+      isRescheduled: false,
+      reason: null,
+    },
+  }
+}
+
+/** Whether a student may still cancel or move a lesson starting at `startsAt`. */
+export function isOutsideCancellationWindow(
+  startsAt: string,
+  windowHours: number | null | undefined,
+  now: Date = new Date()
+): boolean {
+  const hours = windowHours ?? DEFAULT_CANCELLATION_WINDOW_HOURS
+  return new Date(startsAt).getTime() - now.getTime() >= hours * 60 * 60 * 1000
+}
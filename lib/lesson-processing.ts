@@ -25,10 +25,30 @@
  *      which never matched because the notes_archive FK pointed at the wrong
  *      table. We now look up by recording_id and fall back to booking_id, so
  *      context works even when linking has not happened yet.
+ *
+ * Recordings above MAX_TRANSCRIBABLE_BYTES used to be failed outright, which
+ * meant every full-length lesson with video got no summary. They are now cut
+ * into overlapping audio chunks (lib/audio-chunks.ts) and transcribed one
+ * chunk at a time. Progress is written after every chunk, so when a run dies
+ * part-way (function timeout, Whisper outage) the next attempt carries on from
+ * the first untranscribed chunk.
+ *
+ * Recordings made with the audio-only track (audio_storage_path) are
+ * transcribed from that instead of the video. It is a fraction of the size,
+ * so a typical lesson goes to Whisper in one request with no ffmpeg pass.
  */
 
 import type { SupabaseClient } from '@supabase/supabase-js'
 import { transcribeAudio, generateLessonSummary, type LessonSummary } from '@/lib/openai'
+import {
+  CHUNK_SECONDS,
+  OVERLAP_SECONDS,
+  extractAudio,
+  placeChunkSegments,
+  planChunks,
+  segmentsToText,
+  type TranscriptSegment,
+} from '@/lib/audio-chunks'
 
 /**
  * Minimum transcript length we will summarise.
@@ -40,7 +60,7 @@ import { transcribeAudio, generateLessonSummary, type LessonSummary } from '@/li
  */
 export const MIN_USABLE_TRANSCRIPT_CHARS = 200
 
-/** Whisper rejects files above 25MB. Checked before download to save bandwidth. */
+/** Whisper rejects files above 25MB. Anything larger is transcribed in chunks. */
 export const MAX_TRANSCRIBABLE_BYTES = 25 * 1024 * 1024
 
 export interface ProcessResult {
@@ -51,6 +71,15 @@ export interface ProcessResult {
   summary?: LessonSummary
 }
 
+/** Stored in lesson_recordings.transcription_progress while chunking. */
+interface TranscriptionProgress {
+  durationSeconds: number
+  chunkSeconds: number
+  overlapSeconds: number
+  totalChunks: number
+  completedChunks: number
+}
+
 interface ProcessOptions {
   /** Reprocess even when ai_processing_status is already 'completed'. */
   force?: boolean
@@ -158,6 +187,87 @@ async function fetchPreviousSummaries(
     .filter((s): s is string => typeof s === 'string' && s.length > 0)
 }
 
+/**
+ * Transcribe a recording too large for a single Whisper request, one chunk at
+ * a time, saving the stitched segments after each chunk.
+ *
+ * Resumes from `saved` when it was produced with the current chunk settings;
+ * a progress record from different settings would stitch at the wrong
+ * boundaries, so that starts over.
+ */
+async function transcribeInChunks(
+  admin: SupabaseClient,
+  recordingId: string,
+  buffer: Buffer,
+  saved: { progress: TranscriptionProgress | null; segments: TranscriptSegment[] | null }
+): Promise<TranscriptSegment[]> {
+  const resumable =
+    saved.progress &&
+    saved.progress.chunkSeconds === CHUNK_SECONDS &&
+    saved.progress.overlapSeconds === OVERLAP_SECONDS
+
+  let progress = resumable ? saved.progress : null
+  let segments = (resumable && saved.segments) || []
+
+  if (progress && progress.completedChunks >= progress.totalChunks) {
+    console.log(`[LessonProcessing] ${recordingId}: all ${progress.totalChunks} chunks already transcribed`)
+    return segments
+  }
+
+  const audio = await extractAudio(buffer)
+
+  try {
+    // Resume with the duration the saved chunks were planned against, so the
+    // remaining boundaries line up with the ones already stitched.
+    const durationSeconds = progress?.durationSeconds ?? audio.durationSeconds
+    const chunks = planChunks(durationSeconds)
+
+    if (!progress) {
+      progress = {
+        durationSeconds,
+        chunkSeconds: CHUNK_SECONDS,
+        overlapSeconds: OVERLAP_SECONDS,
+        totalChunks: chunks.length,
+        completedChunks: 0,
+      }
+      segments = []
+    }
+
+    console.log(
+      `[LessonProcessing] ${recordingId}: ${Math.round(durationSeconds)}s of audio in ${chunks.length} chunks, ` +
+      `starting at chunk ${progress.completedChunks + 1}`
+    )
+
+    for (const chunk of chunks.slice(progress.completedChunks)) {
+      const chunkBuffer = await audio.cutChunk(chunk)
+      const transcript = await transcribeAudio(chunkBuffer, `${recordingId}-${chunk.index}.mp3`, 'audio/mpeg')
+
+      // Whisper always returns segments for verbose_json; treat their absence
+      // as one segment spanning the chunk rather than losing the text.
+      const chunkSegments = transcript.segments ??
+        [{ start: 0, end: chunk.duration, text: transcript.text || '' }]
+
+      segments = [...segments, ...placeChunkSegments(chunk, chunkSegments)]
+      progress = { ...progress, completedChunks: chunk.index + 1 }
+
+      const { error } = await admin
+        .from('lesson_recordings')
+        .update({ transcript_segments: segments, transcription_progress: progress })
+        .eq('id', recordingId)
+
+      if (error) {
+        throw new Error(`Failed to save transcription progress: ${error.message}`)
+      }
+
+      console.log(`[LessonProcessing] ${recordingId}: chunk ${chunk.index + 1}/${chunks.length} transcribed`)
+    }
+
+    return segments
+  } finally {
+    await audio.cleanup()
+  }
+}
+
 /**
  * Download, transcribe and summarise one recording. Idempotent and safe to call
  * concurrently from multiple triggers.
@@ -171,7 +281,7 @@ export async function processRecording(
 
   const { data: recording, error: fetchError } = await admin
     .from('lesson_recordings')
-    .select('id, booking_id, student_id, storage_path, file_size_bytes, ai_processing_status')
+    .select('id, booking_id, student_id, storage_path, audio_storage_path, file_size_bytes, ai_processing_status, transcript_segments, transcription_progress')
     .eq('id', recordingId)
     .single()
 
@@ -188,31 +298,48 @@ export async function processRecording(
     return { recordingId, status: 'failed', reason: 'No storage path' }
   }
 
-  if (recording.file_size_bytes && recording.file_size_bytes > MAX_TRANSCRIBABLE_BYTES) {
-    const mb = (recording.file_size_bytes / 1024 / 1024).toFixed(1)
-    const reason = `Recording is ${mb}MB, above Whisper's 25MB limit. Needs audio extraction or chunking before transcription.`
-    await markFailed(admin, recordingId, reason)
-    return { recordingId, status: 'failed', reason }
-  }
-
   if (!(await claimRecording(admin, recordingId, force))) {
     return { recordingId, status: 'skipped', reason: 'Already claimed by another worker' }
   }
 
   try {
+    const sourcePath: string = recording.audio_storage_path || recording.storage_path
     const { data: file, error: downloadError } = await admin.storage
       .from('lesson-recordings')
-      .download(recording.storage_path)
+      .download(sourcePath)
 
     if (downloadError || !file) {
       throw new Error(`Download failed: ${downloadError?.message ?? 'unknown error'}`)
     }
 
     const buffer = Buffer.from(await file.arrayBuffer())
-    console.log(`[LessonProcessing] ${recordingId}: downloaded ${buffer.length} bytes`)
+    console.log(
+      `[LessonProcessing] ${recordingId}: downloaded ${buffer.length} bytes ` +
+      `(${recording.audio_storage_path ? 'audio track' : 'video'})`
+    )
+
+    let segments: TranscriptSegment[]
+    let transcriptText: string
+
+    if (buffer.length > MAX_TRANSCRIBABLE_BYTES) {
+      // A completed recording being reprocessed starts again from scratch;
+      // anything else picks up whatever chunks an earlier run finished.
+      const restart = recording.ai_processing_status === 'completed'
+      segments = await transcribeInChunks(admin, recordingId, buffer, {
+        progress: restart ? null : recording.transcription_progress,
+        segments: restart ? null : recording.transcript_segments,
+      })
+      transcriptText = segmentsToText(segments)
+    } else {
+      const transcript = await transcribeAudio(buffer, `${recordingId}.webm`)
+      segments = (transcript.segments ?? []).map(seg => ({
+        start: seg.start,
+        end: seg.end,
+        text: seg.text.trim(),
+      }))
+      transcriptText = (transcript.text || '').trim()
+    }
 
-    const transcript = await transcribeAudio(buffer, `${recordingId}.webm`)
-    const transcriptText = (transcript.text || '').trim()
     console.log(`[LessonProcessing] ${recordingId}: transcript ${transcriptText.length} chars`)
 
     // Sanity floor. Store the transcript we did get so the failure is
@@ -228,6 +355,7 @@ export async function processRecording(
         .from('lesson_recordings')
         .update({
           transcript: transcriptText || null,
+          transcript_segments: segments,
           ai_processing_status: 'failed',
           ai_processing_error: reason,
         })
@@ -251,6 +379,7 @@ export async function processRecording(
       .from('lesson_recordings')
       .update({
         transcript: transcriptText,
+        transcript_segments: segments,
         ai_summary: summary,
         ai_processing_status: 'completed',
         ai_processed_at: new Date().toISOString(),
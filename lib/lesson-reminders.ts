@@ -0,0 +1,356 @@
+/**
+ * Lesson reminders: email (SendGrid) and SMS (Telnyx) ahead of each lesson
+ * occurrence, run by /api/cron/send-lesson-reminders every few minutes.
+ *
+ * Each participant picks lead times (profiles.lesson_reminder_offsets, in
+ * minutes) and channels. On a run, the reminder due for an occurrence is the
+ * one with the smallest lead time that has already passed, so a missed run
+ * sends the 1-hour reminder rather than a stale "tomorrow" one. Quiet hours
+ * (in the recipient's timezone) defer the reminder to the first run after
+ * they end, as long as the lesson hasn't started.
+ *
+ * Every send is claimed in lesson_reminder_log first; the table's unique key
+ * on (booking, occurrence start, recipient, channel, lead time) means
+ * overlapping runs can never send the same reminder twice. A failed send is
+ * recorded and not retried.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { formatInTimeZone } from 'date-fns-tz'
+import { sendEmail } from '@/lib/sendgrid'
+import { sendSms } from '@/lib/telnyx-sms'
+import { replaceVariables } from '@/lib/email-variables'
+import { lessonRoomUrl } from '@/lib/calendar/lesson-calendar'
+import {
+  DEFAULT_LESSON_TIMEZONE,
+  RECURRING_BOOKING_COLUMNS,
+  loadLessonOccurrences,
+  type RecurringBooking,
+} from '@/lib/lesson-occurrences'
+
+export const DEFAULT_REMINDER_OFFSETS = [1440, 60]
+/** Matches the CHECK constraint on profiles.lesson_reminder_offsets */
+export const MAX_REMINDER_OFFSET_MINUTES = 7 * 24 * 60
+
+/** Cap per run so a large backlog cannot blow the function timeout. */
+const MAX_SENDS_PER_RUN = 50
+
+const REMINDER_TEMPLATE_CATEGORY = 'lesson_reminder'
+
+export type ReminderChannel = 'email' | 'sms'
+
+interface ReminderProfile {
+  id: string
+  first_name: string | null
+  last_name: string | null
+  name: string | null
+  phone: string | null
+  timezone: string | null
+  lesson_reminder_email: boolean | null
+  lesson_reminder_sms: boolean | null
+  lesson_reminder_offsets: number[] | null
+  quiet_hours_start: string | null
+  quiet_hours_end: string | null
+}
+
+const REMINDER_PROFILE_COLUMNS =
+  'id, first_name, last_name, name, phone, timezone, lesson_reminder_email, lesson_reminder_sms, lesson_reminder_offsets, quiet_hours_start, quiet_hours_end'
+
+interface ReminderTemplate {
+  subject: string
+  body: string
+  body_html: string | null
+}
+
+/** Used when no active 'lesson_reminder' email template exists. */
+const DEFAULT_TEMPLATE: ReminderTemplate = {
+  subject: 'Reminder: your voice lesson is {{lesson_starts_in}}',
+  body: [
+    'Hi {{lesson_first_name}},',
+    '',
+    'Your lesson with {{lesson_with_name}} is {{lesson_starts_in}}: {{lesson_date}} at {{lesson_time}} ({{lesson_duration}} minutes).',
+    '',
+    'Lesson room: {{lesson_room_url}}',
+    '',
+    'Change or turn off reminders: {{lesson_settings_url}}',
+  ].join('\n'),
+  body_html: `
+<div style="font-family: Georgia, 'Times New Roman', Times, serif; max-width: 560px; margin: 0 auto; color: #333;">
+  <p>Hi {{lesson_first_name}},</p>
+  <p>Your lesson with {{lesson_with_name}} is {{lesson_starts_in}}.</p>
+  <p style="font-size: 16px;"><strong>{{lesson_date}} at {{lesson_time}}</strong> &middot; {{lesson_duration}} minutes</p>
+  <p><a href="{{lesson_room_url}}" style="color: #9c8644;">Open the lesson room</a></p>
+  <p style="color: #777; font-size: 12px;"><a href="{{lesson_settings_url}}" style="color: #777;">Change or turn off lesson reminders</a></p>
+</div>`,
+}
+
+export interface ReminderRunResult {
+  sent: number
+  failed: number
+  /** Due but held back by quiet hours. */
+  deferred: number
+}
+
+function appUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || 'https://www.voicealchemyacademy.com'
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function displayName(profile: ReminderProfile | undefined, fallback: string): string {
+  return profile?.name || `${profile?.first_name || ''} ${profile?.last_name || ''}`.trim() || fallback
+}
+
+/**
+ * Whether `now` falls inside quiet hours, read as wall-clock times in
+ * `timeZone`. Handles overnight ranges such as 22:00-08:00.
+ */
+export function isInQuietHours(
+  start: string | null,
+  end: string | null,
+  timeZone: string,
+  now: Date = new Date()
+): boolean {
+  if (!start || !end) return false
+  const current = formatInTimeZone(now, timeZone, 'HH:mm:ss')
+  const from = start.length === 5 ? `${start}:00` : start
+  const until = end.length === 5 ? `${end}:00` : end
+  if (from === until) return false
+  return from > until ? current >= from || current < until : current >= from && current < until
+}
+
+/** The smallest lead time already reached for a lesson starting at `startsAt`, or null. */
+export function dueReminderOffset(offsets: number[], startsAt: Date, now: Date = new Date()): number | null {
+  const minutesUntil = (startsAt.getTime() - now.getTime()) / 60000
+  if (minutesUntil <= 0) return null
+  const due = offsets.filter((offset) => offset >= minutesUntil)
+  return due.length > 0 ? Math.min(...due) : null
+}
+
+function describeStartsIn(startsAt: Date, now: Date): string {
+  const minutes = Math.max(1, Math.round((startsAt.getTime() - now.getTime()) / 60000))
+  if (minutes < 60) return `in ${minutes} minute${minutes === 1 ? '' : 's'}`
+  const hours = Math.round(minutes / 60)
+  if (hours < 36) return `in ${hours} hour${hours === 1 ? '' : 's'}`
+  const days = Math.round(hours / 24)
+  return `in ${days} days`
+}
+
+function reminderKey(bookingId: string, startsAt: string, recipientId: string, channel: string, offset: number) {
+  return `${bookingId}|${new Date(startsAt).getTime()}|${recipientId}|${channel}|${offset}`
+}
+
+async function loadReminderTemplate(admin: SupabaseClient): Promise<ReminderTemplate> {
+  const { data } = await admin
+    .from('email_templates')
+    .select('subject, body, body_html')
+    .eq('category', REMINDER_TEMPLATE_CATEGORY)
+    .eq('is_active', true)
+    .eq('is_deleted', false)
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  return (data as ReminderTemplate | null) || DEFAULT_TEMPLATE
+}
+
+/** Claim one reminder. Returns the log row id, or null if another run already has it. */
+async function claimReminder(
+  admin: SupabaseClient,
+  row: { booking_id: string; occurrence_starts_at: string; recipient_id: string; channel: ReminderChannel; offset_minutes: number }
+): Promise<string | null> {
+  const { data, error } = await admin
+    .from('lesson_reminder_log')
+    .upsert(row, {
+      onConflict: 'booking_id,occurrence_starts_at,recipient_id,channel,offset_minutes',
+      ignoreDuplicates: true,
+    })
+    .select('id')
+
+  if (error) {
+    console.error('[LessonReminders] Failed to claim reminder:', error)
+    return null
+  }
+  return data?.[0]?.id ?? null
+}
+
+async function recordResult(admin: SupabaseClient, logId: string, error: string | null) {
+  await admin
+    .from('lesson_reminder_log')
+    .update(
+      error
+        ? { status: 'failed', error }
+        : { status: 'sent', sent_at: new Date().toISOString() }
+    )
+    .eq('id', logId)
+}
+
+/**
+ * Send every reminder that is due now. Safe to run concurrently and as often
+ * as every minute.
+ */
+export async function sendDueLessonReminders(admin: SupabaseClient, now: Date = new Date()): Promise<ReminderRunResult> {
+  const result: ReminderRunResult = { sent: 0, failed: 0, deferred: 0 }
+
+  const { data: bookingRows, error: bookingsError } = await admin
+    .from('bookings')
+    .select(RECURRING_BOOKING_COLUMNS)
+    .eq('status', 'confirmed')
+
+  if (bookingsError) {
+    console.error('[LessonReminders] Error loading bookings:', bookingsError)
+    throw bookingsError
+  }
+
+  const bookings = (bookingRows as RecurringBooking[] | null) || []
+  const until = new Date(now.getTime() + MAX_REMINDER_OFFSET_MINUTES * 60 * 1000)
+  const occurrences = (await loadLessonOccurrences(admin, bookings, now, until)).filter(
+    (o) => o.status === 'scheduled' && new Date(o.startsAt) > now
+  )
+  if (occurrences.length === 0) return result
+
+  const bookingsById = new Map(bookings.map((b) => [b.id, b]))
+  const participantIds = [...new Set(bookings.flatMap((b) => [b.instructor_id, b.student_id]))]
+
+  const { data: profileRows } = await admin.from('profiles').select(REMINDER_PROFILE_COLUMNS).in('id', participantIds)
+  const profiles = new Map(((profileRows as ReminderProfile[] | null) || []).map((p) => [p.id, p]))
+
+  // Reminders already handled for these lessons, so most runs make no writes at all
+  const { data: logRows } = await admin
+    .from('lesson_reminder_log')
+    .select('booking_id, occurrence_starts_at, recipient_id, channel, offset_minutes')
+    .in('booking_id', [...new Set(occurrences.map((o) => o.bookingId))])
+    .gte('occurrence_starts_at', now.toISOString())
+  const handled = new Set(
+    (logRows || []).map((r) => reminderKey(r.booking_id, r.occurrence_starts_at, r.recipient_id, r.channel, r.offset_minutes))
+  )
+
+  const emails = new Map<string, string | null>()
+  const emailFor = async (id: string) => {
+    if (!emails.has(id)) {
+      const { data } = await admin.auth.admin.getUserById(id)
+      emails.set(id, data.user?.email ?? null)
+    }
+    return emails.get(id) ?? null
+  }
+
+  let template: ReminderTemplate | null = null
+  let sends = 0
+
+  for (const occurrence of occurrences) {
+    const booking = bookingsById.get(occurrence.bookingId)
+    if (!booking) continue
+
+    for (const recipientId of [booking.student_id, booking.instructor_id]) {
+      if (sends >= MAX_SENDS_PER_RUN) return result
+
+      const recipient = profiles.get(recipientId)
+      if (!recipient) continue
+
+      const startsAt = new Date(occurrence.startsAt)
+      const offset = dueReminderOffset(recipient.lesson_reminder_offsets ?? DEFAULT_REMINDER_OFFSETS, startsAt, now)
+      if (offset === null) continue
+
+      const channels: ReminderChannel[] = []
+      if (recipient.lesson_reminder_email ?? true) channels.push('email')
+      if (recipient.lesson_reminder_sms && recipient.phone) channels.push('sms')
+
+      const pending = channels.filter(
+        (channel) => !handled.has(reminderKey(booking.id, occurrence.startsAt, recipientId, channel, offset))
+      )
+      if (pending.length === 0) continue
+
+      const timeZone = recipient.timezone || booking.lesson_timezone || DEFAULT_LESSON_TIMEZONE
+      if (isInQuietHours(recipient.quiet_hours_start, recipient.quiet_hours_end, timeZone, now)) {
+        result.deferred += pending.length
+        continue
+      }
+
+      const otherId = recipientId === booking.student_id ? booking.instructor_id : booking.student_id
+      const values = {
+        lesson_first_name: recipient.first_name || displayName(recipient, 'there').split(' ')[0],
+        lesson_with_name: displayName(
+          profiles.get(otherId),
+          recipientId === booking.student_id ? 'your teacher' : 'your student'
+        ),
+        lesson_date: formatInTimeZone(startsAt, timeZone, 'EEEE, MMMM d'),
+        lesson_time: formatInTimeZone(startsAt, timeZone, 'h:mm a zzz'),
+        lesson_starts_in: describeStartsIn(startsAt, now),
+        lesson_duration: String(occurrence.durationMinutes),
+        lesson_room_url: lessonRoomUrl(booking, recipientId),
+        lesson_settings_url: `${appUrl()}/dashboard/settings`,
+      }
+
+      for (const channel of pending) {
+        const logId = await claimReminder(admin, {
+          booking_id: booking.id,
+          occurrence_starts_at: occurrence.startsAt,
+          recipient_id: recipientId,
+          channel,
+          offset_minutes: offset,
+        })
+        if (!logId) continue
+        sends++
+
+        let error: string | null = null
+        if (channel === 'email') {
+          template ??= await loadReminderTemplate(admin)
+          error = await sendReminderEmail(await emailFor(recipientId), template, values)
+        } else {
+          error = await sendReminderSms(recipient.phone!, values)
+        }
+
+        await recordResult(admin, logId, error)
+        if (error) {
+          console.error(`[LessonReminders] ${channel} reminder failed for ${recipientId}:`, error)
+          result.failed++
+        } else {
+          result.sent++
+        }
+      }
+    }
+  }
+
+  return result
+}
+
+async function sendReminderEmail(
+  to: string | null,
+  template: ReminderTemplate,
+  values: Record<string, string>
+): Promise<string | null> {
+  if (!to) return 'No email address'
+
+  const htmlValues = Object.fromEntries(Object.entries(values).map(([key, value]) => [key, escapeHtml(value)]))
+  const text = replaceVariables(template.body, values)
+
+  try {
+    await sendEmail({
+      to: [{ email: to }],
+      from: {
+        email: process.env.SENDGRID_FROM_EMAIL || 'noreply@voicealchemyacademy.com',
+        name: 'Voice Alchemy Academy',
+      },
+      subject: replaceVariables(template.subject, values),
+      text,
+      html: template.body_html
+        ? replaceVariables(template.body_html, htmlValues)
+        : escapeHtml(text).replace(/\r?\n/g, '<br>'),
+    })
+    return null
+  } catch (err) {
+    return err instanceof Error ? err.message : 'Email send failed'
+  }
+}
+
+async function sendReminderSms(phone: string, values: Record<string, string>): Promise<string | null> {
+  const result = await sendSms({
+    to: phone,
+    body:
+      `Voice Alchemy: your lesson with ${values.lesson_with_name} is ${values.lesson_starts_in} ` +
+      `(${values.lesson_date}, ${values.lesson_time}). ${values.lesson_room_url} Reply STOP to opt out.`,
+  })
+  return result.success ? null : result.error || 'SMS send failed'
+}
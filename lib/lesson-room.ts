@@ -0,0 +1,76 @@
+/**
+ * Who belongs in a lesson room, for the API routes the room uses (chat, TURN
+ * credentials, the tonic, call quality and the lesson itself).
+ *
+ * The rule is the one lesson_room_role() applies to the room's Realtime
+ * channel (migration 20260803000008): the booking's teacher or an admin
+ * hosts, the booking's student is the student, and anyone the teacher added
+ * to lesson_observers watches. Routes decide what each role may do.
+ */
+
+import { NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase-server'
+import type { RoomRole } from '@/lib/webrtc-signaling'
+
+export interface LessonRoomBooking {
+  id: string
+  student_id: string
+  instructor_id: string
+}
+
+export type LessonRoomMember =
+  | { booking: LessonRoomBooking; userId: string; role: RoomRole }
+  | { error: NextResponse }
+
+/** The user's role in the booking's lesson room, or null if they don't belong */
+export async function lessonRoomRoleOf(
+  supabase: SupabaseClient,
+  booking: LessonRoomBooking,
+  user: { id: string; role?: string | null }
+): Promise<RoomRole | null> {
+  if (booking.instructor_id === user.id || user.role === 'admin') return 'host'
+  if (booking.student_id === user.id) return 'student'
+
+  const { data: observer } = await supabase
+    .from('lesson_observers')
+    .select('id')
+    .eq('booking_id', booking.id)
+    .eq('observer_id', user.id)
+    .maybeSingle()
+
+  return observer ? 'observer' : null
+}
+
+/** The signed-in user and their role in the booking's lesson room, or the error response to return */
+export async function requireLessonRoomMember(bookingId: string): Promise<LessonRoomMember> {
+  const supabase = await createClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { data: booking } = await supabase
+    .from('bookings')
+    .select('id, student_id, instructor_id')
+    .eq('id', bookingId)
+    .single()
+
+  if (!booking) {
+    return { error: NextResponse.json({ error: 'Booking not found' }, { status: 404 }) }
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('id, role')
+    .eq('id', user.id)
+    .single()
+
+  const role = await lessonRoomRoleOf(supabase, booking, { id: user.id, role: profile?.role })
+  if (!role) {
+    return { error: NextResponse.json({ error: 'Not a participant of this lesson' }, { status: 403 }) }
+  }
+
+  return { booking, userId: user.id, role }
+}
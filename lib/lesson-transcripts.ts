@@ -0,0 +1,189 @@
+/**
+ * Timestamped lesson transcripts: finding where things happened in a
+ * recording.
+ *
+ * The stitched Whisper segments are stored on lesson_recordings
+ * (transcript_segments, written by lib/lesson-processing.ts). Two things are
+ * derived from them here, without another model call:
+ *
+ *   - Summary moments. The summariser only sees flat text, so its bullets carry
+ *     no times. We place each bullet at the short run of segments sharing the
+ *     most of its keywords, and only when enough of them line up; a bullet
+ *     with no convincing match gets no link rather than a wrong one.
+ *
+ *   - Search hits. Postgres full-text search (transcript_search) picks the
+ *     recordings; the segments that contain the query terms give the times.
+ *
+ * Nothing here imports server-only code, so the transcript panel uses the same
+ * helpers.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { TranscriptSegment } from '@/lib/audio-chunks'
+import type { LessonSummary } from '@/lib/openai'
+
+export type { TranscriptSegment }
+
+/** Summary sections whose bullets describe something that happened in the lesson. */
+export const MOMENT_SECTIONS = [
+  'keyTopicsCovered',
+  'exercisesPracticed',
+  'teacherFeedback',
+  'homeworkAssignments',
+] as const
+
+export type MomentSection = (typeof MOMENT_SECTIONS)[number]
+
+export interface SummaryMoment {
+  section: MomentSection
+  /** Index of the bullet within its section */
+  index: number
+  /** Seconds from the start of the recording */
+  start: number
+}
+
+export interface TranscriptSearchHit {
+  start: number
+  text: string
+}
+
+export interface TranscriptSearchResult {
+  recordingId: string
+  bookingId: string | null
+  recordedAt: string
+  hits: TranscriptSearchHit[]
+}
+
+/** How many neighbouring segments a bullet may be spread over. */
+const MOMENT_WINDOW = 3
+const MAX_HITS_PER_RECORDING = 5
+const MAX_SEARCH_RESULTS = 20
+
+const STOPWORDS = new Set([
+  'about', 'after', 'again', 'also', 'been', 'before', 'being', 'between', 'both',
+  'could', 'does', 'doing', 'during', 'each', 'from', 'have', 'having', 'into',
+  'just', 'lesson', 'like', 'make', 'more', 'most', 'much', 'other', 'over',
+  'same', 'should', 'some', 'student', 'such', 'teacher', 'than', 'that', 'their',
+  'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'very',
+  'were', 'what', 'when', 'where', 'which', 'while', 'will', 'with', 'work',
+  'worked', 'would', 'your',
+])
+
+function keywords(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z][a-z']{3,}/g) ?? []
+  return [...new Set(words.filter(w => !STOPWORDS.has(w)))]
+}
+
+/** Crude stem so "breathing" finds "breath" and "slides" finds "slide". */
+function stem(word: string): string {
+  return word.replace(/(ing|ed|es|s)$/, '')
+}
+
+/**
+ * Where in the recording a piece of summary text was talked about, or null
+ * when no stretch of the transcript shares enough of its keywords.
+ */
+export function findMoment(text: string, segments: TranscriptSegment[]): number | null {
+  const stems = keywords(text).map(stem).filter(s => s.length >= 3)
+  if (stems.length === 0 || segments.length === 0) return null
+
+  // At least two keywords, or all of them for one-word bullets, and never
+  // less than half.
+  const needed = Math.max(Math.min(2, stems.length), Math.ceil(stems.length / 2))
+  const segmentText = segments.map(seg => seg.text.toLowerCase())
+
+  let best: { start: number; score: number } | null = null
+
+  for (let i = 0; i < segments.length; i++) {
+    // Start the window on a segment that mentions the bullet, so the link
+    // lands on the moment itself rather than up to two lines before it
+    if (!stems.some(s => segmentText[i].includes(s))) continue
+    const window = segmentText.slice(i, i + MOMENT_WINDOW).join(' ')
+    const score = stems.filter(s => window.includes(s)).length
+    if (score >= needed && (!best || score > best.score)) {
+      best = { start: segments[i].start, score }
+    }
+  }
+
+  return best ? best.start : null
+}
+
+export function findSummaryMoments(
+  summary: Partial<LessonSummary> | null,
+  segments: TranscriptSegment[]
+): SummaryMoment[] {
+  if (!summary || segments.length === 0) return []
+
+  const moments: SummaryMoment[] = []
+  for (const section of MOMENT_SECTIONS) {
+    const bullets = summary[section]
+    if (!Array.isArray(bullets)) continue
+    bullets.forEach((bullet, index) => {
+      const start = findMoment(bullet, segments)
+      if (start !== null) moments.push({ section, index, start })
+    })
+  }
+  return moments
+}
+
+/** Query words, lowercased, for matching against segment text. */
+export function searchTerms(query: string): string[] {
+  return (query.toLowerCase().match(/[a-z0-9']+/g) ?? []).filter(t => t.length >= 2)
+}
+
+/** Segments containing every query term (by stem). */
+export function matchSegments(segments: TranscriptSegment[], terms: string[]): TranscriptSearchHit[] {
+  if (terms.length === 0) return []
+  const stems = terms.map(t => (t.length > 4 ? stem(t) : t))
+
+  return segments
+    .filter(seg => {
+      const text = seg.text.toLowerCase()
+      return stems.every(s => text.includes(s))
+    })
+    .map(seg => ({ start: seg.start, text: seg.text }))
+}
+
+/** 75 -> "1:15", 3725 -> "1:02:05" */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds))
+  const h = Math.floor(total / 3600)
+  const m = Math.floor((total % 3600) / 60)
+  const s = String(total % 60).padStart(2, '0')
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`
+}
+
+/**
+ * Full-text search over a student's lesson transcripts, newest first.
+ * `bookingId` narrows it to one teacher's lessons.
+ */
+export async function searchTranscripts(
+  client: SupabaseClient,
+  studentId: string,
+  query: string,
+  bookingId?: string
+): Promise<TranscriptSearchResult[]> {
+  const terms = searchTerms(query)
+  if (terms.length === 0) return []
+
+  let request = client
+    .from('lesson_recordings')
+    .select('id, booking_id, started_at, created_at, transcript_segments')
+    .eq('student_id', studentId)
+    .textSearch('transcript_search', query, { type: 'websearch', config: 'english' })
+    .order('created_at', { ascending: false })
+    .limit(MAX_SEARCH_RESULTS)
+
+  if (bookingId) request = request.eq('booking_id', bookingId)
+
+  const { data, error } = await request
+  if (error) throw new Error(error.message)
+
+  return (data || []).map(row => ({
+    recordingId: row.id,
+    bookingId: row.booking_id,
+    recordedAt: row.started_at || row.created_at,
+    hits: matchSegments((row.transcript_segments as TranscriptSegment[] | null) ?? [], terms)
+      .slice(0, MAX_HITS_PER_RECORDING),
+  }))
+}
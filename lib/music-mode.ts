@@ -0,0 +1,92 @@
+/**
+ * Music mode for the live lesson room.
+ *
+ * Browser voice processing is tuned for speech: echo cancellation ducks
+ * sustained notes, noise suppression eats piano decay and AGC pumps the level
+ * of a crescendo. In music mode the microphone is opened with all three
+ * disabled and Opus is negotiated as stereo at a high bitrate with in-band
+ * FEC. Without echo cancellation the far side hears itself through speakers,
+ * so everyone in the room is told to wear headphones.
+ *
+ * The teacher toggles it; the choice is broadcast to peers as an
+ * 'audio-mode' signaling message and remembered per booking in this browser.
+ */
+
+/** Capture settings for speech, as the lesson room has always used */
+export const SPEECH_AUDIO_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  sampleRate: 48000,
+  channelCount: 1,
+}
+
+export const MUSIC_AUDIO_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: false,
+  noiseSuppression: false,
+  autoGainControl: false,
+  sampleRate: 48000,
+  channelCount: { ideal: 2 },
+}
+
+/** Opus send bitrate in music mode (speech mode leaves the browser default, ~32 kbps) */
+export const MUSIC_OPUS_BITRATE = 128000
+
+export function audioConstraints(musicMode: boolean): MediaTrackConstraints {
+  return musicMode ? MUSIC_AUDIO_CONSTRAINTS : SPEECH_AUDIO_CONSTRAINTS
+}
+
+const MUSIC_OPUS_PARAMS: Record<string, string> = {
+  stereo: '1',
+  'sprop-stereo': '1',
+  maxaveragebitrate: String(MUSIC_OPUS_BITRATE),
+  useinbandfec: '1',
+}
+
+/**
+ * Rewrite the Opus fmtp line of an SDP for music mode. The parameters in a
+ * description describe what its author wants to receive, so munging the SDP
+ * we send is what makes the other side encode stereo at the higher bitrate.
+ * Speech mode returns the SDP untouched.
+ */
+export function tuneOpusSdp(sdp: string, musicMode: boolean): string {
+  if (!musicMode) return sdp
+
+  const payloadTypes = Array.from(sdp.matchAll(/^a=rtpmap:(\d+) opus\/48000\/2\r?$/gim), match => match[1])
+  let tuned = sdp
+  for (const pt of payloadTypes) {
+    tuned = tuned.replace(new RegExp(`^a=fmtp:${pt} (.*?)(\\r?)$`, 'm'), (_line, params: string, cr: string) => {
+      const merged = new Map<string, string>()
+      for (const param of params.split(';')) {
+        const [key, value] = param.trim().split('=')
+        if (key) merged.set(key, value ?? '')
+      }
+      for (const [key, value] of Object.entries(MUSIC_OPUS_PARAMS)) merged.set(key, value)
+      const line = Array.from(merged, ([key, value]) => (value ? `${key}=${value}` : key)).join(';')
+      return `a=fmtp:${pt} ${line}${cr}`
+    })
+  }
+  return tuned
+}
+
+function storageKey(roomId: string) {
+  return `voice-alchemy:music-mode:${roomId}`
+}
+
+/** The mode last chosen for this lesson room (rooms are per booking) */
+export function loadMusicMode(roomId: string): boolean {
+  try {
+    return localStorage.getItem(storageKey(roomId)) === 'on'
+  } catch {
+    return false
+  }
+}
+
+export function saveMusicMode(roomId: string, musicMode: boolean) {
+  try {
+    if (musicMode) localStorage.setItem(storageKey(roomId), 'on')
+    else localStorage.removeItem(storageKey(roomId))
+  } catch {
+    // Storage disabled: the mode just isn't remembered
+  }
+}
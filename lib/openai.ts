@@ -337,12 +337,13 @@ export interface LessonSummary {
  */
 export async function transcribeAudio(
   audioBuffer: Buffer,
-  filename: string = 'audio.webm'
+  filename: string = 'audio.webm',
+  mimeType: string = 'audio/webm'
 ): Promise<LessonTranscript> {
   const openai = getOpenAIClient()
 
   // Create a File object from the buffer (convert Buffer to Uint8Array for compatibility)
-  const file = new File([new Uint8Array(audioBuffer)], filename, { type: 'audio/webm' })
+  const file = new File([new Uint8Array(audioBuffer)], filename, { type: mimeType })
 
   const response = await openai.audio.transcriptions.create({
     file,
@@ -4,12 +4,12 @@
  * Previously ModernPitchTrainer, ScaleTrainer and SongPitchTrainer each carried
  * their own copy of this math, and they had drifted. ScaleTrainer's copy was the
  * correct one; the other two were missing guards, which is why Pitch Perfect
- * reported worse accuracy than the Scale Trainer despite using the same aubio
+ * reported worse accuracy than the Scale Trainer despite using the same
  * detector and the same 4096-sample buffer.
  *
  * The three divergences that mattered:
  *
- *   1. No frequency sanity gate. aubio emits values well outside singing range
+ *   1. No frequency sanity gate. A detector emits values well outside singing range
  *      on breath, consonants and room noise. ScaleTrainer discarded anything
  *      outside 60-2000Hz; the others accepted every value.
  *
@@ -21,6 +21,11 @@
  *
  * Import from here rather than redefining locally, so the trainers cannot drift
  * apart again.
+ *
+ * Detection itself is PitchDetector, below: YIN running in an AudioWorklet
+ * (public/worklets/pitch-processor.js) served from this site. The trainers
+ * used to load aubio from a CDN and run it on the main thread, which broke
+ * offline and behind school firewalls and stuttered during React renders.
  */
 
 // ---------------------------------------------------------------------------
@@ -35,7 +40,17 @@ export const NOTE_STRINGS_ASCII = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G
 
 export const MIDDLE_A = 440
 export const SEMITONE = 69
-export const BUFFER_SIZE = 4096
+
+/**
+ * Analysis window and hop for the worklet. 2048 samples holds two periods of
+ * the lowest detectable note at 48kHz; a 1024 hop gives a reading about
+ * every 21ms.
+ */
+export const PITCH_WINDOW_SIZE = 2048
+export const PITCH_HOP_SIZE = 1024
+
+/** Where PitchDetector loads its AudioWorklet from. */
+export const PITCH_WORKLET_URL = '/worklets/pitch-processor.js'
 
 /**
  * Usable vocal range for detection, in Hz.
@@ -43,11 +58,17 @@ export const BUFFER_SIZE = 4096
  * 60Hz sits just below the lowest bass fundamental (~65Hz / C2) and rejects
  * mains hum and handling rumble. 2000Hz sits above the highest soprano
  * fundamental (~1046Hz / C6) with headroom, while rejecting sibilance, which
- * aubio otherwise reports as a very high "note".
+ * a detector otherwise reports as a very high "note".
  */
 export const MIN_DETECTABLE_HZ = 60
 export const MAX_DETECTABLE_HZ = 2000
 
+/**
+ * Least detector confidence that counts as a note. Clean singing reads above
+ * 0.9; breath and consonants that slip past the loudness gate read far lower.
+ */
+export const MIN_PITCH_CONFIDENCE = 0.8
+
 /** Deviation within which a note counts as in tune, in cents. */
 export const IN_TUNE_THRESHOLD_CENTS = 15
 
@@ -96,13 +117,6 @@ export function getNoteFrequency(noteName: string, octave: number): number {
 // Signal gating
 // ---------------------------------------------------------------------------
 
-/** Root-mean-square amplitude of a sample buffer. */
-export function computeRms(input: Float32Array | number[]): number {
-  let sum = 0
-  for (let i = 0; i < input.length; i++) sum += input[i] * input[i]
-  return Math.sqrt(sum / input.length)
-}
-
 /**
  * RMS gate for a 0-100 sensitivity slider.
  *
@@ -142,14 +156,16 @@ export interface DetectedNote {
   frequency: number
   /** Within IN_TUNE_THRESHOLD_CENTS of the nearest note. */
   isInTune: boolean
+  /** How sure the detector is of the pitch, 0-1. */
+  confidence: number
 }
 
 /**
- * Turn a raw aubio frequency into a note, or null if it should be discarded.
+ * Turn a raw detected frequency into a note, or null if it should be discarded.
  * Every trainer should route detections through this rather than building the
  * note object inline.
  */
-export function describeFrequency(frequency: number): DetectedNote | null {
+export function describeFrequency(frequency: number, confidence = 1): DetectedNote | null {
   if (!isPlausiblePitch(frequency)) return null
 
   const value = getNote(frequency)
@@ -164,21 +180,106 @@ export function describeFrequency(frequency: number): DetectedNote | null {
     octave: octaveOf(value),
     frequency,
     isInTune: Math.abs(cents) <= IN_TUNE_THRESHOLD_CENTS,
+    confidence,
   }
 }
 
+/** One reading from the pitch worklet. */
+export interface PitchFrame {
+  /** Hz, or 0 when no period was found. */
+  frequency: number
+  confidence: number
+  /** Root-mean-square amplitude of the analysed window. */
+  rms: number
+}
+
 /**
- * Analyse one audio buffer end to end: amplitude gate, pitch detection,
- * plausibility gate. Returns null when the buffer should be ignored.
- *
- * `detector` is an aubio Pitch instance.
+ * Gate one detector reading end to end: amplitude gate, confidence gate,
+ * plausibility gate. Returns null when the reading should be ignored.
  */
-export function analyzeBuffer(
-  input: Float32Array,
-  detector: { do: (buffer: Float32Array) => number },
-  sensitivity: number
-): DetectedNote | null {
+export function analyzeFrame(frame: PitchFrame, sensitivity: number): DetectedNote | null {
   if (sensitivity === 0) return null
-  if (computeRms(input) < rmsThreshold(sensitivity)) return null
-  return describeFrequency(detector.do(input))
+  if (frame.rms < rmsThreshold(sensitivity)) return null
+  if (frame.confidence < MIN_PITCH_CONFIDENCE) return null
+  return describeFrequency(frame.frequency, frame.confidence)
+}
+
+export type PitchListener = (note: DetectedNote, frame: PitchFrame) => void
+
+/**
+ * Detects the pitch of a microphone stream off the main thread. Subscribers
+ * get every reading that passes analyzeFrame for the current sensitivity.
+ *
+ * The detector owns its AudioContext but not the stream: stop() leaves the
+ * stream's tracks running for the caller to stop.
+ */
+export class PitchDetector {
+  private ctx: AudioContext | null = null
+  private source: MediaStreamAudioSourceNode | null = null
+  private node: AudioWorkletNode | null = null
+  private listeners = new Set<PitchListener>()
+  private sensitivity: number
+
+  constructor(sensitivity = 50) {
+    this.sensitivity = sensitivity
+  }
+
+  get isRunning(): boolean {
+    return this.node !== null
+  }
+
+  setSensitivity(sensitivity: number) {
+    this.sensitivity = sensitivity
+  }
+
+  subscribe(listener: PitchListener): () => void {
+    this.listeners.add(listener)
+    return () => { this.listeners.delete(listener) }
+  }
+
+  async start(stream: MediaStream): Promise<void> {
+    this.stop()
+    const ctx = new AudioContext()
+    this.ctx = ctx
+    try {
+      await ctx.audioWorklet.addModule(PITCH_WORKLET_URL)
+    } catch (err) {
+      if (this.ctx === ctx) this.stop()
+      throw err
+    }
+    // stop() or another start() while the module loaded
+    if (this.ctx !== ctx) return
+
+    this.source = ctx.createMediaStreamSource(stream)
+    this.node = new AudioWorkletNode(ctx, 'pitch-processor', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1,
+      channelCountMode: 'explicit',
+      processorOptions: {
+        bufferSize: PITCH_WINDOW_SIZE,
+        hopSize: PITCH_HOP_SIZE,
+        minFrequency: MIN_DETECTABLE_HZ,
+        maxFrequency: MAX_DETECTABLE_HZ,
+      },
+    })
+    this.node.port.onmessage = (event: MessageEvent<PitchFrame>) => {
+      const note = analyzeFrame(event.data, this.sensitivity)
+      if (note) this.listeners.forEach(listener => listener(note, event.data))
+    }
+    this.source.connect(this.node)
+    await ctx.resume()
+  }
+
+  stop() {
+    if (this.node) {
+      this.node.port.onmessage = null
+      this.node.disconnect()
+    }
+    this.source?.disconnect()
+    this.ctx?.close().catch(() => {})
+    this.node = null
+    this.source = null
+    this.ctx = null
+  }
 }
@@ -0,0 +1,448 @@
+/**
+ * Pitch traces: what the student actually sang over each note attempt in the
+ * Pitch and Scale trainers, for teacher review.
+ *
+ * The trainers send each note attempt's detected frequencies (downsampled with
+ * downsampleTrace) along with the session. The session routes store them in
+ * pitch_training_raw_samples once the session is kept as the day's best, with
+ * cents measured against the note's target frequency. A teacher opens any
+ * session from the student page, sees target vs sung pitch with scoops, drift
+ * and vibrato highlighted (analyzeTrace), and can leave comments at a point in
+ * a note; the student sees the same view, read-only, in the Training Center.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type TraceTrainer = 'pitch' | 'scale'
+
+/** One detection as sent by a trainer. */
+export interface PitchTraceSample {
+  /** ms since the note attempt started */
+  t: number
+  /** Detected frequency in Hz */
+  f: number
+  /** RMS volume of the buffer */
+  v?: number
+}
+
+/** A stored sample, with cents from the note's target. */
+export interface TracePoint {
+  t: number
+  f: number
+  c: number
+  v: number | null
+}
+
+export type TraceFeatureKind = 'scoop' | 'drift' | 'vibrato'
+
+export interface TraceFeature {
+  kind: TraceFeatureKind
+  startMs: number
+  endMs: number
+  label: string
+}
+
+export interface TraceNote {
+  noteMetricId: string
+  noteName: string
+  octave: number
+  targetFrequency: number
+  samples: TracePoint[]
+  features: TraceFeature[]
+}
+
+export interface TraceComment {
+  id: string
+  noteMetricId: string
+  timestampMs: number
+  body: string
+  authorName: string
+  createdAt: string
+}
+
+export interface SessionTrace {
+  trainer: TraceTrainer
+  sessionId: string
+  studentId: string
+  title: string
+  startedAt: string
+  overallScore: number | null
+  notes: TraceNote[]
+  comments: TraceComment[]
+}
+
+export interface TraceSessionSummary {
+  trainer: TraceTrainer
+  sessionId: string
+  title: string
+  startedAt: string
+  overallScore: number | null
+  commentCount: number
+}
+
+/** At the trainers' ~11 detections per second this is about 18 seconds of singing. */
+export const MAX_TRACE_SAMPLES_PER_NOTE = 200
+export const MAX_TRACE_COMMENT_LENGTH = 1000
+
+// A scoop is an onset that starts well off pitch and slides onto it
+const SCOOP_WINDOW_MS = 400
+const SCOOP_START_CENTS = 40
+const SETTLED_CENTS = 20
+// Drift is a steady slide over a held note
+const DRIFT_MIN_DURATION_MS = 1000
+const DRIFT_MIN_CENTS = 25
+// Vibrato is a regular 3-8 Hz wobble. Faster vibrato aliases at the trainers'
+// detection rate, so treat this as a hint rather than a measurement.
+const VIBRATO_WINDOW_MS = 1000
+const VIBRATO_MIN_HZ = 3
+const VIBRATO_MAX_HZ = 8
+const VIBRATO_MIN_CENTS = 15
+const VIBRATO_MAX_CENTS = 150
+const VIBRATO_HYSTERESIS_CENTS = 5
+
+// Supabase caps responses at 1000 rows
+const PAGE_SIZE = 1000
+
+/** Keep at most `max` samples, evenly spaced, always including the first and last. */
+export function downsampleTrace<T>(samples: T[], max = MAX_TRACE_SAMPLES_PER_NOTE): T[] {
+  if (samples.length <= max) return samples
+  const step = (samples.length - 1) / (max - 1)
+  return Array.from({ length: max }, (_, i) => samples[Math.round(i * step)])
+}
+
+export function centsFromTarget(frequency: number, targetFrequency: number): number {
+  return 1200 * Math.log2(frequency / targetFrequency)
+}
+
+function linearFit(points: TracePoint[]) {
+  const n = points.length
+  const meanT = points.reduce((s, p) => s + p.t, 0) / n
+  const meanC = points.reduce((s, p) => s + p.c, 0) / n
+  let num = 0
+  let den = 0
+  for (const p of points) {
+    num += (p.t - meanT) * (p.c - meanC)
+    den += (p.t - meanT) ** 2
+  }
+  const slope = den === 0 ? 0 : num / den // cents per ms
+  return { slope, at: (t: number) => meanC + slope * (t - meanT) }
+}
+
+/** Find scoops, drift and vibrato in one note attempt. Samples must be in time order. */
+export function analyzeTrace(samples: TracePoint[]): TraceFeature[] {
+  if (samples.length < 4) return []
+  const features: TraceFeature[] = []
+
+  // Scoop: starts off pitch and reaches the target from the same side
+  let settleIndex = 0
+  const first = samples[0]
+  if (Math.abs(first.c) >= SCOOP_START_CENTS) {
+    for (let i = 1; i < samples.length && samples[i].t - first.t <= SCOOP_WINDOW_MS; i++) {
+      if (Math.sign(samples[i].c) !== Math.sign(first.c) && Math.abs(samples[i].c) > SETTLED_CENTS) break
+      if (Math.abs(samples[i].c) <= SETTLED_CENTS) {
+        settleIndex = i
+        const cents = Math.round(Math.abs(first.c))
+        features.push({
+          kind: 'scoop',
+          startMs: first.t,
+          endMs: samples[i].t,
+          label: first.c < 0 ? `Scooped up from ${cents} cents flat` : `Fell from ${cents} cents sharp`,
+        })
+        break
+      }
+    }
+  }
+
+  const held = samples.slice(settleIndex)
+  const heldStart = held[0].t
+  const heldEnd = held[held.length - 1].t
+  if (held.length < 8 || heldEnd - heldStart < DRIFT_MIN_DURATION_MS) return features
+
+  const fit = linearFit(held)
+  const change = fit.slope * (heldEnd - heldStart)
+  if (Math.abs(change) >= DRIFT_MIN_CENTS) {
+    features.push({
+      kind: 'drift',
+      startMs: heldStart,
+      endMs: heldEnd,
+      label: `Drifted ${change > 0 ? 'sharp' : 'flat'} by ${Math.round(Math.abs(change))} cents`,
+    })
+  }
+
+  // Vibrato: count direction changes of the detrended pitch in overlapping windows
+  const windows: { start: number; end: number; rate: number; extent: number }[] = []
+  for (let start = heldStart; start + VIBRATO_WINDOW_MS <= heldEnd; start += VIBRATO_WINDOW_MS / 2) {
+    const window = held.filter((p) => p.t >= start && p.t < start + VIBRATO_WINDOW_MS)
+    if (window.length < 6) continue
+
+    const residuals = window.map((p) => p.c - fit.at(p.t))
+    let side = 0
+    let crossings = 0
+    for (const r of residuals) {
+      if (Math.abs(r) < VIBRATO_HYSTERESIS_CENTS) continue
+      const s = Math.sign(r)
+      if (side !== 0 && s !== side) crossings++
+      side = s
+    }
+
+    const rate = crossings / 2 / (VIBRATO_WINDOW_MS / 1000)
+    const extent = (Math.max(...residuals) - Math.min(...residuals)) / 2
+    if (rate >= VIBRATO_MIN_HZ && rate <= VIBRATO_MAX_HZ && extent >= VIBRATO_MIN_CENTS && extent <= VIBRATO_MAX_CENTS) {
+      windows.push({ start, end: start + VIBRATO_WINDOW_MS, rate, extent })
+    }
+  }
+
+  let run: typeof windows = []
+  const flush = () => {
+    if (run.length === 0) return
+    const rate = run.reduce((s, w) => s + w.rate, 0) / run.length
+    const extent = run.reduce((s, w) => s + w.extent, 0) / run.length
+    features.push({
+      kind: 'vibrato',
+      startMs: run[0].start,
+      endMs: Math.min(heldEnd, run[run.length - 1].end),
+      label: `Vibrato ~${rate.toFixed(1)} Hz, ±${Math.round(extent)} cents`,
+    })
+    run = []
+  }
+  for (const w of windows) {
+    if (run.length > 0 && w.start > run[run.length - 1].end) flush()
+    run.push(w)
+  }
+  flush()
+
+  return features
+}
+
+const sessionColumn = (trainer: TraceTrainer) => (trainer === 'pitch' ? 'session_id' : 'scale_session_id')
+const noteColumn = (trainer: TraceTrainer) => (trainer === 'pitch' ? 'note_metric_id' : 'scale_note_metric_id')
+
+/**
+ * Store the traces for a saved session, replacing any it already had. Never
+ * throws: a failure here must not lose the session itself.
+ */
+export async function saveSessionTraces(
+  admin: SupabaseClient,
+  params: {
+    trainer: TraceTrainer
+    sessionId: string
+    userId: string
+    notes: { noteMetricId: string; targetFrequency: number; trace: PitchTraceSample[] | undefined }[]
+  }
+): Promise<void> {
+  try {
+    const rows = params.notes.flatMap((note) =>
+      !(note.targetFrequency > 0) ? [] : downsampleTrace(
+        (note.trace || []).filter(
+          (s) => Number.isFinite(s.t) && s.t >= 0 && Number.isFinite(s.f) && s.f > 0
+        )
+      ).map((s) => ({
+        [sessionColumn(params.trainer)]: params.sessionId,
+        [noteColumn(params.trainer)]: note.noteMetricId,
+        user_id: params.userId,
+        detected_frequency: Math.round(s.f * 100) / 100,
+        cents_deviation: Math.max(-9999, Math.min(9999, Math.round(centsFromTarget(s.f, note.targetFrequency) * 100) / 100)),
+        rms_volume: typeof s.v === 'number' && Number.isFinite(s.v) ? Math.min(99, s.v) : null,
+        sample_timestamp_ms: Math.round(s.t),
+      }))
+    )
+
+    await admin.from('pitch_training_raw_samples').delete().eq(sessionColumn(params.trainer), params.sessionId)
+
+    for (let i = 0; i < rows.length; i += PAGE_SIZE) {
+      const { error } = await admin.from('pitch_training_raw_samples').insert(rows.slice(i, i + PAGE_SIZE))
+      if (error) {
+        console.error('[PitchTraces] Error saving samples:', error)
+        return
+      }
+    }
+  } catch (err) {
+    console.error('[PitchTraces] Failed to save traces:', err)
+  }
+}
+
+interface RawSampleRow {
+  note_metric_id: string | null
+  scale_note_metric_id: string | null
+  detected_frequency: number
+  cents_deviation: number
+  rms_volume: number | null
+  sample_timestamp_ms: number
+}
+
+async function loadRawSamples(supabase: SupabaseClient, trainer: TraceTrainer, sessionId: string) {
+  const rows: RawSampleRow[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('pitch_training_raw_samples')
+      .select('note_metric_id, scale_note_metric_id, detected_frequency, cents_deviation, rms_volume, sample_timestamp_ms')
+      .eq(sessionColumn(trainer), sessionId)
+      .order('sample_timestamp_ms', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw error
+    rows.push(...((data as RawSampleRow[] | null) || []))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
+
+function scaleTitle(row: { scale_type: string; root_note: string; direction: string; tempo_bpm: number | null }) {
+  const type = row.scale_type.replace(/_/g, ' ')
+  return `${row.root_note} ${type} scale, ${row.direction}${row.tempo_bpm ? ` at ${row.tempo_bpm} BPM` : ''}`
+}
+
+async function authorNames(supabase: SupabaseClient, ids: string[]) {
+  if (ids.length === 0) return new Map<string, string>()
+  const { data } = await supabase.from('profiles').select('id, name, first_name').in('id', ids)
+  return new Map((data || []).map((p) => [p.id as string, (p.first_name || p.name || 'Your teacher') as string]))
+}
+
+/**
+ * A session's traces, features and comments, or null if the session doesn't
+ * exist (or isn't visible to this client). Callers check studentId.
+ */
+export async function loadSessionTrace(
+  supabase: SupabaseClient,
+  trainer: TraceTrainer,
+  sessionId: string
+): Promise<SessionTrace | null> {
+  let session: { user_id: string; started_at: string; overall_score: number | null; title: string } | null = null
+  let metrics: { id: string; note_name: string; octave: number; target_frequency: number }[] = []
+
+  if (trainer === 'pitch') {
+    const { data } = await supabase
+      .from('pitch_training_sessions')
+      .select('id, user_id, started_at, overall_score')
+      .eq('id', sessionId)
+      .maybeSingle()
+    if (data) session = { ...data, title: 'Pitch Trainer session' }
+
+    const { data: rows } = await supabase
+      .from('pitch_training_note_metrics')
+      .select('id, note_name, octave, target_frequency, attempted_at')
+      .eq('session_id', sessionId)
+      .order('attempted_at', { ascending: true })
+    metrics = rows || []
+  } else {
+    const { data } = await supabase
+      .from('scale_training_sessions')
+      .select('id, user_id, started_at, overall_score, scale_type, root_note, direction, tempo_bpm')
+      .eq('id', sessionId)
+      .maybeSingle()
+    if (data) session = { ...data, title: scaleTitle(data) }
+
+    const { data: rows } = await supabase
+      .from('scale_training_note_metrics')
+      .select('id, note_name, octave, target_frequency, expected_position, actual_position')
+      .eq('session_id', sessionId)
+      .order('actual_position', { ascending: true, nullsFirst: false })
+      .order('expected_position', { ascending: true })
+    metrics = rows || []
+  }
+
+  if (!session) return null
+
+  const samples = await loadRawSamples(supabase, trainer, sessionId)
+  const byNote = new Map<string, TracePoint[]>()
+  for (const row of samples) {
+    const noteId = trainer === 'pitch' ? row.note_metric_id : row.scale_note_metric_id
+    if (!noteId) continue
+    const list = byNote.get(noteId) || []
+    list.push({
+      t: row.sample_timestamp_ms,
+      f: Number(row.detected_frequency),
+      c: Number(row.cents_deviation),
+      v: row.rms_volume === null ? null : Number(row.rms_volume),
+    })
+    byNote.set(noteId, list)
+  }
+
+  const { data: commentRows } = await supabase
+    .from('pitch_trace_comments')
+    .select('id, author_id, note_metric_id, scale_note_metric_id, timestamp_ms, body, created_at')
+    .eq(sessionColumn(trainer), sessionId)
+    .order('created_at', { ascending: true })
+
+  const names = await authorNames(supabase, [...new Set((commentRows || []).map((c) => c.author_id as string))])
+
+  return {
+    trainer,
+    sessionId,
+    studentId: session.user_id,
+    title: session.title,
+    startedAt: session.started_at,
+    overallScore: session.overall_score === null ? null : Number(session.overall_score),
+    notes: metrics.map((m) => {
+      const points = byNote.get(m.id) || []
+      return {
+        noteMetricId: m.id,
+        noteName: m.note_name,
+        octave: m.octave,
+        targetFrequency: Number(m.target_frequency),
+        samples: points,
+        features: analyzeTrace(points),
+      }
+    }),
+    comments: (commentRows || []).map((c) => ({
+      id: c.id,
+      noteMetricId: (trainer === 'pitch' ? c.note_metric_id : c.scale_note_metric_id) as string,
+      timestampMs: c.timestamp_ms,
+      body: c.body,
+      authorName: names.get(c.author_id) || 'Your teacher',
+      createdAt: c.created_at,
+    })),
+  }
+}
+
+/** A student's recent pitch and scale sessions, newest first, with comment counts. */
+export async function listTraceSessions(
+  supabase: SupabaseClient,
+  studentId: string,
+  days = 30
+): Promise<TraceSessionSummary[]> {
+  const since = new Date()
+  since.setDate(since.getDate() - days)
+  const sinceDate = since.toISOString().split('T')[0]
+
+  const [{ data: pitchRows }, { data: scaleRows }, { data: commentRows }] = await Promise.all([
+    supabase
+      .from('pitch_training_sessions')
+      .select('id, started_at, overall_score')
+      .eq('user_id', studentId)
+      .gte('session_date', sinceDate),
+    supabase
+      .from('scale_training_sessions')
+      .select('id, started_at, overall_score, scale_type, root_note, direction, tempo_bpm')
+      .eq('user_id', studentId)
+      .gte('session_date', sinceDate),
+    supabase.from('pitch_trace_comments').select('session_id, scale_session_id').eq('student_id', studentId),
+  ])
+
+  const counts = new Map<string, number>()
+  for (const c of commentRows || []) {
+    const id = (c.session_id || c.scale_session_id) as string
+    counts.set(id, (counts.get(id) || 0) + 1)
+  }
+
+  const sessions: TraceSessionSummary[] = [
+    ...(pitchRows || []).map((row) => ({
+      trainer: 'pitch' as const,
+      sessionId: row.id,
+      title: 'Pitch Trainer session',
+      startedAt: row.started_at,
+      overallScore: row.overall_score === null ? null : Number(row.overall_score),
+      commentCount: counts.get(row.id) || 0,
+    })),
+    ...(scaleRows || []).map((row) => ({
+      trainer: 'scale' as const,
+      sessionId: row.id,
+      title: scaleTitle(row),
+      startedAt: row.started_at,
+      overallScore: row.overall_score === null ? null : Number(row.overall_score),
+      commentCount: counts.get(row.id) || 0,
+    })),
+  ]
+
+  return sessions.sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+}
@@ -0,0 +1,383 @@
+/**
+ * Practice assignments: teacher-set homework on one of the trainers.
+ *
+ * An assignment names a trainer and its settings (e.g. Scale Trainer, D
+ * natural minor at 90 BPM) plus how many sessions to do. The student opens it
+ * from the dashboard, which starts the trainer pre-configured. Whenever any
+ * trainer session is posted, recordPracticeSession() logs it against each of
+ * the student's active assignments it matches, and an assignment completes
+ * once its target is reached. Sessions count whether or not the trainer kept
+ * them as the day's best.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type PracticeTrainer = 'pitch' | 'scale' | 'rhythm' | 'song'
+export type PracticeAssignmentStatus = 'active' | 'completed' | 'archived'
+
+export const PRACTICE_TRAINERS: { value: PracticeTrainer; label: string }[] = [
+  { value: 'pitch', label: 'Pitch Trainer' },
+  { value: 'scale', label: 'Scale Trainer' },
+  { value: 'rhythm', label: 'Rhythm Trainer' },
+  { value: 'song', label: 'Song Key Trainer' },
+]
+
+/** Scale types offered by ScaleTrainer. */
+export const SCALE_TYPE_LABELS: Record<string, string> = {
+  major: 'Major',
+  natural_minor: 'Natural Minor',
+  harmonic_minor: 'Harmonic Minor',
+  melodic_minor: 'Melodic Minor',
+  pentatonic_major: 'Pentatonic Major',
+  pentatonic_minor: 'Pentatonic Minor',
+  blues: 'Blues',
+  chromatic: 'Chromatic',
+}
+
+export const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']
+export const SCALE_DIRECTIONS = ['ascending', 'descending', 'both'] as const
+export const RHYTHM_TIME_SIGNATURES = ['4/4', '3/4', '6/8', '2/4'] as const
+
+export const MAX_TARGET_SESSIONS = 50
+
+export interface PitchAssignmentSettings {
+  note?: string
+  octave?: number
+}
+
+export interface ScaleAssignmentSettings {
+  scaleType: string
+  rootNote: string
+  octave?: number
+  direction?: (typeof SCALE_DIRECTIONS)[number]
+  tempo?: number
+}
+
+export interface RhythmAssignmentSettings {
+  bpm: number
+  timeSignature: (typeof RHYTHM_TIME_SIGNATURES)[number]
+}
+
+export interface SongAssignmentSettings {
+  songTitle?: string
+  songKey?: string
+}
+
+export type PracticeAssignmentSettings =
+  | PitchAssignmentSettings
+  | ScaleAssignmentSettings
+  | RhythmAssignmentSettings
+  | SongAssignmentSettings
+
+export interface PracticeAssignmentRow {
+  id: string
+  booking_id: string
+  instructor_id: string
+  student_id: string
+  source_note_id: string | null
+  trainer: PracticeTrainer
+  settings: Record<string, unknown>
+  title: string
+  notes: string | null
+  target_sessions: number
+  min_score: number | null
+  due_at: string | null
+  status: PracticeAssignmentStatus
+  completed_at: string | null
+  created_at: string
+}
+
+export interface PracticeAssignment {
+  id: string
+  bookingId: string
+  trainer: PracticeTrainer
+  settings: Record<string, unknown>
+  title: string
+  description: string
+  notes: string | null
+  targetSessions: number
+  minScore: number | null
+  dueAt: string | null
+  status: PracticeAssignmentStatus
+  completedAt: string | null
+  createdAt: string
+  completedSessions: number
+  lastPracticedAt: string | null
+  bestScore: number | null
+}
+
+/** What a trainer's session route knows about the session it just received. */
+export interface PracticeSessionSummary {
+  trainer: PracticeTrainer
+  score: number | null
+  sessionId?: string | null
+  scaleType?: string
+  rootNote?: string
+  direction?: string
+  tempo?: number
+  bpm?: number
+  timeSignature?: string
+  songTitle?: string | null
+  songKey?: string | null
+  /** The notes a pitch session practised */
+  notes?: { note: string; octave: number }[]
+}
+
+export interface PracticeAssignmentInput {
+  trainer: PracticeTrainer
+  settings: PracticeAssignmentSettings
+  title: string
+  notes: string | null
+  targetSessions: number
+  minScore: number | null
+  dueAt: string | null
+  sourceNoteId: string | null
+}
+
+const trainerLabel = (trainer: PracticeTrainer) =>
+  PRACTICE_TRAINERS.find((t) => t.value === trainer)?.label || trainer
+
+/** e.g. "Scale Trainer · D Natural Minor · 90 BPM" */
+export function describeAssignment(trainer: PracticeTrainer, settings: Record<string, unknown>): string {
+  const parts = [trainerLabel(trainer)]
+  const s = settings as Record<string, string | number | undefined>
+
+  if (trainer === 'pitch' && s.note) {
+    parts.push(`${s.note}${s.octave ?? ''}`)
+  } else if (trainer === 'scale') {
+    parts.push(`${s.rootNote} ${SCALE_TYPE_LABELS[String(s.scaleType)] || s.scaleType}`)
+    if (s.direction) parts.push(String(s.direction))
+    if (s.tempo) parts.push(`${s.tempo} BPM`)
+  } else if (trainer === 'rhythm') {
+    parts.push(`${s.timeSignature} at ${s.bpm} BPM`)
+  } else if (trainer === 'song') {
+    if (s.songTitle) parts.push(String(s.songTitle))
+    if (s.songKey) parts.push(`key of ${s.songKey}`)
+  }
+
+  return parts.join(' · ')
+}
+
+function validateSettings(trainer: PracticeTrainer, raw: Record<string, unknown>): PracticeAssignmentSettings | string {
+  const optionalInt = (value: unknown) => (value === undefined || value === null || value === '' ? undefined : Number(value))
+
+  if (trainer === 'pitch') {
+    const octave = optionalInt(raw.octave)
+    if (raw.note && !NOTE_NAMES.includes(String(raw.note))) return 'Invalid note'
+    if (octave !== undefined && (!Number.isInteger(octave) || octave < 1 || octave > 7)) return 'Invalid octave (1-7)'
+    return { ...(raw.note ? { note: String(raw.note) } : {}), ...(octave !== undefined ? { octave } : {}) }
+  }
+
+  if (trainer === 'scale') {
+    const scaleType = String(raw.scaleType ?? '')
+    const rootNote = String(raw.rootNote ?? '')
+    const octave = optionalInt(raw.octave)
+    const tempo = optionalInt(raw.tempo)
+    const direction = raw.direction ? String(raw.direction) : undefined
+    if (!SCALE_TYPE_LABELS[scaleType]) return 'Invalid scale type'
+    if (!NOTE_NAMES.includes(rootNote)) return 'Invalid root note'
+    if (octave !== undefined && (!Number.isInteger(octave) || octave < 2 || octave > 6)) return 'Invalid octave (2-6)'
+    if (tempo !== undefined && (!Number.isInteger(tempo) || tempo < 40 || tempo > 200)) return 'Invalid tempo (40-200 BPM)'
+    if (direction && !(SCALE_DIRECTIONS as readonly string[]).includes(direction)) return 'Invalid direction'
+    return {
+      scaleType,
+      rootNote,
+      ...(octave !== undefined ? { octave } : {}),
+      ...(direction ? { direction: direction as ScaleAssignmentSettings['direction'] } : {}),
+      ...(tempo !== undefined ? { tempo } : {}),
+    }
+  }
+
+  if (trainer === 'rhythm') {
+    const bpm = Number(raw.bpm)
+    const timeSignature = String(raw.timeSignature ?? '')
+    if (!Number.isInteger(bpm) || bpm < 40 || bpm > 220) return 'Invalid BPM (40-220)'
+    if (!(RHYTHM_TIME_SIGNATURES as readonly string[]).includes(timeSignature)) return 'Invalid time signature'
+    return { bpm, timeSignature: timeSignature as RhythmAssignmentSettings['timeSignature'] }
+  }
+
+  const songTitle = String(raw.songTitle ?? '').trim().slice(0, 200)
+  const songKey = String(raw.songKey ?? '').trim().slice(0, 20)
+  return { ...(songTitle ? { songTitle } : {}), ...(songKey ? { songKey } : {}) }
+}
+
+/** Parse a create/update request body. Returns the input or an error message. */
+export function validateAssignmentInput(body: Record<string, unknown>): PracticeAssignmentInput | string {
+  const trainer = String(body.trainer ?? '') as PracticeTrainer
+  if (!PRACTICE_TRAINERS.some((t) => t.value === trainer)) return 'Invalid trainer'
+
+  const settings = validateSettings(trainer, (body.settings as Record<string, unknown>) || {})
+  if (typeof settings === 'string') return settings
+
+  const targetSessions = Number(body.targetSessions ?? 1)
+  if (!Number.isInteger(targetSessions) || targetSessions < 1 || targetSessions > MAX_TARGET_SESSIONS) {
+    return `Target sessions must be between 1 and ${MAX_TARGET_SESSIONS}`
+  }
+
+  const minScore = body.minScore === undefined || body.minScore === null || body.minScore === '' ? null : Number(body.minScore)
+  if (minScore !== null && (!Number.isFinite(minScore) || minScore < 0 || minScore > 100)) {
+    return 'Minimum score must be between 0 and 100'
+  }
+
+  let dueAt: string | null = null
+  if (body.dueAt) {
+    const due = new Date(String(body.dueAt))
+    if (Number.isNaN(due.getTime())) return 'Invalid due date'
+    dueAt = due.toISOString()
+  }
+
+  const title = String(body.title ?? '').trim() || describeAssignment(trainer, settings as Record<string, unknown>)
+
+  return {
+    trainer,
+    settings,
+    title: title.slice(0, 200),
+    notes: body.notes ? String(body.notes).trim().slice(0, 2000) || null : null,
+    targetSessions,
+    minScore,
+    dueAt,
+    sourceNoteId: body.sourceNoteId ? String(body.sourceNoteId) : null,
+  }
+}
+
+const sameText = (a: unknown, b: unknown) =>
+  String(a ?? '').trim().toLowerCase() === String(b ?? '').trim().toLowerCase()
+
+/** Whether a trainer session satisfies an assignment's settings and minimum score. */
+export function sessionMatchesAssignment(
+  assignment: Pick<PracticeAssignmentRow, 'trainer' | 'settings' | 'min_score'>,
+  session: PracticeSessionSummary
+): boolean {
+  if (assignment.trainer !== session.trainer) return false
+  if (assignment.min_score !== null && (session.score ?? 0) < Number(assignment.min_score)) return false
+
+  const s = assignment.settings as Record<string, unknown>
+
+  switch (assignment.trainer) {
+    case 'pitch':
+      return (
+        !s.note ||
+        (session.notes ?? []).some(
+          (n) => n.note === s.note && (s.octave === undefined || Number(s.octave) === n.octave)
+        )
+      )
+    case 'scale':
+      return (
+        s.scaleType === session.scaleType &&
+        s.rootNote === session.rootNote &&
+        (!s.direction || s.direction === session.direction) &&
+        (!s.tempo || Number(s.tempo) === session.tempo)
+      )
+    case 'rhythm':
+      return Number(s.bpm) === session.bpm && s.timeSignature === session.timeSignature
+    case 'song':
+      return (
+        (!s.songKey || sameText(s.songKey, session.songKey)) &&
+        (!s.songTitle || String(session.songTitle ?? '').toLowerCase().includes(String(s.songTitle).toLowerCase()))
+      )
+  }
+}
+
+/**
+ * Log a finished trainer session against every active assignment it matches,
+ * completing those that reach their target. Never throws: a failure here must
+ * not lose the session itself.
+ */
+export async function recordPracticeSession(
+  admin: SupabaseClient,
+  studentId: string,
+  session: PracticeSessionSummary
+): Promise<void> {
+  try {
+    const now = new Date()
+
+    const { data: rows, error } = await admin
+      .from('practice_assignments')
+      .select('id, trainer, settings, min_score, target_sessions, due_at')
+      .eq('student_id', studentId)
+      .eq('trainer', session.trainer)
+      .eq('status', 'active')
+
+    if (error) {
+      console.error('[PracticeAssignments] Error loading assignments:', error)
+      return
+    }
+
+    const matching = (rows || []).filter(
+      (row) => (!row.due_at || new Date(row.due_at) >= now) && sessionMatchesAssignment(row as PracticeAssignmentRow, session)
+    )
+    if (matching.length === 0) return
+
+    const { error: insertError } = await admin.from('practice_assignment_sessions').insert(
+      matching.map((row) => ({
+        assignment_id: row.id,
+        student_id: studentId,
+        session_id: session.sessionId ?? null,
+        score: session.score,
+        practiced_at: now.toISOString(),
+      }))
+    )
+
+    if (insertError) {
+      console.error('[PracticeAssignments] Error logging session:', insertError)
+      return
+    }
+
+    for (const row of matching) {
+      const { count } = await admin
+        .from('practice_assignment_sessions')
+        .select('id', { count: 'exact', head: true })
+        .eq('assignment_id', row.id)
+
+      if ((count ?? 0) >= row.target_sessions) {
+        await admin
+          .from('practice_assignments')
+          .update({ status: 'completed', completed_at: now.toISOString() })
+          .eq('id', row.id)
+          .eq('status', 'active')
+      }
+    }
+  } catch (err) {
+    console.error('[PracticeAssignments] Failed to record session:', err)
+  }
+}
+
+/** Attach session counts to assignment rows, one query for all of them. */
+export async function withAssignmentProgress(
+  supabase: SupabaseClient,
+  rows: PracticeAssignmentRow[]
+): Promise<PracticeAssignment[]> {
+  if (rows.length === 0) return []
+
+  const { data: sessions, error } = await supabase
+    .from('practice_assignment_sessions')
+    .select('assignment_id, score, practiced_at')
+    .in('assignment_id', rows.map((r) => r.id))
+
+  if (error) {
+    console.error('[PracticeAssignments] Error loading sessions:', error)
+  }
+
+  return rows.map((row) => {
+    const mine = (sessions || []).filter((s) => s.assignment_id === row.id)
+    const scores = mine.map((s) => Number(s.score)).filter(Number.isFinite)
+    return {
+      id: row.id,
+      bookingId: row.booking_id,
+      trainer: row.trainer,
+      settings: row.settings,
+      title: row.title,
+      description: describeAssignment(row.trainer, row.settings),
+      notes: row.notes,
+      targetSessions: row.target_sessions,
+      minScore: row.min_score,
+      dueAt: row.due_at,
+      status: row.status,
+      completedAt: row.completed_at,
+      createdAt: row.created_at,
+      completedSessions: mine.length,
+      lastPracticedAt: mine.reduce<string | null>((latest, s) => (!latest || s.practiced_at > latest ? s.practiced_at : latest), null),
+      bestScore: scores.length > 0 ? Math.round(Math.max(...scores)) : null,
+    }
+  })
+}
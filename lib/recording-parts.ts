@@ -0,0 +1,180 @@
+/**
+ * Server side of chunked recording uploads: where parts live in storage and
+ * how they become one file.
+ *
+ * MediaRecorder WebM output is a single stream cut into pieces, so the parts
+ * concatenated byte-for-byte in order are the recording - only the first part
+ * carries the header. A missing part leaves a gap in the media, not an
+ * unreadable file, which is why recovery of an interrupted session assembles
+ * whatever parts made it (see lib/recording-upload.ts for the browser side).
+ *
+ * A session has two tracks recorded side by side: the composited video and a
+ * mixed audio-only track, which is what gets transcribed and what students
+ * download to listen back. Audio parts are stored as audio-0000.webm next to
+ * the video's 0000.webm.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export const RECORDINGS_BUCKET = 'lesson-recordings'
+
+export type RecordingTrack = 'video' | 'audio'
+
+export const RECORDING_TRACKS: RecordingTrack[] = ['video', 'audio']
+
+/** Two hours of 30-second parts per track, with headroom */
+export const MAX_PART_NUMBER = 999
+
+/** An open session with no new part for this long was abandoned by its tab. */
+export const STALE_UPLOAD_SESSION_MS = 2 * 60 * 1000
+
+/**
+ * A session /recordings/complete claimed ('assembling') this long ago belongs
+ * to a call that timed out (its maxDuration is 5 minutes), so it can be
+ * claimed again.
+ */
+export const ASSEMBLY_CLAIM_TIMEOUT_MS = 10 * 60 * 1000
+
+/** PostgREST filter for sessions a /recordings/complete call may claim */
+export function claimableUploadFilter(now: number = Date.now()): string {
+  const expiredBefore = new Date(now - ASSEMBLY_CLAIM_TIMEOUT_MS).toISOString()
+  return `status.eq.recording,and(status.eq.assembling,updated_at.lt.${expiredBefore})`
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export function isValidSessionId(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value)
+}
+
+export function partsFolder(bookingId: string, sessionId: string): string {
+  return `${bookingId}/parts/${sessionId}`
+}
+
+const TRACK_PREFIX: Record<RecordingTrack, string> = { video: '', audio: 'audio-' }
+
+export function partPath(
+  bookingId: string,
+  sessionId: string,
+  partNumber: number,
+  track: RecordingTrack = 'video'
+): string {
+  return `${partsFolder(bookingId, sessionId)}/${TRACK_PREFIX[track]}${String(partNumber).padStart(4, '0')}.webm`
+}
+
+/** Part numbers of each track present in storage, ascending. */
+export async function listUploadedParts(
+  admin: SupabaseClient,
+  bookingId: string,
+  sessionId: string
+): Promise<Record<RecordingTrack, number[]>> {
+  const { data, error } = await admin.storage
+    .from(RECORDINGS_BUCKET)
+    .list(partsFolder(bookingId, sessionId), { limit: 2 * (MAX_PART_NUMBER + 1) })
+
+  if (error) throw new Error(`Failed to list recording parts: ${error.message}`)
+
+  const parts: Record<RecordingTrack, number[]> = { video: [], audio: [] }
+  for (const file of data || []) {
+    const match = /^(audio-)?(\d+)\.webm$/.exec(file.name)
+    if (match) parts[match[1] ? 'audio' : 'video'].push(parseInt(match[2], 10))
+  }
+  parts.video.sort((a, b) => a - b)
+  parts.audio.sort((a, b) => a - b)
+  return parts
+}
+
+/** Part numbers below `partCount` that are not in `uploaded`. */
+export function missingParts(uploaded: number[], partCount: number): number[] {
+  const have = new Set(uploaded)
+  const missing: number[] = []
+  for (let n = 0; n < partCount; n++) {
+    if (!have.has(n)) missing.push(n)
+  }
+  return missing
+}
+
+/**
+ * Concatenate the given parts into `storagePath`. The parts are streamed into
+ * the upload one after another, so memory stays at a part or so however long
+ * the class was - an hour is a few hundred MB. Returns the assembled size.
+ */
+export async function assembleParts(
+  admin: SupabaseClient,
+  bookingId: string,
+  sessionId: string,
+  track: RecordingTrack,
+  partNumbers: number[],
+  storagePath: string
+): Promise<number> {
+  const storage = admin.storage.from(RECORDINGS_BUCKET)
+  let size = 0
+  let next = 0
+  let part: ReadableStreamDefaultReader<Uint8Array> | null = null
+  // The upload only sees a broken stream; keep the reason
+  let failure: Error | null = null
+
+  const file = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        for (;;) {
+          if (!part) {
+            if (next >= partNumbers.length) {
+              controller.close()
+              return
+            }
+            const partNumber = partNumbers[next++]
+            const { data, error } = await storage.download(partPath(bookingId, sessionId, partNumber, track)).asStream()
+            if (error || !data) {
+              throw new Error(`Failed to download ${track} part ${partNumber}: ${error?.message ?? 'unknown error'}`)
+            }
+            part = data.getReader()
+          }
+
+          const { done, value } = await part.read()
+          if (done) {
+            part = null
+            continue
+          }
+          size += value.byteLength
+          controller.enqueue(value)
+          return
+        }
+      } catch (err) {
+        failure = err instanceof Error ? err : new Error(String(err))
+        controller.error(failure)
+      }
+    },
+    async cancel() {
+      await part?.cancel()
+    },
+  })
+
+  const { error: uploadError } = await storage.upload(storagePath, file, {
+    contentType: track === 'audio' ? 'audio/webm' : 'video/webm',
+    upsert: true,
+  })
+
+  if (failure) throw failure
+  if (uploadError) throw new Error(`Failed to store assembled recording: ${uploadError.message}`)
+
+  return size
+}
+
+/** Best effort: a leftover part costs storage, not correctness. */
+export async function removeParts(
+  admin: SupabaseClient,
+  bookingId: string,
+  sessionId: string,
+  parts: Record<RecordingTrack, number[]>
+): Promise<void> {
+  const paths = RECORDING_TRACKS.flatMap(track => parts[track].map(n => partPath(bookingId, sessionId, n, track)))
+  if (paths.length === 0) return
+  const { error } = await admin.storage
+    .from(RECORDINGS_BUCKET)
+    .remove(paths)
+
+  if (error) {
+    console.warn(`[RecordingParts] Failed to remove parts for session ${sessionId}:`, error.message)
+  }
+}
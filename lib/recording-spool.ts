@@ -0,0 +1,92 @@
+/**
+ * IndexedDB spool for lesson recording parts.
+ *
+ * Every part is written here before it is uploaded and deleted once the upload
+ * succeeds, so parts recorded while the browser is offline - or not yet sent
+ * when the tab crashed - survive until the teacher is back on the lesson page.
+ * Without IndexedDB (some private browsing modes) every call is a no-op and
+ * parts only live in memory.
+ */
+
+import type { RecordingTrack } from '@/lib/recording-parts'
+
+const DB_NAME = 'voice-alchemy-recordings'
+const DB_VERSION = 1
+const STORE = 'parts'
+
+export interface SpooledPart {
+  sessionId: string
+  bookingId: string
+  track: RecordingTrack
+  partNumber: number
+  classStartedAt: string | null
+  blob: Blob
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null)
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      const store = db.createObjectStore(STORE, { keyPath: ['sessionId', 'track', 'partNumber'] })
+      store.createIndex('bookingId', 'bookingId')
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      console.warn('[RecordingSpool] IndexedDB unavailable:', request.error)
+      resolve(null)
+    }
+  })
+
+  return dbPromise
+}
+
+function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | null> {
+  return openDb().then(db => {
+    if (!db) return null
+    return new Promise<T | null>((resolve, reject) => {
+      const request = action(db.transaction(STORE, mode).objectStore(STORE))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  })
+}
+
+export async function spoolPart(part: SpooledPart): Promise<void> {
+  try {
+    await run('readwrite', store => store.put(part))
+  } catch (err) {
+    // Quota exceeded and the like: the part is still in the upload queue
+    console.warn('[RecordingSpool] Failed to spool part', part.partNumber, err)
+  }
+}
+
+export async function deleteSpooledPart(sessionId: string, track: RecordingTrack, partNumber: number): Promise<void> {
+  try {
+    await run('readwrite', store => store.delete([sessionId, track, partNumber]))
+  } catch (err) {
+    console.warn('[RecordingSpool] Failed to delete spooled part', partNumber, err)
+  }
+}
+
+/** Spooled parts for a lesson, in session, track and part order. */
+export async function listSpooledParts(bookingId: string): Promise<SpooledPart[]> {
+  try {
+    const parts = await run<SpooledPart[]>('readonly', store => store.index('bookingId').getAll(bookingId))
+    return (parts || []).sort((a, b) =>
+      a.sessionId.localeCompare(b.sessionId) || a.track.localeCompare(b.track) || a.partNumber - b.partNumber
+    )
+  } catch (err) {
+    console.warn('[RecordingSpool] Failed to read spooled parts', err)
+    return []
+  }
+}
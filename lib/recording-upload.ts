@@ -0,0 +1,280 @@
+/**
+ * Browser side of chunked lesson recording uploads.
+ *
+ * The recorder's output is cut into numbered parts of about PART_MS each,
+ * numbered separately for the video and the audio-only track.
+ * Every part is spooled to IndexedDB (lib/recording-spool.ts), then uploaded
+ * in order through /recordings/parts; a failed upload stays at the head of
+ * the queue and is retried with backoff and whenever the browser comes back
+ * online. When recording stops, the last part is flushed and
+ * /recordings/complete assembles the file server-side.
+ *
+ * If the tab dies first, the session is left open on the server with most of
+ * its parts already uploaded and the rest in the spool.
+ * recoverInterruptedRecordings() finishes such sessions the next time the
+ * teacher opens the lesson.
+ */
+
+import type { RecordingTrack } from '@/lib/recording-parts'
+import { deleteSpooledPart, listSpooledParts, spoolPart, type SpooledPart } from '@/lib/recording-spool'
+
+/** Receives recorder output as it is produced. See VideoWebRTC's recordingSink prop. */
+export interface RecordingSink {
+  /** A new recording has started */
+  start(): void
+  write(data: Blob, track?: RecordingTrack): void
+  /** Recording stopped: upload what is left and register the recording */
+  finish(): Promise<void>
+}
+
+const PART_MS = 30 * 1000
+const RETRY_BASE_MS = 2000
+const RETRY_MAX_MS = 60 * 1000
+/** How long finish() waits for outstanding parts before leaving them for recovery */
+const FINISH_TIMEOUT_MS = 2 * 60 * 1000
+
+interface OpenUploadSession {
+  sessionId: string
+  classStartedAt: string | null
+  stale: boolean
+  uploadedParts: number[]
+  uploadedAudioParts: number[]
+}
+
+const MIME_TYPES: Record<RecordingTrack, string> = { video: 'video/webm', audio: 'audio/webm' }
+
+/** Returns false when the session was already completed and the part is not needed. */
+async function uploadPart(part: SpooledPart): Promise<boolean> {
+  const presign = await fetch(`/api/lessons/${part.bookingId}/recordings/parts`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      sessionId: part.sessionId,
+      partNumber: part.partNumber,
+      track: part.track,
+      classStartedAt: part.classStartedAt,
+    }),
+  })
+  if (presign.status === 409) return false
+  if (!presign.ok) {
+    throw new Error(`Failed to get part upload URL: ${await presign.text()}`)
+  }
+
+  const { uploadUrl } = await presign.json()
+  const upload = await fetch(uploadUrl, {
+    method: 'PUT',
+    headers: { 'Content-Type': MIME_TYPES[part.track] },
+    body: part.blob,
+  })
+  if (!upload.ok) {
+    throw new Error(`Part upload failed: ${await upload.text()}`)
+  }
+  return true
+}
+
+async function completeSession(bookingId: string, sessionId: string, partCounts?: Record<RecordingTrack, number>) {
+  const response = await fetch(`/api/lessons/${bookingId}/recordings/complete`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      sessionId,
+      partCount: partCounts?.video,
+      audioPartCount: partCounts?.audio,
+      roomName: `lesson-${bookingId}`,
+    }),
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to register recording: ${await response.text()}`)
+  }
+  return response.json()
+}
+
+interface TrackBuffer {
+  nextPart: number
+  blobs: Blob[]
+  startedAt: number
+}
+
+export class RecordingUploader implements RecordingSink {
+  private session: { id: string; classStartedAt: string | null; tracks: Record<RecordingTrack, TrackBuffer> } | null = null
+  private queue: { part: SpooledPart; spooled: Promise<void> }[] = []
+  private draining = false
+  private retryDelay = RETRY_BASE_MS
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
+
+  private classStartedAt: Date | null = null
+
+  constructor(private bookingId: string) {}
+
+  /** Stored with the session; the recording start time is used until it is known */
+  setClassStartedAt(startedAt: Date | null) {
+    this.classStartedAt = startedAt
+  }
+
+  /** The session being recorded, so recovery can leave it alone */
+  get currentSessionId(): string | null {
+    return this.session?.id ?? null
+  }
+
+  start() {
+    const now = Date.now()
+    this.session = {
+      id: crypto.randomUUID(),
+      classStartedAt: (this.classStartedAt ?? new Date()).toISOString(),
+      tracks: {
+        video: { nextPart: 0, blobs: [], startedAt: now },
+        audio: { nextPart: 0, blobs: [], startedAt: now },
+      },
+    }
+    window.addEventListener('online', this.retryNow)
+    console.log('[RecordingUpload] Started upload session', this.session.id)
+  }
+
+  write(data: Blob, track: RecordingTrack = 'video') {
+    if (!this.session) return
+    const buffer = this.session.tracks[track]
+    buffer.blobs.push(data)
+    if (Date.now() - buffer.startedAt >= PART_MS) this.cutPart(track)
+  }
+
+  async finish() {
+    const session = this.session
+    if (!session) return
+
+    this.cutPart('video')
+    this.cutPart('audio')
+    this.session = null
+    const partCounts = { video: session.tracks.video.nextPart, audio: session.tracks.audio.nextPart }
+    if (partCounts.video === 0) return
+
+    const deadline = Date.now() + FINISH_TIMEOUT_MS
+    while (this.queue.some(q => q.part.sessionId === session.id)) {
+      if (Date.now() > deadline) {
+        console.warn(
+          `[RecordingUpload] Session ${session.id} still has parts to upload; ` +
+          'they stay spooled and the recording is completed on the next visit to this lesson'
+        )
+        return
+      }
+      await new Promise(resolve => setTimeout(resolve, 500))
+    }
+
+    try {
+      await completeSession(this.bookingId, session.id, partCounts)
+      console.log(
+        `[RecordingUpload] Session ${session.id} completed with ${partCounts.video} video ` +
+        `and ${partCounts.audio} audio parts`
+      )
+    } catch (err) {
+      // The parts are all uploaded, so recovery can still finish it
+      console.error('[RecordingUpload] Error completing recording:', err)
+    }
+
+    if (!this.session && this.queue.length === 0) {
+      window.removeEventListener('online', this.retryNow)
+    }
+  }
+
+  private cutPart(track: RecordingTrack) {
+    const buffer = this.session?.tracks[track]
+    if (!this.session || !buffer || buffer.blobs.length === 0) return
+
+    const part: SpooledPart = {
+      sessionId: this.session.id,
+      bookingId: this.bookingId,
+      track,
+      partNumber: buffer.nextPart++,
+      classStartedAt: this.session.classStartedAt,
+      blob: new Blob(buffer.blobs, { type: MIME_TYPES[track] }),
+    }
+    buffer.blobs = []
+    buffer.startedAt = Date.now()
+
+    this.queue.push({ part, spooled: spoolPart(part) })
+    void this.drain()
+  }
+
+  private retryNow = () => {
+    if (this.retryTimer) clearTimeout(this.retryTimer)
+    this.retryTimer = null
+    this.retryDelay = RETRY_BASE_MS
+    void this.drain()
+  }
+
+  // Uploads strictly in order, one at a time; a failure pauses the queue
+  private async drain() {
+    if (this.draining || this.retryTimer) return
+    this.draining = true
+
+    try {
+      while (this.queue.length > 0) {
+        const { part, spooled } = this.queue[0]
+        try {
+          await uploadPart(part)
+        } catch (err) {
+          console.warn(
+            `[RecordingUpload] ${part.track} part ${part.partNumber} failed, retrying in ${this.retryDelay}ms:`,
+            err
+          )
+          this.retryTimer = setTimeout(this.retryNow, this.retryDelay)
+          this.retryDelay = Math.min(this.retryDelay * 2, RETRY_MAX_MS)
+          return
+        }
+
+        this.queue.shift()
+        this.retryDelay = RETRY_BASE_MS
+        await spooled
+        await deleteSpooledPart(part.sessionId, part.track, part.partNumber)
+      }
+    } finally {
+      this.draining = false
+    }
+  }
+}
+
+/**
+ * Finish recordings from earlier visits that never completed: upload any of
+ * their parts still in this browser's spool, then have the server assemble
+ * what it has. Sessions still receiving parts (another open tab) are skipped.
+ * Returns how many recordings were recovered.
+ */
+export async function recoverInterruptedRecordings(bookingId: string, skipSessionId?: string | null): Promise<number> {
+  const response = await fetch(`/api/lessons/${bookingId}/recordings/parts`)
+  if (!response.ok) return 0
+  const { sessions } = (await response.json()) as { sessions: OpenUploadSession[] }
+
+  const spooled = await listSpooledParts(bookingId)
+  const open = new Map(sessions.map(s => [s.sessionId, s]))
+
+  // Stale open sessions, plus spooled sessions the server never heard of
+  // (the browser was offline from the first part)
+  const sessionIds = new Set([
+    ...sessions.filter(s => s.stale).map(s => s.sessionId),
+    ...spooled.map(p => p.sessionId).filter(id => !open.has(id)),
+  ])
+  if (skipSessionId) sessionIds.delete(skipSessionId)
+
+  let recovered = 0
+  for (const sessionId of sessionIds) {
+    const uploaded: Record<RecordingTrack, Set<number>> = {
+      video: new Set(open.get(sessionId)?.uploadedParts ?? []),
+      audio: new Set(open.get(sessionId)?.uploadedAudioParts ?? []),
+    }
+
+    try {
+      for (const part of spooled.filter(p => p.sessionId === sessionId)) {
+        if (!uploaded[part.track].has(part.partNumber)) await uploadPart(part)
+        await deleteSpooledPart(sessionId, part.track, part.partNumber)
+      }
+
+      await completeSession(bookingId, sessionId)
+      recovered++
+      console.log(`[RecordingUpload] Recovered interrupted recording session ${sessionId}`)
+    } catch (err) {
+      // Still offline, or nothing usable was uploaded; try again next visit
+      console.warn(`[RecordingUpload] Could not recover session ${sessionId}:`, err)
+    }
+  }
+
+  return recovered
+}
@@ -0,0 +1,63 @@
+/**
+ * The DTLS certificate a participant uses in the lesson room.
+ *
+ * Presence and signaling messages carry whatever id the sender puts in them,
+ * so they can't say who someone is. A certificate can: each participant makes
+ * one on join and registers its fingerprint under their own account
+ * (POST /api/lessons/[relationshipId]/room-certificate). Every offer and answer
+ * names the sender's fingerprint, the browser only completes a connection with
+ * whoever holds that certificate, and peers look the role up by fingerprint
+ * (lesson_room_participant_role, migration 20260803000008).
+ */
+
+export interface RoomCertificate {
+  certificate: RTCCertificate
+  /** SHA-256, as uppercase colon-separated hex like the SDP's a=fingerprint */
+  fingerprint: string
+}
+
+const SHA256_FINGERPRINT = /^([0-9A-F]{2}:){31}[0-9A-F]{2}$/
+
+export function isCertificateFingerprint(value: unknown): value is string {
+  return typeof value === 'string' && SHA256_FINGERPRINT.test(value)
+}
+
+/**
+ * The SHA-256 certificate fingerprint an SDP offer or answer names. Null
+ * unless every a=fingerprint line names that same one, since a media
+ * section's fingerprint overrides the session's.
+ */
+export function sdpFingerprint(sdp: string | undefined): string | null {
+  const lines = sdp?.match(/^a=fingerprint:.*$/gm) ?? []
+  const fingerprints = new Set(lines.map(line =>
+    line.match(/^a=fingerprint:sha-256 ([0-9A-Fa-f:]+)\s*$/)?.[1].toUpperCase()
+  ))
+  if (fingerprints.size !== 1) return null
+  const [fingerprint] = fingerprints
+  return isCertificateFingerprint(fingerprint) ? fingerprint : null
+}
+
+/** Make a certificate for this visit to the room and register it; throws if it can't be registered */
+export async function createRoomCertificate(url: string): Promise<RoomCertificate> {
+  const certificate = await RTCPeerConnection.generateCertificate({
+    name: 'ECDSA',
+    namedCurve: 'P-256',
+  } as EcKeyGenParams)
+  const fingerprint = certificate.getFingerprints()
+    .find(f => f.algorithm === 'sha-256')?.value?.toUpperCase()
+  if (!isCertificateFingerprint(fingerprint)) {
+    throw new Error('This browser did not give the call a usable certificate')
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ fingerprint }),
+  })
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || `Could not join the lesson room (HTTP ${response.status})`)
+  }
+
+  return { certificate, fingerprint }
+}
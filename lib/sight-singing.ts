@@ -0,0 +1,550 @@
+/**
+ * Sight-singing: sing a written melody and get scored note by note.
+ *
+ * A teacher imports a MusicXML or MIDI file for a student; it is parsed in
+ * the teacher's browser (parseMelodyFile) into a Melody - one line of notes
+ * timed in quarter-note beats, split into phrases - and only that is stored.
+ * Students can also pick from the bundled SIGHT_SINGING_LIBRARY.
+ *
+ * components/SightSingingTrainer scrolls the melody past a playhead after a
+ * one-bar count-in and scores each note as its time passes (scoreSungNote):
+ * pitch from the detector readings during the note, octave-folded so any
+ * voice type can sing along, and timing from when the student first landed
+ * on it. Phrase results are what gets saved and shown to the teacher.
+ */
+
+import { NOTE_STRINGS_ASCII, noteIndex } from '@/lib/pitch-detection'
+
+export interface MelodyNote {
+  /** MIDI note number */
+  midi: number
+  /** In quarter-note beats from the start of the first bar */
+  start: number
+  duration: number
+}
+
+export interface Melody {
+  title: string
+  tempoBpm: number
+  /** Quarter-note beats per bar, e.g. 3 for 3/4 and 3 for 6/8 */
+  beatsPerBar: number
+  notes: MelodyNote[]
+  /** Index of the first note of each phrase; starts with 0 */
+  phrases: number[]
+}
+
+export type MelodySource = 'musicxml' | 'midi' | 'library'
+
+export const MELODY_SOURCES: MelodySource[] = ['musicxml', 'midi', 'library']
+
+export const MIN_MELODY_TEMPO = 30
+export const MAX_MELODY_TEMPO = 240
+export const DEFAULT_MELODY_TEMPO = 90
+export const MAX_MELODY_NOTES = 500
+const MIN_MELODY_MIDI = 28
+const MAX_MELODY_MIDI = 96
+
+/** A rest this long (in beats) ends a phrase */
+const PHRASE_REST_BEATS = 1
+/** Phrases without rests are cut at the next barline after this many bars */
+const MAX_PHRASE_BARS = 4
+
+export function noteLabel(midi: number): string {
+  return `${NOTE_STRINGS_ASCII[noteIndex(midi)]}${Math.floor(midi / 12) - 1}`
+}
+
+// ---------------------------------------------------------------------------
+// Building melodies
+// ---------------------------------------------------------------------------
+
+function clampTempo(tempo: number | null | undefined): number {
+  if (!tempo || !Number.isFinite(tempo)) return DEFAULT_MELODY_TEMPO
+  return Math.round(Math.max(MIN_MELODY_TEMPO, Math.min(MAX_MELODY_TEMPO, tempo)))
+}
+
+function splitPhrases(notes: MelodyNote[], beatsPerBar: number, breaths: Set<number>): number[] {
+  const phrases = [0]
+  for (let i = 1; i < notes.length; i++) {
+    const previous = notes[i - 1]
+    const gap = notes[i].start - (previous.start + previous.duration)
+    const phraseStart = notes[phrases[phrases.length - 1]].start
+    const onBarline = Math.abs(notes[i].start / beatsPerBar - Math.round(notes[i].start / beatsPerBar)) < 1e-6
+    if (
+      gap >= PHRASE_REST_BEATS - 1e-6 ||
+      breaths.has(i) ||
+      (onBarline && notes[i].start - phraseStart >= MAX_PHRASE_BARS * beatsPerBar - 1e-6)
+    ) {
+      phrases.push(i)
+    }
+  }
+  return phrases
+}
+
+/**
+ * Tidy parsed notes into a Melody: drop empty leading bars (keeping a
+ * pickup's place in its bar) and split phrases. Throws on unusable input.
+ */
+function finishMelody(
+  title: string,
+  tempo: number | null,
+  beatsPerBar: number,
+  rawNotes: MelodyNote[],
+  breaths: Set<number> = new Set()
+): Melody {
+  const notes = rawNotes
+    .filter(n => n.duration > 0)
+    .sort((a, b) => a.start - b.start)
+  if (notes.length < 2) throw new Error('No melody found in this file')
+  if (notes.length > MAX_MELODY_NOTES) throw new Error(`Melodies can have at most ${MAX_MELODY_NOTES} notes`)
+  if (notes.some(n => n.midi < MIN_MELODY_MIDI || n.midi > MAX_MELODY_MIDI)) {
+    throw new Error('Some notes are outside the singing range')
+  }
+
+  const bar = beatsPerBar > 0 ? beatsPerBar : 4
+  const offset = Math.floor(notes[0].start / bar) * bar
+  const round = (beats: number) => Math.round(beats * 1000) / 1000
+  const shifted = notes.map(n => ({ midi: n.midi, start: round(n.start - offset), duration: round(n.duration) }))
+
+  return {
+    title: title.trim().slice(0, 200) || 'Untitled melody',
+    tempoBpm: clampTempo(tempo),
+    beatsPerBar: bar,
+    notes: shifted,
+    phrases: splitPhrases(shifted, bar, breaths),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// MusicXML
+// ---------------------------------------------------------------------------
+
+const STEP_SEMITONES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 }
+
+function childText(el: Element, tag: string): string | null {
+  for (const child of Array.from(el.children)) {
+    if (child.tagName === tag) return child.textContent
+  }
+  return null
+}
+
+function childNumber(el: Element, tag: string): number | null {
+  const text = childText(el, tag)
+  const value = text === null ? NaN : Number(text)
+  return Number.isFinite(value) ? value : null
+}
+
+/**
+ * The first part's top voice. Chord notes below the melody, grace notes and
+ * other voices are skipped; tied notes are joined; breath marks end a phrase.
+ * Browser only (uses DOMParser).
+ */
+export function parseMusicXml(text: string, fallbackTitle: string): Melody {
+  const doc = new DOMParser().parseFromString(text, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('This is not a valid MusicXML file')
+  const part = doc.getElementsByTagName('part')[0]
+  if (!part) throw new Error('This MusicXML file has no parts')
+
+  const title =
+    doc.querySelector('work > work-title')?.textContent ||
+    doc.querySelector('movement-title')?.textContent ||
+    fallbackTitle
+
+  let divisions = 1
+  let beatsPerBar = 4
+  let tempo: number | null = null
+  let position = 0
+  let melodyVoice: string | null = null
+  let breathNext = false
+  const notes: MelodyNote[] = []
+  const breaths = new Set<number>()
+
+  const readTempo = (el: Element) => {
+    if (tempo !== null) return
+    const sound = el.tagName === 'sound' ? el : el.getElementsByTagName('sound')[0]
+    const fromSound = sound ? Number(sound.getAttribute('tempo')) : NaN
+    if (Number.isFinite(fromSound) && fromSound > 0) {
+      tempo = fromSound
+      return
+    }
+    const perMinute = Number(el.getElementsByTagName('per-minute')[0]?.textContent)
+    if (Number.isFinite(perMinute) && perMinute > 0) tempo = perMinute
+  }
+
+  for (const measure of Array.from(part.getElementsByTagName('measure'))) {
+    for (const el of Array.from(measure.children)) {
+      if (el.tagName === 'attributes') {
+        divisions = childNumber(el, 'divisions') ?? divisions
+        const time = el.getElementsByTagName('time')[0]
+        const beats = time ? childNumber(time, 'beats') : null
+        const beatType = time ? childNumber(time, 'beat-type') : null
+        if (beats && beatType) beatsPerBar = (beats * 4) / beatType
+      } else if (el.tagName === 'direction' || el.tagName === 'sound') {
+        readTempo(el)
+      } else if (el.tagName === 'backup' || el.tagName === 'forward') {
+        const beats = (childNumber(el, 'duration') ?? 0) / divisions
+        position += el.tagName === 'backup' ? -beats : beats
+      } else if (el.tagName === 'note') {
+        if (el.getElementsByTagName('grace').length > 0) continue
+        const isChord = el.getElementsByTagName('chord').length > 0
+        const duration = (childNumber(el, 'duration') ?? 0) / divisions
+        // Chord notes share the previous note's start, which has already advanced
+        const start = isChord ? position - duration : position
+        if (!isChord) position += duration
+
+        const voice = childText(el, 'voice') ?? '1'
+        melodyVoice ??= voice
+        if (voice !== melodyVoice || isChord) continue
+        if (el.getElementsByTagName('rest').length > 0) continue
+
+        const pitch = el.getElementsByTagName('pitch')[0]
+        const step = pitch ? childText(pitch, 'step') : null
+        const octave = pitch ? childNumber(pitch, 'octave') : null
+        if (!step || !(step in STEP_SEMITONES) || octave === null) continue
+        const midi = (octave + 1) * 12 + STEP_SEMITONES[step] + Math.round(childNumber(pitch!, 'alter') ?? 0)
+
+        const tieStop = Array.from(el.getElementsByTagName('tie')).some(t => t.getAttribute('type') === 'stop')
+        const last = notes[notes.length - 1]
+        if (tieStop && last && last.midi === midi && Math.abs(last.start + last.duration - start) < 1e-6) {
+          last.duration += duration
+        } else {
+          if (breathNext) breaths.add(notes.length)
+          breathNext = false
+          notes.push({ midi, start, duration })
+        }
+        if (el.getElementsByTagName('breath-mark').length > 0) breathNext = true
+      }
+    }
+  }
+
+  return finishMelody(title, tempo, beatsPerBar, notes, breaths)
+}
+
+// ---------------------------------------------------------------------------
+// MIDI
+// ---------------------------------------------------------------------------
+
+/**
+ * The track with the most notes, reduced to its top line (the highest note
+ * at each onset, cut short where the next one starts). Drum channel ignored.
+ */
+export function parseMidi(buffer: ArrayBuffer, fallbackTitle: string): Melody {
+  const data = new DataView(buffer)
+  const readString = (at: number) => String.fromCharCode(data.getUint8(at), data.getUint8(at + 1), data.getUint8(at + 2), data.getUint8(at + 3))
+
+  if (buffer.byteLength < 14 || readString(0) !== 'MThd') throw new Error('This is not a valid MIDI file')
+  const headerLength = data.getUint32(4)
+  const trackCount = data.getUint16(10)
+  const division = data.getUint16(12)
+  if (division & 0x8000) throw new Error('SMPTE-timed MIDI files are not supported')
+
+  let tempo: number | null = null
+  let beatsPerBar = 4
+  let title: string | null = null
+  let best: { key: number; start: number; end: number }[] = []
+
+  let offset = 8 + headerLength
+  for (let track = 0; track < trackCount && offset + 8 <= buffer.byteLength; track++) {
+    if (readString(offset) !== 'MTrk') throw new Error('This MIDI file is damaged')
+    const end = Math.min(buffer.byteLength, offset + 8 + data.getUint32(offset + 4))
+    let pos = offset + 8
+    offset = end
+
+    const readVarLen = () => {
+      let value = 0
+      for (let i = 0; i < 4 && pos < end; i++) {
+        const byte = data.getUint8(pos++)
+        value = (value << 7) | (byte & 0x7f)
+        if (!(byte & 0x80)) break
+      }
+      return value
+    }
+
+    let tick = 0
+    let status = 0
+    const open = new Map<number, number>()
+    const notes: { key: number; start: number; end: number }[] = []
+
+    while (pos < end) {
+      tick += readVarLen()
+      let byte = data.getUint8(pos)
+      if (byte & 0x80) {
+        status = byte
+        pos++
+      } else if (!status) {
+        throw new Error('This MIDI file is damaged')
+      }
+      byte = status
+
+      if (byte === 0xff) {
+        const type = data.getUint8(pos++)
+        const length = readVarLen()
+        if (type === 0x51 && length === 3 && tempo === null) {
+          const microsPerQuarter = (data.getUint8(pos) << 16) | (data.getUint8(pos + 1) << 8) | data.getUint8(pos + 2)
+          if (microsPerQuarter > 0) tempo = 60000000 / microsPerQuarter
+        } else if (type === 0x58 && length >= 2 && track <= 1) {
+          beatsPerBar = (data.getUint8(pos) * 4) / Math.pow(2, data.getUint8(pos + 1))
+        } else if ((type === 0x03 || type === 0x01) && title === null && track === 0) {
+          title = new TextDecoder().decode(new Uint8Array(buffer, pos, Math.min(length, end - pos))).trim() || null
+        }
+        pos += length
+        status = 0
+      } else if (byte === 0xf0 || byte === 0xf7) {
+        pos += readVarLen()
+        status = 0
+      } else {
+        const kind = byte & 0xf0
+        const channel = byte & 0x0f
+        const first = data.getUint8(pos++)
+        const second = kind === 0xc0 || kind === 0xd0 ? 0 : data.getUint8(pos++)
+        if (channel === 9) continue
+        if (kind === 0x90 && second > 0) {
+          open.set(first, tick)
+        } else if (kind === 0x80 || (kind === 0x90 && second === 0)) {
+          const start = open.get(first)
+          if (start !== undefined) {
+            notes.push({ key: first, start, end: tick })
+            open.delete(first)
+          }
+        }
+      }
+    }
+
+    if (notes.length > best.length) best = notes
+  }
+
+  // Top line: highest note per onset, each cut off by the next
+  const byStart = new Map<number, { key: number; start: number; end: number }>()
+  for (const note of best) {
+    const existing = byStart.get(note.start)
+    if (!existing || note.key > existing.key) byStart.set(note.start, note)
+  }
+  const line = [...byStart.values()].sort((a, b) => a.start - b.start)
+  const notes = line.map((note, i) => {
+    const next = line[i + 1]
+    const endTick = next ? Math.min(note.end, next.start) : note.end
+    return { midi: note.key, start: note.start / division, duration: (endTick - note.start) / division }
+  })
+
+  return finishMelody(title || fallbackTitle, tempo, beatsPerBar, notes)
+}
+
+/** Parse an uploaded .musicxml/.xml or .mid/.midi file. Browser only. */
+export async function parseMelodyFile(file: File): Promise<{ melody: Melody; source: MelodySource }> {
+  const name = file.name.toLowerCase()
+  const fallbackTitle = file.name.replace(/\.[^.]+$/, '')
+  if (name.endsWith('.mid') || name.endsWith('.midi')) {
+    return { melody: parseMidi(await file.arrayBuffer(), fallbackTitle), source: 'midi' }
+  }
+  if (name.endsWith('.mxl')) {
+    throw new Error('Compressed MusicXML (.mxl) is not supported yet. Export it as uncompressed .musicxml.')
+  }
+  if (name.endsWith('.musicxml') || name.endsWith('.xml')) {
+    return { melody: parseMusicXml(await file.text(), fallbackTitle), source: 'musicxml' }
+  }
+  throw new Error('Choose a MusicXML (.musicxml, .xml) or MIDI (.mid) file')
+}
+
+/** Check a Melody sent to the API. Returns an error message if it is not usable. */
+export function validateMelody(raw: unknown): Melody | string {
+  if (!raw || typeof raw !== 'object') return 'Missing melody'
+  const { title, tempoBpm, beatsPerBar, notes, phrases } = raw as Record<string, unknown>
+  if (!Array.isArray(notes) || notes.length < 2) return 'Melody needs at least two notes'
+  if (notes.length > MAX_MELODY_NOTES) return `Melodies can have at most ${MAX_MELODY_NOTES} notes`
+  if (typeof beatsPerBar !== 'number' || beatsPerBar <= 0 || beatsPerBar > 16) return 'Invalid time signature'
+
+  const cleanNotes: MelodyNote[] = []
+  for (const note of notes) {
+    const { midi, start, duration } = (note || {}) as Record<string, unknown>
+    if (!Number.isInteger(midi) || (midi as number) < MIN_MELODY_MIDI || (midi as number) > MAX_MELODY_MIDI) return 'Invalid note'
+    if (typeof start !== 'number' || !Number.isFinite(start) || start < 0) return 'Invalid note timing'
+    if (typeof duration !== 'number' || !Number.isFinite(duration) || duration <= 0) return 'Invalid note timing'
+    cleanNotes.push({ midi: midi as number, start, duration })
+  }
+
+  const cleanPhrases = Array.isArray(phrases)
+    ? phrases.filter((p): p is number => Number.isInteger(p) && p >= 0 && p < cleanNotes.length)
+    : []
+  if (cleanPhrases[0] !== 0) cleanPhrases.unshift(0)
+
+  return {
+    title: String(title ?? '').trim().slice(0, 200) || 'Untitled melody',
+    tempoBpm: clampTempo(Number(tempoBpm)),
+    beatsPerBar,
+    notes: cleanNotes,
+    phrases: [...new Set(cleanPhrases)].sort((a, b) => a - b),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Bundled exercises
+// ---------------------------------------------------------------------------
+
+/** 'C4/2' is a half note C4, 'r/1' a quarter rest; the length defaults to one beat */
+function fromNoteList(title: string, tempo: number, beatsPerBar: number, text: string): Melody {
+  const notes: MelodyNote[] = []
+  let position = 0
+  for (const token of text.split(/\s+/).filter(t => t && t !== '|')) {
+    const [name, length] = token.split('/')
+    const duration = length ? Number(length) : 1
+    const match = name.match(/^([A-G])(#|b)?(-?\d)$/)
+    if (match) {
+      const accidental = match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0
+      notes.push({ midi: (Number(match[3]) + 1) * 12 + STEP_SEMITONES[match[1]] + accidental, start: position, duration })
+    }
+    position += duration
+  }
+  return finishMelody(title, tempo, beatsPerBar, notes)
+}
+
+export interface LibraryExercise {
+  id: string
+  level: 'Beginner' | 'Intermediate' | 'Advanced'
+  melody: Melody
+}
+
+export const SIGHT_SINGING_LIBRARY: LibraryExercise[] = [
+  {
+    id: 'steps-to-sol',
+    level: 'Beginner',
+    melody: fromNoteList('Stepwise to Sol', 80, 4, 'C4 D4 E4 F4 | G4/3 r | G4 F4 E4 D4 | C4/3 r'),
+  },
+  {
+    id: 'tonic-triad',
+    level: 'Beginner',
+    melody: fromNoteList('Leaps in the Tonic Triad', 76, 4, 'C4 E4 G4/2 | E4 C4 G4/2 | r/4 | C4 E4 G4 C5 | G4 E4 C4/2'),
+  },
+  {
+    id: 'twinkle',
+    level: 'Beginner',
+    melody: fromNoteList('Twinkle, Twinkle, Little Star', 90, 4, 'C4 C4 G4 G4 | A4 A4 G4/2 | F4 F4 E4 E4 | D4 D4 C4/2'),
+  },
+  {
+    id: 'ode-to-joy',
+    level: 'Intermediate',
+    melody: fromNoteList(
+      'Ode to Joy (Beethoven)',
+      100,
+      4,
+      'E4 E4 F4 G4 | G4 F4 E4 D4 | C4 C4 D4 E4 | E4/1.5 D4/0.5 D4/2 | E4 E4 F4 G4 | G4 F4 E4 D4 | C4 C4 D4 E4 | D4/1.5 C4/0.5 C4/2'
+    ),
+  },
+  {
+    id: 'minor-waltz',
+    level: 'Intermediate',
+    melody: fromNoteList('Minor Waltz', 84, 3, 'A3 B3 C4 | D4/2 C4 | B3 C4 D4 | E4/3 | r/3 | E4 D4 C4 | B3/2 C4 | B3 A3 G#3 | A3/3'),
+  },
+  {
+    id: 'leaps-and-turns',
+    level: 'Advanced',
+    melody: fromNoteList('Leaps and Turns', 92, 4, 'G3 C4 E4 G4 | F4/0.5 E4/0.5 D4 B3/2 | r/4 | C4 A4 G4 F4 | E4 D4/0.5 E4/0.5 C4/2'),
+  },
+]
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+/** Readings this far before a note count towards its onset */
+export const ONSET_EARLY_MS = 200
+/** An onset this far off scores zero for timing */
+export const ONSET_TOLERANCE_MS = 400
+/** Readings within this many cents (any octave) count as on the note */
+export const SIGHT_IN_TUNE_CENTS = 50
+
+/** One detector reading, timed in ms from beat 0 of the melody */
+export interface SungReading {
+  t: number
+  frequency: number
+}
+
+export interface SungNoteResult {
+  hit: boolean
+  /** 0-100 */
+  pitchScore: number
+  /** 0-100 */
+  timingScore: number
+  /** When the student landed on the note, relative to its start; null if never */
+  onsetMs: number | null
+  score: number
+}
+
+export interface PhraseResult {
+  phrase: number
+  firstNote: number
+  lastNote: number
+  totalNotes: number
+  notesHit: number
+  pitchAccuracy: number
+  timingAccuracy: number
+  score: number
+}
+
+/** Cents from the target, folded into one octave (-600 to 600) */
+export function centsFromTarget(frequency: number, midi: number): number {
+  const target = 440 * Math.pow(2, (midi - 69) / 12)
+  const cents = 1200 * Math.log2(frequency / target)
+  return ((((cents + 600) % 1200) + 1200) % 1200) - 600
+}
+
+export function scoreSungNote(note: MelodyNote, readings: SungReading[], msPerBeat: number): SungNoteResult {
+  const startMs = note.start * msPerBeat
+  const endMs = (note.start + note.duration) * msPerBeat
+
+  const during = readings.filter(r => r.t >= startMs && r.t < endMs)
+  const pitchScore = during.length === 0
+    ? 0
+    : during.reduce((sum, r) => {
+      const cents = Math.abs(centsFromTarget(r.frequency, note.midi))
+      return sum + (cents <= SIGHT_IN_TUNE_CENTS ? 100 - cents : 0)
+    }, 0) / during.length
+
+  const onset = readings.find(r =>
+    r.t >= startMs - ONSET_EARLY_MS &&
+    r.t < Math.min(endMs, startMs + ONSET_TOLERANCE_MS) &&
+    Math.abs(centsFromTarget(r.frequency, note.midi)) <= SIGHT_IN_TUNE_CENTS
+  )
+  const onsetMs = onset ? onset.t - startMs : null
+  const timingScore = onsetMs === null ? 0 : Math.max(0, 100 - (Math.abs(onsetMs) / ONSET_TOLERANCE_MS) * 100)
+
+  return {
+    hit: onsetMs !== null && pitchScore >= 50,
+    pitchScore,
+    timingScore,
+    onsetMs,
+    score: pitchScore * 0.7 + timingScore * 0.3,
+  }
+}
+
+const average = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0
+const oneDecimal = (value: number) => Math.round(value * 10) / 10
+
+export function summarizePhrases(melody: Melody, results: SungNoteResult[]): PhraseResult[] {
+  return melody.phrases.map((firstNote, phrase) => {
+    const lastNote = (melody.phrases[phrase + 1] ?? melody.notes.length) - 1
+    const notes = results.slice(firstNote, lastNote + 1)
+    return {
+      phrase,
+      firstNote,
+      lastNote,
+      totalNotes: notes.length,
+      notesHit: notes.filter(n => n.hit).length,
+      pitchAccuracy: oneDecimal(average(notes.map(n => n.pitchScore))),
+      timingAccuracy: oneDecimal(average(notes.map(n => n.timingScore))),
+      score: oneDecimal(average(notes.map(n => n.score))),
+    }
+  })
+}
+
+/** Whole-performance figures, weighted by the notes in each phrase */
+export function summarizeSightSinging(phrases: PhraseResult[]) {
+  const totalNotes = phrases.reduce((sum, p) => sum + p.totalNotes, 0)
+  const weighted = (pick: (p: PhraseResult) => number) =>
+    totalNotes === 0 ? 0 : oneDecimal(phrases.reduce((sum, p) => sum + pick(p) * p.totalNotes, 0) / totalNotes)
+  return {
+    totalNotes,
+    notesHit: phrases.reduce((sum, p) => sum + p.notesHit, 0),
+    pitchAccuracy: weighted(p => p.pitchAccuracy),
+    timingAccuracy: weighted(p => p.timingAccuracy),
+    overallScore: weighted(p => p.score),
+  }
+}
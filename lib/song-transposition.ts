@@ -0,0 +1,126 @@
+/**
+ * Song transposition: which key a student should sing a song in.
+ *
+ * Song search (and key verification) return the song's original key and,
+ * where known, the lowest and highest notes of its lead vocal melody. Put
+ * against the student's measured VocalRange, recommendTransposition picks the
+ * shift that keeps the melody inside the range - comfortably if possible -
+ * while moving it as little as possible, with an octave either way allowed
+ * (a tenor singing a soprano tune an octave down).
+ *
+ * components/SongPitchTrainer lets the student practice in the transposed key,
+ * and the key they last saved a session in is remembered per song in
+ * song_key_preferences (see app/api/pitch-training/song-key-preferences).
+ */
+
+import { MAX_RANGE_MIDI, MIN_RANGE_MIDI, pitchClassOf, type VocalRange } from '@/lib/vocal-range'
+
+export type SongMode = 'major' | 'minor'
+
+export interface SongMelodyRange {
+  /** MIDI note numbers of the original recording's lead vocal */
+  low: number
+  high: number
+}
+
+export interface Transposition {
+  /** Key change, -6 to +5 */
+  semitones: number
+  /** Octaves to sing away from the recording, -1 to 1 */
+  octave: number
+  /** The melody where the student would sing it */
+  low: number
+  high: number
+  /** Whether the whole melody lies inside the student's full range */
+  fits: boolean
+}
+
+/** Manual transposition is limited to this many semitones either way */
+export const MAX_TRANSPOSE = 11
+/** Wider than this and the melody range is almost certainly wrong */
+const MAX_MELODY_SPAN = 36
+
+// Conventional spellings; every one is a key in SongPitchTrainer's SCALE_NOTES
+const KEY_NAMES: Record<SongMode, string[]> = {
+  major: ['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'],
+  minor: ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'G#', 'A', 'Bb', 'B'],
+}
+
+/** The key `semitones` away from `key`, or `key` unchanged if it can't be read */
+export function transposeKey(key: string, mode: SongMode, semitones: number): string {
+  if (semitones === 0) return key
+  const pitchClass = pitchClassOf(key)
+  if (pitchClass === null) return key
+  return KEY_NAMES[mode][(((pitchClass + semitones) % 12) + 12) % 12]
+}
+
+/** The smallest shift from one key to another, -6 to +5, or null if either can't be read */
+export function semitonesBetween(fromKey: string, toKey: string): number | null {
+  const from = pitchClassOf(fromKey)
+  const to = pitchClassOf(toKey)
+  if (from === null || to === null) return null
+  return ((((to - from + 6) % 12) + 12) % 12) - 6
+}
+
+export function transposeLabel(semitones: number): string {
+  if (semitones === 0) return 'Original key'
+  const size = Math.abs(semitones) === 1 ? 'semitone' : 'semitones'
+  return `${semitones > 0 ? 'Up' : 'Down'} ${Math.abs(semitones)} ${size}`
+}
+
+/** 'A3', 'C#4', 'Eb2' etc. to a MIDI number, or null */
+export function noteNameToMidi(name: string): number | null {
+  const match = name.trim().match(/^([A-Ga-g](?:#|♯|b|♭)?)(-?\d)$/)
+  if (!match) return null
+  const pitchClass = pitchClassOf(match[1])
+  if (pitchClass === null) return null
+  // Cb and B# belong to the octave next door
+  const letter = match[1][0].toUpperCase()
+  const wrap = letter === 'C' && pitchClass === 11 ? -1 : letter === 'B' && pitchClass === 0 ? 1 : 0
+  return (parseInt(match[2]) + 1 + wrap) * 12 + pitchClass
+}
+
+/**
+ * A melody range from note names ('A2') or MIDI numbers, or null when either
+ * end is missing or the pair is implausible for a sung melody.
+ */
+export function parseMelodyRange(low: unknown, high: unknown): SongMelodyRange | null {
+  const toMidi = (value: unknown) =>
+    typeof value === 'number' ? value : typeof value === 'string' ? noteNameToMidi(value) : null
+  const lowMidi = toMidi(low)
+  const highMidi = toMidi(high)
+  if (lowMidi === null || highMidi === null) return null
+  if (!Number.isInteger(lowMidi) || !Number.isInteger(highMidi)) return null
+  if (lowMidi < MIN_RANGE_MIDI || highMidi > MAX_RANGE_MIDI) return null
+  if (highMidi <= lowMidi || highMidi - lowMidi > MAX_MELODY_SPAN) return null
+  return { low: lowMidi, high: highMidi }
+}
+
+const outside = (low: number, high: number, rangeLow: number, rangeHigh: number) =>
+  Math.max(0, rangeLow - low) + Math.max(0, high - rangeHigh)
+
+/**
+ * The best key shift for this melody in this voice. Every semitone the melody
+ * leaves the full range costs far more than one outside the comfortable
+ * range; after that smaller shifts win, and singing in the recording's own
+ * octave wins a tie.
+ */
+export function recommendTransposition(range: VocalRange, melody: SongMelodyRange): Transposition {
+  const candidates: { transposition: Transposition; cost: number }[] = []
+  for (let semitones = -6; semitones <= 5; semitones++) {
+    for (const octave of [0, -1, 1]) {
+      const low = melody.low + semitones + octave * 12
+      const high = melody.high + semitones + octave * 12
+      candidates.push({
+        transposition: { semitones, octave, low, high, fits: low >= range.lowest && high <= range.highest },
+        cost:
+          outside(low, high, range.lowest, range.highest) * 10 +
+          outside(low, high, range.comfortableLow, range.comfortableHigh) +
+          Math.abs(semitones) * 0.5 +
+          Math.abs(octave),
+      })
+    }
+  }
+  // Stable sort: an exact tie goes to the downward shift, then the recording's octave
+  return candidates.sort((a, b) => a.cost - b.cost)[0].transposition
+}
@@ -0,0 +1,306 @@
+/**
+ * Teacher availability and open-slot search for student self-booking.
+ *
+ * Teachers publish weekly windows (teacher_availability) and blackout dates
+ * (teacher_blackout_dates) as wall-clock times in their profiles.timezone,
+ * plus a buffer between lessons and an optional daily limit. A slot is open
+ * when the lesson fits inside a window and every weekly repeat of it in the
+ * search horizon avoids the teacher's other lessons (all students, including
+ * moved and extra lessons from lesson_occurrences), the buffer around them,
+ * blackout dates and the daily limit.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz'
+import {
+  DEFAULT_LESSON_TIMEZONE,
+  RECURRING_BOOKING_COLUMNS,
+  loadLessonOccurrences,
+  type LessonOccurrence,
+  type RecurringBooking,
+} from '@/lib/lesson-occurrences'
+
+/** Candidate start times are offered on this grid inside each window. */
+export const SLOT_INTERVAL_MINUTES = 30
+/** How far ahead students can pick a first lesson. */
+export const BOOKING_HORIZON_DAYS = 28
+/** Minimum notice before a self-booked first lesson. */
+export const MIN_BOOKING_NOTICE_HOURS = 24
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+
+export interface AvailabilityWindow {
+  id?: string
+  dayOfWeek: number
+  /** HH:MM in the teacher's timezone. */
+  startTime: string
+  endTime: string
+}
+
+export interface BlackoutDate {
+  id?: string
+  /** YYYY-MM-DD in the teacher's timezone. */
+  date: string
+  reason: string | null
+}
+
+export interface TeacherAvailability {
+  instructorId: string
+  timezone: string
+  bufferMinutes: number
+  maxLessonsPerDay: number | null
+  windows: AvailabilityWindow[]
+  blackoutDates: BlackoutDate[]
+}
+
+export interface SlotSearch {
+  from: Date
+  to: Date
+  durationMinutes: number
+  /** Lessons of this booking are ignored, so a student can move their own slot. */
+  excludeBookingId?: string
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+function localDate(instant: Date, timeZone: string): string {
+  return formatInTimeZone(instant, timeZone, 'yyyy-MM-dd')
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Check and normalise windows from a request body; returns an error message when invalid. */
+export function validateAvailabilityWindows(windows: unknown): AvailabilityWindow[] | string {
+  if (!Array.isArray(windows)) return 'windows must be an array'
+
+  const parsed: AvailabilityWindow[] = []
+  for (const window of windows) {
+    const dayOfWeek = Number(window?.dayOfWeek)
+    const startTime = String(window?.startTime ?? '').slice(0, 5)
+    const endTime = String(window?.endTime ?? '').slice(0, 5)
+
+    if (!Number.isInteger(dayOfWeek) || dayOfWeek < 0 || dayOfWeek > 6) {
+      return 'Invalid day of week (must be 0-6)'
+    }
+    if (!TIME_PATTERN.test(startTime) || !TIME_PATTERN.test(endTime)) {
+      return 'Invalid time format (use HH:MM)'
+    }
+    if (minutesOf(endTime) <= minutesOf(startTime)) {
+      return 'Availability windows must end after they start'
+    }
+    parsed.push({ dayOfWeek, startTime, endTime })
+  }
+
+  const byDay = [...parsed].sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.startTime.localeCompare(b.startTime))
+  for (let i = 1; i < byDay.length; i++) {
+    if (byDay[i].dayOfWeek === byDay[i - 1].dayOfWeek && byDay[i].startTime < byDay[i - 1].endTime) {
+      return 'Availability windows on the same day cannot overlap'
+    }
+  }
+
+  return byDay
+}
+
+/** Start instants on the slot grid that fit a lesson inside a window, outside blackout dates. */
+export function generateCandidateSlots(availability: TeacherAvailability, search: SlotSearch): Date[] {
+  const { timezone } = availability
+  const blackouts = new Set(availability.blackoutDates.map((b) => b.date))
+  const lastDate = localDate(search.to, timezone)
+  const starts: Date[] = []
+
+  for (
+    let cursor = new Date(`${localDate(search.from, timezone)}T12:00:00Z`);
+    cursor.toISOString().slice(0, 10) <= lastDate;
+    cursor = new Date(cursor.getTime() + 24 * 60 * 60 * 1000)
+  ) {
+    const date = cursor.toISOString().slice(0, 10)
+    if (blackouts.has(date)) continue
+
+    for (const window of availability.windows.filter((w) => w.dayOfWeek === cursor.getUTCDay())) {
+      const lastStart = minutesOf(window.endTime) - search.durationMinutes
+      for (let minute = minutesOf(window.startTime); minute <= lastStart; minute += SLOT_INTERVAL_MINUTES) {
+        const time = `${String(Math.floor(minute / 60)).padStart(2, '0')}:${String(minute % 60).padStart(2, '0')}`
+        const start = fromZonedTime(`${date}T${time}:00`, timezone)
+        if (start >= search.from && start < search.to) starts.push(start)
+      }
+    }
+  }
+
+  return starts
+}
+
+function conflictsWith(
+  availability: TeacherAvailability,
+  lessons: LessonOccurrence[],
+  start: Date,
+  durationMinutes: number
+): boolean {
+  const bufferMs = availability.bufferMinutes * 60 * 1000
+  const end = start.getTime() + durationMinutes * 60 * 1000
+  const date = localDate(start, availability.timezone)
+  let lessonsThatDay = 0
+
+  for (const lesson of lessons) {
+    const lessonStart = new Date(lesson.startsAt).getTime()
+    const lessonEnd = lessonStart + lesson.durationMinutes * 60 * 1000
+    if (start.getTime() < lessonEnd + bufferMs && lessonStart < end + bufferMs) return true
+    if (localDate(new Date(lessonStart), availability.timezone) === date) lessonsThatDay++
+  }
+
+  return availability.maxLessonsPerDay !== null && lessonsThatDay >= availability.maxLessonsPerDay
+}
+
+/**
+ * Whether `start` can become a weekly lesson: it is on the availability grid
+ * and neither it nor its weekly repeats up to `search.to` clash with the
+ * teacher's scheduled lessons. Repeats on blackout dates are skipped rather
+ * than blocking the slot.
+ */
+export function isSlotOpen(
+  availability: TeacherAvailability,
+  lessons: LessonOccurrence[],
+  start: Date,
+  search: SlotSearch
+): boolean {
+  const onGrid = generateCandidateSlots(availability, {
+    ...search,
+    from: start,
+    to: new Date(start.getTime() + 60 * 1000),
+  }).some((slot) => slot.getTime() === start.getTime())
+  if (!onGrid) return false
+
+  const blackouts = new Set(availability.blackoutDates.map((b) => b.date))
+  const scheduled = lessons.filter(
+    (lesson) => lesson.status === 'scheduled' && lesson.bookingId !== search.excludeBookingId
+  )
+
+  for (let week = 0; start.getTime() + week * WEEK_MS < search.to.getTime(); week++) {
+    const repeat = new Date(start.getTime() + week * WEEK_MS)
+    if (week > 0 && blackouts.has(localDate(repeat, availability.timezone))) continue
+    if (conflictsWith(availability, scheduled, repeat, search.durationMinutes)) return false
+  }
+  return true
+}
+
+/**
+ * Whether a single lesson can move to `start`: it is on the availability grid
+ * on a day that isn't blacked out, and it clashes with none of the teacher's
+ * other lessons. `moving` is the lesson being moved, so it doesn't clash with
+ * itself.
+ */
+export function isRescheduleSlotOpen(
+  availability: TeacherAvailability,
+  lessons: LessonOccurrence[],
+  start: Date,
+  durationMinutes: number,
+  moving: LessonOccurrence
+): boolean {
+  const onGrid = generateCandidateSlots(availability, {
+    from: start,
+    to: new Date(start.getTime() + 60 * 1000),
+    durationMinutes,
+  }).some((slot) => slot.getTime() === start.getTime())
+  if (!onGrid) return false
+
+  const isMoving = (lesson: LessonOccurrence) =>
+    lesson.bookingId === moving.bookingId &&
+    (moving.occurrenceId
+      ? lesson.occurrenceId === moving.occurrenceId
+      : lesson.originalStartsAt === moving.originalStartsAt)
+  const others = lessons.filter((lesson) => lesson.status === 'scheduled' && !isMoving(lesson))
+
+  return !conflictsWith(availability, others, start, durationMinutes)
+}
+
+/** Open first-lesson slots in [search.from, search.to). */
+export function findOpenSlots(
+  availability: TeacherAvailability,
+  lessons: LessonOccurrence[],
+  search: SlotSearch
+): Date[] {
+  return generateCandidateSlots(availability, search).filter((start) => isSlotOpen(availability, lessons, start, search))
+}
+
+/** Default search range: from the minimum notice to the booking horizon. */
+export function defaultSlotSearchRange(now: Date = new Date()): { from: Date; to: Date } {
+  return {
+    from: new Date(now.getTime() + MIN_BOOKING_NOTICE_HOURS * 60 * 60 * 1000),
+    to: new Date(now.getTime() + BOOKING_HORIZON_DAYS * 24 * 60 * 60 * 1000),
+  }
+}
+
+export async function loadTeacherAvailability(
+  supabase: SupabaseClient,
+  instructorId: string
+): Promise<TeacherAvailability | null> {
+  const [{ data: teacher }, { data: windows }, { data: blackouts }] = await Promise.all([
+    supabase
+      .from('profiles')
+      .select('id, timezone, booking_buffer_minutes, max_lessons_per_day')
+      .eq('id', instructorId)
+      .maybeSingle(),
+    supabase
+      .from('teacher_availability')
+      .select('id, day_of_week, start_time, end_time')
+      .eq('instructor_id', instructorId)
+      .order('day_of_week')
+      .order('start_time'),
+    supabase
+      .from('teacher_blackout_dates')
+      .select('id, blackout_date, reason')
+      .eq('instructor_id', instructorId)
+      .gte('blackout_date', new Date().toISOString().slice(0, 10))
+      .order('blackout_date'),
+  ])
+
+  if (!teacher) return null
+
+  return {
+    instructorId,
+    timezone: teacher.timezone || DEFAULT_LESSON_TIMEZONE,
+    bufferMinutes: teacher.booking_buffer_minutes ?? 0,
+    maxLessonsPerDay: teacher.max_lessons_per_day ?? null,
+    windows: (windows || []).map((w) => ({
+      id: w.id,
+      dayOfWeek: w.day_of_week,
+      startTime: String(w.start_time).slice(0, 5),
+      endTime: String(w.end_time).slice(0, 5),
+    })),
+    blackoutDates: (blackouts || []).map((b) => ({ id: b.id, date: b.blackout_date, reason: b.reason })),
+  }
+}
+
+/**
+ * All of a teacher's lessons in [from, to), across every confirmed booking.
+ * Needs a client that can read other students' bookings (service role).
+ */
+export async function loadTeacherLessons(
+  admin: SupabaseClient,
+  instructorId: string,
+  from: Date,
+  to: Date
+): Promise<LessonOccurrence[]> {
+  const { data: bookings, error } = await admin
+    .from('bookings')
+    .select(RECURRING_BOOKING_COLUMNS)
+    .eq('instructor_id', instructorId)
+    .eq('status', 'confirmed')
+
+  if (error) {
+    console.error('[TeacherAvailability] Error loading bookings:', error)
+  }
+
+  return loadLessonOccurrences(admin, (bookings || []) as RecurringBooking[], from, to)
+}
@@ -1,8 +1,63 @@
-/** Stub SMS sender — VAAA email notifications use email only unless Telnyx is wired later. */
+/**
+ * SMS via the Telnyx Messaging API. Needs TELNYX_API_KEY and either
+ * TELNYX_FROM_NUMBER or TELNYX_MESSAGING_PROFILE_ID (number pool); without
+ * them sendSms reports "not configured" instead of throwing. Opt-outs (STOP)
+ * are handled by Telnyx on the messaging profile.
+ */
 
-export async function sendSms(_params: {
+const TELNYX_MESSAGES_URL = 'https://api.telnyx.com/v2/messages'
+
+/** Loose E.164 normalisation: keeps digits, assumes +1 for 10-digit US numbers. */
+export function normalizePhoneNumber(phone: string): string | null {
+  const digits = phone.replace(/[^\d]/g, '')
+  if (phone.trim().startsWith('+')) return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null
+  if (digits.length === 10) return `+1${digits}`
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`
+  return null
+}
+
+export async function sendSms(params: {
   to: string
   body: string
-}): Promise<{ success: boolean; error?: string }> {
-  return { success: false, error: 'SMS not configured for Voice Alchemy Academy' }
+}): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  const apiKey = process.env.TELNYX_API_KEY
+  const from = process.env.TELNYX_FROM_NUMBER
+  const messagingProfileId = process.env.TELNYX_MESSAGING_PROFILE_ID
+
+  if (!apiKey || (!from && !messagingProfileId)) {
+    return { success: false, error: 'SMS not configured for Voice Alchemy Academy' }
+  }
+
+  const to = normalizePhoneNumber(params.to)
+  if (!to) {
+    return { success: false, error: `Invalid phone number: ${params.to}` }
+  }
+
+  try {
+    const response = await fetch(TELNYX_MESSAGES_URL, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        to,
+        text: params.body,
+        ...(from ? { from } : {}),
+        ...(messagingProfileId ? { messaging_profile_id: messagingProfileId } : {}),
+      }),
+    })
+
+    const data = await response.json().catch(() => null)
+    if (!response.ok) {
+      const detail = data?.errors?.[0]?.detail || data?.errors?.[0]?.title || response.statusText
+      console.error('[Telnyx] Send failed:', response.status, detail)
+      return { success: false, error: detail }
+    }
+
+    return { success: true, messageId: data?.data?.id }
+  } catch (err) {
+    console.error('[Telnyx] Send error:', err)
+    return { success: false, error: err instanceof Error ? err.message : 'SMS send failed' }
+  }
 }
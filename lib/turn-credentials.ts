@@ -0,0 +1,45 @@
+/**
+ * Short-lived TURN credentials for the lesson room (server only).
+ *
+ * Uses the TURN REST API scheme coturn implements with
+ * `use-auth-secret` / `static-auth-secret`: the username is
+ * `<unix expiry>:<label>` and the password is base64(HMAC-SHA1(secret,
+ * username)). coturn recomputes the HMAC and rejects expired usernames, so
+ * nothing but the shared secret has to be provisioned on the TURN server and
+ * the secret never reaches the browser.
+ *
+ * Env:
+ *   TURN_URLS    comma-separated, e.g. "turn:turn.example.com:3478,turns:turn.example.com:5349"
+ *   TURN_SECRET  the coturn static-auth-secret
+ */
+
+import crypto from 'crypto'
+
+/** Long enough to cover a lesson; the client refreshes well before expiry */
+export const TURN_CREDENTIAL_TTL_SECONDS = 2 * 60 * 60
+
+export interface TurnCredentials {
+  iceServers: RTCIceServer[]
+  expiresAt: string
+}
+
+/**
+ * Issue credentials labelled with `scope` (booking and user), which shows up
+ * in coturn's logs for the allocation. Returns null when TURN isn't
+ * configured, in which case the room falls back to STUN only.
+ */
+export function issueTurnCredentials(scope: string, now: number = Date.now()): TurnCredentials | null {
+  const urls = (process.env.TURN_URLS || '').split(',').map(url => url.trim()).filter(Boolean)
+  const secret = process.env.TURN_SECRET
+  if (urls.length === 0 || !secret) return null
+
+  const expiry = Math.floor(now / 1000) + TURN_CREDENTIAL_TTL_SECONDS
+  // coturn reads the timestamp up to the first ':'; the rest is free-form
+  const username = `${expiry}:${scope}`
+  const credential = crypto.createHmac('sha1', secret).update(username).digest('base64')
+
+  return {
+    iceServers: [{ urls, username, credential }],
+    expiresAt: new Date(expiry * 1000).toISOString(),
+  }
+}
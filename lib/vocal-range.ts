@@ -0,0 +1,233 @@
+/**
+ * Vocal range: the guided range test and what the trainers do with it.
+ *
+ * components/VocalRangeFinder walks the student through three steps - glide
+ * down to their lowest note, glide up to their highest, then sing something
+ * comfortable - feeding each into a RangeTracker. The result is a VocalRange
+ * of MIDI notes, saved on the student's profile (history in
+ * vocal_range_tests) with a suggested voice type.
+ *
+ * The trainers read it back through useVocalRange (lib/hooks) and default
+ * their octave to it: scaleOctaveForRange for a scale, noteOctaveForRange for
+ * single notes, and tonicInRange for where to pitch a song's home note.
+ */
+
+import { midiName } from '@/lib/lesson-instrument'
+import type { DetectedNote } from '@/lib/pitch-detection'
+
+export interface VocalRange {
+  /** MIDI note numbers */
+  lowest: number
+  highest: number
+  comfortableLow: number
+  comfortableHigh: number
+}
+
+export type VoiceType = 'bass' | 'baritone' | 'tenor' | 'alto' | 'mezzo' | 'soprano'
+
+/** Typical ranges (MIDI) of each classification, low to high */
+export const VOICE_TYPES: { value: VoiceType; label: string; low: number; high: number }[] = [
+  { value: 'bass', label: 'Bass', low: 40, high: 64 },
+  { value: 'baritone', label: 'Baritone', low: 43, high: 67 },
+  { value: 'tenor', label: 'Tenor', low: 48, high: 72 },
+  { value: 'alto', label: 'Alto', low: 53, high: 77 },
+  { value: 'mezzo', label: 'Mezzo-soprano', low: 57, high: 81 },
+  { value: 'soprano', label: 'Soprano', low: 60, high: 84 },
+]
+
+export const MIN_RANGE_MIDI = 28
+export const MAX_RANGE_MIDI = 96
+/** Anything narrower is almost certainly a failed test */
+export const MIN_RANGE_SEMITONES = 5
+
+export type RangeTestStep = 'low' | 'high' | 'comfortable'
+
+export const RANGE_TEST_STEPS: { value: RangeTestStep; label: string; instructions: string }[] = [
+  {
+    value: 'low',
+    label: 'Glide down',
+    instructions: 'Start on a relaxed note and slide slowly down on "ah" as low as you can without straining. Hold the bottom note for a moment.',
+  },
+  {
+    value: 'high',
+    label: 'Glide up',
+    instructions: 'Start on a relaxed note and slide slowly up on "ooh" as high as you can sing cleanly, falsetto or head voice included. Hold the top note briefly.',
+  },
+  {
+    value: 'comfortable',
+    label: 'Sing comfortably',
+    instructions: 'Sing a song you know well, or "Happy Birthday", at an easy volume for about 15 seconds. This is where your voice likes to sit.',
+  },
+]
+
+export function rangeLabel(low: number, high: number): string {
+  return `${midiName(low)} – ${midiName(high)}`
+}
+
+export function voiceTypeLabel(voiceType: VoiceType | string | null | undefined): string | null {
+  return VOICE_TYPES.find(t => t.value === voiceType)?.label ?? null
+}
+
+// ---------------------------------------------------------------------------
+// Measuring
+// ---------------------------------------------------------------------------
+
+/**
+ * Counts readings per note, but only for notes held long enough to be sung
+ * on purpose: a glide passes every note briefly and octave slips last a
+ * reading or two, neither of which should set the range.
+ */
+export class RangeTracker {
+  static readonly HOLD_READINGS = 8
+
+  private candidate: number | null = null
+  private run = 0
+  private held = new Map<number, number>()
+
+  push(note: DetectedNote) {
+    if (note.value !== this.candidate) {
+      this.candidate = note.value
+      this.run = 0
+    }
+    this.run++
+    if (this.run === RangeTracker.HOLD_READINGS) {
+      this.held.set(note.value, (this.held.get(note.value) ?? 0) + RangeTracker.HOLD_READINGS)
+    } else if (this.run > RangeTracker.HOLD_READINGS) {
+      this.held.set(note.value, (this.held.get(note.value) ?? 0) + 1)
+    }
+  }
+
+  get lowest(): number | null {
+    return this.held.size ? Math.min(...this.held.keys()) : null
+  }
+
+  get highest(): number | null {
+    return this.held.size ? Math.max(...this.held.keys()) : null
+  }
+
+  /**
+   * Where most of the singing sat: the notes between the 15th and 85th
+   * percentile of time spent.
+   */
+  get tessitura(): { low: number; high: number } | null {
+    if (this.held.size === 0) return null
+    const notes = [...this.held.entries()].sort((a, b) => a[0] - b[0])
+    const total = notes.reduce((sum, [, count]) => sum + count, 0)
+    const at = (fraction: number) => {
+      let seen = 0
+      for (const [midi, count] of notes) {
+        seen += count
+        if (seen >= total * fraction) return midi
+      }
+      return notes[notes.length - 1][0]
+    }
+    return { low: at(0.15), high: at(0.85) }
+  }
+
+  reset() {
+    this.candidate = null
+    this.run = 0
+    this.held.clear()
+  }
+}
+
+/** Combine the three steps; the extremes always include the comfortable notes */
+export function buildVocalRange(
+  lowest: number | null,
+  highest: number | null,
+  tessitura: { low: number; high: number } | null
+): VocalRange | null {
+  if (lowest === null || highest === null || !tessitura) return null
+  const range = {
+    lowest: Math.min(lowest, tessitura.low),
+    highest: Math.max(highest, tessitura.high),
+    comfortableLow: tessitura.low,
+    comfortableHigh: tessitura.high,
+  }
+  return validateVocalRange(range) === null ? range : null
+}
+
+/** Returns an error message, or null if the range is usable */
+export function validateVocalRange(raw: unknown): string | null {
+  if (!raw || typeof raw !== 'object') return 'Missing range'
+  const { lowest, highest, comfortableLow, comfortableHigh } = raw as Record<string, unknown>
+  const notes = [lowest, highest, comfortableLow, comfortableHigh]
+  if (!notes.every(n => Number.isInteger(n) && (n as number) >= MIN_RANGE_MIDI && (n as number) <= MAX_RANGE_MIDI)) {
+    return 'Notes are outside the singing range'
+  }
+  const [low, high, comfortLow, comfortHigh] = notes as number[]
+  if (!(low <= comfortLow && comfortLow <= comfortHigh && comfortHigh <= high)) {
+    return 'The comfortable notes must sit inside the range'
+  }
+  if (high - low < MIN_RANGE_SEMITONES) return 'The range is too narrow - try the test again'
+  return null
+}
+
+/**
+ * The closest typical range, judged mostly on where the voice sits
+ * comfortably and partly on its extremes. A suggestion for the teacher to
+ * confirm, not a verdict.
+ */
+export function suggestVoiceType(range: VocalRange): VoiceType {
+  const middle = (range.comfortableLow + range.comfortableHigh) / 2
+  let best = VOICE_TYPES[0]
+  let bestCost = Infinity
+  for (const type of VOICE_TYPES) {
+    const cost =
+      Math.abs(middle - (type.low + type.high) / 2) +
+      (Math.abs(range.lowest - type.low) + Math.abs(range.highest - type.high)) / 4
+    if (cost < bestCost) {
+      best = type
+      bestCost = cost
+    }
+  }
+  return best.value
+}
+
+// ---------------------------------------------------------------------------
+// Trainer defaults
+// ---------------------------------------------------------------------------
+
+const overlap = (aLow: number, aHigh: number, bLow: number, bHigh: number) =>
+  Math.max(0, Math.min(aHigh, bHigh) - Math.max(aLow, bLow))
+
+/**
+ * The octave (within min-max) whose one-octave scale from rootIndex sits best
+ * in the comfortable range, falling back to the full range to break ties.
+ */
+export function scaleOctaveForRange(range: VocalRange, rootIndex: number, min = 2, max = 6): number {
+  let best = min
+  let bestScore = -Infinity
+  for (let octave = min; octave <= max; octave++) {
+    const root = (octave + 1) * 12 + rootIndex
+    const score =
+      overlap(root, root + 12, range.comfortableLow, range.comfortableHigh) * 10 +
+      overlap(root, root + 12, range.lowest, range.highest)
+    if (score > bestScore) {
+      best = octave
+      bestScore = score
+    }
+  }
+  return best
+}
+
+/** The octave in the middle of the comfortable range, for single-note practice */
+export function noteOctaveForRange(range: VocalRange): number {
+  return Math.floor(Math.round((range.comfortableLow + range.comfortableHigh) / 2) / 12) - 1
+}
+
+const PITCH_CLASSES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 }
+
+/** 'C#', 'Eb', 'F♯' etc. to 0-11, or null */
+export function pitchClassOf(name: string): number | null {
+  const match = name.trim().match(/^([A-Ga-g])(#|♯|b|♭)?/)
+  if (!match) return null
+  const accidental = match[2] === '#' || match[2] === '♯' ? 1 : match[2] ? -1 : 0
+  return (PITCH_CLASSES[match[1].toUpperCase()] + accidental + 12) % 12
+}
+
+/** The lowest note of the given pitch class at or above the bottom of the comfortable range */
+export function tonicInRange(range: VocalRange, pitchClass: number): number {
+  const offset = (((pitchClass - range.comfortableLow) % 12) + 12) % 12
+  return range.comfortableLow + offset
+}
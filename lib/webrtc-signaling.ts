@@ -1,14 +1,36 @@
 /**
  * WebRTC Signaling using Supabase Realtime
  * Real-time signaling infrastructure for lesson rooms.
+ *
+ * The channel is private: Realtime checks the signed-in user against the
+ * booking (migration 20260803000008) before letting them subscribe or send.
+ * Inside the room the host runs a waiting room - everyone else waits until
+ * admitted, and peers only connect to admitted participants. The host's
+ * decisions go out as 'room-state' (admitted ids, lock) and 'host-action'
+ * (mute, remove, end class) messages on the 'host-control' broadcast event,
+ * which only the host may send. Roles are never taken from presence: each
+ * participant registers a DTLS certificate for the room (lib/room-certificate.ts),
+ * peers look each other up against the booking by it
+ * (lesson_room_participant_role), and a peer connection is only accepted from
+ * a sender whose offer or answer names a certificate registered to them.
+ * Anyone unconfirmed is treated as an observer and has no say in the room.
  */
 
 import { createClient as createSupabaseClient } from '@supabase/supabase-js'
 import type { RealtimeChannel } from '@supabase/supabase-js'
+import { getSupabaseClient } from '@/lib/supabase'
+import type { LessonChatMessage } from '@/lib/lesson-chat'
+import type { InstrumentEvent } from '@/lib/lesson-instrument'
+import { sdpFingerprint } from '@/lib/room-certificate'
+
+/** host: the teacher (or an admin). observer: watches but doesn't speak, e.g. a parent. */
+export type RoomRole = 'host' | 'student' | 'observer'
+
+export type HostAction = 'mute' | 'remove' | 'end-class'
 
 // Types for signaling messages
 export interface SignalingMessage {
-  type: 'offer' | 'answer' | 'ice-candidate' | 'participant-joined' | 'participant-left' | 'mute-status' | 'video-status' | 'screen-share' | 'chat' | 'recording-status'
+  type: 'offer' | 'answer' | 'ice-candidate' | 'participant-joined' | 'participant-left' | 'mute-status' | 'video-status' | 'screen-share' | 'chat' | 'recording-status' | 'audio-mode' | 'room-state' | 'host-action' | 'instrument'
   from: string
   to?: string // If undefined, broadcast to all
   payload: any
@@ -22,6 +44,7 @@ export interface Participant {
   isVideoOff: boolean
   isScreenSharing: boolean
   isHost: boolean
+  role: RoomRole
   joinedAt: number
 }
 
@@ -30,8 +53,17 @@ export interface RoomState {
   isRecording: boolean
   recordingStartedAt?: number
   recordingStartedBy?: string
+  /** Music mode (see lib/music-mode.ts), set by the host */
+  musicMode: boolean
+  /** Participants the host has let in from the waiting room */
+  admittedIds: Set<string>
+  /** Locked rooms don't take anyone new from the waiting room */
+  locked: boolean
 }
 
+/** Room control and the instrument are the host's alone */
+const HOST_CONTROL_TYPES: SignalingMessage['type'][] = ['room-state', 'host-action', 'instrument']
+
 type SignalingCallback = (message: SignalingMessage) => void
 type ParticipantCallback = (participants: Participant[]) => void
 
@@ -39,30 +71,47 @@ export class WebRTCSignaling {
   private supabase: ReturnType<typeof createSupabaseClient>
   private channel: RealtimeChannel | null = null
   private roomId: string
+  private bookingId: string | null
   private participantId: string
   private participantName: string
+  private role: RoomRole
   private isHost: boolean
+  private authSubscription: { unsubscribe: () => void } | null = null
+  private certificateFingerprint: string | null
+  private pendingControlMessages: SignalingMessage[] = []
+  /** The certificate each participant's latest presence names */
+  private presenceFingerprints: Map<string, string> = new Map()
+  /** Roles looked up against the booking, by participant and certificate; null if it doesn't know them */
+  private verifiedRoles: Map<string, RoomRole | null> = new Map()
+  private roleLookups: Map<string, Promise<RoomRole | null>> = new Map()
   private callbacks: Map<string, SignalingCallback[]> = new Map()
   private participantCallbacks: ParticipantCallback[] = []
   private roomState: RoomState = {
     participants: new Map(),
     isRecording: false,
+    musicMode: false,
+    admittedIds: new Set(),
+    locked: false,
   }
 
   constructor(
     roomId: string,
     participantId: string,
     participantName: string,
-    isHost: boolean = false
+    role: RoomRole = 'student',
+    certificateFingerprint: string | null = null
   ) {
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
     const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 
     this.supabase = createSupabaseClient(supabaseUrl, supabaseKey)
     this.roomId = roomId
+    this.bookingId = roomId.match(/^lesson-([0-9a-fA-F-]{36})$/)?.[1] ?? null
     this.participantId = participantId
     this.participantName = participantName
-    this.isHost = isHost
+    this.role = role
+    this.isHost = role === 'host'
+    this.certificateFingerprint = certificateFingerprint
   }
 
   /**
@@ -72,9 +121,19 @@ export class WebRTCSignaling {
     const channelName = `lesson:${this.roomId}`
     console.log(`[Signaling] Connecting to channel: ${channelName} as ${this.participantName} (${this.participantId})`)
 
+    // The private channel authorizes with the signed-in user's token; keep it
+    // current so a long lesson outlives the first token
+    const auth = getSupabaseClient().auth
+    const { data: { session } } = await auth.getSession()
+    await this.supabase.realtime.setAuth(session?.access_token ?? null)
+    this.authSubscription = auth.onAuthStateChange((_event, nextSession) => {
+      if (nextSession) void this.supabase.realtime.setAuth(nextSession.access_token)
+    }).data.subscription
+
     return new Promise((resolve, reject) => {
       this.channel = this.supabase.channel(channelName, {
         config: {
+          private: true,
           presence: { key: this.participantId },
           broadcast: { self: false },
         },
@@ -106,7 +165,6 @@ export class WebRTCSignaling {
               payload: {
                 id: presence.id,
                 name: presence.name,
-                isHost: presence.isHost,
               },
               timestamp: Date.now(),
             }
@@ -121,16 +179,18 @@ export class WebRTCSignaling {
         this.notifyParticipantChange()
       })
 
-      // Handle broadcast messages (signaling)
+      // Handle broadcast messages (signaling). Room control only counts on
+      // its own event, which Realtime lets nobody but the host send.
       this.channel.on('broadcast', { event: 'signal' }, ({ payload }) => {
         const message = payload as SignalingMessage
+        if (HOST_CONTROL_TYPES.includes(message.type)) return
+        this.receive(message)
+      })
 
-        // Only process messages meant for us or broadcast
-        if (message.to && message.to !== this.participantId) {
-          return
-        }
-
-        this.handleSignalingMessage(message)
+      this.channel.on('broadcast', { event: 'host-control' }, ({ payload }) => {
+        const message = payload as SignalingMessage
+        if (!HOST_CONTROL_TYPES.includes(message.type)) return
+        this.receive(message)
       })
 
       // Subscribe to the channel
@@ -151,7 +211,7 @@ export class WebRTCSignaling {
           const trackResult = await this.channel?.track({
             id: this.participantId,
             name: this.participantName,
-            isHost: this.isHost,
+            fingerprint: this.certificateFingerprint,
             isMuted: false,
             isVideoOff: false,
             isScreenSharing: false,
@@ -166,7 +226,6 @@ export class WebRTCSignaling {
             payload: {
               id: this.participantId,
               name: this.participantName,
-              isHost: this.isHost,
             },
             timestamp: Date.now(),
           })
@@ -197,6 +256,8 @@ export class WebRTCSignaling {
       await this.channel.unsubscribe()
       this.channel = null
     }
+    this.authSubscription?.unsubscribe()
+    this.authSubscription = null
   }
 
   /**
@@ -223,7 +284,7 @@ export class WebRTCSignaling {
 
     this.channel.send({
       type: 'broadcast',
-      event: 'signal',
+      event: HOST_CONTROL_TYPES.includes(message.type) ? 'host-control' : 'signal',
       payload: message,
     })
   }
@@ -235,7 +296,7 @@ export class WebRTCSignaling {
     this.channel?.track({
       id: this.participantId,
       name: this.participantName,
-      isHost: this.isHost,
+      fingerprint: this.certificateFingerprint,
       isMuted,
       isVideoOff,
       isScreenSharing,
@@ -251,9 +312,10 @@ export class WebRTCSignaling {
   }
 
   /**
-   * Send chat message
+   * Send chat message. The sender saves it first (lib/lesson-chat.ts), so the
+   * id matches what a reconnecting participant replays from the API.
    */
-  sendChatMessage(message: string): void {
+  sendChatMessage(message: LessonChatMessage): void {
     this.broadcast({
       type: 'chat',
       from: this.participantId,
@@ -265,6 +327,23 @@ export class WebRTCSignaling {
     })
   }
 
+  /**
+   * Host only: a key or drone change on the lesson instrument (see
+   * lib/lesson-instrument.ts). The sound itself goes as an audio track; this
+   * tells the other screens what was played.
+   */
+  sendInstrumentEvent(event: InstrumentEvent, to?: string): void {
+    if (!this.isHost) return
+
+    this.broadcast({
+      type: 'instrument',
+      from: this.participantId,
+      to,
+      payload: { event },
+      timestamp: Date.now(),
+    })
+  }
+
   /**
    * Update recording status
    */
@@ -287,6 +366,77 @@ export class WebRTCSignaling {
     })
   }
 
+  /**
+   * Switch the room between speech and music audio. The host sends this on
+   * every change and again when someone joins, so late joiners pick it up.
+   */
+  updateAudioMode(musicMode: boolean): void {
+    this.roomState.musicMode = musicMode
+
+    this.broadcast({
+      type: 'audio-mode',
+      from: this.participantId,
+      payload: { musicMode },
+      timestamp: Date.now(),
+    })
+  }
+
+  /**
+   * Host only: publish who is admitted and whether the room is locked. Sent
+   * on every change and again when someone joins, like the audio mode.
+   */
+  updateRoomState(admittedIds: string[], locked: boolean): void {
+    if (!this.isHost) return
+    this.roomState.admittedIds = new Set(admittedIds)
+    this.roomState.locked = locked
+
+    this.broadcast({
+      type: 'room-state',
+      from: this.participantId,
+      payload: { admittedIds, locked },
+      timestamp: Date.now(),
+    })
+  }
+
+  /**
+   * Host only: act on one participant, or on everyone when `to` is omitted
+   */
+  sendHostAction(action: HostAction, to?: string): void {
+    if (!this.isHost) return
+
+    this.broadcast({
+      type: 'host-action',
+      from: this.participantId,
+      to,
+      payload: { action },
+      timestamp: Date.now(),
+    })
+  }
+
+  /**
+   * Whether we may be in a call with `participantId`: the host is always in,
+   * everyone else once admitted. Observers have nothing to send each other.
+   */
+  canConnectWith(participantId: string): boolean {
+    const remote = this.roomState.participants.get(participantId)
+    if (!remote) return false
+    if (this.role === 'observer' && remote.role === 'observer') return false
+    const weAreIn = this.isHost || this.roomState.admittedIds.has(this.participantId)
+    const theyAreIn = remote.role === 'host' || this.roomState.admittedIds.has(participantId)
+    return weAreIn && theyAreIn
+  }
+
+  /**
+   * The booking's word on who sent an offer or answer, by the certificate it
+   * names: null when that certificate isn't registered to the sender, in
+   * which case the description must not be used.
+   */
+  async confirmPeerRole(participantId: string, description: RTCSessionDescriptionInit | undefined): Promise<RoomRole | null> {
+    const fingerprint = sdpFingerprint(description?.sdp)
+    if (!fingerprint) return null
+    return this.confirmRole(participantId, fingerprint)
+  }
+
   /**
    * Subscribe to signaling messages
    */
@@ -330,9 +480,36 @@ export class WebRTCSignaling {
 
   // Private methods
 
+  private receive(message: SignalingMessage): void {
+    // Only process messages meant for us or broadcast
+    if (message.to && message.to !== this.participantId) {
+      return
+    }
+
+    this.handleSignalingMessage(message)
+  }
+
   private handleSignalingMessage(message: SignalingMessage): void {
+    // A control message can beat the lookup of the sender's role, so hold it
+    // until the booking says who they are.
+    if (HOST_CONTROL_TYPES.includes(message.type)) {
+      const role = this.roleOf(message.from)
+      if (role === undefined) {
+        this.pendingControlMessages = [...this.pendingControlMessages.slice(-9), message]
+        this.lookUpRoles([message.from])
+        return
+      }
+      if (role !== 'host') {
+        console.warn(`[Signaling] Ignoring ${message.type} from non-host ${message.from}`)
+        return
+      }
+    }
+
     // Update local state based on message type
-    if (message.type === 'mute-status') {
+    if (message.type === 'room-state') {
+      this.roomState.admittedIds = new Set(message.payload.admittedIds || [])
+      this.roomState.locked = !!message.payload.locked
+    } else if (message.type === 'mute-status') {
       const participant = this.roomState.participants.get(message.from)
       if (participant) {
         participant.isMuted = message.payload.isMuted
@@ -344,6 +521,8 @@ export class WebRTCSignaling {
       this.roomState.isRecording = message.payload.isRecording
       this.roomState.recordingStartedAt = message.payload.startedAt
       this.roomState.recordingStartedBy = message.payload.startedBy
+    } else if (message.type === 'audio-mode') {
+      this.roomState.musicMode = !!message.payload.musicMode
     }
 
     // Notify callbacks
@@ -353,6 +532,7 @@ export class WebRTCSignaling {
 
   private updateParticipantsFromPresence(presenceState: Record<string, any[]>): void {
     this.roomState.participants.clear()
+    this.presenceFingerprints.clear()
 
     // For each participant ID, only keep the most recent presence entry (by joinedAt)
     // This handles stale presence entries from disconnected tabs/sessions
@@ -367,21 +547,100 @@ export class WebRTCSignaling {
         }
       })
 
-      // Add only the most recent presence for each participant
+      // Add only the most recent presence for each participant. Until the
+      // booking confirms their role they get an observer's: no media, no say.
       latestByParticipant.forEach((presence) => {
+        if (typeof presence.fingerprint === 'string') {
+          this.presenceFingerprints.set(presence.id, presence.fingerprint)
+        }
+        const role = this.roleOf(presence.id) ?? 'observer'
         this.roomState.participants.set(presence.id, {
           id: presence.id,
           name: presence.name,
           isMuted: presence.isMuted || false,
           isVideoOff: presence.isVideoOff || false,
           isScreenSharing: presence.isScreenSharing || false,
-          isHost: presence.isHost || false,
+          isHost: role === 'host',
+          role,
           joinedAt: presence.joinedAt || Date.now(),
         })
       })
     })
 
     this.notifyParticipantChange()
+    this.lookUpRoles(Array.from(this.roomState.participants.keys()))
+
+    const pending = this.pendingControlMessages.filter(m => this.roleOf(m.from) !== undefined)
+    if (pending.length > 0) {
+      this.pendingControlMessages = this.pendingControlMessages.filter(m => !pending.includes(m))
+      pending.forEach(message => this.handleSignalingMessage(message))
+    }
+  }
+
+  /**
+   * A participant's role by the certificate their presence names: undefined
+   * until their presence arrives and is looked up, null if the booking
+   * doesn't know them by it
+   */
+  private roleOf(participantId: string): RoomRole | null | undefined {
+    if (participantId === this.participantId) return this.role
+    const fingerprint = this.presenceFingerprints.get(participantId)
+    if (!fingerprint) return this.roomState.participants.has(participantId) ? null : undefined
+    return this.verifiedRoles.get(`${participantId} ${fingerprint}`)
+  }
+
+  /**
+   * Look a participant's role up against the booking, by the certificate
+   * they registered for the room. Failed lookups aren't remembered, so the
+   * next presence sync or offer asks again.
+   */
+  private confirmRole(participantId: string, fingerprint: string): Promise<RoomRole | null> {
+    const key = `${participantId} ${fingerprint}`
+    const known = this.verifiedRoles.get(key)
+    if (known !== undefined) return Promise.resolve(known)
+    const bookingId = this.bookingId
+    if (!bookingId) return Promise.resolve(null)
+
+    let lookup = this.roleLookups.get(key)
+    if (!lookup) {
+      lookup = (async () => {
+        const { data, error } = await getSupabaseClient().rpc('lesson_room_participant_role', {
+          p_booking_id: bookingId,
+          p_user_id: participantId,
+          p_fingerprint: fingerprint,
+        })
+        this.roleLookups.delete(key)
+        if (error) {
+          console.error(`[Signaling] Could not look up the role of ${participantId}:`, error)
+          return null
+        }
+        const role = (data as RoomRole | null) ?? null
+        this.verifiedRoles.set(key, role)
+        return role
+      })()
+      this.roleLookups.set(key, lookup)
+    }
+    return lookup
+  }
+
+  /**
+   * Confirm participants' roles by the certificates their presence names,
+   * then rebuild the participant list with them. Someone the booking doesn't
+   * know stays an observer.
+   */
+  private lookUpRoles(participantIds: string[]): void {
+    const unknown = participantIds.filter(id => {
+      const fingerprint = this.presenceFingerprints.get(id)
+      return fingerprint && this.roleOf(id) === undefined && !this.roleLookups.has(`${id} ${fingerprint}`)
+    })
+    if (unknown.length === 0) return
+
+    void Promise.all(unknown.map(id => this.confirmRole(id, this.presenceFingerprints.get(id)!)))
+      .then(() => {
+        // Only rebuild for answers; a failed lookup waits for the next sync
+        const confirmed = unknown.some(id => this.roleOf(id) !== undefined)
+        if (confirmed && this.channel) this.updateParticipantsFromPresence(this.channel.presenceState())
+      })
   }
 
   private notifyParticipantChange(): void {
@@ -390,6 +649,40 @@ export class WebRTCSignaling {
   }
 }
 
+/** The host's waiting room decisions for a room */
+export interface RoomAccess {
+  admittedIds: string[]
+  locked: boolean
+}
+
+function roomAccessKey(roomId: string) {
+  return `voice-alchemy:room-access:${roomId}`
+}
+
+/**
+ * The host's admissions, kept for the tab's session so reloading the page
+ * doesn't send everyone back to the waiting room
+ */
+export function loadRoomAccess(roomId: string): RoomAccess {
+  try {
+    const saved = JSON.parse(sessionStorage.getItem(roomAccessKey(roomId)) || 'null')
+    if (saved && Array.isArray(saved.admittedIds)) {
+      return { admittedIds: saved.admittedIds.filter((id: unknown) => typeof id === 'string'), locked: !!saved.locked }
+    }
+  } catch {
+    // Unreadable or storage disabled: start with an empty room
+  }
+  return { admittedIds: [], locked: false }
+}
+
+export function saveRoomAccess(roomId: string, access: RoomAccess) {
+  try {
+    sessionStorage.setItem(roomAccessKey(roomId), JSON.stringify(access))
+  } catch {
+    // Storage disabled: admissions just aren't remembered
+  }
+}
+
 /**
  * Create a unique room identifier
  */
@@ -15,6 +15,22 @@ const nextConfig: NextConfig = {
       },
     ],
   },
+  // Chunked transcription (lib/audio-chunks.ts) runs the bundled ffmpeg and
+  // ffprobe binaries, so keep the packages out of the bundle and ship the
+  // binaries with the routes that process recordings
+  serverExternalPackages: ['ffmpeg-static', 'ffprobe-static'],
+  outputFileTracingIncludes: Object.fromEntries(
+    [
+      '/api/cron/process-pending-recordings',
+      '/api/admin/process-all-recordings',
+      '/api/lessons/[relationshipId]/process-recording',
+      '/api/lessons/[relationshipId]/recordings',
+      '/api/lessons/[relationshipId]/recordings/complete',
+    ].map(route => [route, [
+      './node_modules/ffmpeg-static/ffmpeg',
+      './node_modules/ffprobe-static/bin/linux/x64/ffprobe',
+    ]])
+  ),
   // Allow Cloudflare tunnel domains in development
   allowedDevOrigins: [
     'http://localhost:3000',
@@ -0,0 +1,123 @@
+/**
+ * Pitch detection AudioWorklet, loaded by PitchDetector in lib/pitch-detection.ts.
+ *
+ * Runs YIN on the audio thread so detection neither waits on nor stalls
+ * React. Every hop it posts one frame, { frequency, confidence, rms }, and
+ * leaves all gating (loudness, confidence, singing range) to the main thread,
+ * which shares those rules with every trainer.
+ *
+ * frequency is 0 when no period was found. confidence is 1 minus YIN's
+ * normalised difference at the chosen period: near 1 for a clean sung note,
+ * low for breath and noise.
+ *
+ * Plain JS in public/ because worklet modules are fetched by URL; it is served
+ * from this site, so it works offline and behind school firewalls.
+ */
+
+class PitchProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super()
+    const opts = (options && options.processorOptions) || {}
+    this.bufferSize = opts.bufferSize || 2048
+    this.hopSize = opts.hopSize || 1024
+    this.threshold = opts.threshold || 0.15
+    // Shortest and longest periods worth searching, in samples
+    this.minPeriod = Math.max(2, Math.floor(sampleRate / (opts.maxFrequency || 2000)))
+    this.maxPeriod = Math.min(Math.floor(this.bufferSize / 2), Math.ceil(sampleRate / (opts.minFrequency || 60)))
+
+    this.buffer = new Float32Array(this.bufferSize)
+    this.window = new Float32Array(this.bufferSize)
+    this.difference = new Float32Array(this.maxPeriod + 1)
+    this.writeIndex = 0
+    this.filled = 0
+    this.sinceLast = 0
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0]
+    if (!channel) return true
+
+    for (let i = 0; i < channel.length; i++) {
+      this.buffer[this.writeIndex] = channel[i]
+      this.writeIndex = (this.writeIndex + 1) % this.bufferSize
+    }
+    this.filled = Math.min(this.bufferSize, this.filled + channel.length)
+    this.sinceLast += channel.length
+
+    if (this.filled === this.bufferSize && this.sinceLast >= this.hopSize) {
+      this.sinceLast = 0
+      this.port.postMessage(this.analyze())
+    }
+    return true
+  }
+
+  analyze() {
+    // Unroll the ring buffer, oldest sample first
+    const size = this.bufferSize
+    const start = this.writeIndex
+    let sumSquares = 0
+    for (let i = 0; i < size; i++) {
+      const sample = this.buffer[(start + i) % size]
+      this.window[i] = sample
+      sumSquares += sample * sample
+    }
+    const rms = Math.sqrt(sumSquares / size)
+    const { frequency, confidence } = this.yin(this.window)
+    return { frequency, confidence, rms }
+  }
+
+  yin(samples) {
+    const d = this.difference
+    const integration = this.bufferSize - this.maxPeriod
+
+    // Difference function
+    for (let tau = 1; tau <= this.maxPeriod; tau++) {
+      let sum = 0
+      for (let i = 0; i < integration; i++) {
+        const delta = samples[i] - samples[i + tau]
+        sum += delta * delta
+      }
+      d[tau] = sum
+    }
+
+    // Cumulative mean normalised difference
+    d[0] = 1
+    let running = 0
+    for (let tau = 1; tau <= this.maxPeriod; tau++) {
+      running += d[tau]
+      d[tau] = running === 0 ? 1 : (d[tau] * tau) / running
+    }
+
+    // First dip under the threshold, followed to its bottom; failing that,
+    // the deepest dip, reported with its (low) confidence
+    let period = -1
+    for (let tau = this.minPeriod; tau <= this.maxPeriod; tau++) {
+      if (d[tau] < this.threshold) {
+        while (tau + 1 <= this.maxPeriod && d[tau + 1] < d[tau]) tau++
+        period = tau
+        break
+      }
+    }
+    if (period === -1) {
+      let best = this.minPeriod
+      for (let tau = this.minPeriod + 1; tau <= this.maxPeriod; tau++) {
+        if (d[tau] < d[best]) best = tau
+      }
+      period = best
+    }
+
+    const confidence = Math.max(0, Math.min(1, 1 - d[period]))
+    if (period <= this.minPeriod || period >= this.maxPeriod) return { frequency: 0, confidence }
+
+    // Parabolic interpolation between neighbouring periods
+    const left = d[period - 1]
+    const centre = d[period]
+    const right = d[period + 1]
+    const denominator = left + right - 2 * centre
+    const shift = denominator === 0 ? 0 : (left - right) / (2 * denominator)
+
+    return { frequency: sampleRate / (period + shift), confidence }
+  }
+}
+
+registerProcessor('pitch-processor', PitchProcessor)
@@ -0,0 +1,21 @@
+-- ============================================================================
+-- Migration: Scheduled email dispatch
+-- Description: Retry/lease bookkeeping for queued emails with a scheduled_at,
+--              which the send-scheduled cron now dispatches. Mirrors the
+--              ai_* worker columns on lesson_recordings (00021).
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE public.emails
+    ADD COLUMN IF NOT EXISTS send_attempt_count INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS send_locked_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS send_next_retry_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS send_error TEXT;
+
+-- The cron's only query: due scheduled mail, oldest first.
+CREATE INDEX IF NOT EXISTS idx_emails_scheduled_queue
+    ON public.emails (status, scheduled_at)
+    WHERE scheduled_at IS NOT NULL AND is_deleted = FALSE;
+
+COMMIT;
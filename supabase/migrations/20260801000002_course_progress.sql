@@ -0,0 +1,79 @@
+-- ============================================================================
+-- Migration: Course progress tracking
+-- Description: Per-student lesson completions and graded quiz attempts, plus a
+--              resume pointer on course_enrollments. Replaces the course
+--              player's localStorage progress. Teachers can read progress for
+--              students they have a booking with.
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE course_enrollments
+    ADD COLUMN IF NOT EXISTS last_lesson_id TEXT,
+    ADD COLUMN IF NOT EXISTS last_accessed_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS progress_percent INTEGER DEFAULT 0;
+
+-- Lesson ids are the ids inside courses.curriculum, not table rows.
+CREATE TABLE IF NOT EXISTS course_lesson_completions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    lesson_id TEXT NOT NULL,
+    completed_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT unique_lesson_completion UNIQUE (course_id, student_id, lesson_id)
+);
+
+-- answers: [{ "questionId": "q1", "selectedIndex": 2, "isCorrect": false }, ...]
+CREATE TABLE IF NOT EXISTS course_quiz_attempts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    quiz_id TEXT NOT NULL,
+    section_id TEXT NOT NULL,
+    lesson_id TEXT,
+    score_percent INTEGER NOT NULL,
+    passed BOOLEAN NOT NULL DEFAULT FALSE,
+    answers JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lesson_completions_student ON course_lesson_completions(student_id, course_id);
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_student ON course_quiz_attempts(student_id, course_id, created_at DESC);
+
+ALTER TABLE course_lesson_completions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE course_quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Students record their own progress. Quiz attempts are only written by
+-- /api/courses/[slug]/quiz-attempts, which grades on the server.
+DROP POLICY IF EXISTS lesson_completions_select ON course_lesson_completions;
+CREATE POLICY lesson_completions_select ON course_lesson_completions FOR SELECT USING (
+    student_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM bookings b WHERE b.student_id = course_lesson_completions.student_id AND b.instructor_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+DROP POLICY IF EXISTS lesson_completions_insert ON course_lesson_completions;
+CREATE POLICY lesson_completions_insert ON course_lesson_completions FOR INSERT WITH CHECK (
+    student_id = auth.uid()
+);
+
+DROP POLICY IF EXISTS quiz_attempts_select ON course_quiz_attempts;
+CREATE POLICY quiz_attempts_select ON course_quiz_attempts FOR SELECT USING (
+    student_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM bookings b WHERE b.student_id = course_quiz_attempts.student_id AND b.instructor_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Enrollments: students keep their own resume pointer up to date, and their
+-- teachers can see it.
+DROP POLICY IF EXISTS enrollments_update_own ON course_enrollments;
+CREATE POLICY enrollments_update_own ON course_enrollments FOR UPDATE USING (
+    student_id = auth.uid()
+);
+
+DROP POLICY IF EXISTS enrollments_select_teacher ON course_enrollments;
+CREATE POLICY enrollments_select_teacher ON course_enrollments FOR SELECT USING (
+    EXISTS (SELECT 1 FROM bookings b WHERE b.student_id = course_enrollments.student_id AND b.instructor_id = auth.uid())
+);
+
+COMMIT;
@@ -0,0 +1,65 @@
+-- ============================================================================
+-- Migration: Lesson occurrences
+-- Description: Exceptions to a booking's weekly slot - cancelled weeks, moved
+--              lessons and one-off extra lessons - plus a per-teacher
+--              cancellation window. The weekly slot on bookings is still the
+--              rule; see lib/lesson-occurrences.ts for how the two combine.
+-- ============================================================================
+
+BEGIN;
+
+-- Hours before a lesson after which students can no longer cancel or move it.
+ALTER TABLE profiles
+    ADD COLUMN IF NOT EXISTS cancellation_window_hours INTEGER DEFAULT 24
+        CHECK (cancellation_window_hours >= 0 AND cancellation_window_hours <= 168);
+
+CREATE TABLE IF NOT EXISTS lesson_occurrences (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+    -- 'recurring' overrides the weekly slot at original_starts_at;
+    -- 'extra' is a one-off lesson outside the weekly rule.
+    kind TEXT NOT NULL CHECK (kind IN ('recurring', 'extra')),
+    original_starts_at TIMESTAMPTZ,
+    starts_at TIMESTAMPTZ NOT NULL,
+    duration_minutes INTEGER NOT NULL DEFAULT 60 CHECK (duration_minutes BETWEEN 15 AND 180),
+    status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'cancelled')),
+    reason TEXT,
+    cancelled_at TIMESTAMPTZ,
+    cancelled_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    updated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT lesson_occurrences_recurring_has_original CHECK (
+        (kind = 'recurring' AND original_starts_at IS NOT NULL)
+        OR (kind = 'extra' AND original_starts_at IS NULL)
+    )
+);
+
+-- At most one exception per weekly slot.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lesson_occurrences_slot
+    ON lesson_occurrences(booking_id, original_starts_at)
+    WHERE original_starts_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_lesson_occurrences_booking_start
+    ON lesson_occurrences(booking_id, starts_at);
+
+ALTER TABLE lesson_occurrences ENABLE ROW LEVEL SECURITY;
+
+-- Participants can read; writes go through the API (service role) so the
+-- cancellation window cannot be bypassed.
+DROP POLICY IF EXISTS lesson_occurrences_select ON lesson_occurrences;
+CREATE POLICY lesson_occurrences_select ON lesson_occurrences FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM bookings b
+        WHERE b.id = lesson_occurrences.booking_id
+          AND (b.student_id = auth.uid() OR b.instructor_id = auth.uid())
+    )
+    OR EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+DROP TRIGGER IF EXISTS update_lesson_occurrences_updated_at ON lesson_occurrences;
+CREATE TRIGGER update_lesson_occurrences_updated_at
+    BEFORE UPDATE ON lesson_occurrences
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMIT;
@@ -0,0 +1,78 @@
+-- ============================================================================
+-- Migration: Teacher availability and self-booking
+-- Description: Weekly availability windows and blackout dates that teachers
+--              publish in their own timezone (profiles.timezone), plus buffer
+--              and daily-limit settings. Students book an open slot, which
+--              sets the booking's weekly slot starting from the chosen lesson
+--              (bookings.schedule_starts_at). See lib/teacher-availability.ts.
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE profiles
+    ADD COLUMN IF NOT EXISTS booking_buffer_minutes INTEGER DEFAULT 0
+        CHECK (booking_buffer_minutes >= 0 AND booking_buffer_minutes <= 120),
+    ADD COLUMN IF NOT EXISTS max_lessons_per_day INTEGER
+        CHECK (max_lessons_per_day IS NULL OR (max_lessons_per_day >= 1 AND max_lessons_per_day <= 24));
+
+-- First lesson of the current weekly slot; earlier weeks are not expanded.
+ALTER TABLE bookings
+    ADD COLUMN IF NOT EXISTS schedule_starts_at TIMESTAMPTZ;
+
+-- Times are wall-clock times in the teacher's profiles.timezone.
+CREATE TABLE IF NOT EXISTS teacher_availability (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    instructor_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    day_of_week INTEGER NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT teacher_availability_valid_window CHECK (end_time > start_time)
+);
+
+CREATE TABLE IF NOT EXISTS teacher_blackout_dates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    instructor_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    blackout_date DATE NOT NULL,
+    reason TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT unique_teacher_blackout_date UNIQUE (instructor_id, blackout_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_teacher_availability_instructor ON teacher_availability(instructor_id, day_of_week);
+CREATE INDEX IF NOT EXISTS idx_teacher_blackout_dates_instructor ON teacher_blackout_dates(instructor_id, blackout_date);
+
+ALTER TABLE teacher_availability ENABLE ROW LEVEL SECURITY;
+ALTER TABLE teacher_blackout_dates ENABLE ROW LEVEL SECURITY;
+
+-- Published availability is visible to any signed-in user; only the teacher
+-- (or an admin) edits it.
+DROP POLICY IF EXISTS teacher_availability_select ON teacher_availability;
+CREATE POLICY teacher_availability_select ON teacher_availability FOR SELECT USING (
+    auth.uid() IS NOT NULL
+);
+
+DROP POLICY IF EXISTS teacher_availability_write ON teacher_availability;
+CREATE POLICY teacher_availability_write ON teacher_availability FOR ALL USING (
+    instructor_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+) WITH CHECK (
+    instructor_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+DROP POLICY IF EXISTS teacher_blackout_dates_select ON teacher_blackout_dates;
+CREATE POLICY teacher_blackout_dates_select ON teacher_blackout_dates FOR SELECT USING (
+    auth.uid() IS NOT NULL
+);
+
+DROP POLICY IF EXISTS teacher_blackout_dates_write ON teacher_blackout_dates;
+CREATE POLICY teacher_blackout_dates_write ON teacher_blackout_dates FOR ALL USING (
+    instructor_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+) WITH CHECK (
+    instructor_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+COMMIT;
@@ -0,0 +1,68 @@
+-- ============================================================================
+-- Migration: Calendar feed and email invites
+-- Description: Per-user secret token for the lesson ICS subscription feed
+--              (/api/calendar/feed/[token]), and email_invites - calendar
+--              invites parsed from inbound text/calendar parts so the thread
+--              view can render them without re-downloading attachments.
+-- ============================================================================
+
+BEGIN;
+
+-- Kept off profiles, which every signed-in user can read: the token alone
+-- opens the owner's lesson schedule.
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+    user_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Written by /api/calendar/feed-token and read by the feed with the service role.
+DROP POLICY IF EXISTS calendar_feed_tokens_select ON calendar_feed_tokens;
+CREATE POLICY calendar_feed_tokens_select ON calendar_feed_tokens FOR SELECT TO authenticated
+    USING (user_id = auth.uid());
+
+-- One row per VEVENT; a re-sent invite (same UID) updates the row.
+CREATE TABLE IF NOT EXISTS email_invites (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    email_id UUID NOT NULL REFERENCES emails(id) ON DELETE CASCADE,
+    uid TEXT NOT NULL,
+    sequence INTEGER NOT NULL DEFAULT 0,
+    method TEXT,
+    status TEXT,
+    summary TEXT,
+    description TEXT,
+    location TEXT,
+    starts_at TIMESTAMPTZ,
+    ends_at TIMESTAMPTZ,
+    is_all_day BOOLEAN NOT NULL DEFAULT FALSE,
+    timezone TEXT,
+    organizer_name TEXT,
+    organizer_email TEXT,
+    attendees JSONB NOT NULL DEFAULT '[]'::jsonb,
+    meeting_url TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT unique_email_invite_uid UNIQUE (email_id, uid)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_invites_email ON email_invites(email_id);
+
+ALTER TABLE email_invites ENABLE ROW LEVEL SECURITY;
+
+-- Written by the inbound webhook (service role); readable like the email itself.
+DROP POLICY IF EXISTS email_invites_select ON email_invites;
+CREATE POLICY email_invites_select ON email_invites FOR SELECT TO authenticated
+    USING (email_id IN (
+        SELECT e.id FROM emails e
+        JOIN email_accounts ea ON e.email_account_id = ea.id
+        WHERE ea.user_id = get_current_user_id()
+    ) OR is_email_admin());
+
+DROP TRIGGER IF EXISTS update_email_invites_updated_at ON email_invites;
+CREATE TRIGGER update_email_invites_updated_at
+    BEFORE UPDATE ON email_invites
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMIT;
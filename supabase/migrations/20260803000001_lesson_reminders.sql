@@ -0,0 +1,49 @@
+-- ============================================================================
+-- Migration: Lesson reminders
+-- Description: Per-profile reminder preferences (channels, lead times, quiet
+--              hours in profiles.timezone) and lesson_reminder_log, one row per
+--              reminder sent. The unique key is what stops overlapping cron
+--              runs from sending the same reminder twice: the worker claims
+--              the row before sending. See lib/lesson-reminders.ts.
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE profiles
+    ADD COLUMN IF NOT EXISTS lesson_reminder_email BOOLEAN NOT NULL DEFAULT TRUE,
+    ADD COLUMN IF NOT EXISTS lesson_reminder_sms BOOLEAN NOT NULL DEFAULT FALSE,
+    -- Minutes before the lesson; up to a week ahead
+    ADD COLUMN IF NOT EXISTS lesson_reminder_offsets INTEGER[] NOT NULL DEFAULT '{1440,60}'
+        CHECK (cardinality(lesson_reminder_offsets) <= 5 AND 0 < ALL (lesson_reminder_offsets)
+               AND 10080 >= ALL (lesson_reminder_offsets)),
+    ADD COLUMN IF NOT EXISTS quiet_hours_start TIME,
+    ADD COLUMN IF NOT EXISTS quiet_hours_end TIME;
+
+CREATE TABLE IF NOT EXISTS lesson_reminder_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+    -- The occurrence's actual start; a rescheduled lesson gets fresh reminders
+    occurrence_starts_at TIMESTAMPTZ NOT NULL,
+    recipient_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    channel TEXT NOT NULL CHECK (channel IN ('email', 'sms')),
+    offset_minutes INTEGER NOT NULL,
+    status TEXT NOT NULL DEFAULT 'sending' CHECK (status IN ('sending', 'sent', 'failed')),
+    error TEXT,
+    sent_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT unique_lesson_reminder
+        UNIQUE (booking_id, occurrence_starts_at, recipient_id, channel, offset_minutes)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lesson_reminder_log_recipient ON lesson_reminder_log(recipient_id, created_at DESC);
+
+ALTER TABLE lesson_reminder_log ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the reminder worker (service role); recipients can see theirs.
+DROP POLICY IF EXISTS lesson_reminder_log_select ON lesson_reminder_log;
+CREATE POLICY lesson_reminder_log_select ON lesson_reminder_log FOR SELECT USING (
+    recipient_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+COMMIT;
@@ -0,0 +1,76 @@
+-- ============================================================================
+-- Migration: Practice assignments
+-- Description: Teacher-set practice on one of the trainers (pitch, scale,
+--              rhythm, song key) with trainer settings, a session target and
+--              an optional due time and minimum score. Every trainer session
+--              that matches an active assignment is logged in
+--              practice_assignment_sessions - the trainers keep only the best
+--              session per day, so their own tables can't be counted. See
+--              lib/practice-assignments.ts.
+-- ============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS practice_assignments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+    instructor_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    -- Lesson notes the homework came from, when created from a lesson summary
+    source_note_id UUID REFERENCES notes_archive(id) ON DELETE SET NULL,
+    trainer TEXT NOT NULL CHECK (trainer IN ('pitch', 'scale', 'rhythm', 'song')),
+    settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+    title TEXT NOT NULL,
+    notes TEXT,
+    target_sessions INTEGER NOT NULL DEFAULT 1 CHECK (target_sessions BETWEEN 1 AND 50),
+    min_score NUMERIC CHECK (min_score IS NULL OR (min_score >= 0 AND min_score <= 100)),
+    due_at TIMESTAMPTZ,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'archived')),
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS practice_assignment_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    assignment_id UUID NOT NULL REFERENCES practice_assignments(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    -- The trainer's session row, if it was kept; no FK because trainers replace
+    -- a day's session when the score improves
+    session_id UUID,
+    score NUMERIC,
+    practiced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_practice_assignments_student ON practice_assignments(student_id, status);
+CREATE INDEX IF NOT EXISTS idx_practice_assignments_booking ON practice_assignments(booking_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_practice_assignment_sessions_assignment ON practice_assignment_sessions(assignment_id, practiced_at);
+
+DROP TRIGGER IF EXISTS update_practice_assignments_updated_at ON practice_assignments;
+CREATE TRIGGER update_practice_assignments_updated_at
+    BEFORE UPDATE ON practice_assignments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE practice_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE practice_assignment_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through the API (settings are validated there) with the service role.
+DROP POLICY IF EXISTS practice_assignments_select ON practice_assignments;
+CREATE POLICY practice_assignments_select ON practice_assignments FOR SELECT USING (
+    student_id = auth.uid()
+    OR instructor_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+DROP POLICY IF EXISTS practice_assignment_sessions_select ON practice_assignment_sessions;
+CREATE POLICY practice_assignment_sessions_select ON practice_assignment_sessions FOR SELECT USING (
+    student_id = auth.uid()
+    OR EXISTS (
+        SELECT 1 FROM practice_assignments a
+        WHERE a.id = practice_assignment_sessions.assignment_id AND a.instructor_id = auth.uid()
+    )
+    OR EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+COMMIT;
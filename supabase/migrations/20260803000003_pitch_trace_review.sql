@@ -0,0 +1,86 @@
+-- ============================================================================
+-- Migration: Pitch trace review
+-- Description: The pitch and scale trainers now store a downsampled pitch trace
+--              for each note attempt in pitch_training_raw_samples, which was
+--              pitch-trainer only. Scale sessions get their own session/note
+--              columns alongside the pitch ones (exactly one pair is set), and
+--              user_id is stored so RLS doesn't need a join per sample.
+--              Teachers can leave comments at a point in a trace
+--              (pitch_trace_comments); the student sees them in the Training
+--              Center. See lib/pitch-traces.ts.
+-- ============================================================================
+
+BEGIN;
+
+-- ============================================================================
+-- pitch_training_raw_samples: scale sessions and owner
+-- ============================================================================
+ALTER TABLE pitch_training_raw_samples
+    ALTER COLUMN session_id DROP NOT NULL,
+    ADD COLUMN IF NOT EXISTS scale_session_id UUID REFERENCES scale_training_sessions(id) ON DELETE CASCADE,
+    ADD COLUMN IF NOT EXISTS scale_note_metric_id UUID REFERENCES scale_training_note_metrics(id) ON DELETE CASCADE,
+    ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES profiles(id) ON DELETE CASCADE;
+
+ALTER TABLE pitch_training_raw_samples
+    DROP CONSTRAINT IF EXISTS pitch_training_raw_samples_one_session;
+ALTER TABLE pitch_training_raw_samples
+    ADD CONSTRAINT pitch_training_raw_samples_one_session
+    CHECK ((session_id IS NULL) <> (scale_session_id IS NULL));
+
+CREATE INDEX IF NOT EXISTS idx_raw_samples_session
+    ON pitch_training_raw_samples(session_id, sample_timestamp_ms);
+CREATE INDEX IF NOT EXISTS idx_raw_samples_scale_session
+    ON pitch_training_raw_samples(scale_session_id, sample_timestamp_ms);
+
+-- Samples are written by the session APIs with the service role.
+DROP POLICY IF EXISTS "Users can view own raw samples" ON pitch_training_raw_samples;
+DROP POLICY IF EXISTS "Users can insert own raw samples" ON pitch_training_raw_samples;
+CREATE POLICY "Users can view own raw samples"
+    ON pitch_training_raw_samples FOR SELECT
+    USING (
+        user_id = auth.uid()
+        OR session_id IN (SELECT id FROM pitch_training_sessions WHERE user_id = auth.uid())
+    );
+
+-- ============================================================================
+-- TABLE: pitch_trace_comments
+-- A teacher's comment at a point in one note attempt of a trace
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS pitch_trace_comments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    author_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+
+    -- Exactly one session/note pair is set, matching pitch_training_raw_samples.
+    -- Comments go when the trainer replaces the session with a better one.
+    session_id UUID REFERENCES pitch_training_sessions(id) ON DELETE CASCADE,
+    note_metric_id UUID REFERENCES pitch_training_note_metrics(id) ON DELETE CASCADE,
+    scale_session_id UUID REFERENCES scale_training_sessions(id) ON DELETE CASCADE,
+    scale_note_metric_id UUID REFERENCES scale_training_note_metrics(id) ON DELETE CASCADE,
+
+    timestamp_ms INTEGER NOT NULL CHECK (timestamp_ms >= 0),  -- ms from note attempt start
+    body TEXT NOT NULL,
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CHECK (
+        (session_id IS NOT NULL AND note_metric_id IS NOT NULL AND scale_session_id IS NULL AND scale_note_metric_id IS NULL)
+        OR (session_id IS NULL AND note_metric_id IS NULL AND scale_session_id IS NOT NULL AND scale_note_metric_id IS NOT NULL)
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_pitch_trace_comments_session ON pitch_trace_comments(session_id);
+CREATE INDEX IF NOT EXISTS idx_pitch_trace_comments_scale_session ON pitch_trace_comments(scale_session_id);
+CREATE INDEX IF NOT EXISTS idx_pitch_trace_comments_student ON pitch_trace_comments(student_id, created_at DESC);
+
+ALTER TABLE pitch_trace_comments ENABLE ROW LEVEL SECURITY;
+
+-- Comments are written by the teacher API with the service role.
+DROP POLICY IF EXISTS pitch_trace_comments_select ON pitch_trace_comments;
+CREATE POLICY pitch_trace_comments_select ON pitch_trace_comments FOR SELECT USING (
+    student_id = auth.uid()
+    OR author_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+COMMIT;
@@ -0,0 +1,33 @@
+-- ============================================================================
+-- Migration: Chunked transcription of long recordings
+-- Description: Recordings above Whisper's 25MB limit are no longer failed
+--              outright. Their audio is cut into overlapping chunks that are
+--              transcribed one after another (see lib/audio-chunks.ts and
+--              lib/lesson-processing.ts). transcript_segments holds the
+--              stitched, timestamped segments - partial while chunks are still
+--              outstanding - and transcription_progress records how far the
+--              chunking got, so the cron can resume a file that was cut off
+--              mid-way instead of starting again.
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE public.lesson_recordings
+    ADD COLUMN IF NOT EXISTS transcript_segments JSONB,
+    ADD COLUMN IF NOT EXISTS transcription_progress JSONB;
+
+COMMENT ON COLUMN public.lesson_recordings.transcript_segments IS
+    'Array of {start, end, text}, seconds from the start of the recording';
+COMMENT ON COLUMN public.lesson_recordings.transcription_progress IS
+    '{durationSeconds, chunkSeconds, overlapSeconds, totalChunks, completedChunks}; null for single-request transcriptions';
+
+-- Earlier runs failed every oversized recording permanently. Put them back in
+-- the queue now that they can be chunked. Each is tried once more; if the
+-- server has no ffmpeg it fails again and the cron leaves it alone.
+UPDATE public.lesson_recordings
+SET ai_processing_status = 'pending',
+    ai_processing_error = NULL
+WHERE ai_processing_status = 'failed'
+  AND ai_processing_error LIKE '%above Whisper%';
+
+COMMIT;
@@ -0,0 +1,19 @@
+-- ============================================================================
+-- Migration: Transcript search
+-- Description: Full-text index over lesson transcripts so students and
+--              teachers can search across all of a student's lessons. The
+--              matching timestamps come from transcript_segments (see
+--              lib/lesson-transcripts.ts); this column only picks the
+--              recordings.
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE public.lesson_recordings
+    ADD COLUMN IF NOT EXISTS transcript_search TSVECTOR
+        GENERATED ALWAYS AS (to_tsvector('english', COALESCE(transcript, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_lesson_recordings_transcript_search
+    ON public.lesson_recordings USING GIN (transcript_search);
+
+COMMIT;
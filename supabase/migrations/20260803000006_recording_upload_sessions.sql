@@ -0,0 +1,48 @@
+-- ============================================================================
+-- Migration: Chunked recording uploads
+-- Description: Lesson recordings are uploaded during class as numbered parts
+--              (lesson-recordings/<booking>/parts/<session>/<n>.webm) instead
+--              of one file at the end, so a tab crash or dropped connection
+--              only loses the last few seconds. Each recording run gets a
+--              lesson_recording_uploads row; /recordings/complete claims it
+--              ('assembling'), concatenates the parts into the final file and
+--              marks it completed. Rows left
+--              'recording' are interrupted sessions that the teacher's browser
+--              finishes on rejoin (see lib/recording-upload.ts).
+-- ============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.lesson_recording_uploads (
+    -- Generated by the browser when recording starts
+    id UUID PRIMARY KEY,
+    booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    created_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    class_started_at TIMESTAMPTZ,
+    -- 'assembling' while one /recordings/complete call holds the session
+    status TEXT NOT NULL DEFAULT 'recording' CHECK (status IN ('recording', 'assembling', 'completed')),
+    last_part_number INTEGER,
+    recording_id UUID REFERENCES public.lesson_recordings(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lesson_recording_uploads_open
+    ON public.lesson_recording_uploads (booking_id, updated_at)
+    WHERE status = 'recording';
+
+DROP TRIGGER IF EXISTS update_lesson_recording_uploads_updated_at ON public.lesson_recording_uploads;
+CREATE TRIGGER update_lesson_recording_uploads_updated_at
+    BEFORE UPDATE ON public.lesson_recording_uploads
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Writes go through the API (admin client), which checks the booking
+ALTER TABLE public.lesson_recording_uploads ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS lesson_recording_uploads_select ON public.lesson_recording_uploads;
+CREATE POLICY lesson_recording_uploads_select ON public.lesson_recording_uploads FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = booking_id AND b.instructor_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+COMMIT;
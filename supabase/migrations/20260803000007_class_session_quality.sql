@@ -0,0 +1,69 @@
+-- ============================================================================
+-- Migration: Call quality logs for class sessions
+-- Description: Each participant's browser samples WebRTC stats during class
+--              (RTT, jitter, packet loss, bitrate, resolution, ICE candidate
+--              type) and posts them in batches. One row per participant per
+--              class session, keyed by the class start time the session's
+--              notes_archive row also carries, so a teacher can see why a
+--              past lesson went badly. Rows outlive the student's live
+--              class_sessions row.
+-- ============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.class_session_quality (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- Not a class_sessions FK: deleting that row must not erase the logs
+    student_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    class_started_at TIMESTAMPTZ NOT NULL,
+    participant_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    -- PeerStatsSample[] (lib/call-quality.ts), oldest first, capped by the API
+    samples JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (booking_id, class_started_at, participant_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_class_session_quality_student
+    ON public.class_session_quality (student_id, class_started_at DESC);
+
+DROP TRIGGER IF EXISTS update_class_session_quality_updated_at ON public.class_session_quality;
+CREATE TRIGGER update_class_session_quality_updated_at
+    BEFORE UPDATE ON public.class_session_quality
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Append a batch of samples in one statement, so concurrent posts from the
+-- same participant can't overwrite each other's batches. Keeps the newest
+-- p_max_samples. Called by the API with the service role.
+CREATE OR REPLACE FUNCTION public.append_class_session_quality(
+    p_student_id UUID,
+    p_booking_id UUID,
+    p_class_started_at TIMESTAMPTZ,
+    p_participant_id UUID,
+    p_samples JSONB,
+    p_max_samples INTEGER
+)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+    INSERT INTO class_session_quality (student_id, booking_id, class_started_at, participant_id, samples)
+    VALUES (p_student_id, p_booking_id, p_class_started_at, p_participant_id, p_samples)
+    ON CONFLICT (booking_id, class_started_at, participant_id) DO UPDATE SET samples = (
+        SELECT COALESCE(jsonb_agg(t.sample ORDER BY t.ord), '[]'::jsonb)
+        FROM jsonb_array_elements(class_session_quality.samples || EXCLUDED.samples)
+            WITH ORDINALITY AS t(sample, ord)
+        WHERE t.ord > jsonb_array_length(class_session_quality.samples || EXCLUDED.samples) - p_max_samples
+    );
+$$;
+
+-- Writes go through the API (admin client), which checks the booking
+ALTER TABLE public.class_session_quality ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS class_session_quality_select ON public.class_session_quality;
+CREATE POLICY class_session_quality_select ON public.class_session_quality FOR SELECT USING (
+    is_student_or_teacher(student_id)
+);
+
+COMMIT;
@@ -0,0 +1,190 @@
+-- ============================================================================
+-- Migration: Lesson room access
+-- Description: Only people who belong to a booking can get into its lesson
+--              room. The room's Realtime channel (lesson:lesson-<booking>) is
+--              private, and these policies on realtime.messages admit the
+--              booking's teacher and student, admins, and observers the
+--              teacher has added - e.g. a parent who watches but doesn't
+--              speak. Roles come from the booking, never from the browser:
+--              only the host may send on the 'host-control' broadcast event,
+--              and peers look each other's roles up with
+--              lesson_room_participant_role by the DTLS certificate each
+--              participant registered for the room, which a connection can
+--              only be made with by whoever holds it. Waiting room admission
+--              and host controls run on top of this (see
+--              lib/webrtc-signaling.ts).
+-- ============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.lesson_observers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    observer_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    added_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (booking_id, observer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lesson_observers_observer
+    ON public.lesson_observers (observer_id);
+
+-- Writes go through the API (admin client), which checks the booking
+ALTER TABLE public.lesson_observers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS lesson_observers_select ON public.lesson_observers;
+CREATE POLICY lesson_observers_select ON public.lesson_observers FOR SELECT USING (
+    observer_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = booking_id AND b.instructor_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- A user's role in a booking's lesson room, or NULL if they don't belong.
+-- Internal: callers go through the two wrappers below.
+CREATE OR REPLACE FUNCTION public.lesson_room_role_of(p_booking_id UUID, p_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN b.instructor_id = p_user_id
+            OR EXISTS (SELECT 1 FROM profiles p WHERE p.id = p_user_id AND p.role = 'admin') THEN 'host'
+        WHEN b.student_id = p_user_id THEN 'student'
+        WHEN EXISTS (
+            SELECT 1 FROM lesson_observers o WHERE o.booking_id = b.id AND o.observer_id = p_user_id
+        ) THEN 'observer'
+    END
+    FROM bookings b
+    WHERE b.id = p_booking_id AND b.status = 'confirmed';
+$$;
+
+REVOKE ALL ON FUNCTION public.lesson_room_role_of(UUID, UUID) FROM PUBLIC;
+
+-- The caller's role in a booking's lesson room, or NULL if they don't belong
+CREATE OR REPLACE FUNCTION public.lesson_room_role(p_booking_id UUID)
+RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT public.lesson_room_role_of(p_booking_id, auth.uid());
+$$;
+
+-- The DTLS certificates participants use in the room, by SHA-256 fingerprint
+-- (see lib/room-certificate.ts). Presence and signaling messages say whatever
+-- the sender likes; a certificate registered here under the signed-in user is
+-- what ties a peer connection to them. Written by the API, read through
+-- lesson_room_participant_role.
+CREATE TABLE IF NOT EXISTS public.lesson_room_certificates (
+    booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    fingerprint TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (booking_id, user_id, fingerprint)
+);
+
+ALTER TABLE public.lesson_room_certificates ENABLE ROW LEVEL SECURITY;
+
+-- Another participant's role, for peers deciding whose media and room
+-- controls to take: NULL unless they registered this certificate. Only
+-- answered for people in the room themselves.
+DROP FUNCTION IF EXISTS public.lesson_room_participant_role(UUID, UUID);
+CREATE OR REPLACE FUNCTION public.lesson_room_participant_role(
+    p_booking_id UUID,
+    p_user_id UUID,
+    p_fingerprint TEXT
+)
+RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT public.lesson_room_role_of(p_booking_id, p_user_id)
+    WHERE public.lesson_room_role(p_booking_id) IS NOT NULL
+      AND EXISTS (
+          SELECT 1 FROM lesson_room_certificates c
+          WHERE c.booking_id = p_booking_id
+            AND c.user_id = p_user_id
+            AND c.fingerprint = upper(p_fingerprint)
+      );
+$$;
+
+-- Realtime topic check for lesson room channels
+CREATE OR REPLACE FUNCTION public.can_join_lesson_room(p_topic TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF p_topic !~ '^lesson:lesson-[0-9a-fA-F-]{36}$' THEN
+        RETURN FALSE;
+    END IF;
+    RETURN public.lesson_room_role(substring(p_topic FROM 15)::UUID) IS NOT NULL;
+END;
+$$;
+
+-- Whether the caller hosts the lesson room on this topic
+CREATE OR REPLACE FUNCTION public.is_lesson_room_host(p_topic TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF p_topic !~ '^lesson:lesson-[0-9a-fA-F-]{36}$' THEN
+        RETURN FALSE;
+    END IF;
+    RETURN public.lesson_room_role(substring(p_topic FROM 15)::UUID) IS NOT DISTINCT FROM 'host';
+END;
+$$;
+
+DROP POLICY IF EXISTS lesson_room_receive ON realtime.messages;
+CREATE POLICY lesson_room_receive ON realtime.messages FOR SELECT TO authenticated USING (
+    public.can_join_lesson_room(realtime.topic())
+);
+
+-- Admission, host actions and the instrument go out on 'host-control'
+DROP POLICY IF EXISTS lesson_room_send ON realtime.messages;
+CREATE POLICY lesson_room_send ON realtime.messages FOR INSERT TO authenticated WITH CHECK (
+    public.can_join_lesson_room(realtime.topic())
+    AND realtime.messages.event IS DISTINCT FROM 'host-control'
+);
+
+DROP POLICY IF EXISTS lesson_room_host_send ON realtime.messages;
+CREATE POLICY lesson_room_host_send ON realtime.messages FOR INSERT TO authenticated WITH CHECK (
+    realtime.messages.event = 'host-control'
+    AND public.is_lesson_room_host(realtime.topic())
+);
+
+-- Observers see the booking and whether class is live, nothing else. A
+-- SECURITY DEFINER check, since lesson_observers' own policy reads bookings.
+CREATE OR REPLACE FUNCTION public.is_lesson_observer(p_booking_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM lesson_observers o WHERE o.booking_id = p_booking_id AND o.observer_id = auth.uid()
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_student_observer(p_student_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM lesson_observers o
+        JOIN bookings b ON b.id = o.booking_id
+        WHERE o.observer_id = auth.uid() AND b.student_id = p_student_id AND b.status = 'confirmed'
+    );
+$$;
+
+DROP POLICY IF EXISTS bookings_observer_select ON public.bookings;
+CREATE POLICY bookings_observer_select ON public.bookings FOR SELECT USING (
+    public.is_lesson_observer(id)
+);
+
+DROP POLICY IF EXISTS class_sessions_observer_select ON public.class_sessions;
+CREATE POLICY class_sessions_observer_select ON public.class_sessions FOR SELECT USING (
+    public.is_student_observer(student_id)
+);
+
+COMMIT;
@@ -0,0 +1,74 @@
+-- ============================================================================
+-- Migration: Lesson chat
+-- Description: Chat typed in the lesson room, kept after class. Messages are
+--              keyed by the booking and the class start time while the
+--              class runs, and linked to the class's notes_archive row when
+--              it ends so "Past Classes" can show and search them. Files
+--              shared in chat live in the private lesson-chat-files bucket
+--              and are served through the API (see lib/lesson-chat.ts).
+-- ============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.lesson_chat_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- Not a class_sessions FK: deleting that row must not take the chat history with it
+    student_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+    class_started_at TIMESTAMPTZ NOT NULL,
+    -- Set by end-class; NULL while the class is still running
+    archive_id UUID REFERENCES public.notes_archive(id) ON DELETE SET NULL,
+    sender_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    sender_name TEXT NOT NULL,
+    body TEXT NOT NULL DEFAULT '',
+    attachment_path TEXT,
+    attachment_name TEXT,
+    attachment_type TEXT,
+    attachment_size BIGINT,
+    -- When someone pinned it into the lesson notes
+    pinned_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    search TSVECTOR
+        GENERATED ALWAYS AS (to_tsvector('english', COALESCE(body, '') || ' ' || COALESCE(attachment_name, ''))) STORED,
+    CHECK (body <> '' OR attachment_path IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lesson_chat_messages_class
+    ON public.lesson_chat_messages (booking_id, class_started_at, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_lesson_chat_messages_archive
+    ON public.lesson_chat_messages (archive_id);
+
+CREATE INDEX IF NOT EXISTS idx_lesson_chat_messages_search
+    ON public.lesson_chat_messages USING GIN (search);
+
+-- Writes go through the API (admin client), which checks the booking
+ALTER TABLE public.lesson_chat_messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS lesson_chat_messages_select ON public.lesson_chat_messages;
+CREATE POLICY lesson_chat_messages_select ON public.lesson_chat_messages FOR SELECT USING (
+    is_student_or_teacher(student_id)
+);
+
+-- Private: files are only handed out as signed URLs by the API. Uploads go
+-- straight from the browser through signed URLs, so storage enforces the
+-- limits (MAX_CHAT_FILE_BYTES and CHAT_FILE_TYPES in lib/lesson-chat.ts).
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'lesson-chat-files',
+    'lesson-chat-files',
+    FALSE,
+    26214400,
+    ARRAY[
+        'image/*', 'audio/*', 'video/*', 'application/pdf', 'text/plain',
+        'application/msword',
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'application/vnd.recordare.musicxml', 'application/vnd.recordare.musicxml+xml',
+        'application/xml', 'text/xml'
+    ]
+)
+ON CONFLICT (id) DO UPDATE SET
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+COMMIT;
@@ -0,0 +1,20 @@
+-- ============================================================================
+-- Migration: Student tonic
+-- Description: The student's tonic (Sa), set by their teacher from the lesson
+--              room's instrument panel. The lesson room's drone and keyboard
+--              use it, and the pitch trainers can start from it. Stored as a
+--              note name and octave, like the trainers' root note settings.
+--              Written through the API (see lib/lesson-instrument.ts).
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE profiles
+    ADD COLUMN IF NOT EXISTS tonic_note TEXT
+        CHECK (tonic_note IN ('C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B')),
+    ADD COLUMN IF NOT EXISTS tonic_octave SMALLINT
+        CHECK (tonic_octave BETWEEN 2 AND 5),
+    ADD COLUMN IF NOT EXISTS tonic_set_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS tonic_updated_at TIMESTAMPTZ;
+
+COMMIT;
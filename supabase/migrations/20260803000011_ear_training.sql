@@ -0,0 +1,249 @@
+-- ============================================================================
+-- Migration: Ear Training Session Tracking
+-- Description: Sessions and weekly progress for the Ear Trainer: interval,
+--              chord and melodic dictation drills answered by clicking or
+--              singing. item_stats records how often each interval, chord or
+--              scale degree was asked and missed, which the trainer reads
+--              back to pick the next questions (see lib/ear-training.ts).
+-- ============================================================================
+
+BEGIN;
+
+-- ============================================================================
+-- TABLE: ear_training_sessions
+-- One drill of a single exercise type
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS ear_training_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+
+    -- Session timing
+    session_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    started_at TIMESTAMPTZ NOT NULL,
+    ended_at TIMESTAMPTZ,
+    duration_seconds INTEGER,
+
+    -- Session settings
+    exercise_type VARCHAR(20) NOT NULL
+        CHECK (exercise_type IN ('interval', 'chord', 'dictation')),
+    answer_mode VARCHAR(10) NOT NULL DEFAULT 'click'
+        CHECK (answer_mode IN ('click', 'sing')),
+
+    -- Difficulty (1-5), adapted during the session
+    start_level SMALLINT NOT NULL CHECK (start_level BETWEEN 1 AND 5),
+    end_level SMALLINT NOT NULL CHECK (end_level BETWEEN 1 AND 5),
+
+    -- Aggregated session metrics
+    total_questions INTEGER NOT NULL DEFAULT 0,
+    correct_count INTEGER NOT NULL DEFAULT 0,
+    accuracy_percent DECIMAL(5,2),
+    avg_response_ms INTEGER,
+
+    -- Per-item history: { "interval:7": { "asked": 4, "missed": 1 }, ... }
+    item_stats JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+    -- Overall session score (accuracy weighted by level)
+    overall_score DECIMAL(5,2),
+
+    -- Timestamps
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================================================
+-- TABLE: ear_training_weekly_progress
+-- Pre-computed weekly aggregates for quick progress display
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS ear_training_weekly_progress (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+
+    -- Week identification (Monday of the week)
+    week_start_date DATE NOT NULL,
+
+    -- Weekly averages
+    avg_accuracy_percent DECIMAL(5,2),
+    avg_overall_score DECIMAL(5,2),
+    avg_response_ms INTEGER,
+
+    -- Weekly totals
+    total_sessions INTEGER DEFAULT 0,
+    total_questions INTEGER DEFAULT 0,
+    total_correct INTEGER DEFAULT 0,
+    total_practice_time_seconds INTEGER DEFAULT 0,
+
+    -- Sessions per exercise type
+    interval_sessions INTEGER DEFAULT 0,
+    chord_sessions INTEGER DEFAULT 0,
+    dictation_sessions INTEGER DEFAULT 0,
+
+    -- Highest level reached in any exercise
+    max_level_reached SMALLINT,
+
+    -- Comparison to previous week (percentage)
+    accuracy_change DECIMAL(6,2),                -- Positive = improvement
+
+    -- Timestamps
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE(user_id, week_start_date)
+);
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+CREATE INDEX IF NOT EXISTS idx_ear_sessions_user_date
+    ON ear_training_sessions(user_id, session_date DESC);
+
+CREATE INDEX IF NOT EXISTS idx_ear_weekly_user_week
+    ON ear_training_weekly_progress(user_id, week_start_date DESC);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+ALTER TABLE ear_training_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ear_training_weekly_progress ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see their own data
+DROP POLICY IF EXISTS "Users can view own ear sessions" ON ear_training_sessions;
+CREATE POLICY "Users can view own ear sessions"
+    ON ear_training_sessions FOR SELECT
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own ear sessions" ON ear_training_sessions;
+CREATE POLICY "Users can insert own ear sessions"
+    ON ear_training_sessions FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own ear sessions" ON ear_training_sessions;
+CREATE POLICY "Users can delete own ear sessions"
+    ON ear_training_sessions FOR DELETE
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view own ear weekly progress" ON ear_training_weekly_progress;
+CREATE POLICY "Users can view own ear weekly progress"
+    ON ear_training_weekly_progress FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- Teachers can view their students' data
+DROP POLICY IF EXISTS "Teachers can view student ear sessions" ON ear_training_sessions;
+CREATE POLICY "Teachers can view student ear sessions"
+    ON ear_training_sessions FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM bookings
+            WHERE bookings.student_id = ear_training_sessions.user_id
+            AND bookings.instructor_id = auth.uid()
+            AND bookings.status = 'confirmed'
+        )
+    );
+
+DROP POLICY IF EXISTS "Teachers can view student ear weekly progress" ON ear_training_weekly_progress;
+CREATE POLICY "Teachers can view student ear weekly progress"
+    ON ear_training_weekly_progress FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM bookings
+            WHERE bookings.student_id = ear_training_weekly_progress.user_id
+            AND bookings.instructor_id = auth.uid()
+            AND bookings.status = 'confirmed'
+        )
+    );
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Function to calculate weekly ear training progress
+CREATE OR REPLACE FUNCTION calculate_ear_weekly_progress(p_user_id UUID, p_week_start DATE)
+RETURNS void AS $$
+DECLARE
+    v_current_week RECORD;
+    v_previous_week RECORD;
+BEGIN
+    -- Get current week averages
+    SELECT
+        AVG(accuracy_percent) as avg_accuracy,
+        AVG(overall_score) as avg_score,
+        AVG(avg_response_ms) as avg_response,
+        COUNT(*) as total_sessions,
+        SUM(total_questions) as total_questions,
+        SUM(correct_count) as total_correct,
+        SUM(duration_seconds) as total_time,
+        COUNT(*) FILTER (WHERE exercise_type = 'interval') as interval_sessions,
+        COUNT(*) FILTER (WHERE exercise_type = 'chord') as chord_sessions,
+        COUNT(*) FILTER (WHERE exercise_type = 'dictation') as dictation_sessions,
+        MAX(end_level) as max_level
+    INTO v_current_week
+    FROM ear_training_sessions
+    WHERE user_id = p_user_id
+    AND session_date >= p_week_start
+    AND session_date < p_week_start + INTERVAL '7 days';
+
+    -- Get previous week averages
+    SELECT
+        AVG(accuracy_percent) as avg_accuracy
+    INTO v_previous_week
+    FROM ear_training_sessions
+    WHERE user_id = p_user_id
+    AND session_date >= p_week_start - INTERVAL '7 days'
+    AND session_date < p_week_start;
+
+    -- Upsert weekly progress
+    INSERT INTO ear_training_weekly_progress (
+        user_id, week_start_date,
+        avg_accuracy_percent, avg_overall_score, avg_response_ms,
+        total_sessions, total_questions, total_correct, total_practice_time_seconds,
+        interval_sessions, chord_sessions, dictation_sessions,
+        max_level_reached, accuracy_change,
+        updated_at
+    ) VALUES (
+        p_user_id, p_week_start,
+        v_current_week.avg_accuracy, v_current_week.avg_score, v_current_week.avg_response,
+        v_current_week.total_sessions, v_current_week.total_questions,
+        v_current_week.total_correct, v_current_week.total_time,
+        v_current_week.interval_sessions, v_current_week.chord_sessions,
+        v_current_week.dictation_sessions,
+        v_current_week.max_level,
+        CASE WHEN v_previous_week.avg_accuracy IS NOT NULL AND v_previous_week.avg_accuracy > 0
+            THEN ((v_current_week.avg_accuracy - v_previous_week.avg_accuracy) / v_previous_week.avg_accuracy * 100)
+            ELSE NULL END,
+        NOW()
+    )
+    ON CONFLICT (user_id, week_start_date) DO UPDATE SET
+        avg_accuracy_percent = EXCLUDED.avg_accuracy_percent,
+        avg_overall_score = EXCLUDED.avg_overall_score,
+        avg_response_ms = EXCLUDED.avg_response_ms,
+        total_sessions = EXCLUDED.total_sessions,
+        total_questions = EXCLUDED.total_questions,
+        total_correct = EXCLUDED.total_correct,
+        total_practice_time_seconds = EXCLUDED.total_practice_time_seconds,
+        interval_sessions = EXCLUDED.interval_sessions,
+        chord_sessions = EXCLUDED.chord_sessions,
+        dictation_sessions = EXCLUDED.dictation_sessions,
+        max_level_reached = EXCLUDED.max_level_reached,
+        accuracy_change = EXCLUDED.accuracy_change,
+        updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Trigger to update weekly progress when session is saved
+CREATE OR REPLACE FUNCTION trigger_update_ear_weekly_progress()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM calculate_ear_weekly_progress(
+        NEW.user_id,
+        DATE_TRUNC('week', NEW.session_date)::DATE
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_ear_session_update_weekly ON ear_training_sessions;
+CREATE TRIGGER trg_ear_session_update_weekly
+    AFTER INSERT OR UPDATE ON ear_training_sessions
+    FOR EACH ROW
+    EXECUTE FUNCTION trigger_update_ear_weekly_progress();
+
+COMMIT;
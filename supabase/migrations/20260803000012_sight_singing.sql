@@ -0,0 +1,90 @@
+-- ============================================================================
+-- Migration: Sight-singing pieces and sessions
+-- Description: Melodies a teacher imports for a student from MusicXML or MIDI
+--              (parsed in the browser; only the note list is stored, see
+--              lib/sight-singing.ts) or assigns from the bundled exercise
+--              library, and the student's scored attempts at them.
+--              phrase_results holds pitch and timing scores per phrase for the
+--              teacher to review.
+-- ============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS sight_singing_pieces (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+    instructor_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    source TEXT NOT NULL CHECK (source IN ('musicxml', 'midi', 'library')),
+    file_name TEXT,
+    tempo_bpm INTEGER NOT NULL CHECK (tempo_bpm BETWEEN 30 AND 240),
+    beats_per_bar NUMERIC NOT NULL DEFAULT 4,
+    note_count INTEGER NOT NULL,
+    -- { title, tempoBpm, beatsPerBar, notes: [{ midi, start, duration }], phrases }
+    melody JSONB NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS sight_singing_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+
+    -- What was sung: an assigned piece or a bundled library exercise
+    piece_id UUID REFERENCES sight_singing_pieces(id) ON DELETE SET NULL,
+    library_id TEXT,
+    title TEXT NOT NULL,
+
+    -- Session timing
+    session_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    started_at TIMESTAMPTZ NOT NULL,
+    ended_at TIMESTAMPTZ,
+    duration_seconds INTEGER,
+    tempo_bpm INTEGER NOT NULL,
+
+    -- Aggregated metrics
+    total_notes INTEGER NOT NULL DEFAULT 0,
+    notes_hit INTEGER NOT NULL DEFAULT 0,
+    pitch_accuracy DECIMAL(5,2),
+    timing_accuracy DECIMAL(5,2),
+    overall_score DECIMAL(5,2),
+
+    -- [{ phrase, firstNote, lastNote, totalNotes, notesHit, pitchAccuracy, timingAccuracy, score }]
+    phrase_results JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sight_singing_pieces_booking ON sight_singing_pieces(booking_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sight_singing_pieces_student ON sight_singing_pieces(student_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sight_singing_sessions_user_date ON sight_singing_sessions(user_id, session_date DESC);
+
+DROP TRIGGER IF EXISTS update_sight_singing_pieces_updated_at ON sight_singing_pieces;
+CREATE TRIGGER update_sight_singing_pieces_updated_at
+    BEFORE UPDATE ON sight_singing_pieces
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE sight_singing_pieces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sight_singing_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through the API (melodies and scores are validated there) with the service role.
+DROP POLICY IF EXISTS sight_singing_pieces_select ON sight_singing_pieces;
+CREATE POLICY sight_singing_pieces_select ON sight_singing_pieces FOR SELECT USING (
+    student_id = auth.uid()
+    OR instructor_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+DROP POLICY IF EXISTS sight_singing_sessions_select ON sight_singing_sessions;
+CREATE POLICY sight_singing_sessions_select ON sight_singing_sessions FOR SELECT USING (
+    user_id = auth.uid()
+    OR EXISTS (
+        SELECT 1 FROM bookings
+        WHERE bookings.student_id = sight_singing_sessions.user_id
+        AND bookings.instructor_id = auth.uid()
+    )
+    OR EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+COMMIT;
@@ -0,0 +1,57 @@
+-- ============================================================================
+-- Migration: Vocal range
+-- Description: The student's measured vocal range from the guided range test
+--              (glide down, glide up, comfortable singing), as MIDI note
+--              numbers on the profile with a suggested voice type. Every test
+--              is kept in vocal_range_tests so the range can be followed over
+--              time. The trainers default their octave to it. Written through
+--              the API (see lib/vocal-range.ts).
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE profiles
+    ADD COLUMN IF NOT EXISTS range_lowest_midi SMALLINT
+        CHECK (range_lowest_midi BETWEEN 28 AND 96),
+    ADD COLUMN IF NOT EXISTS range_highest_midi SMALLINT
+        CHECK (range_highest_midi BETWEEN 28 AND 96),
+    ADD COLUMN IF NOT EXISTS range_comfortable_low_midi SMALLINT
+        CHECK (range_comfortable_low_midi BETWEEN 28 AND 96),
+    ADD COLUMN IF NOT EXISTS range_comfortable_high_midi SMALLINT
+        CHECK (range_comfortable_high_midi BETWEEN 28 AND 96),
+    ADD COLUMN IF NOT EXISTS voice_type TEXT
+        CHECK (voice_type IN ('bass', 'baritone', 'tenor', 'alto', 'mezzo', 'soprano')),
+    ADD COLUMN IF NOT EXISTS vocal_range_updated_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS vocal_range_tests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    lowest_midi SMALLINT NOT NULL,
+    highest_midi SMALLINT NOT NULL,
+    comfortable_low_midi SMALLINT NOT NULL,
+    comfortable_high_midi SMALLINT NOT NULL,
+    -- The suggestion at the time of the test
+    voice_type TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (lowest_midi <= comfortable_low_midi
+        AND comfortable_low_midi <= comfortable_high_midi
+        AND comfortable_high_midi <= highest_midi)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vocal_range_tests_user ON vocal_range_tests(user_id, created_at DESC);
+
+ALTER TABLE vocal_range_tests ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through the API (ranges are validated there) with the service role.
+DROP POLICY IF EXISTS vocal_range_tests_select ON vocal_range_tests;
+CREATE POLICY vocal_range_tests_select ON vocal_range_tests FOR SELECT USING (
+    user_id = auth.uid()
+    OR EXISTS (
+        SELECT 1 FROM bookings
+        WHERE bookings.student_id = vocal_range_tests.user_id
+        AND bookings.instructor_id = auth.uid()
+    )
+    OR EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+COMMIT;
@@ -0,0 +1,62 @@
+-- ============================================================================
+-- Migration: Song key preferences
+-- Description: Lets the Song Key Trainer recommend a transposition from the
+--              student's vocal range. verified_song_keys gains the lead vocal
+--              melody's lowest and highest notes (MIDI) and when they were
+--              asked for, sessions record the key actually sung and how far
+--              it was shifted, and the key a student last practiced each
+--              song in is remembered in song_key_preferences. Written through
+--              the API (see lib/song-transposition.ts).
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE verified_song_keys
+    ADD COLUMN IF NOT EXISTS melody_low_midi SMALLINT
+        CHECK (melody_low_midi BETWEEN 28 AND 96),
+    ADD COLUMN IF NOT EXISTS melody_high_midi SMALLINT
+        CHECK (melody_high_midi BETWEEN 28 AND 96),
+    -- Set once the melody range has been asked for, found or not, so a song
+    -- with no known range isn't looked up again on every request
+    ADD COLUMN IF NOT EXISTS melody_checked_at TIMESTAMPTZ;
+
+-- song_key stays the key that was sung; original_key is the song's own
+ALTER TABLE song_key_training_sessions
+    ADD COLUMN IF NOT EXISTS original_key TEXT,
+    ADD COLUMN IF NOT EXISTS transpose_semitones SMALLINT NOT NULL DEFAULT 0
+        CHECK (transpose_semitones BETWEEN -11 AND 11);
+
+CREATE TABLE IF NOT EXISTS song_key_preferences (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    -- Lowercased, as in verified_song_keys
+    song_title TEXT NOT NULL,
+    song_artist TEXT NOT NULL DEFAULT '',
+    original_key TEXT NOT NULL,
+    mode TEXT NOT NULL CHECK (mode IN ('major', 'minor')),
+    preferred_key TEXT NOT NULL,
+    transpose_semitones SMALLINT NOT NULL DEFAULT 0
+        CHECK (transpose_semitones BETWEEN -11 AND 11),
+    times_practiced INTEGER NOT NULL DEFAULT 1,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (user_id, song_title, song_artist)
+);
+
+CREATE INDEX IF NOT EXISTS idx_song_key_preferences_user ON song_key_preferences(user_id, updated_at DESC);
+
+ALTER TABLE song_key_preferences ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through the API (when a session is saved) with the service role.
+DROP POLICY IF EXISTS song_key_preferences_select ON song_key_preferences;
+CREATE POLICY song_key_preferences_select ON song_key_preferences FOR SELECT USING (
+    user_id = auth.uid()
+    OR EXISTS (
+        SELECT 1 FROM bookings
+        WHERE bookings.student_id = song_key_preferences.user_id
+        AND bookings.instructor_id = auth.uid()
+    )
+    OR EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+COMMIT;
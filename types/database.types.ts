@@ -28,6 +28,16 @@ export interface Profile {
   role: ProfileRole | null;
   bio: string | null;
   avatar_url: string | null;
+  timezone?: string | null; // IANA zone; teachers' availability windows are in this zone
+  cancellation_window_hours?: number | null; // Teachers: students can't cancel/move lessons inside this window
+  booking_buffer_minutes?: number | null;
+  max_lessons_per_day?: number | null;
+  phone?: string | null;
+  lesson_reminder_email?: boolean;
+  lesson_reminder_sms?: boolean;
+  lesson_reminder_offsets?: number[]; // Minutes before each lesson
+  quiet_hours_start?: string | null; // HH:MM:SS in timezone; no reminders until quiet_hours_end
+  quiet_hours_end?: string | null;
   created_at: string;
 }
 
@@ -228,6 +238,7 @@ export type EmailTemplateCategory =
   | 'closing'
   | 'general'
   | 'lesson'
+  | 'lesson_reminder'
   | 'onboarding';
 
 export type FunnelStatus = 'draft' | 'active' | 'paused' | 'archived'
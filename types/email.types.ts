@@ -147,6 +147,10 @@ export interface Email {
   email_account_id: string
   headers: Record<string, string> | null
   scheduled_at: string | null
+  // Scheduled-send worker bookkeeping
+  send_attempt_count?: number
+  send_next_retry_at?: string | null
+  send_error?: string | null
   contact_id: string | null
   lead_id: string | null
   deal_id: string | null